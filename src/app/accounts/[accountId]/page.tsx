@@ -6,7 +6,9 @@ import { useParams, useRouter } from 'next/navigation';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { getAccounts, type Account, updateAccount as updateAccountInDb } from "@/services/account-sync";
-import { getTransactions, updateTransaction, deleteTransaction, type Transaction, addTransaction } from "@/services/transactions";
+import { getTransactions, updateTransaction, deleteTransaction, type Transaction, addTransaction, expandSplitTransactions } from "@/services/transactions";
+import { addTransfer } from '@/services/transfers';
+import { getFxGainLoss, type FxGainLoss } from '@/services/fx-gain-loss';
 import { getCategories, getCategoryStyle, Category } from '@/services/categories';
 import { getTags, type Tag, getTagStyle } from '@/services/tags';
 import { Badge } from "@/components/ui/badge";
@@ -18,12 +20,15 @@ import { Button } from '@/components/ui/button';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
-import { Edit, Trash2, MoreHorizontal, PlusCircle, ArrowDownCircle, ArrowUpCircle, ArrowLeftRight as TransferIcon, ChevronDown, ArrowLeft, CopyPlus } from 'lucide-react';
+import { Edit, Trash2, MoreHorizontal, PlusCircle, ArrowDownCircle, ArrowUpCircle, ArrowLeftRight as TransferIcon, ChevronDown, ArrowLeft, CopyPlus, Scale, Download } from 'lucide-react';
 import AddTransactionForm from '@/components/transactions/add-transaction-form';
+import ReconcileAccountDialog from '@/components/accounts/reconcile-account-dialog';
+import ExportTransactionsDialog from '@/components/transactions/export-transactions-dialog';
 import { useToast } from "@/hooks/use-toast";
-import type { AddTransactionFormData } from '@/components/transactions/add-transaction-form';
+import type { AddTransactionFormData, TransferFormSubmission } from '@/components/transactions/add-transaction-form';
 import MonthlySummarySidebar from '@/components/transactions/monthly-summary-sidebar';
 import SpendingChart from '@/components/dashboard/spending-chart';
+import OriginalAmountNote from '@/components/transactions/original-amount-note';
 import { useDateRange } from '@/contexts/DateRangeContext';
 import Link from 'next/link';
 
@@ -51,6 +56,7 @@ export default function AccountDetailPage() {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [preferredCurrency, setPreferredCurrency] = useState('BRL');
+  const [fxGainLoss, setFxGainLoss] = useState<FxGainLoss | null>(null);
   const { toast } = useToast();
   const { selectedDateRange } = useDateRange();
 
@@ -59,6 +65,8 @@ export default function AccountDetailPage() {
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [selectedTransaction, setSelectedTransaction] = useState<Transaction | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [isReconcileDialogOpen, setIsReconcileDialogOpen] = useState(false);
+  const [isExportDialogOpen, setIsExportDialogOpen] = useState(false);
   const [clonedTransactionData, setClonedTransactionData] = useState<Partial<AddTransactionFormData> | undefined>(undefined);
 
 
@@ -95,6 +103,13 @@ export default function AccountDetailPage() {
         fetchedTransactions.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
         setTransactions(fetchedTransactions);
 
+        setFxGainLoss(null);
+        if (targetAccount.currency.toUpperCase() !== prefs.preferredCurrency.toUpperCase()) {
+            getFxGainLoss(prefs.preferredCurrency, [targetAccount.id])
+                .then(report => setFxGainLoss(report.accounts[0] ?? null))
+                .catch(err => console.error("Failed to calculate the exchange gain/loss:", err));
+        }
+
     } catch (err: any) {
         console.error(`Failed to fetch data for account ${accountId}:`, err);
         setError("Could not load account data. Please try again later.");
@@ -149,7 +164,7 @@ export default function AccountDetailPage() {
 
       const categoryTotals: { [key: string]: number } = {};
 
-      filteredTransactions.forEach(tx => {
+      expandSplitTransactions(filteredTransactions).forEach(tx => {
           if (tx.amount < 0 && tx.category !== 'Transfer') {
               const convertedAmount = convertCurrency(Math.abs(tx.amount), tx.transactionCurrency, preferredCurrency);
               const category = tx.category || 'Uncategorized';
@@ -168,17 +183,18 @@ export default function AccountDetailPage() {
     setIsEditDialogOpen(true);
   };
 
-  const handleUpdateTransaction = async (formData: AddTransactionFormData) => {
+  const handleUpdateTransaction = async (formData: Omit<Transaction, 'id'> | Transaction) => {
     if (!selectedTransaction) return;
-    const transactionAmount = formData.type === 'expense' ? -Math.abs(formData.amount) : Math.abs(formData.amount);
+    // The form emits the edited transaction with signed amounts and its split lines, if any.
     const transactionToUpdate: Transaction = {
       ...selectedTransaction,
-      amount: transactionAmount,
+      amount: formData.amount,
       transactionCurrency: formData.transactionCurrency,
-      date: formatDateFns(formData.date, 'yyyy-MM-dd'),
+      date: formData.date,
       description: formData.description || selectedTransaction.description,
       category: formData.category || selectedTransaction.category,
       tags: formData.tags || [],
+      splits: formData.splits ?? null,
     };
     setIsLoading(true);
     try {
@@ -231,32 +247,18 @@ export default function AccountDetailPage() {
     }
   };
 
-   const handleTransferAdded = async (data: { fromAccountId: string; toAccountId: string; amount: number; date: Date; description?: string; tags?: string[]; transactionCurrency: string; }) => {
+   const handleTransferAdded = async (data: TransferFormSubmission) => {
     try {
-      const transferAmount = Math.abs(data.amount);
-      const formattedDate = formatDateFns(data.date, 'yyyy-MM-dd');
-      const currentAccounts = await getAccounts();
-      const fromAccountName = currentAccounts.find(a=>a.id === data.fromAccountId)?.name || 'Unknown';
-      const toAccountName = currentAccounts.find(a=>a.id === data.toAccountId)?.name || 'Unknown';
-      const desc = data.description || `Transfer from ${fromAccountName} to ${toAccountName}`;
-
-      await addTransaction({
-        accountId: data.fromAccountId,
-        amount: -transferAmount,
-        transactionCurrency: data.transactionCurrency,
-        date: formattedDate,
-        description: desc,
-        category: 'Transfer',
-        tags: data.tags || [],
-      });
-
-      await addTransaction({
-        accountId: data.toAccountId,
-        amount: transferAmount,
-        transactionCurrency: data.transactionCurrency,
-        date: formattedDate,
-        description: desc,
-        category: 'Transfer',
+      await addTransfer({
+        fromAccountId: data.fromAccountId,
+        toAccountId: data.toAccountId,
+        fromAmount: Math.abs(data.amount),
+        fromCurrency: data.transactionCurrency,
+        toAmount: Math.abs(data.toAccountAmount ?? data.amount),
+        toCurrency: data.toAccountCurrency || data.transactionCurrency,
+        fee: data.fee ?? null,
+        date: formatDateFns(data.date, 'yyyy-MM-dd'),
+        description: data.description || '',
         tags: data.tags || [],
       });
 
@@ -296,6 +298,7 @@ export default function AccountDetailPage() {
         description: `Clone of: ${transaction.description}`,
         category: transaction.category === 'Transfer' ? undefined : transaction.category,
         tags: transaction.tags || [],
+        splits: transaction.splits,
     };
 
     if (transaction.category === 'Transfer') {
@@ -384,7 +387,22 @@ export default function AccountDetailPage() {
             <p className="text-muted-foreground">Balance: {formatCurrency(account.balance, account.currency, account.currency, false)}
                 {account.currency !== preferredCurrency && ` (≈ ${formatCurrency(account.balance, account.currency, preferredCurrency, true)})`}
             </p>
+            {fxGainLoss && (
+                <p className="text-sm text-muted-foreground" title={`Worth ${formatCurrency(fxGainLoss.costBasis, fxGainLoss.targetCurrency, fxGainLoss.targetCurrency, false)} at the rates of the days the money moved`}>
+                    Exchange gain/loss:{' '}
+                    <span className={fxGainLoss.gainLoss >= 0 ? 'text-green-500 dark:text-green-400' : 'text-red-500 dark:text-red-400'}>
+                        {formatCurrency(fxGainLoss.gainLoss, fxGainLoss.targetCurrency, fxGainLoss.targetCurrency, false)}
+                    </span>
+                </p>
+            )}
         </div>
+        <div className="flex items-center gap-2">
+        <Button variant="outline" size="sm" onClick={() => setIsExportDialogOpen(true)} disabled={isLoading}>
+          <Download className="mr-2 h-4 w-4" /> Export
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => setIsReconcileDialogOpen(true)}>
+          <Scale className="mr-2 h-4 w-4" /> Reconcile
+        </Button>
         <DropdownMenu>
           <DropdownMenuTrigger asChild>
             <Button variant="default" size="sm">
@@ -405,8 +423,23 @@ export default function AccountDetailPage() {
             </DropdownMenuItem>
           </DropdownMenuContent>
         </DropdownMenu>
+        </div>
       </div>
 
+      <ReconcileAccountDialog
+        account={account}
+        open={isReconcileDialogOpen}
+        onOpenChange={setIsReconcileDialogOpen}
+        onReconciled={() => window.dispatchEvent(new Event('storage'))}
+      />
+
+      <ExportTransactionsDialog
+        transactions={filteredTransactions}
+        fileNamePrefix={account.name}
+        open={isExportDialogOpen}
+        onOpenChange={setIsExportDialogOpen}
+      />
+
       <Card className="mb-8">
           <CardHeader>
               <CardTitle>Spending Breakdown for {account.name}</CardTitle>
@@ -416,7 +449,7 @@ export default function AccountDetailPage() {
               {isLoading ? (
                   <Skeleton className="h-full w-full" />
               ) : spendingData.length > 0 ? (
-                  <SpendingChart data={spendingData} currency={preferredCurrency} />
+                  <SpendingChart data={spendingData} currency={preferredCurrency} categories={allCategories} />
               ) : (
                   <div className="flex h-full items-center justify-center text-muted-foreground">
                       No spending data for this account in the selected period.
@@ -456,6 +489,7 @@ export default function AccountDetailPage() {
                           <TableCell className="font-medium">{transaction.description}</TableCell>
                           <TableCell className={`text-right font-medium ${transaction.amount >= 0 ? 'text-green-500 dark:text-green-400' : 'text-red-500 dark:text-red-400'}`}>
                             <div>{formatCurrency(transaction.amount, transaction.transactionCurrency, transaction.transactionCurrency, false)}</div>
+                            <OriginalAmountNote transaction={transaction} />
                             {transaction.transactionCurrency.toUpperCase() !== preferredCurrency.toUpperCase() && (
                               <div className="text-xs text-muted-foreground">
                                 (≈ {formatCurrency(transaction.amount, transaction.transactionCurrency, preferredCurrency, true)})
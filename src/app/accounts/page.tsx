@@ -127,7 +127,7 @@ export default function AccountsPage() {
 
    const handleAccountUpdated = async (updatedAccountData: Account) => {
     try {
-      await updateAccount(updatedAccountData);
+      await updateAccount(updatedAccountData, { setBalance: updatedAccountData.balance !== selectedAccount?.balance });
       setIsEditDialogOpen(false);
       setSelectedAccount(null);
       toast({
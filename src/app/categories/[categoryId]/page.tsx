@@ -1,28 +1,36 @@
 'use client';
 
 import { useState, useEffect, useMemo, useCallback } from 'react';
+import Link from 'next/link';
 import { useParams, useRouter } from 'next/navigation';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { getAccounts, type Account } from "@/services/account-sync";
-import { getTransactions, updateTransaction, deleteTransaction, type Transaction, addTransaction } from "@/services/transactions";
+import { updateTransaction, deleteTransaction, type Transaction, addTransaction } from "@/services/transactions";
+import { addTransfer } from '@/services/transfers';
+import { getAllTransactions, runTransactionQuery } from '@/services/transaction-query';
 import { getCategories, getCategoryStyle, Category as CategoryType } from '@/services/categories';
 import { getTags, type Tag, getTagStyle } from '@/services/tags';
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { formatCurrency, convertCurrency } from '@/lib/currency';
 import { getUserPreferences } from '@/lib/preferences';
-import { format as formatDateFns, parseISO, isWithinInterval, isSameDay } from 'date-fns';
+import { format as formatDateFns, parseISO, isSameDay } from 'date-fns';
 import { Button } from '@/components/ui/button';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
-import { Edit, Trash2, MoreHorizontal, PlusCircle, ArrowDownCircle, ArrowUpCircle, ArrowLeftRight as TransferIcon, ChevronDown, ArrowLeft, CopyPlus } from 'lucide-react';
+import { Edit, Trash2, MoreHorizontal, PlusCircle, ArrowDownCircle, ArrowUpCircle, ArrowLeftRight as TransferIcon, ChevronDown, ArrowLeft, CopyPlus, Download } from 'lucide-react';
 import AddTransactionForm from '@/components/transactions/add-transaction-form';
 import { useToast } from '@/hooks/use-toast';
-import type { AddTransactionFormData } from '@/components/transactions/add-transaction-form';
+import type { AddTransactionFormData, TransferFormSubmission } from '@/components/transactions/add-transaction-form';
 import MonthlySummarySidebar from '@/components/transactions/monthly-summary-sidebar';
+import ExportTransactionsDialog from '@/components/transactions/export-transactions-dialog';
+import OriginalAmountNote from '@/components/transactions/original-amount-note';
 import { useDateRange } from '@/contexts/DateRangeContext';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { getCategoryAncestors, getCategoryNamesWithDescendants, getChildCategories, rollUpCategoryAmounts } from '@/lib/category-tree';
 
 const formatDate = (dateString: string): string => {
     try {
@@ -41,7 +49,7 @@ export default function CategoryDetailPage() {
   const categoryId = typeof params.categoryId === 'string' ? params.categoryId : undefined;
 
   const [category, setCategory] = useState<CategoryType | null>(null);
-  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [allTransactions, setAllTransactions] = useState<Transaction[]>([]);
   const [allCategories, setAllCategories] = useState<CategoryType[]>([]);
   const [allTags, setAllTags] = useState<Tag[]>([]);
   const [allAccounts, setAllAccounts] = useState<Account[]>([]);
@@ -56,6 +64,8 @@ export default function CategoryDetailPage() {
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [selectedTransaction, setSelectedTransaction] = useState<Transaction | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [isExportDialogOpen, setIsExportDialogOpen] = useState(false);
+  const [includeSubcategories, setIncludeSubcategories] = useState(true);
   const [clonedTransactionData, setClonedTransactionData] = useState<Partial<AddTransactionFormData> | undefined>(undefined);
 
   const fetchData = useCallback(async () => {
@@ -87,16 +97,7 @@ export default function CategoryDetailPage() {
         }
         setCategory(targetCategory);
 
-        if (fetchedAppAccounts.length > 0) {
-            const transactionPromises = fetchedAppAccounts.map(acc => getTransactions(acc.id));
-            const transactionsByAccount = await Promise.all(transactionPromises);
-            const combinedTransactions = transactionsByAccount.flat();
-            const categoryTransactions = combinedTransactions.filter(tx => tx.category === targetCategory.name);
-            categoryTransactions.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-            setTransactions(categoryTransactions);
-        } else {
-            setTransactions([]);
-        }
+        setAllTransactions(await getAllTransactions(fetchedAppAccounts.map(acc => acc.id)));
 
     } catch (err: any) {
         console.error(`Failed to fetch data for category ${categoryId}:`, err);
@@ -138,31 +139,50 @@ export default function CategoryDetailPage() {
   }, [categoryId, fetchData]);
 
 
-  const filteredTransactions = useMemo(() => {
-    if (isLoading) return [];
-    return transactions.filter(tx => {
-      const txDate = parseISO(tx.date.includes('T') ? tx.date : tx.date + 'T00:00:00Z');
-      if (!selectedDateRange.from || !selectedDateRange.to) return true;
-      return isWithinInterval(txDate, { start: selectedDateRange.from, end: selectedDateRange.to });
+  const hasSubcategories = useMemo(
+    () => !!category && getChildCategories(category.id, allCategories).length > 0,
+    [category, allCategories]
+  );
+
+  // Split transactions appear once per matching split line, with that line's amount.
+  const categoryQuery = useMemo(() => {
+    if (isLoading || !category) return null;
+    const categoryNames = includeSubcategories
+      ? Array.from(getCategoryNamesWithDescendants(category.id, allCategories))
+      : [category.name];
+    return runTransactionQuery(allTransactions, {
+      filter: { from: selectedDateRange.from, to: selectedDateRange.to, categories: categoryNames },
+      expandSplits: true,
+      targetCurrency: preferredCurrency,
     });
-  }, [transactions, isLoading, selectedDateRange]);
+  }, [allTransactions, allCategories, isLoading, selectedDateRange, category, includeSubcategories, preferredCurrency]);
+
+  const filteredTransactions = useMemo(() => categoryQuery?.transactions ?? [], [categoryQuery]);
+
+  // Net per direct subcategory (including its own subcategories), in the preferred currency.
+  const subcategoryTotals = useMemo(() => {
+    if (!categoryQuery || !category || !includeSubcategories) return [];
+    const netByCategory = new Map(categoryQuery.aggregates.byCategory.map(item => [item.category, item.income - item.expense]));
+    return rollUpCategoryAmounts(netByCategory, allCategories, category.id);
+  }, [categoryQuery, category, allCategories, includeSubcategories]);
 
   const openEditDialog = (transaction: Transaction) => {
     setSelectedTransaction(transaction);
     setIsEditDialogOpen(true);
   };
 
-  const handleUpdateTransaction = async (formData: AddTransactionFormData) => {
+  const handleUpdateTransaction = async (formData: Omit<Transaction, 'id'> | Transaction) => {
     if (!selectedTransaction) return;
-    const transactionAmount = formData.type === 'expense' ? -Math.abs(formData.amount) : Math.abs(formData.amount);
+    // The form emits the edited transaction with signed amounts and its split lines, if any.
     const transactionToUpdate: Transaction = {
       ...selectedTransaction,
-      amount: transactionAmount,
+      amount: formData.amount,
       transactionCurrency: formData.transactionCurrency,
-      date: formatDateFns(formData.date, 'yyyy-MM-dd'),
+      date: formData.date,
       description: formData.description || selectedTransaction.description,
       category: formData.category || selectedTransaction.category,
       tags: formData.tags || [],
+      splits: formData.splits ?? null,
     };
     setIsLoading(true);
     try {
@@ -216,32 +236,18 @@ export default function CategoryDetailPage() {
     }
   };
 
-   const handleTransferAdded = async (data: { fromAccountId: string; toAccountId: string; amount: number; date: Date; description?: string; tags?: string[]; transactionCurrency: string; }) => {
+   const handleTransferAdded = async (data: TransferFormSubmission) => {
     try {
-      const transferAmount = Math.abs(data.amount);
-      const formattedDate = formatDateFns(data.date, 'yyyy-MM-dd');
-      const currentAccounts = await getAccounts();
-      const fromAccountName = currentAccounts.find(a=>a.id === data.fromAccountId)?.name || 'Unknown';
-      const toAccountName = currentAccounts.find(a=>a.id === data.toAccountId)?.name || 'Unknown';
-      const desc = data.description || `Transfer from ${fromAccountName} to ${toAccountName}`;
-
-      await addTransaction({
-        accountId: data.fromAccountId,
-        amount: -transferAmount,
-        transactionCurrency: data.transactionCurrency,
-        date: formattedDate,
-        description: desc,
-        category: 'Transfer',
-        tags: data.tags || [],
-      });
-
-      await addTransaction({
-        accountId: data.toAccountId,
-        amount: transferAmount,
-        transactionCurrency: data.transactionCurrency,
-        date: formattedDate,
-        description: desc,
-        category: 'Transfer',
+      await addTransfer({
+        fromAccountId: data.fromAccountId,
+        toAccountId: data.toAccountId,
+        fromAmount: Math.abs(data.amount),
+        fromCurrency: data.transactionCurrency,
+        toAmount: Math.abs(data.toAccountAmount ?? data.amount),
+        toCurrency: data.toAccountCurrency || data.transactionCurrency,
+        fee: data.fee ?? null,
+        date: formatDateFns(data.date, 'yyyy-MM-dd'),
+        description: data.description || '',
         tags: data.tags || [],
       });
 
@@ -281,6 +287,7 @@ export default function CategoryDetailPage() {
         description: `Clone of: ${transaction.description}`,
         category: transaction.category === 'Transfer' ? undefined : transaction.category,
         tags: transaction.tags || [],
+        splits: transaction.splits,
     };
 
     if (transaction.category === 'Transfer') {
@@ -350,6 +357,7 @@ export default function CategoryDetailPage() {
   }
 
   const { icon: CategoryIcon, color: categoryColor } = getCategoryStyle(category);
+  const ancestors = getCategoryAncestors(category.id, allCategories);
 
 
   return (
@@ -359,10 +367,30 @@ export default function CategoryDetailPage() {
             <Button variant="ghost" size="sm" onClick={() => router.push('/organization')} className="mb-2 text-muted-foreground hover:text-primary px-0 h-auto">
                 <ArrowLeft className="mr-2 h-4 w-4" /> Back to Organization
             </Button>
+            {ancestors.length > 0 && (
+                <nav className="text-sm text-muted-foreground mb-1 capitalize">
+                    {ancestors.map(ancestor => (
+                        <span key={ancestor.id}>
+                            <Link href={`/categories/${ancestor.id}`} className="hover:text-primary hover:underline">{ancestor.name}</Link>
+                            {' › '}
+                        </span>
+                    ))}
+                </nav>
+            )}
             <h1 className="text-3xl font-bold flex items-center">
                 <CategoryIcon /> <span className="ml-2">{category.name} - Transactions</span>
             </h1>
         </div>
+        <div className="flex items-center gap-2">
+        {hasSubcategories && (
+          <div className="flex items-center gap-2 mr-2">
+            <Switch id="include-subcategories" checked={includeSubcategories} onCheckedChange={setIncludeSubcategories} />
+            <Label htmlFor="include-subcategories" className="text-sm">Include subcategories</Label>
+          </div>
+        )}
+        <Button variant="outline" size="sm" onClick={() => setIsExportDialogOpen(true)} disabled={isLoading}>
+          <Download className="mr-2 h-4 w-4" /> Export
+        </Button>
         <DropdownMenu>
           <DropdownMenuTrigger asChild>
             <Button variant="default" size="sm">
@@ -383,15 +411,46 @@ export default function CategoryDetailPage() {
             </DropdownMenuItem>
           </DropdownMenuContent>
         </DropdownMenu>
+        </div>
       </div>
 
       <div className="flex flex-col md:flex-row gap-8">
-        <div className="flex-grow">
+        <div className="flex-grow space-y-8">
+          {subcategoryTotals.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Subcategories ({dateRangeLabel})</CardTitle>
+                <CardDescription>Net amount per subcategory in {preferredCurrency}, including their own subcategories.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableBody>
+                    {subcategoryTotals.map(row => (
+                      <TableRow key={`${row.categoryId}-${row.name}`}>
+                        <TableCell className="font-medium capitalize">
+                          {row.categoryId && row.categoryId !== category.id ? (
+                            <Link href={`/categories/${row.categoryId}`} className="hover:text-primary hover:underline">{row.name}</Link>
+                          ) : (
+                            <span>{row.name} <span className="text-xs font-normal normal-case text-muted-foreground">(booked directly)</span></span>
+                          )}
+                        </TableCell>
+                        <TableCell className={`text-right font-medium ${row.amount >= 0 ? 'text-green-500 dark:text-green-400' : 'text-red-500 dark:text-red-400'}`}>
+                          {formatCurrency(row.amount, preferredCurrency, preferredCurrency, false)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          )}
           <Card>
             <CardHeader>
               <CardTitle>Transactions for {category.name} ({dateRangeLabel})</CardTitle>
               <CardDescription>
-                All transactions in the category: {category.name}.
+                {includeSubcategories && hasSubcategories
+                  ? `All transactions in ${category.name} and its subcategories.`
+                  : `All transactions in the category: ${category.name}.`}
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -411,10 +470,18 @@ export default function CategoryDetailPage() {
                     {filteredTransactions.map((transaction) => {
                       const account = allAccounts.find(acc => acc.id === transaction.accountId);
                       return (
-                        <TableRow key={transaction.id} className="hover:bg-muted/50">
-                          <TableCell className="font-medium">{transaction.description}</TableCell>
+                        <TableRow key={`${transaction.id}-${transaction.splitIndex ?? 'all'}`} className="hover:bg-muted/50">
+                          <TableCell className="font-medium">
+                            {transaction.description}
+                            {transaction.splitIndex !== null && (
+                              <span className="block text-xs font-normal text-muted-foreground">
+                                Split line{transaction.memo ? `: ${transaction.memo}` : ''} (of {formatCurrency(transaction.parent.amount, transaction.transactionCurrency, transaction.transactionCurrency, false)})
+                              </span>
+                            )}
+                          </TableCell>
                           <TableCell className={`text-right font-medium ${transaction.amount >= 0 ? 'text-green-500 dark:text-green-400' : 'text-red-500 dark:text-red-400'}`}>
                             <div>{formatCurrency(transaction.amount, transaction.transactionCurrency, transaction.transactionCurrency, false)}</div>
+                            <OriginalAmountNote transaction={transaction} />
                             {transaction.transactionCurrency.toUpperCase() !== preferredCurrency.toUpperCase() && (
                               <div className="text-xs text-muted-foreground">
                                 (≈ {formatCurrency(transaction.amount, transaction.transactionCurrency, preferredCurrency, true)})
@@ -441,11 +508,11 @@ export default function CategoryDetailPage() {
                                 <Button variant="ghost" size="sm" className="h-8 w-8 p-0"><span className="sr-only">Open menu</span><MoreHorizontal className="h-4 w-4" /></Button>
                               </DropdownMenuTrigger>
                               <DropdownMenuContent align="end">
-                                <DropdownMenuItem onClick={() => openEditDialog(transaction)}><Edit className="mr-2 h-4 w-4" /> Edit</DropdownMenuItem>
-                                <DropdownMenuItem onClick={() => openCloneAndEditDialog(transaction)}><CopyPlus className="mr-2 h-4 w-4" /> Clone & Edit</DropdownMenuItem>
+                                <DropdownMenuItem onClick={() => openEditDialog(transaction.parent)}><Edit className="mr-2 h-4 w-4" /> Edit</DropdownMenuItem>
+                                <DropdownMenuItem onClick={() => openCloneAndEditDialog(transaction.parent)}><CopyPlus className="mr-2 h-4 w-4" /> Clone & Edit</DropdownMenuItem>
                                 <AlertDialog>
                                   <AlertDialogTrigger asChild>
-                                    <div className="relative flex cursor-default select-none items-center gap-2 rounded-sm px-2 py-1.5 text-sm outline-none transition-colors focus:bg-destructive/10 focus:text-destructive text-destructive data-[disabled]:pointer-events-none data-[disabled]:opacity-50" onClick={() => openDeleteDialog(transaction)}>
+                                    <div className="relative flex cursor-default select-none items-center gap-2 rounded-sm px-2 py-1.5 text-sm outline-none transition-colors focus:bg-destructive/10 focus:text-destructive text-destructive data-[disabled]:pointer-events-none data-[disabled]:opacity-50" onClick={() => openDeleteDialog(transaction.parent)}>
                                       <Trash2 className="mr-2 h-4 w-4" /> Delete
                                     </div>
                                   </AlertDialogTrigger>
@@ -515,6 +582,13 @@ export default function CategoryDetailPage() {
           )}
         </DialogContent>
       </Dialog>
+
+      <ExportTransactionsDialog
+        transactions={filteredTransactions}
+        fileNamePrefix={category.name}
+        open={isExportDialogOpen}
+        onOpenChange={setIsExportDialogOpen}
+      />
     </div>
   );
 }
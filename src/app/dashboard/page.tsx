@@ -9,15 +9,24 @@ import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigge
 import { RefreshCw, TrendingUp, TrendingDown, Wallet, Landmark, Scale, PiggyBank, PlusCircle, ArrowDownCircle, ArrowUpCircle, ArrowLeftRight as TransferIcon, ChevronDown } from "lucide-react";
 import KpiCard from "@/components/dashboard/kpi-card";
 import NetWorthCompositionChart, { type NetWorthChartDataPoint } from "@/components/dashboard/net-worth-composition-chart";
+import NetWorthHistoryChart from "@/components/dashboard/net-worth-history-chart";
 import { getUserPreferences } from '@/lib/preferences';
-import { formatCurrency, convertCurrency } from '@/lib/currency';
+import { formatCurrency, convertCurrency, createHistoricalConverter, supportedCurrencies } from '@/lib/currency';
+import { loadHistoricalExchangeRates } from '@/services/exchange-rates';
+import MissingRatesAlert from '@/components/exchange-rates/missing-rates-alert';
 import { TooltipProvider } from '@/components/ui/tooltip';
 import { Skeleton } from '@/components/ui/skeleton';
 import { getAccounts, type Account } from "@/services/account-sync";
-import { getTransactions, addTransaction, type Transaction } from "@/services/transactions";
+import { addTransaction, expandSplitTransactions, type Transaction } from "@/services/transactions";
+import { getAllTransactions, runTransactionQuery } from "@/services/transaction-query";
+import { getNetWorthHistory, type NetWorthGranularity, type NetWorthHistory } from "@/services/net-worth-history";
 import { getCategories, type Category } from '@/services/categories';
 import { getTags, type Tag } from '@/services/tags';
-import { format as formatDateFns, startOfMonth, endOfMonth, isWithinInterval, parseISO, isSameDay } from 'date-fns'; 
+import { getGroups, type Group } from '@/services/groups';
+import { getBudgets, type Budget } from '@/services/budgets';
+import { evaluateBudget, type BudgetEvaluation } from '@/lib/budget-evaluation';
+import BudgetAlerts from '@/components/budgets/budget-alerts';
+import { format as formatDateFns, startOfMonth, endOfMonth, isSameDay } from 'date-fns'; 
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog"; 
 import AddTransactionForm from '@/components/transactions/add-transaction-form';
 import type { AddTransactionFormData } from '@/components/transactions/add-transaction-form';
@@ -33,6 +42,8 @@ export default function DashboardPage() {
   const [allTransactions, setAllTransactions] = useState<Transaction[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
   const [tags, setTags] = useState<Tag[]>([]);
+  const [groups, setGroups] = useState<Group[]>([]);
+  const [budgets, setBudgets] = useState<Budget[]>([]);
   const { toast } = useToast();
 
   const [isAddTransactionDialogOpen, setIsAddTransactionDialogOpen] = useState(false);
@@ -41,6 +52,10 @@ export default function DashboardPage() {
   const { selectedDateRange, setSelectedDateRange: setGlobalDateRange } = useDateRange(); 
   const [selectedAccountFilter, setSelectedAccountFilter] = useState<string>('all');
   const [selectedCategoryFilter, setSelectedCategoryFilter] = useState<string>('all');
+  const [netWorthGranularity, setNetWorthGranularity] = useState<NetWorthGranularity>('month');
+  const [netWorthCurrency, setNetWorthCurrency] = useState<string | null>(null); // null follows the preferred currency
+  const [netWorthHistory, setNetWorthHistory] = useState<NetWorthHistory | null>(null);
+  const [isLoadingNetWorthHistory, setIsLoadingNetWorthHistory] = useState(false);
 
 
   const fetchData = useCallback(async () => {
@@ -52,24 +67,22 @@ export default function DashboardPage() {
       try {
         const prefs = await getUserPreferences(); 
         setPreferredCurrency(prefs.preferredCurrency);
+        await loadHistoricalExchangeRates();
 
-        const [fetchedAccounts, fetchedCategories, fetchedTagsList] = await Promise.all([
+        const [fetchedAccounts, fetchedCategories, fetchedTagsList, fetchedGroups, fetchedBudgets] = await Promise.all([
           getAccounts(),
           getCategories(),
-          getTags()
+          getTags(),
+          getGroups(),
+          getBudgets()
         ]);
         setAccounts(fetchedAccounts);
         setCategories(fetchedCategories);
         setTags(fetchedTagsList);
+        setGroups(fetchedGroups);
+        setBudgets(fetchedBudgets);
 
-        if (fetchedAccounts.length > 0) {
-          const transactionPromises = fetchedAccounts.map(acc => getTransactions(acc.id));
-          const transactionsByAccount = await Promise.all(transactionPromises);
-          const combinedTransactions = transactionsByAccount.flat();
-          setAllTransactions(combinedTransactions);
-        } else {
-          setAllTransactions([]);
-        }
+        setAllTransactions(await getAllTransactions(fetchedAccounts.map(acc => acc.id)));
 
         setLastUpdated(new Date());
       } catch (error) {
@@ -86,7 +99,7 @@ export default function DashboardPage() {
     const handleStorageChange = (event: StorageEvent) => {
       if (event.type === 'storage') {
             const isLikelyOurCustomEvent = event.key === null;
-            const relevantKeysForThisPage = ['userAccounts', 'userPreferences', 'userCategories', 'userTags', 'transactions-']; // transactions- for any account change
+            const relevantKeysForThisPage = ['userAccounts', 'userPreferences', 'userCategories', 'userTags', 'userGroups', 'userBudgets', 'transactions-']; // transactions- for any account change
             const isRelevantExternalChange = typeof event.key === 'string' && relevantKeysForThisPage.some(k => event.key.includes(k));
 
             if (isLikelyOurCustomEvent || isRelevantExternalChange) {
@@ -107,6 +120,26 @@ export default function DashboardPage() {
     };
   }, [fetchData]); 
 
+  // Reloaded with the dashboard data (allTransactions changes on every refetch).
+  useEffect(() => {
+    if (isLoading || typeof window === 'undefined') return;
+    let cancelled = false;
+    setIsLoadingNetWorthHistory(true);
+    getNetWorthHistory({
+      from: selectedDateRange.from,
+      to: selectedDateRange.to,
+      granularity: netWorthGranularity,
+      currency: netWorthCurrency || preferredCurrency,
+    })
+      .then(history => { if (!cancelled) setNetWorthHistory(history); })
+      .catch(error => {
+        console.error("Failed to build net worth history:", error);
+        if (!cancelled) toast({ title: "Error", description: "Could not load the net worth history.", variant: "destructive" });
+      })
+      .finally(() => { if (!cancelled) setIsLoadingNetWorthHistory(false); });
+    return () => { cancelled = true; };
+  }, [isLoading, allTransactions, selectedDateRange, netWorthGranularity, netWorthCurrency, preferredCurrency, toast]);
+
   const handleRefresh = async () => {
      await fetchData();
   };
@@ -128,46 +161,44 @@ export default function DashboardPage() {
     }, 0);
   }, [accounts, preferredCurrency, isLoading]);
 
-  const selectedPeriodTransactions = useMemo(() => {
-    if (isLoading) return [];
-    return allTransactions.filter(tx => {
-      const txDate = parseISO(tx.date.includes('T') ? tx.date : tx.date + 'T00:00:00Z');
-      const isInDateRange = selectedDateRange.from && selectedDateRange.to ? 
-                            isWithinInterval(txDate, { start: selectedDateRange.from, end: selectedDateRange.to }) : 
-                            true; 
-      
-      const matchesAccountFilter = selectedAccountFilter === 'all' || tx.accountId === selectedAccountFilter;
-      const matchesCategoryFilter = selectedCategoryFilter === 'all' || tx.category === selectedCategoryFilter;
-
-      return isInDateRange && matchesAccountFilter && matchesCategoryFilter;
+  // Split transactions are filtered line by line so the category filter sees each split category.
+  const periodQuery = useMemo(() => {
+    if (isLoading) return null;
+    return runTransactionQuery(allTransactions, {
+      filter: {
+        from: selectedDateRange.from,
+        to: selectedDateRange.to,
+        accountIds: selectedAccountFilter === 'all' ? undefined : [selectedAccountFilter],
+        categories: selectedCategoryFilter === 'all' ? undefined : [selectedCategoryFilter],
+      },
+      targetCurrency: preferredCurrency,
     });
-  }, [allTransactions, isLoading, selectedDateRange, selectedAccountFilter, selectedCategoryFilter]);
+  }, [allTransactions, isLoading, selectedDateRange, selectedAccountFilter, selectedCategoryFilter, preferredCurrency]);
 
-  const periodIncome = useMemo(() => {
-    if (isLoading || typeof window === 'undefined') return 0;
-    return selectedPeriodTransactions.reduce((sum, tx) => {
-      if (tx.amount > 0 && tx.category !== 'Transfer') { 
-        const account = accounts.find(acc => acc.id === tx.accountId);
-        if (account) {
-          return sum + convertCurrency(tx.amount, tx.transactionCurrency, preferredCurrency);
-        }
-      }
-      return sum;
-    }, 0);
-  }, [selectedPeriodTransactions, accounts, preferredCurrency, isLoading]);
+  const periodIncome = periodQuery?.aggregates.income ?? 0;
+  const periodExpenses = periodQuery?.aggregates.expense ?? 0;
 
-  const periodExpenses = useMemo(() => {
-    if (isLoading || typeof window === 'undefined') return 0;
-    return selectedPeriodTransactions.reduce((sum, tx) => {
-      if (tx.amount < 0 && tx.category !== 'Transfer') { 
-        const account = accounts.find(acc => acc.id === tx.accountId);
-        if (account) {
-          return sum + convertCurrency(Math.abs(tx.amount), tx.transactionCurrency, preferredCurrency);
-        }
-      }
-      return sum;
-    }, 0);
-  }, [selectedPeriodTransactions, accounts, preferredCurrency, isLoading]);
+  // Transaction amounts are valued at the rate effective on each transaction's date.
+  const historicalConverter = useMemo(
+    () => createHistoricalConverter(),
+    [allTransactions, preferredCurrency]
+  );
+
+  // Budgets track their own periods, independent of the selected date range and filters.
+  const budgetEvaluations = useMemo(() => {
+    if (isLoading) return {};
+    const evaluations: Record<string, BudgetEvaluation> = {};
+    budgets.forEach(budget => {
+      evaluations[budget.id] = evaluateBudget(budget, expandSplitTransactions(allTransactions), categories, groups, { convert: historicalConverter.convert });
+    });
+    return evaluations;
+  }, [budgets, allTransactions, categories, groups, isLoading, historicalConverter]);
+
+  // The period totals and net worth history use their own converters, so their missing rates are merged in.
+  const missingExchangeRates = Array.from(new Map(
+    [...historicalConverter.getMissingRates(), ...(periodQuery?.aggregates.missingExchangeRates || []), ...(netWorthHistory?.missingExchangeRates || [])]
+      .map(rate => [`${rate.sourceCurrency}/${rate.targetCurrency}@${rate.date}`, rate])
+  ).values()).sort((a, b) => a.date.localeCompare(b.date));
 
   const totalAssetsValue = useMemo(() => {
     if (isLoading || typeof window === 'undefined') return 0;
@@ -258,6 +289,8 @@ export default function DashboardPage() {
          <div className="flex justify-between items-center"> 
             <h1 className="text-3xl font-bold">Dashboard</h1>
          </div>
+         <MissingRatesAlert missingRates={missingExchangeRates} />
+         <BudgetAlerts budgets={budgets} evaluations={budgetEvaluations} />
 
 
         <Card>
@@ -355,6 +388,44 @@ export default function DashboardPage() {
           />
         </div>
 
+        <Card>
+          <CardHeader className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-2">
+            <div>
+              <CardTitle>Net Worth Over Time ({netWorthCurrency || preferredCurrency})</CardTitle>
+              <CardDescription>Reconstructed from current balances and transaction history for {dateRangeLabel}.</CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Select value={netWorthGranularity} onValueChange={(value) => setNetWorthGranularity(value as NetWorthGranularity)}>
+                <SelectTrigger className="w-[120px]"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="day">Daily</SelectItem>
+                  <SelectItem value="week">Weekly</SelectItem>
+                  <SelectItem value="month">Monthly</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select value={netWorthCurrency || preferredCurrency} onValueChange={setNetWorthCurrency}>
+                <SelectTrigger className="w-[100px]"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {supportedCurrencies.map(currency => (
+                    <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardHeader>
+          <CardContent className="h-[300px] sm:h-[350px]">
+            {isLoadingNetWorthHistory && !netWorthHistory ? (
+              <Skeleton className="h-full w-full" />
+            ) : (
+              <NetWorthHistoryChart
+                data={netWorthHistory?.points || []}
+                currency={netWorthHistory?.currency || preferredCurrency}
+                granularity={netWorthGranularity}
+              />
+            )}
+          </CardContent>
+        </Card>
+
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           <Card>
             <CardHeader>
@@ -5,14 +5,18 @@ import { useState, useEffect, useMemo, useCallback } from 'react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { getAccounts, type Account } from "@/services/account-sync";
-import { getTransactions, updateTransaction, deleteTransaction, type Transaction, addTransaction } from "@/services/transactions";
+import { updateTransaction, deleteTransaction, type Transaction, addTransaction } from "@/services/transactions";
+import { addTransfer } from '@/services/transfers';
+import { getAllTransactions, runTransactionQuery } from '@/services/transaction-query';
 import { getCategories, getCategoryStyle, Category } from '@/services/categories';
 import { getTags, type Tag, getTagStyle } from '@/services/tags';
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
-import { formatCurrency, convertCurrency } from '@/lib/currency';
+import { formatCurrency, convertCurrency, createHistoricalConverter } from '@/lib/currency';
+import { loadHistoricalExchangeRates } from '@/services/exchange-rates';
+import MissingRatesAlert from '@/components/exchange-rates/missing-rates-alert';
 import { getUserPreferences } from '@/lib/preferences';
-import { format as formatDateFns, parseISO, isWithinInterval, isSameDay } from 'date-fns';
+import { format as formatDateFns, parseISO, isSameDay } from 'date-fns';
 import { Button } from '@/components/ui/button';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
@@ -20,8 +24,12 @@ import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
 import { Edit, Trash2, MoreHorizontal, PlusCircle, ArrowDownCircle, ArrowUpCircle, ArrowLeftRight as TransferIcon, ChevronDown, CopyPlus } from 'lucide-react';
 import AddTransactionForm from '@/components/transactions/add-transaction-form';
 import { useToast } from '@/hooks/use-toast';
-import type { AddTransactionFormData } from '@/components/transactions/add-transaction-form';
+import type { AddTransactionFormData, TransferFormSubmission } from '@/components/transactions/add-transaction-form';
 import MonthlySummarySidebar from '@/components/transactions/monthly-summary-sidebar';
+import OriginalAmountNote from '@/components/transactions/original-amount-note';
+import BulkTransactionActions from '@/components/transactions/bulk-transaction-actions';
+import { Checkbox } from '@/components/ui/checkbox';
+import { useTransactionSelection } from '@/hooks/use-transaction-selection';
 import { useDateRange } from '@/contexts/DateRangeContext';
 import Link from 'next/link';
 
@@ -70,6 +78,7 @@ export default function ExpensesPage() {
     try {
         const prefs = await getUserPreferences();
         setPreferredCurrency(prefs.preferredCurrency);
+        await loadHistoricalExchangeRates();
 
         const [fetchedAccounts, fetchedCategories, fetchedTags] = await Promise.all([
             getAccounts(),
@@ -81,15 +90,7 @@ export default function ExpensesPage() {
         setAllCategories(fetchedCategories);
         setAllTags(fetchedTags);
 
-        if (fetchedAccounts.length > 0) {
-            const transactionPromises = fetchedAccounts.map(acc => getTransactions(acc.id));
-            const transactionsByAccount = await Promise.all(transactionPromises);
-            const combinedTransactions = transactionsByAccount.flat();
-            combinedTransactions.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-            setAllTransactionsUnfiltered(combinedTransactions);
-        } else {
-            setAllTransactionsUnfiltered([]);
-        }
+        setAllTransactionsUnfiltered(await getAllTransactions(fetchedAccounts.map(acc => acc.id)));
 
     } catch (err: any) {
         console.error("Failed to fetch expense data:", err);
@@ -133,14 +134,25 @@ export default function ExpensesPage() {
 
   const expenseTransactions = useMemo(() => {
     if (isLoading) return [];
-    return allTransactionsUnfiltered.filter(tx => {
-      const txDate = parseISO(tx.date.includes('T') ? tx.date : tx.date + 'T00:00:00Z');
-      const isInDateRange = selectedDateRange.from && selectedDateRange.to ?
-                            isWithinInterval(txDate, { start: selectedDateRange.from, end: selectedDateRange.to }) :
-                            true;
-      return tx.amount < 0 && tx.category !== 'Transfer' && isInDateRange;
+    return runTransactionQuery(allTransactionsUnfiltered, {
+      filter: { from: selectedDateRange.from, to: selectedDateRange.to, kinds: ['expense'] },
+      targetCurrency: preferredCurrency,
+    }).transactions;
+  }, [allTransactionsUnfiltered, isLoading, selectedDateRange, preferredCurrency]);
+
+  const selection = useTransactionSelection(expenseTransactions);
+
+  // Preferred-currency amounts at the rate effective on each transaction's date.
+  const { preferredAmounts, missingExchangeRates } = useMemo(() => {
+    const converter = createHistoricalConverter();
+    const amounts = new Map<string, number>();
+    expenseTransactions.forEach(tx => {
+      if (tx.transactionCurrency.toUpperCase() !== preferredCurrency.toUpperCase()) {
+        amounts.set(tx.id, converter.convert(tx.amount, tx.transactionCurrency, preferredCurrency, tx.date));
+      }
     });
-  }, [allTransactionsUnfiltered, isLoading, selectedDateRange]);
+    return { preferredAmounts: amounts, missingExchangeRates: converter.getMissingRates() };
+  }, [expenseTransactions, preferredCurrency]);
 
    const getAccountForTransaction = (accountId: string): Account | undefined => {
         return accounts.find(acc => acc.id === accountId);
@@ -151,20 +163,20 @@ export default function ExpensesPage() {
         setIsEditDialogOpen(true);
     };
 
-    const handleUpdateTransaction = async (formData: AddTransactionFormData) => {
+    const handleUpdateTransaction = async (formData: Omit<Transaction, 'id'> | Transaction) => {
         if (!selectedTransaction) return;
         console.log("Form data received for update:", formData);
 
-        const transactionAmount = formData.type === 'expense' ? -Math.abs(formData.amount) : Math.abs(formData.amount);
-
+        // The form emits the edited transaction with signed amounts and its split lines, if any.
         const transactionToUpdate: Transaction = {
             ...selectedTransaction,
-            amount: transactionAmount,
+            amount: formData.amount,
             transactionCurrency: formData.transactionCurrency,
-            date: formatDateFns(formData.date, 'yyyy-MM-dd'),
+            date: formData.date,
             description: formData.description || selectedTransaction.description,
             category: formData.category || selectedTransaction.category,
             tags: formData.tags || [],
+            splits: formData.splits ?? null,
         };
 
         setIsLoading(true);
@@ -233,31 +245,18 @@ export default function ExpensesPage() {
     }
   };
 
-  const handleTransferAdded = async (data: { fromAccountId: string; toAccountId: string; amount: number; date: Date; description?: string; tags?: string[], transactionCurrency: string }) => {
+  const handleTransferAdded = async (data: TransferFormSubmission) => {
     try {
-      const transferAmount = Math.abs(data.amount);
-      const formattedDate = formatDateFns(data.date, 'yyyy-MM-dd');
-      const fromAccountName = accounts.find(a=>a.id === data.fromAccountId)?.name || 'Unknown Account';
-      const toAccountName = accounts.find(a=>a.id === data.toAccountId)?.name || 'Unknown Account';
-      const desc = data.description || `Transfer from ${fromAccountName} to ${toAccountName}`;
-
-      await addTransaction({
-        accountId: data.fromAccountId,
-        amount: -transferAmount,
-        transactionCurrency: data.transactionCurrency,
-        date: formattedDate,
-        description: desc,
-        category: 'Transfer',
-        tags: data.tags || [],
-      });
-
-      await addTransaction({
-        accountId: data.toAccountId,
-        amount: transferAmount,
-        transactionCurrency: data.transactionCurrency,
-        date: formattedDate,
-        description: desc,
-        category: 'Transfer',
+      await addTransfer({
+        fromAccountId: data.fromAccountId,
+        toAccountId: data.toAccountId,
+        fromAmount: Math.abs(data.amount),
+        fromCurrency: data.transactionCurrency,
+        toAmount: Math.abs(data.toAccountAmount ?? data.amount),
+        toCurrency: data.toAccountCurrency || data.transactionCurrency,
+        fee: data.fee ?? null,
+        date: formatDateFns(data.date, 'yyyy-MM-dd'),
+        description: data.description || '',
         tags: data.tags || [],
       });
 
@@ -305,6 +304,7 @@ export default function ExpensesPage() {
         description: `Clone of: ${transaction.description}`,
         category: transaction.category === 'Transfer' ? undefined : transaction.category,
         tags: transaction.tags || [],
+        splits: transaction.splits,
     };
 
     if (transaction.category === 'Transfer') {
@@ -370,6 +370,8 @@ export default function ExpensesPage() {
             </DropdownMenu>
         </div>
 
+        <MissingRatesAlert missingRates={missingExchangeRates} />
+
         {error && (
             <div className="mb-4 p-4 bg-destructive/10 text-destructive border border-destructive rounded-md">
                 {error}
@@ -393,6 +395,17 @@ export default function ExpensesPage() {
                         </div>
                     </CardHeader>
                     <CardContent>
+                    {selection.selectedTransactions.length > 0 && (
+                        <div className="mb-4">
+                            <BulkTransactionActions
+                                selectedTransactions={selection.selectedTransactions}
+                                accounts={accounts}
+                                categories={allCategories}
+                                tags={allTags}
+                                onClearSelection={selection.clear}
+                            />
+                        </div>
+                    )}
                     {isLoading && expenseTransactions.length === 0 ? (
                         <div className="space-y-2">
                         {[...Array(5)].map((_, i) => (
@@ -403,6 +416,13 @@ export default function ExpensesPage() {
                         <Table>
                         <TableHeader>
                             <TableRow>
+                            <TableHead className="w-10">
+                                <Checkbox
+                                    checked={selection.isAllSelected ? true : selection.isPartiallySelected ? 'indeterminate' : false}
+                                    onCheckedChange={selection.toggleAll}
+                                    aria-label="Select all transactions"
+                                />
+                            </TableHead>
                             <TableHead>Description</TableHead>
                             <TableHead className="text-right">Amount</TableHead>
                             <TableHead>Date</TableHead>
@@ -421,13 +441,21 @@ export default function ExpensesPage() {
                                 const { icon: CategoryIcon, color } = getCategoryStyle(categoryDetails);
 
                                 return (
-                                    <TableRow key={transaction.id} className="hover:bg-muted/50">
+                                    <TableRow key={transaction.id} className="hover:bg-muted/50" data-state={selection.isSelected(transaction.id) ? 'selected' : undefined}>
+                                        <TableCell>
+                                            <Checkbox
+                                                checked={selection.isSelected(transaction.id)}
+                                                onCheckedChange={() => selection.toggle(transaction.id)}
+                                                aria-label={`Select "${transaction.description}"`}
+                                            />
+                                        </TableCell>
                                         <TableCell className="font-medium">{transaction.description}</TableCell>
                                         <TableCell className={`text-right font-medium text-red-500 dark:text-red-400`}>
                                             <div>{formatCurrency(transaction.amount, transaction.transactionCurrency, transaction.transactionCurrency, false)}</div>
+                                            <OriginalAmountNote transaction={transaction} />
                                             {transaction.transactionCurrency.toUpperCase() !== preferredCurrency.toUpperCase() && (
                                             <div className="text-xs text-muted-foreground">
-                                                (≈ {formatCurrency(transaction.amount, transaction.transactionCurrency, preferredCurrency, true)})
+                                                (≈ {formatCurrency(preferredAmounts.get(transaction.id) ?? transaction.amount, preferredCurrency, preferredCurrency, false)})
                                             </div>
                                             )}
                                         </TableCell>
@@ -5,7 +5,7 @@ import { useState, useEffect, useMemo, useCallback } from 'react';
 import Link from 'next/link';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from "@/components/ui/card";
 import { Button, buttonVariants } from "@/components/ui/button";
-import { PlusCircle, ArrowUpCircle, ArrowDownCircle, Users, Eye, Landmark, PercentCircle, PiggyBank, Trash2, Edit, MoreHorizontal, Settings2, CreditCard as CreditCardIconLucide } from 'lucide-react';
+import { PlusCircle, RefreshCw, ArrowUpCircle, ArrowDownCircle, Users, Eye, Landmark, PercentCircle, PiggyBank, Trash2, Edit, MoreHorizontal, Settings2, CreditCard as CreditCardIconLucide } from 'lucide-react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogTrigger } from "@/components/ui/dialog";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
@@ -15,28 +15,37 @@ import { Label } from "@/components/ui/label";
 import AddSubscriptionForm, { type AddSubscriptionFormData } from '@/components/subscriptions/add-subscription-form';
 import type { Subscription, SubscriptionFrequency } from '@/services/subscriptions';
 import { getSubscriptions, addSubscription as saveSubscription, deleteSubscription, updateSubscription } from '@/services/subscriptions';
+import { processDueSubscriptions, settleNextSubscriptionOccurrence, getPendingSubscriptionPayments } from '@/services/recurring-transactions';
 import { getCategories, type Category, getCategoryStyle } from '@/services/categories';
 import { getAccounts, type Account } from '@/services/account-sync';
 import { getGroups, type Group } from '@/services/groups';
 
 import AddLoanForm, { type AddLoanFormData } from '@/components/loans/add-loan-form';
-import type { Loan, NewLoanData, LoanType } from '@/services/loans';
-import { getLoans, addLoan as saveLoan, deleteLoan as removeLoan, updateLoan as changeLoan, loanTypeLabels } from '@/services/loans';
+import PostLoanPaymentForm from '@/components/loans/post-loan-payment-form';
+import LoanSchedule from '@/components/loans/loan-schedule';
+import type { Loan, NewLoanData, LoanType, LoanPaymentInput } from '@/services/loans';
+import { getLoans, addLoan as saveLoan, deleteLoan as removeLoan, updateLoan as changeLoan, loanTypeLabels, postLoanPayment, addLoanRateChange, deleteLoanRateChange } from '@/services/loans';
+import { buildAmortizationSchedule, type LoanRateChange } from '@/lib/loan-amortization';
 
 import AddCreditCardForm, { type AddCreditCardFormData } from '@/components/credit-cards/add-credit-card-form';
-import type { CreditCard, NewCreditCardData } from '@/services/credit-cards';
-import { getCreditCards, addCreditCard as saveCreditCard, deleteCreditCard as removeCreditCard, updateCreditCard as changeCreditCard } from '@/services/credit-cards';
+import CreditCardStatements from '@/components/credit-cards/credit-card-statements';
+import type { CreditCard, NewCreditCardData, CreditCardPaymentInput } from '@/services/credit-cards';
+import { getCreditCards, addCreditCard as saveCreditCard, deleteCreditCard as removeCreditCard, updateCreditCard as changeCreditCard, ensureCreditCardAccount, payCreditCardStatement, getCreditCardAmountOwed, getCreditCardUtilization } from '@/services/credit-cards';
 
 import AddBudgetForm, { type AddBudgetFormData } from '@/components/budgets/add-budget-form';
 import type { Budget, NewBudgetData } from '@/services/budgets';
-import { getBudgets, addBudget as saveBudget, deleteBudget as removeBudgetDb, updateBudget as changeBudget } from '@/services/budgets';
+import { getBudgets, addBudget as saveBudget, deleteBudget as removeBudgetDb, updateBudget as changeBudget, getBudgetEvaluations } from '@/services/budgets';
+import BudgetProgress from '@/components/budgets/budget-progress';
+import type { BudgetEvaluation } from '@/lib/budget-evaluation';
 import { Progress } from '@/components/ui/progress';
+import MissingRatesAlert from '@/components/exchange-rates/missing-rates-alert';
+import type { MissingExchangeRate } from '@/lib/currency';
 
 
 import { useToast } from '@/hooks/use-toast';
 import { formatCurrency, convertCurrency, getCurrencySymbol } from '@/lib/currency';
 import { getUserPreferences } from '@/lib/preferences';
-import { format, parseISO, isSameMonth, isSameYear } from 'date-fns';
+import { format, parseISO, isSameDay, isSameMonth, isSameYear } from 'date-fns';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Separator } from '@/components/ui/separator';
 import { Badge } from '@/components/ui/badge';
@@ -47,6 +56,8 @@ export default function FinancialControlPage() {
   const [subscriptions, setSubscriptions] = useState<Subscription[]>([]);
   const [editingSubscription, setEditingSubscription] = useState<Subscription | null>(null);
   const [isLoadingSubscriptions, setIsLoadingSubscriptions] = useState(true);
+  const [isPostingRecurring, setIsPostingRecurring] = useState(false);
+  const [isConfirmingRecurring, setIsConfirmingRecurring] = useState(false);
 
   // Loans State
   const [isAddLoanDialogOpen, setIsAddLoanDialogOpen] = useState(false);
@@ -55,6 +66,9 @@ export default function FinancialControlPage() {
   const [isLoadingLoans, setIsLoadingLoans] = useState(true);
   const [loanToDelete, setLoanToDelete] = useState<Loan | null>(null);
   const [isDeletingLoan, setIsDeletingLoan] = useState(false);
+  const [scheduleLoanId, setScheduleLoanId] = useState<string | null>(null);
+  const [payingLoanId, setPayingLoanId] = useState<string | null>(null);
+  const [isSavingLoanAction, setIsSavingLoanAction] = useState(false);
 
   // Credit Cards State
   const [isAddCreditCardDialogOpen, setIsAddCreditCardDialogOpen] = useState(false);
@@ -63,6 +77,8 @@ export default function FinancialControlPage() {
   const [isLoadingCreditCards, setIsLoadingCreditCards] = useState(true);
   const [creditCardToDelete, setCreditCardToDelete] = useState<CreditCard | null>(null);
   const [isDeletingCreditCard, setIsDeletingCreditCard] = useState(false);
+  const [statementCardId, setStatementCardId] = useState<string | null>(null);
+  const [isPayingStatement, setIsPayingStatement] = useState(false);
 
   // Budgets State
   const [isAddBudgetDialogOpen, setIsAddBudgetDialogOpen] = useState(false);
@@ -71,6 +87,8 @@ export default function FinancialControlPage() {
   const [isLoadingBudgets, setIsLoadingBudgets] = useState(true);
   const [budgetToDelete, setBudgetToDelete] = useState<Budget | null>(null);
   const [isDeletingBudget, setIsDeletingBudget] = useState(false);
+  const [budgetEvaluations, setBudgetEvaluations] = useState<Record<string, BudgetEvaluation>>({});
+  const [budgetMissingRates, setBudgetMissingRates] = useState<MissingExchangeRate[]>([]);
 
   // Common State for data needed by multiple forms
   const [isLoadingCommonData, setIsLoadingCommonData] = useState(true);
@@ -113,6 +131,9 @@ export default function FinancialControlPage() {
       setLoans(fetchedLoans.sort((a,b) => new Date(b.startDate).getTime() - new Date(a.startDate).getTime()));
       setCreditCards(fetchedCreditCards.sort((a,b) => a.name.localeCompare(b.name)));
       setBudgets(fetchedBudgets.sort((a,b) => a.name.localeCompare(b.name)));
+      const { evaluations, missingExchangeRates } = await getBudgetEvaluations(fetchedBudgets);
+      setBudgetEvaluations(evaluations);
+      setBudgetMissingRates(missingExchangeRates);
     } catch (error) {
       console.error("Failed to fetch financial control data:", error);
       toast({ title: "Error", description: "Could not load data.", variant: "destructive" });
@@ -160,7 +181,11 @@ export default function FinancialControlPage() {
             ...payload,
             groupId: data.groupId === "__NONE_GROUP__" || data.groupId === "" ? null : data.groupId,
             accountId: data.accountId === "__NONE_ACCOUNT__" || data.accountId === "" ? undefined : data.accountId,
-            lastPaidMonth: editingSubscription.lastPaidMonth
+            lastPaidMonth: editingSubscription.lastPaidMonth,
+            // A new payment date or frequency starts a new schedule from the date entered
+            scheduleAnchor: isSameDay(data.nextPaymentDate, parseISO(editingSubscription.nextPaymentDate)) && data.frequency === editingSubscription.frequency
+              ? editingSubscription.scheduleAnchor
+              : null,
         });
         toast({ title: "Success", description: "Subscription updated successfully." });
       } else {
@@ -201,6 +226,23 @@ export default function FinancialControlPage() {
     const subscriptionToUpdate = subscriptions.find(sub => sub.id === subscriptionId);
     if (!subscriptionToUpdate) return;
 
+    // Account-linked subscriptions are paid by posting a transaction for the next occurrence.
+    if (subscriptionToUpdate.accountId) {
+      if (!currentlyPaid) {
+        toast({ title: "Already Posted", description: "This payment was posted as a transaction. Delete that transaction to undo it." });
+        return;
+      }
+      try {
+        const posted = await settleNextSubscriptionOccurrence(subscriptionToUpdate);
+        toast({ title: "Payment Posted", description: `${posted.length} transaction(s) recorded for ${subscriptionToUpdate.name}.` });
+        window.dispatchEvent(new Event('storage'));
+      } catch (error: any) {
+        console.error("Failed to post subscription payment:", error);
+        toast({ title: "Error", description: `Could not post payment: ${error.message}`, variant: "destructive" });
+      }
+      return;
+    }
+
     const newLastPaidMonth = currentlyPaid ? null : format(new Date(), 'yyyy-MM');
 
     try {
@@ -213,6 +255,32 @@ export default function FinancialControlPage() {
     }
   };
 
+  const pendingSubscriptionPayments = useMemo(
+    () => getPendingSubscriptionPayments(subscriptions, format(new Date(), 'yyyy-MM-dd')),
+    [subscriptions]
+  );
+  const pendingPaymentCount = pendingSubscriptionPayments.reduce((sum, { occurrences }) => sum + occurrences.length, 0);
+
+  const handlePostDueSubscriptions = async () => {
+    setIsConfirmingRecurring(false);
+    setIsPostingRecurring(true);
+    try {
+      const { createdTransactions } = await processDueSubscriptions();
+      toast({
+        title: "Recurring Payments",
+        description: createdTransactions.length > 0
+          ? `${createdTransactions.length} due transaction(s) posted.`
+          : "No subscription payments are due.",
+      });
+      if (createdTransactions.length > 0) window.dispatchEvent(new Event('storage'));
+    } catch (error: any) {
+      console.error("Failed to post due subscriptions:", error);
+      toast({ title: "Error", description: `Could not post due payments: ${error.message}`, variant: "destructive" });
+    } finally {
+      setIsPostingRecurring(false);
+    }
+  };
+
   // --- Loan Handlers ---
   const handleLoanAdded = async (data: NewLoanData) => {
     try {
@@ -258,6 +326,58 @@ export default function FinancialControlPage() {
     }
   };
 
+  const handlePostLoanPayment = async (data: LoanPaymentInput) => {
+    const loan = loans.find(l => l.id === payingLoanId);
+    if (!loan) return;
+    setIsSavingLoanAction(true);
+    try {
+      const { payment } = await postLoanPayment(loan, data);
+      toast({
+        title: "Payment Posted",
+        description: `${formatCurrency(payment.principal + payment.extraPrincipal, loan.currency, loan.currency, false)} principal and ${formatCurrency(payment.interest, loan.currency, loan.currency, false)} interest paid on ${loan.name}.`,
+      });
+      setPayingLoanId(null);
+      window.dispatchEvent(new Event('storage'));
+    } catch (error: any) {
+      console.error("Failed to post loan payment:", error);
+      toast({ title: "Error", description: `Could not post payment: ${error.message}`, variant: "destructive" });
+    } finally {
+      setIsSavingLoanAction(false);
+    }
+  };
+
+  const handleAddLoanRateChange = async (change: LoanRateChange) => {
+    if (!scheduleLoanId) return;
+    setIsSavingLoanAction(true);
+    try {
+      await addLoanRateChange(scheduleLoanId, change);
+      toast({ title: "Rate Change Saved", description: `${change.annualRate.toFixed(2)}% from ${format(parseISO(change.effectiveDate), 'MMM dd, yyyy')}.` });
+      window.dispatchEvent(new Event('storage'));
+    } catch (error: any) {
+      console.error("Failed to add loan rate change:", error);
+      toast({ title: "Error", description: `Could not save rate change: ${error.message}`, variant: "destructive" });
+    } finally {
+      setIsSavingLoanAction(false);
+    }
+  };
+
+  const handleDeleteLoanRateChange = async (effectiveDate: string) => {
+    if (!scheduleLoanId) return;
+    setIsSavingLoanAction(true);
+    try {
+      await deleteLoanRateChange(scheduleLoanId, effectiveDate);
+      window.dispatchEvent(new Event('storage'));
+    } catch (error: any) {
+      console.error("Failed to delete loan rate change:", error);
+      toast({ title: "Error", description: `Could not remove rate change: ${error.message}`, variant: "destructive" });
+    } finally {
+      setIsSavingLoanAction(false);
+    }
+  };
+
+  const scheduleLoan = useMemo(() => loans.find(l => l.id === scheduleLoanId) || null, [loans, scheduleLoanId]);
+  const payingLoan = useMemo(() => loans.find(l => l.id === payingLoanId) || null, [loans, payingLoanId]);
+
   // --- Credit Card Handlers ---
   const handleCreditCardAdded = async (data: NewCreditCardData) => {
     try {
@@ -303,6 +423,41 @@ export default function FinancialControlPage() {
     }
   };
 
+  const openCreditCardStatements = async (card: CreditCard) => {
+    try {
+      if (!card.accountId) {
+        await ensureCreditCardAccount(card);
+        toast({ title: "Card Account Created", description: `Add purchases to the "${card.name}" account to build statements.` });
+        await fetchData();
+      }
+      setStatementCardId(card.id);
+    } catch (error: any) {
+      console.error("Failed to open credit card statements:", error);
+      toast({ title: "Error", description: `Could not open statements: ${error.message}`, variant: "destructive" });
+    }
+  };
+
+  const statementCard = useMemo(() => creditCards.find(c => c.id === statementCardId) || null, [creditCards, statementCardId]);
+  const statementPaymentAccounts = useMemo(
+    () => accounts.filter(acc => acc.type !== 'credit card' && acc.id !== statementCard?.accountId),
+    [accounts, statementCard]
+  );
+
+  const handlePayStatement = async (data: CreditCardPaymentInput) => {
+    if (!statementCard) return;
+    setIsPayingStatement(true);
+    try {
+      await payCreditCardStatement(statementCard, data);
+      toast({ title: "Payment Recorded", description: `${formatCurrency(data.amount, statementCard.currency, statementCard.currency, false)} paid to ${statementCard.name}.` });
+      window.dispatchEvent(new Event('storage'));
+    } catch (error: any) {
+      console.error("Failed to pay credit card statement:", error);
+      toast({ title: "Error", description: `Could not pay statement: ${error.message}`, variant: "destructive" });
+    } finally {
+      setIsPayingStatement(false);
+    }
+  };
+
   // --- Budget Handlers ---
   const handleBudgetAdded = async (data: NewBudgetData) => {
     try {
@@ -469,45 +624,85 @@ export default function FinancialControlPage() {
         <CardHeader>
           <div className="flex justify-between items-center">
             <CardTitle>Subscriptions</CardTitle>
-            <Dialog open={isAddSubscriptionDialogOpen} onOpenChange={(isOpen) => {
-                setIsAddSubscriptionDialogOpen(isOpen);
-                if (!isOpen) setEditingSubscription(null);
-            }}>
-              <DialogTrigger asChild>
-                <Button>
-                  <PlusCircle className="mr-2 h-4 w-4" /> Add Subscription
-                </Button>
-              </DialogTrigger>
-              <DialogContent className="sm:max-w-2xl">
-                <DialogHeader>
-                  <DialogTitle>{editingSubscription ? 'Edit' : 'Add New'} Subscription</DialogTitle>
-                  <DialogDescription>
-                    {editingSubscription ? 'Update the details of your subscription.' : 'Enter the details of your new recurring income or expense.'}
-                  </DialogDescription>
-                </DialogHeader>
-                {isLoadingCommonData ? (
-                     <Skeleton className="h-60 w-full" />
-                ) : (
-                    <AddSubscriptionForm
-                    key={editingSubscription ? editingSubscription.id : 'new-subscription'}
-                    onSubmit={handleSubscriptionAdded}
-                    isLoading={isLoadingSubscriptions}
-                    categories={categories}
-                    accounts={accounts}
-                    groups={groups}
-                    initialData={editingSubscription ? {
-                        ...editingSubscription,
-                        startDate: parseISO(editingSubscription.startDate),
-                        nextPaymentDate: parseISO(editingSubscription.nextPaymentDate),
-                        tags: editingSubscription.tags || [],
-                        description: editingSubscription.description || "",
-                    } : undefined}
-                    />
-                )}
-              </DialogContent>
-            </Dialog>
+            <div className="flex gap-2">
+              <AlertDialog open={isConfirmingRecurring} onOpenChange={setIsConfirmingRecurring}>
+                <AlertDialogTrigger asChild>
+                  <Button variant="outline" disabled={isPostingRecurring || isLoadingSubscriptions || pendingPaymentCount === 0}>
+                    <RefreshCw className={`mr-2 h-4 w-4 ${isPostingRecurring ? 'animate-spin' : ''}`} /> Post Due Payments
+                    {pendingPaymentCount > 0 && <Badge variant="secondary" className="ml-2">{pendingPaymentCount}</Badge>}
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Post {pendingPaymentCount} Due Payment(s)?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      A transaction is recorded for each payment below and the linked account balances change accordingly.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <ul className="max-h-64 overflow-y-auto space-y-2 text-sm">
+                    {pendingSubscriptionPayments.map(({ subscription, occurrences }) => (
+                      <li key={subscription.id} className="flex justify-between gap-4">
+                        <span>
+                          <span className="font-medium">{subscription.name}</span>
+                          <span className="block text-xs text-muted-foreground">
+                            {occurrences.length === 1
+                              ? format(parseISO(occurrences[0]), 'MMM dd, yyyy')
+                              : `${occurrences.length} payments, ${format(parseISO(occurrences[0]), 'MMM dd, yyyy')} - ${format(parseISO(occurrences[occurrences.length - 1]), 'MMM dd, yyyy')}`}
+                            {' · '}{accounts.find(acc => acc.id === subscription.accountId)?.name || 'N/A'}
+                          </span>
+                        </span>
+                        <span className={`whitespace-nowrap font-semibold ${subscription.type === 'income' ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                          {formatCurrency(subscription.amount * occurrences.length, subscription.currency, subscription.currency, false)}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={handlePostDueSubscriptions}>Post Payments</AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+              <Dialog open={isAddSubscriptionDialogOpen} onOpenChange={(isOpen) => {
+                  setIsAddSubscriptionDialogOpen(isOpen);
+                  if (!isOpen) setEditingSubscription(null);
+              }}>
+                <DialogTrigger asChild>
+                  <Button>
+                    <PlusCircle className="mr-2 h-4 w-4" /> Add Subscription
+                  </Button>
+                </DialogTrigger>
+                <DialogContent className="sm:max-w-2xl">
+                  <DialogHeader>
+                    <DialogTitle>{editingSubscription ? 'Edit' : 'Add New'} Subscription</DialogTitle>
+                    <DialogDescription>
+                      {editingSubscription ? 'Update the details of your subscription.' : 'Enter the details of your new recurring income or expense.'}
+                    </DialogDescription>
+                  </DialogHeader>
+                  {isLoadingCommonData ? (
+                       <Skeleton className="h-60 w-full" />
+                  ) : (
+                      <AddSubscriptionForm
+                      key={editingSubscription ? editingSubscription.id : 'new-subscription'}
+                      onSubmit={handleSubscriptionAdded}
+                      isLoading={isLoadingSubscriptions}
+                      categories={categories}
+                      accounts={accounts}
+                      groups={groups}
+                      initialData={editingSubscription ? {
+                          ...editingSubscription,
+                          startDate: parseISO(editingSubscription.startDate),
+                          nextPaymentDate: parseISO(editingSubscription.nextPaymentDate),
+                          tags: editingSubscription.tags || [],
+                          description: editingSubscription.description || "",
+                      } : undefined}
+                      />
+                  )}
+                </DialogContent>
+              </Dialog>
+            </div>
           </div>
-          <CardDescription>Manage your recurring income and expenses.</CardDescription>
+          <CardDescription>Manage your recurring income and expenses. Subscriptions linked to an account post their payments as transactions automatically when due; payments that were already outstanding wait for you to post them.</CardDescription>
         </CardHeader>
         <CardContent>
             <div className="grid md:grid-cols-2 gap-8">
@@ -622,6 +817,12 @@ export default function FinancialControlPage() {
                           </Button>
                         </DropdownMenuTrigger>
                         <DropdownMenuContent align="end">
+                          <DropdownMenuItem onClick={() => setPayingLoanId(loan.id)} disabled={loan.remainingBalance <= 0}>
+                            <PiggyBank className="mr-2 h-4 w-4" /> Post Payment
+                          </DropdownMenuItem>
+                          <DropdownMenuItem onClick={() => setScheduleLoanId(loan.id)}>
+                            <Eye className="mr-2 h-4 w-4" /> View Schedule
+                          </DropdownMenuItem>
                           <DropdownMenuItem onClick={() => openEditLoanDialog(loan)}>
                             <Edit className="mr-2 h-4 w-4" /> Edit
                           </DropdownMenuItem>
@@ -667,6 +868,10 @@ export default function FinancialControlPage() {
                       <div><strong>Term:</strong> {loan.termMonths} months</div>
                       <div><strong>Monthly Payment:</strong> {formatCurrency(loan.monthlyPayment, loan.currency, preferredCurrency, true)}</div>
                        <div><strong>Next Payment:</strong> {format(parseISO(loan.nextPaymentDate), 'MMM dd, yyyy')}</div>
+                      <div><strong>Payoff Date:</strong> {(() => {
+                        const payoffDate = buildAmortizationSchedule(loan).payoffDate;
+                        return loan.remainingBalance <= 0 ? 'Paid off' : payoffDate ? format(parseISO(payoffDate), 'MMM yyyy') : 'Never';
+                      })()}</div>
                     </div>
                     {loan.notes && <p className="text-xs text-muted-foreground pt-1"><strong>Notes:</strong> {loan.notes}</p>}
                   </CardContent>
@@ -681,6 +886,49 @@ export default function FinancialControlPage() {
         </CardContent>
       </Card>
 
+      <Dialog open={!!payingLoan} onOpenChange={(isOpen) => { if (!isOpen) setPayingLoanId(null); }}>
+        <DialogContent className="sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Post Payment{payingLoan ? `: ${payingLoan.name}` : ''}</DialogTitle>
+            <DialogDescription>
+              Records the payment as an expense on the chosen account and reduces the loan's remaining balance.
+            </DialogDescription>
+          </DialogHeader>
+          {payingLoan && (
+            accounts.length > 0 ? (
+              <PostLoanPaymentForm
+                key={`${payingLoan.id}-${payingLoan.nextPaymentDate}`}
+                loan={payingLoan}
+                accounts={accounts}
+                onSubmit={handlePostLoanPayment}
+                isLoading={isSavingLoanAction}
+              />
+            ) : (
+              <p className="text-sm text-muted-foreground">Add an account first to pay this loan from.</p>
+            )
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!scheduleLoan} onOpenChange={(isOpen) => { if (!isOpen) setScheduleLoanId(null); }}>
+        <DialogContent className="sm:max-w-4xl">
+          <DialogHeader>
+            <DialogTitle>Amortization Schedule{scheduleLoan ? `: ${scheduleLoan.name}` : ''}</DialogTitle>
+            <DialogDescription>
+              Posted payments followed by the projected schedule, split into principal and interest.
+            </DialogDescription>
+          </DialogHeader>
+          {scheduleLoan && (
+            <LoanSchedule
+              loan={scheduleLoan}
+              onAddRateChange={handleAddLoanRateChange}
+              onDeleteRateChange={handleDeleteLoanRateChange}
+              isSaving={isSavingLoanAction}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
       <Card>
         <CardHeader>
           <div className="flex justify-between items-center">
@@ -740,6 +988,9 @@ export default function FinancialControlPage() {
                           </Button>
                         </DropdownMenuTrigger>
                         <DropdownMenuContent align="end">
+                          <DropdownMenuItem onClick={() => openCreditCardStatements(card)}>
+                            <Eye className="mr-2 h-4 w-4" /> Statements
+                          </DropdownMenuItem>
                           <DropdownMenuItem onClick={() => openEditCreditCardDialog(card)}>
                             <Edit className="mr-2 h-4 w-4" /> Edit
                           </DropdownMenuItem>
@@ -786,6 +1037,13 @@ export default function FinancialControlPage() {
                       {card.statementClosingDay && <div><strong>Closes On:</strong> Day {card.statementClosingDay}</div>}
                       {card.interestRate !== undefined && card.interestRate !== null && <div><strong>APR:</strong> {card.interestRate.toFixed(2)}%</div>}
                     </div>
+                    <div className="space-y-1 pt-1">
+                      <div className="flex justify-between text-xs text-muted-foreground">
+                        <span>Utilization: {(getCreditCardUtilization(card) * 100).toFixed(0)}%</span>
+                        <span>{formatCurrency(getCreditCardAmountOwed(card), card.currency, card.currency, false)} of {formatCurrency(card.limit, card.currency, card.currency, false)}</span>
+                      </div>
+                      <Progress value={Math.min(getCreditCardUtilization(card) * 100, 100)} className={getCreditCardUtilization(card) > 1 ? '[&>*]:bg-destructive' : ''} />
+                    </div>
                     {card.notes && <p className="text-xs text-muted-foreground pt-1"><strong>Notes:</strong> {card.notes}</p>}
                   </CardContent>
                 </Card>
@@ -799,6 +1057,25 @@ export default function FinancialControlPage() {
         </CardContent>
       </Card>
 
+      <Dialog open={!!statementCard} onOpenChange={(isOpen) => { if (!isOpen) setStatementCardId(null); }}>
+        <DialogContent className="sm:max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Statements{statementCard ? `: ${statementCard.name}` : ''}</DialogTitle>
+            <DialogDescription>
+              Card purchases and payments grouped by statement closing day. Record purchases as expenses on the card's account.
+            </DialogDescription>
+          </DialogHeader>
+          {statementCard && (
+            <CreditCardStatements
+              card={statementCard}
+              paymentAccounts={statementPaymentAccounts}
+              onPay={handlePayStatement}
+              isSaving={isPayingStatement}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
       {/* Budgets Card */}
       <Card>
         <CardHeader>
@@ -844,6 +1121,7 @@ export default function FinancialControlPage() {
             </div>
           ) : budgets.length > 0 ? (
             <div className="space-y-4">
+              <MissingRatesAlert missingRates={budgetMissingRates} />
               {budgets.map(budget => (
                 <Card key={budget.id} className="shadow-sm">
                   <CardHeader className="pb-3">
@@ -907,12 +1185,8 @@ export default function FinancialControlPage() {
                         })}
                     </div>
                      <div className="pt-2">
-                        <Label className="text-xs text-muted-foreground">Spending Progress (Coming Soon)</Label>
-                        <Progress value={0} className="h-2 mt-1" />
-                        <div className="flex justify-between text-xs mt-1">
-                            <span>{formatCurrency(0, preferredCurrency, preferredCurrency, false)} spent</span>
-                            <span>{formatCurrency(budget.amount, budget.currency, preferredCurrency, false)}</span>
-                        </div>
+                        <Label className="text-xs text-muted-foreground">Spending Progress{budget.rollover ? ' (rolls over)' : ''}</Label>
+                        <BudgetProgress evaluation={budgetEvaluations[budget.id]} currency={budget.currency} rollover={budget.rollover} />
                     </div>
                     {budget.notes && <p className="text-xs text-muted-foreground pt-1"><strong>Notes:</strong> {budget.notes}</p>}
                   </CardContent>
@@ -6,7 +6,9 @@ import { useParams, useRouter } from 'next/navigation';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { getAccounts, type Account } from "@/services/account-sync";
-import { getTransactions, updateTransaction, deleteTransaction, type Transaction, addTransaction } from "@/services/transactions";
+import { updateTransaction, deleteTransaction, type Transaction, addTransaction } from "@/services/transactions";
+import { addTransfer } from '@/services/transfers';
+import { getAllTransactions, runTransactionQuery } from '@/services/transaction-query';
 import { getCategories, getCategoryStyle, Category as CategoryType } from '@/services/categories';
 import { getTags, type Tag as TagType, getTagStyle } from '@/services/tags';
 import { getGroups, type Group as GroupType } from '@/services/groups';
@@ -14,7 +16,7 @@ import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { formatCurrency, convertCurrency } from '@/lib/currency';
 import { getUserPreferences } from '@/lib/preferences';
-import { format as formatDateFns, parseISO, isWithinInterval, isSameDay } from 'date-fns';
+import { format as formatDateFns, parseISO, isSameDay } from 'date-fns';
 import { Button } from '@/components/ui/button';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
@@ -22,9 +24,10 @@ import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
 import { Edit, Trash2, MoreHorizontal, PlusCircle, ArrowDownCircle, ArrowUpCircle, ArrowLeftRight as TransferIcon, ChevronDown, ArrowLeft, CopyPlus, Users } from 'lucide-react';
 import AddTransactionForm from '@/components/transactions/add-transaction-form';
 import { useToast } from '@/hooks/use-toast';
-import type { AddTransactionFormData } from '@/components/transactions/add-transaction-form';
+import type { AddTransactionFormData, TransferFormSubmission } from '@/components/transactions/add-transaction-form';
 import MonthlySummarySidebar from '@/components/transactions/monthly-summary-sidebar';
 import GroupCategorySpendingChart from '@/components/groups/group-category-spending-chart';
+import OriginalAmountNote from '@/components/transactions/original-amount-note';
 import { useDateRange } from '@/contexts/DateRangeContext';
 import Link from 'next/link';
 
@@ -45,7 +48,7 @@ export default function GroupDetailPage() {
   const groupId = typeof params.groupId === 'string' ? params.groupId : undefined;
 
   const [group, setGroup] = useState<GroupType | null>(null);
-  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [allTransactions, setAllTransactions] = useState<Transaction[]>([]);
   const [allCategories, setAllCategories] = useState<CategoryType[]>([]);
   const [allTags, setAllTags] = useState<TagType[]>([]);
   const [allAccounts, setAllAccounts] = useState<Account[]>([]);
@@ -92,23 +95,7 @@ export default function GroupDetailPage() {
         }
         setGroup(targetGroup);
 
-        const groupCategoryNames = targetGroup.categoryIds
-          .map(catId => fetchedAppCategories.find(c => c.id === catId)?.name)
-          .filter(name => name !== undefined) as string[];
-
-
-        if (fetchedAppAccounts.length > 0) {
-            const transactionPromises = fetchedAppAccounts.map(acc => getTransactions(acc.id));
-            const transactionsByAccount = await Promise.all(transactionPromises);
-            const combinedTransactions = transactionsByAccount.flat();
-            const groupTransactions = combinedTransactions.filter(tx => 
-                tx.category && groupCategoryNames.includes(tx.category)
-            );
-            groupTransactions.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-            setTransactions(groupTransactions);
-        } else {
-            setTransactions([]);
-        }
+        setAllTransactions(await getAllTransactions(fetchedAppAccounts.map(acc => acc.id)));
 
     } catch (err: any) {
         console.error(`Failed to fetch data for group ${groupId}:`, err);
@@ -142,14 +129,15 @@ export default function GroupDetailPage() {
     };
   }, [groupId, fetchData]);
 
+  // Split transactions appear once per matching split line, with that line's amount.
   const filteredTransactions = useMemo(() => {
-    if (isLoading) return [];
-    return transactions.filter(tx => {
-      const txDate = parseISO(tx.date.includes('T') ? tx.date : tx.date + 'T00:00:00Z');
-      if (!selectedDateRange.from || !selectedDateRange.to) return true;
-      return isWithinInterval(txDate, { start: selectedDateRange.from, end: selectedDateRange.to });
-    });
-  }, [transactions, isLoading, selectedDateRange]);
+    if (isLoading || !group) return [];
+    return runTransactionQuery(allTransactions, {
+      filter: { from: selectedDateRange.from, to: selectedDateRange.to, groupIds: [group.id] },
+      expandSplits: true,
+      targetCurrency: preferredCurrency,
+    }, { categories: allCategories, groups: [group] }).transactions;
+  }, [allTransactions, isLoading, selectedDateRange, group, preferredCurrency, allCategories]);
 
   const groupCategorySpendingData = useMemo(() => {
     if (isLoading || !group || filteredTransactions.length === 0) return [];
@@ -177,17 +165,18 @@ export default function GroupDetailPage() {
     setIsEditDialogOpen(true);
   };
 
-  const handleUpdateTransaction = async (formData: AddTransactionFormData) => {
+  const handleUpdateTransaction = async (formData: Omit<Transaction, 'id'> | Transaction) => {
     if (!selectedTransaction) return;
-    const transactionAmount = formData.type === 'expense' ? -Math.abs(formData.amount) : Math.abs(formData.amount);
+    // The form emits the edited transaction with signed amounts and its split lines, if any.
     const transactionToUpdate: Transaction = {
       ...selectedTransaction,
-      amount: transactionAmount,
+      amount: formData.amount,
       transactionCurrency: formData.transactionCurrency,
-      date: formatDateFns(formData.date, 'yyyy-MM-dd'),
+      date: formData.date,
       description: formData.description || selectedTransaction.description,
       category: formData.category || selectedTransaction.category,
       tags: formData.tags || [],
+      splits: formData.splits ?? null,
     };
     setIsLoading(true);
     try {
@@ -237,32 +226,18 @@ export default function GroupDetailPage() {
     }
   };
 
-   const handleTransferAdded = async (data: { fromAccountId: string; toAccountId: string; amount: number; date: Date; description?: string; tags?: string[]; transactionCurrency: string; }) => {
+   const handleTransferAdded = async (data: TransferFormSubmission) => {
     try {
-      const transferAmount = Math.abs(data.amount);
-      const formattedDate = formatDateFns(data.date, 'yyyy-MM-dd');
-      const currentAccounts = await getAccounts(); 
-      const fromAccountName = currentAccounts.find(a=>a.id === data.fromAccountId)?.name || 'Unknown';
-      const toAccountName = currentAccounts.find(a=>a.id === data.toAccountId)?.name || 'Unknown';
-      const desc = data.description || `Transfer from ${fromAccountName} to ${toAccountName}`;
-
-      await addTransaction({
-        accountId: data.fromAccountId,
-        amount: -transferAmount,
-        transactionCurrency: data.transactionCurrency,
-        date: formattedDate,
-        description: desc,
-        category: 'Transfer',
-        tags: data.tags || [],
-      });
-
-      await addTransaction({
-        accountId: data.toAccountId,
-        amount: transferAmount,
-        transactionCurrency: data.transactionCurrency,
-        date: formattedDate,
-        description: desc,
-        category: 'Transfer',
+      await addTransfer({
+        fromAccountId: data.fromAccountId,
+        toAccountId: data.toAccountId,
+        fromAmount: Math.abs(data.amount),
+        fromCurrency: data.transactionCurrency,
+        toAmount: Math.abs(data.toAccountAmount ?? data.amount),
+        toCurrency: data.toAccountCurrency || data.transactionCurrency,
+        fee: data.fee ?? null,
+        date: formatDateFns(data.date, 'yyyy-MM-dd'),
+        description: data.description || '',
         tags: data.tags || [],
       });
 
@@ -301,6 +276,7 @@ export default function GroupDetailPage() {
         description: `Clone of: ${transaction.description}`,
         category: transaction.category === 'Transfer' ? undefined : transaction.category,
         tags: transaction.tags || [],
+        splits: transaction.splits,
     };
 
     if (transaction.category === 'Transfer') {
@@ -435,10 +411,18 @@ export default function GroupDetailPage() {
                       const categoryDetails = allCategories.find(c => c.name === transaction.category);
                       const { icon: CategoryIcon, color: categoryBadgeColor } = getCategoryStyle(categoryDetails);
                       return (
-                        <TableRow key={transaction.id} className="hover:bg-muted/50">
-                          <TableCell className="font-medium">{transaction.description}</TableCell>
+                        <TableRow key={`${transaction.id}-${transaction.splitIndex ?? 'all'}`} className="hover:bg-muted/50">
+                          <TableCell className="font-medium">
+                            {transaction.description}
+                            {transaction.splitIndex !== null && (
+                              <span className="block text-xs font-normal text-muted-foreground">
+                                Split line{transaction.memo ? `: ${transaction.memo}` : ''} (of {formatCurrency(transaction.parent.amount, transaction.transactionCurrency, transaction.transactionCurrency, false)})
+                              </span>
+                            )}
+                          </TableCell>
                           <TableCell className={`text-right font-medium ${transaction.amount >= 0 ? 'text-green-500 dark:text-green-400' : 'text-red-500 dark:text-red-400'}`}>
                             <div>{formatCurrency(transaction.amount, transaction.transactionCurrency, transaction.transactionCurrency, false)}</div>
+                            <OriginalAmountNote transaction={transaction} />
                             {transaction.transactionCurrency.toUpperCase() !== preferredCurrency.toUpperCase() && (
                               <div className="text-xs text-muted-foreground">
                                 (≈ {formatCurrency(transaction.amount, transaction.transactionCurrency, preferredCurrency, true)})
@@ -480,11 +464,11 @@ export default function GroupDetailPage() {
                                 <Button variant="ghost" size="sm" className="h-8 w-8 p-0"><span className="sr-only">Open menu</span><MoreHorizontal className="h-4 w-4" /></Button>
                               </DropdownMenuTrigger>
                               <DropdownMenuContent align="end">
-                                <DropdownMenuItem onClick={() => openEditDialog(transaction)}><Edit className="mr-2 h-4 w-4" /> Edit</DropdownMenuItem>
-                                <DropdownMenuItem onClick={() => openCloneAndEditDialog(transaction)}><CopyPlus className="mr-2 h-4 w-4" /> Clone & Edit</DropdownMenuItem>
+                                <DropdownMenuItem onClick={() => openEditDialog(transaction.parent)}><Edit className="mr-2 h-4 w-4" /> Edit</DropdownMenuItem>
+                                <DropdownMenuItem onClick={() => openCloneAndEditDialog(transaction.parent)}><CopyPlus className="mr-2 h-4 w-4" /> Clone & Edit</DropdownMenuItem>
                                 <AlertDialog>
                                   <AlertDialogTrigger asChild>
-                                    <div className="relative flex cursor-default select-none items-center gap-2 rounded-sm px-2 py-1.5 text-sm outline-none transition-colors focus:bg-destructive/10 focus:text-destructive text-destructive data-[disabled]:pointer-events-none data-[disabled]:opacity-50" onClick={() => openDeleteDialog(transaction)}>
+                                    <div className="relative flex cursor-default select-none items-center gap-2 rounded-sm px-2 py-1.5 text-sm outline-none transition-colors focus:bg-destructive/10 focus:text-destructive text-destructive data-[disabled]:pointer-events-none data-[disabled]:opacity-50" onClick={() => openDeleteDialog(transaction.parent)}>
                                       <Trash2 className="mr-2 h-4 w-4" /> Delete
                                     </div>
                                   </AlertDialogTrigger>
@@ -10,7 +10,8 @@ import { useToast } from "@/hooks/use-toast";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Progress } from "@/components/ui/progress";
-import { addTransaction, type Transaction, clearAllSessionTransactions } from '@/services/transactions';
+import { addTransaction, getTransactions, updateTransaction, type Transaction, clearAllSessionTransactions } from '@/services/transactions';
+import { addTransfer, type NewTransferData } from '@/services/transfers';
 import { getAccounts, addAccount, type Account, type NewAccountData, updateAccount } from '@/services/account-sync';
 import { getCategories, addCategory as addCategoryToDb, type Category } from '@/services/categories';
 import { getTags, addTag as addTagToDb, type Tag } from '@/services/tags';
@@ -18,10 +19,27 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, DialogDescription } from "@/components/ui/dialog";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
 
-import { format, parseISO, isValid, parse as parseDateFns } from 'date-fns';
+import { format } from 'date-fns';
 import { getCurrencySymbol, supportedCurrencies, formatCurrency, convertCurrency } from '@/lib/currency';
-import CsvMappingForm, { type ColumnMapping } from '@/components/import/csv-mapping-form';
-import { AlertCircle, Trash2 } from 'lucide-react';
+import CsvMappingForm, { type ColumnMapping, type ProfileSaveRequest } from '@/components/import/csv-mapping-form';
+import {
+  DEFAULT_CSV_IMPORT_SETTINGS,
+  findMatchingImportProfile,
+  normalizeCsvRecords,
+  resolveProfileMappings,
+  type CsvEncoding,
+  type CsvImportProfile,
+  type CsvImportSettings,
+} from '@/lib/csv-import-profiles';
+import { isAmbiguousAmount, isAmbiguousDate, parseAmount, parseCsvDate, type CsvDecimalSeparator } from '@/lib/csv-parsing';
+import { getImportProfiles, addImportProfile, updateImportProfile, deleteImportProfile } from '@/services/import-profiles';
+import { parseOfx, isOfxFileName, getAccountTypeForOfxStatement, getDefaultOfxAccountName } from '@/lib/ofx-import';
+import { findDuplicate, getImportFingerprint, type DuplicateCheckable, type DuplicateStatus } from '@/lib/duplicate-detection';
+import { Badge } from "@/components/ui/badge";
+import { getCategorizationRules, getRuleMatchMode } from '@/services/categorization-rules';
+import { applyCategorizationRules } from '@/lib/categorization-rules';
+import { AlertCircle, Trash2, Download } from 'lucide-react';
+import BackupRestoreCard, { downloadBackup, describeBackupSummary } from '@/components/import/backup-restore-card';
 import { cn } from '@/lib/utils';
 import { useAuthContext } from '@/contexts/AuthContext';
 import Link from 'next/link';
@@ -30,6 +48,12 @@ type CsvRecord = {
   [key: string]: string | undefined;
 };
 
+type CsvFileContents = {
+  headers: string[];
+  data: CsvRecord[];
+  rowErrors: Record<number, string>; // Papa Parse problems by row index, shown as errors in the preview
+};
+
 const APP_FIELDS_VALUES = [
     'date', 'amount', 'foreign_amount',
     'description',
@@ -40,6 +64,14 @@ const APP_FIELDS_VALUES = [
 
 type AppField = typeof APP_FIELDS_VALUES[number];
 
+type DuplicateAction = 'import' | 'skip' | 'merge';
+
+const DUPLICATE_STATUS_LABELS: Record<DuplicateStatus, string> = {
+  new: 'New',
+  exact: 'Exact duplicate',
+  probable: 'Probable duplicate',
+};
+
 type MappedTransaction = {
   csvRawSourceName?: string | null;
   csvRawDestinationName?: string | null;
@@ -64,7 +96,12 @@ type MappedTransaction = {
   originalImportData?: {
     foreignAmount?: number | null;
     foreignCurrency?: string | null;
+    fitId?: string | null;
   }
+  importFingerprint?: string; // Computed from the unedited source row, see getImportFingerprint
+  duplicateStatus?: DuplicateStatus;
+  duplicateOf?: Transaction | null; // Stored transaction this row duplicates; the target of a merge
+  duplicateAction?: DuplicateAction;
 };
 
 
@@ -75,6 +112,8 @@ interface AccountPreview {
     action: 'create' | 'update' | 'no change';
     existingId?: string;
     category: 'asset' | 'crypto'; 
+    type?: string; // Account type for new accounts; defaults from the category
+    bankAccountId?: string; // OFX account number to link to the account
 }
 
 
@@ -84,92 +123,9 @@ const findColumnName = (headers: string[], targetName: string): string | undefin
 };
 
 
-const parseAmount = (amountStr: string | undefined): number => {
-    if (typeof amountStr !== 'string' || amountStr.trim() === '') return NaN;
-    let cleaned = amountStr.replace(/[^\d.,-]/g, '').trim();
-
-    const hasPeriod = cleaned.includes('.');
-    const hasComma = cleaned.includes(',');
-
-    if (hasComma && hasPeriod) {
-        if (cleaned.lastIndexOf(',') > cleaned.lastIndexOf('.')) {
-            cleaned = cleaned.replace(/\./g, '').replace(',', '.');
-        } else {
-            cleaned = cleaned.replace(/,/g, '');
-        }
-    } else if (hasComma) {
-        cleaned = cleaned.replace(',', '.');
-    }
-    
-    // Handle cases like "1.234.56" by removing all but last dot if it's a decimal separator
-    const dotMatches = cleaned.match(/\./g);
-    if (dotMatches && dotMatches.length > 1) {
-        const lastDotIndex = cleaned.lastIndexOf('.');
-        const partAfterLastDot = cleaned.substring(lastDotIndex + 1);
-        if (partAfterLastDot.length < 3 || partAfterLastDot.match(/^\d+$/) ) { // Assume last dot is decimal if few digits follow
-             cleaned = cleaned.substring(0, lastDotIndex).replace(/\./g, '') + '.' + partAfterLastDot;
-        } else { // Assume all dots are thousand separators
-            cleaned = cleaned.replace(/\./g, '');
-        }
-    }
-
-
-    if (cleaned.endsWith('.') || cleaned.endsWith(',')) {
-        cleaned += '0';
-    }
-    cleaned = cleaned.replace(/^[,.]+|[,.]+$/g, '');
-
-
-    const parsed = parseFloat(cleaned);
-    return parsed;
-};
-
-
-const parseDate = (dateStr: string | undefined): string => {
-    if (!dateStr) return format(new Date(), 'yyyy-MM-dd');
-    try {
-        // Prioritize ISO with or without time/timezone
-        let parsedDate = parseISO(dateStr);
-        if (isValid(parsedDate)) {
-            return format(parsedDate, 'yyyy-MM-dd');
-        }
-
-        const commonFormats = [
-            "yyyy-MM-dd'T'HH:mm:ssXXX", "yyyy-MM-dd'T'HH:mm:ss.SSS'Z'", "yyyy-MM-dd'T'HH:mm:ss",
-            'dd/MM/yyyy HH:mm:ss', 'MM/dd/yyyy HH:mm:ss', 'yyyy-MM-dd HH:mm:ss',
-            'dd/MM/yyyy', 'MM/dd/yyyy', 'yyyy-MM-dd',
-            'dd.MM.yyyy', 'MM.dd.yyyy',
-            'dd-MM-yyyy', 'MM-dd-yyyy',
-            'yyyy/MM/dd', 'yyyy/dd/MM',
-        ];
-
-        for (const fmt of commonFormats) {
-            try {
-                // Try parsing with the full format first
-                parsedDate = parseDateFns(dateStr, fmt, new Date());
-                if (isValid(parsedDate)) return format(parsedDate, 'yyyy-MM-dd');
-
-                // If it has a time component, try parsing just the date part
-                const datePartOnly = dateStr.split('T')[0].split(' ')[0];
-                const dateFormatOnly = fmt.split('T')[0].split(' ')[0];
-                if (datePartOnly !== dateStr && dateFormatOnly !== fmt) {
-                    parsedDate = parseDateFns(datePartOnly, dateFormatOnly, new Date());
-                    if (isValid(parsedDate)) return format(parsedDate, 'yyyy-MM-dd');
-                }
-            } catch { /* ignore parse error for this format, try next */ }
-        }
-        
-        // Final attempt with Date constructor as a broad fallback
-        parsedDate = new Date(dateStr);
-        if (isValid(parsedDate)) {
-            return format(parsedDate, 'yyyy-MM-dd');
-        }
-
-    } catch (e) {
-        console.error("Error parsing date:", dateStr, e);
-    }
-    console.warn(`Could not parse date "${dateStr}", defaulting to today.`);
-    return format(new Date(), 'yyyy-MM-dd');
+const hashFile = async (file: File): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+    return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
 };
 
 const parseNameFromDescriptiveString = (text: string | undefined): string | undefined => {
@@ -185,6 +141,7 @@ export default function ImportDataPage() {
   const [file, setFile] = useState<File | null>(null);
   const [csvHeaders, setCsvHeaders] = useState<string[]>([]);
   const [rawData, setRawData] = useState<CsvRecord[]>([]);
+  const [csvRowErrors, setCsvRowErrors] = useState<Record<number, string>>({});
   const [parsedData, setParsedData] = useState<MappedTransaction[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [importProgress, setImportProgress] = useState(0);
@@ -196,7 +153,13 @@ export default function ImportDataPage() {
   const [finalAccountMapForImport, setFinalAccountMapForImport] = useState<{ [key: string]: string }>({});
   const [isMappingDialogOpen, setIsMappingDialogOpen] = useState(false);
   const [columnMappings, setColumnMappings] = useState<ColumnMapping>({});
+  const [importProfiles, setImportProfiles] = useState<CsvImportProfile[]>([]);
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(null);
+  const [importSettings, setImportSettings] = useState<CsvImportSettings>(DEFAULT_CSV_IMPORT_SETTINGS);
+  const [mappingFormVersion, setMappingFormVersion] = useState(0); // Bumped to reset the mapping form to new initial values
   const [isClearing, setIsClearing] = useState(false);
+  const [isDownloadingBackup, setIsDownloadingBackup] = useState(false);
+  const [sourceFileHash, setSourceFileHash] = useState<string | null>(null);
   const { toast } = useToast();
 
 
@@ -208,16 +171,18 @@ export default function ImportDataPage() {
         if (isMounted) setIsLoading(true);
         if (isMounted) setError(null);
         try {
-            const [fetchedAccounts, fetchedCategories, fetchedTags] = await Promise.all([
+            const [fetchedAccounts, fetchedCategories, fetchedTags, fetchedProfiles] = await Promise.all([
                 getAccounts(),
                 getCategories(),
-                getTags()
+                getTags(),
+                getImportProfiles()
             ]);
 
             if (isMounted) {
                 setAccounts(fetchedAccounts);
                 setCategories(fetchedCategories);
                 setTags(fetchedTags);
+                setImportProfiles(fetchedProfiles);
             }
         } catch (err) {
             console.error("Failed to fetch initial data for import:", err);
@@ -241,16 +206,20 @@ export default function ImportDataPage() {
       setParsedData([]);
       setAccountPreviewData([]);
       setRawData([]);
+      setCsvRowErrors({});
       setCsvHeaders([]);
       setImportProgress(0);
       setColumnMappings({});
+      setActiveProfileId(null);
+      setImportSettings(DEFAULT_CSV_IMPORT_SETTINGS);
       setFinalAccountMapForImport({});
+      setSourceFileHash(null);
     }
   };
 
   const handleParseAndMap = () => {
     if (!file) {
-      setError("Please select a CSV file first.");
+      setError("Please select a CSV or OFX file first.");
       return;
     }
     if (!user) {
@@ -264,79 +233,221 @@ export default function ImportDataPage() {
     setParsedData([]);
     setAccountPreviewData([]);
     setRawData([]);
+    setCsvRowErrors({});
     setCsvHeaders([]);
+    setSourceFileHash(null);
+    hashFile(file).then(setSourceFileHash).catch(err => console.warn("Could not hash the import file:", err));
+
+    if (isOfxFileName(file.name)) {
+      file.text()
+        .then(processOfxStatementData)
+        .catch((err: Error) => {
+          console.error("Failed to import OFX statement:", err);
+          setError(`Failed to read or parse OFX file: ${err.message}.`);
+          setIsLoading(false);
+        });
+      return;
+    }
 
-    Papa.parse<CsvRecord>(file, {
+    readCsvFile(file, importSettings.encoding)
+      .then(contents => openColumnMapping(file, contents, importSettings.encoding))
+      .catch((err: Error) => {
+        setError(err.message);
+        setIsLoading(false);
+      });
+  };
+
+  /**
+   * Reads a CSV file in the given encoding. Rejects with a message for the page when it has no usable rows;
+   * rows Papa Parse could not split cleanly are kept and their problems returned by row index.
+   */
+  const readCsvFile = (csvFile: File, encoding: CsvEncoding) => new Promise<CsvFileContents>((resolve, reject) => {
+    Papa.parse<CsvRecord>(csvFile, {
       header: true,
       skipEmptyLines: true,
+      encoding,
       complete: (results: ParseResult<CsvRecord>) => {
          if (results.errors.length > 0 && !results.data.length) {
              const criticalError = results.errors.find(e => e.code !== 'TooManyFields' && e.code !== 'TooFewFields') || results.errors[0];
-             setError(`CSV Parsing Error: ${criticalError.message}. Code: ${criticalError.code}. Ensure headers are correct and file encoding is UTF-8.`);
-             setIsLoading(false);
+             reject(new Error(`CSV Parsing Error: ${criticalError.message}. Code: ${criticalError.code}. Ensure headers are correct and the file encoding is right.`));
              return;
          }
-          if (results.errors.length > 0) {
-              console.warn("Minor CSV parsing errors encountered:", results.errors);
-              toast({ title: "CSV Parsing Warning", description: `Some rows might have issues: ${results.errors.map(e=>e.message).slice(0,2).join('; ')}`, variant:"default", duration: 7000});
+          const rowErrors: Record<number, string> = {};
+          results.errors.forEach(e => {
+              if (typeof e.row === 'number') rowErrors[e.row] = rowErrors[e.row] ? `${rowErrors[e.row]} ${e.message}.` : `${e.message}.`;
+          });
+          const fileErrors = results.errors.filter(e => typeof e.row !== 'number');
+          if (fileErrors.length > 0) {
+              console.warn("Minor CSV parsing errors encountered:", fileErrors);
+              toast({ title: "CSV Parsing Warning", description: `The file might have issues: ${fileErrors.map(e=>e.message).slice(0,2).join('; ')}`, variant:"default", duration: 7000});
           }
 
-
          if (!results.data || results.data.length === 0) {
-            setError("CSV file is empty or doesn't contain valid data rows.");
-            setIsLoading(false);
+            reject(new Error("CSV file is empty or doesn't contain valid data rows."));
             return;
          }
 
-         const headers = results.meta.fields;
+         const headers = results.meta.fields?.filter(h => h != null) as string[] | undefined;
          if (!headers || headers.length === 0) {
-             setError("Could not read CSV headers. Ensure the first row contains column names.");
-             setIsLoading(false);
+             reject(new Error("Could not read CSV headers. Ensure the first row contains column names."));
              return;
          }
-
-         setCsvHeaders(headers.filter(h => h != null) as string[]);
-         setRawData(results.data);
-
-         const detectedHeaders = headers.filter(h => h != null) as string[];
-         const initialMappings: ColumnMapping = {};
-
-         initialMappings.date = findColumnName(detectedHeaders, 'date');
-         initialMappings.amount = findColumnName(detectedHeaders, 'amount');
-         initialMappings.description = findColumnName(detectedHeaders, 'description');
-         initialMappings.source_name = findColumnName(detectedHeaders, 'source_name');
-         initialMappings.destination_name = findColumnName(detectedHeaders, 'destination_name');
-         initialMappings.currency_code = findColumnName(detectedHeaders, 'currency_code') || findColumnName(detectedHeaders, 'currency');
-         initialMappings.category = findColumnName(detectedHeaders, 'category');
-         initialMappings.tags = findColumnName(detectedHeaders, 'tags');
-         initialMappings.transaction_type = findColumnName(detectedHeaders, 'type');
-         initialMappings.notes = findColumnName(detectedHeaders, 'notes');
-         initialMappings.foreign_amount = findColumnName(detectedHeaders, 'foreign_amount');
-         initialMappings.foreign_currency_code = findColumnName(detectedHeaders, 'foreign_currency_code');
-         initialMappings.source_type = findColumnName(detectedHeaders, 'source_type');
-         initialMappings.destination_type = findColumnName(detectedHeaders, 'destination_type');
-         initialMappings.initialBalance = findColumnName(detectedHeaders, 'initial_balance') || findColumnName(detectedHeaders, 'opening_balance');
-
-
-         setColumnMappings(initialMappings);
-         setIsMappingDialogOpen(true);
-         setIsLoading(false);
+         resolve({ headers, data: results.data, rowErrors });
       },
-      error: (err: Error) => {
-         setError(`Failed to read or parse CSV file: ${err.message}.`);
-        setIsLoading(false);
-      }
+      error: (err: Error) => reject(new Error(`Failed to read or parse CSV file: ${err.message}.`)),
     });
+  });
+
+  const setCsvContents = (contents: CsvFileContents) => {
+    setCsvHeaders(contents.headers);
+    setRawData(contents.data);
+    setCsvRowErrors(contents.rowErrors);
   };
 
-   const processAndMapData = async (confirmedMappings: ColumnMapping) => {
+  const guessColumnMappings = (detectedHeaders: string[]): ColumnMapping => {
+    const initialMappings: ColumnMapping = {};
+
+    initialMappings.date = findColumnName(detectedHeaders, 'date');
+    initialMappings.amount = findColumnName(detectedHeaders, 'amount');
+    initialMappings.description = findColumnName(detectedHeaders, 'description');
+    initialMappings.source_name = findColumnName(detectedHeaders, 'source_name');
+    initialMappings.destination_name = findColumnName(detectedHeaders, 'destination_name');
+    initialMappings.currency_code = findColumnName(detectedHeaders, 'currency_code') || findColumnName(detectedHeaders, 'currency');
+    initialMappings.category = findColumnName(detectedHeaders, 'category');
+    initialMappings.tags = findColumnName(detectedHeaders, 'tags');
+    initialMappings.transaction_type = findColumnName(detectedHeaders, 'type');
+    initialMappings.notes = findColumnName(detectedHeaders, 'notes');
+    initialMappings.foreign_amount = findColumnName(detectedHeaders, 'foreign_amount');
+    initialMappings.foreign_currency_code = findColumnName(detectedHeaders, 'foreign_currency_code');
+    initialMappings.source_type = findColumnName(detectedHeaders, 'source_type');
+    initialMappings.destination_type = findColumnName(detectedHeaders, 'destination_type');
+    initialMappings.initialBalance = findColumnName(detectedHeaders, 'initial_balance') || findColumnName(detectedHeaders, 'opening_balance');
+    return initialMappings;
+  };
+
+  /** A profile's settings, without a default account that no longer exists. */
+  const getProfileSettings = (profile: CsvImportProfile): CsvImportSettings => ({
+    dateFormat: profile.dateFormat,
+    decimalSeparator: profile.decimalSeparator,
+    signConvention: profile.signConvention,
+    defaultAccountId: accounts.some(acc => acc.id === profile.defaultAccountId) ? profile.defaultAccountId : null,
+    encoding: profile.encoding,
+  });
+
+  /**
+   * Opens the mapping dialog for freshly parsed rows. A saved profile matching the headers is applied;
+   * when it was saved for another encoding, the file is read again in that encoding first.
+   */
+  const openColumnMapping = async (csvFile: File, contents: CsvFileContents, encoding: CsvEncoding) => {
+    const profile = findMatchingImportProfile(contents.headers, importProfiles);
+    if (profile && profile.encoding !== encoding) {
+      contents = await readCsvFile(csvFile, profile.encoding);
+    }
+    const { headers } = contents;
+
+    setCsvContents(contents);
+    if (profile) {
+      setActiveProfileId(profile.id);
+      setImportSettings(getProfileSettings(profile));
+      setColumnMappings(resolveProfileMappings(profile, headers));
+      toast({ title: "Import Profile Applied", description: `The columns match your "${profile.name}" profile.` });
+    } else {
+      setActiveProfileId(null);
+      setImportSettings({ ...DEFAULT_CSV_IMPORT_SETTINGS, encoding });
+      setColumnMappings(guessColumnMappings(headers));
+    }
+    setMappingFormVersion(version => version + 1);
+    setIsMappingDialogOpen(true);
+    setIsLoading(false);
+  };
+
+  const handleSelectProfile = async (profileId: string | null) => {
+    const profile = importProfiles.find(p => p.id === profileId);
+    if (!profile) {
+      setActiveProfileId(null);
+      setImportSettings(prev => ({ ...DEFAULT_CSV_IMPORT_SETTINGS, encoding: prev.encoding }));
+      setColumnMappings(guessColumnMappings(csvHeaders));
+      setMappingFormVersion(version => version + 1);
+      return;
+    }
+
+    let headers = csvHeaders;
+    if (file && profile.encoding !== importSettings.encoding) {
+      try {
+        const reread = await readCsvFile(file, profile.encoding);
+        headers = reread.headers;
+        setCsvContents(reread);
+      } catch (err: any) {
+        toast({ title: "Error", description: err.message, variant: "destructive" });
+        return;
+      }
+    }
+    setActiveProfileId(profile.id);
+    setImportSettings(getProfileSettings(profile));
+    setColumnMappings(resolveProfileMappings(profile, headers));
+    setMappingFormVersion(version => version + 1);
+  };
+
+  const handleEncodingChange = async (encoding: CsvEncoding, currentMappings: ColumnMapping, currentSettings: CsvImportSettings) => {
+    if (!file) return;
+    try {
+      const contents = await readCsvFile(file, encoding);
+      const { headers } = contents;
+      setCsvContents(contents);
+      // Keep the columns mapped so far that read the same in the new encoding
+      setColumnMappings(Object.fromEntries(
+        Object.entries(currentMappings).filter(([, header]) => header && headers.includes(header))
+      ) as ColumnMapping);
+      setImportSettings({ ...currentSettings, encoding });
+      setMappingFormVersion(version => version + 1);
+    } catch (err: any) {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    }
+  };
+
+  const handleDeleteProfile = async (profileId: string) => {
+    const profile = importProfiles.find(p => p.id === profileId);
+    try {
+      await deleteImportProfile(profileId);
+      setImportProfiles(prev => prev.filter(p => p.id !== profileId));
+      if (activeProfileId === profileId) setActiveProfileId(null);
+      toast({ title: "Import Profile Deleted", description: `"${profile?.name}" was removed.` });
+    } catch (err: any) {
+      console.error("Failed to delete import profile:", err);
+      toast({ title: "Error", description: `Could not delete the import profile: ${err.message}`, variant: "destructive" });
+    }
+  };
+
+  const saveImportProfile = async (request: ProfileSaveRequest, mappings: ColumnMapping, settings: CsvImportSettings) => {
+    try {
+      const profileData = { name: request.name, headers: csvHeaders, mappings, ...settings };
+      const existing = importProfiles.find(p => p.id === request.profileId);
+      const saved = existing ? await updateImportProfile({ ...existing, ...profileData }) : await addImportProfile(profileData);
+      setImportProfiles(prev => [...prev.filter(p => p.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name)));
+      setActiveProfileId(saved.id);
+      toast({ title: "Import Profile Saved", description: `"${saved.name}" will be selected for files with these columns.` });
+    } catch (err: any) {
+      console.error("Failed to save import profile:", err);
+      toast({ title: "Error", description: `Could not save the import profile: ${err.message}`, variant: "destructive" });
+    }
+  };
+
+   const processAndMapData = async (submittedMappings: ColumnMapping, settings: CsvImportSettings, saveProfile: ProfileSaveRequest | null) => {
         setIsLoading(true);
         setError(null);
         setParsedData([]);
         setAccountPreviewData([]);
-        setColumnMappings(confirmedMappings);
+        setColumnMappings(submittedMappings);
+        setImportSettings(settings);
         setFinalAccountMapForImport({});
+        if (saveProfile) await saveImportProfile(saveProfile, submittedMappings, settings);
+
+        const currentAccounts = await getAccounts();
+        setAccounts(currentAccounts);
 
+        // Dates, amounts and the default account are applied up front, so the rows read like Firefly rows below
+        const defaultAccount = currentAccounts.find(acc => acc.id === settings.defaultAccountId) || null;
+        const { records, mappings: confirmedMappings, rowErrors } = normalizeCsvRecords(rawData, submittedMappings, settings, defaultAccount);
 
         const coreRequiredFields: AppField[] = ['date', 'amount', 'currency_code', 'transaction_type'];
         let missingFieldLabels = coreRequiredFields
@@ -361,20 +472,17 @@ export default function ImportDataPage() {
         }
 
 
-        const currentAccounts = await getAccounts();
-        setAccounts(currentAccounts);
-
-
         const { preview } = await previewAccountChanges(
-             rawData,
+             records,
              confirmedMappings, // Pass all mappings
-             currentAccounts // Pass current accounts
+             currentAccounts, // Pass current accounts
+             settings.decimalSeparator
          );
          setAccountPreviewData(preview);
          console.log("Account preview generated:", preview);
 
 
-        const mapped: MappedTransaction[] = rawData.map((record, index) => {
+        const mapped: MappedTransaction[] = records.map((record, index) => {
           const rowNumber = index + 2; 
 
           const dateCol = confirmedMappings.date!;
@@ -394,15 +502,19 @@ export default function ImportDataPage() {
           const initialBalanceCol = confirmedMappings.initialBalance;
 
 
+          const sourceRecord = rawData[index]; // The row as it is in the file, without normalized columns
           const sanitizedRecord: Record<string, string | null> = {};
-            for (const key in record) {
-                if (Object.prototype.hasOwnProperty.call(record, key)) {
-                     sanitizedRecord[key] = record[key] === undefined ? null : record[key]!;
+            for (const key in sourceRecord) {
+                if (Object.prototype.hasOwnProperty.call(sourceRecord, key)) {
+                     sanitizedRecord[key] = sourceRecord[key] === undefined ? null : sourceRecord[key]!;
                 }
             }
 
 
           try {
+              const parseError = csvRowErrors[index] || rowErrors[index];
+              if (parseError) throw new Error(`Row ${rowNumber}: ${parseError}`);
+
               const csvTypeRaw = record[typeCol];
               const csvType = csvTypeRaw?.trim().toLowerCase();
 
@@ -444,14 +556,16 @@ export default function ImportDataPage() {
               }
 
 
-              const parsedAmount = parseAmount(amountValue); 
+              const parsedAmount = parseAmount(amountValue, '.'); // Normalized by normalizeCsvRecords
               if (isNaN(parsedAmount)) throw new Error(`Row ${rowNumber}: Could not parse amount "${amountValue}".`);
 
               let tempParsedForeignAmount: number | null = null;
               if (foreignAmountValue !== undefined && foreignAmountValue.trim() !== "") {
-                  const tempAmount = parseAmount(foreignAmountValue);
+                  const tempAmount = parseAmount(foreignAmountValue, settings.decimalSeparator);
                   if (!Number.isNaN(tempAmount)) {
                       tempParsedForeignAmount = tempAmount; 
+                  } else if (settings.decimalSeparator === 'auto' && isAmbiguousAmount(foreignAmountValue)) {
+                      throw new Error(`Row ${rowNumber}: Foreign amount "${foreignAmountValue}" reads differently with a decimal point and a decimal comma. Choose the decimal separator in the import settings.`);
                   } else if (foreignAmountValue.trim() !== '') { 
                       console.warn(`Row ${rowNumber}: Could not parse foreign amount "${foreignAmountValue}". It will be ignored.`);
                   }
@@ -465,7 +579,11 @@ export default function ImportDataPage() {
               if (finalParsedForeignCurrency === "") finalParsedForeignCurrency = null;
 
 
-              const parsedDate = parseDate(dateValue);
+              const parsedDate = parseCsvDate(dateValue);
+              if (!parsedDate) {
+                  const reason = isAmbiguousDate(dateValue) ? 'reads differently day-first and month-first' : 'could not be read';
+                  throw new Error(`Row ${rowNumber}: Date "${dateValue}" ${reason}. Choose its format in the column mapping.`);
+              }
               const parsedTags = tagsValue.split(',').map(tag => tag.trim()).filter(tag => tag.length > 0);
 
 
@@ -483,10 +601,13 @@ export default function ImportDataPage() {
               if (csvType === 'opening balance') {
                    let actualAccountNameForOB: string | undefined;
                    let initialBalanceValue = initialBalanceCol ? record[initialBalanceCol] : amountValue;
-                   let parsedInitialBalance = parseAmount(initialBalanceValue);
+                   let parsedInitialBalance = initialBalanceCol ? parseAmount(initialBalanceValue, settings.decimalSeparator) : parsedAmount;
 
                    if(isNaN(parsedInitialBalance)) {
-                        throw new Error(`Row ${rowNumber}: Could not parse initial balance for 'opening balance'. Value was: '${initialBalanceValue}'.`)
+                        const separatorHint = settings.decimalSeparator === 'auto' && isAmbiguousAmount(initialBalanceValue)
+                            ? " It reads differently with a decimal point and a decimal comma; choose the decimal separator in the import settings."
+                            : '';
+                        throw new Error(`Row ${rowNumber}: Could not parse initial balance for 'opening balance'. Value was: '${initialBalanceValue}'.${separatorHint}`)
                    }
                    
                    // Prefer name from the side that IS an asset account, if types are clear
@@ -559,13 +680,13 @@ export default function ImportDataPage() {
             } catch (rowError: any) {
                 console.error(`Error processing row ${index + 2} with mappings:`, confirmedMappings, `and record:`, record, `Error:`, rowError);
                  const errorSanitizedRecord: Record<string, string | null> = {};
-                 for (const key in record) {
-                     if (Object.prototype.hasOwnProperty.call(record, key)) {
-                         errorSanitizedRecord[key] = record[key] === undefined ? null : record[key]!;
+                 for (const key in rawData[index]) {
+                     if (Object.prototype.hasOwnProperty.call(rawData[index], key)) {
+                         errorSanitizedRecord[key] = rawData[index][key] === undefined ? null : rawData[index][key]!;
                      }
                  }
                  return {
-                    date: parseDate(record[dateCol!]), 
+                    date: parseCsvDate(record[dateCol!]) ?? '',
                     amount: 0,
                     currency: record[currencyCol!]?.trim().toUpperCase() || 'N/A', 
                     description: `Error Processing Row ${index + 2}`,
@@ -595,17 +716,236 @@ export default function ImportDataPage() {
             setError(null);
         }
 
-        setParsedData(mapped);
+        const checkedRows = await applyRulesToRows(await markDuplicateRows(mapped, currentAccounts), currentAccounts);
+        const duplicateCount = checkedRows.filter(row => row.duplicateStatus === 'exact' || row.duplicateStatus === 'probable').length;
+
+        setParsedData(checkedRows);
         setIsLoading(false);
         setIsMappingDialogOpen(false);
-        toast({ title: "Mapping Applied", description: `Previewing ${mapped.filter(m => m.importStatus === 'pending' || m.csvTransactionType === 'opening balance').length} data points and account changes. Review before importing.` });
+        toast({ title: "Mapping Applied", description: `Previewing ${checkedRows.filter(m => m.importStatus === 'pending' || m.csvTransactionType === 'opening balance').length} data points and account changes.${duplicateCount > 0 ? ` ${duplicateCount} possible duplicates will be skipped unless you choose otherwise.` : ''} Review before importing.` });
    }
 
 
+   /**
+    * Builds the account preview and transaction rows for an OFX/QFX statement. Statements are matched to
+    * accounts by their stored account number, then by the proposed name; FITIDs already present on the
+    * account (or repeated in the file) are marked as skipped.
+    */
+   const processOfxStatementData = async (text: string) => {
+        setColumnMappings({});
+        setFinalAccountMapForImport({});
+
+        const { statements, errors } = parseOfx(text);
+        if (statements.length === 0) {
+            setError(`OFX Parsing Error: ${errors.join(' ') || 'The file contains no statements.'}`);
+            setIsLoading(false);
+            return;
+        }
+        if (errors.length > 0) {
+            console.warn("OFX entries skipped while parsing:", errors);
+            toast({ title: "OFX Parsing Warning", description: `Some entries could not be read: ${errors.slice(0, 2).join('; ')}`, variant: "default", duration: 7000 });
+        }
+
+        const currentAccounts = await getAccounts();
+        setAccounts(currentAccounts);
+
+        const statementAccounts = statements.map(statement => {
+            const defaultName = getDefaultOfxAccountName(statement);
+            const existingAccount = currentAccounts.find(acc => acc.bankAccountId === statement.accountId)
+                || currentAccounts.find(acc => acc.name.toLowerCase().trim() === defaultName.toLowerCase());
+            return {
+                statement,
+                existingAccount,
+                accountName: existingAccount?.name || defaultName,
+                currency: statement.currency || existingAccount?.currency || 'USD',
+            };
+        });
+
+        const mapped: MappedTransaction[] = statementAccounts.flatMap(({ statement, accountName, currency }) =>
+            statement.transactions.map((entry): MappedTransaction => {
+                const isWithdrawal = entry.amount < 0;
+                const counterparty = entry.name || entry.memo || null;
+                let description = entry.name || entry.memo || 'Imported Transaction';
+                if (entry.name && entry.memo && entry.memo !== entry.name) description = `${entry.name} (Notes: ${entry.memo})`;
+
+                return {
+                    csvRawSourceName: isWithdrawal ? accountName : counterparty,
+                    csvRawDestinationName: isWithdrawal ? counterparty : accountName,
+                    csvTransactionType: isWithdrawal ? 'withdrawal' : 'deposit',
+                    csvSourceType: isWithdrawal ? 'asset account' : 'revenue account',
+                    csvDestinationType: isWithdrawal ? 'expense account' : 'asset account',
+                    date: entry.date,
+                    amount: entry.amount,
+                    currency,
+                    foreignAmount: null,
+                    foreignCurrency: null,
+                    description,
+                    category: 'Uncategorized',
+                    tags: [],
+                    originalRecord: {
+                        ACCTID: statement.accountId,
+                        FITID: entry.fitId,
+                        TRNTYPE: entry.type,
+                        DTPOSTED: entry.date,
+                        TRNAMT: entry.amount.toString(),
+                        NAME: entry.name || null,
+                        MEMO: entry.memo || null,
+                    },
+                    importStatus: 'pending',
+                    errorMessage: null,
+                    appSourceAccountId: null,
+                    appDestinationAccountId: null,
+                    originalImportData: { foreignAmount: null, foreignCurrency: null, fitId: entry.fitId },
+                };
+            })
+        );
+        const checkedRows = await applyRulesToRows(await markDuplicateRows(mapped, currentAccounts), currentAccounts);
+
+        const preview: AccountPreview[] = [];
+        const balanceNotes: string[] = [];
+        for (const { statement, existingAccount, accountName, currency } of statementAccounts) {
+            if (preview.some(acc => acc.bankAccountId === statement.accountId)) continue;
+            const pendingTotal = checkedRows
+                .filter(row => row.originalRecord.ACCTID === statement.accountId && row.importStatus === 'pending')
+                .reduce((sum, row) => sum + row.amount, 0);
+
+            if (existingAccount) {
+                preview.push({
+                    name: existingAccount.name,
+                    currency: existingAccount.currency,
+                    initialBalance: existingAccount.balance,
+                    action: existingAccount.bankAccountId === statement.accountId ? 'no change' : 'update',
+                    existingId: existingAccount.id,
+                    category: existingAccount.category,
+                    bankAccountId: statement.accountId,
+                });
+                if (statement.ledgerBalance !== null && currency === existingAccount.currency) {
+                    const balanceAfterImport = existingAccount.balance + pendingTotal;
+                    if (Math.abs(balanceAfterImport - statement.ledgerBalance) >= 0.01) {
+                        balanceNotes.push(`"${existingAccount.name}" will be at ${formatCurrency(balanceAfterImport, currency, undefined, false)} after import, but the statement's ledger balance is ${formatCurrency(statement.ledgerBalance, currency, undefined, false)}.`);
+                    }
+                }
+            } else {
+                // Seed the new account so that it ends at the statement's ledger balance once its transactions are added.
+                preview.push({
+                    name: accountName,
+                    currency,
+                    initialBalance: statement.ledgerBalance !== null ? parseFloat((statement.ledgerBalance - pendingTotal).toFixed(2)) : 0,
+                    action: 'create',
+                    category: 'asset',
+                    type: getAccountTypeForOfxStatement(statement),
+                    bankAccountId: statement.accountId,
+                });
+            }
+        }
+
+        setAccountPreviewData(preview);
+        setParsedData(checkedRows);
+        setError(balanceNotes.length > 0 ? `Ledger balance check: ${balanceNotes.join(' ')}` : null);
+        setIsLoading(false);
+
+        const duplicateCount = checkedRows.filter(row => row.duplicateStatus === 'exact' || row.duplicateStatus === 'probable').length;
+        toast({
+            title: "Statement Parsed",
+            description: `Previewing ${checkedRows.length - duplicateCount} new transactions from ${statements.length} statement(s).${duplicateCount > 0 ? ` ${duplicateCount} possible duplicates will be skipped unless you choose otherwise.` : ''} Review before importing.`,
+        });
+   }
+
+
+   /**
+    * Compares each pending row with the transactions already stored on its account, and rows carrying a bank
+    * transaction ID also with earlier rows of the same file. Exact and probable duplicates default to skipped.
+    */
+   const markDuplicateRows = async (rows: MappedTransaction[], accountsList: Account[]): Promise<MappedTransaction[]> => {
+        const accountIdsByName = new Map(accountsList.map(acc => [acc.name.toLowerCase().trim(), acc.id]));
+        const comparisonPools = new Map<string, (Transaction | DuplicateCheckable)[]>();
+        const checkedRows: MappedTransaction[] = [];
+
+        for (const row of rows) {
+            const accountName = (row.csvTransactionType === 'deposit' ? row.csvRawDestinationName : row.csvRawSourceName)?.toLowerCase().trim();
+            if (row.importStatus !== 'pending' || !accountName) {
+                checkedRows.push(row);
+                continue;
+            }
+
+            // Transfers are checked on their source leg, which is stored as a negative amount.
+            const amount = row.csvTransactionType === 'transfer' ? -Math.abs(row.amount) : row.amount;
+            const externalId = row.originalImportData?.fitId;
+            const importFingerprint = getImportFingerprint({ date: row.date, amount, description: row.description, externalId });
+            const accountId = accountIdsByName.get(accountName);
+
+            let pool = comparisonPools.get(accountName);
+            if (!pool) {
+                pool = accountId ? await getTransactions(accountId) : [];
+                comparisonPools.set(accountName, pool);
+            }
+            const candidate: DuplicateCheckable = {
+                accountId: accountId || accountName,
+                date: row.date,
+                amount,
+                description: row.description,
+                originalImportData: { fitId: externalId, importFingerprint },
+            };
+            const { status, match } = findDuplicate(candidate, pool);
+            if (externalId) pool.push(candidate);
+
+            const duplicateOf = match && 'id' in match ? match : null;
+            let errorMessage: string | null = null;
+            if (status !== 'new') {
+                errorMessage = duplicateOf
+                    ? `${DUPLICATE_STATUS_LABELS[status]} of "${duplicateOf.description}" on ${duplicateOf.date}.`
+                    : `${DUPLICATE_STATUS_LABELS[status]}: the same bank transaction ID appears earlier in this file.`;
+            }
+            checkedRows.push({
+                ...row,
+                importFingerprint,
+                duplicateStatus: status,
+                duplicateOf,
+                duplicateAction: status === 'new' ? 'import' : 'skip',
+                importStatus: status === 'new' ? 'pending' : 'skipped',
+                errorMessage,
+            });
+        }
+        return checkedRows;
+   };
+
+
+   /**
+    * Runs the user's categorization rules over the rows so the preview shows what will be saved. Rows are
+    * imported with rules turned off afterwards, which keeps any edits made in the preview.
+    */
+   const applyRulesToRows = async (rows: MappedTransaction[], accountsList: Account[]): Promise<MappedTransaction[]> => {
+        try {
+            const [rules, matchMode] = await Promise.all([getCategorizationRules(), getRuleMatchMode()]);
+            if (rules.length === 0) return rows;
+            const accountIdsByName = new Map(accountsList.map(acc => [acc.name.toLowerCase().trim(), acc.id]));
+
+            return rows.map(row => {
+                if (row.importStatus === 'error' || row.csvTransactionType === 'transfer' || row.csvTransactionType === 'opening balance') return row;
+                const accountName = (row.csvTransactionType === 'deposit' ? row.csvRawDestinationName : row.csvRawSourceName)?.toLowerCase().trim();
+                const result = applyCategorizationRules({
+                    description: row.description,
+                    amount: row.amount,
+                    accountId: accountName ? accountIdsByName.get(accountName) : null,
+                    transactionCurrency: row.currency,
+                    category: row.category,
+                    tags: row.tags,
+                }, rules, { matchMode });
+                return result.changed ? { ...row, category: result.category, tags: result.tags, description: result.description } : row;
+            });
+        } catch (err) {
+            console.error("Failed to apply categorization rules to the import preview:", err);
+            toast({ title: "Rules Not Applied", description: "Could not load categorization rules. Rows keep the categories from the file.", variant: "destructive" });
+            return rows;
+        }
+   };
+
+
     const previewAccountChanges = async (
         csvData: CsvRecord[],
         mappings: ColumnMapping,
-        existingAccountsParam: Account[]
+        existingAccountsParam: Account[],
+        decimalSeparator: CsvDecimalSeparator
     ): Promise<{ preview: AccountPreview[] }> => {
         
         const mappedTransactions = csvData.map(record => {
@@ -616,8 +956,10 @@ export default function ImportDataPage() {
             const sourceType = record[mappings.source_type!]?.trim().toLowerCase();
             const destType = record[mappings.destination_type!]?.trim().toLowerCase();
             const currency = record[mappings.currency_code!]?.trim().toUpperCase();
-            const amount = parseAmount(record[mappings.amount!]);
-            const initialBalance = parseAmount(record[mappings.initialBalance!] || record[mappings.amount!]);
+            const amount = parseAmount(record[mappings.amount!], '.'); // Normalized by normalizeCsvRecords
+            const initialBalance = mappings.initialBalance && record[mappings.initialBalance]
+                ? parseAmount(record[mappings.initialBalance], decimalSeparator)
+                : amount;
 
 
             return {
@@ -824,7 +1166,7 @@ export default function ImportDataPage() {
                 if (accPreview.action === 'create') {
                     const newAccountData: NewAccountData = {
                         name: accPreview.name,
-                        type: (accPreview.category === 'crypto' ? 'wallet' : 'checking'), 
+                        type: accPreview.type || (accPreview.category === 'crypto' ? 'wallet' : 'checking'), 
                         balance: accPreview.initialBalance, 
                         currency: accPreview.currency,
                         providerName: 'Imported - ' + accPreview.name, 
@@ -833,6 +1175,7 @@ export default function ImportDataPage() {
                         lastActivity: new Date().toISOString(),
                         balanceDifference: 0,
                         includeInNetWorth: true, 
+                        ...(accPreview.bankAccountId ? { bankAccountId: accPreview.bankAccountId } : {}),
                     };
                     const createdAccount = await addAccount(newAccountData);
                     workingMap[normalizedName] = createdAccount.id; 
@@ -848,8 +1191,9 @@ export default function ImportDataPage() {
                             lastActivity: new Date().toISOString(), 
                             category: accPreview.category, 
                             includeInNetWorth: existingAccountForUpdate.includeInNetWorth ?? true, 
+                            ...(accPreview.bankAccountId ? { bankAccountId: accPreview.bankAccountId } : {}),
                         };
-                        const savedUpdatedAccount = await updateAccount(updatedAccountData);
+                        const savedUpdatedAccount = await updateAccount(updatedAccountData, { setBalance: true });
                         accountsProcessedCount++;
                         const idx = currentAppAccounts.findIndex(a => a.id === savedUpdatedAccount.id);
                         if (idx !== -1) currentAppAccounts[idx] = savedUpdatedAccount;
@@ -1017,6 +1361,8 @@ export default function ImportDataPage() {
 
 
       const transactionPayloads: (Omit<Transaction, 'id' | 'createdAt' | 'updatedAt'> & { originalMappedTx: MappedTransaction })[] = [];
+      const transferPayloads: { transfer: NewTransferData; originalMappedTx: MappedTransaction }[] = [];
+      const mergeTargets: { item: MappedTransaction; existing: Transaction; category: string; tags: string[] }[] = [];
 
 
       for (const item of recordsToImport) {
@@ -1031,6 +1377,12 @@ export default function ImportDataPage() {
 
           const transactionCategory = currentCategoriesList.find(c => c.name.toLowerCase() === item.category.toLowerCase())?.name || 'Uncategorized';
           const transactionTags = item.tags?.map(tName => currentTagsList.find(t => t.name.toLowerCase() === tName.toLowerCase())?.name || tName).filter(Boolean) || [];
+          const importData = { ...item.originalImportData, importFingerprint: item.importFingerprint ?? null, sourceFileHash };
+
+          if (item.duplicateAction === 'merge' && item.duplicateOf) {
+              mergeTargets.push({ item, existing: item.duplicateOf, category: transactionCategory, tags: transactionTags });
+              continue;
+          }
 
 
             if (item.csvTransactionType === 'transfer') {
@@ -1081,28 +1433,22 @@ export default function ImportDataPage() {
                     creditCurrency = csvForeignCurrency;
                 }
 
-                // Ensure debitAmount and creditAmount are numbers and signed correctly.
-                transactionPayloads.push({ 
-                    accountId: fromAccountId,
-                    date: item.date,
-                    amount: debitAmount, 
-                    transactionCurrency: debitCurrency, 
-                    description: transferDesc,
-                    category: 'Transfer', 
-                    tags: transactionTags,
+                // Stored as a transfer record so both legs stay linked; each leg of a cross-currency
+                // transfer records the other side's amount
+                transferPayloads.push({
+                    transfer: {
+                        fromAccountId,
+                        toAccountId,
+                        fromAmount: Math.abs(debitAmount),
+                        fromCurrency: debitCurrency,
+                        toAmount: Math.abs(creditAmount),
+                        toCurrency: creditCurrency,
+                        fee: null,
+                        date: item.date,
+                        description: transferDesc,
+                        tags: transactionTags,
+                    },
                     originalMappedTx: item,
-                    originalImportData: item.originalImportData,
-                });
-                transactionPayloads.push({ 
-                    accountId: toAccountId,
-                    date: item.date,
-                    amount: creditAmount, 
-                    transactionCurrency: creditCurrency, 
-                    description: transferDesc,
-                    category: 'Transfer', 
-                    tags: transactionTags,
-                    originalMappedTx: item, 
-                    originalImportData: item.originalImportData,
                 });
 
             } else if (item.csvTransactionType === 'withdrawal' || item.csvTransactionType === 'deposit') {
@@ -1141,9 +1487,9 @@ export default function ImportDataPage() {
                     errorCount++; overallError = true; continue;
                 }
                 
-                // For withdrawals/deposits with foreign currency, Firefly's 'amount' is in 'currency_code'.
-                // 'foreign_amount' in 'foreign_currency_code' is informational.
-                // We will store the primary amount and currency. The foreign details are in originalImportData.
+                // For withdrawals/deposits with foreign currency, Firefly's 'amount' is in 'currency_code'
+                // and is what the account was charged; 'foreign_amount' is what was paid abroad.
+                const hasForeignAmount = !!item.foreignAmount && !!item.foreignCurrency && item.foreignCurrency.toUpperCase() !== payloadCurrency.toUpperCase();
 
                 transactionPayloads.push({
                     accountId: accountIdForTx,
@@ -1153,8 +1499,10 @@ export default function ImportDataPage() {
                     description: item.description,
                     category: transactionCategory,
                     tags: transactionTags,
+                    originalAmount: hasForeignAmount ? item.foreignAmount : null,
+                    originalCurrency: hasForeignAmount ? item.foreignCurrency : null,
                     originalMappedTx: item,
-                    originalImportData: item.originalImportData,
+                    originalImportData: importData,
                 });
           } else {
                 if(itemIndexInDisplay !== -1) updatedDataForDisplay[itemIndexInDisplay] = { ...updatedDataForDisplay[itemIndexInDisplay], importStatus: 'error', errorMessage: `Row ${rowNumber}: Unknown Firefly transaction type "${item.csvTransactionType}". Supported: withdrawal, deposit, transfer, opening balance.` };
@@ -1164,6 +1512,7 @@ export default function ImportDataPage() {
 
 
       transactionPayloads.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+      const totalEntries = transactionPayloads.length + transferPayloads.length + mergeTargets.length;
 
       for (const payload of transactionPayloads) {
           const itemIndexInDisplay = updatedDataForDisplay.findIndex(d =>
@@ -1182,8 +1531,10 @@ export default function ImportDataPage() {
                   description: payload.description,
                   category: payload.category,
                   tags: payload.tags,
+                  originalAmount: payload.originalAmount,
+                  originalCurrency: payload.originalCurrency,
                   originalImportData: payload.originalImportData,
-              });
+              }, { applyRules: false });
               if(itemIndexInDisplay !== -1) {
                 updatedDataForDisplay[itemIndexInDisplay] = { ...updatedDataForDisplay[itemIndexInDisplay], importStatus: 'success', errorMessage: undefined };
               }
@@ -1196,10 +1547,61 @@ export default function ImportDataPage() {
               errorCount++;
               overallError = true;
           }
-          setImportProgress(calculateProgress(importedCount + errorCount, transactionPayloads.length )); 
+          setImportProgress(calculateProgress(importedCount + errorCount, totalEntries)); 
           setParsedData([...updatedDataForDisplay]); 
       }
 
+      for (const { transfer, originalMappedTx } of transferPayloads) {
+          const itemIndexInDisplay = updatedDataForDisplay.findIndex(d => d.originalRecord === originalMappedTx.originalRecord);
+          try {
+              await addTransfer(transfer);
+              if (itemIndexInDisplay !== -1) {
+                  updatedDataForDisplay[itemIndexInDisplay] = { ...updatedDataForDisplay[itemIndexInDisplay], importStatus: 'success', errorMessage: undefined };
+              }
+              importedCount++;
+          } catch (err: any) {
+              console.error(`Failed to import transfer for original row:`, originalMappedTx.originalRecord, err);
+              if (itemIndexInDisplay !== -1) {
+                  updatedDataForDisplay[itemIndexInDisplay] = { ...updatedDataForDisplay[itemIndexInDisplay], importStatus: 'error', errorMessage: err.message || 'Unknown import error' };
+              }
+              errorCount++;
+              overallError = true;
+          }
+          setImportProgress(calculateProgress(importedCount + errorCount, totalEntries));
+          setParsedData([...updatedDataForDisplay]);
+      }
+
+      // Merging keeps the stored transaction (and its amount) and only fills in what the import adds.
+      for (const { item, existing, category, tags: importedTags } of mergeTargets) {
+          const itemIndexInDisplay = updatedDataForDisplay.findIndex(d => d.originalRecord === item.originalRecord);
+          try {
+              await updateTransaction({
+                  ...existing,
+                  category: existing.category === 'Uncategorized' ? category : existing.category,
+                  tags: Array.from(new Set([...(existing.tags || []), ...importedTags])),
+                  originalImportData: {
+                      ...existing.originalImportData,
+                      fitId: existing.originalImportData?.fitId || item.originalImportData?.fitId || null,
+                      importFingerprint: existing.originalImportData?.importFingerprint || item.importFingerprint || null,
+                      sourceFileHash: existing.originalImportData?.sourceFileHash || sourceFileHash,
+                  },
+              });
+              if (itemIndexInDisplay !== -1) {
+                  updatedDataForDisplay[itemIndexInDisplay] = { ...updatedDataForDisplay[itemIndexInDisplay], importStatus: 'success', errorMessage: `Merged into "${existing.description}" (${existing.date}).` };
+              }
+              importedCount++;
+          } catch (err: any) {
+              console.error(`Failed to merge imported row into transaction ${existing.id}:`, item.originalRecord, err);
+              if (itemIndexInDisplay !== -1) {
+                  updatedDataForDisplay[itemIndexInDisplay] = { ...updatedDataForDisplay[itemIndexInDisplay], importStatus: 'error', errorMessage: err.message || 'Unknown merge error' };
+              }
+              errorCount++;
+              overallError = true;
+          }
+          setImportProgress(calculateProgress(importedCount + errorCount, totalEntries));
+          setParsedData([...updatedDataForDisplay]);
+      }
+
 
       setIsLoading(false);
       const finalMessage = `Import finished. Successfully processed transaction entries: ${importedCount}. Failed/Skipped rows (from preview): ${errorCount + parsedData.filter(d => d.importStatus === 'skipped').length}.`;
@@ -1225,6 +1627,19 @@ export default function ImportDataPage() {
       return Math.round((processed / total) * 100);
   }
 
+    const handleDownloadBackup = async () => {
+        setIsDownloadingBackup(true);
+        try {
+            const summary = await downloadBackup();
+            toast({ title: "Backup Downloaded", description: `Exported ${describeBackupSummary(summary)}.` });
+        } catch (err: any) {
+            console.error("Failed to export backup:", err);
+            toast({ title: "Error", description: `Could not export a backup: ${err.message}`, variant: "destructive" });
+        } finally {
+            setIsDownloadingBackup(false);
+        }
+    };
+
     const handleClearData = async () => {
         if (!user) {
             toast({ title: "Not Authenticated", description: "Please log in to clear data.", variant: "destructive" });
@@ -1242,16 +1657,18 @@ export default function ImportDataPage() {
             setAccountPreviewData([]);
             setError(null);
             setRawData([]);
+            setCsvRowErrors({});
             setFile(null);
             setColumnMappings({});
             setImportProgress(0);
             setFinalAccountMapForImport({});
+            setSourceFileHash(null);
 
 
             const fileInput = document.getElementById('csv-file') as HTMLInputElement;
             if (fileInput) fileInput.value = '';
 
-            toast({ title: "Data Cleared", description: "All user data (accounts, categories, tags, groups, subscriptions, transactions) has been removed." });
+            toast({ title: "Data Cleared", description: "All user data (accounts, categories, tags, categorization rules, groups, subscriptions, transactions) has been removed." });
             window.dispatchEvent(new Event('storage'));
         } catch (err) {
             console.error("Failed to clear data:", err);
@@ -1331,6 +1748,14 @@ export default function ImportDataPage() {
     };
 
 
+    const handleDuplicateActionChange = (originalIndexInData: number, action: DuplicateAction) => {
+        setParsedData(prevData => prevData.map((row, index) => {
+            if (index !== originalIndexInData || row.importStatus === 'success' || row.importStatus === 'error') return row;
+            return { ...row, duplicateAction: action, importStatus: action === 'skip' ? 'skipped' : 'pending' };
+        }));
+    };
+
+
   const groupedTransactionsForPreview = useMemo(() => {
     if (!parsedData || parsedData.length === 0) return {};
     const grouped: { [accountDisplayName: string]: MappedTransaction[] } = {};
@@ -1418,15 +1843,15 @@ export default function ImportDataPage() {
 
       <Card className="mb-8">
         <CardHeader>
-          <CardTitle>Step 1: Upload CSV File</CardTitle>
+          <CardTitle>Step 1: Upload CSV or OFX File</CardTitle>
           <CardDescription>
-            Select your CSV file. Firefly III export format is best supported. Map columns carefully in the next step. Ensure file is UTF-8 encoded.
+            Select a CSV file or an OFX/QFX bank statement. For CSV, Firefly III export format is best supported; map columns carefully in the next step and ensure the file is UTF-8 encoded. OFX/QFX statements are matched to your accounts by account number, and transactions imported before are skipped.
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-6">
           <div className="grid w-full max-w-sm items-center gap-1.5">
-            <Label htmlFor="csv-file">Select CSV File</Label>
-            <Input id="csv-file" type="file" accept=".csv,text/csv" onChange={handleFileChange} disabled={isLoading}/>
+            <Label htmlFor="csv-file">Select CSV, OFX or QFX File</Label>
+            <Input id="csv-file" type="file" accept=".csv,text/csv,.ofx,.qfx" onChange={handleFileChange} disabled={isLoading}/>
           </div>
 
           {error && (
@@ -1440,7 +1865,7 @@ export default function ImportDataPage() {
 
           <div className="flex flex-wrap gap-4">
              <Button onClick={handleParseAndMap} disabled={!file || isLoading}>
-                {isLoading && !isMappingDialogOpen ? "Parsing..." : "Parse & Map Columns"}
+                {isLoading && !isMappingDialogOpen ? "Parsing..." : file && isOfxFileName(file.name) ? "Parse Statement" : "Parse & Map Columns"}
              </Button>
              <Button onClick={handleImport} disabled={isLoading || parsedData.length === 0 || parsedData.every(d => d.importStatus !== 'pending')}>
                {isLoading && importProgress > 0 ? `Importing... (${importProgress}%)` : "Import Transactions"}
@@ -1457,10 +1882,14 @@ export default function ImportDataPage() {
                        <AlertDialogHeader>
                            <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
                            <AlertDialogDescription>
-                               This action cannot be undone. This will permanently delete ALL your accounts, categories, tags, groups, subscriptions and transactions from the database. This is intended for testing or resetting your data.
+                               This action cannot be undone. This will permanently delete ALL your accounts, transactions, categories, tags, categorization rules, groups, subscriptions, transfers, loans, credit cards, budgets, investments, exchange rates, saved views and import profiles from the database. This is intended for testing or resetting your data. Download a backup first to be able to restore it later.
                            </AlertDialogDescription>
                        </AlertDialogHeader>
                        <AlertDialogFooter>
+                           <Button variant="outline" onClick={handleDownloadBackup} disabled={isClearing || isDownloadingBackup}>
+                               <Download className="mr-2 h-4 w-4" />
+                               {isDownloadingBackup ? "Exporting..." : "Download Backup"}
+                           </Button>
                            <AlertDialogCancel disabled={isClearing}>Cancel</AlertDialogCancel>
                            <AlertDialogAction onClick={handleClearData} disabled={isClearing} className="bg-destructive hover:bg-destructive/90">
                                {isClearing ? "Clearing..." : "Yes, Clear All My Data"}
@@ -1476,18 +1905,30 @@ export default function ImportDataPage() {
         </CardContent>
       </Card>
 
+      <div className="mb-8">
+        <BackupRestoreCard />
+      </div>
+
 
         <Dialog open={isMappingDialogOpen} onOpenChange={setIsMappingDialogOpen}>
             <DialogContent className="sm:max-w-3xl">
                 <DialogHeader>
                     <DialogTitle>Step 2: Map CSV Columns</DialogTitle>
                     <DialogDescription>
-                        Match CSV columns (right) to application fields (left). For Firefly III CSVs, ensure 'type', 'amount', 'currency_code', 'date', 'source_name', and 'destination_name' are correctly mapped.
+                        Match CSV columns (right) to application fields (left). For Firefly III CSVs, ensure 'type', 'amount', 'currency_code', 'date', 'source_name', and 'destination_name' are correctly mapped. Save the mapping as a profile to reuse it for the next export from the same bank.
                     </DialogDescription>
                 </DialogHeader>
                 <CsvMappingForm
+                    key={mappingFormVersion}
                     csvHeaders={csvHeaders}
                     initialMappings={columnMappings}
+                    initialSettings={importSettings}
+                    accounts={accounts}
+                    profiles={importProfiles}
+                    activeProfileId={activeProfileId}
+                    onSelectProfile={handleSelectProfile}
+                    onDeleteProfile={handleDeleteProfile}
+                    onEncodingChange={handleEncodingChange}
                     onSubmit={processAndMapData}
                     onCancel={() => setIsMappingDialogOpen(false)}
                 />
@@ -1566,6 +2007,7 @@ export default function ImportDataPage() {
                                     <TableHead className="text-right">Foreign Amt.</TableHead>
                                     <TableHead>Foreign Curr.</TableHead>
                                     <TableHead>Status</TableHead>
+                                    <TableHead className="min-w-[140px]">Duplicate Check</TableHead>
                                     <TableHead className="min-w-[150px]">Message / Info</TableHead>
                                 </TableRow>
                                 </TableHeader>
@@ -1603,6 +2045,23 @@ export default function ImportDataPage() {
                                                 {item.foreignAmount != null ? formatCurrency(item.foreignAmount, item.foreignCurrency || '', item.foreignCurrency || '', false) : '-'}</TableCell>
                                             <TableCell className="max-w-[80px]">{item.foreignCurrency || '-'}</TableCell>
                                             <TableCell className="font-medium capitalize">{item.importStatus}</TableCell>
+                                            <TableCell className="space-y-1">
+                                                {item.duplicateStatus ? (
+                                                    <Badge variant={item.duplicateStatus === 'exact' ? "destructive" : item.duplicateStatus === 'probable' ? "outline" : "secondary"} className="text-[10px] whitespace-nowrap">
+                                                        {DUPLICATE_STATUS_LABELS[item.duplicateStatus]}
+                                                    </Badge>
+                                                ) : '-'}
+                                                {item.duplicateStatus && item.duplicateStatus !== 'new' && item.importStatus !== 'success' && item.importStatus !== 'error' && (
+                                                    <Select value={item.duplicateAction} onValueChange={(value) => handleDuplicateActionChange(originalIndex, value as DuplicateAction)}>
+                                                        <SelectTrigger className="h-8 text-xs"><SelectValue /></SelectTrigger>
+                                                        <SelectContent>
+                                                            <SelectItem value="skip">Skip</SelectItem>
+                                                            <SelectItem value="import">Import anyway</SelectItem>
+                                                            {item.duplicateOf && item.csvTransactionType !== 'transfer' && <SelectItem value="merge">Merge into existing</SelectItem>}
+                                                        </SelectContent>
+                                                    </Select>
+                                                )}
+                                            </TableCell>
                                             <TableCell className="text-muted-foreground max-w-[200px] truncate" title={item.errorMessage ?? undefined}>{item.errorMessage}</TableCell>
                                         </TableRow>
                                     );
@@ -4,7 +4,8 @@
 import { useState, useEffect, useMemo } from 'react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import InvestmentPricePanel from "@/components/investments/investment-price-panel";
-import { AreaChart, DollarSign, Euro, Bitcoin as BitcoinIcon } from "lucide-react";
+import InvestmentPortfolio from "@/components/investments/investment-portfolio";
+import { DollarSign, Euro, Bitcoin as BitcoinIcon } from "lucide-react";
 import { getUserPreferences } from '@/lib/preferences';
 import { convertCurrency, getCurrencySymbol, supportedCurrencies as allAppSupportedCurrencies } from '@/lib/currency';
 import { Skeleton } from '@/components/ui/skeleton';
@@ -192,22 +193,7 @@ export default function InvestmentsPage() {
 
       <InvestmentPricePanel prices={dynamicPriceData} />
 
-      <Card>
-        <CardHeader>
-          <CardTitle>My Portfolio</CardTitle>
-          <CardDescription>
-            Overview of your investment accounts and performance.
-          </CardDescription>
-        </CardHeader>
-        <CardContent>
-          <div className="text-center py-10">
-            <AreaChart className="mx-auto h-24 w-24 text-muted-foreground" strokeWidth={1.5}/>
-            <p className="mt-4 text-muted-foreground">
-              Investment portfolio tracking feature coming soon!
-            </p>
-          </div>
-        </CardContent>
-      </Card>
+      <InvestmentPortfolio preferredCurrency={preferredCurrency} />
     </div>
   );
 }
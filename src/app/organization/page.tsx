@@ -8,31 +8,42 @@ import { Badge } from "@/components/ui/badge";
 import { Button, buttonVariants } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogTrigger } from "@/components/ui/dialog";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
-import { PlusCircle, Edit, Trash2, FolderPlus, Settings2, Users, Tag as TagIconLucide, Eye, Edit3 } from 'lucide-react';
-import { getCategories, addCategory, updateCategory, deleteCategory, type Category, getCategoryStyle } from "@/services/categories";
+import { PlusCircle, Edit, Trash2, FolderPlus, Settings2, Users, Tag as TagIconLucide, Eye, Edit3, GitMerge } from 'lucide-react';
+import { getCategories, addCategory, updateCategory, type Category, getCategoryStyle } from "@/services/categories";
+import { flattenCategoryTree, getCategoryPath } from '@/lib/category-tree';
 import AddCategoryForm from '@/components/categories/add-category-form';
 import EditCategoryForm from '@/components/categories/edit-category-form';
-import { getTags, addTag, updateTag, deleteTag, type Tag, getTagStyle } from "@/services/tags";
+import { getTags, addTag, type Tag, getTagStyle } from "@/services/tags";
 import AddTagForm from '@/components/tags/add-tag-form';
 import EditTagForm from '@/components/tags/edit-tag-form';
 import { getGroups, addGroup, updateGroup, deleteGroup, type Group } from "@/services/groups";
 import AddGroupForm from '@/components/organization/add-group-form';
 import EditGroupForm from '@/components/organization/edit-group-form'; 
 import ManageGroupCategoriesDialog from '@/components/organization/manage-group-categories-dialog';
+import CategorizationRulesCard from '@/components/organization/categorization-rules-card';
+import ReassignReferencesDialog from '@/components/organization/reassign-references-dialog';
+import UnlinkedReferencesCard from '@/components/organization/unlinked-references-card';
+import { applyCategoryChange, applyTagChange, previewCategoryChange, previewTagChange } from '@/services/reference-rewrites';
+import { describeReferenceChanges, getTotalReferenceChanges, isReservedCategoryName, type ReferenceChangeCounts } from '@/lib/reference-rewrites';
 import { Skeleton } from '@/components/ui/skeleton';
 import { useToast } from "@/hooks/use-toast";
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
 import { cn } from '@/lib/utils';
 
 
+/** Appended to success toasts, e.g. " Updated 12 transactions and 1 rule." */
+function describeUpdatedReferences(counts: ReferenceChangeCounts): string {
+  return getTotalReferenceChanges(counts) > 0 ? ` Updated ${describeReferenceChanges(counts)}.` : '';
+}
+
 export default function OrganizationPage() {
   // Categories State
   const [categories, setCategories] = useState<Category[]>([]);
   const [isLoadingCategories, setIsLoadingCategories] = useState(true);
   const [isAddCategoryDialogOpen, setIsAddCategoryDialogOpen] = useState(false);
   const [isEditCategoryDialogOpen, setIsEditCategoryDialogOpen] = useState(false);
-  const [isDeletingCategory, setIsDeletingCategory] = useState(false);
   const [selectedCategory, setSelectedCategory] = useState<Category | null>(null);
+  const [categoryToReassign, setCategoryToReassign] = useState<{ category: Category; mode: 'merge' | 'delete' } | null>(null);
   const [categoryError, setCategoryError] = useState<string | null>(null);
 
   // Tags State
@@ -40,8 +51,8 @@ export default function OrganizationPage() {
   const [isLoadingTags, setIsLoadingTags] = useState(true);
   const [isAddTagDialogOpen, setIsAddTagDialogOpen] = useState(false);
   const [isEditTagDialogOpen, setIsEditTagDialogOpen] = useState(false);
-  const [isDeletingTag, setIsDeletingTag] = useState(false);
   const [selectedTag, setSelectedTag] = useState<Tag | null>(null);
+  const [tagToReassign, setTagToReassign] = useState<{ tag: Tag; mode: 'merge' | 'delete' } | null>(null);
   const [tagError, setTagError] = useState<string | null>(null);
 
   // Groups State
@@ -108,10 +119,10 @@ export default function OrganizationPage() {
 
 
   // Category Handlers
-  const handleAddCategory = async (categoryName: string, icon?: string) => {
+  const handleAddCategory = async (categoryName: string, icon?: string, parentId?: string | null) => {
     setIsLoadingCategories(true);
     try {
-      await addCategory(categoryName, icon);
+      await addCategory(categoryName, icon, parentId);
       setIsAddCategoryDialogOpen(false);
       toast({ title: "Success", description: `Category "${categoryName}" added.` });
       window.dispatchEvent(new Event('storage'));
@@ -121,12 +132,14 @@ export default function OrganizationPage() {
       toast({ title: "Error Adding Category", description: err.message || "Could not add category.", variant: "destructive" });
     } finally { setIsLoadingCategories(false); }
   };
-  const handleUpdateCategory = async (categoryId: string, newName: string, newIcon?: string) => {
+  const handleUpdateCategory = async (categoryId: string, newName: string, newIcon?: string, newParentId?: string | null) => {
     setIsLoadingCategories(true);
     try {
-      await updateCategory(categoryId, newName, newIcon);
+      // Renames go first so transactions, subscriptions and rules follow the new name
+      const counts = await applyCategoryChange({ type: 'rename', categoryId, newName });
+      await updateCategory(categoryId, newName, newIcon, newParentId);
       setIsEditCategoryDialogOpen(false); setSelectedCategory(null);
-      toast({ title: "Success", description: `Category updated to "${newName}".` });
+      toast({ title: "Success", description: `Category updated to "${newName}".${describeUpdatedReferences(counts)}` });
       window.dispatchEvent(new Event('storage'));
       //fetchData(); // Let the storage event handle the refetch
     } catch (err: any) {
@@ -134,20 +147,25 @@ export default function OrganizationPage() {
       toast({ title: "Error Updating Category", description: err.message || "Could not update category.", variant: "destructive" });
     } finally { setIsLoadingCategories(false); }
   };
-  const handleDeleteCategoryConfirm = async () => {
-    if (!selectedCategory) return; setIsDeletingCategory(true);
+  const previewCategoryReassign = useCallback((targetId: string | null): Promise<ReferenceChangeCounts> => {
+    if (!categoryToReassign) return Promise.reject(new Error("No category selected."));
+    const categoryId = categoryToReassign.category.id;
+    return previewCategoryChange(targetId ? { type: 'merge', categoryId, targetId } : { type: 'delete', categoryId });
+  }, [categoryToReassign]);
+  const handleCategoryReassignConfirm = async (targetId: string | null) => {
+    if (!categoryToReassign) return;
+    const { category } = categoryToReassign;
     try {
-      await deleteCategory(selectedCategory.id);
-      toast({ title: "Category Deleted", description: `Category "${selectedCategory.name}" removed.` });
+      const counts = await applyCategoryChange(targetId ? { type: 'merge', categoryId: category.id, targetId } : { type: 'delete', categoryId: category.id });
+      setCategoryToReassign(null);
+      toast({ title: targetId ? "Category Merged" : "Category Deleted", description: `Category "${category.name}" removed.${describeUpdatedReferences(counts)}` });
       window.dispatchEvent(new Event('storage'));
-      //fetchData(); // Let the storage event handle the refetch
     } catch (err: any) {
-      console.error("Failed to delete category:", err);
+      console.error("Failed to merge or delete category:", err);
       toast({ title: "Error Deleting Category", description: err.message || "Could not delete category.", variant: "destructive" });
-    } finally { setIsDeletingCategory(false); setSelectedCategory(null); }
+    }
   };
   const openEditCategoryDialog = (category: Category) => { setSelectedCategory(category); setIsEditCategoryDialogOpen(true); };
-  const openDeleteCategoryDialog = (category: Category) => { setSelectedCategory(category); };
 
   // Tag Handlers
   const handleAddTag = async (tagName: string) => {
@@ -166,9 +184,9 @@ export default function OrganizationPage() {
   const handleUpdateTag = async (tagId: string, newName: string) => {
     setIsLoadingTags(true);
     try {
-      await updateTag(tagId, newName);
+      const counts = await applyTagChange({ type: 'rename', tagId, newName });
       setIsEditTagDialogOpen(false); setSelectedTag(null);
-      toast({ title: "Success", description: `Tag updated to "${newName}".` });
+      toast({ title: "Success", description: `Tag updated to "${newName}".${describeUpdatedReferences(counts)}` });
       window.dispatchEvent(new Event('storage'));
       //fetchData(); // Let the storage event handle the refetch
     } catch (err: any) {
@@ -176,20 +194,25 @@ export default function OrganizationPage() {
       toast({ title: "Error Updating Tag", description: err.message || "Could not update tag.", variant: "destructive" });
     } finally { setIsLoadingTags(false); }
   };
-  const handleDeleteTagConfirm = async () => {
-    if (!selectedTag) return; setIsDeletingTag(true);
+  const previewTagReassign = useCallback((targetId: string | null): Promise<ReferenceChangeCounts> => {
+    if (!tagToReassign) return Promise.reject(new Error("No tag selected."));
+    const tagId = tagToReassign.tag.id;
+    return previewTagChange(targetId ? { type: 'merge', tagId, targetId } : { type: 'delete', tagId });
+  }, [tagToReassign]);
+  const handleTagReassignConfirm = async (targetId: string | null) => {
+    if (!tagToReassign) return;
+    const { tag } = tagToReassign;
     try {
-      await deleteTag(selectedTag.id);
-      toast({ title: "Tag Deleted", description: `Tag "${selectedTag.name}" removed.` });
+      const counts = await applyTagChange(targetId ? { type: 'merge', tagId: tag.id, targetId } : { type: 'delete', tagId: tag.id });
+      setTagToReassign(null);
+      toast({ title: targetId ? "Tag Merged" : "Tag Deleted", description: `Tag "${tag.name}" removed.${describeUpdatedReferences(counts)}` });
       window.dispatchEvent(new Event('storage'));
-      //fetchData(); // Let the storage event handle the refetch
     } catch (err: any) {
-      console.error("Failed to delete tag:", err);
+      console.error("Failed to merge or delete tag:", err);
       toast({ title: "Error Deleting Tag", description: err.message || "Could not delete tag.", variant: "destructive" });
-    } finally { setIsDeletingTag(false); setSelectedTag(null); }
+    }
   };
   const openEditTagDialog = (tag: Tag) => { setSelectedTag(tag); setIsEditTagDialogOpen(true); };
-  const openDeleteTagDialog = (tag: Tag) => { setSelectedTag(tag); };
 
   // Group Handlers
   const handleAddGroup = async (groupName: string) => {
@@ -428,7 +451,7 @@ export default function OrganizationPage() {
                   <DialogTitle>Add New Category</DialogTitle>
                   <DialogDescription>Enter a unique name and optionally an icon (emoji) for the new category.</DialogDescription>
                 </DialogHeader>
-                <AddCategoryForm onCategoryAdded={handleAddCategory} isLoading={isLoadingCategories} />
+                <AddCategoryForm onCategoryAdded={handleAddCategory} isLoading={isLoadingCategories} categories={categories} />
               </DialogContent>
             </Dialog>
           </div>
@@ -442,34 +465,22 @@ export default function OrganizationPage() {
             </div>
           ) : categories.length > 0 ? (
             <div className="flex flex-wrap gap-3">
-              {categories.map((category) => {
+              {flattenCategoryTree(categories).map(({ category }) => {
                 const { icon: CategoryIcon, color } = getCategoryStyle(category);
                 return (
                   <Link key={category.id} href={`/categories/${category.id}`} passHref legacyBehavior>
                     <a className={cn("group relative", buttonVariants({variant: "outline"}), `w-full sm:w-auto justify-between py-2 px-3 text-sm ${color} border items-center cursor-pointer hover:bg-muted/80`)}>
                        <div className="flex items-center gap-1 overflow-hidden mr-8">
-                         <CategoryIcon className="h-4 w-4" /> <span className="capitalize truncate">{category.name}</span>
+                         <CategoryIcon className="h-4 w-4" /> <span className="capitalize truncate">{getCategoryPath(category, categories)}</span>
                        </div>
                        <div className="absolute right-1 top-1/2 -translate-y-1/2 flex items-center gap-0 opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 transition-opacity">
                           <Button asChild variant="ghost" size="icon" className="h-7 w-7 text-muted-foreground hover:text-primary" onClick={(e) => {e.preventDefault(); e.stopPropagation(); openEditCategoryDialog(category);}}><span><Edit className="h-4 w-4" /><span className="sr-only">Edit</span></span></Button>
-                          <AlertDialog
-                            open={selectedCategory?.id === category.id && !isEditCategoryDialogOpen && !isDeletingCategory}
-                            onOpenChange={(isOpen) => {
-                                if (!isOpen) setSelectedCategory(null);
-                            }}
-                          >
-                              <AlertDialogTrigger asChild>
-                                  <Button asChild variant="ghost" size="icon" className="h-7 w-7 text-muted-foreground hover:text-destructive" onClick={(e) => {e.preventDefault(); e.stopPropagation(); openDeleteCategoryDialog(category);}}>
-                                      <span><Trash2 className="h-4 w-4" /><span className="sr-only">Delete</span></span>
-                                  </Button>
-                              </AlertDialogTrigger>
-                              {selectedCategory?.id === category.id && (
-                                <AlertDialogContent>
-                                    <AlertDialogHeader><AlertDialogTitle>Are you sure?</AlertDialogTitle><AlertDialogDescription>This action will permanently delete "{selectedCategory?.name}".</AlertDialogDescription></AlertDialogHeader>
-                                    <AlertDialogFooter><AlertDialogCancel onClick={() => setSelectedCategory(null)} disabled={isDeletingCategory}>Cancel</AlertDialogCancel><AlertDialogAction onClick={handleDeleteCategoryConfirm} disabled={isDeletingCategory} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">{isDeletingCategory ? "Deleting..." : "Delete"}</AlertDialogAction></AlertDialogFooter>
-                                </AlertDialogContent>
-                              )}
-                          </AlertDialog>
+                          {!isReservedCategoryName(category.name) && (
+                            <>
+                              <Button asChild variant="ghost" size="icon" className="h-7 w-7 text-muted-foreground hover:text-primary" onClick={(e) => {e.preventDefault(); e.stopPropagation(); setCategoryToReassign({ category, mode: 'merge' });}}><span><GitMerge className="h-4 w-4" /><span className="sr-only">Merge</span></span></Button>
+                              <Button asChild variant="ghost" size="icon" className="h-7 w-7 text-muted-foreground hover:text-destructive" onClick={(e) => {e.preventDefault(); e.stopPropagation(); setCategoryToReassign({ category, mode: 'delete' });}}><span><Trash2 className="h-4 w-4" /><span className="sr-only">Delete</span></span></Button>
+                            </>
+                          )}
                        </div>
                      </a>
                    </Link>
@@ -521,24 +532,8 @@ export default function OrganizationPage() {
                       </div>
                       <div className="absolute right-0.5 top-1/2 -translate-y-1/2 flex items-center gap-0 opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 transition-opacity">
                         <Button asChild variant="ghost" size="icon" className="h-6 w-6 text-muted-foreground hover:text-primary" onClick={(e) => {e.preventDefault(); e.stopPropagation(); openEditTagDialog(tag);}}><span><Edit className="h-3.5 w-3.5" /><span className="sr-only">Edit</span></span></Button>
-                        <AlertDialog
-                            open={selectedTag?.id === tag.id && !isEditTagDialogOpen && !isDeletingTag}
-                            onOpenChange={(isOpen) => {
-                                if (!isOpen) setSelectedTag(null);
-                            }}
-                        >
-                            <AlertDialogTrigger asChild>
-                                <Button asChild variant="ghost" size="icon" className="h-6 w-6 text-muted-foreground hover:text-destructive" onClick={(e) => {e.preventDefault(); e.stopPropagation(); openDeleteTagDialog(tag);}}>
-                                    <span><Trash2 className="h-3.5 w-3.5" /><span className="sr-only">Delete</span></span>
-                                </Button>
-                            </AlertDialogTrigger>
-                           {selectedTag?.id === tag.id && (
-                            <AlertDialogContent>
-                                <AlertDialogHeader><AlertDialogTitle>Are you sure?</AlertDialogTitle><AlertDialogDescription>This will permanently delete the tag "{selectedTag?.name}".</AlertDialogDescription></AlertDialogHeader>
-                                <AlertDialogFooter><AlertDialogCancel onClick={() => setSelectedTag(null)} disabled={isDeletingTag}>Cancel</AlertDialogCancel><AlertDialogAction onClick={handleDeleteTagConfirm} disabled={isDeletingTag} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">{isDeletingTag ? "Deleting..." : "Delete"}</AlertDialogAction></AlertDialogFooter>
-                            </AlertDialogContent>
-                           )}
-                        </AlertDialog>
+                        <Button asChild variant="ghost" size="icon" className="h-6 w-6 text-muted-foreground hover:text-primary" onClick={(e) => {e.preventDefault(); e.stopPropagation(); setTagToReassign({ tag, mode: 'merge' });}}><span><GitMerge className="h-3.5 w-3.5" /><span className="sr-only">Merge</span></span></Button>
+                        <Button asChild variant="ghost" size="icon" className="h-6 w-6 text-muted-foreground hover:text-destructive" onClick={(e) => {e.preventDefault(); e.stopPropagation(); setTagToReassign({ tag, mode: 'delete' });}}><span><Trash2 className="h-3.5 w-3.5" /><span className="sr-only">Delete</span></span></Button>
                       </div>
                     </a>
                   </Link>
@@ -551,6 +546,34 @@ export default function OrganizationPage() {
         </CardContent>
       </Card>
 
+      <CategorizationRulesCard categories={categories} tags={tags} />
+
+      <UnlinkedReferencesCard categories={categories} tags={tags} />
+
+        <ReassignReferencesDialog
+            mode={categoryToReassign?.mode || 'delete'}
+            itemKind="category"
+            itemName={categoryToReassign?.category.name ?? null}
+            targets={flattenCategoryTree(categories)
+              .filter(({ category }) => category.id !== categoryToReassign?.category.id && !isReservedCategoryName(category.name))
+              .map(({ category }) => ({ id: category.id, label: getCategoryPath(category, categories) }))}
+            noTargetLabel="Don't reassign (use Uncategorized)"
+            onOpenChange={(open) => { if (!open) setCategoryToReassign(null); }}
+            loadPreview={previewCategoryReassign}
+            onConfirm={handleCategoryReassignConfirm}
+        />
+
+        <ReassignReferencesDialog
+            mode={tagToReassign?.mode || 'delete'}
+            itemKind="tag"
+            itemName={tagToReassign?.tag.name ?? null}
+            targets={tags.filter(tag => tag.id !== tagToReassign?.tag.id).map(tag => ({ id: tag.id, label: tag.name }))}
+            noTargetLabel="Don't reassign (remove the tag)"
+            onOpenChange={(open) => { if (!open) setTagToReassign(null); }}
+            loadPreview={previewTagReassign}
+            onConfirm={handleTagReassignConfirm}
+        />
+
         <Dialog open={isEditCategoryDialogOpen} onOpenChange={(open) => { setIsEditCategoryDialogOpen(open); if (!open) setSelectedCategory(null); }}>
             <DialogContent>
                 <DialogHeader>
@@ -562,6 +585,7 @@ export default function OrganizationPage() {
                         category={selectedCategory} 
                         onCategoryUpdated={handleUpdateCategory} 
                         isLoading={isLoadingCategories} 
+                        categories={categories}
                     />
                 )}
             </DialogContent>
@@ -10,11 +10,15 @@ import IncomeSourceChart from "@/components/dashboard/income-source-chart";
 import IncomeExpensesChart from "@/components/dashboard/income-expenses-chart";
 import AssetsChart from "@/components/dashboard/assets-chart";
 import { getAccounts, type Account } from "@/services/account-sync";
-import { getTransactions, type Transaction } from "@/services/transactions";
+import { type Transaction } from "@/services/transactions";
+import { getAllTransactions, runTransactionQuery } from "@/services/transaction-query";
 import { getCategories, type Category, getCategoryStyle } from '@/services/categories';
+import { rollUpCategoryAmounts } from '@/lib/category-tree';
 import { getUserPreferences } from '@/lib/preferences';
 import { formatCurrency, convertCurrency, getCurrencySymbol } from '@/lib/currency';
-import { startOfMonth, endOfMonth, isWithinInterval, parseISO, format as formatDateFns, isSameDay } from 'date-fns';
+import { loadHistoricalExchangeRates } from '@/services/exchange-rates';
+import MissingRatesAlert from '@/components/exchange-rates/missing-rates-alert';
+import { startOfMonth, endOfMonth, format as formatDateFns, isSameDay } from 'date-fns';
 import { Skeleton } from '@/components/ui/skeleton';
 import { useToast } from "@/hooks/use-toast";
 import { useDateRange } from '@/contexts/DateRangeContext';
@@ -46,6 +50,7 @@ export default function DashboardPage() {
     try {
       const prefs = await getUserPreferences();
       setPreferredCurrency(prefs.preferredCurrency);
+      await loadHistoricalExchangeRates();
 
       const fetchedAccounts = await getAccounts();
       setAccounts(fetchedAccounts);
@@ -53,14 +58,7 @@ export default function DashboardPage() {
       const fetchedCategories = await getCategories();
       setCategories(fetchedCategories);
 
-      if (fetchedAccounts.length > 0) {
-        const transactionPromises = fetchedAccounts.map(acc => getTransactions(acc.id));
-        const transactionsByAccount = await Promise.all(transactionPromises);
-        const combinedTransactions = transactionsByAccount.flat();
-        setAllTransactions(combinedTransactions);
-      } else {
-        setAllTransactions([]);
-      }
+      setAllTransactions(await getAllTransactions(fetchedAccounts.map(acc => acc.id)));
     } catch (error) {
       console.error("Failed to fetch dashboard data:", error);
       toast({ title: "Error", description: "Failed to load dashboard data.", variant: "destructive" });
@@ -106,138 +104,92 @@ export default function DashboardPage() {
   }, [accounts, preferredCurrency, isLoading]);
 
 
-  const periodTransactions = useMemo(() => {
-    if (isLoading) return [];
-    return allTransactions.filter(tx => {
-      const txDate = parseISO(tx.date.includes('T') ? tx.date : tx.date + 'T00:00:00Z');
-      if (!selectedDateRange.from || !selectedDateRange.to) return true;
-      return isWithinInterval(txDate, { start: selectedDateRange.from, end: selectedDateRange.to });
-    });
-  }, [allTransactions, isLoading, selectedDateRange]);
-
-
-  const monthlyIncome = useMemo(() => {
-    if (isLoading || typeof window === 'undefined') return 0;
-    return periodTransactions.reduce((sum, tx) => {
-      if (tx.amount > 0 && tx.category !== 'Transfer') { 
-        const account = accounts.find(acc => acc.id === tx.accountId);
-        if (account && account.includeInNetWorth !== false) { 
-          return sum + convertCurrency(tx.amount, tx.transactionCurrency, preferredCurrency);
-        }
-      }
-      return sum;
-    }, 0);
-  }, [periodTransactions, accounts, preferredCurrency, isLoading]);
-
-  const monthlyExpenses = useMemo(() => {
-    if (isLoading || typeof window === 'undefined') return 0;
-    return periodTransactions.reduce((sum, tx) => {
-      if (tx.amount < 0 && tx.category !== 'Transfer') { 
-        const account = accounts.find(acc => acc.id === tx.accountId);
-        if (account && account.includeInNetWorth !== false) { 
-          return sum + convertCurrency(Math.abs(tx.amount), tx.transactionCurrency, preferredCurrency);
-        }
-      }
-      return sum;
-    }, 0);
-  }, [periodTransactions, accounts, preferredCurrency, isLoading]);
-
+  // Accounts left out of net worth are left out of the income and spending figures too.
+  const netWorthAccountIds = useMemo(
+    () => accounts.filter(acc => acc.includeInNetWorth !== false).map(acc => acc.id),
+    [accounts]
+  );
 
-  const spendingsBreakdownDataActual = useMemo(() => {
-    if (isLoading || typeof window === 'undefined' || !categories.length || !periodTransactions.length) return [];
-    const expenseCategoryTotals: { [key: string]: number } = {};
-
-    periodTransactions.forEach(tx => {
-      if (tx.amount < 0 && tx.category !== 'Transfer') { 
-        const account = accounts.find(acc => acc.id === tx.accountId);
-        if (account && account.includeInNetWorth !== false) { 
-          const categoryName = tx.category || 'Uncategorized';
-          const convertedAmount = convertCurrency(Math.abs(tx.amount), tx.transactionCurrency, preferredCurrency);
-          expenseCategoryTotals[categoryName] = (expenseCategoryTotals[categoryName] || 0) + convertedAmount;
-        }
-      }
+  const periodQuery = useMemo(() => {
+    if (isLoading || netWorthAccountIds.length === 0) return null;
+    return runTransactionQuery(allTransactions, {
+      filter: { from: selectedDateRange.from, to: selectedDateRange.to, accountIds: netWorthAccountIds },
+      targetCurrency: preferredCurrency,
     });
+  }, [allTransactions, isLoading, selectedDateRange, netWorthAccountIds, preferredCurrency]);
 
-    return Object.entries(expenseCategoryTotals)
-      .map(([name, amount]) => {
-        const { icon: CategoryIcon, color } = getCategoryStyle(name);
-
-        const categoryStyle = getCategoryStyle(name);
-        const bgColor = categoryStyle.color.split(' ').find(cls => cls.startsWith('bg-')) || 'bg-gray-500 dark:bg-gray-700';
+  const lastTwelveMonthsQuery = useMemo(() => {
+    if (isLoading || netWorthAccountIds.length === 0) return null;
+    const today = new Date();
+    return runTransactionQuery(allTransactions, {
+      filter: { from: new Date(today.getFullYear(), today.getMonth() - 11, 1), to: endOfMonth(today), accountIds: netWorthAccountIds },
+      targetCurrency: preferredCurrency,
+      pageSize: 1,
+    });
+  }, [allTransactions, isLoading, netWorthAccountIds, preferredCurrency]);
 
+  // Expenses roll up to top-level categories; each lists its subcategories when expanded
+  const spendingsBreakdownDataActual = useMemo(() => {
+    if (!periodQuery || !categories.length) return [];
+    const expensesByCategory = new Map(
+      periodQuery.aggregates.byCategory.filter(total => total.expense > 0).map(total => [total.category, total.expense])
+    );
+    const capitalize = (name: string) => name.charAt(0).toUpperCase() + name.slice(1);
+    return rollUpCategoryAmounts(expensesByCategory, categories)
+      .slice(0, 3)
+      .map(({ categoryId, name, amount, hasChildren }) => {
+        const category = categories.find(c => c.id === categoryId);
+        const { icon: CategoryIcon, color } = getCategoryStyle(category || name);
+        const bgColor = color.split(' ').find(cls => cls.startsWith('bg-')) || 'bg-gray-500 dark:bg-gray-700';
         return {
-          name: name.charAt(0).toUpperCase() + name.slice(1),
+          name: capitalize(name),
           amount,
           icon: <CategoryIcon />,
           bgColor: bgColor,
+          children: hasChildren && categoryId
+            ? rollUpCategoryAmounts(expensesByCategory, categories, categoryId).map(child => ({
+                name: capitalize(child.name),
+                amount: child.amount,
+                icon: null,
+                bgColor: '',
+              }))
+            : undefined,
         };
-      })
-      .sort((a, b) => b.amount - a.amount)
-      .slice(0, 3);
-  }, [periodTransactions, accounts, categories, preferredCurrency, isLoading]);
+      });
+  }, [periodQuery, categories]);
 
   const incomeSourceDataActual = useMemo(() => {
-    if (isLoading || typeof window === 'undefined' || !periodTransactions.length) return [];
-    const incomeCategoryTotals: { [key: string]: number } = {};
+    if (!periodQuery) return [];
     const chartColors = ["hsl(var(--chart-1))", "hsl(var(--chart-2))", "hsl(var(--chart-3))", "hsl(var(--chart-4))", "hsl(var(--chart-5))"];
-    let colorIndex = 0;
-
-    periodTransactions.forEach(tx => {
-      if (tx.amount > 0 && tx.category !== 'Transfer') { 
-        const account = accounts.find(acc => acc.id === tx.accountId);
-        if (account && account.includeInNetWorth !== false) { 
-          const categoryName = tx.category || 'Uncategorized Income';
-          const convertedAmount = convertCurrency(tx.amount, tx.transactionCurrency, preferredCurrency);
-          incomeCategoryTotals[categoryName] = (incomeCategoryTotals[categoryName] || 0) + convertedAmount;
-        }
-      }
-    });
-
-    return Object.entries(incomeCategoryTotals)
-      .map(([source, amount]) => ({
+    return periodQuery.aggregates.byCategory
+      .filter(total => total.income > 0)
+      .sort((a, b) => b.income - a.income)
+      .map(({ category: source, income: amount }, index) => ({
         source: source.charAt(0).toUpperCase() + source.slice(1),
         amount,
-        fill: chartColors[colorIndex++ % chartColors.length],
-      }))
-      .sort((a, b) => b.amount - a.amount);
-  }, [periodTransactions, accounts, preferredCurrency, isLoading]);
-
+        fill: chartColors[index % chartColors.length],
+      }));
+  }, [periodQuery]);
 
   const monthlyIncomeExpensesDataActual = useMemo(() => {
-    if (isLoading || typeof window === 'undefined' || !allTransactions.length) return [];
-
-    const monthlyData: { [month: string]: { income: number; expenses: number } } = {};
-
+    if (!lastTwelveMonthsQuery || !allTransactions.length) return [];
+    const totalsByMonth = new Map(lastTwelveMonthsQuery.aggregates.byMonth.map(total => [total.month, total]));
     const today = new Date();
-    const last12MonthsKeys: string[] = [];
-    for (let i = 11; i >= 0; i--) {
-        const targetMonthDate = new Date(today.getFullYear(), today.getMonth() - i, 1);
-        const monthKey = formatDateFns(targetMonthDate, 'MMM');
-        monthlyData[monthKey] = { income: 0, expenses: 0 };
-        last12MonthsKeys.push(monthKey);
-    }
-
-
-    allTransactions.forEach(tx => {
-        const txDate = parseISO(tx.date.includes('T') ? tx.date : tx.date + 'T00:00:00Z');
-        const monthKey = formatDateFns(txDate, 'MMM');
-        const account = accounts.find(acc => acc.id === tx.accountId);
-
-        if (account && monthlyData[monthKey] && tx.category !== 'Transfer' && account.includeInNetWorth !== false) { 
-            if (tx.amount > 0) {
-                monthlyData[monthKey].income += convertCurrency(tx.amount, tx.transactionCurrency, preferredCurrency);
-            } else if (tx.amount < 0) {
-                monthlyData[monthKey].expenses += convertCurrency(Math.abs(tx.amount), tx.transactionCurrency, preferredCurrency);
-            }
-        }
+    return Array.from({ length: 12 }, (_, i) => {
+      const monthDate = new Date(today.getFullYear(), today.getMonth() - 11 + i, 1);
+      const totals = totalsByMonth.get(formatDateFns(monthDate, 'yyyy-MM'));
+      return {
+        month: formatDateFns(monthDate, 'MMM'),
+        income: totals?.income ?? 0,
+        expenses: totals?.expense ?? 0,
+      };
     });
+  }, [lastTwelveMonthsQuery, allTransactions]);
 
-    return last12MonthsKeys.map(monthKey => ({
-        month: monthKey,
-        income: monthlyData[monthKey].income,
-        expenses: monthlyData[monthKey].expenses,
-    }));
-  }, [allTransactions, accounts, preferredCurrency, isLoading]);
+  const missingExchangeRates = Array.from(new Map(
+    [...(periodQuery?.aggregates.missingExchangeRates || []), ...(lastTwelveMonthsQuery?.aggregates.missingExchangeRates || [])]
+      .map(rate => [`${rate.sourceCurrency}/${rate.targetCurrency}@${rate.date}`, rate])
+  ).values()).sort((a, b) => a.date.localeCompare(b.date));
 
   const dateRangeLabel = useMemo(() => {
     if (selectedDateRange.from && selectedDateRange.to) {
@@ -272,6 +224,7 @@ export default function DashboardPage() {
 
   return (
     <div className="container mx-auto py-6 px-4 md:px-6 lg:px-8 space-y-6 min-h-screen">
+      <MissingRatesAlert missingRates={missingExchangeRates} />
       <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
         <div className="xl:col-span-2">
           <TotalNetWorthCard accounts={accounts} preferredCurrency={preferredCurrency} />
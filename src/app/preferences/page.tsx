@@ -12,6 +12,7 @@ import { supportedCurrencies, getCurrencySymbol } from '@/lib/currency';
 import { useToast } from "@/hooks/use-toast";
 import { Skeleton } from '@/components/ui/skeleton';
 import { useAuthContext } from '@/contexts/AuthContext';
+import ExchangeRatesManager from '@/components/exchange-rates/exchange-rates-manager';
 
 export default function PreferencesPage() {
   const { user, isLoadingAuth, userPreferences, refreshUserPreferences } = useAuthContext(); // Removed setAppTheme as we'll save directly
@@ -163,6 +164,12 @@ export default function PreferencesPage() {
           )}
         </CardContent>
       </Card>
+
+      {user && (
+        <div className="mt-6">
+          <ExchangeRatesManager preferredCurrency={userPreferences?.preferredCurrency || preferredCurrency} />
+        </div>
+      )}
     </div>
   );
 }
@@ -5,23 +5,27 @@ import { useParams, useRouter } from 'next/navigation';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { getAccounts, type Account } from "@/services/account-sync";
-import { getTransactions, updateTransaction, deleteTransaction, type Transaction, addTransaction } from "@/services/transactions";
+import { updateTransaction, deleteTransaction, type Transaction, addTransaction } from "@/services/transactions";
+import { addTransfer } from '@/services/transfers';
+import { getAllTransactions, runTransactionQuery } from '@/services/transaction-query';
 import { getCategories, getCategoryStyle, Category as CategoryType } from '@/services/categories';
 import { getTags, type Tag as TagType, getTagStyle } from '@/services/tags';
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { formatCurrency, convertCurrency } from '@/lib/currency';
 import { getUserPreferences } from '@/lib/preferences';
-import { format as formatDateFns, parseISO, isWithinInterval, isSameDay } from 'date-fns';
+import { format as formatDateFns, parseISO, isSameDay } from 'date-fns';
 import { Button } from '@/components/ui/button';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
-import { Edit, Trash2, MoreHorizontal, PlusCircle, ArrowDownCircle, ArrowUpCircle, ArrowLeftRight as TransferIcon, ChevronDown, ArrowLeft, CopyPlus, Tag as TagIconLucide } from 'lucide-react';
+import { Edit, Trash2, MoreHorizontal, PlusCircle, ArrowDownCircle, ArrowUpCircle, ArrowLeftRight as TransferIcon, ChevronDown, ArrowLeft, CopyPlus, Tag as TagIconLucide, Download } from 'lucide-react';
 import AddTransactionForm from '@/components/transactions/add-transaction-form';
 import { useToast } from '@/hooks/use-toast';
-import type { AddTransactionFormData } from '@/components/transactions/add-transaction-form';
+import type { AddTransactionFormData, TransferFormSubmission } from '@/components/transactions/add-transaction-form';
 import MonthlySummarySidebar from '@/components/transactions/monthly-summary-sidebar';
+import ExportTransactionsDialog from '@/components/transactions/export-transactions-dialog';
+import OriginalAmountNote from '@/components/transactions/original-amount-note';
 import { useDateRange } from '@/contexts/DateRangeContext';
 import Link from 'next/link';
 
@@ -42,7 +46,7 @@ export default function TagDetailPage() {
   const tagId = typeof params.tagId === 'string' ? params.tagId : undefined;
 
   const [tag, setTag] = useState<TagType | null>(null);
-  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [allTransactions, setAllTransactions] = useState<Transaction[]>([]);
   const [allCategories, setAllCategories] = useState<CategoryType[]>([]);
   const [allTags, setAllTags] = useState<TagType[]>([]);
   const [allAccounts, setAllAccounts] = useState<Account[]>([]);
@@ -57,6 +61,7 @@ export default function TagDetailPage() {
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [selectedTransaction, setSelectedTransaction] = useState<Transaction | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [isExportDialogOpen, setIsExportDialogOpen] = useState(false);
   const [clonedTransactionData, setClonedTransactionData] = useState<Partial<AddTransactionFormData> | undefined>(undefined);
 
   const fetchData = useCallback(async () => {
@@ -88,16 +93,7 @@ export default function TagDetailPage() {
         }
         setTag(targetTag);
 
-        if (fetchedAppAccounts.length > 0) {
-            const transactionPromises = fetchedAppAccounts.map(acc => getTransactions(acc.id));
-            const transactionsByAccount = await Promise.all(transactionPromises);
-            const combinedTransactions = transactionsByAccount.flat();
-            const tagTransactions = combinedTransactions.filter(tx => tx.tags?.includes(targetTag.name));
-            tagTransactions.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-            setTransactions(tagTransactions);
-        } else {
-            setTransactions([]);
-        }
+        setAllTransactions(await getAllTransactions(fetchedAppAccounts.map(acc => acc.id)));
 
     } catch (err: any) {
         console.error(`Failed to fetch data for tag ${tagId}:`, err);
@@ -133,31 +129,33 @@ export default function TagDetailPage() {
   }, [tagId, fetchData]);
 
 
+  // Split transactions appear once per matching split line, with that line's amount.
   const filteredTransactions = useMemo(() => {
-    if (isLoading) return [];
-    return transactions.filter(tx => {
-      const txDate = parseISO(tx.date.includes('T') ? tx.date : tx.date + 'T00:00:00Z');
-      if (!selectedDateRange.from || !selectedDateRange.to) return true;
-      return isWithinInterval(txDate, { start: selectedDateRange.from, end: selectedDateRange.to });
-    });
-  }, [transactions, isLoading, selectedDateRange]);
+    if (isLoading || !tag) return [];
+    return runTransactionQuery(allTransactions, {
+      filter: { from: selectedDateRange.from, to: selectedDateRange.to, tags: [tag.name] },
+      expandSplits: true,
+      targetCurrency: preferredCurrency,
+    }).transactions;
+  }, [allTransactions, isLoading, selectedDateRange, tag, preferredCurrency]);
 
   const openEditDialog = (transaction: Transaction) => {
     setSelectedTransaction(transaction);
     setIsEditDialogOpen(true);
   };
 
-  const handleUpdateTransaction = async (formData: AddTransactionFormData) => {
+  const handleUpdateTransaction = async (formData: Omit<Transaction, 'id'> | Transaction) => {
     if (!selectedTransaction) return;
-    const transactionAmount = formData.type === 'expense' ? -Math.abs(formData.amount) : Math.abs(formData.amount);
+    // The form emits the edited transaction with signed amounts and its split lines, if any.
     const transactionToUpdate: Transaction = {
       ...selectedTransaction,
-      amount: transactionAmount,
+      amount: formData.amount,
       transactionCurrency: formData.transactionCurrency,
-      date: formatDateFns(formData.date, 'yyyy-MM-dd'),
+      date: formData.date,
       description: formData.description || selectedTransaction.description,
       category: formData.category || selectedTransaction.category,
       tags: formData.tags || [],
+      splits: formData.splits ?? null,
     };
     setIsLoading(true);
     try {
@@ -213,36 +211,22 @@ export default function TagDetailPage() {
     }
   };
 
-   const handleTransferAdded = async (data: { fromAccountId: string; toAccountId: string; amount: number; date: Date; description?: string; tags?: string[]; transactionCurrency: string; }) => {
+   const handleTransferAdded = async (data: TransferFormSubmission) => {
     try {
-      const transferAmount = Math.abs(data.amount);
-      const formattedDate = formatDateFns(data.date, 'yyyy-MM-dd');
-      const currentAccounts = await getAccounts();
-      const fromAccountName = currentAccounts.find(a=>a.id === data.fromAccountId)?.name || 'Unknown';
-      const toAccountName = currentAccounts.find(a=>a.id === data.toAccountId)?.name || 'Unknown';
-      const desc = data.description || `Transfer from ${fromAccountName} to ${toAccountName}`;
       const tagsWithCurrent = (tag && !data.tags?.includes(tag.name))
         ? [...(data.tags || []), tag.name]
         : (data.tags || []);
 
-
-      await addTransaction({
-        accountId: data.fromAccountId,
-        amount: -transferAmount,
-        transactionCurrency: data.transactionCurrency,
-        date: formattedDate,
-        description: desc,
-        category: 'Transfer',
-        tags: tagsWithCurrent,
-      });
-
-      await addTransaction({
-        accountId: data.toAccountId,
-        amount: transferAmount,
-        transactionCurrency: data.transactionCurrency,
-        date: formattedDate,
-        description: desc,
-        category: 'Transfer',
+      await addTransfer({
+        fromAccountId: data.fromAccountId,
+        toAccountId: data.toAccountId,
+        fromAmount: Math.abs(data.amount),
+        fromCurrency: data.transactionCurrency,
+        toAmount: Math.abs(data.toAccountAmount ?? data.amount),
+        toCurrency: data.toAccountCurrency || data.transactionCurrency,
+        fee: data.fee ?? null,
+        date: formatDateFns(data.date, 'yyyy-MM-dd'),
+        description: data.description || '',
         tags: tagsWithCurrent,
       });
 
@@ -282,6 +266,7 @@ export default function TagDetailPage() {
         description: `Clone of: ${transaction.description}`,
         category: transaction.category === 'Transfer' ? undefined : transaction.category,
         tags: transaction.tags || [],
+        splits: transaction.splits,
     };
 
     if (transaction.category === 'Transfer') {
@@ -357,6 +342,10 @@ export default function TagDetailPage() {
                 <TagIconLucide className="mr-2 h-6 w-6" /> <span className="ml-2">{tag.name} - Transactions</span>
             </h1>
         </div>
+        <div className="flex items-center gap-2">
+        <Button variant="outline" size="sm" onClick={() => setIsExportDialogOpen(true)} disabled={isLoading}>
+          <Download className="mr-2 h-4 w-4" /> Export
+        </Button>
         <DropdownMenu>
           <DropdownMenuTrigger asChild>
             <Button variant="default" size="sm">
@@ -370,6 +359,7 @@ export default function TagDetailPage() {
             <DropdownMenuItem onClick={() => openAddTransactionDialog('transfer')}><TransferIcon className="mr-2 h-4 w-4" /> Add Transfer</DropdownMenuItem>
           </DropdownMenuContent>
         </DropdownMenu>
+        </div>
       </div>
 
       <div className="flex flex-col md:flex-row gap-8">
@@ -398,10 +388,18 @@ export default function TagDetailPage() {
                       const categoryDetails = allCategories.find(c => c.name === transaction.category);
                       const { icon: CategoryIcon, color: categoryBadgeColor } = getCategoryStyle(categoryDetails);
                       return (
-                        <TableRow key={transaction.id} className="hover:bg-muted/50">
-                          <TableCell className="font-medium">{transaction.description}</TableCell>
+                        <TableRow key={`${transaction.id}-${transaction.splitIndex ?? 'all'}`} className="hover:bg-muted/50">
+                          <TableCell className="font-medium">
+                            {transaction.description}
+                            {transaction.splitIndex !== null && (
+                              <span className="block text-xs font-normal text-muted-foreground">
+                                Split line{transaction.memo ? `: ${transaction.memo}` : ''} (of {formatCurrency(transaction.parent.amount, transaction.transactionCurrency, transaction.transactionCurrency, false)})
+                              </span>
+                            )}
+                          </TableCell>
                           <TableCell className={`text-right font-medium ${transaction.amount >= 0 ? 'text-green-500 dark:text-green-400' : 'text-red-500 dark:text-red-400'}`}>
                             <div>{formatCurrency(transaction.amount, transaction.transactionCurrency, transaction.transactionCurrency, false)}</div>
+                            <OriginalAmountNote transaction={transaction} />
                             {transaction.transactionCurrency.toUpperCase() !== preferredCurrency.toUpperCase() && (
                               <div className="text-xs text-muted-foreground">
                                 (≈ {formatCurrency(transaction.amount, transaction.transactionCurrency, preferredCurrency, true)})
@@ -431,11 +429,11 @@ export default function TagDetailPage() {
                                 <Button variant="ghost" size="sm" className="h-8 w-8 p-0"><span className="sr-only">Open menu</span><MoreHorizontal className="h-4 w-4" /></Button>
                               </DropdownMenuTrigger>
                               <DropdownMenuContent align="end">
-                                <DropdownMenuItem onClick={() => openEditDialog(transaction)}><Edit className="mr-2 h-4 w-4" /> Edit</DropdownMenuItem>
-                                <DropdownMenuItem onClick={() => openCloneAndEditDialog(transaction)}><CopyPlus className="mr-2 h-4 w-4" /> Clone & Edit</DropdownMenuItem>
+                                <DropdownMenuItem onClick={() => openEditDialog(transaction.parent)}><Edit className="mr-2 h-4 w-4" /> Edit</DropdownMenuItem>
+                                <DropdownMenuItem onClick={() => openCloneAndEditDialog(transaction.parent)}><CopyPlus className="mr-2 h-4 w-4" /> Clone & Edit</DropdownMenuItem>
                                 <AlertDialog>
                                   <AlertDialogTrigger asChild>
-                                    <div className="relative flex cursor-default select-none items-center gap-2 rounded-sm px-2 py-1.5 text-sm outline-none transition-colors focus:bg-destructive/10 focus:text-destructive text-destructive data-[disabled]:pointer-events-none data-[disabled]:opacity-50" onClick={() => openDeleteDialog(transaction)}>
+                                    <div className="relative flex cursor-default select-none items-center gap-2 rounded-sm px-2 py-1.5 text-sm outline-none transition-colors focus:bg-destructive/10 focus:text-destructive text-destructive data-[disabled]:pointer-events-none data-[disabled]:opacity-50" onClick={() => openDeleteDialog(transaction.parent)}>
                                       <Trash2 className="mr-2 h-4 w-4" /> Delete
                                     </div>
                                   </AlertDialogTrigger>
@@ -505,6 +503,13 @@ export default function TagDetailPage() {
           )}
         </DialogContent>
       </Dialog>
+
+      <ExportTransactionsDialog
+        transactions={filteredTransactions}
+        fileNamePrefix={tag.name}
+        open={isExportDialogOpen}
+        onOpenChange={setIsExportDialogOpen}
+      />
     </div>
   );
 }
@@ -1,13 +1,16 @@
 
 'use client';
 
-import { useState, useEffect, useMemo, useCallback } from 'react';
+import { useState, useEffect, useMemo, useCallback, Suspense } from 'react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { getAccounts, type Account } from "@/services/account-sync";
-import { getTransactions, updateTransaction, deleteTransaction, type Transaction, addTransaction } from "@/services/transactions";
+import { getTransactions, updateTransaction, deleteTransaction, type Transaction, addTransaction, expandSplitTransactions } from "@/services/transactions";
+import { addTransfer } from '@/services/transfers';
 import { getCategories, getCategoryStyle, Category } from '@/services/categories';
 import { getTags, type Tag, getTagStyle } from '@/services/tags';
+import { getGroups, type Group } from '@/services/groups';
+import { getTransactionViews, addTransactionView, updateTransactionView, deleteTransactionView, type TransactionView } from '@/services/transaction-views';
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { formatCurrency, convertCurrency } from '@/lib/currency';
@@ -16,15 +19,30 @@ import SpendingChart from '@/components/dashboard/spending-chart';
 import { format as formatDateFns, parseISO, isWithinInterval, isSameDay } from 'date-fns';
 import { Button } from '@/components/ui/button';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
-import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
-import { Edit, Trash2, MoreHorizontal, PlusCircle, ArrowDownCircle, ArrowUpCircle, ArrowLeftRight as TransferIcon, ChevronDown, CopyPlus } from 'lucide-react';
+import { Edit, Trash2, MoreHorizontal, PlusCircle, ArrowDownCircle, ArrowUpCircle, ArrowLeftRight as TransferIcon, ChevronDown, CopyPlus, CopyCheck, Download, Filter, Bookmark, Link2, X } from 'lucide-react';
 import AddTransactionForm from '@/components/transactions/add-transaction-form';
 import { useToast } from '@/hooks/use-toast';
-import type { AddTransactionFormData } from '@/components/transactions/add-transaction-form';
+import type { AddTransactionFormData, TransferFormSubmission } from '@/components/transactions/add-transaction-form';
 import MonthlySummarySidebar from '@/components/transactions/monthly-summary-sidebar';
+import DuplicateTransactionsReview from '@/components/transactions/duplicate-transactions-review';
+import ExportTransactionsDialog from '@/components/transactions/export-transactions-dialog';
+import OriginalAmountNote from '@/components/transactions/original-amount-note';
+import BulkTransactionActions from '@/components/transactions/bulk-transaction-actions';
+import { Checkbox } from '@/components/ui/checkbox';
+import { useTransactionSelection } from '@/hooks/use-transaction-selection';
+import TransactionFilterDialog from '@/components/transactions/transaction-filter-dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import { useDateRange } from '@/contexts/DateRangeContext';
+import {
+    EMPTY_TRANSACTION_FILTER, compileTransactionFilter, countActiveFilterConditions, decodeTransactionFilter,
+    encodeTransactionFilter, areTransactionFiltersEqual, describeFilterCondition, isFilterConditionActive,
+    type TransactionFilter,
+} from '@/lib/transaction-filters';
 import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
 
 
 const formatDate = (dateString: string): string => {
@@ -39,10 +57,12 @@ const formatDate = (dateString: string): string => {
 };
 
 
-export default function TransactionsOverviewPage() {
+function TransactionsOverviewContent() {
   const [accounts, setAccounts] = useState<Account[]>([]);
   const [allCategories, setAllCategories] = useState<Category[]>([]);
   const [allTags, setAllTags] = useState<Tag[]>([]);
+  const [allGroups, setAllGroups] = useState<Group[]>([]);
+  const [savedViews, setSavedViews] = useState<TransactionView[]>([]);
   const [allTransactionsUnfiltered, setAllTransactionsUnfiltered] = useState<Transaction[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -57,6 +77,15 @@ export default function TransactionsOverviewPage() {
   const [selectedTransaction, setSelectedTransaction] = useState<Transaction | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
   const [clonedTransactionData, setClonedTransactionData] = useState<Partial<AddTransactionFormData> | undefined>(undefined);
+  const [isDuplicateReviewOpen, setIsDuplicateReviewOpen] = useState(false);
+  const [deletingDuplicateId, setDeletingDuplicateId] = useState<string | null>(null);
+  const [isExportDialogOpen, setIsExportDialogOpen] = useState(false);
+  const [isFilterDialogOpen, setIsFilterDialogOpen] = useState(false);
+  const [isSaveViewDialogOpen, setIsSaveViewDialogOpen] = useState(false);
+  const [viewName, setViewName] = useState('');
+  const [isSavingView, setIsSavingView] = useState(false);
+  const router = useRouter();
+  const searchParams = useSearchParams();
 
 
   const fetchData = useCallback(async () => {
@@ -72,15 +101,19 @@ export default function TransactionsOverviewPage() {
         const prefs = await getUserPreferences();
         setPreferredCurrency(prefs.preferredCurrency);
 
-        const [fetchedAccounts, fetchedCategories, fetchedTags] = await Promise.all([
+        const [fetchedAccounts, fetchedCategories, fetchedTags, fetchedGroups, fetchedViews] = await Promise.all([
             getAccounts(),
             getCategories(),
-            getTags()
+            getTags(),
+            getGroups(),
+            getTransactionViews(),
         ]);
 
         setAccounts(fetchedAccounts);
         setAllCategories(fetchedCategories);
         setAllTags(fetchedTags);
+        setAllGroups(fetchedGroups);
+        setSavedViews(fetchedViews);
 
         if (fetchedAccounts.length > 0) {
             const transactionPromises = fetchedAccounts.map(acc => getTransactions(acc.id));
@@ -132,14 +165,96 @@ export default function TransactionsOverviewPage() {
     };
   }, [fetchData]);
 
+  // A `filter` parameter wins over the saved view in `view`, so an edited view can be shared before it is saved
+  const activeView = useMemo(() => savedViews.find(view => view.id === searchParams.get('view')) || null, [savedViews, searchParams]);
+  const urlFilter = useMemo(() => decodeTransactionFilter(searchParams.get('filter')), [searchParams]);
+  const activeFilter: TransactionFilter = urlFilter ?? activeView?.filter ?? EMPTY_TRANSACTION_FILTER;
+  const activeFilterCount = countActiveFilterConditions(activeFilter);
+  const isViewModified = !!activeView && !!urlFilter && !areTransactionFiltersEqual(urlFilter, activeView.filter);
+
   const allTransactions = useMemo(() => {
     if (isLoading) return [];
+    const matchesFilter = compileTransactionFilter(activeFilter, { categories: allCategories, tags: allTags, groups: allGroups });
     return allTransactionsUnfiltered.filter(tx => {
+      if (!matchesFilter(tx)) return false;
       const txDate = parseISO(tx.date.includes('T') ? tx.date : tx.date + 'T00:00:00Z');
       if (!selectedDateRange.from || !selectedDateRange.to) return true;
       return isWithinInterval(txDate, { start: selectedDateRange.from, end: selectedDateRange.to });
     });
-  }, [allTransactionsUnfiltered, isLoading, selectedDateRange]);
+  }, [allTransactionsUnfiltered, isLoading, selectedDateRange, activeFilter, allCategories, allTags, allGroups]);
+
+  const selection = useTransactionSelection(allTransactions);
+
+  const transactionCurrencies = useMemo(
+    () => Array.from(new Set(allTransactionsUnfiltered.map(tx => (tx.transactionCurrency || '').toUpperCase()).filter(Boolean))).sort(),
+    [allTransactionsUnfiltered]
+  );
+
+  const clearFilter = () => router.replace('/transactions', { scroll: false });
+
+  const activeFilterLabels = useMemo(
+    () => activeFilter.groups.flatMap(group => group.conditions.filter(isFilterConditionActive))
+        .map(condition => describeFilterCondition(condition, { accounts, categories: allCategories, tags: allTags, groups: allGroups })),
+    [activeFilter, accounts, allCategories, allTags, allGroups]
+  );
+
+  const applyFilter = (filter: TransactionFilter) => {
+    if (countActiveFilterConditions(filter) === 0) {
+      clearFilter();
+      return;
+    }
+    const params = new URLSearchParams();
+    if (activeView) params.set('view', activeView.id);
+    if (!activeView || !areTransactionFiltersEqual(filter, activeView.filter)) params.set('filter', encodeTransactionFilter(filter));
+    router.replace(`/transactions?${params.toString()}`, { scroll: false });
+  };
+
+  const handleCopyFilterLink = async () => {
+    const url = `${window.location.origin}/transactions?filter=${encodeTransactionFilter(activeFilter)}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({ title: "Link Copied", description: "Anyone with access to your data can open this filter from the link." });
+    } catch (err: any) {
+      console.error("Failed to copy filter link:", err);
+      toast({ title: "Error", description: "Could not copy the link.", variant: "destructive" });
+    }
+  };
+
+  const openSaveViewDialog = () => {
+    setViewName(activeView?.name || '');
+    setIsSaveViewDialogOpen(true);
+  };
+
+  const handleSaveView = async (asNew: boolean) => {
+    setIsSavingView(true);
+    try {
+      const savedView = !asNew && activeView
+        ? await updateTransactionView({ ...activeView, name: viewName, filter: activeFilter })
+        : await addTransactionView(viewName, activeFilter);
+      toast({ title: "View Saved", description: `"${savedView.name}" appears under Transactions in the sidebar.` });
+      setIsSaveViewDialogOpen(false);
+      router.replace(`/transactions?view=${savedView.id}`, { scroll: false });
+      window.dispatchEvent(new Event('storage'));
+    } catch (err: any) {
+      console.error("Failed to save view:", err);
+      toast({ title: "Error", description: err.message || "Could not save the view.", variant: "destructive" });
+    } finally {
+      setIsSavingView(false);
+    }
+  };
+
+  const handleDeleteView = async () => {
+    if (!activeView) return;
+    try {
+      await deleteTransactionView(activeView.id);
+      toast({ title: "View Deleted", description: `"${activeView.name}" removed.` });
+      router.replace('/transactions', { scroll: false });
+      window.dispatchEvent(new Event('storage'));
+    } catch (err: any) {
+      console.error("Failed to delete view:", err);
+      toast({ title: "Error", description: err.message || "Could not delete the view.", variant: "destructive" });
+    }
+  };
 
 
   const spendingData = useMemo(() => {
@@ -147,7 +262,7 @@ export default function TransactionsOverviewPage() {
 
       const categoryTotals: { [key: string]: number } = {};
 
-      allTransactions.forEach(tx => {
+      expandSplitTransactions(allTransactions).forEach(tx => {
           if (tx.amount < 0 && tx.category !== 'Transfer') {
               const account = accounts.find(acc => acc.id === tx.accountId);
               if (account) {
@@ -174,20 +289,20 @@ export default function TransactionsOverviewPage() {
         setIsEditDialogOpen(true);
     };
 
-    const handleUpdateTransaction = async (formData: AddTransactionFormData) => {
+    const handleUpdateTransaction = async (formData: Omit<Transaction, 'id'> | Transaction) => {
         if (!selectedTransaction) return;
         console.log("Form data received for update:", formData);
 
-        const transactionAmount = formData.type === 'expense' ? -Math.abs(formData.amount) : Math.abs(formData.amount);
-
+        // The form emits the edited transaction with signed amounts and its split lines, if any.
         const transactionToUpdate: Transaction = {
             ...selectedTransaction,
-            amount: transactionAmount,
+            amount: formData.amount,
             transactionCurrency: formData.transactionCurrency,
-            date: formatDateFns(formData.date, 'yyyy-MM-dd'),
+            date: formData.date,
             description: formData.description || selectedTransaction.description,
             category: formData.category || selectedTransaction.category,
             tags: formData.tags || [],
+            splits: formData.splits ?? null,
         };
 
         setIsLoading(true);
@@ -242,6 +357,20 @@ export default function TransactionsOverviewPage() {
        }
    };
 
+    const handleDeleteDuplicate = async (transaction: Transaction) => {
+        setDeletingDuplicateId(transaction.id);
+        try {
+            await deleteTransaction(transaction.id, transaction.accountId);
+            toast({ title: "Duplicate Removed", description: `Transaction "${transaction.description}" on ${formatDate(transaction.date)} removed.` });
+            window.dispatchEvent(new Event('storage'));
+        } catch (err: any) {
+            console.error("Failed to delete duplicate transaction:", err);
+            toast({ title: "Error Deleting Transaction", description: err.message || "Could not delete the transaction.", variant: "destructive" });
+        } finally {
+            setDeletingDuplicateId(null);
+        }
+    };
+
   const handleTransactionAdded = async (data: Omit<Transaction, 'id'>) => {
     try {
       await addTransaction(data);
@@ -256,31 +385,18 @@ export default function TransactionsOverviewPage() {
     }
   };
 
-  const handleTransferAdded = async (data: { fromAccountId: string; toAccountId: string; amount: number; date: Date; description?: string; tags?: string[]; transactionCurrency: string; }) => {
+  const handleTransferAdded = async (data: TransferFormSubmission) => {
     try {
-      const transferAmount = Math.abs(data.amount);
-      const formattedDate = formatDateFns(data.date, 'yyyy-MM-dd');
-      const fromAccountName = accounts.find(a=>a.id === data.fromAccountId)?.name || 'Unknown Account';
-      const toAccountName = accounts.find(a=>a.id === data.toAccountId)?.name || 'Unknown Account';
-      const desc = data.description || `Transfer from ${fromAccountName} to ${toAccountName}`;
-
-      await addTransaction({
-        accountId: data.fromAccountId,
-        amount: -transferAmount,
-        transactionCurrency: data.transactionCurrency,
-        date: formattedDate,
-        description: desc,
-        category: 'Transfer',
-        tags: data.tags || [],
-      });
-
-      await addTransaction({
-        accountId: data.toAccountId,
-        amount: transferAmount,
-        transactionCurrency: data.transactionCurrency,
-        date: formattedDate,
-        description: desc,
-        category: 'Transfer',
+      await addTransfer({
+        fromAccountId: data.fromAccountId,
+        toAccountId: data.toAccountId,
+        fromAmount: Math.abs(data.amount),
+        fromCurrency: data.transactionCurrency,
+        toAmount: Math.abs(data.toAccountAmount ?? data.amount),
+        toCurrency: data.toAccountCurrency || data.transactionCurrency,
+        fee: data.fee ?? null,
+        date: formatDateFns(data.date, 'yyyy-MM-dd'),
+        description: data.description || '',
         tags: data.tags || [],
       });
 
@@ -328,6 +444,7 @@ export default function TransactionsOverviewPage() {
         description: `Clone of: ${transaction.description}`,
         category: transaction.category === 'Transfer' ? undefined : transaction.category,
         tags: transaction.tags || [],
+        splits: transaction.splits,
     };
 
     if (transaction.category === 'Transfer') {
@@ -369,6 +486,15 @@ export default function TransactionsOverviewPage() {
     <div className="container mx-auto py-8 px-4 md:px-6 lg:px-8">
         <div className="flex justify-between items-center mb-6">
             <h1 className="text-3xl font-bold">Transactions Overview</h1>
+            <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => setIsExportDialogOpen(true)} disabled={isLoading}>
+                <Download className="mr-2 h-4 w-4" />
+                Export
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setIsDuplicateReviewOpen(true)} disabled={isLoading}>
+                <CopyCheck className="mr-2 h-4 w-4" />
+                Find Duplicates
+            </Button>
             <DropdownMenu>
             <DropdownMenuTrigger asChild>
                 <Button variant="default" size="sm">
@@ -392,6 +518,7 @@ export default function TransactionsOverviewPage() {
                 </DropdownMenuItem>
             </DropdownMenuContent>
             </DropdownMenu>
+            </div>
         </div>
 
        {error && (
@@ -414,7 +541,7 @@ export default function TransactionsOverviewPage() {
                         {isLoading ? (
                             <Skeleton className="h-full w-full" />
                         ) : spendingData.length > 0 ? (
-                        <SpendingChart data={spendingData} currency={preferredCurrency} />
+                        <SpendingChart data={spendingData} currency={preferredCurrency} categories={allCategories} />
                         ) : (
                             <div className="flex h-full items-center justify-center text-muted-foreground">
                                 No spending data available to display chart for {dateRangeLabel}.
@@ -427,17 +554,78 @@ export default function TransactionsOverviewPage() {
                     <CardHeader>
                         <div className="flex justify-between items-center">
                              <div>
-                                <CardTitle>Recent Transactions</CardTitle>
+                                <CardTitle>{activeView ? activeView.name : 'Recent Transactions'}{isViewModified && <span className="ml-2 text-sm font-normal text-muted-foreground">(modified)</span>}</CardTitle>
                                 <CardDescription>
-                                        All recent transactions for {dateRangeLabel}.
+                                        {activeFilterCount > 0 ? `Transactions matching the filter for ${dateRangeLabel}.` : `All recent transactions for ${dateRangeLabel}.`}
                                 </CardDescription>
                             </div>
                             <Button variant="default" size="sm" onClick={() => openAddTransactionDialog('expense')}>
                                 <PlusCircle className="mr-2 h-4 w-4" /> Create new transaction
                             </Button>
                         </div>
+                        <div className="flex flex-wrap items-center gap-2 pt-2">
+                            <Button variant="outline" size="sm" onClick={() => setIsFilterDialogOpen(true)} disabled={isLoading}>
+                                <Filter className="mr-2 h-4 w-4" />
+                                Filters{activeFilterCount > 0 ? ` (${activeFilterCount})` : ''}
+                            </Button>
+                            {activeFilterCount > 0 && (
+                                <>
+                                    <Button variant="outline" size="sm" onClick={openSaveViewDialog}>
+                                        <Bookmark className="mr-2 h-4 w-4" /> {activeView ? 'Save View' : 'Save as View'}
+                                    </Button>
+                                    <Button variant="ghost" size="sm" onClick={handleCopyFilterLink}>
+                                        <Link2 className="mr-2 h-4 w-4" /> Copy Link
+                                    </Button>
+                                </>
+                            )}
+                            {activeView && (
+                                <AlertDialog>
+                                    <AlertDialogTrigger asChild>
+                                        <Button variant="ghost" size="sm" className="text-destructive hover:text-destructive">
+                                            <Trash2 className="mr-2 h-4 w-4" /> Delete View
+                                        </Button>
+                                    </AlertDialogTrigger>
+                                    <AlertDialogContent>
+                                        <AlertDialogHeader>
+                                            <AlertDialogTitle>Delete view "{activeView.name}"?</AlertDialogTitle>
+                                            <AlertDialogDescription>The saved filter is removed from the sidebar. Transactions are not affected.</AlertDialogDescription>
+                                        </AlertDialogHeader>
+                                        <AlertDialogFooter>
+                                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                            <AlertDialogAction onClick={handleDeleteView} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">Delete</AlertDialogAction>
+                                        </AlertDialogFooter>
+                                    </AlertDialogContent>
+                                </AlertDialog>
+                            )}
+                            {(activeFilterCount > 0 || activeView) && (
+                                <Button variant="ghost" size="sm" onClick={clearFilter}>
+                                    <X className="mr-2 h-4 w-4" /> Clear
+                                </Button>
+                            )}
+                        </div>
+                        {activeFilterLabels.length > 0 && (
+                            <div className="flex flex-wrap items-center gap-1 pt-1">
+                                {activeFilter.groups.length > 1 && (
+                                    <span className="text-xs text-muted-foreground mr-1">Matching {activeFilter.operator === 'and' ? 'all' : 'any'} of {activeFilter.groups.length} groups:</span>
+                                )}
+                                {activeFilterLabels.map((label, index) => (
+                                    <Badge key={index} variant="secondary" className="text-xs font-normal">{label}</Badge>
+                                ))}
+                            </div>
+                        )}
                     </CardHeader>
                     <CardContent>
+                    {selection.selectedTransactions.length > 0 && (
+                        <div className="mb-4">
+                            <BulkTransactionActions
+                                selectedTransactions={selection.selectedTransactions}
+                                accounts={accounts}
+                                categories={allCategories}
+                                tags={allTags}
+                                onClearSelection={selection.clear}
+                            />
+                        </div>
+                    )}
                     {isLoading && allTransactions.length === 0 ? (
                         <div className="space-y-2">
                         {[...Array(10)].map((_, i) => (
@@ -448,6 +636,13 @@ export default function TransactionsOverviewPage() {
                         <Table>
                         <TableHeader>
                             <TableRow>
+                            <TableHead className="w-10">
+                                <Checkbox
+                                    checked={selection.isAllSelected ? true : selection.isPartiallySelected ? 'indeterminate' : false}
+                                    onCheckedChange={selection.toggleAll}
+                                    aria-label="Select all transactions"
+                                />
+                            </TableHead>
                             <TableHead>Description</TableHead>
                             <TableHead className="text-right">Amount</TableHead>
                             <TableHead>Date</TableHead>
@@ -464,10 +659,18 @@ export default function TransactionsOverviewPage() {
                                 const categoryDetails = allCategories.find(c => c.name === transaction.category);
                                 const { icon: CategoryIcon, color } = getCategoryStyle(categoryDetails);
                                 return (
-                                    <TableRow key={transaction.id} className="hover:bg-muted/50">
+                                    <TableRow key={transaction.id} className="hover:bg-muted/50" data-state={selection.isSelected(transaction.id) ? 'selected' : undefined}>
+                                        <TableCell>
+                                            <Checkbox
+                                                checked={selection.isSelected(transaction.id)}
+                                                onCheckedChange={() => selection.toggle(transaction.id)}
+                                                aria-label={`Select "${transaction.description}"`}
+                                            />
+                                        </TableCell>
                                         <TableCell className="font-medium">{transaction.description}</TableCell>
                                         <TableCell className={`text-right font-medium ${transaction.amount >= 0 ? 'text-green-500 dark:text-green-400' : 'text-red-500 dark:text-red-400'}`}>
                                             <div>{formatCurrency(transaction.amount, transaction.transactionCurrency, transaction.transactionCurrency, false)}</div>
+                                            <OriginalAmountNote transaction={transaction} />
                                             {transaction.transactionCurrency.toUpperCase() !== preferredCurrency.toUpperCase() && (
                                             <div className="text-xs text-muted-foreground">
                                                 (≈ {formatCurrency(transaction.amount, transaction.transactionCurrency, preferredCurrency, true)})
@@ -557,7 +760,7 @@ export default function TransactionsOverviewPage() {
                     ) : (
                         <div className="text-center py-10">
                         <p className="text-muted-foreground">
-                            No transactions found for {dateRangeLabel}.
+                            {activeFilterCount > 0 ? `No transactions match the filter for ${dateRangeLabel}.` : `No transactions found for ${dateRangeLabel}.`}
                         </p>
                         </div>
                     )}
@@ -649,7 +852,75 @@ export default function TransactionsOverviewPage() {
             )}
         </DialogContent>
       </Dialog>
+
+        <Dialog open={isDuplicateReviewOpen} onOpenChange={setIsDuplicateReviewOpen}>
+            <DialogContent className="sm:max-w-3xl">
+                <DialogHeader>
+                    <DialogTitle>Duplicate Transactions</DialogTitle>
+                    <DialogDescription>
+                        Transactions that look like copies of each other within the same account for {dateRangeLabel}.
+                    </DialogDescription>
+                </DialogHeader>
+                <DuplicateTransactionsReview
+                    transactions={allTransactions}
+                    accounts={accounts}
+                    onDelete={handleDeleteDuplicate}
+                    deletingId={deletingDuplicateId}
+                />
+            </DialogContent>
+        </Dialog>
+
+        <ExportTransactionsDialog
+            transactions={allTransactions}
+            fileNamePrefix="transactions"
+            open={isExportDialogOpen}
+            onOpenChange={setIsExportDialogOpen}
+        />
+
+        <TransactionFilterDialog
+            open={isFilterDialogOpen}
+            onOpenChange={setIsFilterDialogOpen}
+            filter={activeFilter}
+            onApply={applyFilter}
+            accounts={accounts}
+            categories={allCategories}
+            tags={allTags}
+            groups={allGroups}
+            currencies={transactionCurrencies}
+        />
+
+        <Dialog open={isSaveViewDialogOpen} onOpenChange={(open) => { if (!isSavingView) setIsSaveViewDialogOpen(open); }}>
+            <DialogContent className="sm:max-w-md">
+                <DialogHeader>
+                    <DialogTitle>{activeView ? 'Save View' : 'Save as View'}</DialogTitle>
+                    <DialogDescription>
+                        Saved views appear in the sidebar under Transactions. The date range is not saved; views follow the selected period.
+                    </DialogDescription>
+                </DialogHeader>
+                <div className="space-y-2">
+                    <Label htmlFor="view-name">Name</Label>
+                    <Input id="view-name" value={viewName} onChange={e => setViewName(e.target.value)} placeholder="e.g. Large uncategorized expenses" />
+                </div>
+                <DialogFooter>
+                    {activeView && (
+                        <Button variant="outline" onClick={() => handleSaveView(true)} disabled={isSavingView || !viewName.trim()}>Save as New</Button>
+                    )}
+                    <Button onClick={() => handleSaveView(false)} disabled={isSavingView || !viewName.trim()}>
+                        {isSavingView ? 'Saving...' : activeView ? 'Update View' : 'Save View'}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
     </div>
   );
 }
 
+// useSearchParams needs a Suspense boundary so the page can still be prerendered
+export default function TransactionsOverviewPage() {
+  return (
+    <Suspense fallback={<div className="container mx-auto py-8 px-4 md:px-6 lg:px-8"><Skeleton className="h-96 w-full" /></div>}>
+      <TransactionsOverviewContent />
+    </Suspense>
+  );
+}
+
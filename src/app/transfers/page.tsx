@@ -5,7 +5,9 @@ import { useState, useEffect, useMemo, useCallback } from 'react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { getAccounts, type Account } from "@/services/account-sync";
-import { getTransactions, deleteTransaction, type Transaction, addTransaction, updateTransaction } from "@/services/transactions";
+import { type Transaction, addTransaction, updateTransaction } from "@/services/transactions";
+import { getTransfers, addTransfer, updateTransfer, deleteTransfer, buildTransferLegs, pairUnlinkedTransferLegs, linkTransferPairs, type Transfer } from "@/services/transfers";
+import { getAllTransactions } from "@/services/transaction-query";
 import { getCategories, Category } from '@/services/categories';
 import { getTags, Tag } from '@/services/tags';
 import { Skeleton } from "@/components/ui/skeleton";
@@ -19,7 +21,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } f
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
 import { useToast } from '@/hooks/use-toast';
 import AddTransactionForm from '@/components/transactions/add-transaction-form';
-import type { AddTransactionFormData } from '@/components/transactions/add-transaction-form';
+import type { AddTransactionFormData, TransferFormSubmission } from '@/components/transactions/add-transaction-form';
 import MonthlySummarySidebar from '@/components/transactions/monthly-summary-sidebar';
 import { useDateRange } from '@/contexts/DateRangeContext';
 import Link from 'next/link';
@@ -39,7 +41,9 @@ const formatDate = (dateString: string): string => {
 
 export default function TransfersPage() {
   const [accounts, setAccounts] = useState<Account[]>([]);
-  const [allTransactionsUnfiltered, setAllTransactionsUnfiltered] = useState<Transaction[]>([]);
+  const [allTransfersUnfiltered, setAllTransfersUnfiltered] = useState<Transfer[]>([]);
+  const [allTransactions, setAllTransactions] = useState<Transaction[]>([]);
+  const [isLinkingPairs, setIsLinkingPairs] = useState(false);
   const [allCategories, setAllCategories] = useState<Category[]>([]);
   const [allTags, setAllTags] = useState<Tag[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -51,9 +55,9 @@ export default function TransfersPage() {
   const [isAddTransactionDialogOpen, setIsAddTransactionDialogOpen] = useState(false);
   const [transactionTypeToAdd, setTransactionTypeToAdd] = useState<'expense' | 'income' | 'transfer' | null>(null);
 
-  const [selectedTransactionPair, setSelectedTransactionPair] = useState<Transaction[] | null>(null);
+  const [selectedTransfer, setSelectedTransfer] = useState<Transfer | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
-  const [editingTransferPair, setEditingTransferPair] = useState<{from: Transaction, to: Transaction} | null>(null);
+  const [editingTransfer, setEditingTransfer] = useState<Transfer | null>(null);
 
 
   const fetchData = useCallback(async () => {
@@ -69,25 +73,18 @@ export default function TransfersPage() {
     const prefs = await getUserPreferences();
     setPreferredCurrency(prefs.preferredCurrency);
 
-    const [fetchedAccounts, fetchedCategories, fetchedTags] = await Promise.all([
+    const [fetchedAccounts, fetchedCategories, fetchedTags, fetchedTransfers, fetchedTransactions] = await Promise.all([
         getAccounts(),
         getCategories(),
-        getTags()
+        getTags(),
+        getTransfers(),
+        getAllTransactions()
     ]);
     setAccounts(fetchedAccounts);
     setAllCategories(fetchedCategories);
     setAllTags(fetchedTags);
-
-
-    if (fetchedAccounts.length > 0) {
-        const transactionPromises = fetchedAccounts.map(acc => getTransactions(acc.id));
-        const transactionsByAccount = await Promise.all(transactionPromises);
-        const combinedTransactions = transactionsByAccount.flat();
-        combinedTransactions.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-        setAllTransactionsUnfiltered(combinedTransactions);
-    } else {
-        setAllTransactionsUnfiltered([]);
-    }
+    setAllTransfersUnfiltered(fetchedTransfers);
+    setAllTransactions(fetchedTransactions);
 
 
     } catch (err: any) {
@@ -125,68 +122,51 @@ export default function TransfersPage() {
      };
   }, [fetchData]);
 
-  const transferTransactionPairs = useMemo(() => {
+  const transfers = useMemo(() => {
     if (isLoading) return [];
-    const transfers: { from: Transaction, to: Transaction }[] = [];
-    const processedIds = new Set<string>();
-
-    const potentialTransfers = allTransactionsUnfiltered.filter(tx => {
-      const txDate = parseISO(tx.date.includes('T') ? tx.date : tx.date + 'T00:00:00Z');
-      const isInDateRange = selectedDateRange.from && selectedDateRange.to ?
-                            isWithinInterval(txDate, { start: selectedDateRange.from, end: selectedDateRange.to }) :
-                            true;
-      return tx.category?.toLowerCase() === 'transfer' && isInDateRange;
+    return allTransfersUnfiltered.filter(transfer => {
+      if (!selectedDateRange.from || !selectedDateRange.to) return true;
+      const transferDate = parseISO(transfer.date.includes('T') ? transfer.date : transfer.date + 'T00:00:00Z');
+      return isWithinInterval(transferDate, { start: selectedDateRange.from, end: selectedDateRange.to });
     });
+  }, [allTransfersUnfiltered, isLoading, selectedDateRange]);
 
+  // 'Transfer' transactions stored before transfers had records of their own
+  const unlinkedTransferLegs = useMemo(() => pairUnlinkedTransferLegs(allTransactions), [allTransactions]);
 
-    potentialTransfers.forEach(txOut => {
-      if (txOut.amount < 0 && !processedIds.has(txOut.id)) {
-        const matchingIncoming = potentialTransfers.filter(txIn =>
-          txIn.amount === -txOut.amount &&
-          txIn.accountId !== txOut.accountId &&
-          !processedIds.has(txIn.id) &&
-          txIn.date === txOut.date &&
-          (txIn.description === txOut.description ||
-           (txIn.description?.startsWith("Transfer") && txOut.description?.startsWith("Transfer"))) &&
-          txIn.transactionCurrency === txOut.transactionCurrency
-        );
-
-        if (matchingIncoming.length > 0) {
-            matchingIncoming.sort((a,b) => a.id.localeCompare(b.id));
-            const txIn = matchingIncoming[0];
-            transfers.push({ from: txOut, to: txIn });
-            processedIds.add(txOut.id);
-            processedIds.add(txIn.id);
-        }
-      }
-    });
-
-    return transfers.sort((a, b) => new Date(b.from.date).getTime() - new Date(a.from.date).getTime());
-  }, [allTransactionsUnfiltered, isLoading, selectedDateRange]);
+  const handleLinkTransferPairs = async () => {
+    setIsLinkingPairs(true);
+    try {
+      const linked = await linkTransferPairs(unlinkedTransferLegs.pairs);
+      toast({ title: "Transfers Linked", description: `${linked.length} transfer(s) now appear in the list above.` });
+      window.dispatchEvent(new Event('storage'));
+    } catch (err: any) {
+      console.error("Failed to link transfer pairs:", err);
+      toast({ title: "Error", description: err.message || "Could not link the transfer transactions.", variant: "destructive" });
+    } finally {
+      setIsLinkingPairs(false);
+    }
+  };
 
    const getAccountName = (accountId: string): string => {
         return accounts.find(acc => acc.id === accountId)?.name || 'Unknown Account';
    };
 
-    const openEditDialog = (transferPair: { from: Transaction, to: Transaction }) => {
-        setEditingTransferPair(transferPair);
+    const openEditDialog = (transfer: Transfer) => {
+        setEditingTransfer(transfer);
         setTransactionTypeToAdd('transfer');
         setIsAddTransactionDialogOpen(true);
-        toast({title: "Edit Transfer", description: "Modify transfer details. This will delete the old transfer and create a new one.", variant: "default", duration: 7000});
     };
 
-     const openDeleteDialog = (transferPair: { from: Transaction, to: Transaction }) => {
-        setSelectedTransactionPair([transferPair.from, transferPair.to]);
+     const openDeleteDialog = (transfer: Transfer) => {
+        setSelectedTransfer(transfer);
      };
 
     const handleDeleteTransferConfirm = async () => {
-        if (!selectedTransactionPair || selectedTransactionPair.length !== 2) return;
+        if (!selectedTransfer) return;
         setIsDeleting(true);
         try {
-            await Promise.all([
-                deleteTransaction(selectedTransactionPair[0].id, selectedTransactionPair[0].accountId),
-                deleteTransaction(selectedTransactionPair[1].id, selectedTransactionPair[1].accountId)
-            ]);
+            await deleteTransfer(selectedTransfer.id);
             toast({
                 title: "Transfer Deleted",
                 description: `Transfer record removed successfully.`,
@@ -197,12 +177,12 @@ export default function TransfersPage() {
             console.error("Failed to delete transfer:", err);
             toast({
                 title: "Error Deleting Transfer",
-                description: err.message || "Could not delete the transfer transactions.",
+                description: err.message || "Could not delete the transfer.",
                 variant: "destructive",
             });
         } finally {
             setIsDeleting(false);
-            setSelectedTransactionPair(null);
+            setSelectedTransfer(null);
         }
     };
 
@@ -217,7 +197,7 @@ export default function TransfersPage() {
          toast({ title: "Success", description: `Transaction updated.` });
       }
       setIsAddTransactionDialogOpen(false);
-      setEditingTransferPair(null);
+      setEditingTransfer(null);
       window.dispatchEvent(new Event('storage'));
       // fetchData(); // Let storage event handle refetch
     } catch (error: any) {
@@ -228,45 +208,31 @@ export default function TransfersPage() {
     }
   };
 
-  const handleTransferAdded = async (data: { fromAccountId: string; toAccountId: string; amount: number; date: Date; description?: string; tags?: string[]; transactionCurrency: string; }) => {
+  const handleTransferAdded = async (data: TransferFormSubmission) => {
     setIsLoading(true);
     try {
-       if (editingTransferPair) {
-           console.log("Deleting old transfer pair before adding updated one:", editingTransferPair);
-           await deleteTransaction(editingTransferPair.from.id, editingTransferPair.from.accountId);
-           await deleteTransaction(editingTransferPair.to.id, editingTransferPair.to.accountId);
-           console.log("Old transfer pair deleted.");
-       }
-
-      const transferAmount = Math.abs(data.amount);
-      const formattedDate = formatDateFns(data.date, 'yyyy-MM-dd');
-      const fromAccountName = accounts.find(a=>a.id === data.fromAccountId)?.name || 'Unknown';
-      const toAccountName = accounts.find(a=>a.id === data.toAccountId)?.name || 'Unknown';
-      const desc = data.description || `Transfer from ${fromAccountName} to ${toAccountName}`;
-
-      await addTransaction({
-        accountId: data.fromAccountId,
-        amount: -transferAmount,
-        transactionCurrency: data.transactionCurrency,
-        date: formattedDate,
-        description: desc,
-        category: 'Transfer',
-        tags: data.tags || [],
-      });
-
-      await addTransaction({
-        accountId: data.toAccountId,
-        amount: transferAmount,
-        transactionCurrency: data.transactionCurrency,
-        date: formattedDate,
-        description: desc,
-        category: 'Transfer',
+      const transferData = {
+        fromAccountId: data.fromAccountId,
+        toAccountId: data.toAccountId,
+        fromAmount: Math.abs(data.amount),
+        fromCurrency: data.transactionCurrency,
+        toAmount: Math.abs(data.toAccountAmount ?? data.amount),
+        toCurrency: data.toAccountCurrency || data.transactionCurrency,
+        fee: data.fee ?? null,
+        date: formatDateFns(data.date, 'yyyy-MM-dd'),
+        description: data.description || '',
         tags: data.tags || [],
-      });
+      };
+
+      if (editingTransfer) {
+        await updateTransfer({ ...editingTransfer, ...transferData });
+      } else {
+        await addTransfer(transferData);
+      }
 
-      toast({ title: "Success", description: `Transfer ${editingTransferPair ? 'updated' : 'recorded'} successfully.` });
+      toast({ title: "Success", description: `Transfer ${editingTransfer ? 'updated' : 'recorded'} successfully.` });
       setIsAddTransactionDialogOpen(false);
-      setEditingTransferPair(null);
+      setEditingTransfer(null);
       window.dispatchEvent(new Event('storage'));
       // fetchData(); // Let storage event handle refetch
     } catch (error: any) {
@@ -295,25 +261,29 @@ export default function TransfersPage() {
         return;
     }
     setTransactionTypeToAdd(type);
-    setEditingTransferPair(null);
+    setEditingTransfer(null);
     setIsAddTransactionDialogOpen(true);
   };
 
   const initialFormDataForEdit = useMemo(() => {
-    if (editingTransferPair && transactionTypeToAdd === 'transfer') {
+    if (editingTransfer && transactionTypeToAdd === 'transfer') {
         return {
+            id: editingTransfer.id,
             type: 'transfer' as 'transfer',
-            fromAccountId: editingTransferPair.from.accountId,
-            toAccountId: editingTransferPair.to.accountId,
-            amount: Math.abs(editingTransferPair.from.amount),
-            transactionCurrency: editingTransferPair.from.transactionCurrency,
-            date: parseISO(editingTransferPair.from.date.includes('T') ? editingTransferPair.from.date : editingTransferPair.from.date + 'T00:00:00Z'),
-            description: editingTransferPair.from.description,
-            tags: editingTransferPair.from.tags || [],
+            fromAccountId: editingTransfer.fromAccountId,
+            toAccountId: editingTransfer.toAccountId,
+            amount: editingTransfer.fromAmount,
+            transactionCurrency: editingTransfer.fromCurrency,
+            toAccountCurrency: editingTransfer.toCurrency,
+            exchangeRate: editingTransfer.fromAmount > 0 ? editingTransfer.toAmount / editingTransfer.fromAmount : 1,
+            fee: editingTransfer.fee ?? undefined,
+            date: parseISO(editingTransfer.date.includes('T') ? editingTransfer.date : editingTransfer.date + 'T00:00:00Z'),
+            description: editingTransfer.description,
+            tags: editingTransfer.tags || [],
         };
     }
     return {date: new Date()};
-  }, [editingTransferPair, transactionTypeToAdd]);
+  }, [editingTransfer, transactionTypeToAdd]);
 
   const dateRangeLabel = useMemo(() => {
     if (selectedDateRange.from && selectedDateRange.to) {
@@ -378,13 +348,13 @@ export default function TransfersPage() {
                         </div>
                     </CardHeader>
                     <CardContent>
-                    {isLoading && transferTransactionPairs.length === 0 ? (
+                    {isLoading && transfers.length === 0 ? (
                         <div className="space-y-2">
                         {[...Array(3)].map((_, i) => (
                             <Skeleton key={i} className="h-12 w-full" />
                         ))}
                         </div>
-                    ) : transferTransactionPairs.length > 0 ? (
+                    ) : transfers.length > 0 ? (
                         <Table>
                         <TableHeader>
                             <TableRow>
@@ -393,25 +363,33 @@ export default function TransfersPage() {
                             <TableHead>Date</TableHead>
                             <TableHead>From Account</TableHead>
                             <TableHead>To Account</TableHead>
+                            <TableHead className="text-right">Fee</TableHead>
                             <TableHead className="text-right">Actions</TableHead>
                             </TableRow>
                         </TableHeader>
                         <TableBody>
-                            {transferTransactionPairs.map((pair) => {
+                            {transfers.map((transfer) => {
                                 return (
-                                    <TableRow key={`${pair.from.id}-${pair.to.id}`} className="hover:bg-muted/50">
-                                        <TableCell className="font-medium">{pair.from.description || 'Transfer'}</TableCell>
+                                    <TableRow key={transfer.id} className="hover:bg-muted/50">
+                                        <TableCell className="font-medium">{transfer.description || 'Transfer'}</TableCell>
                                         <TableCell className="text-right font-medium">
-                                            <div>{formatCurrency(Math.abs(pair.from.amount), pair.from.transactionCurrency, pair.from.transactionCurrency, false)}</div>
-                                            {pair.from.transactionCurrency.toUpperCase() !== preferredCurrency.toUpperCase() && (
+                                            <div>{formatCurrency(transfer.fromAmount, transfer.fromCurrency, transfer.fromCurrency, false)}</div>
+                                            {transfer.toCurrency.toUpperCase() !== transfer.fromCurrency.toUpperCase() ? (
+                                            <div className="text-xs text-muted-foreground">
+                                                → {formatCurrency(transfer.toAmount, transfer.toCurrency, transfer.toCurrency, false)}
+                                            </div>
+                                            ) : transfer.fromCurrency.toUpperCase() !== preferredCurrency.toUpperCase() && (
                                             <div className="text-xs text-muted-foreground">
-                                                (≈ {formatCurrency(Math.abs(pair.from.amount), pair.from.transactionCurrency, preferredCurrency, true)})
+                                                (≈ {formatCurrency(transfer.fromAmount, transfer.fromCurrency, preferredCurrency, true)})
                                             </div>
                                             )}
                                         </TableCell>
-                                        <TableCell className="whitespace-nowrap text-muted-foreground">{formatDate(pair.from.date)}</TableCell>
-                                        <TableCell className="text-muted-foreground">{getAccountName(pair.from.accountId)}</TableCell>
-                                        <TableCell className="text-muted-foreground">{getAccountName(pair.to.accountId)}</TableCell>
+                                        <TableCell className="whitespace-nowrap text-muted-foreground">{formatDate(transfer.date)}</TableCell>
+                                        <TableCell className="text-muted-foreground">{getAccountName(transfer.fromAccountId)}</TableCell>
+                                        <TableCell className="text-muted-foreground">{getAccountName(transfer.toAccountId)}</TableCell>
+                                        <TableCell className="text-right text-muted-foreground">
+                                            {transfer.fee ? formatCurrency(transfer.fee, transfer.fromCurrency, transfer.fromCurrency, false) : '-'}
+                                        </TableCell>
                                         <TableCell className="text-right">
                                             <DropdownMenu>
                                             <DropdownMenuTrigger asChild>
@@ -421,7 +399,7 @@ export default function TransfersPage() {
                                                 </Button>
                                             </DropdownMenuTrigger>
                                             <DropdownMenuContent align="end">
-                                                <DropdownMenuItem onClick={() => openEditDialog(pair)}>
+                                                <DropdownMenuItem onClick={() => openEditDialog(transfer)}>
                                                 <Edit className="mr-2 h-4 w-4" />
                                                 <span>Edit</span>
                                                 </DropdownMenuItem>
@@ -429,22 +407,22 @@ export default function TransfersPage() {
                                                     <AlertDialogTrigger asChild>
                                                         <div
                                                             className="relative flex cursor-default select-none items-center gap-2 rounded-sm px-2 py-1.5 text-sm outline-none transition-colors focus:bg-destructive/10 focus:text-destructive text-destructive data-[disabled]:pointer-events-none data-[disabled]:opacity-50"
-                                                            onClick={() => openDeleteDialog(pair)}
+                                                            onClick={() => openDeleteDialog(transfer)}
                                                         >
                                                             <Trash2 className="mr-2 h-4 w-4" />
                                                             <span>Delete</span>
                                                         </div>
                                                     </AlertDialogTrigger>
-                                                    {selectedTransactionPair && selectedTransactionPair[0].id === pair.from.id && (
+                                                    {selectedTransfer && selectedTransfer.id === transfer.id && (
                                                         <AlertDialogContent>
                                                             <AlertDialogHeader>
                                                             <AlertDialogTitle>Are you sure?</AlertDialogTitle>
                                                             <AlertDialogDescription>
-                                                                This action cannot be undone. This will permanently delete both transactions related to this transfer: "{pair.from.description}".
+                                                                This action cannot be undone. This will permanently delete both transactions related to this transfer: "{transfer.description}".
                                                             </AlertDialogDescription>
                                                             </AlertDialogHeader>
                                                             <AlertDialogFooter>
-                                                            <AlertDialogCancel onClick={() => setSelectedTransactionPair(null)} disabled={isDeleting}>Cancel</AlertDialogCancel>
+                                                            <AlertDialogCancel onClick={() => setSelectedTransfer(null)} disabled={isDeleting}>Cancel</AlertDialogCancel>
                                                             <AlertDialogAction onClick={handleDeleteTransferConfirm} disabled={isDeleting} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
                                                                 {isDeleting ? "Deleting Transfer..." : "Delete Transfer"}
                                                             </AlertDialogAction>
@@ -472,10 +450,68 @@ export default function TransfersPage() {
                     )}
                     </CardContent>
                 </Card>
+                {(unlinkedTransferLegs.pairs.length > 0 || unlinkedTransferLegs.unpaired.length > 0) && (
+                    <Card className="mt-8">
+                        <CardHeader>
+                            <div className="flex justify-between items-center">
+                                <div>
+                                    <CardTitle>Unlinked Transfer Transactions</CardTitle>
+                                    <CardDescription>
+                                        Transactions in the Transfer category that are not part of a transfer record, e.g. from before transfers were stored as such.
+                                    </CardDescription>
+                                </div>
+                                {unlinkedTransferLegs.pairs.length > 0 && (
+                                    <Button variant="outline" size="sm" onClick={handleLinkTransferPairs} disabled={isLinkingPairs}>
+                                        <TransferIcon className="mr-2 h-4 w-4" />
+                                        {isLinkingPairs ? 'Linking...' : `Link ${unlinkedTransferLegs.pairs.length} Pair(s)`}
+                                    </Button>
+                                )}
+                            </div>
+                        </CardHeader>
+                        <CardContent>
+                            {unlinkedTransferLegs.pairs.length > 0 && (
+                                <p className="text-sm text-muted-foreground mb-4">
+                                    {unlinkedTransferLegs.pairs.length} pair(s) of matching transactions can be linked into transfers. Balances do not change.
+                                </p>
+                            )}
+                            {unlinkedTransferLegs.unpaired.length > 0 && (
+                                <>
+                                <p className="text-sm text-muted-foreground mb-2">
+                                    These transactions have no matching counterpart. Edit or delete them from their account, or record them again as transfers.
+                                </p>
+                                <Table>
+                                    <TableHeader>
+                                        <TableRow>
+                                            <TableHead>Description</TableHead>
+                                            <TableHead className="text-right">Amount</TableHead>
+                                            <TableHead>Date</TableHead>
+                                            <TableHead>Account</TableHead>
+                                        </TableRow>
+                                    </TableHeader>
+                                    <TableBody>
+                                        {unlinkedTransferLegs.unpaired.map(leg => (
+                                            <TableRow key={leg.id}>
+                                                <TableCell className="font-medium">{leg.description || 'Transfer'}</TableCell>
+                                                <TableCell className={`text-right font-medium ${leg.amount < 0 ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>
+                                                    {formatCurrency(leg.amount, leg.transactionCurrency, leg.transactionCurrency, false)}
+                                                </TableCell>
+                                                <TableCell className="whitespace-nowrap text-muted-foreground">{formatDate(leg.date)}</TableCell>
+                                                <TableCell className="text-muted-foreground">
+                                                    <Link href={`/accounts/${leg.accountId}`} className="hover:underline">{getAccountName(leg.accountId)}</Link>
+                                                </TableCell>
+                                            </TableRow>
+                                        ))}
+                                    </TableBody>
+                                </Table>
+                                </>
+                            )}
+                        </CardContent>
+                    </Card>
+                )}
             </div>
             <div className="w-full md:w-72 lg:w-80 flex-shrink-0">
                 <MonthlySummarySidebar
-                    transactions={transferTransactionPairs.flatMap(p => [p.from, p.to])}
+                    transactions={transfers.flatMap(transfer => buildTransferLegs(transfer).filter(leg => leg.category === 'Transfer'))}
                     accounts={accounts}
                     preferredCurrency={preferredCurrency}
                     transactionType="transfer"
@@ -487,21 +523,21 @@ export default function TransfersPage() {
 
       <Dialog open={isAddTransactionDialogOpen} onOpenChange={(open) => {
           setIsAddTransactionDialogOpen(open);
-          if (!open) setEditingTransferPair(null);
+          if (!open) setEditingTransfer(null);
       }}>
         <DialogContent className="sm:max-w-2xl">
           <DialogHeader>
             <DialogTitle>
-                {editingTransferPair ? 'Edit Transfer' : `Add New ${transactionTypeToAdd ? transactionTypeToAdd.charAt(0).toUpperCase() + transactionTypeToAdd.slice(1) : 'Transaction'}`}
+                {editingTransfer ? 'Edit Transfer' : `Add New ${transactionTypeToAdd ? transactionTypeToAdd.charAt(0).toUpperCase() + transactionTypeToAdd.slice(1) : 'Transaction'}`}
             </DialogTitle>
             <DialogDescription>
-              {editingTransferPair ? 'Modify the details of your transfer.' : `Enter the details for your new ${transactionTypeToAdd || 'transaction'}.`}
+              {editingTransfer ? 'Modify the details of your transfer.' : `Enter the details for your new ${transactionTypeToAdd || 'transaction'}.`}
             </DialogDescription>
           </DialogHeader>
           {isLoading ? <Skeleton className="h-64 w-full" /> :
             (accounts.length > 0 && allCategories.length > 0 && allTags.length > 0 && transactionTypeToAdd) && (
             <AddTransactionForm
-              key={editingTransferPair ? `${editingTransferPair.from.id}-${editingTransferPair.to.id}` : 'new-transaction'}
+              key={editingTransfer ? editingTransfer.id : 'new-transaction'}
               accounts={accounts}
               categories={allCategories}
               tags={allTags}
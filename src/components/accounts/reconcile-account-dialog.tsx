@@ -0,0 +1,218 @@
+'use client';
+
+import type { FC } from 'react';
+import { useCallback, useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { format as formatDateFns } from 'date-fns';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Separator } from "@/components/ui/separator";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency, getCurrencySymbol } from '@/lib/currency';
+import { cn } from '@/lib/utils';
+import type { Account } from '@/services/account-sync';
+import {
+  getAccountReconciliation,
+  applyComputedBalance,
+  adoptStoredBalance,
+  reconcileWithStatementBalance,
+  type AccountReconciliation,
+} from '@/services/account-reconciliation';
+
+const statementSchema = z.object({
+  statementBalance: z.coerce.number({ invalid_type_error: "Statement balance must be a number" }),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Enter a date"),
+});
+
+type StatementFormData = z.infer<typeof statementSchema>;
+
+interface ReconcileAccountDialogProps {
+  account: Account;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onReconciled: () => void;
+}
+
+const ReconcileAccountDialog: FC<ReconcileAccountDialogProps> = ({ account, open, onOpenChange, onReconciled }) => {
+  const { toast } = useToast();
+  const [reconciliation, setReconciliation] = useState<AccountReconciliation | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const form = useForm<StatementFormData>({
+    resolver: zodResolver(statementSchema),
+    defaultValues: { statementBalance: account.balance, date: formatDateFns(new Date(), 'yyyy-MM-dd') },
+  });
+
+  const loadReconciliation = useCallback(async () => {
+    setIsLoading(true);
+    setLoadError(null);
+    try {
+      const result = await getAccountReconciliation(account.id);
+      setReconciliation(result);
+      form.reset({ statementBalance: result.storedBalance, date: formatDateFns(new Date(), 'yyyy-MM-dd') });
+    } catch (error: any) {
+      console.error("Failed to load account reconciliation:", error);
+      setLoadError(error.message || "Could not compute the account balance.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [account.id, form]);
+
+  useEffect(() => {
+    if (open) loadReconciliation();
+  }, [open, loadReconciliation]);
+
+  const runAction = async (action: () => Promise<unknown>, successMessage: string) => {
+    setIsSaving(true);
+    try {
+      await action();
+      toast({ title: "Balance Reconciled", description: successMessage });
+      onReconciled();
+      await loadReconciliation();
+    } catch (error: any) {
+      console.error("Account reconciliation failed:", error);
+      toast({ title: "Error", description: `Could not reconcile the account: ${error.message}`, variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const onSubmitStatement = (values: StatementFormData) =>
+    runAction(
+      () => reconcileWithStatementBalance(account.id, values.statementBalance, values.date),
+      `${account.name} now matches the statement balance of ${formatCurrency(values.statementBalance, account.currency, account.currency, false)}.`
+    );
+
+  const fmt = (value: number) => formatCurrency(value, account.currency, account.currency, false);
+  const statementBalance = form.watch('statementBalance');
+  const adjustmentPreview = reconciliation && typeof statementBalance === 'number' && !isNaN(statementBalance)
+    ? parseFloat((statementBalance - reconciliation.computedBalance).toFixed(2))
+    : null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Reconcile {account.name}</DialogTitle>
+          <DialogDescription>
+            Recompute the balance from the opening balance and all transactions, and compare it with the stored balance.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading && !reconciliation ? (
+          <div className="space-y-2 py-2">
+            <Skeleton className="h-6 w-full" />
+            <Skeleton className="h-6 w-full" />
+            <Skeleton className="h-6 w-full" />
+          </div>
+        ) : loadError ? (
+          <div className="p-3 bg-destructive/10 text-destructive border border-destructive rounded-md text-sm">{loadError}</div>
+        ) : reconciliation && (
+          <div className="space-y-4">
+            <div className="space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">
+                  Opening balance{!reconciliation.hasRecordedOpeningBalance && ' (not recorded)'}
+                </span>
+                <span>{fmt(reconciliation.openingBalance)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Transactions ({reconciliation.transactionCount})</span>
+                <span>{fmt(reconciliation.transactionsTotal)}</span>
+              </div>
+              <div className="flex justify-between font-medium">
+                <span>Computed balance</span>
+                <span>{fmt(reconciliation.computedBalance)}</span>
+              </div>
+              <div className="flex justify-between font-medium">
+                <span>Stored balance</span>
+                <span>{fmt(reconciliation.storedBalance)}</span>
+              </div>
+              <div className={cn("flex justify-between font-semibold", reconciliation.hasDrift ? "text-destructive" : "text-green-600")}>
+                <span>Drift</span>
+                <span>{reconciliation.hasDrift ? fmt(reconciliation.drift) : 'None'}</span>
+              </div>
+            </div>
+
+            {reconciliation.hasDrift && (
+              <div className="flex flex-wrap gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={isSaving}
+                  onClick={() => runAction(() => applyComputedBalance(account.id), `Stored balance set to ${fmt(reconciliation.computedBalance)}.`)}
+                >
+                  Use Computed Balance
+                </Button>
+                {!reconciliation.hasRecordedOpeningBalance && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={isSaving}
+                    onClick={() => runAction(() => adoptStoredBalance(account.id), "Opening balance recorded from the stored balance.")}
+                  >
+                    Keep Stored Balance
+                  </Button>
+                )}
+              </div>
+            )}
+
+            <Separator />
+
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmitStatement)} className="space-y-4">
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="statementBalance"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Statement Balance ({getCurrencySymbol(account.currency)})</FormLabel>
+                        <FormControl>
+                          <Input type="number" step="0.01" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="date"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Statement Date</FormLabel>
+                        <FormControl>
+                          <Input type="date" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {adjustmentPreview
+                    ? `An adjustment of ${fmt(adjustmentPreview)} will be posted and the stored balance set to the statement balance.`
+                    : "The computed balance already matches this statement balance."}
+                </p>
+                <div className="flex justify-end">
+                  <Button type="submit" disabled={isSaving}>
+                    {isSaving ? 'Saving...' : 'Reconcile to Statement'}
+                  </Button>
+                </div>
+              </form>
+            </Form>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReconcileAccountDialog;
@@ -16,10 +16,13 @@ import { CalendarIcon, Check, ChevronsUpDown } from 'lucide-react';
 import { cn } from "@/lib/utils";
 import { format as formatDateFns, parseISO, addMonths, startOfMonth, endOfMonth } from 'date-fns';
 import { supportedCurrencies, getCurrencySymbol } from '@/lib/currency';
+import { DEFAULT_BUDGET_ALERT_THRESHOLDS } from '@/lib/budget-evaluation';
 import type { Category } from '@/services/categories';
+import { flattenCategoryTree } from '@/lib/category-tree';
 import type { Group } from '@/services/groups';
 import type { BudgetPeriod, NewBudgetData, Budget } from '@/services/budgets';
 import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command"
 import React, { useMemo, useEffect } from 'react';
@@ -27,6 +30,9 @@ import React, { useMemo, useEffect } from 'react';
 
 const budgetPeriods: BudgetPeriod[] = ['monthly', 'quarterly', 'annually', 'custom'];
 
+const parseThresholds = (value: string): number[] =>
+  value.split(',').map(part => part.trim().replace('%', '')).filter(Boolean).map(Number);
+
 const formSchema = z.object({
   name: z.string().min(2, "Budget name must be at least 2 characters").max(100, "Name too long"),
   amount: z.coerce.number({ invalid_type_error: "Amount must be a number" }).positive("Amount must be positive"),
@@ -36,6 +42,10 @@ const formSchema = z.object({
   endDate: z.date().optional(),
   appliesTo: z.enum(['categories', 'groups'], { required_error: "Budget must apply to categories or groups" }),
   selectedIds: z.array(z.string()).min(1, "Please select at least one category or group"),
+  rollover: z.boolean().default(false),
+  alertThresholds: z.string().refine(val => parseThresholds(val).every(t => Number.isFinite(t) && t > 0 && t <= 1000), {
+    message: "Enter comma-separated percentages, e.g. 80, 100",
+  }),
   notes: z.string().max(500, "Notes too long").optional(),
 }).refine(data => {
   if (data.period === 'custom' && !data.endDate) {
@@ -68,6 +78,8 @@ const AddBudgetForm: FC<AddBudgetFormProps> = ({ onSubmit: passedOnSubmit, isLoa
       startDate: initialData.startDate ? parseISO(initialData.startDate) : startOfMonth(new Date()),
       endDate: initialData.endDate ? parseISO(initialData.endDate) : undefined,
       selectedIds: initialData.selectedIds || [],
+      rollover: initialData.rollover ?? false,
+      alertThresholds: (initialData.alertThresholds || DEFAULT_BUDGET_ALERT_THRESHOLDS).join(', '),
       notes: initialData.notes || "",
     } : {
       name: "",
@@ -78,6 +90,8 @@ const AddBudgetForm: FC<AddBudgetFormProps> = ({ onSubmit: passedOnSubmit, isLoa
       endDate: undefined,
       appliesTo: 'categories',
       selectedIds: [],
+      rollover: false,
+      alertThresholds: DEFAULT_BUDGET_ALERT_THRESHOLDS.join(', '),
       notes: "",
     },
   });
@@ -86,8 +100,11 @@ const AddBudgetForm: FC<AddBudgetFormProps> = ({ onSubmit: passedOnSubmit, isLoa
   const selectedPeriod = form.watch('period');
   const appliesTo = form.watch('appliesTo');
 
+  // Categories are listed in tree order; selecting a parent also tracks its subcategories
   const itemsToSelectFrom = useMemo(() => {
-    return appliesTo === 'categories' ? categories : groups;
+    return appliesTo === 'categories'
+      ? flattenCategoryTree(categories).map(({ category, depth }) => ({ id: category.id, name: category.name, depth }))
+      : groups.map(group => ({ id: group.id, name: group.name, depth: 0 }));
   }, [appliesTo, categories, groups]);
 
   const handleFormSubmit = async (data: AddBudgetFormData) => {
@@ -95,13 +112,17 @@ const AddBudgetForm: FC<AddBudgetFormProps> = ({ onSubmit: passedOnSubmit, isLoa
       ...data,
       startDate: formatDateFns(data.startDate, 'yyyy-MM-dd'),
       endDate: data.period === 'custom' && data.endDate ? formatDateFns(data.endDate, 'yyyy-MM-dd') : null,
+      // Rollover has nothing to carry between periods of a one-off custom budget.
+      rollover: data.period !== 'custom' && data.rollover,
+      alertThresholds: Array.from(new Set(parseThresholds(data.alertThresholds))).sort((a, b) => a - b),
     };
     await passedOnSubmit(budgetDataToSave);
     if (!initialData?.id) {
       form.reset({
         name: "", amount: undefined, currency: "BRL", period: 'monthly',
         startDate: startOfMonth(new Date()), endDate: undefined,
-        appliesTo: 'categories', selectedIds: [], notes: ""
+        appliesTo: 'categories', selectedIds: [], rollover: false,
+        alertThresholds: DEFAULT_BUDGET_ALERT_THRESHOLDS.join(', '), notes: ""
       });
     }
   };
@@ -303,7 +324,7 @@ const AddBudgetForm: FC<AddBudgetFormProps> = ({ onSubmit: passedOnSubmit, isLoa
                                             (field.value || []).includes(item.id) ? "opacity-100" : "opacity-0"
                                             )}
                                         />
-                                        {item.name}
+                                        <span style={{ paddingLeft: `${item.depth * 0.75}rem` }}>{item.name}</span>
                                         </CommandItem>
                                     ))}
                                     </ScrollArea>
@@ -312,12 +333,45 @@ const AddBudgetForm: FC<AddBudgetFormProps> = ({ onSubmit: passedOnSubmit, isLoa
                                 </Command>
                             </PopoverContent>
                         </Popover>
+                        {appliesTo === 'categories' && (
+                            <FormDescription>Selecting a parent category includes all of its subcategories.</FormDescription>
+                        )}
                         <FormMessage />
                     </FormItem>
                 )}
             />
         </div>
 
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <FormField
+            control={form.control}
+            name="alertThresholds"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Alert Thresholds (%)</FormLabel>
+                <FormControl><Input placeholder="80, 100" {...field} /></FormControl>
+                <FormDescription>Flag the budget once spending reaches these shares of the period's amount.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          {selectedPeriod !== 'custom' && (
+            <FormField
+              control={form.control}
+              name="rollover"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3">
+                  <div className="space-y-0.5">
+                    <FormLabel>Roll Over</FormLabel>
+                    <FormDescription>Carry what's left (or overspent) into the next period.</FormDescription>
+                  </div>
+                  <FormControl><Switch checked={field.value} onCheckedChange={field.onChange} /></FormControl>
+                </FormItem>
+              )}
+            />
+          )}
+        </div>
+
         <FormField
           control={form.control}
           name="notes"
@@ -0,0 +1,65 @@
+'use client';
+
+import type { FC } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle } from 'lucide-react';
+import { cn } from "@/lib/utils";
+import { formatCurrency } from '@/lib/currency';
+import type { BudgetEvaluation } from '@/lib/budget-evaluation';
+import type { Budget } from '@/services/budgets';
+import { budgetStatusIndicatorClass, formatBudgetPeriod } from './budget-progress';
+
+interface BudgetAlertsProps {
+  budgets: Budget[];
+  evaluations: Record<string, BudgetEvaluation>;
+}
+
+/**
+ * Lists the budgets whose current period has crossed one of their alert thresholds, worst first.
+ * Renders nothing while every budget is within its thresholds.
+ */
+const BudgetAlerts: FC<BudgetAlertsProps> = ({ budgets, evaluations }) => {
+  const flagged = budgets
+    .map(budget => ({ budget, current: evaluations[budget.id]?.current }))
+    .filter(({ current }) => current && current.status !== 'ok')
+    .sort((a, b) => b.current!.percentUsed - a.current!.percentUsed);
+
+  if (flagged.length === 0) return null;
+
+  return (
+    <Card className="border-amber-500/50">
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <AlertTriangle className="h-5 w-5 text-amber-500" /> Budget Alerts
+        </CardTitle>
+        <CardDescription>
+          {flagged.length} budget{flagged.length > 1 ? 's have' : ' has'} crossed an alert threshold this period. <Link href="/financial-control" className="underline">Review budgets</Link>
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {flagged.map(({ budget, current }) => (
+          <div key={budget.id} className="space-y-1">
+            <div className="flex items-center justify-between text-sm">
+              <span className="font-medium">{budget.name}</span>
+              <Badge variant={current!.status === 'over' ? "destructive" : "outline"}>
+                {current!.status === 'over' ? 'Over budget' : `${Math.max(...current!.crossedThresholds)}% reached`}
+              </Badge>
+            </div>
+            <Progress value={Math.min(current!.percentUsed, 100)} className={cn("h-2", budgetStatusIndicatorClass[current!.status])} />
+            <div className="flex justify-between text-xs text-muted-foreground">
+              <span>{formatBudgetPeriod(current!)}</span>
+              <span>
+                {formatCurrency(current!.spent, budget.currency, budget.currency, false)} of {formatCurrency(current!.available, budget.currency, budget.currency, false)} ({current!.percentUsed.toFixed(0)}%)
+              </span>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BudgetAlerts;
@@ -0,0 +1,98 @@
+'use client';
+
+import type { FC } from 'react';
+import { useState } from 'react';
+import { Progress } from "@/components/ui/progress";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChevronDown, ChevronUp } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { cn } from "@/lib/utils";
+import { formatCurrency } from '@/lib/currency';
+import type { BudgetEvaluation, BudgetPeriodProgress, BudgetStatus } from '@/lib/budget-evaluation';
+
+export const budgetStatusIndicatorClass: Record<BudgetStatus, string> = {
+  ok: '',
+  warning: '[&>*]:bg-amber-500',
+  over: '[&>*]:bg-destructive',
+};
+
+export const formatBudgetPeriod = (period: Pick<BudgetPeriodProgress, 'start' | 'end'>) =>
+  `${format(parseISO(period.start), 'MMM dd')} - ${format(parseISO(period.end), 'MMM dd, yyyy')}`;
+
+interface BudgetProgressProps {
+  evaluation?: BudgetEvaluation;
+  currency: string;
+  rollover?: boolean;
+}
+
+const BudgetProgress: FC<BudgetProgressProps> = ({ evaluation, currency, rollover }) => {
+  const [showHistory, setShowHistory] = useState(false);
+  const fmt = (amount: number) => formatCurrency(amount, currency, currency, false);
+
+  if (!evaluation?.current) {
+    return <p className="text-xs text-muted-foreground">No spending tracked yet. The first period starts on the budget's start date.</p>;
+  }
+  const current = evaluation.current;
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span>{formatBudgetPeriod(current)}</span>
+        <span className="flex gap-1">
+          {current.crossedThresholds.map(threshold => (
+            <Badge key={threshold} variant={threshold >= 100 ? "destructive" : "outline"} className="text-[10px]">
+              {threshold}%
+            </Badge>
+          ))}
+        </span>
+      </div>
+      <Progress value={Math.min(current.percentUsed, 100)} className={cn("h-2", budgetStatusIndicatorClass[current.status])} />
+      <div className="flex justify-between text-xs">
+        <span>{fmt(current.spent)} spent ({current.percentUsed.toFixed(0)}%)</span>
+        <span className={current.remaining < 0 ? 'text-destructive' : undefined}>
+          {current.remaining < 0 ? `${fmt(-current.remaining)} over` : `${fmt(current.remaining)} left`} of {fmt(current.available)}
+        </span>
+      </div>
+      {rollover && current.rolloverIn !== 0 && (
+        <p className="text-xs text-muted-foreground">
+          Includes {fmt(current.rolloverIn)} rolled over from the previous period.
+        </p>
+      )}
+
+      {evaluation.periods.length > 1 && (
+        <>
+          <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => setShowHistory(prev => !prev)}>
+            {showHistory ? <ChevronUp className="mr-1 h-3 w-3" /> : <ChevronDown className="mr-1 h-3 w-3" />}
+            {showHistory ? 'Hide' : 'Show'} history ({evaluation.periods.length} periods)
+          </Button>
+          {showHistory && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="h-8">Period</TableHead>
+                  {rollover && <TableHead className="h-8 text-right">Rolled Over</TableHead>}
+                  <TableHead className="h-8 text-right">Spent</TableHead>
+                  <TableHead className="h-8 text-right">Remaining</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {[...evaluation.periods].reverse().map(period => (
+                  <TableRow key={period.start} className="text-xs">
+                    <TableCell className="py-1 whitespace-nowrap">{formatBudgetPeriod(period)}</TableCell>
+                    {rollover && <TableCell className="py-1 text-right">{fmt(period.rolloverIn)}</TableCell>}
+                    <TableCell className="py-1 text-right">{fmt(period.spent)} ({period.percentUsed.toFixed(0)}%)</TableCell>
+                    <TableCell className={cn("py-1 text-right", period.remaining < 0 && "text-destructive")}>{fmt(period.remaining)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BudgetProgress;
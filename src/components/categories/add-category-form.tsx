@@ -10,32 +10,37 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage, FormDes
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import Picker, { type EmojiClickData, Theme as EmojiTheme, SuggestionMode } from 'emoji-picker-react';
 import { Smile } from 'lucide-react';
+import type { Category } from '@/services/categories';
 import { useAuthContext } from '@/contexts/AuthContext';
+import ParentCategorySelect from './parent-category-select';
 
 const formSchema = z.object({
   name: z.string().trim().min(1, "Category name cannot be empty").max(50, "Category name too long"),
   icon: z.string().max(5, "Icon should be short (e.g., emoji or 1-2 chars).").optional(),
+  parentId: z.string().nullable().optional(),
 });
 
 type AddCategoryFormData = z.infer<typeof formSchema>;
 
 interface AddCategoryFormProps {
-  onCategoryAdded: (categoryName: string, icon?: string) => Promise<void> | void;
+  onCategoryAdded: (categoryName: string, icon?: string, parentId?: string | null) => Promise<void> | void;
   isLoading: boolean;
+  categories?: Category[]; // Offered as parents
 }
 
-const AddCategoryForm: FC<AddCategoryFormProps> = ({ onCategoryAdded, isLoading }) => {
+const AddCategoryForm: FC<AddCategoryFormProps> = ({ onCategoryAdded, isLoading, categories = [] }) => {
   const { theme } = useAuthContext(); // Get theme from AuthContext
   const form = useForm<AddCategoryFormData>({
     resolver: zodResolver(formSchema),
     defaultValues: {
       name: "",
       icon: "",
+      parentId: null,
     },
   });
 
   async function onSubmit(values: AddCategoryFormData) {
-    await onCategoryAdded(values.name, values.icon);
+    await onCategoryAdded(values.name, values.icon, values.parentId || null);
     form.reset();
   }
 
@@ -105,6 +110,27 @@ const AddCategoryForm: FC<AddCategoryFormProps> = ({ onCategoryAdded, isLoading
           )}
         />
 
+        <FormField
+          control={form.control}
+          name="parentId"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Parent Category (Optional)</FormLabel>
+              <FormControl>
+                <ParentCategorySelect
+                  categories={categories}
+                  value={field.value}
+                  onChange={field.onChange}
+                />
+              </FormControl>
+              <FormDescription>
+                Optionally file it under another category, e.g. Restaurants under Food.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
         <Button type="submit" className="w-full" disabled={isLoading}>
           {isLoading ? "Adding..." : "Add Category"}
         </Button>
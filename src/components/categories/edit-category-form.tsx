@@ -12,33 +12,37 @@ import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover
 import Picker, { type EmojiClickData, Theme as EmojiTheme, SuggestionMode } from 'emoji-picker-react';
 import { Smile } from 'lucide-react';
 import { useAuthContext } from '@/contexts/AuthContext';
+import ParentCategorySelect from './parent-category-select';
 
 const formSchema = z.object({
   name: z.string().trim().min(1, "Category name cannot be empty").max(50, "Category name too long"),
   icon: z.string().max(5, "Icon should be short (e.g., emoji or 1-2 chars).").optional(),
+  parentId: z.string().nullable().optional(),
 });
 
 type EditCategoryFormData = z.infer<typeof formSchema>;
 
 interface EditCategoryFormProps {
   category: Category;
-  onCategoryUpdated: (categoryId: string, newName: string, newIcon?: string) => Promise<void> | void;
+  onCategoryUpdated: (categoryId: string, newName: string, newIcon?: string, newParentId?: string | null) => Promise<void> | void;
   isLoading: boolean;
+  categories?: Category[]; // Offered as parents
 }
 
-const EditCategoryForm: FC<EditCategoryFormProps> = ({ category, onCategoryUpdated, isLoading }) => {
+const EditCategoryForm: FC<EditCategoryFormProps> = ({ category, onCategoryUpdated, isLoading, categories = [] }) => {
   const { theme } = useAuthContext(); // Get theme from AuthContext
   const form = useForm<EditCategoryFormData>({
     resolver: zodResolver(formSchema),
     defaultValues: {
       name: category?.name || "",
       icon: category?.icon || "",
+      parentId: category?.parentId || null,
     },
   });
 
   async function onSubmit(values: EditCategoryFormData) {
     if (!category) return;
-    await onCategoryUpdated(category.id, values.name, values.icon);
+    await onCategoryUpdated(category.id, values.name, values.icon, values.parentId || null);
   }
 
   const onEmojiClick = (emojiData: EmojiClickData, event: MouseEvent) => {
@@ -111,6 +115,28 @@ const EditCategoryForm: FC<EditCategoryFormProps> = ({ category, onCategoryUpdat
           )}
         />
 
+        <FormField
+          control={form.control}
+          name="parentId"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Parent Category (Optional)</FormLabel>
+              <FormControl>
+                <ParentCategorySelect
+                  categories={categories}
+                  value={field.value}
+                  onChange={field.onChange}
+                  categoryId={category.id}
+                />
+              </FormControl>
+              <FormDescription>
+                Budgets and reports on the parent include this category.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
         <Button type="submit" className="w-full" disabled={isLoading}>
            {isLoading ? "Saving..." : "Save Changes"}
         </Button>
@@ -0,0 +1,39 @@
+'use client';
+
+import type { FC } from 'react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { flattenCategoryTree, isValidCategoryParent } from '@/lib/category-tree';
+import type { Category } from '@/services/categories';
+
+const NO_PARENT = 'none';
+
+interface ParentCategorySelectProps {
+  categories: Category[];
+  value: string | null | undefined;
+  onChange: (parentId: string | null) => void;
+  categoryId?: string; // The category being edited; it and its subcategories are not offered
+}
+
+/** Picks the parent of a category from the tree, indented by depth. */
+const ParentCategorySelect: FC<ParentCategorySelectProps> = ({ categories, value, onChange, categoryId }) => {
+  const options = flattenCategoryTree(categories)
+    .filter(({ category }) => !categoryId || isValidCategoryParent(categoryId, category.id, categories));
+
+  return (
+    <Select value={value || NO_PARENT} onValueChange={selected => onChange(selected === NO_PARENT ? null : selected)}>
+      <SelectTrigger>
+        <SelectValue placeholder="No parent" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_PARENT}>No parent (top level)</SelectItem>
+        {options.map(({ category, depth }) => (
+          <SelectItem key={category.id} value={category.id}>
+            <span style={{ paddingLeft: `${depth * 0.75}rem` }} className="capitalize">{category.icon ? `${category.icon} ` : ''}{category.name}</span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default ParentCategorySelect;
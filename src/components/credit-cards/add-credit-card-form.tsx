@@ -20,6 +20,7 @@ import { popularBanks, type BankInfo } from '@/lib/banks';
 import Image from 'next/image';
 import { Textarea } from '@/components/ui/textarea';
 import type { NewCreditCardData, CreditCard } from '@/services/credit-cards';
+import { DEFAULT_MINIMUM_PAYMENT_PERCENT } from '@/lib/credit-card-statements';
 
 const formSchema = z.object({
   name: z.string().min(2, "Card name must be at least 2 characters").max(100, "Name too long"),
@@ -30,6 +31,7 @@ const formSchema = z.object({
   paymentDueDate: z.date().optional(),
   statementClosingDay: z.coerce.number().int().min(1).max(31).optional(),
   interestRate: z.coerce.number({ invalid_type_error: "Rate must be a number" }).min(0).max(100).optional(),
+  minimumPaymentPercent: z.coerce.number({ invalid_type_error: "Percentage must be a number" }).min(0).max(100).optional(),
   notes: z.string().max(500, "Notes too long").optional(),
 });
 
@@ -53,6 +55,7 @@ const AddCreditCardForm: FC<AddCreditCardFormProps> = ({ onSubmit: passedOnSubmi
         paymentDueDate: initialData.paymentDueDate ? parseISO(initialData.paymentDueDate) : undefined,
         statementClosingDay: initialData.statementClosingDay,
         interestRate: initialData.interestRate,
+        minimumPaymentPercent: initialData.minimumPaymentPercent ?? undefined,
         notes: initialData.notes || "",
     } : {
       name: "",
@@ -63,11 +66,14 @@ const AddCreditCardForm: FC<AddCreditCardFormProps> = ({ onSubmit: passedOnSubmi
       paymentDueDate: undefined,
       statementClosingDay: undefined,
       interestRate: undefined,
+      minimumPaymentPercent: undefined,
       notes: "",
     },
   });
 
   const selectedCurrency = form.watch('currency');
+  // Once a card has its own account, its balance comes from the card's transactions.
+  const isBalanceComputed = !!initialData?.accountId;
 
   const handleFormSubmit = async (data: AddCreditCardFormData) => {
     const cardDataToSave: NewCreditCardData = {
@@ -184,11 +190,15 @@ const AddCreditCardForm: FC<AddCreditCardFormProps> = ({ onSubmit: passedOnSubmi
             name="currentBalance"
             render={({ field }) => (
             <FormItem>
-                <FormLabel>Current Balance ({getCurrencySymbol(selectedCurrency)})</FormLabel>
+                <FormLabel>{isBalanceComputed ? 'Current Balance' : 'Opening Balance'} ({getCurrencySymbol(selectedCurrency)})</FormLabel>
                 <FormControl>
-                <Input type="number" placeholder="-500.00" step="0.01" {...field} value={field.value ?? ''}/>
+                <Input type="number" placeholder="-500.00" step="0.01" {...field} value={field.value ?? ''} disabled={isBalanceComputed}/>
                 </FormControl>
-                <FormDescription>Enter current outstanding balance. Usually negative or zero.</FormDescription>
+                <FormDescription>
+                  {isBalanceComputed
+                    ? 'Calculated from the purchases and payments on this card.'
+                    : 'Outstanding balance when you start tracking this card. Usually negative or zero.'}
+                </FormDescription>
                 <FormMessage />
             </FormItem>
             )}
@@ -236,19 +246,34 @@ const AddCreditCardForm: FC<AddCreditCardFormProps> = ({ onSubmit: passedOnSubmi
             />
         </div>
         
-        <FormField
-            control={form.control}
-            name="interestRate"
-            render={({ field }) => (
-            <FormItem>
-                <FormLabel>Annual Interest Rate (APR %, Optional)</FormLabel>
-                <FormControl>
-                <Input type="number" placeholder="19.99" step="0.01" {...field} value={field.value ?? ''} />
-                </FormControl>
-                <FormMessage />
-            </FormItem>
-            )}
-        />
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <FormField
+                control={form.control}
+                name="interestRate"
+                render={({ field }) => (
+                <FormItem>
+                    <FormLabel>Annual Interest Rate (APR %, Optional)</FormLabel>
+                    <FormControl>
+                    <Input type="number" placeholder="19.99" step="0.01" {...field} value={field.value ?? ''} />
+                    </FormControl>
+                    <FormMessage />
+                </FormItem>
+                )}
+            />
+            <FormField
+                control={form.control}
+                name="minimumPaymentPercent"
+                render={({ field }) => (
+                <FormItem>
+                    <FormLabel>Minimum Payment (% of Statement, Optional)</FormLabel>
+                    <FormControl>
+                    <Input type="number" placeholder={String(DEFAULT_MINIMUM_PAYMENT_PERCENT)} step="0.1" {...field} value={field.value ?? ''} />
+                    </FormControl>
+                    <FormMessage />
+                </FormItem>
+                )}
+            />
+        </div>
 
         <FormField
             control={form.control}
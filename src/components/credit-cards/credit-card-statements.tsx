@@ -0,0 +1,139 @@
+'use client';
+
+import type { FC } from 'react';
+import { useEffect, useMemo, useState } from 'react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { Skeleton } from "@/components/ui/skeleton";
+import { format, parseISO } from 'date-fns';
+import { formatCurrency } from '@/lib/currency';
+import type { CreditCardStatement } from '@/lib/credit-card-statements';
+import type { Account } from '@/services/account-sync';
+import type { Transaction } from '@/services/transactions';
+import { getCreditCardStatements, type CreditCard, type CreditCardPaymentInput } from '@/services/credit-cards';
+import PayStatementForm from './pay-statement-form';
+
+interface CreditCardStatementsProps {
+  card: CreditCard;
+  paymentAccounts: Account[];
+  onPay: (data: CreditCardPaymentInput) => Promise<void> | void;
+  isSaving: boolean;
+}
+
+const CreditCardStatements: FC<CreditCardStatementsProps> = ({ card, paymentAccounts, onPay, isSaving }) => {
+  const [statements, setStatements] = useState<CreditCardStatement<Transaction>[]>([]);
+  const [selectedClosingDate, setSelectedClosingDate] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let isCancelled = false;
+    setIsLoading(true);
+    getCreditCardStatements(card)
+      .then(result => {
+        if (isCancelled) return;
+        setStatements(result);
+        // Default to the latest closed statement, the one that is due next.
+        const latestClosed = result.find(s => s.isClosed);
+        setSelectedClosingDate(prev => prev && result.some(s => s.closingDate === prev) ? prev : (latestClosed || result[0])?.closingDate ?? null);
+      })
+      .catch(error => console.error("Failed to build credit card statements:", error))
+      .finally(() => { if (!isCancelled) setIsLoading(false); });
+    return () => { isCancelled = true; };
+  }, [card]);
+
+  const statement = useMemo(() => statements.find(s => s.closingDate === selectedClosingDate) || null, [statements, selectedClosingDate]);
+  const fmt = (amount: number) => formatCurrency(amount, card.currency, card.currency, false);
+  const fmtDate = (date: string) => format(parseISO(date), 'MMM dd, yyyy');
+
+  if (isLoading) return <Skeleton className="h-60 w-full" />;
+  if (!statement) return <p className="text-sm text-muted-foreground py-6 text-center">No statements yet. Purchases added to the "{card.name}" account will appear here.</p>;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <Select value={statement.closingDate} onValueChange={setSelectedClosingDate}>
+          <SelectTrigger className="w-64">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {statements.map(s => (
+              <SelectItem key={s.closingDate} value={s.closingDate}>
+                {s.isClosed ? `Closed ${fmtDate(s.closingDate)}` : `Current cycle (closes ${fmtDate(s.closingDate)})`}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <span className="text-sm text-muted-foreground">{fmtDate(statement.periodStart)} - {fmtDate(statement.closingDate)}</span>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+        <div><p className="text-muted-foreground">Opening Balance</p><p className="font-semibold">{fmt(statement.openingBalance)}</p></div>
+        <div><p className="text-muted-foreground">Purchases</p><p className="font-semibold text-red-600 dark:text-red-400">{fmt(statement.purchases)}</p></div>
+        <div><p className="text-muted-foreground">Payments & Credits</p><p className="font-semibold text-green-600 dark:text-green-400">{fmt(statement.payments)}</p></div>
+        <div><p className="text-muted-foreground">{statement.isClosed ? 'Statement Balance' : 'Balance So Far'}</p><p className="font-semibold">{fmt(statement.closingBalance)}</p></div>
+        <div><p className="text-muted-foreground">Due Date</p><p className="font-semibold">{fmtDate(statement.dueDate)}</p></div>
+        <div><p className="text-muted-foreground">Amount Due</p><p className="font-semibold">{fmt(statement.amountDue)}</p></div>
+        <div><p className="text-muted-foreground">Minimum Payment</p><p className="font-semibold">{fmt(statement.minimumPayment)}</p></div>
+        <div>
+          <p className="text-muted-foreground">Status</p>
+          {!statement.isClosed ? <Badge variant="outline">Open</Badge>
+            : statement.amountDue <= 0 ? <Badge variant="secondary">Paid</Badge>
+            : <Badge variant="destructive">Due</Badge>}
+        </div>
+      </div>
+
+      <ScrollArea className="h-56 rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Date</TableHead>
+              <TableHead>Description</TableHead>
+              <TableHead>Category</TableHead>
+              <TableHead className="text-right">Amount</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {statement.transactions.length > 0 ? statement.transactions.map(tx => (
+              <TableRow key={tx.id}>
+                <TableCell className="whitespace-nowrap">{fmtDate(tx.date)}</TableCell>
+                <TableCell>{tx.description}</TableCell>
+                <TableCell className="text-muted-foreground">{tx.category}</TableCell>
+                <TableCell className={`text-right ${tx.amount < 0 ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>
+                  {formatCurrency(tx.amount, tx.transactionCurrency, tx.transactionCurrency, false)}
+                </TableCell>
+              </TableRow>
+            )) : (
+              <TableRow>
+                <TableCell colSpan={4} className="text-center text-muted-foreground">No transactions in this period.</TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </ScrollArea>
+
+      {statement.isClosed && statement.amountDue > 0 && (
+        <>
+          <Separator />
+          {paymentAccounts.length > 0 ? (
+            <PayStatementForm
+              key={statement.closingDate}
+              currency={card.currency}
+              amountDue={statement.amountDue}
+              minimumPayment={statement.minimumPayment}
+              accounts={paymentAccounts}
+              onSubmit={onPay}
+              isLoading={isSaving}
+            />
+          ) : (
+            <p className="text-sm text-muted-foreground">Add a checking or savings account to pay this statement from.</p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CreditCardStatements;
@@ -0,0 +1,114 @@
+'use client';
+
+import type { FC } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { format as formatDateFns } from 'date-fns';
+import { formatCurrency, getCurrencySymbol } from '@/lib/currency';
+import type { Account } from '@/services/account-sync';
+import type { CreditCardPaymentInput } from '@/services/credit-cards';
+
+const formSchema = z.object({
+  fromAccountId: z.string().min(1, "Select the account to pay from"),
+  amount: z.coerce.number({ invalid_type_error: "Amount must be a number" }).positive("Amount must be positive"),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Pick a payment date"),
+});
+
+export type PayStatementFormData = z.infer<typeof formSchema>;
+
+interface PayStatementFormProps {
+  currency: string;
+  amountDue: number;
+  minimumPayment: number;
+  accounts: Account[];
+  onSubmit: (data: CreditCardPaymentInput) => Promise<void> | void;
+  isLoading: boolean;
+}
+
+const PayStatementForm: FC<PayStatementFormProps> = ({ currency, amountDue, minimumPayment, accounts, onSubmit: passedOnSubmit, isLoading }) => {
+  const form = useForm<PayStatementFormData>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      fromAccountId: accounts.length === 1 ? accounts[0].id : "",
+      amount: amountDue > 0 ? amountDue : undefined,
+      date: formatDateFns(new Date(), 'yyyy-MM-dd'),
+    },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(data => passedOnSubmit(data))} className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <FormField
+            control={form.control}
+            name="fromAccountId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Pay From</FormLabel>
+                <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select account" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {accounts.map(acc => (
+                      <SelectItem key={acc.id} value={acc.id}>
+                        {acc.name} ({acc.currency})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="amount"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Amount ({getCurrencySymbol(currency)})</FormLabel>
+                <FormControl>
+                  <Input type="number" step="0.01" {...field} value={field.value ?? ''} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="date"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Date</FormLabel>
+                <FormControl>
+                  <Input type="date" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button type="button" variant="outline" size="sm" onClick={() => form.setValue('amount', minimumPayment, { shouldValidate: true })} disabled={minimumPayment <= 0}>
+            Minimum ({formatCurrency(minimumPayment, currency, currency, false)})
+          </Button>
+          <Button type="button" variant="outline" size="sm" onClick={() => form.setValue('amount', amountDue, { shouldValidate: true })} disabled={amountDue <= 0}>
+            Full Statement ({formatCurrency(amountDue, currency, currency, false)})
+          </Button>
+          <Button type="submit" size="sm" className="ml-auto" disabled={isLoading}>
+            {isLoading ? "Paying..." : "Pay Statement"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+};
+
+export default PayStatementForm;
@@ -0,0 +1,72 @@
+'use client';
+
+import type { FC } from 'react';
+import { ComposedChart, Area, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { format as formatDateFns, parseISO } from 'date-fns';
+import { ChartConfig, ChartContainer, ChartTooltipContent, ChartLegend, ChartLegendContent } from '@/components/ui/chart';
+import { formatCurrency, getCurrencySymbol } from '@/lib/currency';
+import type { NetWorthGranularity, NetWorthHistoryPoint } from '@/lib/net-worth-history';
+
+interface NetWorthHistoryChartProps {
+  data: NetWorthHistoryPoint[];
+  currency: string;
+  granularity: NetWorthGranularity;
+}
+
+const chartConfig = {
+  assets: { label: "Assets", color: "hsl(var(--chart-1))" },
+  crypto: { label: "Crypto", color: "hsl(var(--chart-2))" },
+  liabilities: { label: "Liabilities", color: "hsl(var(--chart-5))" },
+  netWorth: { label: "Net Worth", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const NetWorthHistoryChart: FC<NetWorthHistoryChartProps> = ({ data, currency, granularity }) => {
+  if (!data || data.length === 0) {
+    return <div className="flex h-full items-center justify-center text-muted-foreground">No history available for the selected period.</div>;
+  }
+
+  const formatDateLabel = (value: string) => formatDateFns(parseISO(value), granularity === 'month' ? 'MMM yyyy' : 'MMM d');
+  const yAxisTickFormatter = (value: number) => {
+    const symbol = getCurrencySymbol(currency);
+    if (Math.abs(value) >= 1000000) return `${symbol}${(value / 1000000).toFixed(1)}M`;
+    if (Math.abs(value) >= 1000) return `${symbol}${(value / 1000).toFixed(0)}k`;
+    return `${symbol}${value.toFixed(0)}`;
+  };
+  // Liabilities are drawn below zero so the areas read as what is owned versus owed.
+  const chartData = data.map(point => ({ ...point, liabilities: -point.liabilities }));
+
+  return (
+    <ChartContainer config={chartConfig} className="h-full w-full">
+      <ResponsiveContainer>
+        <ComposedChart data={chartData} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="hsl(var(--border))" />
+          <XAxis dataKey="date" tickLine={false} axisLine={false} tickMargin={8} minTickGap={24} tickFormatter={formatDateLabel} className="text-xs fill-muted-foreground" />
+          <YAxis tickLine={false} axisLine={false} tickMargin={8} tickFormatter={yAxisTickFormatter} className="text-xs fill-muted-foreground" />
+          <Tooltip
+            content={
+              <ChartTooltipContent
+                indicator="line"
+                labelFormatter={(_, payload) => payload?.[0]?.payload?.date ? formatDateFns(parseISO(payload[0].payload.date), 'MMM d, yyyy') : ''}
+                formatter={(value, name) => (
+                  <div className="flex items-center">
+                    <span className="w-2.5 h-2.5 rounded-full mr-2" style={{ backgroundColor: chartConfig[name as keyof typeof chartConfig]?.color }} />
+                    <span>
+                      {chartConfig[name as keyof typeof chartConfig]?.label || name}: {formatCurrency(Math.abs(Number(value)), currency, currency, false)}
+                    </span>
+                  </div>
+                )}
+              />
+            }
+          />
+          <ChartLegend content={<ChartLegendContent />} />
+          <Area dataKey="assets" type="monotone" stackId="owned" stroke="var(--color-assets)" fill="var(--color-assets)" fillOpacity={0.3} />
+          <Area dataKey="crypto" type="monotone" stackId="owned" stroke="var(--color-crypto)" fill="var(--color-crypto)" fillOpacity={0.3} />
+          <Area dataKey="liabilities" type="monotone" stroke="var(--color-liabilities)" fill="var(--color-liabilities)" fillOpacity={0.3} />
+          <Line dataKey="netWorth" type="monotone" stroke="var(--color-netWorth)" strokeWidth={2} dot={false} />
+        </ComposedChart>
+      </ResponsiveContainer>
+    </ChartContainer>
+  );
+};
+
+export default NetWorthHistoryChart;
@@ -8,7 +8,10 @@ import {
   ChartTooltip,
   ChartTooltipContent,
 } from '@/components/ui/chart';
-import type { FC } from 'react';
+import { useMemo, useState, type FC } from 'react';
+import { ChevronRight } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { getCategoryAncestors, rollUpCategoryAmounts, type TreeCategory } from '@/lib/category-tree';
 
 const formatChartCurrency = (value: number, currencyCode: string) => {
    try {
@@ -35,8 +38,14 @@ const formatChartCurrency = (value: number, currencyCode: string) => {
 interface SpendingChartProps {
   data: Array<{ category: string; amount: number }>;
   currency: string;
+  // When given, amounts roll up to top-level categories and clicking a bar drills into its subcategories
+  categories?: TreeCategory[];
 }
 
+type ChartItem = { category: string; amount: number; categoryId?: string | null; hasChildren?: boolean };
+
+const capitalize = (name: string) => name.charAt(0).toUpperCase() + name.slice(1);
+
 // Define an array of colors using CSS variables from the theme
 const BAR_COLORS = [
   "hsl(var(--chart-1))",
@@ -46,7 +55,31 @@ const BAR_COLORS = [
   "hsl(var(--chart-5))",
 ];
 
-const SpendingChart: FC<SpendingChartProps> = ({ data, currency }) => {
+const SpendingChart: FC<SpendingChartProps> = ({ data: leafData, currency, categories }) => {
+  const [drillParentId, setDrillParentId] = useState<string | null>(null);
+
+  const data: ChartItem[] = useMemo(() => {
+    if (!categories || categories.length === 0) return leafData;
+    const amounts = new Map<string, number>();
+    leafData.forEach(item => amounts.set(item.category, (amounts.get(item.category) || 0) + item.amount));
+    return rollUpCategoryAmounts(amounts, categories, drillParentId).map(row => ({
+      category: capitalize(row.name),
+      amount: row.amount,
+      categoryId: row.categoryId,
+      hasChildren: row.hasChildren,
+    }));
+  }, [leafData, categories, drillParentId]);
+
+  const drillPath = useMemo(() => {
+    if (!categories || !drillParentId) return [];
+    const parent = categories.find(category => category.id === drillParentId);
+    return parent ? [...getCategoryAncestors(drillParentId, categories), parent] : [];
+  }, [categories, drillParentId]);
+
+  const handleBarClick = (item: ChartItem) => {
+    if (item.hasChildren && item.categoryId) setDrillParentId(item.categoryId);
+  };
+
   // Create a dynamic chartConfig based on the data categories and BAR_COLORS
   const chartConfig = data.reduce((acc, item, index) => {
     acc[item.category] = {
@@ -64,15 +97,36 @@ const SpendingChart: FC<SpendingChartProps> = ({ data, currency }) => {
    };
 
 
+  const breadcrumb = drillPath.length > 0 && (
+    <div className="flex flex-wrap items-center gap-1 text-sm">
+      <Button variant="link" size="sm" className="h-auto p-0" onClick={() => setDrillParentId(null)}>All categories</Button>
+      {drillPath.map((category, index) => (
+        <span key={category.id} className="flex items-center gap-1">
+          <ChevronRight className="h-3 w-3 text-muted-foreground" />
+          {index < drillPath.length - 1 ? (
+            <Button variant="link" size="sm" className="h-auto p-0" onClick={() => setDrillParentId(category.id)}>{capitalize(category.name)}</Button>
+          ) : (
+            <span className="font-medium">{capitalize(category.name)}</span>
+          )}
+        </span>
+      ))}
+    </div>
+  );
+
   if (!data || data.length === 0) {
     return (
-        <div className="flex h-full items-center justify-center text-muted-foreground">
-            No spending data available.
+        <div className="flex h-full flex-col">
+            {breadcrumb}
+            <div className="flex flex-1 items-center justify-center text-muted-foreground">
+                No spending data available.
+            </div>
         </div>
     )
   }
   return (
-    <ChartContainer config={chartConfig} className="h-full w-full">
+    <div className="flex h-full flex-col gap-2">
+    {breadcrumb}
+    <ChartContainer config={chartConfig} className="min-h-0 w-full flex-1">
       <BarChart
         accessibilityLayer
         data={data}
@@ -126,13 +180,17 @@ const SpendingChart: FC<SpendingChartProps> = ({ data, currency }) => {
                 indicator="dot" // This might be overridden by custom formatter styling
             />}
         />
-        <Bar dataKey="amount" radius={4}>
+        <Bar dataKey="amount" radius={4} onClick={(entry) => handleBarClick(entry.payload as ChartItem)}>
           {data.map((entry, index) => (
-            <Cell key={`cell-${index}`} fill={BAR_COLORS[index % BAR_COLORS.length]} />
+            <Cell key={`cell-${index}`} fill={BAR_COLORS[index % BAR_COLORS.length]} className={entry.hasChildren ? 'cursor-pointer' : undefined} />
           ))}
         </Bar>
       </BarChart>
     </ChartContainer>
+    {data.some(item => item.hasChildren) && (
+      <p className="text-center text-xs text-muted-foreground">Click a category with subcategories to drill down.</p>
+    )}
+    </div>
   );
 };
 
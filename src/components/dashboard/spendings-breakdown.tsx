@@ -1,7 +1,8 @@
 
 'use client';
 
-import type { FC, ReactNode } from 'react';
+import { useState, type FC, type ReactNode } from 'react';
+import { ChevronDown, ChevronRight } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { formatCurrency as formatCurrencyUtil, getCurrencySymbol } from '@/lib/currency';
 
@@ -10,6 +11,7 @@ interface SpendingItem {
   amount: number;
   icon: ReactNode;
   bgColor: string;
+  children?: SpendingItem[]; // Subcategory amounts, shown when the item is expanded
 }
 
 interface SpendingsBreakdownProps {
@@ -18,7 +20,27 @@ interface SpendingsBreakdownProps {
   currency: string; // Expecting ISO currency code like "USD", "EUR", "BRL"
 }
 
+const formatAmount = (amount: number, currency: string) => {
+  try {
+    // Format amount with the explicit currency symbol
+    return formatCurrencyUtil(amount, currency, currency, false);
+  } catch (error) {
+    console.error("Error formatting currency in SpendingsBreakdown:", error);
+    return `${getCurrencySymbol(currency)} ${amount.toFixed(0)}`; // Fallback with symbol
+  }
+};
+
 const SpendingsBreakdown: FC<SpendingsBreakdownProps> = ({ title, data, currency }) => {
+  const [expandedItems, setExpandedItems] = useState<Set<string>>(new Set());
+
+  const toggleItem = (name: string) => {
+    setExpandedItems(prev => {
+      const next = new Set(prev);
+      if (next.has(name)) next.delete(name); else next.add(name);
+      return next;
+    });
+  };
+
   return (
     <Card className="shadow-lg bg-card text-card-foreground h-full">
       <CardHeader className="pb-2"> {/* Reduced pb from 4 to 2 */}
@@ -27,26 +49,36 @@ const SpendingsBreakdown: FC<SpendingsBreakdownProps> = ({ title, data, currency
       <CardContent className="pt-2"> {/* Reduced pt from default p-6 (via CardContent default) or specific value to pt-2 */}
         <ul className="space-y-3"> {/* Reduced space-y from 4 to 3 */}
           {data.map((item) => {
-            let formattedAmount;
-            try {
-                // Format amount with the explicit currency symbol
-                formattedAmount = formatCurrencyUtil(item.amount, currency, currency, false);
-
-            } catch (error) {
-                console.error("Error formatting currency in SpendingsBreakdown:", error);
-                formattedAmount = `${getCurrencySymbol(currency)} ${item.amount.toFixed(0)}`; // Fallback with symbol
-            }
-
+            const hasChildren = !!item.children && item.children.length > 0;
+            const isExpanded = expandedItems.has(item.name);
 
             return (
-              <li key={item.name} className="flex items-center justify-between">
-                <div className="flex items-center gap-2"> {/* Reduced gap from 3 to 2 */}
-                  <div className={`p-2 rounded-md ${item.bgColor}`}> {/* Reduced p from 2.5 to 2, rounded-lg to rounded-md */}
-                    {item.icon}
+              <li key={item.name} className="space-y-2">
+                <div
+                  className={`flex items-center justify-between ${hasChildren ? 'cursor-pointer' : ''}`}
+                  onClick={hasChildren ? () => toggleItem(item.name) : undefined}
+                >
+                  <div className="flex items-center gap-2"> {/* Reduced gap from 3 to 2 */}
+                    <div className={`p-2 rounded-md ${item.bgColor}`}> {/* Reduced p from 2.5 to 2, rounded-lg to rounded-md */}
+                      {item.icon}
+                    </div>
+                    <span className="text-xs font-medium">{item.name}</span> {/* text-sm to text-xs */}
+                    {hasChildren && (isExpanded
+                      ? <ChevronDown className="h-3 w-3 text-muted-foreground" />
+                      : <ChevronRight className="h-3 w-3 text-muted-foreground" />)}
                   </div>
-                  <span className="text-xs font-medium">{item.name}</span> {/* text-sm to text-xs */}
+                  <span className="text-xs font-semibold">{formatAmount(item.amount, currency)}</span> {/* text-sm to text-xs */}
                 </div>
-                <span className="text-xs font-semibold">{formattedAmount}</span> {/* text-sm to text-xs */}
+                {hasChildren && isExpanded && (
+                  <ul className="space-y-1 pl-10">
+                    {item.children!.map(child => (
+                      <li key={child.name} className="flex items-center justify-between text-xs text-muted-foreground">
+                        <span>{child.name}</span>
+                        <span>{formatAmount(child.amount, currency)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
               </li>
             );
           })}
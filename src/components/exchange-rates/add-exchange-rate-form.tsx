@@ -0,0 +1,118 @@
+'use client';
+
+import type { FC } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { format as formatDateFns } from 'date-fns';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage, FormDescription } from "@/components/ui/form";
+import { supportedCurrencies, getCurrencySymbol } from '@/lib/currency';
+
+const formSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date is required"),
+  baseCurrency: z.string().min(3, "Base currency is required"),
+  quoteCurrency: z.string().min(3, "Quote currency is required"),
+  rate: z.coerce.number({ invalid_type_error: "Rate must be a number" }).positive("Rate must be positive"),
+}).refine(data => data.baseCurrency !== data.quoteCurrency, {
+  message: "Base and quote currencies must differ.",
+  path: ['quoteCurrency'],
+});
+
+export type AddExchangeRateFormData = z.infer<typeof formSchema>;
+
+interface AddExchangeRateFormProps {
+  onRateAdded: (data: AddExchangeRateFormData) => Promise<void> | void;
+  isLoading: boolean;
+  defaultQuoteCurrency?: string;
+}
+
+const AddExchangeRateForm: FC<AddExchangeRateFormProps> = ({ onRateAdded, isLoading, defaultQuoteCurrency = 'BRL' }) => {
+  const form = useForm<AddExchangeRateFormData>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      date: formatDateFns(new Date(), 'yyyy-MM-dd'),
+      baseCurrency: defaultQuoteCurrency === 'USD' ? 'EUR' : 'USD',
+      quoteCurrency: defaultQuoteCurrency,
+      rate: undefined,
+    },
+  });
+
+  const baseCurrency = form.watch('baseCurrency');
+  const quoteCurrency = form.watch('quoteCurrency');
+
+  async function onSubmit(values: AddExchangeRateFormData) {
+    await onRateAdded(values);
+    form.reset({ ...values, rate: undefined });
+  }
+
+  const renderCurrencySelect = (name: 'baseCurrency' | 'quoteCurrency', label: string) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <Select onValueChange={field.onChange} value={field.value}>
+            <FormControl>
+              <SelectTrigger>
+                <SelectValue placeholder="Select currency" />
+              </SelectTrigger>
+            </FormControl>
+            <SelectContent>
+              {supportedCurrencies.map(curr => (
+                <SelectItem key={curr} value={curr}>
+                  {curr} ({getCurrencySymbol(curr)})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+        <FormField
+          control={form.control}
+          name="date"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Effective Date</FormLabel>
+              <FormControl>
+                <Input type="date" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        {renderCurrencySelect('baseCurrency', 'Base')}
+        {renderCurrencySelect('quoteCurrency', 'Quote')}
+        <FormField
+          control={form.control}
+          name="rate"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Rate</FormLabel>
+              <FormControl>
+                <Input type="number" step="0.000001" placeholder="e.g., 5.25" {...field} value={field.value || ''} />
+              </FormControl>
+              <FormDescription>1 {baseCurrency} = ? {quoteCurrency}</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" disabled={isLoading}>
+          {isLoading ? "Saving..." : "Add Rate"}
+        </Button>
+      </form>
+    </Form>
+  );
+};
+
+export default AddExchangeRateForm;
@@ -0,0 +1,206 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import type { FC } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Trash2 } from 'lucide-react';
+import { useToast } from "@/hooks/use-toast";
+import { supportedCurrencies } from '@/lib/currency';
+import { parseExchangeRateFile } from '@/lib/exchange-rate-import';
+import { addExchangeRate, addExchangeRates, deleteExchangeRate, loadHistoricalExchangeRates, type ExchangeRate } from '@/services/exchange-rates';
+import AddExchangeRateForm, { type AddExchangeRateFormData } from './add-exchange-rate-form';
+
+const RATES_SHOWN = 50;
+
+interface ExchangeRatesManagerProps {
+  preferredCurrency: string;
+}
+
+const ExchangeRatesManager: FC<ExchangeRatesManagerProps> = ({ preferredCurrency }) => {
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [importBaseCurrency, setImportBaseCurrency] = useState('EUR');
+  const [pairFilter, setPairFilter] = useState('all');
+  const { toast } = useToast();
+
+  const fetchRates = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setRates(await loadHistoricalExchangeRates());
+    } catch (error: any) {
+      console.error("Failed to load exchange rates:", error);
+      toast({ title: "Error", description: error.message || "Could not load exchange rates.", variant: "destructive" });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchRates();
+  }, [fetchRates]);
+
+  const pairs = useMemo(() => {
+    return Array.from(new Set(rates.map(r => `${r.baseCurrency}/${r.quoteCurrency}`))).sort();
+  }, [rates]);
+
+  const visibleRates = useMemo(() => {
+    const filtered = pairFilter === 'all' ? rates : rates.filter(r => `${r.baseCurrency}/${r.quoteCurrency}` === pairFilter);
+    return filtered.slice(0, RATES_SHOWN);
+  }, [rates, pairFilter]);
+
+  const handleRateAdded = async (data: AddExchangeRateFormData) => {
+    setIsSaving(true);
+    try {
+      await addExchangeRate({ ...data, source: 'manual' });
+      toast({ title: "Rate Saved", description: `1 ${data.baseCurrency} = ${data.rate} ${data.quoteCurrency} from ${data.date}.` });
+      await fetchRates();
+      window.dispatchEvent(new Event('storage'));
+    } catch (error: any) {
+      console.error("Failed to add exchange rate:", error);
+      toast({ title: "Error", description: error.message || "Could not save the rate.", variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setIsSaving(true);
+    try {
+      const content = await file.text();
+      const { rates: parsedRates, errors } = parseExchangeRateFile(file.name, content, importBaseCurrency);
+      if (parsedRates.length === 0) {
+        throw new Error(errors[0] || "The file did not contain any rates.");
+      }
+      const source = file.name.toLowerCase().endsWith('.xml') ? 'ecb-xml' : 'csv';
+      await addExchangeRates(parsedRates.map(rate => ({ ...rate, source })));
+      toast({
+        title: "Rates Imported",
+        description: `${parsedRates.length} rate(s) imported from ${file.name}.${errors.length ? ` ${errors.length} row(s) skipped.` : ''}`,
+      });
+      if (errors.length) console.warn("Exchange rate import issues:", errors);
+      await fetchRates();
+      window.dispatchEvent(new Event('storage'));
+    } catch (error: any) {
+      console.error("Failed to import exchange rates:", error);
+      toast({ title: "Import Failed", description: error.message || "Could not import the rate file.", variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (rate: ExchangeRate) => {
+    setIsSaving(true);
+    try {
+      await deleteExchangeRate(rate.id);
+      await fetchRates();
+      window.dispatchEvent(new Event('storage'));
+    } catch (error: any) {
+      console.error("Failed to delete exchange rate:", error);
+      toast({ title: "Error", description: error.message || "Could not delete the rate.", variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Exchange Rates</CardTitle>
+        <CardDescription>
+          Dated rates used to value transactions at the rate effective on their date. Enter rates manually or import a CSV or ECB XML rate file.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <AddExchangeRateForm onRateAdded={handleRateAdded} isLoading={isSaving} defaultQuoteCurrency={preferredCurrency} />
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="exchange-rate-file">Import Rate File</Label>
+            <Input id="exchange-rate-file" type="file" accept=".csv,.xml,text/csv,text/xml,application/xml" onChange={handleFileChange} disabled={isSaving} />
+            <p className="text-sm text-muted-foreground">
+              CSV with <code>date,base,quote,rate</code> columns, a wide CSV like the ECB history (<code>Date,USD,JPY,...</code>), or ECB <code>eurofxref</code> XML.
+            </p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="import-base-currency">Base for wide CSV</Label>
+            <Select value={importBaseCurrency} onValueChange={setImportBaseCurrency} disabled={isSaving}>
+              <SelectTrigger id="import-base-currency">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {supportedCurrencies.map(curr => (
+                  <SelectItem key={curr} value={curr}>{curr}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex justify-between items-center">
+            <p className="text-sm text-muted-foreground">
+              {rates.length} stored rate(s){rates.length > RATES_SHOWN ? `, showing the latest ${RATES_SHOWN}` : ''}.
+            </p>
+            <Select value={pairFilter} onValueChange={setPairFilter}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All pairs</SelectItem>
+                {pairs.map(pair => (
+                  <SelectItem key={pair} value={pair}>{pair}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {isLoading ? (
+            <Skeleton className="h-24 w-full" />
+          ) : visibleRates.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Pair</TableHead>
+                  <TableHead className="text-right">Rate</TableHead>
+                  <TableHead>Source</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleRates.map(rate => (
+                  <TableRow key={rate.id}>
+                    <TableCell className="whitespace-nowrap">{rate.date}</TableCell>
+                    <TableCell>{rate.baseCurrency}/{rate.quoteCurrency}</TableCell>
+                    <TableCell className="text-right font-mono">{rate.rate}</TableCell>
+                    <TableCell className="text-muted-foreground">{rate.source}</TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => handleDelete(rate)} disabled={isSaving}>
+                        <span className="sr-only">Delete rate</span>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="text-center text-muted-foreground py-6">No exchange rates stored yet.</p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ExchangeRatesManager;
@@ -0,0 +1,34 @@
+'use client';
+
+import type { FC } from 'react';
+import Link from 'next/link';
+import { AlertCircle } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import type { MissingExchangeRate } from '@/lib/currency';
+
+interface MissingRatesAlertProps {
+  missingRates: MissingExchangeRate[];
+  maxListed?: number;
+}
+
+const MissingRatesAlert: FC<MissingRatesAlertProps> = ({ missingRates, maxListed = 5 }) => {
+  if (missingRates.length === 0) return null;
+
+  const pairs = Array.from(new Set(missingRates.map(r => `${r.sourceCurrency} → ${r.targetCurrency}`)));
+  const earliest = missingRates[0]?.date;
+  const latest = missingRates[missingRates.length - 1]?.date;
+
+  return (
+    <Alert variant="destructive" className="mb-4">
+      <AlertCircle className="h-4 w-4" />
+      <AlertTitle>Missing exchange rates</AlertTitle>
+      <AlertDescription>
+        No stored rate was effective for {pairs.slice(0, maxListed).join(', ')}{pairs.length > maxListed ? ` and ${pairs.length - maxListed} more` : ''}
+        {earliest && latest ? ` between ${earliest} and ${latest}` : ''}. Those amounts are shown at the static fallback rate.{' '}
+        <Link href="/preferences" className="underline">Add or import rates</Link> to value them correctly.
+      </AlertDescription>
+    </Alert>
+  );
+};
+
+export default MissingRatesAlert;
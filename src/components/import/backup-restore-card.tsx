@@ -0,0 +1,174 @@
+'use client';
+
+import type { FC } from 'react';
+import { useState } from 'react';
+import { format as formatDateFns } from 'date-fns';
+import { Download, Upload } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { downloadFile } from '@/lib/utils';
+import { exportBackup, parseBackupArchive, restoreBackup, summarizeBackup, type BackupArchive, type BackupSummary, type RestoreMode } from '@/services/backup';
+
+const COLLECTION_LABELS: Record<string, string> = {
+  accounts: 'accounts',
+  transactions: 'transactions',
+  categories: 'categories',
+  tags: 'tags',
+  groups: 'groups',
+  subscriptions: 'subscriptions',
+  budgets: 'budgets',
+  loans: 'loans',
+  creditCards: 'credit cards',
+  transfers: 'transfers',
+  exchangeRates: 'exchange rates',
+  categorizationRules: 'categorization rules',
+  importProfiles: 'import profiles',
+  transactionViews: 'saved views',
+  securities: 'securities',
+  investmentEvents: 'investment events',
+  securityPrices: 'security prices',
+};
+
+export function describeBackupSummary(summary: BackupSummary): string {
+  const parts = Object.entries(summary)
+    .filter(([, count]) => count && count > 0)
+    .map(([collection, count]) => `${count} ${COLLECTION_LABELS[collection] || collection}`);
+  return parts.length > 0 ? parts.join(', ') : 'no records';
+}
+
+/** Exports the signed-in user's data and saves it as a dated JSON file. */
+export async function downloadBackup(): Promise<BackupSummary> {
+  const archive = await exportBackup();
+  downloadFile(JSON.stringify(archive, null, 2), `backup-${formatDateFns(new Date(), 'yyyy-MM-dd')}.json`, 'application/json');
+  return summarizeBackup(archive.data);
+}
+
+const BackupRestoreCard: FC = () => {
+  const { toast } = useToast();
+  const [isExporting, setIsExporting] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [archive, setArchive] = useState<BackupArchive | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [isConfirmOpen, setIsConfirmOpen] = useState(false);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const summary = await downloadBackup();
+      toast({ title: "Backup Downloaded", description: `Exported ${describeBackupSummary(summary)}.` });
+    } catch (error: any) {
+      console.error("Failed to export backup:", error);
+      toast({ title: "Error", description: `Could not export a backup: ${error.message}`, variant: "destructive" });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    setArchive(null);
+    setFileError(null);
+    const file = event.target.files?.[0];
+    if (!file) return;
+    try {
+      setArchive(parseBackupArchive(await file.text()));
+    } catch (error: any) {
+      setFileError(error.message);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!archive) return;
+    setIsRestoring(true);
+    try {
+      const summary = await restoreBackup(archive, mode);
+      toast({ title: "Backup Restored", description: `Restored ${describeBackupSummary(summary)}.` });
+      setArchive(null);
+      const fileInput = document.getElementById('backup-file') as HTMLInputElement | null;
+      if (fileInput) fileInput.value = '';
+      window.dispatchEvent(new Event('storage'));
+    } catch (error: any) {
+      console.error("Failed to restore backup:", error);
+      toast({ title: "Error", description: `Could not restore the backup: ${error.message}`, variant: "destructive" });
+    } finally {
+      setIsRestoring(false);
+      setIsConfirmOpen(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Backup & Restore</CardTitle>
+        <CardDescription>
+          Download all your data (accounts, transactions, categories, tags, groups, subscriptions, budgets, loans, credit cards and preferences) as a JSON file, or restore one.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Button variant="outline" onClick={handleExport} disabled={isExporting || isRestoring}>
+          <Download className="mr-2 h-4 w-4" />
+          {isExporting ? "Exporting..." : "Download Backup"}
+        </Button>
+
+        <div className="space-y-4">
+          <div className="grid w-full max-w-sm items-center gap-1.5">
+            <Label htmlFor="backup-file">Restore from a backup file</Label>
+            <Input id="backup-file" type="file" accept=".json,application/json" onChange={handleFileChange} disabled={isRestoring} />
+            {fileError && <p className="text-sm text-destructive">{fileError}</p>}
+            {archive && (
+              <p className="text-sm text-muted-foreground">
+                Backup from {formatDateFns(new Date(archive.exportedAt), 'PPP p')}: {describeBackupSummary(summarizeBackup(archive.data))}.
+              </p>
+            )}
+          </div>
+
+          <RadioGroup value={mode} onValueChange={(value) => setMode(value as RestoreMode)} className="space-y-1">
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="merge" id="restore-merge" />
+              <Label htmlFor="restore-merge" className="font-normal">Merge: add the backup next to your current data</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="replace" id="restore-replace" />
+              <Label htmlFor="restore-replace" className="font-normal">Replace: delete your current data and restore the backup</Label>
+            </div>
+          </RadioGroup>
+
+          <Button onClick={() => setIsConfirmOpen(true)} disabled={!archive || isRestoring}>
+            <Upload className="mr-2 h-4 w-4" />
+            {isRestoring ? "Restoring..." : "Restore Backup"}
+          </Button>
+        </div>
+      </CardContent>
+
+      <AlertDialog open={isConfirmOpen} onOpenChange={setIsConfirmOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{mode === 'replace' ? "Replace all your data?" : "Merge this backup?"}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {mode === 'replace'
+                ? "Everything currently stored will be deleted and replaced with the backup. Download a backup of your current data first if you may need it."
+                : "The backup's accounts and transactions will be added next to your current ones. Categories and tags with the same name are reused."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isRestoring}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(event) => { event.preventDefault(); handleRestore(); }}
+              disabled={isRestoring}
+              className={mode === 'replace' ? "bg-destructive hover:bg-destructive/90" : undefined}
+            >
+              {isRestoring ? "Restoring..." : mode === 'replace' ? "Yes, Replace My Data" : "Merge Backup"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
+
+export default BackupRestoreCard;
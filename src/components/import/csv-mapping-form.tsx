@@ -2,57 +2,114 @@
 
 import React, { useState } from 'react';
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Separator } from "@/components/ui/separator";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { AlertCircle } from 'lucide-react';
+import { AlertCircle, Trash2 } from 'lucide-react';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import type { Account } from '@/services/account-sync';
+import {
+    CSV_DATE_FORMATS,
+    CSV_ENCODINGS,
+    DEFAULT_CSV_IMPORT_SETTINGS,
+    type AmountSignConvention,
+    type ColumnMapping,
+    type CsvDecimalSeparator,
+    type CsvEncoding,
+    type CsvImportField,
+    type CsvImportProfile,
+    type CsvImportSettings,
+} from '@/lib/csv-import-profiles';
+import { isValidDateFormatPattern } from '@/lib/csv-parsing';
+
+export type { ColumnMapping } from '@/lib/csv-import-profiles';
 
 // Define the essential application fields the user needs to map to
-const APP_FIELDS = [
-    { value: 'date', label: 'Date *', required: true, description: "Transaction date (e.g., Firefly: 'date')." },
-    { value: 'amount', label: 'Amount *', required: true, description: "Primary transaction value (e.g., Firefly: 'amount'). Sign (+/-) is important. For transfers, this is the value moved." },
-    // amount_income and amount_expense are less common in standard Firefly CSVs where 'amount' is signed.
-    // { value: 'amount_income', label: 'Income Amount', required: false, description: "Separate positive column for income." },
-    // { value: 'amount_expense', label: 'Expense Amount', required: false, description: "Separate positive column for expense." },
-    { value: 'description', label: 'Description', required: false, description: "Transaction details (e.g., Firefly: 'description')." },
+const APP_FIELDS: { value: CsvImportField; label: string; description: string }[] = [
+    { value: 'date', label: 'Date', description: "Transaction date (e.g., Firefly: 'date')." },
+    { value: 'amount', label: 'Amount', description: "Primary transaction value (e.g., Firefly: 'amount'). Sign (+/-) is important. For transfers, this is the value moved." },
+    { value: 'debit_amount', label: 'Debit Amount', description: "Money leaving the account, for statements with separate debit and credit columns." },
+    { value: 'credit_amount', label: 'Credit Amount', description: "Money entering the account, for statements with separate debit and credit columns." },
+    { value: 'description', label: 'Description', description: "Transaction details (e.g., Firefly: 'description')." },
 
     // Firefly III specific account fields:
-    { value: 'source_name', label: 'Source Account/Name *', required: true, description: "For Withdrawals/Transfers: your asset account. For Deposits: the payer/source (e.g., Firefly: 'source_name')." },
-    { value: 'destination_name', label: 'Destination Account/Name *', required: true, description: "For Deposits/Transfers: your asset account. For Withdrawals: the payee/recipient (e.g., Firefly: 'destination_name')." },
-    { value: 'source_type', label: 'Source Account Type', required: false, description: "Type of source (e.g., Asset account, Revenue account from Firefly: 'source_type'). Helps identify asset accounts." },
-    { value: 'destination_type', label: 'Destination Account Type', required: false, description: "Type of destination (e.g., Asset account, Expense account from Firefly: 'destination_type'). Helps identify asset accounts." },
-    
-    { value: 'category', label: 'Category', required: false, description: "Transaction category (e.g., Firefly: 'category')." },
-    { value: 'currency_code', label: 'Currency Code *', required: true, description: "e.g., BRL, USD, EUR (e.g., Firefly: 'currency_code'). Essential for correct amounts." },
-    // { value: 'foreign_currency_code', label: 'Foreign Currency Code', required: false, description: "Firefly: 'foreign_currency_code'." },
-    // { value: 'foreign_amount', label: 'Foreign Amount', required: false, description: "Firefly: 'foreign_amount'." },
-    { value: 'tags', label: 'Tags (comma-separated)', required: false, description: "Transaction tags (e.g., Firefly: 'tags')." },
-    { value: 'notes', label: 'Notes/Memo', required: false, description: "Additional notes (e.g., Firefly: 'notes')." },
-    { value: 'transaction_type', label: 'Transaction Type *', required: true, description: "Crucial for import logic. e.g., Withdrawal, Deposit, Transfer, Opening balance (e.g., Firefly: 'type')." }
-] as const;
+    { value: 'source_name', label: 'Source Account/Name', description: "For Withdrawals/Transfers: your asset account. For Deposits: the payer/source (e.g., Firefly: 'source_name')." },
+    { value: 'destination_name', label: 'Destination Account/Name', description: "For Deposits/Transfers: your asset account. For Withdrawals: the payee/recipient (e.g., Firefly: 'destination_name')." },
+    { value: 'source_type', label: 'Source Account Type', description: "Type of source (e.g., Asset account, Revenue account from Firefly: 'source_type'). Helps identify asset accounts." },
+    { value: 'destination_type', label: 'Destination Account Type', description: "Type of destination (e.g., Asset account, Expense account from Firefly: 'destination_type'). Helps identify asset accounts." },
+
+    { value: 'category', label: 'Category', description: "Transaction category (e.g., Firefly: 'category')." },
+    { value: 'currency_code', label: 'Currency Code', description: "e.g., BRL, USD, EUR (e.g., Firefly: 'currency_code'). Essential for correct amounts." },
+    { value: 'tags', label: 'Tags (comma-separated)', description: "Transaction tags (e.g., Firefly: 'tags')." },
+    { value: 'notes', label: 'Notes/Memo', description: "Additional notes (e.g., Firefly: 'notes')." },
+    { value: 'transaction_type', label: 'Transaction Type', description: "Crucial for import logic. e.g., Withdrawal, Deposit, Transfer, Opening balance (e.g., Firefly: 'type')." }
+];
 
+const SIGN_CONVENTION_OPTIONS: { value: AmountSignConvention; label: string }[] = [
+    { value: 'signed', label: 'Signed amount (negative = expense)' },
+    { value: 'inverted', label: 'Inverted amount (positive = expense)' },
+    { value: 'debit-credit', label: 'Separate debit and credit columns' },
+];
 
-type AppFieldType = typeof APP_FIELDS[number]['value'];
+/**
+ * Fields that must be mapped for the chosen settings. With a default account, rows without type and
+ * account columns are imported into that account, in its currency.
+ */
+function getRequiredFields(settings: CsvImportSettings): CsvImportField[] {
+    const required: CsvImportField[] = ['date'];
+    if (settings.signConvention !== 'debit-credit') required.push('amount');
+    if (!settings.defaultAccountId) required.push('transaction_type', 'source_name', 'destination_name', 'currency_code');
+    return required;
+}
 
-export type ColumnMapping = Partial<Record<AppFieldType, string>>;
+export interface ProfileSaveRequest {
+    name: string;
+    profileId: string | null; // Set to update that profile, null to create one
+}
 
 interface CsvMappingFormProps {
   csvHeaders: string[];
   initialMappings?: ColumnMapping;
-  onSubmit: (mappings: ColumnMapping) => void;
+  initialSettings?: CsvImportSettings;
+  accounts: Account[];
+  profiles: CsvImportProfile[];
+  activeProfileId?: string | null;
+  onSelectProfile: (profileId: string | null) => void;
+  onDeleteProfile: (profileId: string) => void;
+  // The file is read again in the new encoding; the current choices are handed back to be kept
+  onEncodingChange: (encoding: CsvEncoding, mappings: ColumnMapping, settings: CsvImportSettings) => void;
+  onSubmit: (mappings: ColumnMapping, settings: CsvImportSettings, saveProfile: ProfileSaveRequest | null) => void;
   onCancel: () => void;
 }
 
 const CsvMappingForm: React.FC<CsvMappingFormProps> = ({
     csvHeaders,
     initialMappings = {},
+    initialSettings = DEFAULT_CSV_IMPORT_SETTINGS,
+    accounts,
+    profiles,
+    activeProfileId = null,
+    onSelectProfile,
+    onDeleteProfile,
+    onEncodingChange,
     onSubmit,
     onCancel
 }) => {
+  const activeProfile = profiles.find(profile => profile.id === activeProfileId) || null;
   const [mappings, setMappings] = useState<ColumnMapping>(initialMappings);
+  const [settings, setSettings] = useState<CsvImportSettings>(initialSettings);
+  const [isCustomDateFormat, setIsCustomDateFormat] = useState(
+    !!initialSettings.dateFormat && !CSV_DATE_FORMATS.includes(initialSettings.dateFormat)
+  );
+  const [shouldSaveProfile, setShouldSaveProfile] = useState(false);
+  const [profileName, setProfileName] = useState(activeProfile?.name || '');
   const [error, setError] = useState<string | null>(null);
 
-  const handleMappingChange = (appField: AppFieldType, csvHeader: string) => {
+  const requiredFields = getRequiredFields(settings);
+
+  const handleMappingChange = (appField: CsvImportField, csvHeader: string) => {
     setMappings(prev => ({
       ...prev,
       [appField]: csvHeader === "__IGNORE__" ? undefined : csvHeader
@@ -60,39 +117,45 @@ const CsvMappingForm: React.FC<CsvMappingFormProps> = ({
      setError(null);
   };
 
+  const handleSettingChange = <K extends keyof CsvImportSettings>(key: K, value: CsvImportSettings[K]) => {
+    setSettings(prev => ({ ...prev, [key]: value }));
+    setError(null);
+  };
+
+  const handleDateFormatChange = (value: string) => {
+    setIsCustomDateFormat(value === "__CUSTOM__");
+    if (value === "__CUSTOM__") return; // Keeps the current pattern as a starting point
+    handleSettingChange('dateFormat', value === "__AUTO__" ? null : value);
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
 
-    const requiredAppFields = APP_FIELDS.filter(f => f.required);
-    const missingMappings = requiredAppFields.filter(field => !mappings[field.value]);
-    
+    const missingMappings = APP_FIELDS.filter(field => requiredFields.includes(field.value) && !mappings[field.value]);
     if (missingMappings.length > 0) {
-        const missingFieldLabels = missingMappings.map(f => f.label.replace(' *',''));
-        setError(`Please map the following required fields: ${missingFieldLabels.join(', ')}`);
+        setError(`Please map the following required fields: ${missingMappings.map(f => f.label).join(', ')}`);
         return;
     }
-
-    // Specific Firefly III logic check
-    if (!mappings.transaction_type) {
-        setError("Mapping for 'Transaction Type' (e.g., Firefly 'type' column) is crucial for correct import logic. Please map this field.");
+    if (settings.signConvention === 'debit-credit' && !mappings.debit_amount && !mappings.credit_amount) {
+        setError("Map the 'Debit Amount' and/or 'Credit Amount' columns, or choose a signed amount.");
         return;
     }
-     if (!mappings.source_name) {
-        setError("Mapping for 'Source Account/Name' (e.g., Firefly 'source_name' column) is crucial. Please map this field.");
+    if (!settings.defaultAccountId && !mappings.transaction_type) {
+        setError("Mapping for 'Transaction Type' (e.g., Firefly 'type' column) is crucial for correct import logic. Map this field or choose a default account.");
         return;
     }
-    if (!mappings.destination_name) {
-        setError("Mapping for 'Destination Account/Name' (e.g., Firefly 'destination_name' column) is crucial. Please map this field.");
+    if (isCustomDateFormat && !isValidDateFormatPattern(settings.dateFormat || '')) {
+        setError("Enter a date pattern with day, month and year, e.g. dd/MM/yyyy or d MMM yyyy.");
         return;
     }
-     if (!mappings.currency_code) {
-        setError("Mapping for 'Currency Code' (e.g., Firefly 'currency_code' column) is crucial. Please map this field.");
+    if (shouldSaveProfile && !profileName.trim()) {
+        setError("Enter a name for the import profile.");
         return;
     }
 
-
-    onSubmit(mappings);
+    const submittedSettings = { ...settings, dateFormat: settings.dateFormat?.trim() || null };
+    onSubmit(mappings, submittedSettings, shouldSaveProfile ? { name: profileName.trim(), profileId: activeProfile?.id ?? null } : null);
   };
 
   return (
@@ -105,11 +168,110 @@ const CsvMappingForm: React.FC<CsvMappingFormProps> = ({
             </Alert>
         )}
 
+      <div className="grid grid-cols-2 items-start gap-x-4 gap-y-1">
+        <div className="flex flex-col">
+          <Label htmlFor="import-profile">Import Profile</Label>
+          <p className="text-xs text-muted-foreground mt-0.5">
+            Saved mappings and settings. A profile is selected automatically when the file's columns match it.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Select value={activeProfileId || "__NONE__"} onValueChange={(value) => onSelectProfile(value === "__NONE__" ? null : value)}>
+            <SelectTrigger id="import-profile" className="text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="__NONE__" className="text-muted-foreground">-- No profile --</SelectItem>
+              {profiles.map(profile => (
+                <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {activeProfile && (
+            <Button type="button" variant="ghost" size="icon" onClick={() => onDeleteProfile(activeProfile.id)} title="Delete profile">
+              <Trash2 className="h-4 w-4 text-destructive" />
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div className="grid gap-1.5">
+          <Label htmlFor="import-date-format">Date Format</Label>
+          <Select value={isCustomDateFormat ? "__CUSTOM__" : settings.dateFormat || "__AUTO__"} onValueChange={handleDateFormatChange}>
+            <SelectTrigger id="import-date-format" className="text-xs"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="__AUTO__">Detect automatically</SelectItem>
+              {CSV_DATE_FORMATS.map(dateFormat => (
+                <SelectItem key={dateFormat} value={dateFormat}>{dateFormat}</SelectItem>
+              ))}
+              <SelectItem value="__CUSTOM__">Custom pattern...</SelectItem>
+            </SelectContent>
+          </Select>
+          {isCustomDateFormat && (
+            <Input
+              value={settings.dateFormat || ''}
+              onChange={(e) => handleSettingChange('dateFormat', e.target.value)}
+              placeholder="e.g. d MMM yyyy"
+              className="text-xs"
+              aria-label="Custom date pattern"
+            />
+          )}
+        </div>
+        <div className="grid gap-1.5">
+          <Label htmlFor="import-decimal-separator">Decimal Separator</Label>
+          <Select value={settings.decimalSeparator} onValueChange={(value) => handleSettingChange('decimalSeparator', value as CsvDecimalSeparator)}>
+            <SelectTrigger id="import-decimal-separator" className="text-xs"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="auto">Detect automatically</SelectItem>
+              <SelectItem value=".">Period (1,234.56)</SelectItem>
+              <SelectItem value=",">Comma (1.234,56)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="grid gap-1.5">
+          <Label htmlFor="import-sign-convention">Amounts</Label>
+          <Select value={settings.signConvention} onValueChange={(value) => handleSettingChange('signConvention', value as AmountSignConvention)}>
+            <SelectTrigger id="import-sign-convention" className="text-xs"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {SIGN_CONVENTION_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="grid gap-1.5">
+          <Label htmlFor="import-default-account">Default Account</Label>
+          <Select value={settings.defaultAccountId || "__NONE__"} onValueChange={(value) => handleSettingChange('defaultAccountId', value === "__NONE__" ? null : value)}>
+            <SelectTrigger id="import-default-account" className="text-xs"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="__NONE__" className="text-muted-foreground">-- Use account columns --</SelectItem>
+              {accounts.map(account => (
+                <SelectItem key={account.id} value={account.id}>{account.name} ({account.currency})</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="grid gap-1.5">
+          <Label htmlFor="import-encoding">File Encoding</Label>
+          <Select value={settings.encoding} onValueChange={(value) => onEncodingChange(value as CsvEncoding, mappings, settings)}>
+            <SelectTrigger id="import-encoding" className="text-xs"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {CSV_ENCODINGS.map(encoding => (
+                <SelectItem key={encoding} value={encoding}>{encoding}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <Separator />
+
       {APP_FIELDS.map(appField => (
         <div key={appField.value} className="grid grid-cols-2 items-start gap-x-4 gap-y-1">
           <div className="flex flex-col">
              <Label htmlFor={`map-${appField.value}`}>
-                {appField.label}
+                {appField.label}{requiredFields.includes(appField.value) && ' *'}
              </Label>
               {appField.description && (
                     <p className="text-xs text-muted-foreground mt-0.5">{appField.description}</p>
@@ -136,9 +298,27 @@ const CsvMappingForm: React.FC<CsvMappingFormProps> = ({
         </div>
       ))}
        <p className="text-xs text-muted-foreground pt-2">
-          Fields marked with * are essential. For Firefly III CSVs, ensure 'type', 'amount', 'currency_code', 'date', 'source_name', and 'destination_name' are correctly mapped.
+          Fields marked with * are essential. For Firefly III CSVs, ensure 'type', 'amount', 'currency_code', 'date', 'source_name', and 'destination_name' are correctly mapped. For a bank statement without those columns, choose a default account.
        </p>
 
+      <Separator />
+
+      <div className="space-y-2">
+        <div className="flex items-center space-x-2">
+          <Checkbox id="save-import-profile" checked={shouldSaveProfile} onCheckedChange={(checked) => setShouldSaveProfile(checked === true)} />
+          <Label htmlFor="save-import-profile" className="font-normal">
+            {activeProfile ? `Save changes to the "${activeProfile.name}" profile` : "Save as an import profile"}
+          </Label>
+        </div>
+        {shouldSaveProfile && (
+          <Input
+            value={profileName}
+            onChange={(e) => setProfileName(e.target.value)}
+            placeholder="e.g., Nubank checking account"
+            className="max-w-sm"
+          />
+        )}
+      </div>
 
       <div className="flex justify-end space-x-2 pt-4 sticky bottom-0 bg-popover pb-4 pr-2 -mb-4">
         <Button type="button" variant="outline" onClick={onCancel}>
@@ -0,0 +1,131 @@
+'use client';
+
+import type { FC } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage, FormDescription } from "@/components/ui/form";
+import { supportedCurrencies, getCurrencySymbol } from '@/lib/currency';
+import { securityTypeLabels, type SecurityType } from '@/lib/holdings';
+
+const formSchema = z.object({
+  symbol: z.string().trim().min(1, "Symbol is required").max(20, "Symbol is too long"),
+  name: z.string().trim().max(100, "Name is too long"),
+  type: z.enum(Object.keys(securityTypeLabels) as [SecurityType, ...SecurityType[]]),
+  currency: z.string().min(3, "Currency is required"),
+});
+
+export type AddSecurityFormData = z.infer<typeof formSchema>;
+
+interface AddSecurityFormProps {
+  onSecurityAdded: (data: AddSecurityFormData) => Promise<void> | void;
+  isLoading: boolean;
+  defaultCurrency?: string;
+}
+
+const AddSecurityForm: FC<AddSecurityFormProps> = ({ onSecurityAdded, isLoading, defaultCurrency = 'USD' }) => {
+  const form = useForm<AddSecurityFormData>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      symbol: '',
+      name: '',
+      type: 'stock',
+      currency: defaultCurrency,
+    },
+  });
+
+  async function onSubmit(values: AddSecurityFormData) {
+    await onSecurityAdded(values);
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="symbol"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Symbol</FormLabel>
+                <FormControl>
+                  <Input placeholder="e.g., VWCE or BTC" {...field} />
+                </FormControl>
+                <FormDescription>Used to match rows of price files.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="name"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Name</FormLabel>
+                <FormControl>
+                  <Input placeholder="e.g., Vanguard FTSE All-World" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="type"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Type</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {(Object.entries(securityTypeLabels) as [SecurityType, string][]).map(([type, label]) => (
+                      <SelectItem key={type} value={type}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="currency"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Quote Currency</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select currency" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {supportedCurrencies.map(curr => (
+                      <SelectItem key={curr} value={curr}>
+                        {curr} ({getCurrencySymbol(curr)})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormDescription>Prices, trades and dividends are recorded in this currency.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        <Button type="submit" className="w-full" disabled={isLoading}>
+          {isLoading ? "Saving..." : "Add Security"}
+        </Button>
+      </form>
+    </Form>
+  );
+};
+
+export default AddSecurityForm;
@@ -0,0 +1,109 @@
+'use client';
+
+import type { FC } from 'react';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import { convertCurrency, formatCurrency } from '@/lib/currency';
+import type { Holding, Security } from '@/lib/holdings';
+import type { Account } from '@/services/account-sync';
+
+interface HoldingsTableProps {
+  holdings: Holding[];
+  securities: Security[];
+  accounts: Account[];
+  preferredCurrency: string;
+}
+
+function gainClassName(value: number | null) {
+  if (value === null || Math.abs(value) < 0.005) return undefined;
+  return value > 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400';
+}
+
+/** Positions per account and security in their own currency, with totals in the preferred currency. */
+const HoldingsTable: FC<HoldingsTableProps> = ({ holdings, securities, accounts, preferredCurrency }) => {
+  const securitiesById = new Map(securities.map(security => [security.id, security]));
+  const accountsById = new Map(accounts.map(account => [account.id, account]));
+  const sortedHoldings = [...holdings].sort((a, b) =>
+    (b.quantity > 0 ? 1 : 0) - (a.quantity > 0 ? 1 : 0)
+    || (securitiesById.get(a.securityId)?.symbol || '').localeCompare(securitiesById.get(b.securityId)?.symbol || '')
+  );
+
+  const toPreferred = (amount: number, currency: string) => convertCurrency(amount, currency, preferredCurrency);
+  const totals = holdings.reduce((sum, holding) => ({
+    costBasis: sum.costBasis + toPreferred(holding.costBasis, holding.currency),
+    marketValue: sum.marketValue + toPreferred(holding.marketValue ?? holding.costBasis, holding.currency),
+    unrealizedGain: sum.unrealizedGain + toPreferred(holding.unrealizedGain ?? 0, holding.currency),
+    realizedGain: sum.realizedGain + toPreferred(holding.realizedGain, holding.currency),
+    income: sum.income + toPreferred(holding.dividends - holding.fees, holding.currency),
+  }), { costBasis: 0, marketValue: 0, unrealizedGain: 0, realizedGain: 0, income: 0 });
+  const format = (amount: number, currency: string) => formatCurrency(amount, currency, currency, false);
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Security</TableHead>
+          <TableHead>Account</TableHead>
+          <TableHead className="text-right">Quantity</TableHead>
+          <TableHead className="text-right">Avg. Cost</TableHead>
+          <TableHead className="text-right">Cost Basis</TableHead>
+          <TableHead className="text-right">Price</TableHead>
+          <TableHead className="text-right">Market Value</TableHead>
+          <TableHead className="text-right">Unrealized P&amp;L</TableHead>
+          <TableHead className="text-right">Realized P&amp;L</TableHead>
+          <TableHead className="text-right">Dividends - Fees</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {sortedHoldings.map(holding => {
+          const security = securitiesById.get(holding.securityId);
+          const unrealizedPercent = holding.unrealizedGain !== null && holding.costBasis > 0 ? holding.unrealizedGain / holding.costBasis * 100 : null;
+          return (
+            <TableRow key={`${holding.accountId}/${holding.securityId}`} className={cn(holding.quantity === 0 && 'text-muted-foreground')}>
+              <TableCell>
+                <div className="font-medium">{security?.symbol || 'Unknown'}</div>
+                <div className="text-xs text-muted-foreground">{security?.name}</div>
+              </TableCell>
+              <TableCell>{accountsById.get(holding.accountId)?.name || 'Unknown account'}</TableCell>
+              <TableCell className="text-right font-mono">{parseFloat(holding.quantity.toFixed(8))}</TableCell>
+              <TableCell className="text-right">{holding.quantity > 0 ? format(holding.averageCost, holding.currency) : '-'}</TableCell>
+              <TableCell className="text-right">{format(holding.costBasis, holding.currency)}</TableCell>
+              <TableCell className="text-right">
+                {holding.price !== null ? (
+                  <>
+                    <div>{format(holding.price, holding.currency)}</div>
+                    <div className="text-xs text-muted-foreground">{holding.priceDate}</div>
+                  </>
+                ) : <span className="text-muted-foreground">No price</span>}
+              </TableCell>
+              <TableCell className="text-right">{holding.marketValue !== null ? format(holding.marketValue, holding.currency) : '-'}</TableCell>
+              <TableCell className={cn("text-right", gainClassName(holding.unrealizedGain))}>
+                {holding.unrealizedGain !== null ? (
+                  <>
+                    <div>{format(holding.unrealizedGain, holding.currency)}</div>
+                    {unrealizedPercent !== null && <div className="text-xs">{unrealizedPercent.toFixed(2)}%</div>}
+                  </>
+                ) : '-'}
+              </TableCell>
+              <TableCell className={cn("text-right", gainClassName(holding.realizedGain))}>{format(holding.realizedGain, holding.currency)}</TableCell>
+              <TableCell className={cn("text-right", gainClassName(holding.dividends - holding.fees))}>{format(holding.dividends - holding.fees, holding.currency)}</TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+      <TableFooter>
+        <TableRow>
+          <TableCell colSpan={4}>Total ({preferredCurrency})</TableCell>
+          <TableCell className="text-right">{format(totals.costBasis, preferredCurrency)}</TableCell>
+          <TableCell />
+          <TableCell className="text-right">{format(totals.marketValue, preferredCurrency)}</TableCell>
+          <TableCell className={cn("text-right", gainClassName(totals.unrealizedGain))}>{format(totals.unrealizedGain, preferredCurrency)}</TableCell>
+          <TableCell className={cn("text-right", gainClassName(totals.realizedGain))}>{format(totals.realizedGain, preferredCurrency)}</TableCell>
+          <TableCell className={cn("text-right", gainClassName(totals.income))}>{format(totals.income, preferredCurrency)}</TableCell>
+        </TableRow>
+      </TableFooter>
+    </Table>
+  );
+};
+
+export default HoldingsTable;
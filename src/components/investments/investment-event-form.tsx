@@ -0,0 +1,239 @@
+'use client';
+
+import type { FC } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { format as formatDateFns } from 'date-fns';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage, FormDescription } from "@/components/ui/form";
+import { formatCurrency } from '@/lib/currency';
+import { investmentEventTypeLabels, type InvestmentEventType, type Security } from '@/lib/holdings';
+import type { Account } from '@/services/account-sync';
+
+const formSchema = z.object({
+  accountId: z.string().min(1, "Account is required"),
+  securityId: z.string().min(1, "Security is required"),
+  type: z.enum(Object.keys(investmentEventTypeLabels) as [InvestmentEventType, ...InvestmentEventType[]]),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date is required"),
+  quantity: z.coerce.number().optional(),
+  price: z.coerce.number().optional(),
+  fees: z.coerce.number().min(0, "Fees cannot be negative").optional(),
+  amount: z.coerce.number().optional(),
+  notes: z.string().max(200, "Notes are too long").optional(),
+}).superRefine((data, ctx) => {
+  if (data.type === 'buy' || data.type === 'sell') {
+    if (!(data.quantity && data.quantity > 0)) ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Quantity must be positive", path: ['quantity'] });
+    if (data.price === undefined || data.price < 0) ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Price is required", path: ['price'] });
+  } else if (!(data.amount && data.amount > 0)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Amount must be positive", path: ['amount'] });
+  }
+});
+
+export type InvestmentEventFormData = z.infer<typeof formSchema>;
+
+interface InvestmentEventFormProps {
+  accounts: Account[]; // Investment accounts events can be recorded on
+  securities: Security[];
+  onEventRecorded: (data: InvestmentEventFormData) => Promise<void> | void;
+  isLoading: boolean;
+}
+
+const InvestmentEventForm: FC<InvestmentEventFormProps> = ({ accounts, securities, onEventRecorded, isLoading }) => {
+  const form = useForm<InvestmentEventFormData>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      accountId: accounts[0]?.id || '',
+      securityId: securities[0]?.id || '',
+      type: 'buy',
+      date: formatDateFns(new Date(), 'yyyy-MM-dd'),
+      quantity: undefined,
+      price: undefined,
+      fees: 0,
+      amount: undefined,
+      notes: '',
+    },
+  });
+
+  const type = form.watch('type');
+  const securityId = form.watch('securityId');
+  const quantity = form.watch('quantity');
+  const price = form.watch('price');
+  const fees = form.watch('fees');
+  const currency = securities.find(s => s.id === securityId)?.currency || 'USD';
+  const isTrade = type === 'buy' || type === 'sell';
+  const tradeTotal = (Number(quantity) || 0) * (Number(price) || 0) + (type === 'buy' ? 1 : -1) * (Number(fees) || 0);
+
+  async function onSubmit(values: InvestmentEventFormData) {
+    await onEventRecorded(values);
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="accountId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Account</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select account" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {accounts.map(account => (
+                      <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="securityId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Security</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select security" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {securities.map(security => (
+                      <SelectItem key={security.id} value={security.id}>{security.symbol} - {security.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="type"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Event</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {(Object.entries(investmentEventTypeLabels) as [InvestmentEventType, string][]).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="date"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Date</FormLabel>
+                <FormControl>
+                  <Input type="date" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          {isTrade ? (
+            <>
+              <FormField
+                control={form.control}
+                name="quantity"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Quantity</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="any" placeholder="e.g., 10" {...field} value={field.value ?? ''} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="price"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Price per Unit ({currency})</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="any" placeholder="e.g., 101.25" {...field} value={field.value ?? ''} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="fees"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Commission ({currency})</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="any" {...field} value={field.value ?? ''} />
+                    </FormControl>
+                    <FormDescription>
+                      {type === 'buy' ? 'Total cost' : 'Net proceeds'}: {formatCurrency(tradeTotal, currency, currency, false)}
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </>
+          ) : (
+            <FormField
+              control={form.control}
+              name="amount"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{type === 'dividend' ? 'Dividend Received' : 'Fee Paid'} ({currency})</FormLabel>
+                  <FormControl>
+                    <Input type="number" step="any" placeholder="e.g., 12.50" {...field} value={field.value ?? ''} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+        </div>
+        <FormField
+          control={form.control}
+          name="notes"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Notes</FormLabel>
+              <FormControl>
+                <Textarea rows={2} placeholder="Optional" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" className="w-full" disabled={isLoading}>
+          {isLoading ? "Saving..." : "Record Event"}
+        </Button>
+      </form>
+    </Form>
+  );
+};
+
+export default InvestmentEventForm;
@@ -0,0 +1,359 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import type { FC } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { AlertTriangle, AreaChart, PlusCircle, Trash2 } from 'lucide-react';
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency } from '@/lib/currency';
+import { costBasisMethodLabels, getLatestPrices, investmentEventTypeLabels, type CostBasisMethod } from '@/lib/holdings';
+import { getAccounts, type Account } from '@/services/account-sync';
+import {
+  addInvestmentEvent, addSecurity, deleteInvestmentEvent, deleteSecurity, getPortfolio, setCostBasisMethod,
+  type Portfolio, type Security,
+} from '@/services/investments';
+import { createManualPriceSource, createPriceFileSource, getSecurityPrices, updatePricesFromSource, type SecurityPrice } from '@/services/security-prices';
+import AddSecurityForm, { type AddSecurityFormData } from './add-security-form';
+import InvestmentEventForm, { type InvestmentEventFormData } from './investment-event-form';
+import SecurityPriceForm, { type SecurityPriceFormData } from './security-price-form';
+import HoldingsTable from './holdings-table';
+
+const EVENTS_SHOWN = 20;
+
+interface InvestmentPortfolioProps {
+  preferredCurrency: string;
+}
+
+/**
+ * Holdings of the user's investment accounts, built from recorded buys, sells, dividends and fees and
+ * valued at the latest entered or imported price of each security.
+ */
+const InvestmentPortfolio: FC<InvestmentPortfolioProps> = ({ preferredCurrency }) => {
+  const [portfolio, setPortfolio] = useState<Portfolio | null>(null);
+  const [prices, setPrices] = useState<SecurityPrice[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isSecurityDialogOpen, setIsSecurityDialogOpen] = useState(false);
+  const [isEventDialogOpen, setIsEventDialogOpen] = useState(false);
+  const [securityToDelete, setSecurityToDelete] = useState<Security | null>(null);
+  const { toast } = useToast();
+
+  const fetchPortfolio = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [loadedPortfolio, loadedPrices, loadedAccounts] = await Promise.all([getPortfolio(), getSecurityPrices(), getAccounts()]);
+      setPortfolio(loadedPortfolio);
+      setPrices(loadedPrices);
+      setAccounts(loadedAccounts);
+    } catch (error: any) {
+      console.error("Failed to load investment portfolio:", error);
+      toast({ title: "Error", description: error.message || "Could not load your investments.", variant: "destructive" });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchPortfolio();
+    window.addEventListener('storage', fetchPortfolio);
+    return () => window.removeEventListener('storage', fetchPortfolio);
+  }, [fetchPortfolio]);
+
+  const investmentAccounts = useMemo(() => accounts.filter(account => account.type === 'investment'), [accounts]);
+  const securities = portfolio?.securities || [];
+  const latestPrices = useMemo(() => getLatestPrices(prices), [prices]);
+
+  // Runs a change and reloads the portfolio; other pages listening for 'storage' refresh as well
+  const runChange = async (change: () => Promise<void>, errorMessage: string) => {
+    setIsSaving(true);
+    try {
+      await change();
+      window.dispatchEvent(new Event('storage'));
+    } catch (error: any) {
+      console.error(errorMessage, error);
+      toast({ title: "Error", description: error.message || errorMessage, variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSecurityAdded = (data: AddSecurityFormData) => runChange(async () => {
+    const security = await addSecurity(data);
+    toast({ title: "Security Added", description: `${security.symbol} can now be bought and priced.` });
+    setIsSecurityDialogOpen(false);
+  }, "Could not add the security.");
+
+  const handleEventRecorded = (data: InvestmentEventFormData) => runChange(async () => {
+    await addInvestmentEvent({
+      accountId: data.accountId,
+      securityId: data.securityId,
+      type: data.type,
+      date: data.date,
+      quantity: data.quantity || 0,
+      price: data.price || 0,
+      fees: data.fees || 0,
+      amount: data.amount || 0,
+      notes: data.notes || null,
+    });
+    toast({ title: "Event Recorded", description: `${investmentEventTypeLabels[data.type]} on ${data.date} saved.` });
+    setIsEventDialogOpen(false);
+  }, "Could not record the event.");
+
+  const handlePriceEntered = (data: SecurityPriceFormData) => runChange(async () => {
+    await updatePricesFromSource(createManualPriceSource(data), securities);
+    toast({ title: "Price Saved", description: `Price for ${data.date} saved.` });
+  }, "Could not save the price.");
+
+  const handlePriceFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    await runChange(async () => {
+      const { saved, errors } = await updatePricesFromSource(createPriceFileSource(await file.text()), securities);
+      if (saved.length === 0) {
+        throw new Error(errors[0] || "The file did not contain any prices.");
+      }
+      toast({
+        title: "Prices Imported",
+        description: `${saved.length} price(s) imported from ${file.name}.${errors.length ? ` ${errors.length} issue(s) skipped.` : ''}`,
+      });
+      if (errors.length) console.warn("Price file import issues:", errors);
+    }, "Could not import the price file.");
+  };
+
+  const handleMethodChange = (method: CostBasisMethod) => runChange(async () => {
+    await setCostBasisMethod(method);
+  }, "Could not save the cost basis method.");
+
+  const handleDeleteEvent = (eventId: string) => runChange(() => deleteInvestmentEvent(eventId), "Could not delete the event.");
+
+  const handleDeleteSecurityConfirm = () => runChange(async () => {
+    if (!securityToDelete) return;
+    await deleteSecurity(securityToDelete.id);
+    setSecurityToDelete(null);
+  }, "Could not delete the security.");
+
+  const securitiesById = new Map(securities.map(security => [security.id, security]));
+  const accountsById = new Map(accounts.map(account => [account.id, account]));
+
+  return (
+    <div className="space-y-8">
+      <Card>
+        <CardHeader className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle>My Portfolio</CardTitle>
+            <CardDescription>
+              Holdings of your investment accounts with cost basis and realized and unrealized gains. Holdings without a price count at cost in the totals.
+            </CardDescription>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Select value={portfolio?.method || 'fifo'} onValueChange={value => handleMethodChange(value as CostBasisMethod)} disabled={isSaving || isLoading}>
+              <SelectTrigger className="w-52">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.entries(costBasisMethodLabels) as [CostBasisMethod, string][]).map(([method, label]) => (
+                  <SelectItem key={method} value={method}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={() => setIsSecurityDialogOpen(true)}>
+              <PlusCircle className="mr-2 h-4 w-4" /> Add Security
+            </Button>
+            <Button onClick={() => setIsEventDialogOpen(true)} disabled={securities.length === 0 || investmentAccounts.length === 0}>
+              <PlusCircle className="mr-2 h-4 w-4" /> Record Event
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {portfolio && portfolio.errors.length > 0 && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertTitle>Some events could not be applied</AlertTitle>
+              <AlertDescription>
+                <ul className="list-disc pl-4">
+                  {portfolio.errors.map(error => <li key={error}>{error}</li>)}
+                </ul>
+              </AlertDescription>
+            </Alert>
+          )}
+          {isLoading && !portfolio ? (
+            <Skeleton className="h-32 w-full" />
+          ) : portfolio && portfolio.holdings.length > 0 ? (
+            <HoldingsTable holdings={portfolio.holdings} securities={securities} accounts={accounts} preferredCurrency={preferredCurrency} />
+          ) : (
+            <div className="text-center py-10">
+              <AreaChart className="mx-auto h-24 w-24 text-muted-foreground" strokeWidth={1.5}/>
+              <p className="mt-4 text-muted-foreground">
+                {investmentAccounts.length === 0
+                  ? "Create an account of type Investment, add a security and record a buy to start tracking holdings."
+                  : "No holdings yet. Add a security and record a buy to start tracking holdings."}
+              </p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Security Prices</CardTitle>
+          <CardDescription>
+            Holdings are valued at the latest price of each security. Enter prices manually or import a price file.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <SecurityPriceForm securities={securities} onPriceEntered={handlePriceEntered} isLoading={isSaving} />
+          <div className="space-y-2">
+            <Label htmlFor="security-price-file">Import Price File</Label>
+            <Input id="security-price-file" type="file" accept=".csv,text/csv" onChange={handlePriceFileChange} disabled={isSaving || securities.length === 0} />
+            <p className="text-sm text-muted-foreground">
+              CSV with <code>symbol,date,price</code> columns and an optional <code>currency</code> column. Rows are matched to securities by symbol.
+            </p>
+          </div>
+          {securities.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Security</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead className="text-right">Latest Price</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Source</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {securities.map(security => {
+                  const quote = latestPrices.get(security.id);
+                  return (
+                    <TableRow key={security.id}>
+                      <TableCell>
+                        <div className="font-medium">{security.symbol}</div>
+                        <div className="text-xs text-muted-foreground">{security.name}</div>
+                      </TableCell>
+                      <TableCell className="capitalize">{security.type}</TableCell>
+                      <TableCell className="text-right">{quote ? formatCurrency(quote.price, quote.currency, quote.currency, false) : '-'}</TableCell>
+                      <TableCell className="whitespace-nowrap">{quote?.date || '-'}</TableCell>
+                      <TableCell className="text-muted-foreground">{quote?.source || '-'}</TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => setSecurityToDelete(security)} disabled={isSaving}>
+                          <span className="sr-only">Delete security</span>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Investment Events</CardTitle>
+          <CardDescription>
+            Buys, sells, dividends and fees, newest first{portfolio && portfolio.events.length > EVENTS_SHOWN ? `; showing the latest ${EVENTS_SHOWN}` : ''}.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {portfolio && portfolio.events.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Event</TableHead>
+                  <TableHead>Security</TableHead>
+                  <TableHead>Account</TableHead>
+                  <TableHead className="text-right">Quantity</TableHead>
+                  <TableHead className="text-right">Price</TableHead>
+                  <TableHead className="text-right">Fees</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {portfolio.events.slice(0, EVENTS_SHOWN).map(event => {
+                  const currency = securitiesById.get(event.securityId)?.currency || preferredCurrency;
+                  const isTrade = event.type === 'buy' || event.type === 'sell';
+                  const total = isTrade ? event.quantity * event.price + (event.type === 'buy' ? event.fees : -event.fees) : event.amount;
+                  return (
+                    <TableRow key={event.id}>
+                      <TableCell className="whitespace-nowrap">{event.date}</TableCell>
+                      <TableCell>{investmentEventTypeLabels[event.type]}</TableCell>
+                      <TableCell>{securitiesById.get(event.securityId)?.symbol || 'Unknown'}</TableCell>
+                      <TableCell>{accountsById.get(event.accountId)?.name || 'Unknown account'}</TableCell>
+                      <TableCell className="text-right font-mono">{isTrade ? event.quantity : '-'}</TableCell>
+                      <TableCell className="text-right">{isTrade ? formatCurrency(event.price, currency, currency, false) : '-'}</TableCell>
+                      <TableCell className="text-right">{isTrade && event.fees ? formatCurrency(event.fees, currency, currency, false) : '-'}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(total, currency, currency, false)}</TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => handleDeleteEvent(event.id)} disabled={isSaving}>
+                          <span className="sr-only">Delete event</span>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="text-center text-muted-foreground py-6">No investment events recorded yet.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isSecurityDialogOpen} onOpenChange={setIsSecurityDialogOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Add Security</DialogTitle>
+            <DialogDescription>A stock, fund, crypto asset or other instrument your investment accounts hold.</DialogDescription>
+          </DialogHeader>
+          <AddSecurityForm onSecurityAdded={handleSecurityAdded} isLoading={isSaving} defaultCurrency={preferredCurrency} />
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={isEventDialogOpen} onOpenChange={setIsEventDialogOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Record Investment Event</DialogTitle>
+            <DialogDescription>Amounts are in the security&apos;s currency.</DialogDescription>
+          </DialogHeader>
+          <InvestmentEventForm accounts={investmentAccounts} securities={securities} onEventRecorded={handleEventRecorded} isLoading={isSaving} />
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!securityToDelete} onOpenChange={open => !open && setSecurityToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Are you sure?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This action cannot be undone. This will permanently delete {securityToDelete?.symbol} together with all its events and prices.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isSaving}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDeleteSecurityConfirm} disabled={isSaving} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+              {isSaving ? "Deleting..." : "Delete Security"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default InvestmentPortfolio;
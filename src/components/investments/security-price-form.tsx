@@ -0,0 +1,105 @@
+'use client';
+
+import type { FC } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { format as formatDateFns } from 'date-fns';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import type { Security } from '@/lib/holdings';
+
+const formSchema = z.object({
+  securityId: z.string().min(1, "Security is required"),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date is required"),
+  price: z.coerce.number({ invalid_type_error: "Price must be a number" }).positive("Price must be positive"),
+});
+
+export type SecurityPriceFormData = z.infer<typeof formSchema>;
+
+interface SecurityPriceFormProps {
+  securities: Security[];
+  onPriceEntered: (data: SecurityPriceFormData) => Promise<void> | void;
+  isLoading: boolean;
+}
+
+const SecurityPriceForm: FC<SecurityPriceFormProps> = ({ securities, onPriceEntered, isLoading }) => {
+  const form = useForm<SecurityPriceFormData>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      securityId: securities[0]?.id || '',
+      date: formatDateFns(new Date(), 'yyyy-MM-dd'),
+      price: undefined,
+    },
+  });
+
+  const securityId = form.watch('securityId');
+  const currency = securities.find(s => s.id === securityId)?.currency;
+
+  async function onSubmit(values: SecurityPriceFormData) {
+    await onPriceEntered(values);
+    form.reset({ ...values, price: undefined });
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+        <FormField
+          control={form.control}
+          name="securityId"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Security</FormLabel>
+              <Select onValueChange={field.onChange} value={field.value}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select security" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {securities.map(security => (
+                    <SelectItem key={security.id} value={security.id}>{security.symbol}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="date"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Date</FormLabel>
+              <FormControl>
+                <Input type="date" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="price"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Price{currency ? ` (${currency})` : ''}</FormLabel>
+              <FormControl>
+                <Input type="number" step="any" placeholder="e.g., 101.25" {...field} value={field.value || ''} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" disabled={isLoading || securities.length === 0}>
+          {isLoading ? "Saving..." : "Save Price"}
+        </Button>
+      </form>
+    </Form>
+  );
+};
+
+export default SecurityPriceForm;
@@ -5,9 +5,10 @@ import DateRangePicker from '@/components/dashboard/date-range-picker';
 import { useDateRange } from '@/contexts/DateRangeContext';
 import { Button } from '@/components/ui/button';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
-import { PlusCircle, ArrowDownCircle, ArrowUpCircle, ArrowLeftRight as TransferIcon, ChevronDown } from 'lucide-react';
+import { PlusCircle, ArrowDownCircle, ArrowUpCircle, ArrowLeftRight as TransferIcon, ChevronDown, Search } from 'lucide-react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import AddTransactionForm from '@/components/transactions/add-transaction-form';
+import type { TransferFormSubmission } from '@/components/transactions/add-transaction-form';
 import type { Transaction } from '@/services/transactions';
 import { getAccounts, type Account } from '@/services/account-sync';
 import { getCategories, type Category } from '@/services/categories';
@@ -16,7 +17,10 @@ import { useToast } from "@/hooks/use-toast";
 import { useState, useEffect } from 'react';
 import { format as formatDateFns } from 'date-fns'; // Use aliased import
 import { addTransaction } from '@/services/transactions';
+import { addTransfer } from '@/services/transfers';
 import { Skeleton } from '@/components/ui/skeleton';
+import SyncStatusIndicator from '@/components/layout/sync-status-indicator';
+import CommandPalette from '@/components/layout/command-palette';
 
 
 const GlobalHeader: FC = () => {
@@ -28,6 +32,8 @@ const GlobalHeader: FC = () => {
   const [isAddTransactionDialogOpen, setIsAddTransactionDialogOpen] = useState(false);
   const [transactionTypeToAdd, setTransactionTypeToAdd] = useState<'expense' | 'income' | 'transfer' | null>(null);
   const [isLoadingDataForForm, setIsLoadingDataForForm] = useState(false);
+  const [initialAccountId, setInitialAccountId] = useState<string | undefined>(undefined);
+  const [isCommandPaletteOpen, setIsCommandPaletteOpen] = useState(false);
 
   useEffect(() => {
     const fetchAndPrepareFormData = async () => {
@@ -82,8 +88,9 @@ const GlobalHeader: FC = () => {
   }, [isAddTransactionDialogOpen, transactionTypeToAdd, toast]);
 
 
-  const openAddTransactionDialog = (type: 'expense' | 'income' | 'transfer') => {
+  const openAddTransactionDialog = (type: 'expense' | 'income' | 'transfer', accountId?: string) => {
     setTransactionTypeToAdd(type); // Set the type, useEffect will handle fetching and checks
+    setInitialAccountId(accountId);
     setIsAddTransactionDialogOpen(true);
   };
 
@@ -99,34 +106,18 @@ const GlobalHeader: FC = () => {
     }
   };
 
-  const handleTransferAdded = async (data: { fromAccountId: string; toAccountId: string; amount: number; date: Date; description?: string; tags?: string[]; transactionCurrency: string }) => {
+  const handleTransferAdded = async (data: TransferFormSubmission) => {
     try {
-      const transferAmount = Math.abs(data.amount);
-      const formattedDate = formatDateFns(data.date, 'yyyy-MM-dd');
-      
-      // Fetch fresh account names for description, in case local state 'accounts' is not fully up-to-date here
-      const currentAccounts = await getAccounts();
-      const fromAccountName = currentAccounts.find(a=>a.id === data.fromAccountId)?.name || 'Unknown Account';
-      const toAccountName = currentAccounts.find(a=>a.id === data.toAccountId)?.name || 'Unknown Account';
-      const desc = data.description || `Transfer from ${fromAccountName} to ${toAccountName}`;
-
-      await addTransaction({
-        accountId: data.fromAccountId,
-        amount: -transferAmount,
-        transactionCurrency: data.transactionCurrency,
-        date: formattedDate,
-        description: desc,
-        category: 'Transfer',
-        tags: data.tags || [],
-      });
-
-      await addTransaction({
-        accountId: data.toAccountId,
-        amount: transferAmount,
-        transactionCurrency: data.transactionCurrency,
-        date: formattedDate,
-        description: desc,
-        category: 'Transfer',
+      await addTransfer({
+        fromAccountId: data.fromAccountId,
+        toAccountId: data.toAccountId,
+        fromAmount: Math.abs(data.amount),
+        fromCurrency: data.transactionCurrency,
+        toAmount: Math.abs(data.toAccountAmount ?? data.amount),
+        toCurrency: data.toAccountCurrency || data.transactionCurrency,
+        fee: data.fee ?? null,
+        date: formatDateFns(data.date, 'yyyy-MM-dd'),
+        description: data.description || '',
         tags: data.tags || [],
       });
 
@@ -143,6 +134,12 @@ const GlobalHeader: FC = () => {
   return (
     <header className="sticky top-0 z-30 flex h-16 items-center justify-end gap-4 border-b bg-background/95 px-4 sm:static sm:h-auto sm:border-0 sm:bg-transparent sm:px-6 sm:py-4 backdrop-blur supports-[backdrop-filter]:bg-background/60">
       <div className="ml-auto flex items-center gap-2">
+        <Button variant="outline" className="text-muted-foreground sm:w-56 justify-start" onClick={() => setIsCommandPaletteOpen(true)}>
+          <Search className="h-4 w-4 sm:mr-2" />
+          <span className="hidden sm:inline">Search...</span>
+          <kbd className="ml-auto hidden sm:inline-flex h-5 items-center rounded border bg-muted px-1.5 font-mono text-[10px] font-medium">Ctrl K</kbd>
+        </Button>
+        <SyncStatusIndicator />
         <DateRangePicker
           initialRange={selectedDateRange}
           onRangeChange={setSelectedDateRange}
@@ -196,6 +193,7 @@ const GlobalHeader: FC = () => {
               onTransferAdded={handleTransferAdded}
               isLoading={false} 
               initialType={transactionTypeToAdd}
+              initialData={initialAccountId ? { accountId: initialAccountId, date: new Date() } : undefined}
             />
           ) : (
             <div className="py-4 text-center text-muted-foreground">
@@ -209,6 +207,12 @@ const GlobalHeader: FC = () => {
           )}
         </DialogContent>
       </Dialog>
+
+      <CommandPalette
+        open={isCommandPaletteOpen}
+        onOpenChange={setIsCommandPaletteOpen}
+        onAddTransaction={openAddTransactionDialog}
+      />
     </header>
   );
 };
@@ -22,10 +22,11 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Landmark, Wallet, ArrowLeftRight, Settings, ChevronDown, TrendingUp, TrendingDown, LayoutList, Upload, Users, LogOut, Network, PieChart, CalendarClock, Archive as ArchiveIcon, SlidersHorizontal } from 'lucide-react';
 import Link from 'next/link';
 import { useRouter, usePathname } from 'next/navigation';
-import { useState, useEffect } from 'react';
+import { useState, useEffect, Suspense } from 'react';
 import { cn } from '@/lib/utils';
 import { DateRangeProvider } from '@/contexts/DateRangeContext';
 import GlobalHeader from './GlobalHeader';
+import SavedTransactionViewsNav from './saved-transaction-views-nav';
 import { Button } from '@/components/ui/button';
 
 // New GoldQuest Logo
@@ -279,6 +280,9 @@ export default function AuthWrapper({ children }: AuthWrapperProps) {
                                  </SidebarMenuButton>
                              </Link>
                          </SidebarMenuItem>
+                         <Suspense fallback={null}>
+                             <SavedTransactionViewsNav />
+                         </Suspense>
                         </>
                     )}
                     </SidebarGroup>
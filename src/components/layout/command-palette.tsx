@@ -0,0 +1,150 @@
+'use client';
+
+import type { FC, ElementType } from 'react';
+import { useState, useEffect, useMemo, useDeferredValue, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { CommandDialog, CommandInput, CommandList, CommandEmpty, CommandGroup, CommandItem } from '@/components/ui/command';
+import { DialogTitle } from '@/components/ui/dialog';
+import { Zap, Compass, Landmark, Shapes, Tag as TagIcon, Users, Repeat, HandCoins, Receipt } from 'lucide-react';
+import { useDateRange } from '@/contexts/DateRangeContext';
+import { useToast } from '@/hooks/use-toast';
+import { getSearchDocuments } from '@/services/search';
+import {
+  buildSearchIndex, searchIndex, SEARCH_RESULT_TYPE_LABELS,
+  type SearchAction, type SearchIndex, type SearchResult, type SearchResultType,
+} from '@/lib/search-index';
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onAddTransaction: (type: 'expense' | 'income' | 'transfer', accountId?: string) => void;
+}
+
+const TYPE_ICONS: Record<SearchResultType, ElementType> = {
+  action: Zap,
+  page: Compass,
+  account: Landmark,
+  category: Shapes,
+  tag: TagIcon,
+  group: Users,
+  subscription: Repeat,
+  loan: HandCoins,
+  transaction: Receipt,
+};
+
+// Transactions can flood the list; named records are few
+const MAX_RESULTS_PER_TYPE: Partial<Record<SearchResultType, number>> = { transaction: 10 };
+const DEFAULT_MAX_RESULTS_PER_TYPE = 6;
+
+/** Groups ranked results by type, ordering the groups by their best result. */
+function groupResults(results: SearchResult[]): { type: SearchResultType; results: SearchResult[] }[] {
+  const groups = new Map<SearchResultType, SearchResult[]>();
+  results.forEach(result => {
+    const group = groups.get(result.document.type) || [];
+    if (group.length < (MAX_RESULTS_PER_TYPE[result.document.type] ?? DEFAULT_MAX_RESULTS_PER_TYPE)) group.push(result);
+    groups.set(result.document.type, group);
+  });
+  return Array.from(groups.entries()).map(([type, groupedResults]) => ({ type, results: groupedResults }));
+}
+
+/**
+ * Ctrl+K / Cmd+K palette that searches accounts, categories, tags, groups, subscriptions, loans and
+ * transactions, and runs quick actions. The index is built on first open and rebuilt after data changes.
+ */
+const CommandPalette: FC<CommandPaletteProps> = ({ open, onOpenChange, onAddTransaction }) => {
+  const router = useRouter();
+  const { setSelectedDateRange } = useDateRange();
+  const { toast } = useToast();
+  const [query, setQuery] = useState('');
+  const deferredQuery = useDeferredValue(query);
+  const [index, setIndex] = useState<SearchIndex | null>(null);
+  const [isIndexStale, setIsIndexStale] = useState(true);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() === 'k' && (event.metaKey || event.ctrlKey)) {
+        event.preventDefault();
+        onOpenChange(!open);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [open, onOpenChange]);
+
+  useEffect(() => {
+    const markStale = () => setIsIndexStale(true);
+    window.addEventListener('storage', markStale);
+    return () => window.removeEventListener('storage', markStale);
+  }, []);
+
+  useEffect(() => {
+    if (!open || !isIndexStale) return;
+    let isCurrent = true;
+    setIsLoading(true);
+    getSearchDocuments()
+      .then(documents => {
+        if (!isCurrent) return;
+        setIndex(buildSearchIndex(documents));
+        setIsIndexStale(false);
+      })
+      .catch((error: any) => {
+        console.error("Failed to build the search index:", error);
+        if (isCurrent) toast({ title: "Error", description: "Could not load data for search.", variant: "destructive" });
+      })
+      .finally(() => { if (isCurrent) setIsLoading(false); });
+    return () => { isCurrent = false; };
+  }, [open, isIndexStale, toast]);
+
+  const groupedResults = useMemo(
+    () => index ? groupResults(searchIndex(index, deferredQuery, { limit: 200 })) : [],
+    [index, deferredQuery]
+  );
+
+  const handleOpenChange = useCallback((nextOpen: boolean) => {
+    onOpenChange(nextOpen);
+    if (!nextOpen) setQuery('');
+  }, [onOpenChange]);
+
+  const runAction = (action: SearchAction) => {
+    handleOpenChange(false);
+    if (action.kind === 'add-transaction') {
+      onAddTransaction(action.transactionType, action.accountId);
+      return;
+    }
+    if (action.dateRange) setSelectedDateRange(action.dateRange);
+    router.push(action.href);
+  };
+
+  return (
+    <CommandDialog open={open} onOpenChange={handleOpenChange} commandProps={{ shouldFilter: false }}>
+      <DialogTitle className="sr-only">Search</DialogTitle>
+      <CommandInput
+        placeholder="Search transactions, accounts, categories... or type a command"
+        value={query}
+        onValueChange={setQuery}
+      />
+      <CommandList className="max-h-[420px]">
+        <CommandEmpty>{isLoading && !index ? "Loading..." : "No results found."}</CommandEmpty>
+        {groupedResults.map(group => (
+          <CommandGroup key={group.type} heading={SEARCH_RESULT_TYPE_LABELS[group.type]}>
+            {group.results.map(({ document }) => {
+              const Icon = TYPE_ICONS[document.type];
+              return (
+                <CommandItem key={document.id} value={document.id} onSelect={() => runAction(document.action)}>
+                  <Icon className="mr-2 h-4 w-4 shrink-0 text-muted-foreground" />
+                  <div className="flex min-w-0 flex-col">
+                    <span className="truncate">{document.title}</span>
+                    {document.subtitle && <span className="truncate text-xs text-muted-foreground">{document.subtitle}</span>}
+                  </div>
+                </CommandItem>
+              );
+            })}
+          </CommandGroup>
+        ))}
+      </CommandList>
+    </CommandDialog>
+  );
+};
+
+export default CommandPalette;
@@ -0,0 +1,48 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { usePathname, useSearchParams } from 'next/navigation';
+import { SidebarMenuItem, SidebarMenuButton } from '@/components/ui/sidebar';
+import { Bookmark } from 'lucide-react';
+import { getTransactionViews, type TransactionView } from '@/services/transaction-views';
+
+/** Sidebar entries for the user's saved transaction views, shown under Transactions. */
+export default function SavedTransactionViewsNav() {
+  const [views, setViews] = useState<TransactionView[]>([]);
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  const fetchViews = useCallback(async () => {
+    try {
+      setViews(await getTransactionViews());
+    } catch (error) {
+      console.error("Failed to load saved views for the sidebar:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchViews();
+    window.addEventListener('storage', fetchViews);
+    return () => window.removeEventListener('storage', fetchViews);
+  }, [fetchViews]);
+
+  return (
+    <>
+      {views.map(view => (
+        <SidebarMenuItem key={view.id} className="ml-4">
+          <Link href={`/transactions?view=${view.id}`} passHref>
+            <SidebarMenuButton
+              tooltip={view.name}
+              size="sm"
+              isActive={pathname === '/transactions' && searchParams.get('view') === view.id}
+            >
+              <Bookmark />
+              <span>{view.name}</span>
+            </SidebarMenuButton>
+          </Link>
+        </SidebarMenuItem>
+      ))}
+    </>
+  );
+}
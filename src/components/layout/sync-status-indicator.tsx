@@ -0,0 +1,79 @@
+'use client';
+
+import type { FC } from 'react';
+import { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { AlertTriangle, CheckCircle2, CloudOff, Loader2, UploadCloud } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { useSyncStatus } from '@/hooks/use-sync-status';
+import { syncNow, type SyncState } from '@/services/sync';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+
+const STATE_LABELS: Record<SyncState, string> = {
+  synced: 'Synced',
+  syncing: 'Syncing…',
+  pending: 'Changes pending',
+  offline: 'Offline',
+  error: 'Sync failed',
+};
+
+const SyncStatusIndicator: FC = () => {
+  const status = useSyncStatus();
+  const { toast } = useToast();
+  const [isSyncing, setIsSyncing] = useState(false);
+  const state: SyncState = isSyncing ? 'syncing' : status.state;
+
+  const handleSync = async () => {
+    setIsSyncing(true);
+    try {
+      const result = await syncNow();
+      if (result.state === 'error') {
+        toast({ title: "Sync Failed", description: result.lastError || "Your changes are kept and will be retried.", variant: "destructive" });
+      } else if (result.state === 'offline') {
+        toast({ title: "Offline", description: "Your changes are saved on this device and will sync when you are back online." });
+      }
+    } catch (error: any) {
+      console.error("Manual sync failed:", error);
+      toast({ title: "Sync Failed", description: error.message, variant: "destructive" });
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  const icon = {
+    synced: <CheckCircle2 className="h-4 w-4 text-green-600" />,
+    syncing: <Loader2 className="h-4 w-4 animate-spin" />,
+    pending: <UploadCloud className="h-4 w-4 text-amber-500" />,
+    offline: <CloudOff className="h-4 w-4 text-muted-foreground" />,
+    error: <AlertTriangle className="h-4 w-4 text-destructive" />,
+  }[state];
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Button variant="ghost" size="sm" onClick={handleSync} disabled={isSyncing} aria-label={`Sync status: ${STATE_LABELS[state]}`}>
+          {icon}
+          <span className={cn("hidden lg:inline", state === 'error' && "text-destructive")}>{STATE_LABELS[state]}</span>
+          {status.pendingWrites > 0 && <span className="text-xs text-muted-foreground">({status.pendingWrites})</span>}
+        </Button>
+      </TooltipTrigger>
+      <TooltipContent>
+        <div className="space-y-1 text-xs">
+          <p>
+            {status.pendingWrites > 0
+              ? `${status.pendingWrites} change${status.pendingWrites === 1 ? '' : 's'} waiting to sync.`
+              : 'All changes are saved.'}
+          </p>
+          {status.lastSyncedAt && <p>Last synced {formatDistanceToNow(status.lastSyncedAt, { addSuffix: true })}.</p>}
+          {status.conflicts > 0 && <p>{status.conflicts} offline change{status.conflicts === 1 ? ' was' : 's were'} skipped because a newer version existed.</p>}
+          {status.lastError && <p className="text-destructive">{status.lastError}</p>}
+          <p className="text-muted-foreground">Click to sync now.</p>
+        </div>
+      </TooltipContent>
+    </Tooltip>
+  );
+};
+
+export default SyncStatusIndicator;
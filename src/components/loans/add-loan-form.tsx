@@ -15,7 +15,8 @@ import { Calendar } from "@/components/ui/calendar";
 import { CalendarIcon } from 'lucide-react';
 import { cn } from "@/lib/utils";
 import { format as formatDateFns, parseISO } from 'date-fns';
-import { supportedCurrencies, getCurrencySymbol } from '@/lib/currency';
+import { supportedCurrencies, getCurrencySymbol, formatCurrency } from '@/lib/currency';
+import { calculateMonthlyPayment } from '@/lib/loan-amortization';
 import type { NewLoanData, LoanType } from '@/services/loans';
 import { loanTypeLabels } from '@/services/loans';
 import { Textarea } from '@/components/ui/textarea';
@@ -70,6 +71,10 @@ const AddLoanForm: FC<AddLoanFormProps> = ({ onSubmit: passedOnSubmit, isLoading
   });
 
   const selectedCurrency = form.watch('currency');
+  const [watchedAmount, watchedRate, watchedTerm] = form.watch(['originalAmount', 'interestRate', 'termMonths']);
+  const suggestedPayment = Number(watchedAmount) > 0 && Number(watchedTerm) > 0 && Number(watchedRate) >= 0
+    ? calculateMonthlyPayment(Number(watchedAmount), Number(watchedRate), Number(watchedTerm))
+    : null;
 
   const handleFormSubmit = async (data: AddLoanFormData) => {
     const loanDataToSave: NewLoanData = {
@@ -241,6 +246,12 @@ const AddLoanForm: FC<AddLoanFormProps> = ({ onSubmit: passedOnSubmit, isLoading
                     <FormControl>
                     <Input type="number" placeholder="250.00" step="0.01" {...field} value={field.value ?? ''}/>
                     </FormControl>
+                    {suggestedPayment !== null && (
+                      <FormDescription>
+                        Fully amortizing payment: {formatCurrency(suggestedPayment, selectedCurrency, selectedCurrency, false)}.{' '}
+                        <button type="button" className="underline" onClick={() => form.setValue('monthlyPayment', suggestedPayment, { shouldValidate: true })}>Use it</button>
+                      </FormDescription>
+                    )}
                     <FormMessage />
                 </FormItem>
                 )}
@@ -0,0 +1,137 @@
+'use client';
+
+import type { FC } from 'react';
+import { useMemo, useState } from 'react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Trash2 } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { formatCurrency } from '@/lib/currency';
+import { buildAmortizationSchedule, type LoanRateChange } from '@/lib/loan-amortization';
+import type { Loan } from '@/services/loans';
+
+interface LoanScheduleProps {
+  loan: Loan;
+  onAddRateChange: (change: LoanRateChange) => Promise<void> | void;
+  onDeleteRateChange: (effectiveDate: string) => Promise<void> | void;
+  isSaving: boolean;
+}
+
+const LoanSchedule: FC<LoanScheduleProps> = ({ loan, onAddRateChange, onDeleteRateChange, isSaving }) => {
+  const [extraMonthly, setExtraMonthly] = useState('');
+  const [rateChangeDate, setRateChangeDate] = useState(loan.nextPaymentDate);
+  const [rateChangeRate, setRateChangeRate] = useState('');
+  const [rateChangePayment, setRateChangePayment] = useState('');
+
+  const baseSchedule = useMemo(() => buildAmortizationSchedule(loan), [loan]);
+  const extraAmount = parseFloat(extraMonthly) > 0 ? parseFloat(extraMonthly) : 0;
+  const schedule = useMemo(() => buildAmortizationSchedule(loan, extraAmount), [loan, extraAmount]);
+  const interestSaved = baseSchedule.remainingInterest - schedule.remainingInterest;
+
+  const fmt = (amount: number) => formatCurrency(amount, loan.currency, loan.currency, false);
+
+  const handleAddRateChange = async () => {
+    const annualRate = parseFloat(rateChangeRate);
+    if (!rateChangeDate || isNaN(annualRate)) return;
+    const monthlyPayment = parseFloat(rateChangePayment);
+    await onAddRateChange({ effectiveDate: rateChangeDate, annualRate, monthlyPayment: monthlyPayment > 0 ? monthlyPayment : null });
+    setRateChangeRate('');
+    setRateChangePayment('');
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+        <div><p className="text-muted-foreground">Payoff Date</p><p className="font-semibold">{schedule.payoffDate ? format(parseISO(schedule.payoffDate), 'MMM yyyy') : 'Never'}</p></div>
+        <div><p className="text-muted-foreground">Remaining Balance</p><p className="font-semibold">{fmt(loan.remainingBalance)}</p></div>
+        <div><p className="text-muted-foreground">Remaining Interest</p><p className="font-semibold">{fmt(schedule.remainingInterest)}</p></div>
+        <div><p className="text-muted-foreground">Payments Left</p><p className="font-semibold">{schedule.rows.filter(r => !r.isPosted).length}</p></div>
+      </div>
+
+      {schedule.isNegativelyAmortizing && (
+        <p className="text-sm text-destructive">The scheduled payment does not cover the monthly interest, so this loan will never be paid off at the current terms.</p>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor={`extra-${loan.id}`}>What if I pay extra each month?</Label>
+          <Input id={`extra-${loan.id}`} type="number" step="0.01" placeholder="0.00" value={extraMonthly} onChange={e => setExtraMonthly(e.target.value)} />
+          {extraAmount > 0 && baseSchedule.payoffDate && schedule.payoffDate && (
+            <p className="text-xs text-muted-foreground">
+              Paid off {format(parseISO(schedule.payoffDate), 'MMM yyyy')} instead of {format(parseISO(baseSchedule.payoffDate), 'MMM yyyy')}, saving {fmt(interestSaved)} in interest.
+            </p>
+          )}
+        </div>
+        <div className="space-y-2">
+          <Label>Rate Changes</Label>
+          {(loan.rateChanges || []).length > 0 ? (
+            <ul className="text-sm space-y-1">
+              {(loan.rateChanges || []).map(change => (
+                <li key={change.effectiveDate} className="flex items-center justify-between">
+                  <span>
+                    From {format(parseISO(change.effectiveDate), 'MMM dd, yyyy')}: {change.annualRate.toFixed(2)}%
+                    {change.monthlyPayment ? `, payment ${fmt(change.monthlyPayment)}` : ''}
+                  </span>
+                  <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => onDeleteRateChange(change.effectiveDate)} disabled={isSaving}>
+                    <span className="sr-only">Remove rate change</span>
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-xs text-muted-foreground">Fixed at {loan.interestRate.toFixed(2)}%.</p>
+          )}
+          <div className="grid grid-cols-3 gap-2">
+            <Input type="date" value={rateChangeDate} onChange={e => setRateChangeDate(e.target.value)} aria-label="Effective date" />
+            <Input type="number" step="0.01" placeholder="Rate %" value={rateChangeRate} onChange={e => setRateChangeRate(e.target.value)} aria-label="New annual rate" />
+            <Input type="number" step="0.01" placeholder="Payment (opt.)" value={rateChangePayment} onChange={e => setRateChangePayment(e.target.value)} aria-label="New monthly payment" />
+          </div>
+          <Button variant="outline" size="sm" onClick={handleAddRateChange} disabled={isSaving || !rateChangeDate || rateChangeRate === ''}>
+            Add Rate Change
+          </Button>
+        </div>
+      </div>
+
+      <ScrollArea className="h-80 rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>#</TableHead>
+              <TableHead>Date</TableHead>
+              <TableHead className="text-right">Rate</TableHead>
+              <TableHead className="text-right">Payment</TableHead>
+              <TableHead className="text-right">Interest</TableHead>
+              <TableHead className="text-right">Principal</TableHead>
+              <TableHead className="text-right">Extra</TableHead>
+              <TableHead className="text-right">Balance</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {schedule.rows.map(row => (
+              <TableRow key={`${row.period}-${row.date}`} className={row.isPosted ? 'bg-muted/40' : undefined}>
+                <TableCell>
+                  {row.period}
+                  {row.isPosted && <Badge variant="secondary" className="ml-2 text-[10px]">Paid</Badge>}
+                </TableCell>
+                <TableCell className="whitespace-nowrap">{format(parseISO(row.date), 'MMM dd, yyyy')}</TableCell>
+                <TableCell className="text-right">{row.annualRate.toFixed(2)}%</TableCell>
+                <TableCell className="text-right">{fmt(row.payment)}</TableCell>
+                <TableCell className="text-right">{fmt(row.interest)}</TableCell>
+                <TableCell className="text-right">{fmt(row.principal)}</TableCell>
+                <TableCell className="text-right">{row.extraPrincipal > 0 ? fmt(row.extraPrincipal) : '-'}</TableCell>
+                <TableCell className="text-right">{fmt(row.balance)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </ScrollArea>
+    </div>
+  );
+};
+
+export default LoanSchedule;
@@ -0,0 +1,169 @@
+'use client';
+
+import type { FC } from 'react';
+import { useMemo } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Calendar } from "@/components/ui/calendar";
+import { CalendarIcon } from 'lucide-react';
+import { cn } from "@/lib/utils";
+import { format as formatDateFns, parseISO } from 'date-fns';
+import { formatCurrency, getCurrencySymbol } from '@/lib/currency';
+import { buildAmortizationSchedule, splitLoanPayment } from '@/lib/loan-amortization';
+import type { Loan, LoanPaymentInput } from '@/services/loans';
+import type { Account } from '@/services/account-sync';
+
+const formSchema = z.object({
+  accountId: z.string().min(1, "Select the account the payment comes from"),
+  date: z.date({ required_error: "Payment date is required" }),
+  payment: z.coerce.number({ invalid_type_error: "Payment must be a number" }).positive("Payment must be positive"),
+  extraPrincipal: z.coerce.number({ invalid_type_error: "Extra principal must be a number" }).min(0, "Extra principal cannot be negative").optional(),
+});
+
+export type PostLoanPaymentFormData = z.infer<typeof formSchema>;
+
+interface PostLoanPaymentFormProps {
+  loan: Loan;
+  accounts: Account[];
+  onSubmit: (data: LoanPaymentInput) => Promise<void> | void;
+  isLoading: boolean;
+}
+
+const PostLoanPaymentForm: FC<PostLoanPaymentFormProps> = ({ loan, accounts, onSubmit: passedOnSubmit, isLoading }) => {
+  const nextScheduled = useMemo(() => buildAmortizationSchedule(loan).rows.find(row => !row.isPosted), [loan]);
+
+  const form = useForm<PostLoanPaymentFormData>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      accountId: accounts.length === 1 ? accounts[0].id : "",
+      date: parseISO(loan.nextPaymentDate),
+      payment: nextScheduled?.payment ?? loan.monthlyPayment,
+      extraPrincipal: 0,
+    },
+  });
+
+  const paymentValue = form.watch('payment');
+  const extraValue = form.watch('extraPrincipal');
+  const preview = nextScheduled
+    ? splitLoanPayment(loan.remainingBalance, nextScheduled.annualRate, Number(paymentValue) || 0, Number(extraValue) || 0)
+    : null;
+
+  const handleFormSubmit = async (data: PostLoanPaymentFormData) => {
+    await passedOnSubmit({
+      accountId: data.accountId,
+      date: formatDateFns(data.date, 'yyyy-MM-dd'),
+      payment: data.payment,
+      extraPrincipal: data.extraPrincipal || 0,
+    });
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleFormSubmit)} className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="accountId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Pay From Account</FormLabel>
+                <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select account" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {accounts.map(acc => (
+                      <SelectItem key={acc.id} value={acc.id}>
+                        {acc.name} ({acc.currency})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="date"
+            render={({ field }) => (
+              <FormItem className="flex flex-col">
+                <FormLabel>Payment Date</FormLabel>
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <FormControl>
+                      <Button
+                        variant={"outline"}
+                        className={cn("w-full pl-3 text-left font-normal", !field.value && "text-muted-foreground")}
+                      >
+                        {field.value ? formatDateFns(field.value, "PPP") : <span>Pick a date</span>}
+                        <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                      </Button>
+                    </FormControl>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-auto p-0" align="start">
+                    <Calendar mode="single" selected={field.value} onSelect={field.onChange} initialFocus />
+                  </PopoverContent>
+                </Popover>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="payment"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Payment ({getCurrencySymbol(loan.currency)})</FormLabel>
+                <FormControl>
+                  <Input type="number" step="0.01" {...field} value={field.value ?? ''} />
+                </FormControl>
+                <FormDescription>Scheduled: {formatCurrency(nextScheduled?.payment ?? loan.monthlyPayment, loan.currency, loan.currency, false)}</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="extraPrincipal"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Extra Principal ({getCurrencySymbol(loan.currency)})</FormLabel>
+                <FormControl>
+                  <Input type="number" step="0.01" placeholder="0.00" {...field} value={field.value ?? ''} />
+                </FormControl>
+                <FormDescription>Paid on top of the scheduled payment and applied to principal only.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        {preview && (
+          <div className="rounded-md border p-3 text-sm grid grid-cols-2 gap-x-4 gap-y-1">
+            <div><strong>Interest:</strong> {formatCurrency(preview.interest, loan.currency, loan.currency, false)}</div>
+            <div><strong>Principal:</strong> {formatCurrency(preview.principal + preview.extraPrincipal, loan.currency, loan.currency, false)}</div>
+            <div><strong>Total Paid:</strong> {formatCurrency(preview.payment + preview.extraPrincipal, loan.currency, loan.currency, false)}</div>
+            <div><strong>Balance After:</strong> {formatCurrency(preview.balanceAfter, loan.currency, loan.currency, false)}</div>
+          </div>
+        )}
+
+        <Button type="submit" className="w-full" disabled={isLoading}>
+          {isLoading ? "Posting..." : "Post Payment"}
+        </Button>
+      </form>
+    </Form>
+  );
+};
+
+export default PostLoanPaymentForm;
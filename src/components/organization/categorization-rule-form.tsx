@@ -0,0 +1,283 @@
+'use client';
+
+import type { FC } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { cn } from "@/lib/utils";
+import { supportedCurrencies } from '@/lib/currency';
+import { getRegexError } from '@/lib/categorization-rules';
+import type { CategorizationRule, NewCategorizationRuleData } from '@/services/categorization-rules';
+import type { Category } from '@/services/categories';
+import type { Tag } from '@/services/tags';
+import type { Account } from '@/services/account-sync';
+
+// Select items cannot have an empty value, so "no constraint" / "leave unchanged" get a sentinel.
+const ANY_VALUE = '__any__';
+
+const optionalAmount = z.preprocess(
+  value => (value === '' || value === null || value === undefined ? undefined : value),
+  z.coerce.number({ invalid_type_error: "Amount must be a number" }).nonnegative("Amount cannot be negative").optional()
+);
+
+const formSchema = z.object({
+  name: z.string().trim().min(1, "Rule name cannot be empty").max(60, "Rule name too long"),
+  isActive: z.boolean().default(true),
+  descriptionContains: z.string().max(100, "Text too long").optional(),
+  descriptionRegex: z.string().max(200, "Pattern too long").optional()
+    .refine(value => !value || !getRegexError(value), value => ({ message: getRegexError(value || '') || 'Invalid regular expression.' })),
+  minAmount: optionalAmount,
+  maxAmount: optionalAmount,
+  accountId: z.string(),
+  currency: z.string(),
+  category: z.string(),
+  tags: z.array(z.string()),
+  description: z.string().max(100, "Description too long").optional(),
+}).refine(data => !!(data.descriptionContains?.trim() || data.descriptionRegex?.trim() || data.minAmount !== undefined || data.maxAmount !== undefined
+    || data.accountId !== ANY_VALUE || data.currency !== ANY_VALUE), {
+  message: "Add at least one condition.",
+  path: ['descriptionContains'],
+}).refine(data => data.category !== ANY_VALUE || data.tags.length > 0 || !!data.description?.trim(), {
+  message: "Choose a category, tags or a new description to apply.",
+  path: ['category'],
+}).refine(data => data.minAmount === undefined || data.maxAmount === undefined || data.minAmount <= data.maxAmount, {
+  message: "Maximum must be greater than or equal to the minimum.",
+  path: ['maxAmount'],
+});
+
+type CategorizationRuleFormData = z.infer<typeof formSchema>;
+
+interface CategorizationRuleFormProps {
+  onSubmit: (data: NewCategorizationRuleData) => Promise<void> | void;
+  isLoading: boolean;
+  categories: Category[];
+  tags: Tag[];
+  accounts: Account[];
+  initialData?: CategorizationRule;
+}
+
+const CategorizationRuleForm: FC<CategorizationRuleFormProps> = ({ onSubmit, isLoading, categories, tags, accounts, initialData }) => {
+  const form = useForm<CategorizationRuleFormData>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      name: initialData?.name || "",
+      isActive: initialData?.isActive ?? true,
+      descriptionContains: initialData?.conditions.descriptionContains || "",
+      descriptionRegex: initialData?.conditions.descriptionRegex || "",
+      minAmount: initialData?.conditions.minAmount ?? undefined,
+      maxAmount: initialData?.conditions.maxAmount ?? undefined,
+      accountId: initialData?.conditions.accountId || ANY_VALUE,
+      currency: initialData?.conditions.currency || ANY_VALUE,
+      category: initialData?.actions.category || ANY_VALUE,
+      tags: initialData?.actions.tags || [],
+      description: initialData?.actions.description || "",
+    },
+  });
+
+  const handleFormSubmit = async (data: CategorizationRuleFormData) => {
+    await onSubmit({
+      name: data.name,
+      isActive: data.isActive,
+      conditions: {
+        descriptionContains: data.descriptionContains?.trim() || null,
+        descriptionRegex: data.descriptionRegex?.trim() || null,
+        minAmount: data.minAmount ?? null,
+        maxAmount: data.maxAmount ?? null,
+        accountId: data.accountId === ANY_VALUE ? null : data.accountId,
+        currency: data.currency === ANY_VALUE ? null : data.currency,
+      },
+      actions: {
+        category: data.category === ANY_VALUE ? null : data.category,
+        tags: data.tags,
+        description: data.description?.trim() || null,
+      },
+    });
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleFormSubmit)} className="space-y-4 max-h-[70vh] overflow-y-auto pr-1">
+        <div className="flex items-end gap-4">
+          <FormField
+            control={form.control}
+            name="name"
+            render={({ field }) => (
+              <FormItem className="flex-grow">
+                <FormLabel>Rule Name</FormLabel>
+                <FormControl><Input placeholder="e.g., Supermarkets" {...field} /></FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="isActive"
+            render={({ field }) => (
+              <FormItem className="flex items-center gap-2 space-y-0 pb-2">
+                <FormControl><Switch checked={field.value} onCheckedChange={field.onChange} /></FormControl>
+                <FormLabel className="font-normal">Active</FormLabel>
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="space-y-3 rounded-md border p-3">
+          <p className="text-sm font-medium">When a transaction matches all of</p>
+          <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+            <FormField
+              control={form.control}
+              name="descriptionContains"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description contains</FormLabel>
+                  <FormControl><Input placeholder="e.g., uber" {...field} value={field.value ?? ''} /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="descriptionRegex"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description matches (regex)</FormLabel>
+                  <FormControl><Input placeholder="e.g., ^PIX\s+(.*)$" {...field} value={field.value ?? ''} /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="minAmount"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Minimum amount</FormLabel>
+                  <FormControl><Input type="number" step="0.01" placeholder="Any" {...field} value={field.value ?? ''} /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="maxAmount"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Maximum amount</FormLabel>
+                  <FormControl><Input type="number" step="0.01" placeholder="Any" {...field} value={field.value ?? ''} /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="accountId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Account</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                    <SelectContent>
+                      <SelectItem value={ANY_VALUE}>Any account</SelectItem>
+                      {accounts.map(account => <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="currency"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Currency</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                    <SelectContent>
+                      <SelectItem value={ANY_VALUE}>Any currency</SelectItem>
+                      {supportedCurrencies.map(currency => <SelectItem key={currency} value={currency}>{currency}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+          <FormDescription>Amounts are compared without their sign, so a range applies to both expenses and income.</FormDescription>
+        </div>
+
+        <div className="space-y-3 rounded-md border p-3">
+          <p className="text-sm font-medium">Then</p>
+          <FormField
+            control={form.control}
+            name="category"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Set category</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                  <SelectContent>
+                    <SelectItem value={ANY_VALUE}>Leave unchanged</SelectItem>
+                    {categories.map(category => <SelectItem key={category.id} value={category.name}>{category.name}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+                <FormDescription>Only applied to uncategorized transactions unless you re-run rules with overwriting enabled.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="tags"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Add tags</FormLabel>
+                <div className="flex flex-wrap gap-2">
+                  {tags.length === 0 && <span className="text-xs text-muted-foreground">No tags created yet.</span>}
+                  {tags.map(tag => {
+                    const isSelected = field.value.includes(tag.name);
+                    return (
+                      <Badge
+                        key={tag.id}
+                        variant={isSelected ? "default" : "outline"}
+                        className={cn("cursor-pointer", !isSelected && "text-muted-foreground")}
+                        onClick={() => field.onChange(isSelected ? field.value.filter(name => name !== tag.name) : [...field.value, tag.name])}
+                      >
+                        #{tag.name}
+                      </Badge>
+                    );
+                  })}
+                </div>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="description"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Rename description to</FormLabel>
+                <FormControl><Input placeholder="e.g., Pix transfer: $1" {...field} value={field.value ?? ''} /></FormControl>
+                <FormDescription>Leave empty to keep the description. $1, $2... insert the groups captured by the regex.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <Button type="submit" className="w-full" disabled={isLoading}>
+          {isLoading ? "Saving..." : initialData ? "Save Rule" : "Add Rule"}
+        </Button>
+      </form>
+    </Form>
+  );
+};
+
+export default CategorizationRuleForm;
@@ -0,0 +1,323 @@
+'use client';
+
+import type { FC } from 'react';
+import { useState, useEffect, useCallback } from 'react';
+import { format as formatDateFns, startOfMonth } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { Skeleton } from '@/components/ui/skeleton';
+import { PlusCircle, Edit, Trash2, ArrowUp, ArrowDown, Wand2 } from 'lucide-react';
+import { useToast } from "@/hooks/use-toast";
+import {
+  getCategorizationRules, addCategorizationRule, updateCategorizationRule, deleteCategorizationRule,
+  reorderCategorizationRules, getRuleMatchMode, setRuleMatchMode, rerunCategorizationRules,
+  type CategorizationRule, type NewCategorizationRuleData, type RuleMatchMode,
+} from '@/services/categorization-rules';
+import { getAccounts, type Account } from '@/services/account-sync';
+import type { Category } from '@/services/categories';
+import type { Tag } from '@/services/tags';
+import { RULE_MATCH_MODE_LABELS } from '@/lib/categorization-rules';
+import CategorizationRuleForm from './categorization-rule-form';
+
+interface CategorizationRulesCardProps {
+  categories: Category[];
+  tags: Tag[];
+}
+
+function describeRule(rule: CategorizationRule, accounts: Account[]): string {
+  const { conditions, actions } = rule;
+  const when: string[] = [];
+  if (conditions.descriptionContains) when.push(`description contains "${conditions.descriptionContains}"`);
+  if (conditions.descriptionRegex) when.push(`description matches /${conditions.descriptionRegex}/`);
+  if (conditions.minAmount != null && conditions.maxAmount != null) when.push(`amount between ${conditions.minAmount} and ${conditions.maxAmount}`);
+  else if (conditions.minAmount != null) when.push(`amount at least ${conditions.minAmount}`);
+  else if (conditions.maxAmount != null) when.push(`amount up to ${conditions.maxAmount}`);
+  if (conditions.accountId) when.push(`account is ${accounts.find(acc => acc.id === conditions.accountId)?.name || 'a deleted account'}`);
+  if (conditions.currency) when.push(`currency is ${conditions.currency}`);
+
+  const then: string[] = [];
+  if (actions.category) then.push(`set category to ${actions.category}`);
+  if (actions.tags && actions.tags.length > 0) then.push(`add ${actions.tags.map(tag => `#${tag}`).join(', ')}`);
+  if (actions.description) then.push(`rename to "${actions.description}"`);
+
+  return `When ${when.join(' and ')}, ${then.join(', ')}.`;
+}
+
+const CategorizationRulesCard: FC<CategorizationRulesCardProps> = ({ categories, tags }) => {
+  const [rules, setRules] = useState<CategorizationRule[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [matchMode, setMatchMode] = useState<RuleMatchMode>('first');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [ruleToEdit, setRuleToEdit] = useState<CategorizationRule | null>(null);
+  const [ruleToDelete, setRuleToDelete] = useState<CategorizationRule | null>(null);
+
+  const [isRerunOpen, setIsRerunOpen] = useState(false);
+  const [rerunFrom, setRerunFrom] = useState(formatDateFns(startOfMonth(new Date()), 'yyyy-MM-dd'));
+  const [rerunTo, setRerunTo] = useState(formatDateFns(new Date(), 'yyyy-MM-dd'));
+  const [rerunOverwrite, setRerunOverwrite] = useState(false);
+  const [isRerunning, setIsRerunning] = useState(false);
+
+  const { toast } = useToast();
+
+  const fetchRules = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const [fetchedRules, fetchedMatchMode, fetchedAccounts] = await Promise.all([getCategorizationRules(), getRuleMatchMode(), getAccounts()]);
+      setRules(fetchedRules);
+      setMatchMode(fetchedMatchMode);
+      setAccounts(fetchedAccounts.sort((a, b) => a.name.localeCompare(b.name)));
+    } catch (err) {
+      console.error("Failed to fetch categorization rules:", err);
+      setError("Could not load categorization rules.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  const openAddDialog = () => { setRuleToEdit(null); setIsFormOpen(true); };
+  const openEditDialog = (rule: CategorizationRule) => { setRuleToEdit(rule); setIsFormOpen(true); };
+
+  const handleSaveRule = async (data: NewCategorizationRuleData) => {
+    setIsSaving(true);
+    try {
+      if (ruleToEdit) {
+        await updateCategorizationRule({ ...ruleToEdit, ...data });
+        toast({ title: "Success", description: `Rule "${data.name}" updated.` });
+      } else {
+        await addCategorizationRule(data);
+        toast({ title: "Success", description: `Rule "${data.name}" added.` });
+      }
+      setIsFormOpen(false);
+      setRuleToEdit(null);
+      await fetchRules();
+    } catch (err: any) {
+      console.error("Failed to save categorization rule:", err);
+      toast({ title: "Error Saving Rule", description: err.message || "Could not save rule.", variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (rule: CategorizationRule, isActive: boolean) => {
+    setRules(prev => prev.map(r => (r.id === rule.id ? { ...r, isActive } : r)));
+    try {
+      await updateCategorizationRule({ ...rule, isActive });
+    } catch (err: any) {
+      console.error("Failed to toggle categorization rule:", err);
+      toast({ title: "Error Updating Rule", description: err.message || "Could not update rule.", variant: "destructive" });
+      fetchRules();
+    }
+  };
+
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    const targetIndex = index + direction;
+    if (targetIndex < 0 || targetIndex >= rules.length) return;
+    const reordered = [...rules];
+    [reordered[index], reordered[targetIndex]] = [reordered[targetIndex], reordered[index]];
+    setRules(reordered.map((rule, order) => ({ ...rule, order })));
+    try {
+      await reorderCategorizationRules(reordered.map(rule => rule.id));
+    } catch (err: any) {
+      console.error("Failed to reorder categorization rules:", err);
+      toast({ title: "Error Reordering Rules", description: err.message || "Could not reorder rules.", variant: "destructive" });
+      fetchRules();
+    }
+  };
+
+  const handleDeleteConfirm = async () => {
+    if (!ruleToDelete) return;
+    setIsSaving(true);
+    try {
+      await deleteCategorizationRule(ruleToDelete.id);
+      toast({ title: "Rule Deleted", description: `Rule "${ruleToDelete.name}" removed.` });
+      await fetchRules();
+    } catch (err: any) {
+      console.error("Failed to delete categorization rule:", err);
+      toast({ title: "Error Deleting Rule", description: err.message || "Could not delete rule.", variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+      setRuleToDelete(null);
+    }
+  };
+
+  const handleMatchModeChange = async (value: string) => {
+    const mode = value as RuleMatchMode;
+    const previous = matchMode;
+    setMatchMode(mode);
+    try {
+      await setRuleMatchMode(mode);
+    } catch (err: any) {
+      console.error("Failed to save rule match mode:", err);
+      setMatchMode(previous);
+      toast({ title: "Error", description: err.message || "Could not save the match mode.", variant: "destructive" });
+    }
+  };
+
+  const handleRerun = async () => {
+    if (!rerunFrom || !rerunTo || rerunFrom > rerunTo) {
+      toast({ title: "Invalid Range", description: "Choose a start date on or before the end date.", variant: "destructive" });
+      return;
+    }
+    setIsRerunning(true);
+    try {
+      const updatedCount = await rerunCategorizationRules({ from: rerunFrom, to: rerunTo, overwriteCategories: rerunOverwrite });
+      toast({ title: "Rules Applied", description: `${updatedCount} transaction(s) updated.` });
+      setIsRerunOpen(false);
+      if (updatedCount > 0) window.dispatchEvent(new Event('storage'));
+    } catch (err: any) {
+      console.error("Failed to re-run categorization rules:", err);
+      toast({ title: "Error Applying Rules", description: err.message || "Could not apply rules.", variant: "destructive" });
+    } finally {
+      setIsRerunning(false);
+    }
+  };
+
+  return (
+    <Card className="mt-8">
+      <CardHeader>
+        <div className="flex flex-wrap justify-between items-center gap-2">
+          <CardTitle>Categorization Rules</CardTitle>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => setIsRerunOpen(true)} disabled={rules.length === 0}>
+              <Wand2 className="mr-2 h-4 w-4" /> Re-run Rules
+            </Button>
+            <Button variant="default" size="sm" onClick={openAddDialog}>
+              <PlusCircle className="mr-2 h-4 w-4" /> Add New Rule
+            </Button>
+          </div>
+        </div>
+        <CardDescription>
+          Rules categorize, tag and clean up descriptions of new and imported transactions automatically. They run from top to bottom.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <div className="p-4 bg-destructive/10 text-destructive border border-destructive rounded-md">{error}</div>}
+        <div className="flex items-center gap-3">
+          <Label className="whitespace-nowrap">Apply</Label>
+          <Select value={matchMode} onValueChange={handleMatchModeChange}>
+            <SelectTrigger className="w-[260px]"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {(Object.keys(RULE_MATCH_MODE_LABELS) as RuleMatchMode[]).map(mode => (
+                <SelectItem key={mode} value={mode}>{RULE_MATCH_MODE_LABELS[mode]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {isLoading && rules.length === 0 ? (
+          <div className="space-y-2">
+            {[...Array(3)].map((_, i) => <Skeleton key={i} className="h-14 w-full" />)}
+          </div>
+        ) : rules.length > 0 ? (
+          <div className="divide-y rounded-md border">
+            {rules.map((rule, index) => (
+              <div key={rule.id} className="flex items-center gap-3 p-3">
+                <div className="flex flex-col">
+                  <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => handleMove(index, -1)} disabled={index === 0}>
+                    <ArrowUp className="h-3.5 w-3.5" /><span className="sr-only">Move up</span>
+                  </Button>
+                  <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => handleMove(index, 1)} disabled={index === rules.length - 1}>
+                    <ArrowDown className="h-3.5 w-3.5" /><span className="sr-only">Move down</span>
+                  </Button>
+                </div>
+                <div className="flex-grow min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium truncate">{rule.name}</span>
+                    {!rule.isActive && <Badge variant="outline">Inactive</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground">{describeRule(rule, accounts)}</p>
+                </div>
+                <Switch checked={rule.isActive} onCheckedChange={(checked) => handleToggleActive(rule, checked)} aria-label="Rule active" />
+                <Button variant="ghost" size="icon" className="h-7 w-7 text-muted-foreground hover:text-primary" onClick={() => openEditDialog(rule)}>
+                  <Edit className="h-4 w-4" /><span className="sr-only">Edit</span>
+                </Button>
+                <Button variant="ghost" size="icon" className="h-7 w-7 text-muted-foreground hover:text-destructive" onClick={() => setRuleToDelete(rule)}>
+                  <Trash2 className="h-4 w-4" /><span className="sr-only">Delete</span>
+                </Button>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-10"><p className="text-muted-foreground">No categorization rules yet.</p></div>
+        )}
+      </CardContent>
+
+      <Dialog open={isFormOpen} onOpenChange={(open) => { setIsFormOpen(open); if (!open) setRuleToEdit(null); }}>
+        <DialogContent className="sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{ruleToEdit ? 'Edit Rule' : 'Add New Rule'}</DialogTitle>
+            <DialogDescription>Describe the transactions to match and what to change on them.</DialogDescription>
+          </DialogHeader>
+          <CategorizationRuleForm
+            key={ruleToEdit?.id || 'new'}
+            onSubmit={handleSaveRule}
+            isLoading={isSaving}
+            categories={categories}
+            tags={tags}
+            accounts={accounts}
+            initialData={ruleToEdit || undefined}
+          />
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={isRerunOpen} onOpenChange={setIsRerunOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Re-run Rules</DialogTitle>
+            <DialogDescription>Apply the active rules to existing transactions dated within a range.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="rules-rerun-from">From</Label>
+                <Input id="rules-rerun-from" type="date" value={rerunFrom} onChange={(e) => setRerunFrom(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="rules-rerun-to">To</Label>
+                <Input id="rules-rerun-to" type="date" value={rerunTo} onChange={(e) => setRerunTo(e.target.value)} />
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch id="rules-rerun-overwrite" checked={rerunOverwrite} onCheckedChange={setRerunOverwrite} />
+              <Label htmlFor="rules-rerun-overwrite" className="font-normal">Overwrite categories that are already set</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsRerunOpen(false)} disabled={isRerunning}>Cancel</Button>
+            <Button onClick={handleRerun} disabled={isRerunning}>{isRerunning ? "Applying..." : "Apply Rules"}</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!ruleToDelete} onOpenChange={(isOpen) => { if (!isOpen) setRuleToDelete(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Are you sure?</AlertDialogTitle>
+            <AlertDialogDescription>This will permanently delete the rule "{ruleToDelete?.name}". Transactions it already changed are kept as they are.</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isSaving}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDeleteConfirm} disabled={isSaving} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">{isSaving ? "Deleting..." : "Delete Rule"}</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
+
+export default CategorizationRulesCard;
@@ -0,0 +1,132 @@
+'use client';
+
+import type { FC } from 'react';
+import { useState, useEffect } from 'react';
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Skeleton } from '@/components/ui/skeleton';
+import { describeReferenceChanges, getTotalReferenceChanges, type ReferenceChangeCounts } from '@/lib/reference-rewrites';
+
+const NO_TARGET = 'none';
+
+export interface ReassignTarget {
+  id: string;
+  label: string;
+}
+
+interface ReassignReferencesDialogProps {
+  mode: 'merge' | 'delete';
+  itemKind: 'category' | 'tag';
+  itemName: string | null; // The dialog is open while set
+  targets: ReassignTarget[]; // Everything the item can be merged into
+  noTargetLabel: string; // What deleting without a target does, e.g. "Move to Uncategorized"
+  onOpenChange: (open: boolean) => void;
+  loadPreview: (targetId: string | null) => Promise<ReferenceChangeCounts>; // Should be memoized; it is re-run when it changes
+  onConfirm: (targetId: string | null) => Promise<void>;
+}
+
+/**
+ * Merges a category or tag into another, or deletes it, after showing how many records will be
+ * rewritten. Merging requires a target; deleting offers one as an option.
+ */
+const ReassignReferencesDialog: FC<ReassignReferencesDialogProps> = ({
+  mode, itemKind, itemName, targets, noTargetLabel, onOpenChange, loadPreview, onConfirm,
+}) => {
+  const [targetId, setTargetId] = useState<string>(NO_TARGET);
+  const [preview, setPreview] = useState<ReferenceChangeCounts | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const isOpen = itemName !== null;
+  const selectedTargetId = targetId === NO_TARGET ? null : targetId;
+  const canConfirm = mode === 'delete' || selectedTargetId !== null;
+
+  useEffect(() => {
+    if (isOpen) setTargetId(NO_TARGET);
+  }, [isOpen, itemName]);
+
+  useEffect(() => {
+    if (!isOpen || !canConfirm) {
+      setPreview(null);
+      return;
+    }
+    let isCurrent = true;
+    setPreview(null);
+    setPreviewError(null);
+    loadPreview(selectedTargetId)
+      .then(counts => { if (isCurrent) setPreview(counts); })
+      .catch((err: any) => { if (isCurrent) setPreviewError(err.message || "Could not count the affected records."); });
+    return () => { isCurrent = false; };
+  }, [isOpen, selectedTargetId, canConfirm, loadPreview]);
+
+  const handleConfirm = async () => {
+    setIsSaving(true);
+    try {
+      await onConfirm(selectedTargetId);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const targetLabel = targets.find(target => target.id === selectedTargetId)?.label;
+  const title = mode === 'merge' ? `Merge "${itemName}"` : `Delete "${itemName}"`;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { if (!isSaving) onOpenChange(open); }}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            {mode === 'merge'
+              ? `Everything that uses this ${itemKind} will use the ${itemKind} you pick, and "${itemName}" will be deleted.`
+              : `Choose a ${itemKind} to reassign its transactions to, or leave it unassigned.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label>{mode === 'merge' ? "Merge into" : "Reassign to"}</Label>
+          <Select value={targetId} onValueChange={setTargetId}>
+            <SelectTrigger><SelectValue placeholder={`Select a ${itemKind}`} /></SelectTrigger>
+            <SelectContent>
+              {mode === 'delete' && <SelectItem value={NO_TARGET}>{noTargetLabel}</SelectItem>}
+              {targets.map(target => (
+                <SelectItem key={target.id} value={target.id}><span className="capitalize">{target.label}</span></SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="text-sm text-muted-foreground min-h-[2.5rem]">
+          {!canConfirm ? (
+            `Pick the ${itemKind} to merge into.`
+          ) : previewError ? (
+            <span className="text-destructive">{previewError}</span>
+          ) : !preview ? (
+            <Skeleton className="h-5 w-3/4" />
+          ) : getTotalReferenceChanges(preview) === 0 ? (
+            `No other records use "${itemName}".`
+          ) : (
+            <>
+              This will update {describeReferenceChanges(preview)}
+              {targetLabel ? <> to use <span className="font-medium capitalize">{targetLabel}</span></> : null}.
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>Cancel</Button>
+          <Button
+            onClick={handleConfirm}
+            disabled={!canConfirm || isSaving || !!previewError}
+            variant={mode === 'delete' ? 'destructive' : 'default'}
+          >
+            {isSaving ? "Saving..." : mode === 'merge' ? "Merge" : "Delete"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReassignReferencesDialog;
@@ -0,0 +1,164 @@
+'use client';
+
+import type { FC } from 'react';
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { SearchCheck, PlusCircle, Link2 } from 'lucide-react';
+import { useToast } from "@/hooks/use-toast";
+import { addCategory, type Category } from '@/services/categories';
+import { addTag, type Tag } from '@/services/tags';
+import {
+  getUnlinkedReferences, applyCategoryChange, applyTagChange,
+  type UnlinkedName, type UnlinkedReferences,
+} from '@/services/reference-rewrites';
+import { describeReferenceChanges } from '@/lib/reference-rewrites';
+import { flattenCategoryTree, getCategoryPath } from '@/lib/category-tree';
+
+interface UnlinkedReferencesCardProps {
+  categories: Category[];
+  tags: Tag[];
+}
+
+type UnlinkedKind = 'category' | 'tag';
+
+/**
+ * Finds category and tag names that transactions, subscriptions and rules still use but that no
+ * longer exist (left behind by older renames and deletes), and links them to an existing or new one.
+ */
+const UnlinkedReferencesCard: FC<UnlinkedReferencesCardProps> = ({ categories, tags }) => {
+  const [unlinked, setUnlinked] = useState<UnlinkedReferences | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [savingName, setSavingName] = useState<string | null>(null);
+  const [selectedTargets, setSelectedTargets] = useState<Record<string, string>>({});
+  const { toast } = useToast();
+
+  const checkReferences = async () => {
+    setIsChecking(true);
+    try {
+      setUnlinked(await getUnlinkedReferences());
+      setSelectedTargets({});
+    } catch (err: any) {
+      console.error("Failed to check category and tag references:", err);
+      toast({ title: "Error", description: err.message || "Could not check references.", variant: "destructive" });
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const rowKey = (kind: UnlinkedKind, name: string) => `${kind}:${name.toLowerCase()}`;
+
+  const handleRelink = async (kind: UnlinkedKind, entry: UnlinkedName) => {
+    const targetId = selectedTargets[rowKey(kind, entry.name)];
+    if (!targetId) return;
+    setSavingName(rowKey(kind, entry.name));
+    try {
+      const counts = kind === 'category'
+        ? await applyCategoryChange({ type: 'relink', name: entry.name, targetId })
+        : await applyTagChange({ type: 'relink', name: entry.name, targetId });
+      toast({ title: "References Updated", description: `"${entry.name}" relinked in ${describeReferenceChanges(counts)}.` });
+      window.dispatchEvent(new Event('storage'));
+      await checkReferences();
+    } catch (err: any) {
+      console.error("Failed to relink references:", err);
+      toast({ title: "Error", description: err.message || "Could not relink references.", variant: "destructive" });
+    } finally {
+      setSavingName(null);
+    }
+  };
+
+  // Records match categories and tags by name, so recreating the name links them again
+  const handleCreate = async (kind: UnlinkedKind, entry: UnlinkedName) => {
+    setSavingName(rowKey(kind, entry.name));
+    try {
+      if (kind === 'category') await addCategory(entry.name); else await addTag(entry.name);
+      toast({ title: "Success", description: `${kind === 'category' ? 'Category' : 'Tag'} "${entry.name}" created.` });
+      window.dispatchEvent(new Event('storage'));
+      await checkReferences();
+    } catch (err: any) {
+      console.error(`Failed to create ${kind}:`, err);
+      toast({ title: "Error", description: err.message || `Could not create ${kind}.`, variant: "destructive" });
+    } finally {
+      setSavingName(null);
+    }
+  };
+
+  const renderRows = (kind: UnlinkedKind, entries: UnlinkedName[]) => {
+    const options = kind === 'category'
+      ? flattenCategoryTree(categories).map(({ category }) => ({ id: category.id, label: getCategoryPath(category, categories) }))
+      : tags.map(tag => ({ id: tag.id, label: tag.name }));
+    return entries.map(entry => {
+      const key = rowKey(kind, entry.name);
+      const isSaving = savingName === key;
+      return (
+        <TableRow key={key}>
+          <TableCell>
+            <div className="font-medium">{kind === 'tag' ? `#${entry.name}` : entry.name}</div>
+            <Badge variant="outline" className="mt-1 text-xs">{kind === 'category' ? 'Category' : 'Tag'}</Badge>
+          </TableCell>
+          <TableCell className="text-right">{entry.count}</TableCell>
+          <TableCell>
+            <div className="flex items-center justify-end gap-2">
+              <Select value={selectedTargets[key] || ''} onValueChange={value => setSelectedTargets(prev => ({ ...prev, [key]: value }))}>
+                <SelectTrigger className="w-48"><SelectValue placeholder={`Link to ${kind}...`} /></SelectTrigger>
+                <SelectContent>
+                  {options.map(option => <SelectItem key={option.id} value={option.id}><span className="capitalize">{option.label}</span></SelectItem>)}
+                </SelectContent>
+              </Select>
+              <Button size="sm" variant="outline" onClick={() => handleRelink(kind, entry)} disabled={!selectedTargets[key] || savingName !== null}>
+                <Link2 className="mr-2 h-4 w-4" /> {isSaving ? "Saving..." : "Relink"}
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => handleCreate(kind, entry)} disabled={savingName !== null}>
+                <PlusCircle className="mr-2 h-4 w-4" /> Create
+              </Button>
+            </div>
+          </TableCell>
+        </TableRow>
+      );
+    });
+  };
+
+  const hasUnlinked = !!unlinked && (unlinked.categories.length > 0 || unlinked.tags.length > 0);
+
+  return (
+    <Card className="mt-8">
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <CardTitle>Reference Check</CardTitle>
+          <Button variant="outline" size="sm" onClick={checkReferences} disabled={isChecking}>
+            <SearchCheck className="mr-2 h-4 w-4" /> {isChecking ? "Checking..." : "Check References"}
+          </Button>
+        </div>
+        <CardDescription>
+          Finds category and tag names used by transactions, subscriptions and rules that match no existing category or tag.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {!unlinked ? (
+          <p className="text-sm text-muted-foreground">Run a check to find records that point at deleted or renamed categories and tags.</p>
+        ) : !hasUnlinked ? (
+          <p className="text-sm text-muted-foreground">Every category and tag in use exists.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead className="text-right">Used by</TableHead>
+                <TableHead className="text-right">Fix</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {renderRows('category', unlinked.categories)}
+              {renderRows('tag', unlinked.tags)}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default UnlinkedReferencesCard;
@@ -1,7 +1,7 @@
 'use client';
 
 import { FC, useMemo, useEffect } from 'react';
-import { useForm, Controller } from 'react-hook-form';
+import { useForm, useFieldArray, Controller } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 import { Button } from "@/components/ui/button";
@@ -11,14 +11,15 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Calendar } from "@/components/ui/calendar";
-import { CalendarIcon } from 'lucide-react';
+import { CalendarIcon, Globe, Split as SplitIcon, Trash2 } from 'lucide-react';
 import { cn } from "@/lib/utils";
 import { format as formatDateFns, parseISO } from 'date-fns';
 import type { Account } from '@/services/account-sync';
 import type { Category } from '@/services/categories';
 import type { Tag } from '@/services/tags';
-import type { Transaction } from '@/services/transactions';
-import { getCurrencySymbol, supportedCurrencies } from '@/lib/currency';
+import { SPLIT_CATEGORY, type Transaction } from '@/services/transactions';
+import { convertCurrency, getCurrencySymbol, supportedCurrencies } from '@/lib/currency';
+import { getAppliedFxRate } from '@/lib/foreign-currency';
 import { toast } from "@/hooks/use-toast";
 
 const transactionTypes = ['expense', 'income', 'transfer'] as const;
@@ -34,11 +35,24 @@ const baseSchema = z.object({
   ),
 });
 
+const splitLineSchema = z.object({
+  category: z.string().min(1, "Category is required"),
+  amount: z.coerce.number({ invalid_type_error: "Amount must be a number" }).positive("Amount must be positive"),
+  memo: z.string().max(100, "Memo too long").nullable().optional(),
+  tags: z.array(z.string()).optional(),
+});
+
 const expenseIncomeSchema = baseSchema.extend({
   type: z.enum(['expense', 'income']),
   accountId: z.string().min(1, "Account is required"),
   amount: z.coerce.number({ invalid_type_error: "Amount must be a number" }).positive("Amount must be positive"),
-  category: z.string().min(1, "Category is required"),
+  category: z.string().optional(),
+  // Split lines are entered as positive amounts; the transaction type sets their sign.
+  splits: z.array(splitLineSchema).nullable().optional(),
+  // Set for purchases made in another currency; `amount` is then what the account was charged
+  originalCurrency: z.string().nullable().optional(),
+  originalAmount: z.coerce.number({ invalid_type_error: "Original amount must be a number" }).min(0, "Original amount cannot be negative").nullable().optional(),
+  fxRate: z.coerce.number({ invalid_type_error: "Exchange rate must be a number" }).min(0, "Exchange rate cannot be negative").nullable().optional(),
 });
 
 const transferSchema = baseSchema.extend({
@@ -51,6 +65,7 @@ const transferSchema = baseSchema.extend({
       { message: "Unsupported destination currency" }
   ).optional(),
   exchangeRate: z.coerce.number({ invalid_type_error: "Exchange rate must be a number" }).positive("Exchange rate must be positive").optional(),
+  fee: z.coerce.number({ invalid_type_error: "Fee must be a number" }).min(0, "Fee cannot be negative").optional(),
 });
 
 const formSchema = z.discriminatedUnion('type', [
@@ -72,27 +87,71 @@ const formSchema = z.discriminatedUnion('type', [
 }, {
     message: "Exchange rate is required for cross-currency transfers.",
     path: ['exchangeRate'],
+}).refine(data => {
+    if (data.type !== 'transfer' && data.originalCurrency) {
+        return !!data.originalAmount && data.originalAmount > 0;
+    }
+    return true;
+}, {
+    message: "Enter the amount paid in the original currency.",
+    path: ['originalAmount'],
+}).refine(data => {
+    if (data.type !== 'transfer' && data.originalCurrency) {
+        return data.originalCurrency !== data.transactionCurrency;
+    }
+    return true;
+}, {
+    message: "Choose a currency other than the account's.",
+    path: ['originalCurrency'],
+}).refine(data => {
+    if (data.type !== 'transfer' && !(data.splits && data.splits.length > 0)) {
+        return !!data.category;
+    }
+    return true;
+}, {
+    message: "Category is required",
+    path: ['category'],
+}).refine(data => {
+    if (data.type !== 'transfer' && data.splits && data.splits.length > 0) {
+        return data.splits.length >= 2;
+    }
+    return true;
+}, {
+    message: "Add at least two split lines, or remove the split.",
+    path: ['splits'],
+}).refine(data => {
+    if (data.type !== 'transfer' && data.splits && data.splits.length > 0) {
+        const total = data.splits.reduce((sum, split) => sum + (Number(split.amount) || 0), 0);
+        return Math.abs(total - data.amount) < 0.005;
+    }
+    return true;
+}, {
+    message: "Split lines must add up to the transaction amount.",
+    path: ['splits'],
 });
 
 
 export type AddTransactionFormData = z.infer<typeof formSchema>;
 
+export interface TransferFormSubmission {
+  fromAccountId: string;
+  toAccountId: string;
+  amount: number;
+  transactionCurrency: string;
+  toAccountAmount?: number;
+  toAccountCurrency?: string;
+  fee?: number;
+  date: Date;
+  description?: string;
+  tags?: string[];
+}
+
 interface AddTransactionFormProps {
   accounts: Account[];
   categories: Category[];
   tags: Tag[];
   onTransactionAdded: (data: Omit<Transaction, 'id'> | Transaction) => Promise<void> | void;
-  onTransferAdded?: (data: {
-      fromAccountId: string;
-      toAccountId: string;
-      amount: number;
-      transactionCurrency: string;
-      toAccountAmount?: number;
-      toAccountCurrency?: string;
-      date: Date;
-      description?: string;
-      tags?: string[];
-    }) => Promise<void> | void;
+  onTransferAdded?: (data: TransferFormSubmission) => Promise<void> | void;
   isLoading: boolean;
   initialType?: typeof transactionTypes[number] | null; // Allow null from parent
   initialData?: Partial<AddTransactionFormData & { date: Date | string; id?: string }>;
@@ -126,6 +185,17 @@ const AddTransactionForm: FC<AddTransactionFormProps> = ({
         description: initialData.description || '',
         toAccountCurrency: (initialData as any)?.toAccountCurrency || (initialData as any)?.transactionCurrency || (accounts.find(acc => acc.id === (initialData as any)?.toAccountId)?.currency),
         exchangeRate: (initialData as any)?.exchangeRate,
+        fee: (initialData as any)?.fee,
+        category: initialData.category === SPLIT_CATEGORY ? undefined : initialData.category,
+        splits: (initialData as Transaction).splits?.map(split => ({
+            ...split,
+            amount: Math.abs(split.amount),
+            memo: split.memo || '',
+            tags: split.tags || [],
+        })) || [],
+        originalCurrency: (initialData as Transaction).originalCurrency || null,
+        originalAmount: (initialData as Transaction).originalAmount != null ? Math.abs((initialData as Transaction).originalAmount!) : null,
+        fxRate: (initialData as Transaction).fxRate ?? null,
     } : {
       type: resolvedInitialType,
       description: "",
@@ -139,15 +209,82 @@ const AddTransactionForm: FC<AddTransactionFormProps> = ({
       transactionCurrency: accounts.length > 0 ? accounts[0].currency : 'BRL',
       toAccountCurrency: accounts.length > 1 ? accounts[1].currency : (accounts.length > 0 ? accounts[0].currency : 'BRL'),
       exchangeRate: undefined,
+      fee: undefined,
+      splits: [],
+      originalCurrency: null,
+      originalAmount: null,
+      fxRate: null,
     },
   });
 
+  const { fields: splitFields, append: appendSplit, remove: removeSplit, replace: replaceSplits } = useFieldArray({
+    control: form.control,
+    name: 'splits',
+  });
+
   const transactionType = form.watch('type');
   const selectedAccountId = form.watch('accountId');
   const selectedFromAccountId = form.watch('fromAccountId');
   const selectedToAccountId = form.watch('toAccountId');
   const formTransactionCurrency = form.watch('transactionCurrency');
   const formToAccountCurrency = form.watch('toAccountCurrency');
+  const formAmount = form.watch('amount');
+  const watchedSplits = form.watch('splits');
+  const isSplit = splitFields.length > 0;
+  const formOriginalCurrency = form.watch('originalCurrency');
+  const splitsError = 'splits' in form.formState.errors ? form.formState.errors.splits : undefined;
+  const splitRemainder = (Number(formAmount) || 0) - (watchedSplits || []).reduce((sum, split) => sum + (Number(split.amount) || 0), 0);
+
+  const startSplit = () => {
+    replaceSplits([
+      { category: form.getValues('category') || '', amount: Number(form.getValues('amount')) || 0, memo: '', tags: [] },
+      { category: '', amount: 0, memo: '', tags: [] },
+    ]);
+    form.setValue('category', undefined);
+  };
+
+  const cancelSplit = () => {
+    const firstCategory = form.getValues('splits')?.[0]?.category;
+    replaceSplits([]);
+    if (firstCategory) form.setValue('category', firstCategory);
+    form.clearErrors('splits');
+  };
+
+  const startForeignCurrency = () => {
+    const accountCurrency = form.getValues('transactionCurrency');
+    handleOriginalCurrencyChange(supportedCurrencies.find(curr => curr !== accountCurrency && (curr === 'USD' || curr === 'EUR')) || supportedCurrencies.find(curr => curr !== accountCurrency) || 'USD');
+  };
+
+  const cancelForeignCurrency = () => {
+    form.setValue('originalCurrency', null);
+    form.setValue('originalAmount', null);
+    form.setValue('fxRate', null);
+    form.clearErrors(['originalCurrency', 'originalAmount']);
+  };
+
+  // The charged amount follows the original amount and rate; typing it instead works out the rate
+  const updateChargedAmount = () => {
+    const originalAmount = Number(form.getValues('originalAmount')) || 0;
+    const fxRate = Number(form.getValues('fxRate')) || 0;
+    if (originalAmount > 0 && fxRate > 0) {
+      form.setValue('amount', parseFloat((originalAmount * fxRate).toFixed(2)), { shouldValidate: true });
+    }
+  };
+
+  const updateFxRateFromAmount = (amount: number) => {
+    const originalAmount = Number(form.getValues('originalAmount')) || 0;
+    if (!form.getValues('originalCurrency') || !(originalAmount > 0) || !(amount > 0)) return;
+    form.setValue('fxRate', parseFloat((amount / originalAmount).toFixed(6)));
+  };
+
+  const handleOriginalCurrencyChange = (currency: string) => {
+    form.setValue('originalCurrency', currency);
+    form.clearErrors('originalCurrency');
+    // Start from the reference rate; the bank's actual rate can be typed over it
+    const referenceRate = convertCurrency(1, currency, form.getValues('transactionCurrency'));
+    form.setValue('fxRate', referenceRate > 0 ? parseFloat(referenceRate.toFixed(6)) : null);
+    updateChargedAmount();
+  };
 
   const isEditingExisting = !!(initialData && 'id' in initialData && initialData.id);
 
@@ -178,6 +315,7 @@ const AddTransactionForm: FC<AddTransactionFormProps> = ({
             transactionCurrency: values.transactionCurrency,
             toAccountAmount: toAccountAmount,
             toAccountCurrency: values.toAccountCurrency || values.transactionCurrency,
+            fee: values.fee && values.fee > 0 ? values.fee : undefined,
             date: values.date,
             description: values.description || `Transfer to ${accounts.find(a=>a.id === values.toAccountId)?.name || 'account'}`,
             tags: finalTags,
@@ -191,16 +329,30 @@ const AddTransactionForm: FC<AddTransactionFormProps> = ({
          });
       }
     } else {
-      const transactionAmount = values.type === 'expense' ? -Math.abs(values.amount) : Math.abs(values.amount);
+      const sign = values.type === 'expense' ? -1 : 1;
+      const transactionAmount = sign * Math.abs(values.amount);
+      const splits = values.splits && values.splits.length > 0
+        ? values.splits.map(split => ({
+            category: split.category,
+            amount: sign * Math.abs(split.amount),
+            memo: split.memo || null,
+            tags: split.tags || [],
+          }))
+        : null;
+      const originalAmount = values.originalCurrency && values.originalAmount ? sign * Math.abs(values.originalAmount) : null;
       const transactionData: Omit<Transaction, 'id'> | Transaction = {
         ...(initialData && (initialData as Transaction).id && { id: (initialData as Transaction).id }),
         accountId: values.accountId,
         amount: transactionAmount,
         transactionCurrency: values.transactionCurrency,
         date: formatDateFns(values.date, 'yyyy-MM-dd'),
-        description: values.description || values.category || 'Transaction',
-        category: values.category!,
+        description: values.description || values.category || (splits ? 'Split transaction' : 'Transaction'),
+        category: splits ? SPLIT_CATEGORY : values.category!,
         tags: finalTags,
+        splits,
+        originalAmount,
+        originalCurrency: originalAmount ? values.originalCurrency : null,
+        fxRate: originalAmount ? getAppliedFxRate(transactionAmount, originalAmount) : null,
       };
       await onTransactionAdded(transactionData);
     }
@@ -269,6 +421,7 @@ const AddTransactionForm: FC<AddTransactionFormProps> = ({
                     if (value === 'transfer') {
                         form.setValue('accountId', undefined);
                         form.setValue('category', undefined);
+                        replaceSplits([]);
                         const fromAcc = accounts.find(a => a.id === form.getValues('fromAccountId'));
                         form.setValue('transactionCurrency', fromAcc?.currency || 'BRL');
                         const toAcc = accounts.find(a => a.id === form.getValues('toAccountId'));
@@ -485,8 +638,21 @@ const AddTransactionForm: FC<AddTransactionFormProps> = ({
                     <FormItem>
                         <FormLabel>Amount ({getCurrencySymbol(formTransactionCurrency || selectedAccountCurrency)})</FormLabel>
                         <FormControl>
-                        <Input type="number" placeholder="0.00" step="0.01" {...field} value={field.value || ''}/>
+                        <Input
+                            type="number"
+                            placeholder="0.00"
+                            step="0.01"
+                            {...field}
+                            value={field.value || ''}
+                            onChange={(e) => {
+                                field.onChange(e);
+                                updateFxRateFromAmount(Number(e.target.value));
+                            }}
+                        />
                         </FormControl>
+                        {transactionType !== 'transfer' && formOriginalCurrency && (
+                            <FormDescription>What the account was charged, in {formTransactionCurrency}.</FormDescription>
+                        )}
                         <FormMessage />
                     </FormItem>
                     )}
@@ -528,6 +694,94 @@ const AddTransactionForm: FC<AddTransactionFormProps> = ({
                     )}
                 />
 
+                {transactionType !== 'transfer' && !formOriginalCurrency && (
+                    <Button type="button" variant="link" size="sm" className="h-auto p-0 text-xs" onClick={startForeignCurrency}>
+                        <Globe className="mr-1 h-3 w-3" /> Paid in another currency
+                    </Button>
+                )}
+
+                {transactionType !== 'transfer' && formOriginalCurrency && (
+                    <div className="space-y-3 rounded-md border p-3">
+                        <div className="flex items-center justify-between">
+                            <Label>Paid in Another Currency</Label>
+                            <Button type="button" variant="ghost" size="sm" onClick={cancelForeignCurrency}>Remove</Button>
+                        </div>
+                        <div className="grid grid-cols-2 gap-2">
+                            <FormField
+                                control={form.control}
+                                name="originalCurrency"
+                                render={({ field }) => (
+                                    <FormItem>
+                                    <FormLabel>Currency</FormLabel>
+                                    <Select onValueChange={handleOriginalCurrencyChange} value={field.value || undefined}>
+                                        <FormControl>
+                                        <SelectTrigger>
+                                            <SelectValue placeholder="Currency" />
+                                        </SelectTrigger>
+                                        </FormControl>
+                                        <SelectContent>
+                                        {supportedCurrencies.filter(curr => curr !== formTransactionCurrency).map((curr) => (
+                                            <SelectItem key={curr} value={curr}>
+                                            {curr} ({getCurrencySymbol(curr)})
+                                            </SelectItem>
+                                        ))}
+                                        </SelectContent>
+                                    </Select>
+                                    <FormMessage />
+                                    </FormItem>
+                                )}
+                            />
+                            <FormField
+                                control={form.control}
+                                name="originalAmount"
+                                render={({ field }) => (
+                                    <FormItem>
+                                    <FormLabel>Amount ({getCurrencySymbol(formOriginalCurrency)})</FormLabel>
+                                    <FormControl>
+                                        <Input
+                                            type="number"
+                                            placeholder="0.00"
+                                            step="0.01"
+                                            {...field}
+                                            value={field.value || ''}
+                                            onChange={(e) => {
+                                                field.onChange(e);
+                                                updateChargedAmount();
+                                            }}
+                                        />
+                                    </FormControl>
+                                    <FormMessage />
+                                    </FormItem>
+                                )}
+                            />
+                        </div>
+                        <FormField
+                            control={form.control}
+                            name="fxRate"
+                            render={({ field }) => (
+                                <FormItem>
+                                <FormLabel>Exchange Rate (1 {formOriginalCurrency} = ? {formTransactionCurrency})</FormLabel>
+                                <FormControl>
+                                    <Input
+                                        type="number"
+                                        placeholder="e.g., 5.4321"
+                                        step="0.000001"
+                                        {...field}
+                                        value={field.value || ''}
+                                        onChange={(e) => {
+                                            field.onChange(e);
+                                            updateChargedAmount();
+                                        }}
+                                    />
+                                </FormControl>
+                                <FormDescription>The bank's rate, fees included. Entering the charged amount instead works it out.</FormDescription>
+                                <FormMessage />
+                                </FormItem>
+                            )}
+                        />
+                    </div>
+                )}
+
                 {transactionType === 'transfer' && (
                     <>
                         <FormField
@@ -559,6 +813,20 @@ const AddTransactionForm: FC<AddTransactionFormProps> = ({
                                 </FormItem>
                             )}
                         />
+                        <FormField
+                            control={form.control}
+                            name="fee"
+                            render={({ field }) => (
+                                <FormItem>
+                                <FormLabel>Fee ({getCurrencySymbol(formTransactionCurrency || selectedAccountCurrency)})</FormLabel>
+                                <FormControl>
+                                    <Input type="number" placeholder="0.00" step="0.01" {...field} value={field.value || ''}/>
+                                </FormControl>
+                                <FormDescription>Optional. Charged to the 'From Account' as a separate expense.</FormDescription>
+                                <FormMessage />
+                                </FormItem>
+                            )}
+                        />
                         {formTransactionCurrency !== formToAccountCurrency && (
                             <FormField
                                 control={form.control}
@@ -578,13 +846,18 @@ const AddTransactionForm: FC<AddTransactionFormProps> = ({
                     </>
                 )}
 
-                {transactionType !== 'transfer' && (
+                {transactionType !== 'transfer' && !isSplit && (
                     <FormField
                         control={form.control}
                         name="category"
                         render={({ field }) => (
                             <FormItem>
-                            <FormLabel>Category</FormLabel>
+                            <div className="flex items-center justify-between">
+                                <FormLabel>Category</FormLabel>
+                                <Button type="button" variant="link" size="sm" className="h-auto p-0 text-xs" onClick={startSplit}>
+                                    <SplitIcon className="mr-1 h-3 w-3" /> Split
+                                </Button>
+                            </div>
                             <Select onValueChange={field.onChange} defaultValue={field.value}>
                                 <FormControl>
                                 <SelectTrigger>
@@ -630,6 +903,106 @@ const AddTransactionForm: FC<AddTransactionFormProps> = ({
             </div>
         </div>
 
+        {transactionType !== 'transfer' && isSplit && (
+            <div className="space-y-3 rounded-md border p-3">
+                <div className="flex items-center justify-between">
+                    <Label>Split Across Categories</Label>
+                    <Button type="button" variant="ghost" size="sm" onClick={cancelSplit}>Remove Split</Button>
+                </div>
+                {splitFields.map((splitField, index) => (
+                    <div key={splitField.id} className="grid grid-cols-1 md:grid-cols-[1fr_8rem_1fr_1fr_auto] gap-2 items-start">
+                        <FormField
+                            control={form.control}
+                            name={`splits.${index}.category`}
+                            render={({ field }) => (
+                                <FormItem>
+                                <Select onValueChange={field.onChange} defaultValue={field.value || undefined}>
+                                    <FormControl>
+                                    <SelectTrigger aria-label={`Split line ${index + 1} category`}>
+                                        <SelectValue placeholder="Category" />
+                                    </SelectTrigger>
+                                    </FormControl>
+                                    <SelectContent>
+                                    {categories
+                                        .filter(cat => cat.name.toLowerCase() !== 'transfer' && cat.name !== SPLIT_CATEGORY)
+                                        .sort((a, b) => a.name.localeCompare(b.name))
+                                        .map((cat) => (
+                                        <SelectItem key={cat.id} value={cat.name}>
+                                            {cat.name}
+                                        </SelectItem>
+                                    ))}
+                                    </SelectContent>
+                                </Select>
+                                <FormMessage />
+                                </FormItem>
+                            )}
+                        />
+                        <FormField
+                            control={form.control}
+                            name={`splits.${index}.amount`}
+                            render={({ field }) => (
+                                <FormItem>
+                                <FormControl>
+                                    <Input type="number" placeholder="0.00" step="0.01" aria-label={`Split line ${index + 1} amount`} {...field} value={field.value || ''}/>
+                                </FormControl>
+                                <FormMessage />
+                                </FormItem>
+                            )}
+                        />
+                        <FormField
+                            control={form.control}
+                            name={`splits.${index}.memo`}
+                            render={({ field }) => (
+                                <FormItem>
+                                <FormControl>
+                                    <Input placeholder="Memo (optional)" {...field} value={field.value || ''}/>
+                                </FormControl>
+                                <FormMessage />
+                                </FormItem>
+                            )}
+                        />
+                        <FormField
+                            control={form.control}
+                            name={`splits.${index}.tags`}
+                            render={({ field }) => (
+                                <FormItem>
+                                <FormControl>
+                                    <Input
+                                        placeholder="Line tags (optional)"
+                                        value={field.value?.join(', ') || ''}
+                                        onChange={(e) => field.onChange(parseTagsInput(e.target.value))}
+                                    />
+                                </FormControl>
+                                </FormItem>
+                            )}
+                        />
+                        <Button type="button" variant="ghost" size="icon" onClick={() => removeSplit(index)} disabled={splitFields.length <= 2}>
+                            <span className="sr-only">Remove split line</span>
+                            <Trash2 className="h-4 w-4" />
+                        </Button>
+                    </div>
+                ))}
+                <div className="flex items-center justify-between">
+                    <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => appendSplit({ category: '', amount: splitRemainder > 0 ? parseFloat(splitRemainder.toFixed(2)) : 0, memo: '', tags: [] })}
+                    >
+                        Add Line
+                    </Button>
+                    <span className={cn("text-sm", Math.abs(splitRemainder) >= 0.005 ? "text-destructive" : "text-muted-foreground")}>
+                        {Math.abs(splitRemainder) >= 0.005
+                            ? `${splitRemainder > 0 ? 'Unassigned' : 'Over by'}: ${getCurrencySymbol(formTransactionCurrency || selectedAccountCurrency)}${Math.abs(splitRemainder).toFixed(2)}`
+                            : 'Fully assigned'}
+                    </span>
+                </div>
+                {(splitsError?.message || splitsError?.root?.message) && (
+                    <p className="text-sm font-medium text-destructive">{splitsError.message || splitsError.root?.message}</p>
+                )}
+            </div>
+        )}
+
         <Button type="submit" className="w-full" disabled={isLoading}>
           {getButtonText()}
         </Button>
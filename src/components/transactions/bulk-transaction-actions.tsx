@@ -0,0 +1,310 @@
+'use client';
+
+import type { FC, ElementType } from 'react';
+import { useState, useMemo, Fragment } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { ToastAction } from "@/components/ui/toast";
+import { ChevronDown, Shapes, Tag as TagIcon, Tags, Landmark, CalendarClock, ArrowLeftRight, Trash2, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { flattenCategoryTree, getCategoryPath } from '@/lib/category-tree';
+import { isReservedCategoryName } from '@/lib/reference-rewrites';
+import { BULK_ACTION_LABELS, describeBulkAction, getBulkActionSkipReason, type BulkActionType, type BulkTransactionAction } from '@/lib/bulk-transactions';
+import { runBulkTransactionAction, undoBulkTransactionAction, type BulkActionOutcome } from '@/services/bulk-transactions';
+import type { Transaction } from '@/services/transactions';
+import type { Account } from '@/services/account-sync';
+import type { Category } from '@/services/categories';
+import type { Tag } from '@/services/tags';
+
+interface BulkTransactionActionsProps {
+  selectedTransactions: Transaction[];
+  accounts: Account[];
+  categories: Category[];
+  tags: Tag[];
+  onClearSelection: () => void;
+}
+
+const ACTION_ICONS: Record<BulkActionType, ElementType> = {
+  'set-category': Shapes,
+  'add-tags': TagIcon,
+  'remove-tags': Tags,
+  'change-account': Landmark,
+  'shift-date': CalendarClock,
+  'convert-to-transfer': ArrowLeftRight,
+  'delete': Trash2,
+};
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+function describeOutcome(outcome: BulkActionOutcome): string {
+  const parts = [`${plural(outcome.changed, 'transaction')} changed`];
+  if (outcome.skipped.length > 0) {
+    // Reasons read like "Part of a transfer; edit it from...", so keep the first clause
+    const countsByReason = new Map<string, number>();
+    outcome.skipped.forEach(({ reason }) => {
+      const shortReason = reason.split(/[.;]/)[0].toLowerCase();
+      countsByReason.set(shortReason, (countsByReason.get(shortReason) || 0) + 1);
+    });
+    const reasons = Array.from(countsByReason.entries()).map(([reason, count]) => `${count} ${reason}`);
+    parts.push(`${outcome.skipped.length} skipped (${reasons.join(', ')})`);
+  }
+  if (outcome.failed.length > 0) parts.push(`${outcome.failed.length} failed: ${outcome.failed[0].message}`);
+  return `${parts.join(', ')}.`;
+}
+
+/**
+ * Toolbar for the rows selected in a transaction table: applies one action to all of them with a
+ * progress bar, then offers to undo the whole batch from the summary toast.
+ */
+const BulkTransactionActions: FC<BulkTransactionActionsProps> = ({ selectedTransactions, accounts, categories, tags, onClearSelection }) => {
+  const { toast } = useToast();
+  const [actionType, setActionType] = useState<BulkActionType | null>(null);
+  const [category, setCategory] = useState('');
+  const [selectedTagNames, setSelectedTagNames] = useState<string[]>([]);
+  const [accountId, setAccountId] = useState('');
+  const [days, setDays] = useState('1');
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+
+  const categoryOptions = useMemo(
+    () => flattenCategoryTree(categories)
+      .filter(({ category: option }) => !isReservedCategoryName(option.name))
+      .map(({ category: option }) => ({ name: option.name, label: getCategoryPath(option, categories) })),
+    [categories]
+  );
+
+  // Only tags that some selected transaction carries can be removed
+  const tagOptions = useMemo(() => {
+    if (actionType !== 'remove-tags') return tags.map(tag => tag.name);
+    const used = new Set(selectedTransactions.flatMap(transaction => transaction.tags || []).map(tag => tag.toLowerCase()));
+    return tags.map(tag => tag.name).filter(name => used.has(name.toLowerCase()));
+  }, [actionType, tags, selectedTransactions]);
+
+  const action: BulkTransactionAction | null = useMemo(() => {
+    switch (actionType) {
+      case 'set-category': return category ? { type: actionType, category } : null;
+      case 'add-tags':
+      case 'remove-tags': return selectedTagNames.length > 0 ? { type: actionType, tags: selectedTagNames } : null;
+      case 'change-account': return accountId ? { type: actionType, accountId } : null;
+      case 'convert-to-transfer': return accountId ? { type: actionType, counterpartAccountId: accountId } : null;
+      case 'shift-date': {
+        const parsedDays = parseInt(days, 10);
+        return !isNaN(parsedDays) && parsedDays !== 0 ? { type: actionType, days: parsedDays } : null;
+      }
+      case 'delete': return { type: actionType };
+      default: return null;
+    }
+  }, [actionType, category, selectedTagNames, accountId, days]);
+
+  const skippedCount = useMemo(
+    () => action ? selectedTransactions.filter(transaction => getBulkActionSkipReason(transaction, action)).length : 0,
+    [action, selectedTransactions]
+  );
+
+  const openAction = (type: BulkActionType) => {
+    setActionType(type);
+    setCategory('');
+    setSelectedTagNames([]);
+    setAccountId('');
+    setDays('1');
+    setProgress(null);
+  };
+
+  const handleUndo = async (outcome: BulkActionOutcome) => {
+    const total = outcome.undoSteps.length;
+    const undoToast = toast({ title: "Undoing...", description: `0 of ${total} changes reverted.`, duration: 1000000 });
+    try {
+      const result = await undoBulkTransactionAction(outcome, (done) => {
+        undoToast.update({ id: undoToast.id, title: "Undoing...", description: `${done} of ${total} changes reverted.` });
+      });
+      undoToast.update({
+        id: undoToast.id,
+        title: result.failed > 0 ? "Undo Incomplete" : "Undone",
+        description: `${plural(result.reverted, 'transaction')} restored${result.failed > 0 ? `, ${result.failed} could not be reverted` : ''}.`,
+        variant: result.failed > 0 ? "destructive" : "default",
+        duration: 5000,
+      });
+    } catch (err: any) {
+      console.error("Failed to undo bulk action:", err);
+      undoToast.update({ id: undoToast.id, title: "Error", description: err.message || "Could not undo the changes.", variant: "destructive", duration: 5000 });
+    } finally {
+      window.dispatchEvent(new Event('storage'));
+    }
+  };
+
+  const handleRun = async () => {
+    if (!action) return;
+    setProgress({ done: 0, total: selectedTransactions.length });
+    try {
+      const outcome = await runBulkTransactionAction(selectedTransactions, action, accounts, (done, total) => setProgress({ done, total }));
+      setActionType(null);
+      onClearSelection();
+      toast({
+        title: outcome.failed.length > 0 ? `${describeBulkAction(action, accounts)}: Partly Done` : describeBulkAction(action, accounts),
+        description: describeOutcome(outcome),
+        variant: outcome.failed.length > 0 ? "destructive" : "default",
+        action: outcome.undoSteps.length > 0
+          ? <ToastAction altText="Undo these changes" onClick={() => handleUndo(outcome)}>Undo</ToastAction>
+          : undefined,
+        duration: 15000,
+      });
+    } catch (err: any) {
+      console.error("Bulk action failed:", err);
+      toast({ title: "Error", description: err.message || "Could not apply the changes.", variant: "destructive" });
+    } finally {
+      setProgress(null);
+      window.dispatchEvent(new Event('storage'));
+    }
+  };
+
+  const isRunning = progress !== null;
+  const toApplyCount = selectedTransactions.length - skippedCount;
+
+  const renderParameters = () => {
+    switch (actionType) {
+      case 'set-category':
+        return (
+          <div className="space-y-2">
+            <Label>Category</Label>
+            <Select value={category} onValueChange={setCategory}>
+              <SelectTrigger><SelectValue placeholder="Select a category" /></SelectTrigger>
+              <SelectContent>
+                {categoryOptions.map(option => <SelectItem key={option.name} value={option.name}><span className="capitalize">{option.label}</span></SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+        );
+      case 'add-tags':
+      case 'remove-tags':
+        return (
+          <div className="space-y-2">
+            <Label>Tags</Label>
+            {tagOptions.length === 0 ? (
+              <p className="text-sm text-muted-foreground">{actionType === 'remove-tags' ? "The selected transactions have no tags." : "No tags yet."}</p>
+            ) : (
+              <div className="flex flex-wrap gap-1">
+                {tagOptions.map(name => {
+                  const isChosen = selectedTagNames.includes(name);
+                  return (
+                    <Badge
+                      key={name}
+                      variant={isChosen ? 'default' : 'outline'}
+                      className="cursor-pointer"
+                      onClick={() => setSelectedTagNames(prev => isChosen ? prev.filter(tag => tag !== name) : [...prev, name])}
+                    >
+                      {name}
+                    </Badge>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        );
+      case 'change-account':
+      case 'convert-to-transfer':
+        return (
+          <div className="space-y-2">
+            <Label>{actionType === 'change-account' ? "Move to account" : "Counterpart account"}</Label>
+            <Select value={accountId} onValueChange={setAccountId}>
+              <SelectTrigger><SelectValue placeholder="Select an account" /></SelectTrigger>
+              <SelectContent>
+                {accounts.map(account => <SelectItem key={account.id} value={account.id}>{account.name} ({account.currency})</SelectItem>)}
+              </SelectContent>
+            </Select>
+            {actionType === 'convert-to-transfer' && (
+              <p className="text-xs text-muted-foreground">Expenses become transfers to this account and income becomes transfers from it.</p>
+            )}
+          </div>
+        );
+      case 'shift-date':
+        return (
+          <div className="space-y-2">
+            <Label htmlFor="bulk-shift-days">Days to shift (negative moves earlier)</Label>
+            <Input id="bulk-shift-days" type="number" step="1" value={days} onChange={e => setDays(e.target.value)} />
+          </div>
+        );
+      case 'delete':
+        return <p className="text-sm">The selected transactions will be deleted and account balances adjusted.</p>;
+      default:
+        return null;
+    }
+  };
+
+  if (selectedTransactions.length === 0) return null;
+
+  return (
+    <>
+      <div className="flex flex-wrap items-center gap-2 rounded-md border bg-muted/50 px-3 py-2">
+        <span className="text-sm font-medium">{plural(selectedTransactions.length, 'transaction')} selected</span>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button size="sm" variant="outline">
+              Bulk actions <ChevronDown className="ml-2 h-4 w-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start">
+            {(Object.keys(BULK_ACTION_LABELS) as BulkActionType[]).map(type => {
+              const Icon = ACTION_ICONS[type];
+              return (
+                <Fragment key={type}>
+                  {type === 'delete' && <DropdownMenuSeparator />}
+                  <DropdownMenuItem onClick={() => openAction(type)} className={cn(type === 'delete' && "text-destructive focus:text-destructive")}>
+                    <Icon className="mr-2 h-4 w-4" /> {BULK_ACTION_LABELS[type]}
+                  </DropdownMenuItem>
+                </Fragment>
+              );
+            })}
+          </DropdownMenuContent>
+        </DropdownMenu>
+        <Button size="sm" variant="ghost" onClick={onClearSelection}>
+          <X className="mr-2 h-4 w-4" /> Clear selection
+        </Button>
+      </div>
+
+      <Dialog open={actionType !== null} onOpenChange={(open) => { if (!open && !isRunning) setActionType(null); }}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{actionType ? BULK_ACTION_LABELS[actionType] : ''}</DialogTitle>
+            <DialogDescription>
+              Applies to {plural(selectedTransactions.length, 'selected transaction')}. You can undo the changes from the notification afterwards.
+            </DialogDescription>
+          </DialogHeader>
+
+          {renderParameters()}
+
+          {action && skippedCount > 0 && (
+            <p className="text-sm text-muted-foreground">
+              {skippedCount} will be skipped (transfers, loan payments or records that already match).
+            </p>
+          )}
+
+          {isRunning && (
+            <div className="space-y-1">
+              <Progress value={progress.total > 0 ? (progress.done / progress.total) * 100 : 0} className="h-2" />
+              <p className="text-xs text-muted-foreground">{progress.done} of {progress.total} processed...</p>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setActionType(null)} disabled={isRunning}>Cancel</Button>
+            <Button
+              onClick={handleRun}
+              disabled={!action || isRunning || toApplyCount === 0}
+              variant={actionType === 'delete' ? 'destructive' : 'default'}
+            >
+              {isRunning ? "Applying..." : actionType === 'delete' ? `Delete ${plural(toApplyCount, 'transaction')}` : `Apply to ${plural(toApplyCount, 'transaction')}`}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default BulkTransactionActions;
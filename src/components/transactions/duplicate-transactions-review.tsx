@@ -0,0 +1,89 @@
+'use client';
+
+import type { FC } from 'react';
+import { useMemo } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Trash2 } from 'lucide-react';
+import { format as formatDateFns, parseISO } from 'date-fns';
+import type { Transaction } from '@/services/transactions';
+import type { Account } from '@/services/account-sync';
+import { formatCurrency } from '@/lib/currency';
+import { findDuplicateGroups, PROBABLE_DUPLICATE_DAY_WINDOW } from '@/lib/duplicate-detection';
+
+interface DuplicateTransactionsReviewProps {
+  transactions: Transaction[];
+  accounts: Account[];
+  onDelete: (transaction: Transaction) => void;
+  deletingId?: string | null;
+}
+
+const DuplicateTransactionsReview: FC<DuplicateTransactionsReviewProps> = ({ transactions, accounts, onDelete, deletingId }) => {
+  const groups = useMemo(() => findDuplicateGroups(transactions), [transactions]);
+
+  if (groups.length === 0) {
+    return <p className="py-6 text-center text-sm text-muted-foreground">No duplicate transactions found in this period.</p>;
+  }
+
+  return (
+    <div className="max-h-[60vh] space-y-6 overflow-y-auto pr-1">
+      <p className="text-sm text-muted-foreground">
+        Exact duplicates share the same date, amount and description (or bank transaction ID). Probable duplicates have the same amount within {PROBABLE_DUPLICATE_DAY_WINDOW} days and a similar description. Delete the copies you don't need.
+      </p>
+      {groups.map(group => {
+        const account = accounts.find(acc => acc.id === group.transactions[0].accountId);
+        return (
+          <div key={group.transactions.map(tx => tx.id).join('-')} className="space-y-2">
+            <div className="flex items-center gap-2 text-sm font-medium">
+              <Badge variant={group.status === 'exact' ? 'destructive' : 'outline'}>
+                {group.status === 'exact' ? 'Exact duplicates' : 'Probable duplicates'}
+              </Badge>
+              <span>{account?.name || 'Unknown Account'}</span>
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="h-8">Date</TableHead>
+                  <TableHead className="h-8">Description</TableHead>
+                  <TableHead className="h-8">Category</TableHead>
+                  <TableHead className="h-8 text-right">Amount</TableHead>
+                  <TableHead className="h-8 text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {group.transactions.map(transaction => (
+                  <TableRow key={transaction.id} className="text-xs">
+                    <TableCell className="py-1 whitespace-nowrap">{formatDateFns(parseISO(transaction.date), 'MMM do, yyyy')}</TableCell>
+                    <TableCell className="py-1 max-w-[220px] truncate" title={transaction.description}>
+                      {transaction.description}
+                      {transaction.originalImportData?.importFingerprint && <span className="ml-1 text-muted-foreground">(imported)</span>}
+                    </TableCell>
+                    <TableCell className="py-1">{transaction.category}</TableCell>
+                    <TableCell className="py-1 text-right whitespace-nowrap">
+                      {formatCurrency(transaction.amount, transaction.transactionCurrency, undefined, false)}
+                    </TableCell>
+                    <TableCell className="py-1 text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 px-2 text-destructive hover:text-destructive"
+                        onClick={() => onDelete(transaction)}
+                        disabled={!!deletingId}
+                      >
+                        <Trash2 className="mr-1 h-3 w-3" />
+                        {deletingId === transaction.id ? 'Deleting...' : 'Delete'}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default DuplicateTransactionsReview;
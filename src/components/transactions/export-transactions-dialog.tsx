@@ -0,0 +1,136 @@
+'use client';
+
+import type { FC } from 'react';
+import { useState } from 'react';
+import { Download } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { downloadFile } from '@/lib/utils';
+import type { Transaction } from '@/services/transactions';
+import {
+  exportTransactions,
+  getLocaleDecimalSeparator,
+  CSV_EXPORT_COLUMNS,
+  DEFAULT_CSV_EXPORT_COLUMNS,
+  type CsvExportColumn,
+  type DecimalSeparator,
+  type ExportFormat,
+} from '@/services/transaction-export';
+
+const FORMAT_OPTIONS: { value: ExportFormat; label: string; description: string }[] = [
+  { value: 'csv', label: 'CSV', description: 'For spreadsheets, with the columns you choose.' },
+  { value: 'ofx', label: 'OFX', description: 'Bank statement format, one statement per account.' },
+  { value: 'firefly', label: 'Firefly III CSV', description: 'Can be imported into Firefly III or back into this app.' },
+];
+
+interface ExportTransactionsDialogProps {
+  transactions: Transaction[]; // The set currently listed by the page
+  fileNamePrefix: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ExportTransactionsDialog: FC<ExportTransactionsDialogProps> = ({ transactions, fileNamePrefix, open, onOpenChange }) => {
+  const { toast } = useToast();
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [columns, setColumns] = useState<CsvExportColumn[]>(DEFAULT_CSV_EXPORT_COLUMNS);
+  const [decimalSeparator, setDecimalSeparator] = useState<DecimalSeparator>(() =>
+    getLocaleDecimalSeparator(typeof navigator !== 'undefined' ? navigator.language : undefined)
+  );
+  const [isExporting, setIsExporting] = useState(false);
+
+  const toggleColumn = (column: CsvExportColumn, checked: boolean) => {
+    setColumns(current => checked
+      ? CSV_EXPORT_COLUMNS.map(option => option.id).filter(id => id === column || current.includes(id))
+      : current.filter(id => id !== column));
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const file = await exportTransactions(transactions, format, { fileNamePrefix, csv: { columns, decimalSeparator } });
+      downloadFile(file.content, file.fileName, file.mimeType);
+      toast({ title: "Export Ready", description: `${transactions.length} transaction(s) exported to ${file.fileName}.` });
+      onOpenChange(false);
+    } catch (error: any) {
+      console.error("Failed to export transactions:", error);
+      toast({ title: "Error", description: `Could not export transactions: ${error.message}`, variant: "destructive" });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Export Transactions</DialogTitle>
+          <DialogDescription>
+            Export the {transactions.length} transaction(s) currently listed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <RadioGroup value={format} onValueChange={(value) => setFormat(value as ExportFormat)} className="space-y-2">
+            {FORMAT_OPTIONS.map(option => (
+              <div key={option.value} className="flex items-start space-x-2">
+                <RadioGroupItem value={option.value} id={`export-format-${option.value}`} className="mt-0.5" />
+                <Label htmlFor={`export-format-${option.value}`} className="font-normal">
+                  <span className="font-medium">{option.label}</span>
+                  <span className="block text-muted-foreground">{option.description}</span>
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+
+          {format === 'csv' && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label>Columns</Label>
+                <div className="grid grid-cols-2 gap-2">
+                  {CSV_EXPORT_COLUMNS.map(column => (
+                    <div key={column.id} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`export-column-${column.id}`}
+                        checked={columns.includes(column.id)}
+                        onCheckedChange={(checked) => toggleColumn(column.id, checked === true)}
+                      />
+                      <Label htmlFor={`export-column-${column.id}`} className="font-normal">{column.label}</Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+              <div className="grid w-full max-w-xs gap-1.5">
+                <Label htmlFor="export-decimal-separator">Number format</Label>
+                <Select value={decimalSeparator} onValueChange={(value) => setDecimalSeparator(value as DecimalSeparator)}>
+                  <SelectTrigger id="export-decimal-separator">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value=".">1234.56, comma-separated</SelectItem>
+                    <SelectItem value=",">1234,56, semicolon-separated</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isExporting}>Cancel</Button>
+          <Button onClick={handleExport} disabled={isExporting || transactions.length === 0 || (format === 'csv' && columns.length === 0)}>
+            <Download className="mr-2 h-4 w-4" />
+            {isExporting ? "Exporting..." : "Export"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ExportTransactionsDialog;
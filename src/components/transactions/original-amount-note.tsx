@@ -0,0 +1,25 @@
+'use client';
+
+import type { FC } from 'react';
+import { formatCurrency } from '@/lib/currency';
+import { getOriginalAmount } from '@/lib/foreign-currency';
+import type { Transaction } from '@/services/transactions';
+
+interface OriginalAmountNoteProps {
+  transaction: Transaction;
+}
+
+/** Shows what a transaction made in another currency cost there, and the rate applied, below its amount. */
+const OriginalAmountNote: FC<OriginalAmountNoteProps> = ({ transaction }) => {
+  const original = getOriginalAmount(transaction);
+  if (!original) return null;
+
+  return (
+    <div className="text-xs text-muted-foreground">
+      {formatCurrency(original.amount, original.currency, original.currency, false)}
+      {original.rate && ` @ ${original.rate.toLocaleString(undefined, { maximumFractionDigits: 6 })}`}
+    </div>
+  );
+};
+
+export default OriginalAmountNote;
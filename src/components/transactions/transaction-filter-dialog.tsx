@@ -0,0 +1,282 @@
+'use client';
+
+import type { FC } from 'react';
+import { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Check, ChevronsUpDown, PlusCircle, Trash2, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { flattenCategoryTree } from '@/lib/category-tree';
+import {
+  FILTER_FIELD_LABELS, EMPTY_TRANSACTION_FILTER, createFilterCondition, createFilterGroup, pruneTransactionFilter,
+  type FilterField, type FilterOperator, type TransactionFilter, type TransactionFilterCondition, type TransactionFilterGroup,
+} from '@/lib/transaction-filters';
+import type { Account } from '@/services/account-sync';
+import type { Category } from '@/services/categories';
+import type { Tag } from '@/services/tags';
+import type { Group } from '@/services/groups';
+
+interface TransactionFilterDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  filter: TransactionFilter;
+  onApply: (filter: TransactionFilter) => void;
+  accounts: Account[];
+  categories: Category[];
+  tags: Tag[];
+  groups: Group[];
+  currencies: string[]; // Currencies that occur in the user's transactions
+}
+
+interface MultiSelectOption {
+  id: string;
+  label: string;
+  depth?: number;
+}
+
+const FILTER_FIELDS = Object.keys(FILTER_FIELD_LABELS) as FilterField[];
+
+const MultiSelectPopover: FC<{
+  options: MultiSelectOption[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+  placeholder: string;
+}> = ({ options, selected, onChange, placeholder }) => {
+  const selectedLabels = options.filter(option => selected.includes(option.id)).map(option => option.label);
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" role="combobox" className={cn("w-full justify-between font-normal", !selected.length && "text-muted-foreground")}>
+          <span className="truncate">
+            {selectedLabels.length === 0 ? placeholder : selectedLabels.length <= 2 ? selectedLabels.join(', ') : `${selectedLabels.length} selected`}
+          </span>
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Search..." />
+          <CommandList>
+            <CommandEmpty>Nothing found.</CommandEmpty>
+            <CommandGroup>
+              <ScrollArea className="max-h-48">
+                {options.map(option => (
+                  <CommandItem
+                    key={option.id}
+                    value={`${option.label} ${option.id}`}
+                    onSelect={() => onChange(selected.includes(option.id) ? selected.filter(id => id !== option.id) : [...selected, option.id])}
+                  >
+                    <Check className={cn("mr-2 h-4 w-4", selected.includes(option.id) ? "opacity-100" : "opacity-0")} />
+                    <span style={{ paddingLeft: `${(option.depth || 0) * 0.75}rem` }}>{option.label}</span>
+                  </CommandItem>
+                ))}
+              </ScrollArea>
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+const parseAmountInput = (value: string): number | null => {
+  if (value.trim() === '') return null;
+  const amount = parseFloat(value.replace(',', '.'));
+  return isNaN(amount) ? null : Math.abs(amount);
+};
+
+/**
+ * Builds a transaction filter out of groups of conditions. Edits are kept in a draft and only
+ * reach the page (and its URL) on Apply.
+ */
+const TransactionFilterDialog: FC<TransactionFilterDialogProps> = ({
+  open, onOpenChange, filter, onApply, accounts, categories, tags, groups, currencies,
+}) => {
+  const [draft, setDraft] = useState<TransactionFilter>(filter);
+  const [wasOpen, setWasOpen] = useState(false);
+
+  // Start from the applied filter each time the dialog opens, not whenever the page re-renders it
+  if (open !== wasOpen) {
+    setWasOpen(open);
+    if (open) setDraft(filter.groups.length > 0 ? filter : { ...EMPTY_TRANSACTION_FILTER, groups: [createFilterGroup()] });
+  }
+
+  const accountOptions = accounts.map(account => ({ id: account.id, label: account.name }));
+  const categoryOptions = flattenCategoryTree(categories).map(({ category, depth }) => ({ id: category.id, label: category.name, depth }));
+  const tagOptions = tags.map(tag => ({ id: tag.id, label: tag.name }));
+  const groupOptions = groups.map(group => ({ id: group.id, label: group.name }));
+  const currencyOptions = currencies.map(currency => ({ id: currency, label: currency }));
+
+  const updateGroup = (groupIndex: number, changes: Partial<TransactionFilterGroup>) => {
+    setDraft(prev => ({ ...prev, groups: prev.groups.map((group, index) => index === groupIndex ? { ...group, ...changes } : group) }));
+  };
+
+  const updateCondition = (groupIndex: number, conditionIndex: number, condition: TransactionFilterCondition) => {
+    updateGroup(groupIndex, {
+      conditions: draft.groups[groupIndex].conditions.map((existing, index) => index === conditionIndex ? condition : existing),
+    });
+  };
+
+  const removeCondition = (groupIndex: number, conditionIndex: number) => {
+    const conditions = draft.groups[groupIndex].conditions.filter((_, index) => index !== conditionIndex);
+    if (conditions.length === 0) {
+      setDraft(prev => ({ ...prev, groups: prev.groups.filter((_, index) => index !== groupIndex) }));
+    } else {
+      updateGroup(groupIndex, { conditions });
+    }
+  };
+
+  const renderValueEditor = (condition: TransactionFilterCondition, onChange: (condition: TransactionFilterCondition) => void) => {
+    switch (condition.field) {
+      case 'text':
+        return <Input value={condition.query} placeholder="Description, category or tag" onChange={e => onChange({ ...condition, query: e.target.value })} />;
+      case 'amount':
+        return (
+          <div className="flex gap-2">
+            <Select value={condition.direction} onValueChange={value => onChange({ ...condition, direction: value as typeof condition.direction })}>
+              <SelectTrigger className="w-32"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Any</SelectItem>
+                <SelectItem value="expense">Expenses</SelectItem>
+                <SelectItem value="income">Income</SelectItem>
+              </SelectContent>
+            </Select>
+            <Input type="number" min="0" step="0.01" placeholder="Min" value={condition.min ?? ''} onChange={e => onChange({ ...condition, min: parseAmountInput(e.target.value) })} />
+            <Input type="number" min="0" step="0.01" placeholder="Max" value={condition.max ?? ''} onChange={e => onChange({ ...condition, max: parseAmountInput(e.target.value) })} />
+          </div>
+        );
+      case 'accounts':
+        return <MultiSelectPopover options={accountOptions} selected={condition.accountIds} onChange={accountIds => onChange({ ...condition, accountIds })} placeholder="Select accounts..." />;
+      case 'categories':
+        return (
+          <div className="space-y-2">
+            <MultiSelectPopover options={categoryOptions} selected={condition.categoryIds} onChange={categoryIds => onChange({ ...condition, categoryIds })} placeholder="Select categories..." />
+            <div className="flex items-center gap-2">
+              <Switch checked={condition.includeSubcategories} onCheckedChange={includeSubcategories => onChange({ ...condition, includeSubcategories })} />
+              <Label className="text-xs font-normal text-muted-foreground">Include subcategories</Label>
+            </div>
+          </div>
+        );
+      case 'tags':
+        return (
+          <div className="flex gap-2">
+            <Select value={condition.match} onValueChange={value => onChange({ ...condition, match: value as typeof condition.match })}>
+              <SelectTrigger className="w-24"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Any of</SelectItem>
+                <SelectItem value="all">All of</SelectItem>
+              </SelectContent>
+            </Select>
+            <MultiSelectPopover options={tagOptions} selected={condition.tagIds} onChange={tagIds => onChange({ ...condition, tagIds })} placeholder="Select tags..." />
+          </div>
+        );
+      case 'groups':
+        return <MultiSelectPopover options={groupOptions} selected={condition.groupIds} onChange={groupIds => onChange({ ...condition, groupIds })} placeholder="Select groups..." />;
+      case 'currencies':
+        return <MultiSelectPopover options={currencyOptions} selected={condition.currencies} onChange={selected => onChange({ ...condition, currencies: selected })} placeholder="Select currencies..." />;
+      case 'uncategorized':
+        return null;
+      case 'source':
+        return (
+          <Select value={condition.source} onValueChange={value => onChange({ ...condition, source: value as typeof condition.source })}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="imported">Imported from a file</SelectItem>
+              <SelectItem value="manual">Entered manually</SelectItem>
+            </SelectContent>
+          </Select>
+        );
+    }
+  };
+
+  const renderOperatorSelect = (value: FilterOperator, onChange: (operator: FilterOperator) => void, noun: string) => (
+    <div className="flex items-center gap-2 text-sm">
+      <span>Match</span>
+      <Select value={value} onValueChange={operator => onChange(operator as FilterOperator)}>
+        <SelectTrigger className="h-8 w-20"><SelectValue /></SelectTrigger>
+        <SelectContent>
+          <SelectItem value="and">all</SelectItem>
+          <SelectItem value="or">any</SelectItem>
+        </SelectContent>
+      </Select>
+      <span>of {noun}</span>
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Filter Transactions</DialogTitle>
+          <DialogDescription>
+            Combine conditions into groups. The filter is kept in the page link, so it can be bookmarked or shared.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[60vh] pr-3">
+          <div className="space-y-4">
+            {draft.groups.length > 1 && renderOperatorSelect(draft.operator, operator => setDraft(prev => ({ ...prev, operator })), "these groups")}
+            {draft.groups.map((group, groupIndex) => (
+              <div key={groupIndex} className="rounded-md border p-3 space-y-3">
+                <div className="flex items-center justify-between">
+                  {renderOperatorSelect(group.operator, operator => updateGroup(groupIndex, { operator }), "these conditions")}
+                  <Button variant="ghost" size="sm" onClick={() => setDraft(prev => ({ ...prev, groups: prev.groups.filter((_, index) => index !== groupIndex) }))}>
+                    <Trash2 className="mr-2 h-4 w-4" /> Remove group
+                  </Button>
+                </div>
+                {group.conditions.map((condition, conditionIndex) => {
+                  const onChange = (updated: TransactionFilterCondition) => updateCondition(groupIndex, conditionIndex, updated);
+                  return (
+                    <div key={conditionIndex} className="grid grid-cols-[9rem_6rem_1fr_auto] items-start gap-2">
+                      <Select value={condition.field} onValueChange={field => onChange(createFilterCondition(field as FilterField))}>
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          {FILTER_FIELDS.map(field => <SelectItem key={field} value={field}>{FILTER_FIELD_LABELS[field]}</SelectItem>)}
+                        </SelectContent>
+                      </Select>
+                      <Select value={condition.negate ? 'not' : 'is'} onValueChange={value => onChange({ ...condition, negate: value === 'not' })}>
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="is">{condition.field === 'uncategorized' ? 'Yes' : 'is'}</SelectItem>
+                          <SelectItem value="not">{condition.field === 'uncategorized' ? 'No' : 'is not'}</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <div>{renderValueEditor(condition, onChange)}</div>
+                      <Button variant="ghost" size="icon" onClick={() => removeCondition(groupIndex, conditionIndex)}>
+                        <X className="h-4 w-4" />
+                        <span className="sr-only">Remove condition</span>
+                      </Button>
+                    </div>
+                  );
+                })}
+                <Button variant="outline" size="sm" onClick={() => updateGroup(groupIndex, { conditions: [...group.conditions, createFilterCondition('text')] })}>
+                  <PlusCircle className="mr-2 h-4 w-4" /> Add condition
+                </Button>
+              </div>
+            ))}
+            <Button variant="outline" size="sm" onClick={() => setDraft(prev => ({ ...prev, groups: [...prev.groups, createFilterGroup()] }))}>
+              <PlusCircle className="mr-2 h-4 w-4" /> Add group
+            </Button>
+          </div>
+        </ScrollArea>
+
+        <DialogFooter className="sm:justify-between">
+          <Button variant="ghost" onClick={() => setDraft(EMPTY_TRANSACTION_FILTER)}>Clear all</Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+            <Button onClick={() => { onApply(pruneTransactionFilter(draft)); onOpenChange(false); }}>Apply</Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TransactionFilterDialog;
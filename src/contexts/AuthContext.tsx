@@ -17,6 +17,9 @@ import { auth as firebaseAuthInstance, googleAuthProvider as firebaseGoogleAuthP
 import { useRouter } from 'next/navigation';
 import type { UserPreferences } from '@/lib/preferences';
 import { getUserPreferences, saveUserPreferences } from '@/lib/preferences';
+import { processDueSubscriptions } from '@/services/recurring-transactions';
+import { migrateReferencesToIds } from '@/services/reference-rewrites';
+import { startSync } from '@/services/sync';
 
 interface AuthContextType {
   user: User | null;
@@ -73,10 +76,28 @@ export const AuthProvider: FC<{ children: ReactNode }> = ({ children }) => {
       return () => {};
     }
 
+    let stopSync: (() => void) | null = null;
     const unsubscribe = onAuthStateChanged(firebaseAuthInstance, async (firebaseUser) => {
       setUser(firebaseUser);
+      stopSync?.();
+      stopSync = null;
       if (firebaseUser) {
+        // Replay writes queued while offline and pull changes made on other devices
+        stopSync = startSync();
         await fetchUserPreferences();
+        // Post subscription payments that came due since the last run. Runs in the background; older
+        // outstanding payments are left for the user to confirm on the Financial Control page.
+        processDueSubscriptions(new Date(), { automatic: true })
+          .then(({ updatedSubscriptionIds }) => {
+            if (updatedSubscriptionIds.length > 0) window.dispatchEvent(new Event('storage'));
+          })
+          .catch(error => console.error("AuthProvider: Failed to post due subscriptions:", error));
+        // Records saved before they held category and tag IDs get them once; retried on the next sign-in
+        migrateReferencesToIds()
+          .then(changedRecords => {
+            if (changedRecords > 0) window.dispatchEvent(new Event('storage'));
+          })
+          .catch(error => console.error("AuthProvider: Failed to store category and tag IDs:", error));
       } else {
         // User signed out, reset to default preferences
         const defaultPrefs = { preferredCurrency: 'BRL', theme: 'system' } as UserPreferences;
@@ -85,7 +106,10 @@ export const AuthProvider: FC<{ children: ReactNode }> = ({ children }) => {
       }
       setIsLoadingAuth(false);
     });
-    return () => unsubscribe();
+    return () => {
+      unsubscribe();
+      stopSync?.();
+    };
   }, [router, firebaseInitialized, firebaseInitializationError, fetchUserPreferences]);
 
   const ensureFirebaseAuth = useCallback((): Auth => {
@@ -0,0 +1,24 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { getSyncStatus, subscribeToSyncStatus, type SyncStatus } from '@/services/sync';
+
+/** The current offline sync status, updated as queued writes are replayed. */
+export function useSyncStatus(): SyncStatus {
+  const [status, setStatus] = useState<SyncStatus>(() => getSyncStatus());
+
+  useEffect(() => {
+    const unsubscribe = subscribeToSyncStatus(setStatus);
+    setStatus(getSyncStatus());
+    const handleConnectivityChange = () => setStatus(getSyncStatus());
+    window.addEventListener('online', handleConnectivityChange);
+    window.addEventListener('offline', handleConnectivityChange);
+    return () => {
+      unsubscribe();
+      window.removeEventListener('online', handleConnectivityChange);
+      window.removeEventListener('offline', handleConnectivityChange);
+    };
+  }, []);
+
+  return status;
+}
@@ -0,0 +1,45 @@
+'use client';
+
+import { useState, useMemo, useCallback } from 'react';
+import type { Transaction } from '@/services/transactions';
+
+/**
+ * Row selection for a transaction table. Selected IDs survive filtering, but only the transactions
+ * currently listed count as selected, so bulk actions never touch rows the user cannot see.
+ */
+export function useTransactionSelection(transactions: Transaction[]) {
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set());
+
+  const selectedTransactions = useMemo(
+    () => transactions.filter(transaction => selectedIds.has(transaction.id)),
+    [transactions, selectedIds]
+  );
+
+  const isSelected = useCallback((transactionId: string) => selectedIds.has(transactionId), [selectedIds]);
+
+  const toggle = useCallback((transactionId: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(transactionId)) next.delete(transactionId); else next.add(transactionId);
+      return next;
+    });
+  }, []);
+
+  const isAllSelected = transactions.length > 0 && selectedTransactions.length === transactions.length;
+
+  const toggleAll = useCallback(() => {
+    setSelectedIds(isAllSelected ? new Set() : new Set(transactions.map(transaction => transaction.id)));
+  }, [isAllSelected, transactions]);
+
+  const clear = useCallback(() => setSelectedIds(new Set()), []);
+
+  return {
+    selectedTransactions,
+    isSelected,
+    toggle,
+    toggleAll,
+    clear,
+    isAllSelected,
+    isPartiallySelected: selectedTransactions.length > 0 && !isAllSelected,
+  };
+}
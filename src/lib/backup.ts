@@ -0,0 +1,274 @@
+import * as z from 'zod';
+
+/**
+ * Versioned JSON backup of a user's data. Collections are stored as they are in the database (records
+ * keyed by ID; transactions keyed by account ID, then transaction ID), so an archive restores losslessly.
+ */
+
+export const BACKUP_FORMAT = 'finance-app-backup';
+export const BACKUP_VERSION = 1;
+
+/** Database collections under `users/{uid}` included in a backup. */
+export const BACKUP_COLLECTIONS = [
+  'accounts',
+  'transactions',
+  'categories',
+  'tags',
+  'groups',
+  'subscriptions',
+  'budgets',
+  'loans',
+  'creditCards',
+  'transfers',
+  'exchangeRates',
+  'categorizationRules',
+  'categorizationRuleSettings',
+  'importProfiles',
+  'transactionViews',
+  'securities',
+  'investmentEvents',
+  'securityPrices',
+  'investmentSettings',
+  'preferences',
+] as const;
+
+export type BackupCollection = typeof BACKUP_COLLECTIONS[number];
+
+type StoredRecord = Record<string, any>;
+type RecordMap = Record<string, StoredRecord>;
+
+const recordMap = <T extends z.ZodTypeAny>(schema: T) => z.record(z.string(), schema);
+
+const backupDataSchema = z.object({
+  accounts: recordMap(z.object({ name: z.string(), balance: z.number(), currency: z.string() }).passthrough()).optional(),
+  transactions: recordMap(recordMap(z.object({ date: z.string(), amount: z.number() }).passthrough())).optional(),
+  categories: recordMap(z.object({ name: z.string() }).passthrough()).optional(),
+  tags: recordMap(z.object({ name: z.string() }).passthrough()).optional(),
+  groups: recordMap(z.object({ name: z.string() }).passthrough()).optional(),
+  subscriptions: recordMap(z.object({ name: z.string(), amount: z.number() }).passthrough()).optional(),
+  budgets: recordMap(z.object({ name: z.string(), amount: z.number() }).passthrough()).optional(),
+  loans: recordMap(z.object({ name: z.string(), remainingBalance: z.number() }).passthrough()).optional(),
+  creditCards: recordMap(z.object({ name: z.string() }).passthrough()).optional(),
+  transfers: recordMap(z.object({ fromAccountId: z.string(), toAccountId: z.string() }).passthrough()).optional(),
+  exchangeRates: recordMap(z.object({ sourceCurrency: z.string(), targetCurrency: z.string(), rate: z.number() }).passthrough()).optional(),
+  categorizationRules: recordMap(z.object({ name: z.string() }).passthrough()).optional(),
+  categorizationRuleSettings: z.record(z.string(), z.unknown()).optional(),
+  importProfiles: recordMap(z.object({ name: z.string() }).passthrough()).optional(),
+  transactionViews: recordMap(z.object({ name: z.string() }).passthrough()).optional(),
+  securities: recordMap(z.object({ symbol: z.string(), currency: z.string() }).passthrough()).optional(),
+  investmentEvents: recordMap(z.object({ accountId: z.string(), securityId: z.string(), type: z.string(), date: z.string() }).passthrough()).optional(),
+  securityPrices: recordMap(z.object({ securityId: z.string(), date: z.string(), price: z.number() }).passthrough()).optional(),
+  investmentSettings: z.record(z.string(), z.unknown()).optional(),
+  preferences: z.object({ preferredCurrency: z.string() }).passthrough().optional(),
+});
+
+const backupArchiveSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  version: z.number().int().min(1).max(BACKUP_VERSION, "This backup was made by a newer version of the app."),
+  exportedAt: z.string(),
+  data: backupDataSchema,
+});
+
+export type BackupData = z.infer<typeof backupDataSchema>;
+export type BackupArchive = z.infer<typeof backupArchiveSchema>;
+
+export type RestoreMode = 'replace' | 'merge';
+
+/** Record counts per collection, for previews and summaries. */
+export type BackupSummary = Partial<Record<BackupCollection, number>>;
+
+export function createBackupArchive(data: BackupData, exportedAt: Date = new Date()): BackupArchive {
+  return { format: BACKUP_FORMAT, version: BACKUP_VERSION, exportedAt: exportedAt.toISOString(), data };
+}
+
+/** Parses and validates a backup file. Throws with a readable message when it is not a usable archive. */
+export function parseBackupArchive(json: string): BackupArchive {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+  const result = backupArchiveSchema.safeParse(raw);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const location = issue.path.length > 0 ? ` (at ${issue.path.join('.')})` : '';
+    throw new Error(`The file is not a valid backup: ${issue.message}${location}.`);
+  }
+  return result.data;
+}
+
+export function summarizeBackup(data: BackupData): BackupSummary {
+  const summary: BackupSummary = {};
+  BACKUP_COLLECTIONS.forEach(collection => {
+    const value = data[collection];
+    if (!value || collection === 'preferences' || collection === 'categorizationRuleSettings' || collection === 'investmentSettings') return;
+    summary[collection] = collection === 'transactions'
+      ? Object.values(value as Record<string, RecordMap>).reduce((sum, byId) => sum + Object.keys(byId).length, 0)
+      : Object.keys(value).length;
+  });
+  return summary;
+}
+
+/** IDs of existing records that restored records should map onto instead of being created again. */
+export interface ExistingIdMatches {
+  categories?: Record<string, string>; // Backup category ID -> existing category ID
+  tags?: Record<string, string>;
+}
+
+/**
+ * Gives every record in the backup a new ID and rewrites the references between records (accounts of
+ * transactions, transfer legs, loan payments, budget and group category lists...). References to IDs
+ * that are not in the backup are kept as they are. `matches` maps records onto existing ones, which are
+ * then left out of the result.
+ */
+export function remapBackupIds(data: BackupData, newId: () => string, matches: ExistingIdMatches = {}): BackupData {
+  const idMaps: Partial<Record<BackupCollection, Map<string, string>>> = {};
+  const mapFor = (collection: BackupCollection): Map<string, string> => {
+    if (!idMaps[collection]) idMaps[collection] = new Map();
+    return idMaps[collection]!;
+  };
+
+  (['accounts', 'categories', 'tags', 'groups', 'subscriptions', 'budgets', 'loans', 'creditCards', 'transfers', 'exchangeRates', 'categorizationRules', 'importProfiles', 'transactionViews', 'securities', 'investmentEvents'] as const)
+    .forEach(collection => {
+      const matched = (collection === 'categories' || collection === 'tags') ? matches[collection] || {} : {};
+      Object.keys(data[collection] || {}).forEach(id => mapFor(collection).set(id, matched[id] || newId()));
+    });
+  Object.values(data.transactions || {}).forEach(byId => {
+    Object.keys(byId).forEach(id => mapFor('transactions').set(id, newId()));
+  });
+
+  const remap = (collection: BackupCollection, id: string | null | undefined) =>
+    id ? idMaps[collection]?.get(id) ?? id : id;
+  // Category and tag IDs held by transactions, split lines, subscriptions, transfers and rule actions
+  const remapReferences = (record: StoredRecord): StoredRecord => ({
+    ...record,
+    ...(record.categoryId ? { categoryId: remap('categories', record.categoryId) } : {}),
+    ...(record.tagIds ? { tagIds: record.tagIds.map((id: string) => remap('tags', id)) } : {}),
+  });
+  const remapRecords = (
+    collection: BackupCollection,
+    rewrite: (record: StoredRecord) => StoredRecord = record => record,
+    skip: Record<string, string> = {}
+  ): RecordMap | undefined => {
+    const records = data[collection] as RecordMap | undefined;
+    if (!records) return undefined;
+    const result: RecordMap = {};
+    Object.entries(records).forEach(([id, record]) => {
+      if (skip[id]) return;
+      result[remap(collection, id) as string] = rewrite({ ...record });
+    });
+    return result;
+  };
+
+  const transactions: Record<string, RecordMap> = {};
+  Object.entries(data.transactions || {}).forEach(([accountId, byId]) => {
+    const newAccountId = remap('accounts', accountId) as string;
+    transactions[newAccountId] = transactions[newAccountId] || {};
+    Object.entries(byId as RecordMap).forEach(([id, record]) => {
+      transactions[newAccountId][remap('transactions', id) as string] = {
+        ...remapReferences(record),
+        ...(record.splits ? { splits: record.splits.map(remapReferences) } : {}),
+        accountId: newAccountId,
+        ...(record.transferId ? { transferId: remap('transfers', record.transferId) } : {}),
+        ...(record.subscriptionId ? { subscriptionId: remap('subscriptions', record.subscriptionId) } : {}),
+        ...(record.loanId ? { loanId: remap('loans', record.loanId) } : {}),
+      };
+    });
+  });
+
+  // Price keys are `${date}_${securityId}`, so they follow the security's new ID
+  const securityPrices: RecordMap = {};
+  Object.values(data.securityPrices || {}).forEach(record => {
+    const securityId = remap('securities', record.securityId) as string;
+    securityPrices[`${record.date}_${securityId}`] = { ...record, securityId };
+  });
+
+  const remapped: Record<string, unknown> = {
+    ...data,
+    accounts: remapRecords('accounts'),
+    transactions: data.transactions ? transactions : undefined,
+    categories: remapRecords('categories', record => ({
+      ...record,
+      ...(record.parentId ? { parentId: remap('categories', record.parentId) } : {}),
+    }), matches.categories),
+    tags: remapRecords('tags', record => record, matches.tags),
+    groups: remapRecords('groups', record => ({
+      ...record,
+      categoryIds: (record.categoryIds || []).map((id: string) => remap('categories', id)),
+    })),
+    subscriptions: remapRecords('subscriptions', record => ({
+      ...remapReferences(record),
+      ...(record.accountId ? { accountId: remap('accounts', record.accountId) } : {}),
+      ...(record.groupId ? { groupId: remap('groups', record.groupId) } : {}),
+      ...(record.settledOccurrences ? {
+        settledOccurrences: Object.fromEntries(
+          Object.entries(record.settledOccurrences as Record<string, string>).map(([date, txId]) => [date, remap('transactions', txId)])
+        ),
+      } : {}),
+    })),
+    budgets: remapRecords('budgets', record => ({
+      ...record,
+      selectedIds: (record.selectedIds || []).map((id: string) => remap(record.appliesTo === 'groups' ? 'groups' : 'categories', id)),
+    })),
+    loans: remapRecords('loans', record => ({
+      ...record,
+      ...(record.payments ? {
+        payments: Object.fromEntries(
+          Object.values(record.payments as RecordMap).map(payment => {
+            const transactionId = remap('transactions', payment.transactionId) as string;
+            return [transactionId, { ...payment, transactionId, accountId: remap('accounts', payment.accountId) }];
+          })
+        ),
+      } : {}),
+    })),
+    creditCards: remapRecords('creditCards', record => ({
+      ...record,
+      ...(record.accountId ? { accountId: remap('accounts', record.accountId) } : {}),
+    })),
+    transfers: remapRecords('transfers', record => ({
+      ...remapReferences(record),
+      fromAccountId: remap('accounts', record.fromAccountId),
+      toAccountId: remap('accounts', record.toAccountId),
+      fromTransactionId: remap('transactions', record.fromTransactionId),
+      toTransactionId: remap('transactions', record.toTransactionId),
+      ...(record.feeTransactionId ? { feeTransactionId: remap('transactions', record.feeTransactionId) } : {}),
+    })),
+    exchangeRates: remapRecords('exchangeRates'),
+    categorizationRules: remapRecords('categorizationRules', record => ({
+      ...record,
+      ...(record.actions ? { actions: remapReferences(record.actions) } : {}),
+      ...(record.conditions?.accountId ? { conditions: { ...record.conditions, accountId: remap('accounts', record.conditions.accountId) } } : {}),
+    })),
+    importProfiles: remapRecords('importProfiles', record => ({
+      ...record,
+      ...(record.defaultAccountId ? { defaultAccountId: remap('accounts', record.defaultAccountId) } : {}),
+    })),
+    transactionViews: remapRecords('transactionViews', record => ({
+      ...record,
+      ...(record.filter?.groups ? {
+        filter: {
+          ...record.filter,
+          groups: record.filter.groups.map((group: StoredRecord) => ({
+            ...group,
+            conditions: (group.conditions || []).map((condition: StoredRecord) => ({
+              ...condition,
+              ...(condition.accountIds ? { accountIds: condition.accountIds.map((id: string) => remap('accounts', id)) } : {}),
+              ...(condition.categoryIds ? { categoryIds: condition.categoryIds.map((id: string) => remap('categories', id)) } : {}),
+              ...(condition.tagIds ? { tagIds: condition.tagIds.map((id: string) => remap('tags', id)) } : {}),
+              ...(condition.groupIds ? { groupIds: condition.groupIds.map((id: string) => remap('groups', id)) } : {}),
+            })),
+          })),
+        },
+      } : {}),
+    })),
+    securities: remapRecords('securities'),
+    investmentEvents: remapRecords('investmentEvents', record => ({
+      ...record,
+      accountId: remap('accounts', record.accountId),
+      securityId: remap('securities', record.securityId),
+    })),
+    securityPrices: data.securityPrices ? securityPrices : undefined,
+  };
+  return remapped as BackupData;
+}
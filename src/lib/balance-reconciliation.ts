@@ -0,0 +1,65 @@
+import { convertCurrency } from '@/lib/currency';
+import type { Transaction } from '@/services/transactions';
+
+// Differences below half a cent are rounding noise, not drift.
+const DRIFT_TOLERANCE = 0.005;
+
+export const OPENING_BALANCE_CATEGORY = 'Opening Balance';
+
+export interface BalanceLedger {
+  currency: string;
+  openingBalance: number;
+  hasRecordedOpeningBalance: boolean; // False when the opening balance is inferred from transactions or assumed 0
+  transactionsTotal: number; // Sum of all other transactions, in the account currency
+  transactionCount: number;
+  computedBalance: number; // openingBalance + transactionsTotal
+  storedBalance: number;
+  drift: number; // storedBalance - computedBalance
+  hasDrift: boolean;
+}
+
+function roundToCents(value: number): number {
+  return parseFloat(value.toFixed(2));
+}
+
+export function isOpeningBalanceTransaction(transaction: Pick<Transaction, 'category'>): boolean {
+  return transaction.category?.toLowerCase() === OPENING_BALANCE_CATEGORY.toLowerCase();
+}
+
+/**
+ * Recomputes an account balance from its opening balance and transactions, converting amounts into
+ * the account currency the same way balance updates do. Opening-balance transactions never move the
+ * stored balance, so they only stand in for the opening balance when the account has none recorded.
+ */
+export function computeBalanceLedger(
+  account: { balance: number; currency: string; openingBalance?: number | null },
+  transactions: Transaction[]
+): BalanceLedger {
+  const toAccountCurrency = (transaction: Transaction) =>
+    transaction.transactionCurrency && transaction.transactionCurrency.toUpperCase() !== account.currency.toUpperCase()
+      ? convertCurrency(transaction.amount, transaction.transactionCurrency, account.currency)
+      : transaction.amount;
+
+  const openingTransactions = transactions.filter(isOpeningBalanceTransaction);
+  const ledgerTransactions = transactions.filter(tx => !isOpeningBalanceTransaction(tx));
+  const hasRecordedOpeningBalance = typeof account.openingBalance === 'number';
+  const openingBalance = hasRecordedOpeningBalance
+    ? account.openingBalance as number
+    : openingTransactions.reduce((sum, tx) => sum + toAccountCurrency(tx), 0);
+
+  const transactionsTotal = roundToCents(ledgerTransactions.reduce((sum, tx) => sum + toAccountCurrency(tx), 0));
+  const computedBalance = roundToCents(openingBalance + transactionsTotal);
+  const drift = roundToCents(account.balance - computedBalance);
+
+  return {
+    currency: account.currency,
+    openingBalance: roundToCents(openingBalance),
+    hasRecordedOpeningBalance,
+    transactionsTotal,
+    transactionCount: ledgerTransactions.length,
+    computedBalance,
+    storedBalance: account.balance,
+    drift,
+    hasDrift: Math.abs(drift) >= DRIFT_TOLERANCE,
+  };
+}
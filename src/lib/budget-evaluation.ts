@@ -0,0 +1,157 @@
+import { addDays, addMonths, format, parseISO } from 'date-fns';
+import { convertCurrency } from './currency';
+import { getCategoryNamesWithDescendants, type TreeCategory } from './category-tree';
+
+export const DEFAULT_BUDGET_ALERT_THRESHOLDS = [80, 100];
+
+export type BudgetStatus = 'ok' | 'warning' | 'over';
+
+/** The budget fields the evaluation needs; mirrors `Budget` in services/budgets. */
+export interface EvaluableBudget {
+  id: string;
+  amount: number;
+  currency: string;
+  period: 'monthly' | 'quarterly' | 'annually' | 'custom';
+  startDate: string; // YYYY-MM-DD
+  endDate?: string | null; // YYYY-MM-DD, custom period only
+  appliesTo: 'categories' | 'groups';
+  selectedIds: string[];
+  rollover?: boolean;
+  alertThresholds?: number[] | null; // Percentages of the available amount, e.g. [80, 100]
+}
+
+export interface BudgetTransaction {
+  date: string;
+  amount: number; // Negative for expenses
+  transactionCurrency: string;
+  category: string;
+  transferId?: string | null;
+}
+
+export interface BudgetPeriodProgress {
+  start: string; // YYYY-MM-DD
+  end: string; // YYYY-MM-DD, inclusive
+  budgeted: number;
+  rolloverIn: number; // Carried from the previous period: positive if underspent, negative if overspent
+  available: number; // budgeted + rolloverIn
+  spent: number;
+  remaining: number; // available - spent
+  percentUsed: number; // spent / available * 100 (100+ means overspent)
+  crossedThresholds: number[];
+  status: BudgetStatus;
+}
+
+export interface BudgetEvaluation {
+  budgetId: string;
+  periods: BudgetPeriodProgress[]; // Oldest first, up to and including the period containing `asOf`
+  current: BudgetPeriodProgress | null;
+}
+
+export type AmountConverter = (amount: number, fromCurrency: string, toCurrency: string, onDate: string) => number;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+const toDateStr = (date: Date) => format(date, 'yyyy-MM-dd');
+const staticConverter: AmountConverter = (amount, fromCurrency, toCurrency) => convertCurrency(amount, fromCurrency, toCurrency);
+
+const PERIOD_LENGTH_IN_MONTHS: Record<Exclude<EvaluableBudget['period'], 'custom'>, number> = {
+  monthly: 1,
+  quarterly: 3,
+  annually: 12,
+};
+
+/**
+ * The period instances of a budget from its start date through the one containing `throughDate`.
+ * Recurring periods are anchored on the start date; a custom budget has a single period.
+ */
+export function getBudgetPeriods(budget: Pick<EvaluableBudget, 'period' | 'startDate' | 'endDate'>, throughDate: string): { start: string; end: string }[] {
+  if (budget.period === 'custom') {
+    return [{ start: budget.startDate, end: budget.endDate || budget.startDate }];
+  }
+  const months = PERIOD_LENGTH_IN_MONTHS[budget.period];
+  const anchor = parseISO(budget.startDate);
+  const periods: { start: string; end: string }[] = [];
+  for (let i = 0; i < 1000; i++) {
+    const start = toDateStr(addMonths(anchor, i * months));
+    if (start > throughDate) break;
+    periods.push({ start, end: toDateStr(addDays(addMonths(anchor, (i + 1) * months), -1)) });
+  }
+  return periods;
+}
+
+/**
+ * Category names a budget tracks. Transactions reference categories by name, while budgets
+ * store category or group IDs. A selected parent category brings in all of its subcategories.
+ */
+export function getBudgetCategoryNames(
+  budget: Pick<EvaluableBudget, 'appliesTo' | 'selectedIds'>,
+  categories: TreeCategory[],
+  groups: { id: string; categoryIds: string[] }[]
+): Set<string> {
+  const categoryIds = budget.appliesTo === 'groups'
+    ? groups.filter(g => budget.selectedIds.includes(g.id)).flatMap(g => g.categoryIds || [])
+    : budget.selectedIds;
+  const names = new Set<string>();
+  categoryIds.forEach(id => getCategoryNamesWithDescendants(id, categories).forEach(name => names.add(name)));
+  return names;
+}
+
+function getStatus(percentUsed: number, crossedThresholds: number[]): BudgetStatus {
+  if (percentUsed >= 100) return 'over';
+  return crossedThresholds.length > 0 ? 'warning' : 'ok';
+}
+
+/**
+ * Evaluates a budget period by period: sums matching expenses (converted to the budget currency)
+ * and, when `rollover` is on, carries each period's remaining amount, positive or negative,
+ * into the next one.
+ */
+export function evaluateBudget(
+  budget: EvaluableBudget,
+  transactions: BudgetTransaction[],
+  categories: TreeCategory[],
+  groups: { id: string; categoryIds: string[] }[],
+  options: { asOf?: Date; convert?: AmountConverter } = {}
+): BudgetEvaluation {
+  const asOf = toDateStr(options.asOf || new Date());
+  const convert = options.convert || staticConverter;
+  const thresholds = [...(budget.alertThresholds && budget.alertThresholds.length > 0 ? budget.alertThresholds : DEFAULT_BUDGET_ALERT_THRESHOLDS)].sort((a, b) => a - b);
+  const trackedCategories = getBudgetCategoryNames(budget, categories, groups);
+
+  const expenses = transactions.filter(tx =>
+    tx.amount < 0 &&
+    !tx.transferId &&
+    tx.category !== 'Transfer' &&
+    trackedCategories.has((tx.category || '').toLowerCase())
+  );
+
+  let carry = 0;
+  const periods = getBudgetPeriods(budget, asOf).map(({ start, end }) => {
+    const spent = round2(expenses
+      .filter(tx => {
+        const day = tx.date.slice(0, 10);
+        return day >= start && day <= end;
+      })
+      .reduce((sum, tx) => sum + convert(Math.abs(tx.amount), tx.transactionCurrency, budget.currency, tx.date.slice(0, 10)), 0));
+    const rolloverIn = budget.rollover ? carry : 0;
+    const available = round2(budget.amount + rolloverIn);
+    const remaining = round2(available - spent);
+    const percentUsed = available > 0 ? round2((spent / available) * 100) : (spent > 0 ? 100 : 0);
+    const crossedThresholds = thresholds.filter(t => percentUsed >= t);
+    carry = remaining;
+    return {
+      start,
+      end,
+      budgeted: budget.amount,
+      rolloverIn: round2(rolloverIn),
+      available,
+      spent,
+      remaining,
+      percentUsed,
+      crossedThresholds,
+      status: getStatus(percentUsed, crossedThresholds),
+    };
+  });
+
+  const current = periods.find(p => p.start <= asOf && asOf <= p.end) || periods[periods.length - 1] || null;
+  return { budgetId: budget.id, periods, current };
+}
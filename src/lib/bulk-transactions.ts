@@ -0,0 +1,120 @@
+import { addDays, format as formatDateFns, parseISO } from 'date-fns';
+import type { Transaction } from '@/services/transactions';
+import type { Account } from '@/services/account-sync';
+
+/**
+ * Bulk edits for selected transactions. Each action is checked per transaction first: transfer legs
+ * and loan payments keep their links consistent only when edited from their own pages, so they are
+ * skipped with a reason instead of failing the whole batch.
+ */
+
+export type BulkTransactionAction =
+  | { type: 'set-category'; category: string }
+  | { type: 'add-tags'; tags: string[] }
+  | { type: 'remove-tags'; tags: string[] }
+  | { type: 'change-account'; accountId: string }
+  | { type: 'shift-date'; days: number }
+  | { type: 'convert-to-transfer'; counterpartAccountId: string } // Expenses go to it, income comes from it
+  | { type: 'delete' };
+
+export type BulkActionType = BulkTransactionAction['type'];
+
+export const BULK_ACTION_LABELS: Record<BulkActionType, string> = {
+  'set-category': 'Set category',
+  'add-tags': 'Add tags',
+  'remove-tags': 'Remove tags',
+  'change-account': 'Change account',
+  'shift-date': 'Shift date',
+  'convert-to-transfer': 'Convert to transfer',
+  'delete': 'Delete',
+};
+
+// Actions that replace the stored record (new ID), which would orphan a subscription's settlement link
+const RECREATING_ACTIONS: BulkActionType[] = ['change-account', 'convert-to-transfer'];
+
+/** Why `action` cannot be applied to `transaction`, or null when it can. */
+export function getBulkActionSkipReason(transaction: Transaction, action: BulkTransactionAction): string | null {
+  if (transaction.transferId) return "Part of a transfer; edit it from the Transfers page.";
+  if (transaction.loanId && (action.type === 'delete' || RECREATING_ACTIONS.includes(action.type))) {
+    return "Loan payment; manage it from the loan.";
+  }
+  if (transaction.subscriptionId && action.type === 'delete') {
+    // Deleting reopens the subscription payment, which undo could not settle again
+    return "Subscription payment; delete it on its own.";
+  }
+  if (transaction.subscriptionId && RECREATING_ACTIONS.includes(action.type)) {
+    return "Posted for a subscription; its account cannot change.";
+  }
+  switch (action.type) {
+    case 'set-category':
+      if (transaction.splits?.length) return "Split across categories; edit the split lines instead.";
+      return transaction.category.trim().toLowerCase() === action.category.trim().toLowerCase() ? "Already in this category." : null;
+    case 'change-account':
+      return transaction.accountId === action.accountId ? "Already in this account." : null;
+    case 'convert-to-transfer':
+      if (transaction.accountId === action.counterpartAccountId) return "Already in the counterpart account.";
+      return transaction.amount === 0 ? "Zero amount." : null;
+    default:
+      return null;
+  }
+}
+
+export function shiftTransactionDate(date: string, days: number): string {
+  const parsed = parseISO(date.includes('T') ? date : `${date}T00:00:00`);
+  return formatDateFns(addDays(parsed, days), 'yyyy-MM-dd');
+}
+
+/** Drops the named tags (case-insensitively) and their parallel `tagIds`, or returns null when none are present. */
+function removeTags<T extends { tags?: string[]; tagIds?: string[] }>(record: T, toRemove: Set<string>): T | null {
+  const tags = record.tags || [];
+  const kept = tags.map((tag, index) => ({ tag, tagId: record.tagIds?.[index] ?? '' })).filter(({ tag }) => !toRemove.has(tag.toLowerCase()));
+  if (kept.length === tags.length) return null;
+  return {
+    ...record,
+    tags: kept.map(({ tag }) => tag),
+    ...(record.tagIds ? { tagIds: kept.map(({ tagId }) => tagId) } : {}),
+  };
+}
+
+/**
+ * The edited transaction for actions that update it in place (category, tags and date), or null
+ * when nothing would change. Other actions replace or remove the record and return null.
+ */
+export function applyBulkFieldChange(transaction: Transaction, action: BulkTransactionAction): Transaction | null {
+  switch (action.type) {
+    case 'set-category':
+      return { ...transaction, category: action.category };
+    case 'add-tags': {
+      const existing = transaction.tags || [];
+      const toAdd = action.tags.filter(tag => !existing.some(current => current.toLowerCase() === tag.toLowerCase()));
+      return toAdd.length > 0 ? { ...transaction, tags: [...existing, ...toAdd] } : null;
+    }
+    case 'remove-tags': {
+      // Split lines carry their own tags, which tag filters and reports count too
+      const toRemove = new Set(action.tags.map(tag => tag.toLowerCase()));
+      const edited = removeTags(transaction, toRemove);
+      const splits = transaction.splits?.map(split => removeTags(split, toRemove) ?? split);
+      const splitsChanged = !!splits && splits.some((split, index) => split !== transaction.splits![index]);
+      if (!edited && !splitsChanged) return null;
+      return { ...(edited ?? transaction), ...(splitsChanged ? { splits } : {}) };
+    }
+    case 'shift-date':
+      return action.days !== 0 ? { ...transaction, date: shiftTransactionDate(transaction.date, action.days) } : null;
+    default:
+      return null;
+  }
+}
+
+/** Short description for toasts, e.g. "Set category to Groceries" or "Shift date by -3 days". */
+export function describeBulkAction(action: BulkTransactionAction, accounts: Account[]): string {
+  const accountName = (id: string) => accounts.find(account => account.id === id)?.name || 'an unknown account';
+  switch (action.type) {
+    case 'set-category': return `Set category to ${action.category}`;
+    case 'add-tags': return `Add ${action.tags.join(', ')}`;
+    case 'remove-tags': return `Remove ${action.tags.join(', ')}`;
+    case 'change-account': return `Move to ${accountName(action.accountId)}`;
+    case 'shift-date': return `Shift date by ${action.days > 0 ? '+' : ''}${action.days} day${Math.abs(action.days) === 1 ? '' : 's'}`;
+    case 'convert-to-transfer': return `Convert to transfers with ${accountName(action.counterpartAccountId)}`;
+    case 'delete': return 'Delete';
+  }
+}
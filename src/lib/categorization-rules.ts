@@ -0,0 +1,143 @@
+export type RuleMatchMode = 'first' | 'all';
+
+export interface RuleConditions {
+  descriptionContains?: string | null; // Case-insensitive substring
+  descriptionRegex?: string | null; // Case-insensitive regular expression
+  minAmount?: number | null; // Compared with the absolute amount
+  maxAmount?: number | null;
+  accountId?: string | null;
+  currency?: string | null;
+}
+
+export interface RuleActions {
+  category?: string | null;
+  categoryId?: string | null;
+  tags?: string[];
+  tagIds?: string[];
+  description?: string | null; // Replacement description; `$1`, `$2`... insert groups captured by `descriptionRegex`
+}
+
+export interface CategorizationRule {
+  id: string;
+  name: string;
+  order: number; // Rules run in ascending order
+  isActive: boolean;
+  conditions: RuleConditions;
+  actions: RuleActions;
+}
+
+/** The transaction fields rules read and write. */
+export interface RuleTarget {
+  description: string;
+  amount: number;
+  accountId?: string | null;
+  transactionCurrency: string;
+  category: string;
+  tags?: string[];
+  transferId?: string | null;
+}
+
+export interface RuleApplication {
+  category: string;
+  tags: string[];
+  description: string;
+  matchedRuleIds: string[];
+  changed: boolean;
+}
+
+export const RULE_MATCH_MODE_LABELS: Record<RuleMatchMode, string> = {
+  first: 'First matching rule only',
+  all: 'All matching rules, in order',
+};
+
+const UNCATEGORIZED = 'Uncategorized';
+// Categories that carry meaning of their own (transfer legs, split parents, balance seeds) are never re-categorized.
+const PROTECTED_CATEGORIES = ['transfer', 'split', 'opening balance'];
+
+/** Returns an error message when `pattern` is not a valid regular expression, null otherwise. */
+export function getRegexError(pattern: string): string | null {
+  try {
+    new RegExp(pattern, 'i');
+    return null;
+  } catch (error: any) {
+    return error.message || 'Invalid regular expression.';
+  }
+}
+
+export function hasRuleConditions(conditions: RuleConditions): boolean {
+  return !!(conditions.descriptionContains || conditions.descriptionRegex || conditions.accountId || conditions.currency
+    || conditions.minAmount != null || conditions.maxAmount != null);
+}
+
+/**
+ * Checks `target` against the rule's conditions, all of which must hold. Returns the regex match (the whole
+ * description when the rule has no regex) on success, null otherwise. Rules without conditions never match.
+ */
+export function matchRule(rule: CategorizationRule, target: RuleTarget): RegExpMatchArray | null {
+  const { conditions } = rule;
+  if (!rule.isActive || !hasRuleConditions(conditions)) return null;
+
+  const description = target.description || '';
+  if (conditions.descriptionContains && !description.toLowerCase().includes(conditions.descriptionContains.toLowerCase())) return null;
+  if (conditions.accountId && conditions.accountId !== target.accountId) return null;
+  if (conditions.currency && conditions.currency.toUpperCase() !== target.transactionCurrency?.toUpperCase()) return null;
+
+  const absoluteAmount = Math.abs(target.amount);
+  if (conditions.minAmount != null && absoluteAmount < conditions.minAmount) return null;
+  if (conditions.maxAmount != null && absoluteAmount > conditions.maxAmount) return null;
+
+  if (conditions.descriptionRegex) {
+    if (getRegexError(conditions.descriptionRegex)) return null;
+    return description.match(new RegExp(conditions.descriptionRegex, 'i'));
+  }
+  return [description] as RegExpMatchArray;
+}
+
+function renderDescription(template: string, match: RegExpMatchArray): string {
+  return template.replace(/\$(\d+|&)/g, (_, group: string) => (group === '&' ? match[0] : match[Number(group)]) ?? '').trim();
+}
+
+/**
+ * Runs the rules, in order, against `target`. Conditions are always evaluated on the original fields.
+ * An existing category is kept unless it is 'Uncategorized' or `overwriteCategory` is set; tags are added
+ * to the existing ones. Transfers and split or opening balance transactions are left untouched.
+ */
+export function applyCategorizationRules(
+  target: RuleTarget,
+  rules: CategorizationRule[],
+  options: { matchMode: RuleMatchMode; overwriteCategory?: boolean }
+): RuleApplication {
+  const result: RuleApplication = {
+    category: target.category,
+    tags: [...(target.tags || [])],
+    description: target.description,
+    matchedRuleIds: [],
+    changed: false,
+  };
+  if (target.transferId || PROTECTED_CATEGORIES.includes((target.category || '').toLowerCase())) return result;
+
+  const canSetCategory = options.overwriteCategory || !target.category || target.category === UNCATEGORIZED;
+  const orderedRules = [...rules].sort((a, b) => a.order - b.order);
+
+  for (const rule of orderedRules) {
+    const match = matchRule(rule, target);
+    if (!match) continue;
+    result.matchedRuleIds.push(rule.id);
+
+    if (rule.actions.category && canSetCategory) result.category = rule.actions.category;
+    (rule.actions.tags || []).forEach(tag => {
+      if (!result.tags.some(existing => existing.toLowerCase() === tag.toLowerCase())) result.tags.push(tag);
+    });
+    if (rule.actions.description) {
+      const cleaned = renderDescription(rule.actions.description, match);
+      if (cleaned) result.description = cleaned;
+    }
+
+    if (options.matchMode === 'first') break;
+  }
+
+  result.changed = result.category !== target.category
+    || result.description !== target.description
+    || result.tags.length !== (target.tags || []).length;
+  return result;
+}
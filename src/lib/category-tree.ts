@@ -0,0 +1,147 @@
+/**
+ * Parent/child structure of categories. Categories point at their parent by ID; transactions still
+ * reference categories by name, so rollups match names case-insensitively.
+ */
+
+export interface TreeCategory {
+  id: string;
+  name: string;
+  parentId?: string | null;
+}
+
+export const CATEGORY_PATH_SEPARATOR = ' › ';
+
+/** Parent IDs that point at a missing category are treated as top level. */
+function getParentId(category: TreeCategory, categoriesById: Map<string, TreeCategory>): string | null {
+  return category.parentId && categoriesById.has(category.parentId) && category.parentId !== category.id ? category.parentId : null;
+}
+
+export function getChildCategories<T extends TreeCategory>(parentId: string | null, categories: T[]): T[] {
+  const categoriesById = new Map<string, TreeCategory>(categories.map(category => [category.id, category]));
+  return categories
+    .filter(category => getParentId(category, categoriesById) === parentId)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** IDs of every category below `categoryId`, at any depth. */
+export function getDescendantCategoryIds(categoryId: string, categories: TreeCategory[]): string[] {
+  const childrenByParent = new Map<string, string[]>();
+  const categoriesById = new Map(categories.map(category => [category.id, category]));
+  categories.forEach(category => {
+    const parentId = getParentId(category, categoriesById);
+    if (parentId) childrenByParent.set(parentId, [...(childrenByParent.get(parentId) || []), category.id]);
+  });
+
+  const descendants: string[] = [];
+  const visited = new Set([categoryId]); // Guards against cycles in stored data
+  const queue = [...(childrenByParent.get(categoryId) || [])];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    if (visited.has(id)) continue;
+    visited.add(id);
+    descendants.push(id);
+    queue.push(...(childrenByParent.get(id) || []));
+  }
+  return descendants;
+}
+
+/** The category's ancestors, root first. */
+export function getCategoryAncestors<T extends TreeCategory>(categoryId: string, categories: T[]): T[] {
+  const categoriesById = new Map(categories.map(category => [category.id, category]));
+  const ancestors: T[] = [];
+  const visited = new Set([categoryId]);
+  let parentId = categoriesById.get(categoryId)?.parentId;
+  while (parentId && categoriesById.has(parentId) && !visited.has(parentId)) {
+    visited.add(parentId);
+    const parent = categoriesById.get(parentId)!;
+    ancestors.unshift(parent);
+    parentId = parent.parentId;
+  }
+  return ancestors;
+}
+
+/** Full name of a category, e.g. "Food › Restaurants". */
+export function getCategoryPath(category: TreeCategory, categories: TreeCategory[]): string {
+  return [...getCategoryAncestors(category.id, categories), category].map(c => c.name).join(CATEGORY_PATH_SEPARATOR);
+}
+
+/** Whether `parentId` can become the parent of `categoryId`: not itself and not one of its descendants. */
+export function isValidCategoryParent(categoryId: string, parentId: string | null, categories: TreeCategory[]): boolean {
+  if (!parentId) return true;
+  return parentId !== categoryId && !getDescendantCategoryIds(categoryId, categories).includes(parentId);
+}
+
+/** Categories in tree order (each parent followed by its children, alphabetically), with their depth. */
+export function flattenCategoryTree<T extends TreeCategory>(categories: T[]): { category: T; depth: number }[] {
+  const result: { category: T; depth: number }[] = [];
+  const visited = new Set<string>();
+  const visit = (parentId: string | null, depth: number) => {
+    getChildCategories(parentId, categories).forEach(category => {
+      if (visited.has(category.id)) return;
+      visited.add(category.id);
+      result.push({ category, depth });
+      visit(category.id, depth + 1);
+    });
+  };
+  visit(null, 0);
+  // Categories caught in a parent cycle are unreachable from the roots; list them at the top level
+  categories.filter(category => !visited.has(category.id)).forEach(category => result.push({ category, depth: 0 }));
+  return result;
+}
+
+/** Lower-cased names of a category and all its descendants, for matching transactions. */
+export function getCategoryNamesWithDescendants(categoryId: string, categories: TreeCategory[]): Set<string> {
+  const ids = new Set([categoryId, ...getDescendantCategoryIds(categoryId, categories)]);
+  return new Set(categories.filter(category => ids.has(category.id)).map(category => category.name.toLowerCase()));
+}
+
+export interface CategoryRollup {
+  categoryId: string | null; // Null for names that match no category
+  name: string;
+  amount: number; // Own amount plus every descendant's
+  ownAmount: number; // Booked on the category itself
+  hasChildren: boolean; // Whether it can be drilled into
+}
+
+/**
+ * Rolls amounts booked per category name up the tree and returns one row per child of `parentId`
+ * (the top level when null), largest first. When drilled into a category, amounts booked on that
+ * category itself get their own row. Names that match no category are kept as top-level rows.
+ */
+export function rollUpCategoryAmounts(
+  amountsByName: Map<string, number> | Record<string, number>,
+  categories: TreeCategory[],
+  parentId: string | null = null
+): CategoryRollup[] {
+  const entries = amountsByName instanceof Map ? Array.from(amountsByName.entries()) : Object.entries(amountsByName);
+  const categoriesByName = new Map(categories.map(category => [category.name.toLowerCase(), category]));
+  const ownAmounts = new Map<string, number>();
+  const unmatched: CategoryRollup[] = [];
+  entries.forEach(([name, amount]) => {
+    const category = categoriesByName.get(name.toLowerCase());
+    if (category) {
+      ownAmounts.set(category.id, (ownAmounts.get(category.id) || 0) + amount);
+    } else if (parentId === null) {
+      unmatched.push({ categoryId: null, name, amount, ownAmount: amount, hasChildren: false });
+    }
+  });
+
+  const totalFor = (categoryId: string) =>
+    [categoryId, ...getDescendantCategoryIds(categoryId, categories)].reduce((sum, id) => sum + (ownAmounts.get(id) || 0), 0);
+
+  const rows: CategoryRollup[] = getChildCategories(parentId, categories).map(category => ({
+    categoryId: category.id,
+    name: category.name,
+    amount: totalFor(category.id),
+    ownAmount: ownAmounts.get(category.id) || 0,
+    hasChildren: getDescendantCategoryIds(category.id, categories).length > 0,
+  }));
+  if (parentId !== null) {
+    const parent = categories.find(category => category.id === parentId);
+    const ownAmount = ownAmounts.get(parentId) || 0;
+    if (parent && ownAmount) rows.push({ categoryId: parent.id, name: parent.name, amount: ownAmount, ownAmount, hasChildren: false });
+  }
+  return [...rows, ...unmatched]
+    .filter(row => Math.abs(row.amount) > 0)
+    .sort((a, b) => b.amount - a.amount);
+}
@@ -0,0 +1,133 @@
+import { addDays, addMonths, endOfMonth, format, getDaysInMonth, parseISO, setDate, startOfDay, startOfMonth } from 'date-fns';
+import { convertCurrency } from './currency';
+
+export const DEFAULT_MINIMUM_PAYMENT_PERCENT = 5;
+// Used when the card has no payment due date to infer the due day from.
+const DEFAULT_DAYS_FROM_CLOSE_TO_DUE = 10;
+
+/** A transaction on the card's account: negative amounts are charges, positive amounts are payments and refunds. */
+export interface CardTransaction {
+  id: string;
+  date: string; // YYYY-MM-DD
+  amount: number;
+  transactionCurrency: string;
+  description: string;
+  category: string;
+}
+
+export interface StatementCardSettings {
+  statementClosingDay?: number | null;
+  paymentDueDate?: string | null;
+  minimumPaymentPercent?: number | null;
+}
+
+export interface CreditCardStatement<T extends CardTransaction = CardTransaction> {
+  periodStart: string; // YYYY-MM-DD, first day included in the statement
+  closingDate: string; // YYYY-MM-DD, last day included in the statement
+  dueDate: string; // YYYY-MM-DD
+  isClosed: boolean; // False for the cycle that is still open today
+  openingBalance: number; // Amount owed before the period (positive = owed)
+  purchases: number; // Charges during the period
+  payments: number; // Payments and refunds during the period
+  closingBalance: number; // Amount owed at closing
+  paymentsSinceClosing: number; // Payments after closing, up to the due date
+  amountDue: number; // What is still owed on this statement
+  minimumPayment: number;
+  transactions: T[];
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+const toDateStr = (date: Date) => format(date, 'yyyy-MM-dd');
+
+/**
+ * The closing date of the statement that closes in the month of `monthDate`. A closing day past
+ * the end of a short month closes on its last day; no closing day means calendar-month statements.
+ */
+export function getClosingDateInMonth(monthDate: Date, closingDay?: number | null): Date {
+  if (!closingDay) return endOfMonth(monthDate);
+  return setDate(startOfMonth(monthDate), Math.min(closingDay, getDaysInMonth(monthDate)));
+}
+
+/**
+ * The payment due date for a statement closing on `closingDate`. The due day of the month is taken
+ * from the card's `paymentDueDate`; the first such day after closing is the due date.
+ */
+export function getStatementDueDate(closingDate: Date, paymentDueDate?: string | null): Date {
+  if (!paymentDueDate) return addDays(closingDate, DEFAULT_DAYS_FROM_CLOSE_TO_DUE);
+  const dueDay = parseISO(paymentDueDate).getDate();
+  for (let monthOffset = 0; monthOffset < 3; monthOffset++) {
+    const month = addMonths(startOfMonth(closingDate), monthOffset);
+    const candidate = setDate(month, Math.min(dueDay, getDaysInMonth(month)));
+    if (candidate > closingDate) return candidate;
+  }
+  return addDays(closingDate, DEFAULT_DAYS_FROM_CLOSE_TO_DUE);
+}
+
+/**
+ * Groups a card account's transactions into statements by closing day, newest first. Balances are
+ * derived backwards from the account's current balance, so an opening balance entered when the card
+ * was added flows into the first statement. Amounts are in the account's currency.
+ */
+export function buildCreditCardStatements<T extends CardTransaction>(
+  card: StatementCardSettings,
+  account: { balance: number; currency: string },
+  transactions: T[],
+  today: Date = new Date()
+): CreditCardStatement<T>[] {
+  const toAccountCurrency = (tx: CardTransaction) =>
+    tx.transactionCurrency.toUpperCase() !== account.currency.toUpperCase()
+      ? convertCurrency(tx.amount, tx.transactionCurrency, account.currency)
+      : tx.amount;
+
+  const sorted = [...transactions].sort((a, b) => a.date.localeCompare(b.date));
+  const currentOwed = -account.balance;
+  // Owed at the end of `date`: undo every transaction dated after it.
+  const owedAtEndOf = (date: string) =>
+    round2(sorted.filter(tx => tx.date > date).reduce((owed, tx) => owed + toAccountCurrency(tx), currentOwed));
+
+  const todayStr = toDateStr(today);
+  const earliest = sorted.length > 0 ? parseISO(sorted[0].date) : today;
+  const minimumPercent = card.minimumPaymentPercent ?? DEFAULT_MINIMUM_PAYMENT_PERCENT;
+
+  // Find the first closing date on or after the earliest transaction.
+  let closing = getClosingDateInMonth(earliest, card.statementClosingDay);
+  if (closing < startOfDay(earliest)) closing = getClosingDateInMonth(addMonths(earliest, 1), card.statementClosingDay);
+  let previousClosing = getClosingDateInMonth(addMonths(closing, -1), card.statementClosingDay);
+
+  const statements: CreditCardStatement<T>[] = [];
+  for (let guard = 0; guard < 600; guard++) {
+    const periodStart = toDateStr(addDays(previousClosing, 1));
+    const closingDate = toDateStr(closing);
+    const dueDate = toDateStr(getStatementDueDate(closing, card.paymentDueDate));
+    const inPeriod = sorted.filter(tx => tx.date >= periodStart && tx.date <= closingDate);
+    const purchases = round2(inPeriod.filter(tx => tx.amount < 0).reduce((sum, tx) => sum - toAccountCurrency(tx), 0));
+    const payments = round2(inPeriod.filter(tx => tx.amount > 0).reduce((sum, tx) => sum + toAccountCurrency(tx), 0));
+    const closingBalance = owedAtEndOf(closingDate);
+    const paymentsSinceClosing = round2(sorted
+      .filter(tx => tx.amount > 0 && tx.date > closingDate && tx.date <= dueDate)
+      .reduce((sum, tx) => sum + toAccountCurrency(tx), 0));
+    const amountDue = round2(Math.max(closingBalance - paymentsSinceClosing, 0));
+    const isClosed = closingDate < todayStr;
+
+    statements.push({
+      periodStart,
+      closingDate,
+      dueDate,
+      isClosed,
+      openingBalance: owedAtEndOf(toDateStr(previousClosing)),
+      purchases,
+      payments,
+      closingBalance,
+      paymentsSinceClosing,
+      amountDue,
+      minimumPayment: round2(Math.min(amountDue, Math.max(closingBalance, 0) * (minimumPercent / 100))),
+      transactions: inPeriod.slice().reverse(),
+    });
+
+    if (!isClosed) break;
+    previousClosing = closing;
+    closing = getClosingDateInMonth(addMonths(closing, 1), card.statementClosingDay);
+  }
+
+  return statements.reverse();
+}
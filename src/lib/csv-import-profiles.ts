@@ -0,0 +1,197 @@
+import { isAmbiguousAmount, parseAmount, parseCsvDate, type CsvDecimalSeparator } from './csv-parsing';
+
+/**
+ * Saved settings for importing a bank's CSV export: the column mapping plus how the bank writes dates,
+ * amounts and signs. Profiles are picked automatically when a file's headers match the ones they were
+ * saved with.
+ */
+
+/**
+ * Application fields a CSV column can be mapped to. The foreign amount and initial balance columns are
+ * only detected from Firefly III headers, not offered in the mapping form.
+ */
+export const CSV_IMPORT_FIELDS = [
+  'date', 'amount', 'debit_amount', 'credit_amount', 'description',
+  'source_name', 'destination_name', 'source_type', 'destination_type',
+  'category', 'currency_code', 'tags', 'notes', 'transaction_type',
+  'foreign_amount', 'foreign_currency_code', 'initialBalance',
+] as const;
+
+export type CsvImportField = typeof CSV_IMPORT_FIELDS[number];
+
+export type ColumnMapping = Partial<Record<CsvImportField, string>>;
+
+export type CsvRecord = { [key: string]: string | undefined };
+
+export type { CsvDecimalSeparator } from './csv-parsing';
+
+// signed: negative amounts are expenses; inverted: positive amounts are expenses (e.g. credit card
+// statements); debit-credit: separate columns for money out and money in
+export type AmountSignConvention = 'signed' | 'inverted' | 'debit-credit';
+
+export const CSV_ENCODINGS = ['UTF-8', 'ISO-8859-1', 'windows-1252'] as const;
+
+export type CsvEncoding = typeof CSV_ENCODINGS[number];
+
+export const CSV_DATE_FORMATS = ['dd/MM/yyyy', 'MM/dd/yyyy', 'yyyy-MM-dd', 'dd.MM.yyyy', 'dd-MM-yyyy', 'yyyy/MM/dd', 'dd/MM/yy', 'MM/dd/yy'];
+
+export interface CsvImportSettings {
+  dateFormat: string | null; // date-fns pattern of the date column, e.g. 'dd/MM/yyyy'; null detects it per row
+  decimalSeparator: CsvDecimalSeparator;
+  signConvention: AmountSignConvention;
+  defaultAccountId: string | null; // Account of every row, for statements without account columns
+  encoding: CsvEncoding;
+}
+
+export const DEFAULT_CSV_IMPORT_SETTINGS: CsvImportSettings = {
+  dateFormat: null,
+  decimalSeparator: 'auto',
+  signConvention: 'signed',
+  defaultAccountId: null,
+  encoding: 'UTF-8',
+};
+
+export interface CsvImportProfile extends CsvImportSettings {
+  id: string;
+  name: string;
+  headers: string[]; // Headers of the file the profile was saved from
+  mappings: ColumnMapping;
+  createdAt?: object | string | number;
+  updatedAt?: object | string | number;
+}
+
+// Columns added to normalized records; chosen so they cannot clash with a bank's headers
+const NORMALIZED_COLUMN_PREFIX = '__normalized_';
+
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase();
+}
+
+/** Plain decimal string the import page parses back unchanged, e.g. "-1234.5". */
+function formatNormalizedAmount(value: number): string {
+  return value.toFixed(8).replace(/0+$/, '').replace(/\.$/, '');
+}
+
+/**
+ * The saved profile that fits a file best: every header the profile was saved with must be in the file
+ * (case and surrounding spaces are ignored). The most specific profile wins, then the most recently saved.
+ */
+export function findMatchingImportProfile(headers: string[], profiles: CsvImportProfile[]): CsvImportProfile | null {
+  const fileHeaders = new Set(headers.map(normalizeHeader));
+  const matches = profiles.filter(profile =>
+    profile.headers.length > 0 && profile.headers.every(header => fileHeaders.has(normalizeHeader(header)))
+  );
+  // updatedAt is a server timestamp (milliseconds) once read back, an ISO string right after saving
+  const savedAt = (profile: CsvImportProfile) =>
+    typeof profile.updatedAt === 'number' || typeof profile.updatedAt === 'string' ? new Date(profile.updatedAt).getTime() || 0 : 0;
+  matches.sort((a, b) => b.headers.length - a.headers.length || savedAt(b) - savedAt(a));
+  return matches[0] || null;
+}
+
+/** A profile's mapping pointed at the file's own spelling of each header; columns the file lacks are dropped. */
+export function resolveProfileMappings(profile: CsvImportProfile, headers: string[]): ColumnMapping {
+  const headersByName = new Map(headers.map(header => [normalizeHeader(header), header]));
+  const mappings: ColumnMapping = {};
+  (Object.entries(profile.mappings) as [CsvImportField, string | undefined][]).forEach(([field, column]) => {
+    const header = column ? headersByName.get(normalizeHeader(column)) : undefined;
+    if (header) mappings[field] = header;
+  });
+  return mappings;
+}
+
+export interface NormalizedCsvData {
+  records: CsvRecord[];
+  mappings: ColumnMapping;
+  rowErrors: (string | null)[]; // Why a row's date or amount could not be read, by row index
+}
+
+/**
+ * Applies the import settings to the parsed rows, so the import page can read them as Firefly-style rows:
+ * dates in an explicit format become YYYY-MM-DD, amounts become signed decimals, and with a default
+ * account and no type column every row becomes a withdrawal from or deposit to that account, in its
+ * currency unless a currency column is mapped. The original columns are kept; normalized values are
+ * added as extra columns and the returned mapping points at them. Rows whose date or amount cannot be
+ * read are kept and reported in `rowErrors`.
+ */
+export function normalizeCsvRecords(
+  records: CsvRecord[],
+  mappings: ColumnMapping,
+  settings: CsvImportSettings,
+  defaultAccount?: { name: string; currency: string } | null
+): NormalizedCsvData {
+  const column = (field: CsvImportField) => `${NORMALIZED_COLUMN_PREFIX}${field}`;
+  const normalizesDate = !!settings.dateFormat && !!mappings.date;
+  // Amounts are always read here, so every row is read with the chosen decimal separator
+  const normalizesAmount = settings.signConvention === 'debit-credit' || !!mappings.amount;
+  const derivesType = !!defaultAccount && !mappings.transaction_type;
+  const derivesCurrency = !!defaultAccount && !mappings.currency_code;
+
+  const separatorLabel = settings.decimalSeparator === ',' ? ' with a decimal comma' : settings.decimalSeparator === '.' ? ' with a decimal point' : '';
+  const unreadableAmount = (label: string, raw: string) => settings.decimalSeparator === 'auto' && isAmbiguousAmount(raw)
+    ? `${label} "${raw}" reads differently with a decimal point and a decimal comma. Choose the decimal separator in the import settings.`
+    : `Could not read ${label.toLowerCase()} "${raw}"${separatorLabel}.`;
+
+  const readAmount = (record: CsvRecord): { raw: string; value: number; error: string | null } => {
+    if (settings.signConvention === 'debit-credit') {
+      const debitRaw = mappings.debit_amount ? record[mappings.debit_amount]?.trim() || '' : '';
+      const creditRaw = mappings.credit_amount ? record[mappings.credit_amount]?.trim() || '' : '';
+      if (!debitRaw && !creditRaw) return { raw: '', value: NaN, error: "Both the debit and the credit amount are empty." };
+      const debit = debitRaw ? parseAmount(debitRaw, settings.decimalSeparator) : 0;
+      const credit = creditRaw ? parseAmount(creditRaw, settings.decimalSeparator) : 0;
+      if (isNaN(debit)) return { raw: debitRaw, value: NaN, error: unreadableAmount('Debit amount', debitRaw) };
+      if (isNaN(credit)) return { raw: creditRaw, value: NaN, error: unreadableAmount('Credit amount', creditRaw) };
+      // Debit columns hold money out whether the bank writes it signed or not
+      return { raw: debitRaw || creditRaw, value: Math.abs(credit) - Math.abs(debit), error: null };
+    }
+    const raw = mappings.amount ? record[mappings.amount]?.trim() || '' : '';
+    if (!raw) return { raw, value: NaN, error: null }; // Reported by the page as a missing amount
+    const value = parseAmount(raw, settings.decimalSeparator);
+    if (isNaN(value)) return { raw, value, error: unreadableAmount('Amount', raw) };
+    return { raw, value: settings.signConvention === 'inverted' ? -value : value, error: null };
+  };
+
+  const rowErrors: (string | null)[] = [];
+  const normalizedRecords = records.map(record => {
+    const normalized: CsvRecord = { ...record };
+    const errors: string[] = [];
+
+    if (normalizesDate) {
+      const raw = record[mappings.date!]?.trim() || '';
+      const parsed = parseCsvDate(raw, settings.dateFormat);
+      if (raw && !parsed) errors.push(`Date "${raw}" does not match the format ${settings.dateFormat}.`);
+      normalized[column('date')] = parsed ?? raw;
+    }
+
+    if (normalizesAmount || derivesType) {
+      const { raw, value, error } = readAmount(record);
+      if (error) errors.push(error);
+      if (normalizesAmount) normalized[column('amount')] = isNaN(value) ? raw : formatNormalizedAmount(value);
+      if (derivesType && defaultAccount) {
+        const isWithdrawal = value < 0;
+        normalized[column('transaction_type')] = isNaN(value) ? '' : isWithdrawal ? 'withdrawal' : 'deposit';
+        normalized[column('source_name')] = isWithdrawal ? defaultAccount.name : '';
+        normalized[column('source_type')] = isWithdrawal ? 'asset account' : '';
+        normalized[column('destination_name')] = isWithdrawal ? '' : defaultAccount.name;
+        normalized[column('destination_type')] = isWithdrawal ? '' : 'asset account';
+      }
+    }
+
+    if (derivesCurrency && defaultAccount) {
+      normalized[column('currency_code')] = defaultAccount.currency;
+    }
+    rowErrors.push(errors.length > 0 ? errors.join(' ') : null);
+    return normalized;
+  });
+
+  const normalizedMappings: ColumnMapping = { ...mappings };
+  if (normalizesDate) normalizedMappings.date = column('date');
+  if (normalizesAmount) normalizedMappings.amount = column('amount');
+  if (derivesType) {
+    (['transaction_type', 'source_name', 'source_type', 'destination_name', 'destination_type'] as const)
+      .forEach(field => { normalizedMappings[field] = column(field); });
+  }
+  if (derivesCurrency) normalizedMappings.currency_code = column('currency_code');
+
+  return { records: normalizedRecords, mappings: normalizedMappings, rowErrors };
+}
+
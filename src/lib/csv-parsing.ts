@@ -0,0 +1,148 @@
+import { format as formatDateFns, isValid, parse as parseDateFns, parseISO } from 'date-fns';
+
+/**
+ * Cell-level parsing for imported CSV files. Both parsers return a "could not read" value (NaN or null)
+ * instead of guessing, so the import preview can flag the row.
+ */
+
+export type CsvDecimalSeparator = 'auto' | '.' | ',';
+
+// Tried when no date format is set; a date that more than one of them reads differently is ambiguous
+const DETECTED_DATE_FORMATS = [
+  "yyyy-MM-dd'T'HH:mm:ssXXX", "yyyy-MM-dd'T'HH:mm:ss.SSS'Z'", "yyyy-MM-dd'T'HH:mm:ss",
+  'dd/MM/yyyy HH:mm:ss', 'MM/dd/yyyy HH:mm:ss', 'yyyy-MM-dd HH:mm:ss',
+  'dd/MM/yyyy', 'MM/dd/yyyy', 'yyyy-MM-dd',
+  'dd.MM.yyyy', 'MM.dd.yyyy',
+  'dd-MM-yyyy', 'MM-dd-yyyy',
+  'yyyy/MM/dd', 'yyyy/dd/MM',
+];
+
+// A full ISO calendar date, optionally followed by a time; parseISO alone also accepts "2024" or "2024-05"
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(T.*)?$/;
+
+// One '.' or ',' with one to three digits before it and exactly three after, e.g. "1,234" or "-12.500"
+const AMBIGUOUS_AMOUNT_PATTERN = /^-?[1-9]\d{0,2}[.,]\d{3}$/;
+
+function cleanAmount(amountStr: string): { cleaned: string; isNegativeNotation: boolean } {
+  const trimmed = amountStr.trim().replace(/−/g, '-');
+  const isNegativeNotation = /^\(.*\)$/.test(trimmed) || /\d\s*-$/.test(trimmed);
+  return { cleaned: trimmed.replace(/[^\d.,-]/g, '').replace(/(?!^)-/g, ''), isNegativeNotation };
+}
+
+/**
+ * Whether an amount reads differently with a decimal point and a decimal comma ("1,234" is 1234 or
+ * 1.234), so the separator must be chosen before it can be imported.
+ */
+export function isAmbiguousAmount(amountStr: string | undefined): boolean {
+  if (typeof amountStr !== 'string' || amountStr.trim() === '') return false;
+  return AMBIGUOUS_AMOUNT_PATTERN.test(cleanAmount(amountStr).cleaned);
+}
+
+/**
+ * Parses an amount as written in a CSV cell. With 'auto', the decimal separator is guessed from the
+ * value: the last of '.' and ',' is the decimal separator when both appear, and a separator that
+ * appears more than once groups thousands. A single separator followed by exactly three digits could be
+ * either (see isAmbiguousAmount) and reads as NaN. Currency symbols and spaces are ignored; accounting
+ * notation like "(1.234,56)" or "1234.56-" reads as negative.
+ */
+export function parseAmount(amountStr: string | undefined, decimalSeparator: CsvDecimalSeparator = 'auto'): number {
+  if (typeof amountStr !== 'string' || amountStr.trim() === '') return NaN;
+  const { cleaned, isNegativeNotation } = cleanAmount(amountStr);
+
+  const applySign = (value: number) => isNegativeNotation ? -Math.abs(value) : value;
+  const withDecimalSeparator = (separator: '.' | ',') => {
+    if (cleaned.split(separator).length > 2) return NaN; // A second decimal separator, e.g. "1,234,567" with ','
+    const thousandsSeparator = separator === '.' ? /,/g : /\./g;
+    return applySign(parseFloat(cleaned.replace(thousandsSeparator, '').replace(',', '.')));
+  };
+
+  if (decimalSeparator !== 'auto') return withDecimalSeparator(decimalSeparator);
+
+  const hasPeriod = cleaned.includes('.');
+  const hasComma = cleaned.includes(',');
+  if (hasComma && hasPeriod) {
+    return withDecimalSeparator(cleaned.lastIndexOf(',') > cleaned.lastIndexOf('.') ? ',' : '.');
+  }
+  if (!hasComma && !hasPeriod) return applySign(parseFloat(cleaned));
+
+  const [integerPart, ...groups] = cleaned.split(hasComma ? ',' : '.');
+  if (groups.length > 1) {
+    // Only thousands are grouped more than once, e.g. "1.234.567"
+    if (!/^-?\d{1,3}$/.test(integerPart) || groups.some(group => !/^\d{3}$/.test(group))) return NaN;
+    return applySign(parseFloat(integerPart + groups.join('')));
+  }
+  if (AMBIGUOUS_AMOUNT_PATTERN.test(cleaned)) return NaN;
+  return applySign(parseFloat(`${integerPart}.${groups[0]}`));
+}
+
+function parseDateWithFormat(dateStr: string, dateFormat: string): Date | null {
+  const parsedDate = parseDateFns(dateStr, dateFormat, new Date());
+  if (isValid(parsedDate)) return parsedDate;
+
+  // If it has a time component, try parsing just the date part
+  const datePartOnly = dateStr.split('T')[0].split(' ')[0];
+  const dateFormatOnly = dateFormat.split('T')[0].split(' ')[0];
+  if (datePartOnly !== dateStr) {
+    const parsedDatePart = parseDateFns(datePartOnly, dateFormatOnly, new Date());
+    if (isValid(parsedDatePart)) return parsedDatePart;
+  }
+  return null;
+}
+
+/** Every distinct YYYY-MM-DD reading of a date cell among the ISO format and the detected formats. */
+function getDetectedDateReadings(value: string): string[] {
+  if (ISO_DATE_PATTERN.test(value)) {
+    const isoDate = parseISO(value);
+    if (isValid(isoDate)) return [formatDateFns(isoDate, 'yyyy-MM-dd')];
+  }
+  const readings = new Set<string>();
+  for (const fmt of DETECTED_DATE_FORMATS) {
+    const parsedDate = parseDateWithFormat(value, fmt);
+    if (parsedDate) readings.add(formatDateFns(parsedDate, 'yyyy-MM-dd'));
+  }
+  return [...readings];
+}
+
+/**
+ * Whether a date reads differently day-first and month-first ("01/02/2024" is 1 February or 2 January),
+ * so its format must be chosen before it can be imported.
+ */
+export function isAmbiguousDate(dateStr: string | undefined): boolean {
+  const value = dateStr?.trim();
+  return !!value && getDetectedDateReadings(value).length > 1;
+}
+
+/**
+ * Parses a CSV date cell into YYYY-MM-DD. With a date-fns format pattern only that pattern is accepted;
+ * without one, full ISO dates and common day-first and month-first formats are tried. Returns null when
+ * the value cannot be read, or when it could be either day-first or month-first (see isAmbiguousDate).
+ */
+export function parseCsvDate(dateStr: string | undefined, dateFormat?: string | null): string | null {
+  const value = dateStr?.trim();
+  if (!value) return null;
+
+  try {
+    if (dateFormat) {
+      const parsedDate = parseDateWithFormat(value, dateFormat);
+      return parsedDate ? formatDateFns(parsedDate, 'yyyy-MM-dd') : null;
+    }
+    const readings = getDetectedDateReadings(value);
+    return readings.length === 1 ? readings[0] : null;
+  } catch (e) {
+    // date-fns throws on malformed format patterns
+    console.error("Error parsing date:", value, e);
+  }
+  return null;
+}
+
+/** Whether a user-entered date-fns pattern has a year, month and day token and can be used to parse dates. */
+export function isValidDateFormatPattern(pattern: string): boolean {
+  const trimmed = pattern.trim();
+  if (!/y/.test(trimmed) || !/M/.test(trimmed) || !/d/.test(trimmed)) return false;
+  try {
+    parseDateFns('', trimmed, new Date());
+    return true;
+  } catch {
+    return false;
+  }
+}
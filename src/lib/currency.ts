@@ -16,15 +16,127 @@ const exchangeRates: { [key: string]: number } = {
 
 export const supportedCurrencies = Object.keys(exchangeRates);
 
+// --- Historical Exchange Rates (per user, loaded from the exchange rate store) ---
+// Each entry means: on `date`, 1 unit of baseCurrency = `rate` units of quoteCurrency.
+export interface HistoricalExchangeRate {
+  date: string; // ISO string: YYYY-MM-DD
+  baseCurrency: string;
+  quoteCurrency: string;
+  rate: number;
+}
+
+export interface MissingExchangeRate {
+  sourceCurrency: string;
+  targetCurrency: string;
+  date: string;
+}
+
+/**
+ * Thrown when a dated conversion is requested and no stored rate is effective on that date.
+ */
+export class MissingExchangeRateError extends Error {
+  readonly sourceCurrency: string;
+  readonly targetCurrency: string;
+  readonly date: string;
+
+  constructor(sourceCurrency: string, targetCurrency: string, date: string) {
+    super(`No exchange rate from ${sourceCurrency} to ${targetCurrency} is available on or before ${date}.`);
+    this.name = 'MissingExchangeRateError';
+    this.sourceCurrency = sourceCurrency;
+    this.targetCurrency = targetCurrency;
+    this.date = date;
+  }
+}
+
+// Keyed by "BASE/QUOTE", each list sorted by date ascending.
+let historicalRateIndex = new Map<string, { date: string; rate: number }[]>();
+
+/**
+ * Replaces the in-memory historical rate table used by dated conversions.
+ * Called after the user's rates are fetched from the exchange rate store.
+ */
+export function setHistoricalExchangeRates(rates: HistoricalExchangeRate[]): void {
+  const index = new Map<string, { date: string; rate: number }[]>();
+  rates.forEach(({ date, baseCurrency, quoteCurrency, rate }) => {
+    if (!date || !baseCurrency || !quoteCurrency || !(rate > 0)) return;
+    const key = `${baseCurrency.toUpperCase()}/${quoteCurrency.toUpperCase()}`;
+    const entries = index.get(key) || [];
+    entries.push({ date: date.slice(0, 10), rate });
+    index.set(key, entries);
+  });
+  index.forEach(entries => entries.sort((a, b) => a.date.localeCompare(b.date)));
+  historicalRateIndex = index;
+}
+
+function toIsoDay(onDate: string | Date): string {
+  if (typeof onDate === 'string') return onDate.slice(0, 10);
+  const year = onDate.getFullYear();
+  const month = String(onDate.getMonth() + 1).padStart(2, '0');
+  const day = String(onDate.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+function findEffectiveDirectRate(base: string, quote: string, isoDay: string): number | null {
+  const direct = historicalRateIndex.get(`${base}/${quote}`);
+  const inverse = historicalRateIndex.get(`${quote}/${base}`);
+  const latestOnOrBefore = (entries?: { date: string; rate: number }[]) => {
+    if (!entries) return null;
+    let found: { date: string; rate: number } | null = null;
+    for (const entry of entries) {
+      if (entry.date > isoDay) break;
+      found = entry;
+    }
+    return found;
+  };
+  const directEntry = latestOnOrBefore(direct);
+  const inverseEntry = latestOnOrBefore(inverse);
+  // Prefer whichever quote is more recent; ties go to the direct quote.
+  if (directEntry && (!inverseEntry || directEntry.date >= inverseEntry.date)) return directEntry.rate;
+  if (inverseEntry) return 1 / inverseEntry.rate;
+  return null;
+}
+
+/**
+ * Finds the rate effective on a date (the most recent stored rate on or before it),
+ * directly, inverted, or crossed through one intermediate currency (e.g. EUR for ECB data).
+ * @returns Units of targetCurrency per unit of sourceCurrency, or null if none is available.
+ */
+export function findHistoricalExchangeRate(sourceCurrency: string, targetCurrency: string, onDate: string | Date): number | null {
+  const source = sourceCurrency.toUpperCase();
+  const target = targetCurrency.toUpperCase();
+  if (source === target) return 1;
+  const isoDay = toIsoDay(onDate);
+
+  const direct = findEffectiveDirectRate(source, target, isoDay);
+  if (direct !== null) return direct;
+
+  const intermediates = new Set<string>();
+  historicalRateIndex.forEach((_, key) => {
+    key.split('/').forEach(code => {
+      if (code !== source && code !== target) intermediates.add(code);
+    });
+  });
+  for (const intermediate of intermediates) {
+    const toIntermediate = findEffectiveDirectRate(source, intermediate, isoDay);
+    if (toIntermediate === null) continue;
+    const fromIntermediate = findEffectiveDirectRate(intermediate, target, isoDay);
+    if (fromIntermediate !== null) return toIntermediate * fromIntermediate;
+  }
+  return null;
+}
+
 /**
  * Converts an amount from a source currency to a target currency.
  * Uses BRL as an intermediary if direct rates are not available.
+ * When `onDate` is given, the user's historical rate effective on that date is used instead of
+ * the static table, and a MissingExchangeRateError is thrown if no such rate exists.
  * @param amount The amount to convert.
  * @param sourceCurrency The currency code of the amount.
  * @param targetCurrency The currency code to convert to.
+ * @param onDate Optional. The date (YYYY-MM-DD or Date) whose effective rate should be applied.
  * @returns The converted amount in the target currency.
  */
-export function convertCurrency(amount: number, sourceCurrency: string, targetCurrency: string): number {
+export function convertCurrency(amount: number, sourceCurrency: string, targetCurrency: string, onDate?: string | Date): number {
   const sourceUpper = sourceCurrency?.toUpperCase();
   const targetUpper = targetCurrency?.toUpperCase();
 
@@ -36,6 +148,14 @@ export function convertCurrency(amount: number, sourceCurrency: string, targetCu
       return amount;
   }
 
+  if (onDate !== undefined) {
+    const historicalRate = findHistoricalExchangeRate(sourceUpper, targetUpper, onDate);
+    if (historicalRate === null) {
+      throw new MissingExchangeRateError(sourceUpper, targetUpper, toIsoDay(onDate));
+    }
+    return amount * historicalRate;
+  }
+
   const sourceRateToBRL = exchangeRates[sourceUpper];
   const targetRateToBRL = exchangeRates[targetUpper];
 
@@ -58,6 +178,32 @@ export function convertCurrency(amount: number, sourceCurrency: string, targetCu
 }
 
 
+/**
+ * Creates a dated converter for report pages. Conversions without an effective historical rate
+ * fall back to the static table, and every such case is recorded so the page can show which
+ * rates are missing instead of silently valuing them at a frozen rate.
+ */
+export function createHistoricalConverter() {
+  const missingRates = new Map<string, MissingExchangeRate>();
+
+  const convert = (amount: number, sourceCurrency: string, targetCurrency: string, onDate: string | Date): number => {
+    try {
+      return convertCurrency(amount, sourceCurrency, targetCurrency, onDate);
+    } catch (error) {
+      if (!(error instanceof MissingExchangeRateError)) throw error;
+      const key = `${error.sourceCurrency}/${error.targetCurrency}@${error.date}`;
+      missingRates.set(key, { sourceCurrency: error.sourceCurrency, targetCurrency: error.targetCurrency, date: error.date });
+      return convertCurrency(amount, sourceCurrency, targetCurrency);
+    }
+  };
+
+  return {
+    convert,
+    getMissingRates: (): MissingExchangeRate[] => Array.from(missingRates.values()).sort((a, b) => a.date.localeCompare(b.date)),
+  };
+}
+
+
 function getLocaleForCurrency(currencyCode: string | undefined | null): string {
     if (!currencyCode) {
       return 'en-US'; 
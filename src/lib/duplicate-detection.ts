@@ -0,0 +1,123 @@
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+
+export type DuplicateStatus = 'new' | 'exact' | 'probable';
+
+/** The fields duplicate detection looks at; both stored transactions and import rows provide them. */
+export interface DuplicateCheckable {
+  accountId: string;
+  date: string; // YYYY-MM-DD
+  amount: number;
+  description: string;
+  originalImportData?: {
+    fitId?: string | null;
+    importFingerprint?: string | null;
+  };
+}
+
+export interface DuplicateMatch<T> {
+  status: DuplicateStatus;
+  match?: T;
+}
+
+export interface DuplicateGroup<T> {
+  status: Exclude<DuplicateStatus, 'new'>;
+  transactions: T[];
+}
+
+// Banks often post the same purchase a day or two apart from the date a user entered by hand.
+export const PROBABLE_DUPLICATE_DAY_WINDOW = 3;
+const MIN_DESCRIPTION_SIMILARITY = 0.5;
+
+export function normalizeDescription(description: string): string {
+  return description
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Stable identity of an imported transaction within its account: the bank's external ID when the
+ * source provides one (OFX FITID), otherwise the date, amount and normalized description.
+ */
+export function getImportFingerprint(fields: { date: string; amount: number; description: string; externalId?: string | null }): string {
+  if (fields.externalId) return `ext:${fields.externalId}`;
+  return `${fields.date}|${fields.amount.toFixed(2)}|${normalizeDescription(fields.description)}`;
+}
+
+/** Fingerprint recorded at import time, or derived from the transaction's fields for older and manual entries. */
+export function getTransactionFingerprint(transaction: DuplicateCheckable): string {
+  return transaction.originalImportData?.importFingerprint
+    || getImportFingerprint({ ...transaction, externalId: transaction.originalImportData?.fitId });
+}
+
+/** Share of words the two descriptions have in common (Jaccard index). */
+function descriptionSimilarity(a: string, b: string): number {
+  const wordsA = new Set(normalizeDescription(a).split(' ').filter(Boolean));
+  const wordsB = new Set(normalizeDescription(b).split(' ').filter(Boolean));
+  if (wordsA.size === 0 && wordsB.size === 0) return 1;
+  const shared = Array.from(wordsA).filter(word => wordsB.has(word)).length;
+  return shared / (wordsA.size + wordsB.size - shared);
+}
+
+function isProbableDuplicate(a: DuplicateCheckable, b: DuplicateCheckable): boolean {
+  if (Math.round(a.amount * 100) !== Math.round(b.amount * 100)) return false;
+  if (Math.abs(differenceInCalendarDays(parseISO(a.date), parseISO(b.date))) > PROBABLE_DUPLICATE_DAY_WINDOW) return false;
+  return descriptionSimilarity(a.description, b.description) >= MIN_DESCRIPTION_SIMILARITY;
+}
+
+/**
+ * Looks for `candidate` among `existing` transactions of the same account. An equal fingerprint is an
+ * exact duplicate; the same amount within a few days and with a similar description is a probable one.
+ */
+export function findDuplicate<T extends DuplicateCheckable>(candidate: DuplicateCheckable, existing: T[]): DuplicateMatch<T> {
+  const sameAccount = existing.filter(tx => tx.accountId === candidate.accountId);
+  const fingerprint = getTransactionFingerprint(candidate);
+
+  const exact = sameAccount.find(tx => getTransactionFingerprint(tx) === fingerprint);
+  if (exact) return { status: 'exact', match: exact };
+
+  const probable = sameAccount
+    .filter(tx => isProbableDuplicate(candidate, tx))
+    .sort((a, b) => Math.abs(differenceInCalendarDays(parseISO(a.date), parseISO(candidate.date))) - Math.abs(differenceInCalendarDays(parseISO(b.date), parseISO(candidate.date))))[0];
+  return probable ? { status: 'probable', match: probable } : { status: 'new' };
+}
+
+/**
+ * Groups stored transactions that look like copies of each other, account by account. Exact groups share
+ * a fingerprint; probable groups are built around the earliest ungrouped transaction of each cluster.
+ */
+export function findDuplicateGroups<T extends DuplicateCheckable & { id: string }>(transactions: T[]): DuplicateGroup<T>[] {
+  const groups: DuplicateGroup<T>[] = [];
+  const byAccount = new Map<string, T[]>();
+  transactions.forEach(tx => byAccount.set(tx.accountId, [...(byAccount.get(tx.accountId) || []), tx]));
+
+  byAccount.forEach(accountTransactions => {
+    const grouped = new Set<string>();
+
+    const byFingerprint = new Map<string, T[]>();
+    accountTransactions.forEach(tx => {
+      const fingerprint = getTransactionFingerprint(tx);
+      byFingerprint.set(fingerprint, [...(byFingerprint.get(fingerprint) || []), tx]);
+    });
+    byFingerprint.forEach(matches => {
+      if (matches.length < 2) return;
+      groups.push({ status: 'exact', transactions: matches });
+      matches.forEach(tx => grouped.add(tx.id));
+    });
+
+    // A transaction outside the exact groups may still resemble a member of one, which then shows up in both.
+    const inProbableGroup = new Set<string>();
+    const byDate = [...accountTransactions].sort((a, b) => a.date.localeCompare(b.date));
+    byDate.forEach(tx => {
+      if (grouped.has(tx.id) || inProbableGroup.has(tx.id)) return;
+      const matches = byDate.filter(other => other.id !== tx.id && !inProbableGroup.has(other.id) && isProbableDuplicate(tx, other));
+      if (matches.length === 0) return;
+      groups.push({ status: 'probable', transactions: [tx, ...matches] });
+      [tx, ...matches].forEach(match => inProbableGroup.add(match.id));
+    });
+  });
+
+  return groups;
+}
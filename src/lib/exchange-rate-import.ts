@@ -0,0 +1,116 @@
+import Papa from 'papaparse';
+import type { HistoricalExchangeRate } from './currency';
+
+export interface ExchangeRateParseResult {
+  rates: HistoricalExchangeRate[];
+  errors: string[];
+}
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function normalizeDate(value: string | undefined): string | null {
+  const trimmed = value?.trim() || '';
+  if (ISO_DATE_PATTERN.test(trimmed)) return trimmed;
+  const parsed = new Date(trimmed);
+  if (!trimmed || isNaN(parsed.getTime())) return null;
+  return parsed.toISOString().split('T')[0];
+}
+
+function parseRate(value: string | undefined): number | null {
+  const rate = parseFloat((value || '').trim());
+  return isFinite(rate) && rate > 0 ? rate : null;
+}
+
+/**
+ * Parses a rate file in CSV form. Two layouts are accepted:
+ *  - long:  `date,base,quote,rate` (one pair per row; header names are case-insensitive)
+ *  - wide:  `Date,USD,JPY,...` as published by the ECB (eurofxref-hist.csv), where every
+ *           column is the amount of that currency per 1 unit of `defaultBaseCurrency`.
+ */
+export function parseExchangeRatesCsv(csvText: string, defaultBaseCurrency: string = 'EUR'): ExchangeRateParseResult {
+  const parsed = Papa.parse<Record<string, string>>(csvText.trim(), { header: true, skipEmptyLines: true });
+  const errors: string[] = parsed.errors.map(err => `Row ${(err.row ?? 0) + 2}: ${err.message}`);
+  const rates: HistoricalExchangeRate[] = [];
+
+  const headers = (parsed.meta.fields || []).map(h => h.trim());
+  const findHeader = (...names: string[]) => headers.find(h => names.includes(h.toLowerCase()));
+  const dateHeader = findHeader('date', 'time', 'day');
+  if (!dateHeader) {
+    return { rates, errors: [...errors, "Missing a 'date' column."] };
+  }
+
+  const baseHeader = findHeader('base', 'base_currency', 'from');
+  const quoteHeader = findHeader('quote', 'quote_currency', 'currency', 'to');
+  const rateHeader = findHeader('rate', 'value');
+
+  parsed.data.forEach((row, index) => {
+    const rowNumber = index + 2; // account for header line
+    const date = normalizeDate(row[dateHeader]);
+    if (!date) {
+      errors.push(`Row ${rowNumber}: invalid date "${row[dateHeader]}".`);
+      return;
+    }
+
+    if (quoteHeader && rateHeader) {
+      const baseCurrency = (baseHeader ? row[baseHeader] : defaultBaseCurrency)?.trim().toUpperCase();
+      const quoteCurrency = row[quoteHeader]?.trim().toUpperCase();
+      const rate = parseRate(row[rateHeader]);
+      if (!baseCurrency || !quoteCurrency || rate === null) {
+        errors.push(`Row ${rowNumber}: expected base, quote and a positive rate.`);
+        return;
+      }
+      rates.push({ date, baseCurrency, quoteCurrency, rate });
+      return;
+    }
+
+    headers
+      .filter(h => h !== dateHeader && /^[A-Za-z]{3}$/.test(h))
+      .forEach(currencyHeader => {
+        const rate = parseRate(row[currencyHeader]);
+        // ECB files use "N/A" for currencies not quoted on a given day; those are skipped.
+        if (rate === null) return;
+        rates.push({ date, baseCurrency: defaultBaseCurrency.toUpperCase(), quoteCurrency: currencyHeader.toUpperCase(), rate });
+      });
+  });
+
+  return { rates, errors };
+}
+
+/**
+ * Parses the ECB reference rate XML (eurofxref-daily.xml / eurofxref-hist.xml):
+ * `<Cube time="YYYY-MM-DD"><Cube currency="USD" rate="1.0843"/>...</Cube>`, all EUR-based.
+ */
+export function parseEcbExchangeRatesXml(xmlText: string): ExchangeRateParseResult {
+  const rates: HistoricalExchangeRate[] = [];
+  const errors: string[] = [];
+  const dayBlockPattern = /<Cube\s+time=['"](\d{4}-\d{2}-\d{2})['"]\s*>([\s\S]*?)<\/Cube>/g;
+  const ratePattern = /<Cube\s+currency=['"]([A-Za-z]{3})['"]\s+rate=['"]([^'"]+)['"]\s*\/>/g;
+
+  let dayMatch: RegExpExecArray | null;
+  while ((dayMatch = dayBlockPattern.exec(xmlText)) !== null) {
+    const [, date, body] = dayMatch;
+    let rateMatch: RegExpExecArray | null;
+    ratePattern.lastIndex = 0;
+    while ((rateMatch = ratePattern.exec(body)) !== null) {
+      const rate = parseRate(rateMatch[2]);
+      if (rate === null) {
+        errors.push(`${date}: invalid rate "${rateMatch[2]}" for ${rateMatch[1]}.`);
+        continue;
+      }
+      rates.push({ date, baseCurrency: 'EUR', quoteCurrency: rateMatch[1].toUpperCase(), rate });
+    }
+  }
+
+  if (rates.length === 0 && errors.length === 0) {
+    errors.push("No <Cube time=...> entries found. Is this an ECB reference rate file?");
+  }
+  return { rates, errors };
+}
+
+/**
+ * Picks the parser from the file name or content.
+ */
+export function parseExchangeRateFile(fileName: string, content: string, defaultBaseCurrency?: string): ExchangeRateParseResult {
+  const looksLikeXml = fileName.toLowerCase().endsWith('.xml') || content.trimStart().startsWith('<');
+  return looksLikeXml ? parseEcbExchangeRatesXml(content) : parseExchangeRatesCsv(content, defaultBaseCurrency);
+}
@@ -1,7 +1,7 @@
 // Import the functions you need from the SDKs you need
 import { initializeApp, getApp, getApps, type FirebaseApp } from "firebase/app";
 import { getAuth, GoogleAuthProvider, type Auth } from "firebase/auth";
-import { getDatabase, type Database } from "firebase/database";
+import { getDatabase, connectDatabaseEmulator, type Database } from "firebase/database";
 
 // Your web app's Firebase configuration
 // Use environment variables if available, otherwise fallback to provided defaults
@@ -55,6 +55,12 @@ if (firebaseInitializationError) {
     }
     authInstance = getAuth(app);
     databaseInstance = getDatabase(app);
+    // Point the database at a local emulator, e.g. NEXT_PUBLIC_FIREBASE_DATABASE_EMULATOR_HOST=127.0.0.1:9000
+    const databaseEmulatorHost = process.env.NEXT_PUBLIC_FIREBASE_DATABASE_EMULATOR_HOST;
+    if (databaseEmulatorHost) {
+      const [emulatorHost, emulatorPort] = databaseEmulatorHost.split(':');
+      connectDatabaseEmulator(databaseInstance, emulatorHost, Number(emulatorPort) || 9000);
+    }
     googleAuthProviderInstance = new GoogleAuthProvider();
     firebaseInitialized = true;
     console.log("Firebase initialized successfully with provided config.");
@@ -0,0 +1,94 @@
+import { isOpeningBalanceTransaction } from '@/lib/balance-reconciliation';
+import type { Account } from '@/services/account-sync';
+import type { Transaction } from '@/services/transactions';
+
+/** What a transaction cost in the currency it was made in, e.g. a card purchase abroad. */
+export interface OriginalAmount {
+  amount: number; // Signed like the transaction's amount
+  currency: string;
+  rate: number | null; // Units of the transaction currency per unit of `currency`
+}
+
+/**
+ * The original amount of a transaction made in another currency: the fields entered with the
+ * transaction, or the foreign amount of an import that predates them. Null for transactions made in
+ * their account's currency.
+ */
+export function getOriginalAmount(
+  transaction: Pick<Transaction, 'amount' | 'transactionCurrency' | 'originalAmount' | 'originalCurrency' | 'fxRate' | 'originalImportData'>
+): OriginalAmount | null {
+  const currency = (transaction.originalCurrency || transaction.originalImportData?.foreignCurrency || '').toUpperCase();
+  const amount = transaction.originalCurrency ? transaction.originalAmount : transaction.originalImportData?.foreignAmount;
+  if (!currency || amount == null || !amount || currency === transaction.transactionCurrency?.toUpperCase()) return null;
+
+  const signedAmount = Math.sign(transaction.amount || 1) * Math.abs(amount);
+  const rate = transaction.originalCurrency && transaction.fxRate ? transaction.fxRate : Math.abs(transaction.amount / amount) || null;
+  return { amount: signedAmount, currency, rate };
+}
+
+/** The rate applied when `convertedAmount` was charged for `originalAmount`, rounded to 8 decimals. */
+export function getAppliedFxRate(convertedAmount: number, originalAmount: number): number | null {
+  if (!originalAmount || !convertedAmount) return null;
+  return parseFloat(Math.abs(convertedAmount / originalAmount).toFixed(8));
+}
+
+export interface FxGainLoss {
+  accountId: string;
+  currency: string; // The account's currency
+  targetCurrency: string;
+  balance: number; // In the account's currency
+  currentValue: number; // The balance at today's rate, in the target currency
+  costBasis: number; // What the money moving in and out was worth when it moved, in the target currency
+  gainLoss: number; // currentValue - costBasis
+}
+
+export interface FxGainLossInput {
+  account: Account;
+  transactions: Transaction[]; // The account's transactions
+  targetCurrency: string;
+  today: string; // YYYY-MM-DD
+  /** Values an amount in the target currency at the rate effective on `onDate`. */
+  convert: (amount: number, sourceCurrency: string, targetCurrency: string, onDate: string) => number;
+}
+
+/**
+ * Exchange gain or loss on an account held in a foreign currency: today's value of its balance minus
+ * what each deposit and payment was worth on its own date. Amounts whose original currency is the
+ * target currency count at what was actually paid. The part of the balance no transaction explains,
+ * such as the opening balance, is valued at the date of the oldest transaction. Null for accounts
+ * held in the target currency.
+ */
+export function calculateFxGainLoss({ account, transactions, targetCurrency, today, convert }: FxGainLossInput): FxGainLoss | null {
+  const currency = account.currency.toUpperCase();
+  const target = targetCurrency.toUpperCase();
+  if (currency === target) return null;
+
+  let explainedBalance = 0;
+  let costBasis = 0;
+  let oldestDate = today;
+  transactions.forEach(transaction => {
+    const date = transaction.date.slice(0, 10);
+    if (date < oldestDate) oldestDate = date;
+    if (isOpeningBalanceTransaction(transaction)) return; // Never moves the stored balance
+    const transactionCurrency = (transaction.transactionCurrency || currency).toUpperCase();
+    const amount = transactionCurrency === currency ? transaction.amount : convert(transaction.amount, transactionCurrency, currency, date);
+    explainedBalance += amount;
+
+    const original = getOriginalAmount(transaction);
+    costBasis += original && original.currency === target && transactionCurrency === currency
+      ? original.amount
+      : convert(amount, currency, target, date);
+  });
+  costBasis += convert(account.balance - explainedBalance, currency, target, oldestDate);
+
+  const currentValue = convert(account.balance, currency, target, today);
+  return {
+    accountId: account.id,
+    currency,
+    targetCurrency: target,
+    balance: account.balance,
+    currentValue,
+    costBasis,
+    gainLoss: currentValue - costBasis,
+  };
+}
@@ -0,0 +1,225 @@
+import { convertCurrency } from '@/lib/currency';
+
+export type SecurityType = 'stock' | 'etf' | 'fund' | 'bond' | 'crypto' | 'other';
+
+export const securityTypeLabels: Record<SecurityType, string> = {
+  stock: 'Stock',
+  etf: 'ETF',
+  fund: 'Fund',
+  bond: 'Bond',
+  crypto: 'Crypto',
+  other: 'Other',
+};
+
+/** A stock, fund, crypto asset or other instrument that investment accounts can hold. */
+export interface Security {
+  id: string;
+  symbol: string; // Ticker or code, e.g. "VWCE" or "BTC"; matches rows of price files
+  name: string;
+  type: SecurityType;
+  currency: string; // Currency prices and events are quoted in
+  createdAt?: object | string;
+  updatedAt?: object | string;
+}
+
+export type InvestmentEventType = 'buy' | 'sell' | 'dividend' | 'fee';
+
+export const investmentEventTypeLabels: Record<InvestmentEventType, string> = {
+  buy: 'Buy',
+  sell: 'Sell',
+  dividend: 'Dividend',
+  fee: 'Fee',
+};
+
+/** A buy, sell, dividend or fee on one security in one investment account, in the security's currency. */
+export interface InvestmentEvent {
+  id: string;
+  accountId: string;
+  securityId: string;
+  type: InvestmentEventType;
+  date: string; // YYYY-MM-DD
+  quantity: number; // Units bought or sold; 0 for dividends and fees
+  price: number; // Per unit; 0 for dividends and fees
+  fees: number; // Commission paid on a buy or sell
+  amount: number; // Total of a dividend or fee; 0 for buys and sells
+  notes?: string | null;
+  createdAt?: object | string;
+  updatedAt?: object | string;
+}
+
+export type CostBasisMethod = 'fifo' | 'average';
+
+export const costBasisMethodLabels: Record<CostBasisMethod, string> = {
+  fifo: 'FIFO (first in, first out)',
+  average: 'Average cost',
+};
+
+/** A quote for a security on a day. */
+export interface SecurityPriceQuote {
+  securityId: string;
+  date: string; // YYYY-MM-DD
+  price: number;
+  currency: string;
+}
+
+/** Units still held from one buy. */
+export interface HoldingLot {
+  eventId: string;
+  date: string;
+  quantity: number;
+  unitCost: number; // Price plus the buy's commission per unit
+}
+
+/** One security in one account, in the security's currency. */
+export interface Holding {
+  accountId: string;
+  securityId: string;
+  currency: string;
+  quantity: number;
+  costBasis: number; // What the units held cost, commissions included
+  averageCost: number; // costBasis / quantity
+  lots: HoldingLot[]; // Oldest first
+  realizedGain: number; // Sale proceeds, net of commissions, minus the cost of the units sold
+  dividends: number;
+  fees: number; // Fee events, e.g. custody fees; commissions are part of cost and proceeds
+  price: number | null; // Latest quote, null without one
+  priceDate: string | null;
+  marketValue: number | null;
+  unrealizedGain: number | null; // marketValue - costBasis
+}
+
+export interface HoldingsResult {
+  holdings: Holding[];
+  errors: string[]; // Events that could not be applied in full, e.g. selling more units than held
+}
+
+// Quantities below this are rounding left-overs of fully sold positions
+const QUANTITY_EPSILON = 1e-9;
+
+const EVENT_ORDER: Record<InvestmentEventType, number> = { buy: 0, dividend: 1, fee: 2, sell: 3 };
+
+/** The most recent quote of every security, by security ID. */
+export function getLatestPrices<T extends SecurityPriceQuote>(quotes: T[]): Map<string, T> {
+  const latest = new Map<string, T>();
+  quotes.forEach(quote => {
+    const current = latest.get(quote.securityId);
+    if (!current || quote.date > current.date) latest.set(quote.securityId, quote);
+  });
+  return latest;
+}
+
+/**
+ * Replays the events of every account and security in date order (buys first within a day) and returns
+ * the resulting positions. Sales take units from the oldest lots; with 'average' they are costed at
+ * the average cost of all units held, with 'fifo' at the cost of the lots they take. Positions are
+ * valued at the latest quote, converted to the security's currency when quoted in another.
+ */
+export function calculateHoldings(
+  events: InvestmentEvent[],
+  securities: Security[],
+  options: { method: CostBasisMethod; prices: SecurityPriceQuote[] }
+): HoldingsResult {
+  const securitiesById = new Map(securities.map(security => [security.id, security]));
+  const latestPrices = getLatestPrices(options.prices);
+  const holdingsByKey = new Map<string, Holding>();
+  const errors: string[] = [];
+
+  const sortedEvents = [...events].sort((a, b) => a.date.localeCompare(b.date) || EVENT_ORDER[a.type] - EVENT_ORDER[b.type]);
+  sortedEvents.forEach(event => {
+    const security = securitiesById.get(event.securityId);
+    if (!security) {
+      errors.push(`${event.date}: ${event.type} of an unknown security was skipped.`);
+      return;
+    }
+    const key = `${event.accountId}/${event.securityId}`;
+    let holding = holdingsByKey.get(key);
+    if (!holding) {
+      holding = {
+        accountId: event.accountId,
+        securityId: event.securityId,
+        currency: security.currency,
+        quantity: 0,
+        costBasis: 0,
+        averageCost: 0,
+        lots: [],
+        realizedGain: 0,
+        dividends: 0,
+        fees: 0,
+        price: null,
+        priceDate: null,
+        marketValue: null,
+        unrealizedGain: null,
+      };
+      holdingsByKey.set(key, holding);
+    }
+
+    switch (event.type) {
+      case 'buy': {
+        const cost = event.quantity * event.price + (event.fees || 0);
+        holding.lots.push({ eventId: event.id, date: event.date, quantity: event.quantity, unitCost: cost / event.quantity });
+        holding.quantity += event.quantity;
+        holding.costBasis += cost;
+        break;
+      }
+      case 'sell': {
+        let quantity = event.quantity;
+        if (quantity > holding.quantity + QUANTITY_EPSILON) {
+          errors.push(`${event.date}: sold ${event.quantity} ${security.symbol} but only ${parseFloat(holding.quantity.toFixed(8))} were held; the sale was capped.`);
+          quantity = holding.quantity;
+        }
+        if (quantity <= 0) break;
+        const proceeds = quantity * event.price - (event.fees || 0) * (quantity / event.quantity);
+        const averageCost = holding.quantity > 0 ? holding.costBasis / holding.quantity : 0;
+        const lotsCost = takeFromLots(holding.lots, quantity);
+        const soldCost = options.method === 'average' ? averageCost * quantity : lotsCost;
+        holding.realizedGain += proceeds - soldCost;
+        holding.quantity -= quantity;
+        holding.costBasis -= soldCost;
+        if (holding.quantity <= QUANTITY_EPSILON) {
+          holding.quantity = 0;
+          holding.costBasis = 0;
+          holding.lots = [];
+        }
+        break;
+      }
+      case 'dividend':
+        holding.dividends += event.amount;
+        break;
+      case 'fee':
+        holding.fees += event.amount;
+        break;
+    }
+  });
+
+  const holdings = Array.from(holdingsByKey.values()).map(holding => {
+    const quote = latestPrices.get(holding.securityId);
+    const price = quote
+      ? (quote.currency.toUpperCase() === holding.currency.toUpperCase() ? quote.price : convertCurrency(quote.price, quote.currency, holding.currency))
+      : null;
+    const marketValue = price !== null ? price * holding.quantity : null;
+    return {
+      ...holding,
+      averageCost: holding.quantity > 0 ? holding.costBasis / holding.quantity : 0,
+      price,
+      priceDate: quote?.date ?? null,
+      marketValue,
+      unrealizedGain: marketValue !== null ? marketValue - holding.costBasis : null,
+    };
+  });
+  return { holdings, errors };
+}
+
+/** Removes `quantity` units from the oldest lots and returns what they cost. */
+function takeFromLots(lots: HoldingLot[], quantity: number): number {
+  let remaining = quantity;
+  let cost = 0;
+  while (remaining > QUANTITY_EPSILON && lots.length > 0) {
+    const lot = lots[0];
+    const taken = Math.min(lot.quantity, remaining);
+    cost += taken * lot.unitCost;
+    lot.quantity -= taken;
+    remaining -= taken;
+    if (lot.quantity <= QUANTITY_EPSILON) lots.shift();
+  }
+  return cost;
+}
@@ -0,0 +1,187 @@
+import { addMonths, differenceInCalendarMonths, format, isValid, parseISO } from 'date-fns';
+
+// Upper bound on projected periods (100 years of monthly payments) in case a payment never covers interest.
+const MAX_SCHEDULE_PERIODS = 1200;
+
+export interface LoanRateChange {
+  effectiveDate: string; // YYYY-MM-DD: applies to payments due on or after this date
+  annualRate: number; // Annual percentage, e.g. 5 for 5%
+  monthlyPayment?: number | null; // New payment if the lender sets one; otherwise re-amortized over the remaining term
+}
+
+export interface LoanPaymentRecord {
+  date: string; // YYYY-MM-DD
+  period: number; // 1-based payment number
+  payment: number; // Regular payment amount (principal + interest)
+  principal: number;
+  interest: number;
+  extraPrincipal: number;
+  balanceAfter: number;
+  accountId: string;
+  transactionId: string;
+}
+
+export interface AmortizationRow {
+  period: number;
+  date: string; // YYYY-MM-DD
+  annualRate: number;
+  payment: number;
+  principal: number;
+  interest: number;
+  extraPrincipal: number;
+  balance: number; // Balance after this payment
+  isPosted: boolean;
+}
+
+export interface AmortizationSchedule {
+  rows: AmortizationRow[];
+  payoffDate: string | null;
+  totalInterest: number;
+  remainingInterest: number;
+  /** True when the scheduled payment does not cover the interest and the balance would never reach zero. */
+  isNegativelyAmortizing: boolean;
+}
+
+/** The subset of a loan needed to build its schedule. */
+export interface AmortizableLoan {
+  interestRate: number;
+  termMonths: number;
+  startDate: string; // YYYY-MM-DD; the first payment is due a month later, the last `termMonths` months later
+  monthlyPayment: number;
+  remainingBalance: number;
+  nextPaymentDate: string;
+  rateChanges?: LoanRateChange[];
+  payments?: LoanPaymentRecord[];
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Standard annuity payment for a fully amortizing loan.
+ */
+export function calculateMonthlyPayment(principal: number, annualRate: number, termMonths: number): number {
+  if (termMonths <= 0) return round2(principal);
+  const monthlyRate = annualRate / 100 / 12;
+  if (monthlyRate === 0) return round2(principal / termMonths);
+  return round2((principal * monthlyRate) / (1 - Math.pow(1 + monthlyRate, -termMonths)));
+}
+
+/**
+ * Returns the rate change in effect on `date`, if any.
+ */
+export function getRateChangeOn(rateChanges: LoanRateChange[] | undefined, date: string): LoanRateChange | null {
+  const applicable = (rateChanges || [])
+    .filter(change => change.effectiveDate <= date)
+    .sort((a, b) => a.effectiveDate.localeCompare(b.effectiveDate));
+  return applicable.length > 0 ? applicable[applicable.length - 1] : null;
+}
+
+export function getAnnualRateOn(loan: Pick<AmortizableLoan, 'interestRate' | 'rateChanges'>, date: string): number {
+  return getRateChangeOn(loan.rateChanges, date)?.annualRate ?? loan.interestRate;
+}
+
+/**
+ * Payments left in the original term counting the one due on `date`. Counted from the loan's start date,
+ * so payments made before the loan was tracked here (or never posted) do not stretch the term.
+ */
+export function getPeriodsLeftInTerm(loan: Pick<AmortizableLoan, 'startDate' | 'termMonths'>, date: string): number {
+  const startDate = parseISO(loan.startDate);
+  if (!isValid(startDate)) return 1;
+  const lastPaymentDate = addMonths(startDate, loan.termMonths);
+  return Math.max(differenceInCalendarMonths(lastPaymentDate, parseISO(date)) + 1, 1);
+}
+
+/**
+ * Splits one monthly payment into interest and principal for the given outstanding balance.
+ * Any amount above what is needed to clear the balance is not applied.
+ */
+export function splitLoanPayment(
+  balance: number,
+  annualRate: number,
+  payment: number,
+  extraPrincipal: number = 0
+): { payment: number; interest: number; principal: number; extraPrincipal: number; balanceAfter: number } {
+  const interest = round2(balance * (annualRate / 100 / 12));
+  const regularPayment = round2(Math.min(payment, balance + interest));
+  const principal = round2(Math.max(regularPayment - interest, 0));
+  const extra = round2(Math.max(Math.min(extraPrincipal, balance - principal), 0));
+  return {
+    payment: regularPayment,
+    interest,
+    principal,
+    extraPrincipal: extra,
+    balanceAfter: round2(Math.max(balance - principal - extra, 0)),
+  };
+}
+
+/**
+ * Builds the full schedule for a loan: posted payments first (as recorded), followed by a
+ * projection from the current `remainingBalance` and `nextPaymentDate`. A rate change already in
+ * effect at the latest posted payment (or at the start date) is taken to be reflected in
+ * `monthlyPayment`; changes taking effect after that apply from their effective date and, unless a
+ * change names its own payment, re-amortize the payment over the periods left in the original term
+ * (see getPeriodsLeftInTerm). `extraMonthlyPrincipal` adds a hypothetical extra principal payment
+ * to every projected period.
+ */
+export function buildAmortizationSchedule(loan: AmortizableLoan, extraMonthlyPrincipal: number = 0): AmortizationSchedule {
+  const posted = [...(loan.payments || [])].sort((a, b) => a.period - b.period || a.date.localeCompare(b.date));
+  const rows: AmortizationRow[] = posted.map(p => ({
+    period: p.period,
+    date: p.date,
+    annualRate: getAnnualRateOn(loan, p.date),
+    payment: p.payment,
+    principal: p.principal,
+    interest: p.interest,
+    extraPrincipal: p.extraPrincipal,
+    balance: p.balanceAfter,
+    isPosted: true,
+  }));
+
+  let balance = round2(loan.remainingBalance);
+  let payment = loan.monthlyPayment;
+  let activeChange = getRateChangeOn(loan.rateChanges, posted.length > 0 ? posted[posted.length - 1].date : loan.startDate);
+  let period = posted.length > 0 ? posted[posted.length - 1].period : 0;
+  let isNegativelyAmortizing = false;
+  const anchor = parseISO(loan.nextPaymentDate);
+
+  for (let i = 0; balance > 0 && i < MAX_SCHEDULE_PERIODS; i++) {
+    period += 1;
+    const date = format(addMonths(anchor, i), 'yyyy-MM-dd');
+    const change = getRateChangeOn(loan.rateChanges, date);
+    if (change && change !== activeChange) {
+      payment = change.monthlyPayment && change.monthlyPayment > 0
+        ? change.monthlyPayment
+        : calculateMonthlyPayment(balance, change.annualRate, getPeriodsLeftInTerm(loan, date));
+      activeChange = change;
+    }
+    const annualRate = change?.annualRate ?? loan.interestRate;
+    const split = splitLoanPayment(balance, annualRate, payment, extraMonthlyPrincipal);
+
+    if (split.principal + split.extraPrincipal <= 0) {
+      isNegativelyAmortizing = true;
+      break;
+    }
+
+    balance = split.balanceAfter;
+    rows.push({
+      period,
+      date,
+      annualRate,
+      payment: split.payment,
+      principal: split.principal,
+      interest: split.interest,
+      extraPrincipal: split.extraPrincipal,
+      balance,
+      isPosted: false,
+    });
+  }
+
+  const projected = rows.filter(r => !r.isPosted);
+  return {
+    rows,
+    payoffDate: !isNegativelyAmortizing && balance <= 0 && rows.length > 0 ? rows[rows.length - 1].date : null,
+    totalInterest: round2(rows.reduce((sum, r) => sum + r.interest, 0)),
+    remainingInterest: round2(projected.reduce((sum, r) => sum + r.interest, 0)),
+    isNegativelyAmortizing,
+  };
+}
@@ -0,0 +1,121 @@
+import { addDays, addMonths, addWeeks, endOfMonth, endOfWeek, format, isAfter, parseISO, startOfDay } from 'date-fns';
+import { convertCurrency } from '@/lib/currency';
+import { isOpeningBalanceTransaction } from '@/lib/balance-reconciliation';
+import type { Account } from '@/services/account-sync';
+import type { Transaction } from '@/services/transactions';
+import type { Loan } from '@/services/loans';
+import type { CreditCard } from '@/services/credit-cards';
+
+export type NetWorthGranularity = 'day' | 'week' | 'month';
+
+// Keeps daily series over long ranges from producing thousands of chart points.
+const MAX_POINTS = 750;
+
+export interface NetWorthHistoryPoint {
+  date: string; // YYYY-MM-DD: end of the period the values are taken at
+  assets: number; // Positive balances of asset accounts
+  crypto: number; // Positive balances of crypto accounts
+  liabilities: number; // Negative account balances, loan balances and unlinked credit card debt (positive number)
+  netWorth: number; // assets + crypto - liabilities
+}
+
+export interface NetWorthHistoryInput {
+  accounts: Account[];
+  transactions: Transaction[];
+  loans: Loan[];
+  creditCards: CreditCard[];
+  from: Date;
+  to: Date;
+  granularity: NetWorthGranularity;
+  targetCurrency: string;
+  /** Values an amount in the target currency at the rate effective on `onDate`. */
+  convert: (amount: number, sourceCurrency: string, targetCurrency: string, onDate: string) => number;
+}
+
+/** End dates (YYYY-MM-DD) of every period between `from` and `to`; the last one is clamped to `to`. */
+export function getPeriodEndDates(from: Date, to: Date, granularity: NetWorthGranularity): string[] {
+  const end = startOfDay(to);
+  const periodEnd = (date: Date) =>
+    granularity === 'month' ? endOfMonth(date) : granularity === 'week' ? endOfWeek(date, { weekStartsOn: 1 }) : date;
+  const next = (date: Date) =>
+    granularity === 'month' ? addMonths(date, 1) : granularity === 'week' ? addWeeks(date, 1) : addDays(date, 1);
+
+  const dates: string[] = [];
+  for (let cursor = startOfDay(from); !isAfter(cursor, end) && dates.length < MAX_POINTS; cursor = next(cursor)) {
+    const date = startOfDay(periodEnd(cursor));
+    dates.push(format(isAfter(date, end) ? end : date, 'yyyy-MM-dd'));
+  }
+  return Array.from(new Set(dates));
+}
+
+/**
+ * Balance of an account at the end of each date, found by walking its transactions backwards from the
+ * current balance. Opening-balance transactions never moved the stored balance, so they are skipped.
+ */
+function getBalancesAtDates(account: Account, transactions: Transaction[], datesDescending: string[]): Map<string, number> {
+  const newestFirst = transactions
+    .filter(tx => tx.accountId === account.id && !isOpeningBalanceTransaction(tx))
+    .sort((a, b) => b.date.localeCompare(a.date));
+  const balances = new Map<string, number>();
+  let balance = account.balance;
+  let index = 0;
+  for (const date of datesDescending) {
+    while (index < newestFirst.length && newestFirst[index].date.slice(0, 10) > date) {
+      const tx = newestFirst[index];
+      balance -= tx.transactionCurrency && tx.transactionCurrency.toUpperCase() !== account.currency.toUpperCase()
+        ? convertCurrency(tx.amount, tx.transactionCurrency, account.currency)
+        : tx.amount;
+      index++;
+    }
+    balances.set(date, balance);
+  }
+  return balances;
+}
+
+/** Outstanding loan principal at the end of `date`: nothing before the loan started, then the current balance plus later principal payments. */
+function getLoanBalanceAt(loan: Loan, date: string): number {
+  if (loan.startDate && date < loan.startDate.slice(0, 10)) return 0;
+  const repaidAfter = (loan.payments || [])
+    .filter(payment => payment.date > date)
+    .reduce((sum, payment) => sum + payment.principal + payment.extraPrincipal, 0);
+  return Math.min(loan.remainingBalance + repaidAfter, loan.originalAmount);
+}
+
+/**
+ * Reconstructs net worth over time from current balances and transaction history. Accounts excluded
+ * from net worth are left out. Cards linked to an account are already counted through that account;
+ * unlinked cards have no history, so their current debt is applied to every period.
+ */
+export function buildNetWorthHistory(input: NetWorthHistoryInput): NetWorthHistoryPoint[] {
+  const { targetCurrency, convert } = input;
+  const dates = getPeriodEndDates(input.from, input.to, input.granularity);
+  const datesDescending = [...dates].reverse();
+  const accounts = input.accounts.filter(acc => acc.includeInNetWorth !== false);
+  const balancesByAccount = accounts.map(account => ({
+    account,
+    balances: getBalancesAtDates(account, input.transactions, datesDescending),
+  }));
+  const unlinkedCards = input.creditCards.filter(card => !card.accountId);
+
+  return dates.map(date => {
+    const point: NetWorthHistoryPoint = { date, assets: 0, crypto: 0, liabilities: 0, netWorth: 0 };
+    balancesByAccount.forEach(({ account, balances }) => {
+      const value = convert(balances.get(date) || 0, account.currency, targetCurrency, date);
+      if (value < 0) point.liabilities += -value;
+      else if (account.category === 'crypto') point.crypto += value;
+      else point.assets += value;
+    });
+    input.loans.forEach(loan => {
+      point.liabilities += convert(getLoanBalanceAt(loan, date), loan.currency, targetCurrency, date);
+    });
+    unlinkedCards.forEach(card => {
+      point.liabilities += convert(Math.max(-card.currentBalance, 0), card.currency, targetCurrency, date);
+    });
+
+    point.assets = parseFloat(point.assets.toFixed(2));
+    point.crypto = parseFloat(point.crypto.toFixed(2));
+    point.liabilities = parseFloat(point.liabilities.toFixed(2));
+    point.netWorth = parseFloat((point.assets + point.crypto - point.liabilities).toFixed(2));
+    return point;
+  });
+}
@@ -0,0 +1,172 @@
+/** A single `STMTTRN` entry from a bank or credit card statement. */
+export interface OfxTransaction {
+  fitId: string; // Financial institution transaction ID, unique per account
+  type: string; // TRNTYPE, e.g. 'DEBIT', 'CREDIT', 'POS', 'ATM'
+  date: string; // YYYY-MM-DD, from DTPOSTED
+  amount: number; // Signed: negative for money leaving the account
+  name: string;
+  memo: string;
+  checkNumber?: string;
+}
+
+export interface OfxStatement {
+  accountId: string; // ACCTID from BANKACCTFROM / CCACCTFROM
+  bankId?: string;
+  accountType: string; // ACCTTYPE for bank accounts ('CHECKING', 'SAVINGS', ...), 'CREDITCARD' for card statements
+  currency: string; // CURDEF
+  ledgerBalance: number | null; // LEDGERBAL/BALAMT
+  ledgerBalanceDate: string | null; // LEDGERBAL/DTASOF as YYYY-MM-DD
+  transactions: OfxTransaction[];
+}
+
+export interface OfxParseResult {
+  statements: OfxStatement[];
+  errors: string[];
+}
+
+const OFX_FILE_EXTENSIONS = ['.ofx', '.qfx'];
+
+export function isOfxFileName(fileName: string): boolean {
+  const lower = fileName.toLowerCase();
+  return OFX_FILE_EXTENSIONS.some(ext => lower.endsWith(ext));
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/gi, '<')
+    .replace(/&gt;/gi, '>')
+    .replace(/&quot;/gi, '"')
+    .replace(/&apos;/gi, "'")
+    .replace(/&nbsp;/gi, ' ')
+    .replace(/&amp;/gi, '&');
+}
+
+/**
+ * Reads a leaf element. SGML (OFX 1.x) files leave leaf elements unclosed, so the value runs
+ * until the next tag or line break; XML (OFX 2.x) files close them, which ends the value the same way.
+ */
+function readElement(block: string, tag: string): string | undefined {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  const value = match?.[1].trim();
+  return value ? decodeEntities(value) : undefined;
+}
+
+function readAggregate(block: string, tag: string): string | undefined {
+  return block.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'i'))?.[1];
+}
+
+function readAggregates(block: string, tag: string): string[] {
+  return Array.from(block.matchAll(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'gi')), match => match[1]);
+}
+
+/** OFX dates are `YYYYMMDD[HHMMSS[.XXX]][[gmt offset:tz name]]`; only the calendar day is kept. */
+function parseOfxDate(value: string | undefined): string | null {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) return null;
+  const [, year, month, day] = match;
+  const date = new Date(`${year}-${month}-${day}T00:00:00Z`);
+  return isNaN(date.getTime()) ? null : `${year}-${month}-${day}`;
+}
+
+function parseOfxAmount(value: string | undefined): number | null {
+  if (!value) return null;
+  // Some institutions write decimal commas ("-12,50") despite the spec.
+  const amount = parseFloat(value.replace(/\s/g, '').replace(',', '.'));
+  return isFinite(amount) ? amount : null;
+}
+
+function parseStatement(block: string, isCreditCard: boolean, statementNumber: number, errors: string[]): OfxStatement | null {
+  const accountBlock = readAggregate(block, isCreditCard ? 'CCACCTFROM' : 'BANKACCTFROM') || '';
+  const accountId = readElement(accountBlock, 'ACCTID');
+  if (!accountId) {
+    errors.push(`Statement ${statementNumber}: missing account identifier (ACCTID).`);
+    return null;
+  }
+
+  const ledgerBlock = readAggregate(block, 'LEDGERBAL') || '';
+  const transactions: OfxTransaction[] = [];
+
+  readAggregates(block, 'STMTTRN').forEach((entry, index) => {
+    const label = `Statement ${statementNumber}, transaction ${index + 1}`;
+    const fitId = readElement(entry, 'FITID');
+    const date = parseOfxDate(readElement(entry, 'DTPOSTED'));
+    const amount = parseOfxAmount(readElement(entry, 'TRNAMT'));
+    if (!fitId) {
+      errors.push(`${label}: missing FITID.`);
+      return;
+    }
+    if (!date || amount === null) {
+      errors.push(`${label} (FITID ${fitId}): invalid DTPOSTED or TRNAMT.`);
+      return;
+    }
+    transactions.push({
+      fitId,
+      type: (readElement(entry, 'TRNTYPE') || 'OTHER').toUpperCase(),
+      date,
+      amount,
+      name: readElement(entry, 'NAME') || readElement(entry, 'PAYEEID') || '',
+      memo: readElement(entry, 'MEMO') || '',
+      checkNumber: readElement(entry, 'CHECKNUM'),
+    });
+  });
+
+  return {
+    accountId,
+    bankId: readElement(accountBlock, 'BANKID'),
+    accountType: isCreditCard ? 'CREDITCARD' : (readElement(accountBlock, 'ACCTTYPE') || 'CHECKING').toUpperCase(),
+    currency: (readElement(block, 'CURDEF') || '').toUpperCase(),
+    ledgerBalance: parseOfxAmount(readElement(ledgerBlock, 'BALAMT')),
+    ledgerBalanceDate: parseOfxDate(readElement(ledgerBlock, 'DTASOF')),
+    transactions,
+  };
+}
+
+/**
+ * Parses an OFX or QFX statement file (SGML 1.x or XML 2.x) into its bank and credit card
+ * statements. Entries that cannot be read are reported in `errors` and left out.
+ */
+export function parseOfx(text: string): OfxParseResult {
+  const errors: string[] = [];
+  const statements: OfxStatement[] = [];
+
+  const bodyStart = text.search(/<OFX>/i);
+  if (bodyStart === -1) {
+    return { statements, errors: ['Not an OFX file: the <OFX> element is missing.'] };
+  }
+  const body = text.slice(bodyStart);
+
+  const blocks = [
+    ...readAggregates(body, 'STMTRS').map(block => ({ block, isCreditCard: false })),
+    ...readAggregates(body, 'CCSTMTRS').map(block => ({ block, isCreditCard: true })),
+  ];
+  blocks.forEach(({ block, isCreditCard }, index) => {
+    const statement = parseStatement(block, isCreditCard, index + 1, errors);
+    if (statement) statements.push(statement);
+  });
+
+  if (blocks.length === 0) {
+    errors.push('No bank (STMTRS) or credit card (CCSTMTRS) statements found.');
+  }
+  return { statements, errors };
+}
+
+/** Account type used when an imported statement has no matching account. */
+export function getAccountTypeForOfxStatement(statement: OfxStatement): string {
+  switch (statement.accountType) {
+    case 'CREDITCARD':
+    case 'CREDITLINE':
+      return 'credit card';
+    case 'SAVINGS':
+    case 'MONEYMRKT':
+      return 'savings';
+    default:
+      return 'checking';
+  }
+}
+
+/** Name proposed for a new account created from a statement, e.g. "Checking ••1234". */
+export function getDefaultOfxAccountName(statement: OfxStatement): string {
+  const type = getAccountTypeForOfxStatement(statement);
+  const label = type.charAt(0).toUpperCase() + type.slice(1);
+  return `${label} ••${statement.accountId.slice(-4)}`;
+}
@@ -0,0 +1,310 @@
+/**
+ * References from records to categories and tags. Transactions, split lines, subscriptions, transfers
+ * and rule actions hold the IDs of the category and tags they use (`categoryId`, `tagIds`) next to
+ * their names; budgets, groups and parent links hold category IDs only. Names are resolved from the
+ * IDs when records are read, so a rename only changes the category or tag itself. Records without an
+ * ID (built-in categories, names no category or tag exists for, data from before IDs were stored) are
+ * matched by name, case-insensitively. A merge or delete rewrites every record that references it.
+ */
+
+export interface CategoryRewrite {
+  fromNames: string[]; // Names to replace in records without a category ID, matched case-insensitively
+  toName: string;
+  fromId?: string | null; // Category ID replaced in records, budgets and groups
+  toId?: string | null; // Replacement ID; null drops fromId from budgets and groups
+}
+
+export interface TagRewrite {
+  fromNames: string[];
+  toName: string | null; // Null removes the tag
+  fromId?: string | null;
+  toId?: string | null;
+}
+
+export interface ReferencedSplit {
+  category: string;
+  categoryId?: string | null;
+  tags?: string[];
+  tagIds?: string[];
+}
+
+/** Records that hold a category and, when split, one per line. */
+export interface CategorizedRecord {
+  category: string;
+  categoryId?: string | null; // Null when no category record matches the name
+  splits?: ReferencedSplit[] | null;
+}
+
+export interface TaggedRecord {
+  tags?: string[];
+  tagIds?: string[]; // Parallel to `tags`: the ID of each tag, '' for names without a tag record
+  splits?: ReferencedSplit[] | null;
+}
+
+export interface ReferenceRuleActions {
+  category?: string | null;
+  categoryId?: string | null;
+  tags?: string[];
+  tagIds?: string[];
+}
+
+/** Category and tag names by ID, as last loaded. */
+export interface ReferenceLookup {
+  categories: Map<string, string>;
+  tags: Map<string, string>;
+}
+
+export interface ReferenceChangeCounts {
+  transactions: number;
+  transfers: number;
+  subscriptions: number;
+  rules: number;
+  budgets: number;
+  groups: number;
+  categories: number; // Subcategories moved to a new parent
+}
+
+/** Names the app itself assigns; renaming, merging or deleting them would break transfers and splits. */
+const RESERVED_CATEGORY_NAMES = ['transfer', 'split'];
+
+const COUNT_LABELS: Record<keyof ReferenceChangeCounts, [string, string]> = {
+  transactions: ['transaction', 'transactions'],
+  transfers: ['transfer', 'transfers'],
+  subscriptions: ['subscription', 'subscriptions'],
+  rules: ['rule', 'rules'],
+  budgets: ['budget', 'budgets'],
+  groups: ['group', 'groups'],
+  categories: ['subcategory', 'subcategories'],
+};
+
+export function isReservedCategoryName(name: string): boolean {
+  return RESERVED_CATEGORY_NAMES.includes(name.trim().toLowerCase());
+}
+
+export function emptyReferenceChangeCounts(): ReferenceChangeCounts {
+  return { transactions: 0, transfers: 0, subscriptions: 0, rules: 0, budgets: 0, groups: 0, categories: 0 };
+}
+
+export function getTotalReferenceChanges(counts: ReferenceChangeCounts): number {
+  return Object.values(counts).reduce((sum, count) => sum + count, 0);
+}
+
+/** E.g. "12 transactions, 1 subscription and 2 budgets"; "nothing else" when no record changes. */
+export function describeReferenceChanges(counts: ReferenceChangeCounts): string {
+  const parts = (Object.keys(COUNT_LABELS) as (keyof ReferenceChangeCounts)[])
+    .filter(key => counts[key] > 0)
+    .map(key => `${counts[key]} ${COUNT_LABELS[key][counts[key] === 1 ? 0 : 1]}`);
+  if (parts.length === 0) return 'nothing else';
+  return parts.length === 1 ? parts[0] : `${parts.slice(0, -1).join(', ')} and ${parts[parts.length - 1]}`;
+}
+
+function toNameSet(names: string[]): Set<string> {
+  return new Set(names.map(name => name.trim().toLowerCase()));
+}
+
+/**
+ * Whether a reference is affected by a rewrite. One with an ID only when that ID is replaced by another,
+ * since a rename shows up through the ID already; one without an ID when its name matches.
+ */
+function referenceMatches(name: string, id: string | null | undefined, rewrite: CategoryRewrite | TagRewrite): boolean {
+  if (id) return id === rewrite.fromId && rewrite.toId !== rewrite.fromId;
+  return toNameSet(rewrite.fromNames).has((name || '').trim().toLowerCase());
+}
+
+/**
+ * Replaces matching tags and drops duplicates, keeping the first spelling. Returns the names with their
+ * parallel IDs, or null when nothing changes.
+ */
+export function rewriteTagList(
+  tags: string[] | undefined | null,
+  tagIds: string[] | undefined | null,
+  rewrite: TagRewrite
+): { tags: string[]; tagIds: string[] } | null {
+  if (!tags || tags.length === 0) return null;
+  const matches = (tag: string, index: number) => referenceMatches(tag, tagIds?.[index], rewrite);
+  if (!tags.some(matches)) return null;
+
+  const seen = new Set<string>();
+  const result = { tags: [] as string[], tagIds: [] as string[] };
+  tags.forEach((tag, index) => {
+    const replaced = matches(tag, index);
+    if (replaced && !rewrite.toName) return;
+    const name = replaced ? rewrite.toName! : tag;
+    if (seen.has(name.toLowerCase())) return;
+    seen.add(name.toLowerCase());
+    result.tags.push(name);
+    result.tagIds.push(replaced ? rewrite.toId || '' : tagIds?.[index] || '');
+  });
+  return result;
+}
+
+/** The record with its category (and split lines' categories) rewritten, or null when nothing matches. */
+export function rewriteRecordCategory<T extends CategorizedRecord>(record: T, rewrite: CategoryRewrite): T | null {
+  const matches = (reference: { category: string; categoryId?: string | null }) => referenceMatches(reference.category, reference.categoryId, rewrite);
+  const splitsChange = !!record.splits?.some(matches);
+  if (!matches(record) && !splitsChange) return null;
+  const replacement = { category: rewrite.toName, categoryId: rewrite.toId ?? null };
+  return {
+    ...record,
+    ...(matches(record) ? replacement : {}),
+    ...(splitsChange ? { splits: record.splits!.map(split => matches(split) ? { ...split, ...replacement } : split) } : {}),
+  };
+}
+
+/** The record with its tags (and split lines' tags) rewritten, or null when it carries none of them. */
+export function rewriteRecordTags<T extends TaggedRecord>(record: T, rewrite: TagRewrite): T | null {
+  const tags = rewriteTagList(record.tags, record.tagIds, rewrite);
+  const splitTags = record.splits?.map(split => rewriteTagList(split.tags, split.tagIds, rewrite)) || [];
+  if (!tags && !splitTags.some(Boolean)) return null;
+  return {
+    ...record,
+    ...(tags || {}),
+    ...(splitTags.some(Boolean) ? { splits: record.splits!.map((split, index) => splitTags[index] ? { ...split, ...splitTags[index] } : split) } : {}),
+  };
+}
+
+export function rewriteRuleActions<T extends ReferenceRuleActions>(
+  actions: T,
+  rewrites: { category?: CategoryRewrite; tag?: TagRewrite }
+): T | null {
+  let changed: T | null = null;
+  if (rewrites.category && actions.category && referenceMatches(actions.category, actions.categoryId, rewrites.category)) {
+    changed = { ...actions, category: rewrites.category.toName, categoryId: rewrites.category.toId ?? null };
+  }
+  if (rewrites.tag) {
+    const tags = rewriteTagList(actions.tags, actions.tagIds, rewrites.tag);
+    if (tags) changed = { ...(changed || actions), ...tags };
+  }
+  return changed;
+}
+
+export function createReferenceLookup(categories: { id: string; name: string }[], tags: { id: string; name: string }[]): ReferenceLookup {
+  return {
+    categories: new Map(categories.map(category => [category.id, category.name])),
+    tags: new Map(tags.map(tag => [tag.id, tag.name])),
+  };
+}
+
+function findIdByName(namesById: Map<string, string>, name: string | null | undefined): string {
+  const key = (name || '').trim().toLowerCase();
+  if (!key) return '';
+  for (const [id, candidate] of namesById) {
+    if (candidate.trim().toLowerCase() === key) return id;
+  }
+  return '';
+}
+
+function linkCategory(name: string, lookup: ReferenceLookup) {
+  return { categoryId: findIdByName(lookup.categories, name) || null };
+}
+
+function linkTags(tags: string[] | undefined, lookup: ReferenceLookup) {
+  return { tagIds: (tags || []).map(tag => findIdByName(lookup.tags, tag)) };
+}
+
+function resolveCategory(name: string, id: string | null | undefined, lookup: ReferenceLookup) {
+  return id && lookup.categories.has(id) ? { category: lookup.categories.get(id)!, categoryId: id } : { category: name, categoryId: null };
+}
+
+function resolveTags(tags: string[] | undefined, tagIds: string[] | undefined, lookup: ReferenceLookup) {
+  const resolved = (tags || []).map((tag, index) => {
+    const id = tagIds?.[index];
+    return id && lookup.tags.has(id) ? { name: lookup.tags.get(id)!, id } : { name: tag, id: '' };
+  });
+  return { tags: resolved.map(tag => tag.name), tagIds: resolved.map(tag => tag.id) };
+}
+
+function isLookupLoaded(lookup: ReferenceLookup): boolean {
+  return lookup.categories.size > 0 || lookup.tags.size > 0;
+}
+
+/**
+ * Sets `categoryId` and `tagIds` from the names, which are what forms, imports and rules set. Left
+ * unchanged when no categories or tags have been loaded yet; such a record is matched by name.
+ */
+export function linkRecordReferences<T extends CategorizedRecord & TaggedRecord>(record: T, lookup: ReferenceLookup): T {
+  if (!isLookupLoaded(lookup)) return record;
+  return {
+    ...record,
+    ...linkCategory(record.category, lookup),
+    ...linkTags(record.tags, lookup),
+    ...(record.splits ? { splits: record.splits.map(split => ({ ...split, ...linkCategory(split.category, lookup), ...linkTags(split.tags, lookup) })) } : {}),
+  };
+}
+
+export function linkTagReferences<T extends TaggedRecord>(record: T, lookup: ReferenceLookup): T {
+  return isLookupLoaded(lookup) ? { ...record, ...linkTags(record.tags, lookup) } : record;
+}
+
+export function linkRuleActionReferences<T extends ReferenceRuleActions>(actions: T, lookup: ReferenceLookup): T {
+  if (!isLookupLoaded(lookup)) return actions;
+  return {
+    ...actions,
+    categoryId: actions.category ? findIdByName(lookup.categories, actions.category) || null : null,
+    ...linkTags(actions.tags, lookup),
+  };
+}
+
+/**
+ * Replaces the stored names with the current names of the referenced category and tags. References
+ * whose category or tag no longer exists keep their stored name and lose the ID. Left unchanged when
+ * no categories or tags have been loaded yet.
+ */
+export function resolveRecordReferences<T extends CategorizedRecord & TaggedRecord>(record: T, lookup: ReferenceLookup): T {
+  if (!isLookupLoaded(lookup)) return record;
+  return {
+    ...record,
+    ...resolveCategory(record.category, record.categoryId, lookup),
+    ...resolveTags(record.tags, record.tagIds, lookup),
+    ...(record.splits ? {
+      splits: record.splits.map(split => ({ ...split, ...resolveCategory(split.category, split.categoryId, lookup), ...resolveTags(split.tags, split.tagIds, lookup) })),
+    } : {}),
+  };
+}
+
+export function resolveTagReferences<T extends TaggedRecord>(record: T, lookup: ReferenceLookup): T {
+  return isLookupLoaded(lookup) ? { ...record, ...resolveTags(record.tags, record.tagIds, lookup) } : record;
+}
+
+export function resolveRuleActionReferences<T extends ReferenceRuleActions>(actions: T, lookup: ReferenceLookup): T {
+  if (!isLookupLoaded(lookup)) return actions;
+  const category = actions.category ? resolveCategory(actions.category, actions.categoryId, lookup) : { category: actions.category, categoryId: null };
+  return { ...actions, ...category, ...resolveTags(actions.tags, actions.tagIds, lookup) };
+}
+
+/** Whether linking would set IDs the record does not have yet, i.e. it predates ID references. */
+export function needsReferenceLinks(record: CategorizedRecord & TaggedRecord, lookup: ReferenceLookup): boolean {
+  const linked = linkRecordReferences(record, lookup);
+  const sameIds = (a: string[] | undefined, b: string[] | undefined) => (a || []).join('|') === (b || []).join('|');
+  if ((record.categoryId ?? null) !== linked.categoryId || !sameIds(record.tagIds, linked.tagIds)) return true;
+  return !!record.splits?.some((split, index) =>
+    (split.categoryId ?? null) !== linked.splits![index].categoryId || !sameIds(split.tagIds, linked.splits![index].tagIds));
+}
+
+/** Replaces `fromId` in an ID list (or drops it when `toId` is null) without duplicates. Null when absent. */
+export function rewriteIdList(ids: string[] | undefined | null, fromId: string, toId: string | null): string[] | null {
+  if (!ids || !ids.includes(fromId)) return null;
+  return Array.from(new Set(ids.flatMap(id => id === fromId ? (toId ? [toId] : []) : [id])));
+}
+
+export interface UnlinkedName {
+  name: string; // As first seen
+  count: number; // Transactions, subscriptions and rules that use it
+}
+
+/**
+ * Names used by records that match no existing category or tag, most used first. They are left behind
+ * by renames and deletes made before references were rewritten.
+ */
+export function findUnlinkedNames(usedNames: string[], knownNames: string[], ignoredNames: string[] = []): UnlinkedName[] {
+  const known = toNameSet([...knownNames, ...ignoredNames]);
+  const byName = new Map<string, UnlinkedName>();
+  usedNames.forEach(name => {
+    const key = (name || '').trim().toLowerCase();
+    if (!key || known.has(key)) return;
+    const entry = byName.get(key) || { name: name.trim(), count: 0 };
+    entry.count += 1;
+    byName.set(key, entry);
+  });
+  return Array.from(byName.values()).sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+}
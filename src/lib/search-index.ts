@@ -0,0 +1,328 @@
+import { format as formatDateFns, parseISO, startOfMonth, endOfMonth, subMonths, differenceInCalendarDays } from 'date-fns';
+import { formatCurrency } from '@/lib/currency';
+import { getCategoryPath } from '@/lib/category-tree';
+import type { Account } from '@/services/account-sync';
+import type { Transaction } from '@/services/transactions';
+import type { Category } from '@/services/categories';
+import type { Tag } from '@/services/tags';
+import type { Group } from '@/services/groups';
+import type { Subscription } from '@/services/subscriptions';
+import type { Loan } from '@/services/loans';
+
+/**
+ * Client-side index behind the command palette. Every searchable record becomes a document whose
+ * text is normalized and split into tokens once; queries then match token prefixes through a
+ * sorted token list instead of scanning every transaction on each keystroke.
+ */
+
+export type SearchResultType = 'action' | 'page' | 'account' | 'category' | 'tag' | 'group' | 'subscription' | 'loan' | 'transaction';
+
+export type SearchAction =
+  | { kind: 'navigate'; href: string; dateRange?: { from: Date; to: Date } }
+  | { kind: 'add-transaction'; transactionType: 'expense' | 'income' | 'transfer'; accountId?: string };
+
+export interface SearchDocument {
+  id: string; // Unique across types, e.g. "account:abc"
+  type: SearchResultType;
+  title: string;
+  subtitle?: string;
+  text: string[]; // Further searchable values, e.g. amounts, dates and related names
+  action: SearchAction;
+  date?: string; // YYYY-MM-DD; recent transactions rank higher
+  showWhenEmpty?: boolean; // Listed before anything is typed
+}
+
+export interface SearchIndex {
+  documents: SearchDocument[];
+  titles: string[]; // Normalized titles, by document position
+  postings: Map<string, number[]>; // Token -> positions of the documents containing it
+  sortedTokens: string[];
+  entityPositions: number[]; // Everything but transactions; small enough to also match inside words
+}
+
+export interface SearchResult {
+  document: SearchDocument;
+  score: number;
+}
+
+export const SEARCH_RESULT_TYPE_LABELS: Record<SearchResultType, string> = {
+  action: 'Quick Actions',
+  page: 'Pages',
+  account: 'Accounts',
+  category: 'Categories',
+  tag: 'Tags',
+  group: 'Groups',
+  subscription: 'Subscriptions',
+  loan: 'Loans',
+  transaction: 'Transactions',
+};
+
+// Named records outrank transactions that merely mention the same words
+const TYPE_WEIGHTS: Record<SearchResultType, number> = {
+  action: 1.5, page: 1, account: 2, category: 1.5, tag: 1.5, group: 1.5, subscription: 1, loan: 1, transaction: 0,
+};
+
+const PAGES: { href: string; label: string; keywords: string[] }[] = [
+  { href: '/', label: 'Dashboard', keywords: ['home', 'overview'] },
+  { href: '/financial-control', label: 'Financial Control', keywords: ['subscriptions', 'loans', 'bills'] },
+  { href: '/accounts', label: 'Accounts', keywords: ['banks', 'wallets'] },
+  { href: '/transactions', label: 'Transactions', keywords: ['all'] },
+  { href: '/revenue', label: 'Revenue/Income', keywords: ['income', 'earnings'] },
+  { href: '/expenses', label: 'Expenses', keywords: ['spending', 'spend'] },
+  { href: '/transfers', label: 'Transfers', keywords: ['move'] },
+  { href: '/investments', label: 'Investments', keywords: ['holdings', 'portfolio', 'stocks'] },
+  { href: '/organization', label: 'Organization', keywords: ['categories', 'tags', 'groups', 'rules'] },
+  { href: '/preferences', label: 'Preferences', keywords: ['settings', 'currency', 'backup'] },
+  { href: '/import', label: 'Import Data', keywords: ['csv', 'ofx', 'upload'] },
+];
+
+// Pages that follow the global date range, offered as "Go to last month's ..."
+const PERIOD_PAGES: { href: string; label: string }[] = [
+  { href: '/transactions', label: 'transactions' },
+  { href: '/expenses', label: 'expenses' },
+  { href: '/revenue', label: 'income' },
+  { href: '/transfers', label: 'transfers' },
+];
+
+/** Lower-cased and without accents, so "cafe" finds "Café". */
+export function normalizeSearchText(value: string): string {
+  return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+function tokenize(value: string): string[] {
+  return normalizeSearchText(value)
+    .split(/[\s!-+\/:-@\[-`{-~]+/) // Whitespace and punctuation, except the . , - inside amounts and dates
+    .map(token => token.replace(/^[.,-]+|[.,-]+$/g, ''))
+    .filter(Boolean);
+}
+
+/** "45.9", "45,90" and "45" all find an amount of -45.90. */
+function amountText(amount: number): string[] {
+  const fixed = Math.abs(amount).toFixed(2);
+  return [fixed, fixed.replace('.', ',')];
+}
+
+/** The ISO date plus month names and a day-first form, so "may 2024" or "12/05" find it. */
+function dateText(date: string): string[] {
+  const day = date.slice(0, 10);
+  try {
+    const parsed = parseISO(day);
+    return [day, formatDateFns(parsed, 'dd/MM/yyyy'), formatDateFns(parsed, 'MMMM'), formatDateFns(parsed, 'MMM')];
+  } catch {
+    return [day];
+  }
+}
+
+export function buildSearchIndex(documents: SearchDocument[]): SearchIndex {
+  const postings = new Map<string, number[]>();
+  const entityPositions: number[] = [];
+  const titles = documents.map((document, position) => {
+    const tokens = new Set(tokenize([document.title, document.subtitle || '', ...document.text].join(' ')));
+    tokens.forEach(token => {
+      const positions = postings.get(token);
+      if (positions) positions.push(position); else postings.set(token, [position]);
+    });
+    if (document.type !== 'transaction') entityPositions.push(position);
+    return normalizeSearchText(document.title);
+  });
+  return { documents, titles, postings, sortedTokens: Array.from(postings.keys()).sort(), entityPositions };
+}
+
+/** Index of the first token that is not smaller than `term`. */
+function lowerBound(sortedTokens: string[], term: string): number {
+  let low = 0;
+  let high = sortedTokens.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (sortedTokens[middle] < term) low = middle + 1; else high = middle;
+  }
+  return low;
+}
+
+/** Scores of the documents matching one query term: whole tokens beat prefixes, prefixes beat inner matches. */
+function matchTerm(index: SearchIndex, term: string): Map<number, number> {
+  const scores = new Map<number, number>();
+  for (let i = lowerBound(index.sortedTokens, term); i < index.sortedTokens.length; i++) {
+    const token = index.sortedTokens[i];
+    if (!token.startsWith(term)) break;
+    const score = token === term ? 3 : 1 + term.length / token.length;
+    index.postings.get(token)!.forEach(position => scores.set(position, Math.max(scores.get(position) || 0, score)));
+  }
+  if (term.length >= 3) {
+    index.entityPositions.forEach(position => {
+      if (!scores.has(position) && index.titles[position].includes(term)) scores.set(position, 1);
+    });
+  }
+  return scores;
+}
+
+/**
+ * Documents matching every word of `query`, best first. Titles that start with the query, named
+ * records over transactions and recent transactions over old ones rank higher. An empty query
+ * returns the documents marked `showWhenEmpty`.
+ */
+export function searchIndex(index: SearchIndex, query: string, options: { limit?: number; now?: Date } = {}): SearchResult[] {
+  const { limit = 50, now = new Date() } = options;
+  const terms = tokenize(query);
+  if (terms.length === 0) {
+    return index.documents.filter(document => document.showWhenEmpty).map(document => ({ document, score: 0 }));
+  }
+
+  let scores: Map<number, number> | null = null;
+  for (const term of terms) {
+    const termScores = matchTerm(index, term);
+    if (scores === null) {
+      scores = termScores;
+    } else {
+      const combined = new Map<number, number>();
+      scores.forEach((score, position) => {
+        const termScore = termScores.get(position);
+        if (termScore !== undefined) combined.set(position, score + termScore);
+      });
+      scores = combined;
+    }
+    if (scores.size === 0) return [];
+  }
+
+  const normalizedQuery = normalizeSearchText(query).trim();
+  return Array.from(scores!.entries())
+    .map(([position, score]) => {
+      const document = index.documents[position];
+      const title = index.titles[position];
+      let total = score + TYPE_WEIGHTS[document.type];
+      if (title.startsWith(normalizedQuery)) total += 4;
+      else if (title.includes(normalizedQuery)) total += 2;
+      if (document.date) {
+        const ageInDays = Math.abs(differenceInCalendarDays(now, parseISO(document.date)));
+        total += Math.max(0, 1 - ageInDays / 365);
+      }
+      return { document, score: total };
+    })
+    .sort((a, b) => b.score - a.score || (b.document.date || '').localeCompare(a.document.date || ''))
+    .slice(0, limit);
+}
+
+export function buildQuickActionDocuments(accounts: Account[], now: Date = new Date()): SearchDocument[] {
+  const documents: SearchDocument[] = [
+    { id: 'action:add-expense', type: 'action', title: 'Add expense', text: ['spend', 'new', 'transaction'], action: { kind: 'add-transaction', transactionType: 'expense' }, showWhenEmpty: true },
+    { id: 'action:add-income', type: 'action', title: 'Add income', text: ['revenue', 'new', 'transaction'], action: { kind: 'add-transaction', transactionType: 'income' }, showWhenEmpty: true },
+    { id: 'action:add-transfer', type: 'action', title: 'Add transfer', text: ['move', 'new'], action: { kind: 'add-transaction', transactionType: 'transfer' }, showWhenEmpty: true },
+  ];
+
+  accounts.filter(account => account.isActive !== false).forEach(account => {
+    (['expense', 'income'] as const).forEach(transactionType => {
+      documents.push({
+        id: `action:add-${transactionType}:${account.id}`,
+        type: 'action',
+        title: `Add ${transactionType} to ${account.name}`,
+        text: [transactionType === 'expense' ? 'spend' : 'revenue', account.providerName || ''],
+        action: { kind: 'add-transaction', transactionType, accountId: account.id },
+      });
+    });
+  });
+
+  const periods = [
+    { key: 'this-month', label: "this month's", month: now },
+    { key: 'last-month', label: "last month's", month: subMonths(now, 1) },
+  ];
+  periods.forEach(period => {
+    const dateRange = { from: startOfMonth(period.month), to: endOfMonth(period.month) };
+    PERIOD_PAGES.forEach(page => {
+      documents.push({
+        id: `action:${period.key}:${page.href}`,
+        type: 'action',
+        title: `Go to ${period.label} ${page.label}`,
+        subtitle: formatDateFns(period.month, 'MMMM yyyy'),
+        text: [],
+        action: { kind: 'navigate', href: page.href, dateRange },
+        showWhenEmpty: period.key === 'last-month',
+      });
+    });
+  });
+
+  PAGES.forEach(page => {
+    documents.push({ id: `page:${page.href}`, type: 'page', title: page.label, text: ['go', ...page.keywords], action: { kind: 'navigate', href: page.href } });
+  });
+  return documents;
+}
+
+export function buildEntityDocuments(data: {
+  accounts: Account[];
+  categories: Category[];
+  tags: Tag[];
+  groups: Group[];
+  subscriptions: Subscription[];
+  loans: Loan[];
+}): SearchDocument[] {
+  const { accounts, categories, tags, groups, subscriptions, loans } = data;
+  const categoryNames = new Map(categories.map(category => [category.id, category.name]));
+  return [
+    ...accounts.map((account): SearchDocument => ({
+      id: `account:${account.id}`,
+      type: 'account',
+      title: account.name,
+      subtitle: [account.providerName, account.type, account.currency].filter(Boolean).join(' · '),
+      text: [],
+      action: { kind: 'navigate', href: `/accounts/${account.id}` },
+    })),
+    ...categories.map((category): SearchDocument => ({
+      id: `category:${category.id}`,
+      type: 'category',
+      title: getCategoryPath(category, categories),
+      text: [category.icon || ''],
+      action: { kind: 'navigate', href: `/categories/${category.id}` },
+    })),
+    ...tags.map((tag): SearchDocument => ({
+      id: `tag:${tag.id}`,
+      type: 'tag',
+      title: tag.name,
+      text: [],
+      action: { kind: 'navigate', href: `/tags/${tag.id}` },
+    })),
+    ...groups.map((group): SearchDocument => ({
+      id: `group:${group.id}`,
+      type: 'group',
+      title: group.name,
+      text: (group.categoryIds || []).map(id => categoryNames.get(id) || ''),
+      action: { kind: 'navigate', href: `/groups/${group.id}` },
+    })),
+    ...subscriptions.map((subscription): SearchDocument => ({
+      id: `subscription:${subscription.id}`,
+      type: 'subscription',
+      title: subscription.name,
+      subtitle: `${formatCurrency(subscription.amount, subscription.currency, subscription.currency, false)} ${subscription.frequency} · next ${subscription.nextPaymentDate}`,
+      text: [subscription.category, subscription.description || '', ...(subscription.tags || []), ...amountText(subscription.amount)],
+      action: { kind: 'navigate', href: '/financial-control' },
+    })),
+    ...loans.map((loan): SearchDocument => ({
+      id: `loan:${loan.id}`,
+      type: 'loan',
+      title: loan.name,
+      subtitle: `${loan.lender} · ${formatCurrency(loan.remainingBalance, loan.currency, loan.currency, false)} remaining`,
+      text: [...amountText(loan.monthlyPayment), ...amountText(loan.originalAmount)],
+      action: { kind: 'navigate', href: '/financial-control' },
+    })),
+  ];
+}
+
+export function buildTransactionDocuments(transactions: Transaction[], accounts: Account[]): SearchDocument[] {
+  const accountNames = new Map(accounts.map(account => [account.id, account.name]));
+  return transactions.map(tx => {
+    const accountName = accountNames.get(tx.accountId) || 'Unknown account';
+    return {
+      id: `transaction:${tx.accountId}:${tx.id}`,
+      type: 'transaction',
+      title: tx.description || tx.category,
+      subtitle: `${tx.date.slice(0, 10)} · ${formatCurrency(tx.amount, tx.transactionCurrency, tx.transactionCurrency, false)} · ${accountName} · ${tx.category}`,
+      text: [
+        ...amountText(tx.amount),
+        ...(tx.originalAmount != null ? amountText(tx.originalAmount) : []),
+        ...dateText(tx.date),
+        ...(tx.tags || []),
+        ...(tx.splits || []).flatMap(split => [split.category, split.memo || '', ...amountText(split.amount)]),
+      ],
+      action: { kind: 'navigate', href: `/accounts/${tx.accountId}` },
+      date: tx.date.slice(0, 10),
+    };
+  });
+}
@@ -0,0 +1,68 @@
+import Papa from 'papaparse';
+import { parseAmount } from './csv-parsing';
+
+/** A row of a price file, matched to a security by symbol when saved. */
+export interface ParsedSecurityPrice {
+  symbol: string; // Upper-cased
+  date: string; // YYYY-MM-DD
+  price: number;
+  currency: string | null; // Null when the file has no currency column
+}
+
+export interface SecurityPriceParseResult {
+  prices: ParsedSecurityPrice[];
+  errors: string[];
+}
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function normalizeDate(value: string | undefined): string | null {
+  const trimmed = value?.trim() || '';
+  if (ISO_DATE_PATTERN.test(trimmed)) return trimmed;
+  const parsed = new Date(trimmed);
+  if (!trimmed || isNaN(parsed.getTime())) return null;
+  return parsed.toISOString().split('T')[0];
+}
+
+/**
+ * Parses a local price file in CSV form: `symbol,date,price` with an optional `currency` column, one
+ * quote per row. Header names are case-insensitive; `ticker` and `close` are accepted as well.
+ */
+export function parseSecurityPricesCsv(csvText: string): SecurityPriceParseResult {
+  const parsed = Papa.parse<Record<string, string>>(csvText.trim(), { header: true, skipEmptyLines: true });
+  const errors: string[] = parsed.errors.map(err => `Row ${(err.row ?? 0) + 2}: ${err.message}`);
+  const prices: ParsedSecurityPrice[] = [];
+
+  const headers = (parsed.meta.fields || []).map(h => h.trim());
+  const findHeader = (...names: string[]) => headers.find(h => names.includes(h.toLowerCase()));
+  const symbolHeader = findHeader('symbol', 'ticker', 'code');
+  const dateHeader = findHeader('date', 'day');
+  const priceHeader = findHeader('price', 'close', 'value');
+  const currencyHeader = findHeader('currency');
+  if (!symbolHeader || !dateHeader || !priceHeader) {
+    return { prices, errors: [...errors, "Expected 'symbol', 'date' and 'price' columns."] };
+  }
+
+  parsed.data.forEach((row, index) => {
+    const rowNumber = index + 2; // account for header line
+    const symbol = row[symbolHeader]?.trim().toUpperCase();
+    const date = normalizeDate(row[dateHeader]);
+    const price = parseAmount(row[priceHeader]);
+    if (!symbol) {
+      errors.push(`Row ${rowNumber}: missing symbol.`);
+      return;
+    }
+    if (!date) {
+      errors.push(`Row ${rowNumber}: invalid date "${row[dateHeader]}".`);
+      return;
+    }
+    if (!(price > 0)) {
+      errors.push(`Row ${rowNumber}: expected a positive price, got "${row[priceHeader]}".`);
+      return;
+    }
+    const currency = currencyHeader ? row[currencyHeader]?.trim().toUpperCase() || null : null;
+    prices.push({ symbol, date, price, currency });
+  });
+
+  return { prices, errors };
+}
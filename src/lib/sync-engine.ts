@@ -0,0 +1,211 @@
+/**
+ * Offline-first write queue between a local cache and a remote tree database. Writes are queued as
+ * multi-path updates in a persisted outbox and replayed in order once the remote is reachable. The
+ * remote and the local store are injected, so the engine runs against Firebase in the app and against
+ * the Firebase emulator elsewhere.
+ */
+
+export type SyncState = 'synced' | 'syncing' | 'pending' | 'offline' | 'error';
+
+export interface SyncStatus {
+  state: SyncState;
+  pendingWrites: number;
+  conflicts: number; // Queued writes dropped because the remote record was newer
+  lastSyncedAt: number | null; // ms since epoch
+  lastError: string | null;
+}
+
+/** Multi-path update: keys are slash-separated paths, null removes the value at a path. */
+export type SyncUpdates = Record<string, unknown>;
+
+export interface SyncRemote {
+  read(path: string): Promise<unknown>;
+  write(updates: SyncUpdates): Promise<void>;
+}
+
+/** The subset of the Web Storage API the engine needs; `localStorage` satisfies it. */
+export interface SyncLocalStore {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+/** A record a queued write touches, with the `updatedAt` of the version the write produces. */
+export interface SyncRecordVersion {
+  path: string;
+  updatedAt: number;
+}
+
+export interface OutboxEntry {
+  id: string;
+  updates: SyncUpdates;
+  records: SyncRecordVersion[];
+  queuedAt: number;
+}
+
+export interface SyncEngineOptions {
+  remote: SyncRemote;
+  store: SyncLocalStore;
+  outboxKey: string;
+  isOnline?: () => boolean;
+  now?: () => number;
+  onConflict?: (entry: OutboxEntry) => void; // Called once a stale write has been dropped from the outbox
+}
+
+export type SyncEngine = ReturnType<typeof createSyncEngine>;
+
+/** Milliseconds for an `updatedAt` stored as a number or an ISO string; 0 when unknown (e.g. a pending server timestamp). */
+export function toSyncTimestamp(value: unknown): number {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string') {
+    const parsed = Date.parse(value);
+    return isNaN(parsed) ? 0 : parsed;
+  }
+  return 0;
+}
+
+/**
+ * Per-record last-write-wins merge of a local cache with the remote copy. Records with queued writes keep
+ * their local version (or stay deleted); otherwise the newer `updatedAt` wins, with ties going to the remote.
+ * Local records missing remotely and not queued were deleted elsewhere and are dropped.
+ */
+export function mergeRecordsByUpdatedAt<T extends { id: string; updatedAt?: unknown }>(
+  local: T[],
+  remote: T[],
+  pendingIds: Set<string>
+): T[] {
+  const localById = new Map(local.map(record => [record.id, record]));
+  const remoteById = new Map(remote.map(record => [record.id, record]));
+  const ids = new Set([...localById.keys(), ...remoteById.keys()]);
+  const merged: T[] = [];
+
+  ids.forEach(id => {
+    const localRecord = localById.get(id);
+    const remoteRecord = remoteById.get(id);
+    if (pendingIds.has(id)) {
+      if (localRecord) merged.push(localRecord);
+      return;
+    }
+    if (localRecord && remoteRecord) {
+      merged.push(toSyncTimestamp(localRecord.updatedAt) > toSyncTimestamp(remoteRecord.updatedAt) ? localRecord : remoteRecord);
+    } else if (remoteRecord) {
+      merged.push(remoteRecord);
+    }
+  });
+  return merged;
+}
+
+export function createSyncEngine(options: SyncEngineOptions) {
+  const { remote, store, outboxKey } = options;
+  const isOnline = options.isOnline ?? (() => true);
+  const now = options.now ?? (() => Date.now());
+  const listeners = new Set<(status: SyncStatus) => void>();
+  let flushing: Promise<SyncStatus> | null = null;
+  let status: SyncStatus = { state: 'synced', pendingWrites: 0, conflicts: 0, lastSyncedAt: null, lastError: null };
+
+  const readOutbox = (): OutboxEntry[] => {
+    try {
+      const data = store.getItem(outboxKey);
+      return data ? JSON.parse(data) : [];
+    } catch (error) {
+      console.error("Sync outbox is unreadable; discarding it.", error);
+      store.removeItem(outboxKey);
+      return [];
+    }
+  };
+
+  const writeOutbox = (entries: OutboxEntry[]) => {
+    if (entries.length === 0) store.removeItem(outboxKey);
+    else store.setItem(outboxKey, JSON.stringify(entries));
+  };
+
+  const setStatus = (changes: Partial<SyncStatus>) => {
+    status = { ...status, ...changes, pendingWrites: readOutbox().length };
+    listeners.forEach(listener => listener(status));
+  };
+
+  const idleState = (): SyncState => {
+    if (!isOnline()) return 'offline';
+    return readOutbox().length > 0 ? 'pending' : 'synced';
+  };
+
+  /** Queues a write. Values are stored as JSON, so undefined fields are dropped. */
+  const enqueue = (updates: SyncUpdates, records: SyncRecordVersion[]): OutboxEntry => {
+    const entry: OutboxEntry = {
+      id: `${now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      updates: JSON.parse(JSON.stringify(updates)),
+      records,
+      queuedAt: now(),
+    };
+    writeOutbox([...readOutbox(), entry]);
+    setStatus({ state: idleState() });
+    return entry;
+  };
+
+  /** Paths of records with queued writes; their local version must not be replaced by the remote one. */
+  const getPendingRecordPaths = (): Set<string> =>
+    new Set(readOutbox().flatMap(entry => entry.records.map(record => record.path)));
+
+  const replay = async (): Promise<SyncStatus> => {
+    if (!isOnline()) {
+      setStatus({ state: 'offline' });
+      return status;
+    }
+    setStatus({ state: 'syncing', lastError: null });
+    let conflicts = status.conflicts;
+
+    // Re-read the outbox each time so writes queued during the run are replayed too.
+    for (let entry = readOutbox()[0]; entry; entry = readOutbox()[0]) {
+      try {
+        let isStale = false;
+        for (const record of entry.records) {
+          const remoteRecord = await remote.read(record.path) as { updatedAt?: unknown } | null;
+          if (remoteRecord && toSyncTimestamp(remoteRecord.updatedAt) > record.updatedAt) {
+            isStale = true;
+            break;
+          }
+        }
+        if (!isStale) await remote.write(entry.updates);
+        const replayedId = entry.id;
+        writeOutbox(readOutbox().filter(queued => queued.id !== replayedId));
+        if (isStale) {
+          conflicts += 1;
+          options.onConflict?.(entry);
+        }
+      } catch (error: any) {
+        console.error("Sync: failed to replay a queued write; it stays in the outbox.", error);
+        setStatus({ state: 'error', conflicts, lastError: error?.message || 'Could not reach the database.' });
+        return status;
+      }
+    }
+
+    setStatus({ state: idleState(), conflicts, lastSyncedAt: now() });
+    return status;
+  };
+
+  /** Replays the outbox in order. Concurrent calls share one run. */
+  const flush = (): Promise<SyncStatus> => {
+    if (!flushing) {
+      flushing = replay().finally(() => { flushing = null; });
+    }
+    return flushing;
+  };
+
+  const subscribe = (listener: (status: SyncStatus) => void): (() => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+  };
+
+  status = { ...status, state: idleState(), pendingWrites: readOutbox().length };
+
+  return {
+    enqueue,
+    flush,
+    getPendingRecordPaths,
+    getStatus: (): SyncStatus => status,
+    /** Re-evaluates the state, e.g. after the browser goes on- or offline. */
+    refreshStatus: () => setStatus({ state: status.state === 'syncing' ? 'syncing' : idleState() }),
+    markSynced: () => setStatus({ lastSyncedAt: now() }),
+    subscribe,
+  };
+}
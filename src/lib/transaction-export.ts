@@ -0,0 +1,363 @@
+import { format as formatDateFns } from 'date-fns';
+import { convertCurrency } from '@/lib/currency';
+import { OPENING_BALANCE_CATEGORY } from '@/lib/balance-reconciliation';
+import { getOriginalAmount } from '@/lib/foreign-currency';
+import type { Account } from '@/services/account-sync';
+import type { Transaction, TransactionLine } from '@/services/transactions';
+import type { Transfer } from '@/services/transfers';
+
+export type ExportFormat = 'csv' | 'ofx' | 'firefly';
+
+export type DecimalSeparator = '.' | ',';
+
+export const CSV_EXPORT_COLUMNS = [
+  { id: 'date', label: 'Date' },
+  { id: 'description', label: 'Description' },
+  { id: 'amount', label: 'Amount' },
+  { id: 'currency', label: 'Currency' },
+  { id: 'account', label: 'Account' },
+  { id: 'category', label: 'Category' },
+  { id: 'tags', label: 'Tags' },
+  { id: 'type', label: 'Type' },
+  { id: 'memo', label: 'Split Memo' },
+  { id: 'originalAmount', label: 'Original Amount' },
+  { id: 'originalCurrency', label: 'Original Currency' },
+  { id: 'fxRate', label: 'Exchange Rate' },
+  { id: 'id', label: 'Transaction ID' },
+] as const;
+
+export type CsvExportColumn = typeof CSV_EXPORT_COLUMNS[number]['id'];
+
+export const DEFAULT_CSV_EXPORT_COLUMNS: CsvExportColumn[] = ['date', 'description', 'amount', 'currency', 'account', 'category', 'tags'];
+
+export interface CsvExportOptions {
+  columns: CsvExportColumn[]; // In output order
+  decimalSeparator: DecimalSeparator; // ',' also switches the field delimiter to ';', as spreadsheets in those locales expect
+}
+
+/** Data the exports resolve names and transfer counterparts from. */
+export interface TransactionExportContext {
+  accounts: Account[];
+  transfers?: Transfer[];
+  // Transfer legs outside the exported set (e.g. in other accounts), used to pair legs without a transfer record
+  counterparts?: Transaction[];
+  generatedAt?: Date;
+}
+
+/** Decimal separator of a locale's number format, e.g. ',' for 'pt-BR' and '.' for 'en-US'. */
+export function getLocaleDecimalSeparator(locale?: string): DecimalSeparator {
+  const decimal = new Intl.NumberFormat(locale).formatToParts(1.5).find(part => part.type === 'decimal')?.value;
+  return decimal === ',' ? ',' : '.';
+}
+
+/** Plain number without grouping: at least two decimals, up to eight for crypto amounts. */
+function formatDecimal(value: number, decimalSeparator: DecimalSeparator = '.'): string {
+  const trimmed = value.toFixed(8).replace(/0+$/, '').replace(/\.$/, '');
+  if (parseFloat(trimmed) === 0) return decimalSeparator === ',' ? '0,00' : '0.00';
+  const [whole, fraction = ''] = trimmed.split('.');
+  return `${whole}${decimalSeparator}${fraction.padEnd(2, '0')}`;
+}
+
+function escapeCsvField(value: string, delimiter: string): string {
+  const needsQuotes = value.includes(delimiter) || /["\r\n]/.test(value) || value !== value.trim();
+  return needsQuotes ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function toCsv(rows: string[][], delimiter: string): string {
+  return rows.map(row => row.map(field => escapeCsvField(field, delimiter)).join(delimiter)).join('\r\n') + '\r\n';
+}
+
+function getAccountName(accountsById: Map<string, Account>, accountId: string): string {
+  return accountsById.get(accountId)?.name || accountId;
+}
+
+function getTransactionType(line: TransactionLine): string {
+  if (line.category === 'Transfer') return 'Transfer';
+  return line.amount < 0 ? 'Expense' : 'Income';
+}
+
+/** Spreadsheet CSV with the chosen columns. A byte order mark lets spreadsheet apps detect UTF-8. */
+export function buildCsvExport(lines: TransactionLine[], context: TransactionExportContext, options: CsvExportOptions): string {
+  const accountsById = new Map(context.accounts.map(account => [account.id, account]));
+  const delimiter = options.decimalSeparator === ',' ? ';' : ',';
+  const columns = CSV_EXPORT_COLUMNS.filter(column => options.columns.includes(column.id))
+    .sort((a, b) => options.columns.indexOf(a.id) - options.columns.indexOf(b.id));
+
+  const valueOf = (line: TransactionLine, column: CsvExportColumn): string => {
+    switch (column) {
+      case 'date': return line.date.slice(0, 10);
+      case 'description': return line.description || '';
+      case 'amount': return formatDecimal(line.amount, options.decimalSeparator);
+      case 'currency': return line.transactionCurrency;
+      case 'account': return getAccountName(accountsById, line.accountId);
+      case 'category': return line.category || 'Uncategorized';
+      case 'tags': return (line.tags || []).join(', ');
+      case 'type': return getTransactionType(line);
+      case 'memo': return line.memo || '';
+      // The original amount belongs to the whole transaction, so split lines leave it out
+      case 'originalAmount': {
+        const original = line.splitIndex === null ? getOriginalAmount(line) : null;
+        return original ? formatDecimal(original.amount, options.decimalSeparator) : '';
+      }
+      case 'originalCurrency': return (line.splitIndex === null && getOriginalAmount(line)?.currency) || '';
+      case 'fxRate': {
+        const rate = line.splitIndex === null ? getOriginalAmount(line)?.rate : null;
+        return rate ? formatDecimal(rate, options.decimalSeparator) : '';
+      }
+      case 'id': return line.splitIndex === null ? line.id : `${line.id}-${line.splitIndex + 1}`;
+    }
+  };
+
+  const rows = [
+    columns.map(column => column.label),
+    ...lines.map(line => columns.map(column => valueOf(line, column.id))),
+  ];
+  return '\uFEFF' + toCsv(rows, delimiter);
+}
+
+// Columns read by the Firefly III mapping of the import page, in Firefly's export order
+const FIREFLY_COLUMNS = [
+  'type', 'amount', 'currency_code', 'foreign_amount', 'foreign_currency_code', 'description', 'date',
+  'source_name', 'source_type', 'destination_name', 'destination_type', 'category', 'tags', 'notes',
+] as const;
+
+type FireflyRow = Partial<Record<typeof FIREFLY_COLUMNS[number], string>>;
+
+const FIREFLY_ASSET_ACCOUNT = 'Asset account';
+
+/**
+ * Finds the other leg of a transfer that has no transfer record (e.g. transfers imported from Firefly):
+ * a 'Transfer' transaction on the same day with the same description, in another account and with the
+ * opposite sign.
+ */
+function findTransferCounterpart(leg: TransactionLine, candidates: Transaction[], usedIds: Set<string>): Transaction | undefined {
+  return candidates.find(candidate =>
+    candidate.id !== leg.id &&
+    !usedIds.has(candidate.id) &&
+    candidate.category === 'Transfer' &&
+    candidate.accountId !== leg.accountId &&
+    candidate.date.slice(0, 10) === leg.date.slice(0, 10) &&
+    (candidate.description || '') === (leg.description || '') &&
+    Math.sign(candidate.amount) === -Math.sign(leg.amount)
+  );
+}
+
+/**
+ * CSV in Firefly III's export layout, readable by the Firefly mapping of the import page. Expenses become
+ * withdrawals and income deposits, with the amount and currency as stored. Each transfer is written once,
+ * from its transfer record or its paired legs; a transfer leg whose counterpart cannot be found is written
+ * as a withdrawal or deposit in the 'Transfer' category. Opening balance transactions become Firefly
+ * opening balance rows. Split lines are written as separate rows with their memo in the notes.
+ */
+export function buildFireflyCsvExport(lines: TransactionLine[], context: TransactionExportContext): string {
+  const accountsById = new Map(context.accounts.map(account => [account.id, account]));
+  const transfersById = new Map((context.transfers || []).map(transfer => [transfer.id, transfer]));
+  const pairingCandidates = [...lines, ...(context.counterparts || [])];
+  const accountName = (accountId: string) => getAccountName(accountsById, accountId);
+  const writtenTransferIds = new Set<string>();
+  const pairedLegIds = new Set<string>();
+  const rows: FireflyRow[] = [];
+
+  lines.forEach(line => {
+    const base: FireflyRow = {
+      description: line.description || '',
+      date: line.date.slice(0, 10),
+      tags: (line.tags || []).join(','),
+      notes: line.memo || '',
+    };
+
+    if (line.category === OPENING_BALANCE_CATEGORY) {
+      rows.push({
+        ...base,
+        type: 'Opening balance',
+        amount: formatDecimal(line.amount),
+        currency_code: line.transactionCurrency,
+        source_name: `Initial balance for "${accountName(line.accountId)}"`,
+        source_type: 'Initial balance account',
+        destination_name: accountName(line.accountId),
+        destination_type: FIREFLY_ASSET_ACCOUNT,
+        tags: '',
+      });
+      return;
+    }
+
+    if (line.category === 'Transfer') {
+      const transfer = line.transferId ? transfersById.get(line.transferId) : undefined;
+      if (transfer) {
+        if (writtenTransferIds.has(transfer.id)) return;
+        writtenTransferIds.add(transfer.id);
+        const crossCurrency = transfer.fromCurrency !== transfer.toCurrency;
+        rows.push({
+          ...base,
+          type: 'Transfer',
+          amount: formatDecimal(Math.abs(transfer.fromAmount)),
+          currency_code: transfer.fromCurrency,
+          foreign_amount: crossCurrency ? formatDecimal(Math.abs(transfer.toAmount)) : '',
+          foreign_currency_code: crossCurrency ? transfer.toCurrency : '',
+          description: transfer.description || line.description || '',
+          source_name: accountName(transfer.fromAccountId),
+          source_type: FIREFLY_ASSET_ACCOUNT,
+          destination_name: accountName(transfer.toAccountId),
+          destination_type: FIREFLY_ASSET_ACCOUNT,
+          tags: (transfer.tags || []).join(','),
+        });
+        return;
+      }
+
+      if (pairedLegIds.has(line.id)) return;
+      const counterpart = findTransferCounterpart(line, pairingCandidates, pairedLegIds);
+      if (counterpart) {
+        pairedLegIds.add(line.id);
+        pairedLegIds.add(counterpart.id);
+        const [fromLeg, toLeg] = line.amount < 0 ? [line, counterpart] : [counterpart, line];
+        const crossCurrency = fromLeg.transactionCurrency !== toLeg.transactionCurrency;
+        rows.push({
+          ...base,
+          type: 'Transfer',
+          amount: formatDecimal(Math.abs(fromLeg.amount)),
+          currency_code: fromLeg.transactionCurrency,
+          foreign_amount: crossCurrency ? formatDecimal(Math.abs(toLeg.amount)) : '',
+          foreign_currency_code: crossCurrency ? toLeg.transactionCurrency : '',
+          source_name: accountName(fromLeg.accountId),
+          source_type: FIREFLY_ASSET_ACCOUNT,
+          destination_name: accountName(toLeg.accountId),
+          destination_type: FIREFLY_ASSET_ACCOUNT,
+        });
+        return;
+      }
+    }
+
+    const isWithdrawal = line.amount < 0;
+    const original = line.splitIndex === null ? getOriginalAmount(line) : null;
+    rows.push({
+      ...base,
+      type: isWithdrawal ? 'Withdrawal' : 'Deposit',
+      amount: formatDecimal(line.amount),
+      currency_code: line.transactionCurrency,
+      foreign_amount: original ? formatDecimal(original.amount) : '',
+      foreign_currency_code: original?.currency || '',
+      source_name: isWithdrawal ? accountName(line.accountId) : '',
+      source_type: isWithdrawal ? FIREFLY_ASSET_ACCOUNT : '',
+      destination_name: isWithdrawal ? '' : accountName(line.accountId),
+      destination_type: isWithdrawal ? '' : FIREFLY_ASSET_ACCOUNT,
+      category: line.category || 'Uncategorized',
+    });
+  });
+
+  return toCsv([
+    [...FIREFLY_COLUMNS],
+    ...rows.map(row => FIREFLY_COLUMNS.map(column => row[column] ?? '')),
+  ], ',');
+}
+
+function escapeOfxText(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function formatOfxDate(value: Date | string): string {
+  if (typeof value === 'string') return value.slice(0, 10).replace(/-/g, '');
+  return formatDateFns(value, 'yyyyMMddHHmmss');
+}
+
+function getOfxAccountType(account: Account | undefined): string {
+  return account?.type === 'savings' ? 'SAVINGS' : 'CHECKING';
+}
+
+// OFX names are limited to 32 characters
+const OFX_NAME_LENGTH = 32;
+
+/**
+ * The transaction's amount in its account's currency as it was added to the balance: the recorded
+ * original amount when that was paid in the account currency, otherwise the conversion at the
+ * current rates the balance update applied. Never looks up dated rates, so it cannot fail.
+ */
+function getAccountCurrencyAmount(transaction: Transaction, accountCurrency: string): number {
+  const original = getOriginalAmount(transaction);
+  if (original && original.currency === accountCurrency.toUpperCase()) return original.amount;
+  return parseFloat(convertCurrency(transaction.amount, transaction.transactionCurrency, accountCurrency).toFixed(2));
+}
+
+function buildOfxStatementEntry(transaction: Transaction, account: Account | undefined): string[] {
+  const accountCurrency = account?.currency || transaction.transactionCurrency;
+  const isForeign = transaction.transactionCurrency.toUpperCase() !== accountCurrency.toUpperCase();
+  // Amounts are in the account currency, so they add up to the balance; foreign transactions keep their currency and rate
+  const amount = isForeign ? getAccountCurrencyAmount(transaction, accountCurrency) : transaction.amount;
+  const type = transaction.category === 'Transfer' ? 'XFER' : transaction.amount < 0 ? 'DEBIT' : 'CREDIT';
+  const name = (transaction.description || transaction.category || 'Transaction').slice(0, OFX_NAME_LENGTH);
+
+  const entry = [
+    '<STMTTRN>',
+    `<TRNTYPE>${type}</TRNTYPE>`,
+    `<DTPOSTED>${formatOfxDate(transaction.date)}</DTPOSTED>`,
+    `<TRNAMT>${formatDecimal(amount)}</TRNAMT>`,
+    `<FITID>${escapeOfxText(transaction.originalImportData?.fitId || transaction.id)}</FITID>`,
+    `<NAME>${escapeOfxText(name)}</NAME>`,
+    `<MEMO>${escapeOfxText(transaction.category || '')}</MEMO>`,
+  ];
+  if (isForeign) {
+    const rate = transaction.amount ? Math.abs(amount / transaction.amount) : convertCurrency(1, transaction.transactionCurrency, accountCurrency);
+    entry.push('<ORIGCURRENCY>', `<CURRATE>${rate.toFixed(6)}</CURRATE>`, `<CURSYM>${transaction.transactionCurrency}</CURSYM>`, '</ORIGCURRENCY>');
+  }
+  entry.push('</STMTTRN>');
+  return entry;
+}
+
+/**
+ * OFX 2.2 statement file with one statement per account, readable by banking apps and by the OFX
+ * import of this app. Statements list whole stored transactions (a split transaction is one bank
+ * entry), oldest first, and end with the account's current balance. Accounts are identified by their
+ * OFX account number when they were imported from a statement, by their ID otherwise.
+ */
+export function buildOfxExport(transactions: Transaction[], context: TransactionExportContext): string {
+  const accountsById = new Map(context.accounts.map(account => [account.id, account]));
+  const generatedAt = context.generatedAt || new Date();
+  const byAccount = new Map<string, Transaction[]>();
+  transactions.forEach(transaction => {
+    byAccount.set(transaction.accountId, [...(byAccount.get(transaction.accountId) || []), transaction]);
+  });
+
+  const bankStatements: string[] = [];
+  const cardStatements: string[] = [];
+  Array.from(byAccount.entries()).forEach(([accountId, accountTransactions], index) => {
+    const account = accountsById.get(accountId);
+    const isCreditCard = account?.type === 'credit card';
+    const sorted = [...accountTransactions].sort((a, b) => a.date.localeCompare(b.date));
+    const accountNumber = escapeOfxText(account?.bankAccountId || accountId);
+
+    const statement = [
+      isCreditCard ? '<CCSTMTTRNRS>' : '<STMTTRNRS>',
+      `<TRNUID>${index + 1}</TRNUID>`,
+      '<STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS>',
+      isCreditCard ? '<CCSTMTRS>' : '<STMTRS>',
+      `<CURDEF>${account?.currency || sorted[0].transactionCurrency}</CURDEF>`,
+      isCreditCard
+        ? `<CCACCTFROM><ACCTID>${accountNumber}</ACCTID></CCACCTFROM>`
+        // BANKID is required by the spec; the app does not store routing numbers
+        : `<BANKACCTFROM><BANKID>000000000</BANKID><ACCTID>${accountNumber}</ACCTID><ACCTTYPE>${getOfxAccountType(account)}</ACCTTYPE></BANKACCTFROM>`,
+      '<BANKTRANLIST>',
+      `<DTSTART>${formatOfxDate(sorted[0].date)}</DTSTART>`,
+      `<DTEND>${formatOfxDate(sorted[sorted.length - 1].date)}</DTEND>`,
+      ...sorted.flatMap(transaction => buildOfxStatementEntry(transaction, account)),
+      '</BANKTRANLIST>',
+      ...(account ? [`<LEDGERBAL><BALAMT>${formatDecimal(account.balance)}</BALAMT><DTASOF>${formatOfxDate(generatedAt)}</DTASOF></LEDGERBAL>`] : []),
+      isCreditCard ? '</CCSTMTRS>' : '</STMTRS>',
+      isCreditCard ? '</CCSTMTTRNRS>' : '</STMTTRNRS>',
+    ];
+    (isCreditCard ? cardStatements : bankStatements).push(...statement);
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="no"?>',
+    '<?OFX OFXHEADER="200" VERSION="220" SECURITY="NONE" OLDFILEUID="NONE" NEWFILEUID="NONE"?>',
+    '<OFX>',
+    '<SIGNONMSGSRSV1><SONRS>',
+    '<STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS>',
+    `<DTSERVER>${formatOfxDate(generatedAt)}</DTSERVER>`,
+    '<LANGUAGE>ENG</LANGUAGE>',
+    '</SONRS></SIGNONMSGSRSV1>',
+    ...(bankStatements.length > 0 ? ['<BANKMSGSRSV1>', ...bankStatements, '</BANKMSGSRSV1>'] : []),
+    ...(cardStatements.length > 0 ? ['<CREDITCARDMSGSRSV1>', ...cardStatements, '</CREDITCARDMSGSRSV1>'] : []),
+    '</OFX>',
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,316 @@
+import * as z from 'zod';
+import { getCategoryNamesWithDescendants } from '@/lib/category-tree';
+import { normalizeSearchText } from '@/lib/search-index';
+import type { Account } from '@/services/account-sync';
+import type { Transaction } from '@/services/transactions';
+import type { Category } from '@/services/categories';
+import type { Tag } from '@/services/tags';
+import type { Group } from '@/services/groups';
+
+/**
+ * Filters for the transactions page. A filter is a list of groups, each a list of conditions; the
+ * conditions of a group are combined with its operator and the groups with the filter's. Accounts,
+ * categories, tags and groups are referenced by ID so saved views survive renames. Filters travel
+ * in the URL and are stored with saved views, so both go through `parseTransactionFilter`.
+ */
+
+export type FilterOperator = 'and' | 'or';
+
+export type AmountDirection = 'any' | 'expense' | 'income';
+export type TagMatch = 'any' | 'all';
+export type TransactionSource = 'imported' | 'manual';
+
+export type TransactionFilterCondition =
+  | { field: 'text'; negate: boolean; query: string }
+  | { field: 'amount'; negate: boolean; direction: AmountDirection; min: number | null; max: number | null } // Absolute amount in the transaction currency
+  | { field: 'accounts'; negate: boolean; accountIds: string[] }
+  | { field: 'categories'; negate: boolean; categoryIds: string[]; includeSubcategories: boolean }
+  | { field: 'tags'; negate: boolean; tagIds: string[]; match: TagMatch }
+  | { field: 'groups'; negate: boolean; groupIds: string[] }
+  | { field: 'currencies'; negate: boolean; currencies: string[] }
+  | { field: 'uncategorized'; negate: boolean }
+  | { field: 'source'; negate: boolean; source: TransactionSource };
+
+export type FilterField = TransactionFilterCondition['field'];
+
+export interface TransactionFilterGroup {
+  operator: FilterOperator;
+  conditions: TransactionFilterCondition[];
+}
+
+export interface TransactionFilter {
+  operator: FilterOperator;
+  groups: TransactionFilterGroup[];
+}
+
+/** Everything conditions are resolved against; IDs that no longer exist match nothing. */
+export interface TransactionFilterContext {
+  categories: Category[];
+  tags: Tag[];
+  groups: Group[];
+}
+
+export const FILTER_FIELD_LABELS: Record<FilterField, string> = {
+  text: 'Text',
+  amount: 'Amount',
+  accounts: 'Account',
+  categories: 'Category',
+  tags: 'Tag',
+  groups: 'Group',
+  currencies: 'Currency',
+  uncategorized: 'Has no category',
+  source: 'Source',
+};
+
+export const EMPTY_TRANSACTION_FILTER: TransactionFilter = { operator: 'and', groups: [] };
+
+export function createFilterCondition(field: FilterField): TransactionFilterCondition {
+  switch (field) {
+    case 'text': return { field, negate: false, query: '' };
+    case 'amount': return { field, negate: false, direction: 'any', min: null, max: null };
+    case 'accounts': return { field, negate: false, accountIds: [] };
+    case 'categories': return { field, negate: false, categoryIds: [], includeSubcategories: true };
+    case 'tags': return { field, negate: false, tagIds: [], match: 'any' };
+    case 'groups': return { field, negate: false, groupIds: [] };
+    case 'currencies': return { field, negate: false, currencies: [] };
+    case 'uncategorized': return { field, negate: false };
+    case 'source': return { field, negate: false, source: 'imported' };
+  }
+}
+
+export function createFilterGroup(field: FilterField = 'text'): TransactionFilterGroup {
+  return { operator: 'and', conditions: [createFilterCondition(field)] };
+}
+
+/** Whether a condition restricts anything yet; an account condition with no accounts picked does not. */
+export function isFilterConditionActive(condition: TransactionFilterCondition): boolean {
+  switch (condition.field) {
+    case 'text': return condition.query.trim().length > 0;
+    case 'amount': return condition.direction !== 'any' || condition.min !== null || condition.max !== null;
+    case 'accounts': return condition.accountIds.length > 0;
+    case 'categories': return condition.categoryIds.length > 0;
+    case 'tags': return condition.tagIds.length > 0;
+    case 'groups': return condition.groupIds.length > 0;
+    case 'currencies': return condition.currencies.length > 0;
+    case 'uncategorized':
+    case 'source': return true;
+  }
+}
+
+export function countActiveFilterConditions(filter: TransactionFilter): number {
+  return filter.groups.reduce((count, group) => count + group.conditions.filter(isFilterConditionActive).length, 0);
+}
+
+export function isTransactionFilterEmpty(filter: TransactionFilter): boolean {
+  return countActiveFilterConditions(filter) === 0;
+}
+
+/** Drops conditions that restrict nothing and groups left empty, so equal filters encode equally. */
+export function pruneTransactionFilter(filter: TransactionFilter): TransactionFilter {
+  return {
+    operator: filter.operator,
+    groups: filter.groups
+      .map(group => ({ ...group, conditions: group.conditions.filter(isFilterConditionActive) }))
+      .filter(group => group.conditions.length > 0),
+  };
+}
+
+const formatNameList = (names: string[], joiner: string) =>
+  names.length <= 2 ? names.join(` ${joiner} `) : `${names.slice(0, 2).join(', ')} ${joiner} ${names.length - 2} more`;
+
+/** Short label for a condition, e.g. "Account is Checking or Savings", shown in the active filter summary. */
+export function describeFilterCondition(
+  condition: TransactionFilterCondition,
+  context: TransactionFilterContext & { accounts: Account[] }
+): string {
+  const verb = condition.negate ? 'is not' : 'is';
+  const namesOf = <T extends { id: string; name: string }>(ids: string[], items: T[]) =>
+    ids.map(id => items.find(item => item.id === id)?.name ?? 'deleted');
+  switch (condition.field) {
+    case 'text':
+      return `${condition.negate ? 'Does not contain' : 'Contains'} "${condition.query.trim()}"`;
+    case 'amount': {
+      const kind = condition.direction === 'expense' ? 'Expense' : condition.direction === 'income' ? 'Income' : 'Amount';
+      const range = condition.min !== null && condition.max !== null ? `between ${condition.min} and ${condition.max}`
+        : condition.min !== null ? `at least ${condition.min}`
+        : condition.max !== null ? `at most ${condition.max}`
+        : 'of any amount';
+      return `${condition.negate ? 'Not ' : ''}${kind} ${range}`;
+    }
+    case 'accounts':
+      return `Account ${verb} ${formatNameList(namesOf(condition.accountIds, context.accounts), 'or')}`;
+    case 'categories':
+      return `Category ${verb} ${formatNameList(namesOf(condition.categoryIds, context.categories), 'or')}${condition.includeSubcategories ? ' (with subcategories)' : ''}`;
+    case 'tags':
+      return `Tags ${condition.negate ? 'do not include' : 'include'} ${formatNameList(namesOf(condition.tagIds, context.tags), condition.match === 'all' ? 'and' : 'or')}`;
+    case 'groups':
+      return `Group ${verb} ${formatNameList(namesOf(condition.groupIds, context.groups), 'or')}`;
+    case 'currencies':
+      return `Currency ${verb} ${formatNameList(condition.currencies, 'or')}`;
+    case 'uncategorized':
+      return condition.negate ? 'Has a category' : 'Has no category';
+    case 'source':
+      return `${condition.negate ? 'Not ' : ''}${condition.source === 'imported' ? 'Imported' : 'Entered manually'}`;
+  }
+}
+
+/** Transactions created by a file import carry the fingerprint, FITID or file hash it recorded. */
+export function isImportedTransaction(transaction: Transaction): boolean {
+  const importData = transaction.originalImportData;
+  return !!(importData?.fitId || importData?.importFingerprint || importData?.sourceFileHash);
+}
+
+const UNCATEGORIZED_NAMES = new Set(['', 'uncategorized']);
+
+// Split transactions are filed under every category of their lines
+function getTransactionCategoryNames(transaction: Transaction): string[] {
+  const names = transaction.splits?.length
+    ? transaction.splits.map(split => split.category)
+    : [transaction.category];
+  return names.map(name => (name || '').trim().toLowerCase());
+}
+
+type TransactionPredicate = (transaction: Transaction) => boolean;
+
+function compileCondition(condition: TransactionFilterCondition, context: TransactionFilterContext): TransactionPredicate {
+  switch (condition.field) {
+    case 'text': {
+      const terms = normalizeSearchText(condition.query).split(/\s+/).filter(Boolean);
+      return transaction => {
+        const haystack = normalizeSearchText([transaction.description, transaction.category, ...(transaction.tags || []), ...(transaction.splits || []).map(split => split.category)].join(' '));
+        return terms.every(term => haystack.includes(term));
+      };
+    }
+    case 'amount': {
+      const { direction, min, max } = condition;
+      return transaction => {
+        if (direction === 'expense' && transaction.amount >= 0) return false;
+        if (direction === 'income' && transaction.amount <= 0) return false;
+        const amount = Math.abs(transaction.amount);
+        return (min === null || amount >= min) && (max === null || amount <= max);
+      };
+    }
+    case 'accounts': {
+      const accountIds = new Set(condition.accountIds);
+      return transaction => accountIds.has(transaction.accountId);
+    }
+    case 'categories':
+    case 'groups': {
+      const categoryIds = condition.field === 'categories'
+        ? condition.categoryIds
+        : context.groups.filter(group => condition.groupIds.includes(group.id)).flatMap(group => group.categoryIds || []);
+      const includeSubcategories = condition.field === 'categories' ? condition.includeSubcategories : false;
+      const names = new Set<string>();
+      categoryIds.forEach(categoryId => {
+        if (includeSubcategories) {
+          getCategoryNamesWithDescendants(categoryId, context.categories).forEach(name => names.add(name));
+        } else {
+          const category = context.categories.find(c => c.id === categoryId);
+          if (category) names.add(category.name.toLowerCase());
+        }
+      });
+      return transaction => getTransactionCategoryNames(transaction).some(name => names.has(name));
+    }
+    case 'tags': {
+      const tagNames = context.tags.filter(tag => condition.tagIds.includes(tag.id)).map(tag => tag.name.toLowerCase());
+      // A tag that was deleted can never be present, so "all" cannot match either
+      if (condition.match === 'all' && tagNames.length < condition.tagIds.length) return () => false;
+      return transaction => {
+        const transactionTags = new Set((transaction.tags || []).map(tag => tag.toLowerCase()));
+        return condition.match === 'all'
+          ? tagNames.every(name => transactionTags.has(name))
+          : tagNames.some(name => transactionTags.has(name));
+      };
+    }
+    case 'currencies': {
+      const currencies = new Set(condition.currencies.map(currency => currency.toUpperCase()));
+      return transaction => currencies.has((transaction.transactionCurrency || '').toUpperCase());
+    }
+    case 'uncategorized':
+      return transaction => getTransactionCategoryNames(transaction).some(name => UNCATEGORIZED_NAMES.has(name));
+    case 'source':
+      return transaction => isImportedTransaction(transaction) === (condition.source === 'imported');
+  }
+}
+
+function combine(predicates: TransactionPredicate[], operator: FilterOperator): TransactionPredicate {
+  if (predicates.length === 0) return () => true;
+  return operator === 'and'
+    ? transaction => predicates.every(predicate => predicate(transaction))
+    : transaction => predicates.some(predicate => predicate(transaction));
+}
+
+/**
+ * Turns a filter into a predicate, resolving IDs to the names transactions store once instead of
+ * per transaction. Conditions that restrict nothing are ignored, so an empty filter matches all.
+ */
+export function compileTransactionFilter(filter: TransactionFilter, context: TransactionFilterContext): TransactionPredicate {
+  const groups = pruneTransactionFilter(filter).groups.map(group => combine(
+    group.conditions.map(condition => {
+      const predicate = compileCondition(condition, context);
+      return condition.negate ? (transaction: Transaction) => !predicate(transaction) : predicate;
+    }),
+    group.operator
+  ));
+  return combine(groups, filter.operator);
+}
+
+// The database drops empty arrays and a URL can hold anything, so missing lists default to empty
+const idList = z.array(z.string()).default([]);
+const nullableAmount = z.number().finite().nonnegative().nullable().default(null);
+const negate = z.boolean().default(false);
+
+const conditionSchema = z.discriminatedUnion('field', [
+  z.object({ field: z.literal('text'), negate, query: z.string().default('') }),
+  z.object({ field: z.literal('amount'), negate, direction: z.enum(['any', 'expense', 'income']).default('any'), min: nullableAmount, max: nullableAmount }),
+  z.object({ field: z.literal('accounts'), negate, accountIds: idList }),
+  z.object({ field: z.literal('categories'), negate, categoryIds: idList, includeSubcategories: z.boolean().default(true) }),
+  z.object({ field: z.literal('tags'), negate, tagIds: idList, match: z.enum(['any', 'all']).default('any') }),
+  z.object({ field: z.literal('groups'), negate, groupIds: idList }),
+  z.object({ field: z.literal('currencies'), negate, currencies: idList }),
+  z.object({ field: z.literal('uncategorized'), negate }),
+  z.object({ field: z.literal('source'), negate, source: z.enum(['imported', 'manual']).default('imported') }),
+]);
+
+const operatorSchema = z.enum(['and', 'or']).default('and');
+
+const filterSchema = z.object({
+  operator: operatorSchema,
+  groups: z.array(z.object({ operator: operatorSchema, conditions: z.array(conditionSchema).default([]) })).default([]),
+});
+
+/** Validates a filter read from the URL or the database. Returns null when it is not one. */
+export function parseTransactionFilter(value: unknown): TransactionFilter | null {
+  const result = filterSchema.safeParse(value);
+  return result.success ? result.data : null;
+}
+
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): string {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+}
+
+/** Encodes a filter for the `filter` query parameter of /transactions. */
+export function encodeTransactionFilter(filter: TransactionFilter): string {
+  return toBase64Url(JSON.stringify(pruneTransactionFilter(filter)));
+}
+
+export function decodeTransactionFilter(value: string | null | undefined): TransactionFilter | null {
+  if (!value) return null;
+  try {
+    return parseTransactionFilter(JSON.parse(fromBase64Url(value)));
+  } catch {
+    return null;
+  }
+}
+
+export function areTransactionFiltersEqual(a: TransactionFilter, b: TransactionFilter): boolean {
+  return JSON.stringify(pruneTransactionFilter(a)) === JSON.stringify(pruneTransactionFilter(b));
+}
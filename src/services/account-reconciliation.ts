@@ -0,0 +1,128 @@
+'use client';
+
+import { database, auth } from '@/lib/firebase';
+import { ref, push, update } from 'firebase/database';
+import { format as formatDateFns } from 'date-fns';
+import { getAccounts as getAllAccounts, type Account } from './account-sync';
+import { getTransactions, applyTransactionChangesToLocalCache, type Transaction } from './transactions';
+import { requireSyncedWrites } from './sync';
+import { computeBalanceLedger, type BalanceLedger } from '@/lib/balance-reconciliation';
+
+export const BALANCE_ADJUSTMENT_CATEGORY = 'Balance Adjustment';
+
+export interface AccountReconciliation extends BalanceLedger {
+  account: Account;
+}
+
+function requireUserAndDatabase(action: string) {
+  const currentUser = auth?.currentUser;
+  if (!currentUser || !database) {
+    throw new Error(`User not authenticated. Cannot ${action}.`);
+  }
+  return { currentUser, db: database };
+}
+
+/** Compares the stored balance of an account with the balance recomputed from its transactions. */
+export async function getAccountReconciliation(accountId: string): Promise<AccountReconciliation> {
+  // Until queued offline writes reach the database the stored balance lags behind the cached transactions
+  await requireSyncedWrites();
+  const [accounts, transactions] = await Promise.all([getAllAccounts(), getTransactions(accountId)]);
+  const account = accounts.find(acc => acc.id === accountId);
+  if (!account) throw new Error("Account not found.");
+  return { account, ...computeBalanceLedger(account, transactions) };
+}
+
+/** Overwrites the stored balance with the one recomputed from the opening balance and transactions. */
+export async function applyComputedBalance(accountId: string): Promise<AccountReconciliation> {
+  const { currentUser, db } = requireUserAndDatabase("update the account balance");
+  const reconciliation = await getAccountReconciliation(accountId);
+  const accountPath = `users/${currentUser.uid}/accounts/${accountId}`;
+
+  try {
+    await update(ref(db), {
+      [`${accountPath}/balance`]: reconciliation.computedBalance,
+      [`${accountPath}/openingBalance`]: reconciliation.openingBalance,
+      [`${accountPath}/balanceDifference`]: 0,
+    });
+    return getAccountReconciliation(accountId);
+  } catch (error) {
+    console.error("Error applying the computed balance in Firebase:", error);
+    throw error;
+  }
+}
+
+/**
+ * Keeps the stored balance and records the opening balance that explains it, for accounts whose
+ * opening balance was never recorded.
+ */
+export async function adoptStoredBalance(accountId: string): Promise<AccountReconciliation> {
+  const { currentUser, db } = requireUserAndDatabase("update the opening balance");
+  const reconciliation = await getAccountReconciliation(accountId);
+  const openingBalance = parseFloat((reconciliation.storedBalance - reconciliation.transactionsTotal).toFixed(2));
+
+  try {
+    await update(ref(db), {
+      [`users/${currentUser.uid}/accounts/${accountId}/openingBalance`]: openingBalance,
+      [`users/${currentUser.uid}/accounts/${accountId}/balanceDifference`]: 0,
+    });
+    return getAccountReconciliation(accountId);
+  } catch (error) {
+    console.error("Error updating the opening balance in Firebase:", error);
+    throw error;
+  }
+}
+
+/**
+ * Brings the account in line with a bank statement: posts an adjustment transaction for the difference
+ * between the statement balance and the computed balance, and sets the stored balance to the statement
+ * balance, in one atomic update. Returns null when no adjustment is needed.
+ */
+export async function reconcileWithStatementBalance(
+  accountId: string,
+  statementBalance: number,
+  date: string = formatDateFns(new Date(), 'yyyy-MM-dd')
+): Promise<Transaction | null> {
+  const { currentUser, db } = requireUserAndDatabase("reconcile the account");
+  const reconciliation = await getAccountReconciliation(accountId);
+  const adjustmentAmount = parseFloat((statementBalance - reconciliation.computedBalance).toFixed(2));
+  const accountPath = `users/${currentUser.uid}/accounts/${accountId}`;
+
+  const updates: Record<string, any> = {
+    [`${accountPath}/balance`]: statementBalance,
+    [`${accountPath}/openingBalance`]: reconciliation.openingBalance,
+    [`${accountPath}/balanceDifference`]: 0,
+    [`${accountPath}/lastActivity`]: new Date().toISOString(),
+  };
+
+  let adjustment: Transaction | null = null;
+  if (adjustmentAmount !== 0) {
+    const transactionsPath = `users/${currentUser.uid}/transactions/${accountId}`;
+    const newTransactionRef = push(ref(db, transactionsPath));
+    if (!newTransactionRef.key) throw new Error("Failed to generate a new transaction ID.");
+    const nowIso = new Date().toISOString();
+    adjustment = {
+      id: newTransactionRef.key,
+      accountId,
+      date,
+      amount: adjustmentAmount,
+      transactionCurrency: reconciliation.currency,
+      description: `Balance adjustment to statement balance`,
+      category: BALANCE_ADJUSTMENT_CATEGORY,
+      tags: [],
+      createdAt: nowIso,
+      updatedAt: nowIso,
+    };
+    const dataToSave = { ...adjustment, originalImportData: { foreignAmount: null, foreignCurrency: null } } as any;
+    delete dataToSave.id;
+    updates[`${transactionsPath}/${adjustment.id}`] = dataToSave;
+  }
+
+  try {
+    await update(ref(db), updates);
+    if (adjustment) await applyTransactionChangesToLocalCache([adjustment]);
+    return adjustment;
+  } catch (error) {
+    console.error("Error reconciling account in Firebase:", error);
+    throw error;
+  }
+}
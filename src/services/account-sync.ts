@@ -1,5 +1,5 @@
 import { database, auth } from '@/lib/firebase';
-import { ref, set, get, child, push, remove, update } from 'firebase/database';
+import { ref, set, get, child, push, update, increment } from 'firebase/database';
 import type { User } from 'firebase/auth';
 
 /**
@@ -10,6 +10,7 @@ export interface Account {
   name: string;
   type: string; // 'checking', 'savings', 'credit card', 'investment', 'other', 'exchange', 'wallet', 'staking'
   balance: number;
+  openingBalance?: number | null; // Balance before the first transaction; the start point for reconciliation
   currency: string;
   providerName?: string;
   isActive?: boolean;
@@ -17,6 +18,7 @@ export interface Account {
   balanceDifference?: number;
   category: 'asset' | 'crypto';
   includeInNetWorth?: boolean; // New field
+  bankAccountId?: string | null; // Account number from imported OFX statements (ACCTID), used to match later imports
 }
 
 export type NewAccountData = Omit<Account, 'id'>;
@@ -42,6 +44,53 @@ function getDefaultAccountValues(category: 'asset' | 'crypto'): Partial<Account>
     };
 }
 
+function getAccountsCacheKey(currentUser: User) {
+  return `userAccounts-${currentUser.uid}`;
+}
+
+/** Accounts from the last successful read, used while the database is unreachable. */
+export function getCachedAccounts(): Account[] {
+  const currentUser = auth?.currentUser;
+  if (!currentUser || typeof window === 'undefined') return [];
+  try {
+    const data = localStorage.getItem(getAccountsCacheKey(currentUser));
+    return data ? JSON.parse(data) : [];
+  } catch (error) {
+    console.error("Error parsing cached accounts from localStorage:", error);
+    return [];
+  }
+}
+
+function cacheAccounts(accounts: Account[]) {
+  const currentUser = auth?.currentUser;
+  if (!currentUser || typeof window === 'undefined') return;
+  localStorage.setItem(getAccountsCacheKey(currentUser), JSON.stringify(accounts));
+}
+
+/** Applies a balance change queued for sync to the cached copy, so it shows before the write reaches the database. */
+export function adjustCachedAccountBalance(accountId: string, delta: number) {
+  const accounts = getCachedAccounts();
+  const account = accounts.find(acc => acc.id === accountId);
+  if (!account) return;
+  account.balance = parseFloat((account.balance + delta).toFixed(2));
+  account.lastActivity = new Date().toISOString();
+  cacheAccounts(accounts);
+}
+
+/**
+ * Adds account balance changes to a multi-path update as server-side increments, so balances move in the
+ * same atomic write as the transactions behind them and concurrent writers never overwrite each other.
+ */
+export function addAccountBalanceIncrements(updates: Record<string, unknown>, uid: string, deltas: Map<string, number>) {
+  const nowIso = new Date().toISOString();
+  deltas.forEach((delta, accountId) => {
+    const roundedDelta = parseFloat(delta.toFixed(2));
+    if (roundedDelta === 0) return;
+    updates[`users/${uid}/accounts/${accountId}/balance`] = increment(roundedDelta);
+    updates[`users/${uid}/accounts/${accountId}/lastActivity`] = nowIso;
+  });
+}
+
 export async function getAccounts(): Promise<Account[]> {
   const currentUser = auth.currentUser;
   // Ensure currentUser is available before proceeding
@@ -57,15 +106,22 @@ export async function getAccounts(): Promise<Account[]> {
     if (snapshot.exists()) {
       const accountsData = snapshot.val();
       // Firebase returns an object; convert it to an array
-      return Object.entries(accountsData).map(([id, data]) => ({
+      const accounts: Account[] = Object.entries(accountsData).map(([id, data]) => ({
         id,
         ...getDefaultAccountValues((data as Account).category || 'asset'), // Ensure defaults
         ...(data as Omit<Account, 'id'>),
         includeInNetWorth: (data as Account).includeInNetWorth === undefined ? true : (data as Account).includeInNetWorth, // Ensure default if field is missing
       }));
+      cacheAccounts(accounts);
+      return accounts;
     }
+    cacheAccounts([]);
     return []; // No accounts found
   } catch (error: any) {
+    if (typeof navigator !== 'undefined' && !navigator.onLine) {
+      console.warn("getAccounts: database unreachable while offline, using cached accounts.", error);
+      return getCachedAccounts();
+    }
     if (error.message && (error.message.toLowerCase().includes("permission_denied") || error.message.toLowerCase().includes("permission denied"))) {
         console.error(`Firebase Permission Denied: Could not fetch accounts from ${accountsRefPath}. Please check your Firebase Realtime Database security rules to ensure authenticated users have read access to their data under 'users/\${uid}/accounts'. Example rule: { "rules": { "users": { "$uid": { ".read": "$uid === auth.uid", ".write": "$uid === auth.uid" } } } }`);
         throw new Error(`Permission Denied: Cannot read accounts. Please verify Firebase security rules.`);
@@ -90,6 +146,7 @@ export async function addAccount(accountData: NewAccountData): Promise<Account>
 
   const newAccountWithDefaults: Omit<Account, 'id'> = {
       ...getDefaultAccountValues(accountData.category),
+      openingBalance: accountData.balance,
       ...accountData,
       includeInNetWorth: accountData.includeInNetWorth === undefined ? true : accountData.includeInNetWorth,
   };
@@ -108,7 +165,11 @@ export async function addAccount(accountData: NewAccountData): Promise<Account>
   }
 }
 
-export async function updateAccount(updatedAccountData: Account): Promise<Account> {
+/**
+ * Saves account details. The stored balance is kept unless `options.setBalance` is true, e.g. when
+ * the user edits the balance by hand.
+ */
+export async function updateAccount(updatedAccountData: Account, options: { setBalance?: boolean } = {}): Promise<Account> {
   const currentUser = auth.currentUser;
   if (!currentUser) {
     throw new Error("User not authenticated. Cannot update account.");
@@ -133,6 +194,8 @@ export async function updateAccount(updatedAccountData: Account): Promise<Accoun
           includeInNetWorth: updatedAccountData.includeInNetWorth === undefined ? (existingData.includeInNetWorth === undefined ? true : existingData.includeInNetWorth) : updatedAccountData.includeInNetWorth,
       };
       delete (dataToSet as any).id; // Remove id from the object to be saved
+      // Balances move through atomic increments; writing one back from a stale copy would lose them
+      if (!options.setBalance) dataToSet.balance = existingData.balance;
   } else {
       // If for some reason it doesn't exist, treat as adding it with this ID
       dataToSet = {
@@ -145,8 +208,10 @@ export async function updateAccount(updatedAccountData: Account): Promise<Accoun
 
 
   try {
-    await set(accountRef, dataToSet); // Using set to overwrite with new data
-    return { ...updatedAccountData, includeInNetWorth: dataToSet.includeInNetWorth }; // Return the full account object passed in, ensuring includeInNetWorth is resolved
+    const { balance, ...detailsToSet } = dataToSet;
+    // Merge rather than overwrite, and only touch the balance when asked to
+    await update(accountRef, options.setBalance || !snapshot.exists() ? dataToSet : detailsToSet);
+    return { ...updatedAccountData, balance, includeInNetWorth: dataToSet.includeInNetWorth }; // Return the full account object passed in, ensuring includeInNetWorth is resolved
   } catch (error) {
     console.error("Error updating account in Firebase:", error);
     throw error;
@@ -159,14 +224,11 @@ export async function deleteAccount(accountId: string): Promise<void> {
     throw new Error("User not authenticated. Cannot delete account.");
   }
   const accountRefPath = getSingleAccountRefPath(currentUser, accountId);
-  const accountRef = ref(database, accountRefPath);
+  const transactionsBasePath = `users/${currentUser.uid}/transactions/${accountId}`;
 
   try {
-    await remove(accountRef);
-    // Also delete associated transactions for this account
-    const transactionsBasePath = `users/${currentUser?.uid}/transactions/${accountId}`;
-    const transactionsForAccountRef = ref(database, transactionsBasePath);
-    await remove(transactionsForAccountRef);
+    // Remove the account and its transactions in one atomic update
+    await update(ref(database), { [accountRefPath]: null, [transactionsBasePath]: null });
     console.log(`Also deleted transactions for account ${accountId} at ${transactionsBasePath}`);
   } catch (error) {
     console.error("Error deleting account from Firebase:", error);
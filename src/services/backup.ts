@@ -0,0 +1,128 @@
+'use client';
+
+import { database, auth } from '@/lib/firebase';
+import { ref, get, push, update } from 'firebase/database';
+import {
+  BACKUP_COLLECTIONS,
+  createBackupArchive,
+  remapBackupIds,
+  summarizeBackup,
+  type BackupArchive,
+  type BackupData,
+  type BackupSummary,
+  type ExistingIdMatches,
+  type RestoreMode,
+} from '@/lib/backup';
+import { requireSyncedWrites } from './sync';
+import { hydrateTransactionsFromDatabase } from './transactions';
+import { getAccounts } from './account-sync';
+import { getCategories } from './categories';
+import { getTags } from './tags';
+
+export type { BackupArchive, BackupSummary, RestoreMode } from '@/lib/backup';
+export { parseBackupArchive, summarizeBackup } from '@/lib/backup';
+
+function requireUserAndDatabase(action: string) {
+  const currentUser = auth?.currentUser;
+  if (!currentUser || !database) {
+    throw new Error(`User not authenticated. Cannot ${action}.`);
+  }
+  return { currentUser, db: database };
+}
+
+/** Reads every backed-up collection of the signed-in user into a versioned archive. */
+export async function exportBackup(): Promise<BackupArchive> {
+  const { currentUser, db } = requireUserAndDatabase("export a backup");
+  await requireSyncedWrites();
+
+  try {
+    const snapshots = await Promise.all(
+      BACKUP_COLLECTIONS.map(collection => get(ref(db, `users/${currentUser.uid}/${collection}`)))
+    );
+    const data: Record<string, unknown> = {};
+    BACKUP_COLLECTIONS.forEach((collection, index) => {
+      if (snapshots[index].exists()) data[collection] = snapshots[index].val();
+    });
+    return createBackupArchive(data as BackupData);
+  } catch (error) {
+    console.error("Error exporting backup from Firebase:", error);
+    throw error;
+  }
+}
+
+/** Backup category and tag IDs whose names match existing records, so a merge does not duplicate them. */
+function matchByName(backupRecords: Record<string, { name: string }> | undefined, existingRecords: Record<string, { name: string }> | null): Record<string, string> {
+  const existingIdsByName = new Map(
+    Object.entries(existingRecords || {}).map(([id, record]) => [record.name.trim().toLowerCase(), id])
+  );
+  const matches: Record<string, string> = {};
+  Object.entries(backupRecords || {}).forEach(([id, record]) => {
+    const existingId = existingIdsByName.get(record.name.trim().toLowerCase());
+    if (existingId) matches[id] = existingId;
+  });
+  return matches;
+}
+
+/**
+ * Restores a backup into the signed-in user's data. Every record gets a new ID (references between
+ * records are rewritten to match). `replace` swaps all backed-up collections for the archive's in one
+ * atomic update; `merge` adds the archive's records next to the existing ones, reusing categories and
+ * tags with the same name and keeping the current preferences.
+ */
+export async function restoreBackup(archive: BackupArchive, mode: RestoreMode): Promise<BackupSummary> {
+  const { currentUser, db } = requireUserAndDatabase("restore a backup");
+  await requireSyncedWrites();
+  const basePath = `users/${currentUser.uid}`;
+  const newId = () => {
+    const key = push(ref(db, basePath)).key;
+    if (!key) throw new Error("Failed to generate a new record ID.");
+    return key;
+  };
+
+  try {
+    const updates: Record<string, unknown> = {};
+    let restored: BackupData;
+
+    if (mode === 'replace') {
+      restored = remapBackupIds(archive.data, newId);
+      BACKUP_COLLECTIONS.forEach(collection => {
+        updates[`${basePath}/${collection}`] = restored[collection] ?? null;
+      });
+    } else {
+      const [existingCategories, existingTags] = await Promise.all([
+        get(ref(db, `${basePath}/categories`)),
+        get(ref(db, `${basePath}/tags`)),
+      ]);
+      const matches: ExistingIdMatches = {
+        categories: matchByName(archive.data.categories, existingCategories.val()),
+        tags: matchByName(archive.data.tags, existingTags.val()),
+      };
+      restored = remapBackupIds(archive.data, newId, matches);
+      BACKUP_COLLECTIONS.forEach(collection => {
+        if (collection === 'preferences' || collection === 'categorizationRuleSettings' || collection === 'investmentSettings') return;
+        Object.entries((restored[collection] || {}) as Record<string, unknown>).forEach(([id, record]) => {
+          if (collection === 'transactions') {
+            Object.entries(record as Record<string, unknown>).forEach(([transactionId, transaction]) => {
+              updates[`${basePath}/transactions/${id}/${transactionId}`] = transaction;
+            });
+          } else {
+            updates[`${basePath}/${collection}/${id}`] = record;
+          }
+        });
+      });
+    }
+
+    // Archives from before records held category and tag IDs are linked again on the next sign-in
+    updates[`${basePath}/migrations/referenceIds`] = null;
+    await update(ref(db), updates);
+
+    // Rebuild the local caches from the restored data
+    await getAccounts();
+    await Promise.all([getCategories(), getTags()]);
+    await hydrateTransactionsFromDatabase(new Set());
+    return summarizeBackup(restored);
+  } catch (error) {
+    console.error("Error restoring backup to Firebase:", error);
+    throw error;
+  }
+}
@@ -4,7 +4,13 @@
 import { database, auth } from '@/lib/firebase';
 import { ref, set, get, push, remove, update, serverTimestamp } from 'firebase/database';
 import type { User } from 'firebase/auth';
-import { supportedCurrencies } from '@/lib/currency'; // Assuming this exists
+import { supportedCurrencies, createHistoricalConverter, type MissingExchangeRate } from '@/lib/currency'; // Assuming this exists
+import { evaluateBudget, type BudgetEvaluation } from '@/lib/budget-evaluation';
+import { getAccounts } from './account-sync';
+import { getTransactions, expandSplitTransactions } from './transactions';
+import { getCategories } from './categories';
+import { getGroups } from './groups';
+import { loadHistoricalExchangeRates } from './exchange-rates';
 
 export type BudgetPeriod = 'monthly' | 'quarterly' | 'annually' | 'custom';
 
@@ -18,6 +24,8 @@ export interface Budget {
   endDate?: string | null; // ISO YYYY-MM-DD, only for 'custom' period
   appliesTo: 'categories' | 'groups'; // What the budget tracks
   selectedIds: string[]; // Array of Category IDs or Group IDs
+  rollover?: boolean; // Carry each period's remaining (or overspent) amount into the next period
+  alertThresholds?: number[] | null; // Percentages of the period's available amount that raise an alert, e.g. [80, 100]
   notes?: string | null;
   createdAt?: object | string;
   updatedAt?: object | string;
@@ -55,6 +63,8 @@ export async function getBudgets(): Promise<Budget[]> {
           ...budget,
           selectedIds: budget.selectedIds || [],
           endDate: budget.endDate === undefined ? null : budget.endDate,
+          rollover: budget.rollover ?? false,
+          alertThresholds: budget.alertThresholds || null,
           notes: budget.notes === undefined ? null : budget.notes,
         };
       });
@@ -84,6 +94,8 @@ export async function addBudget(budgetData: NewBudgetData): Promise<Budget> {
     id: newBudgetRef.key,
     selectedIds: budgetData.selectedIds || [],
     endDate: budgetData.endDate === undefined ? null : budgetData.endDate,
+    rollover: budgetData.rollover ?? false,
+    alertThresholds: budgetData.alertThresholds && budgetData.alertThresholds.length > 0 ? budgetData.alertThresholds : null,
     notes: budgetData.notes === undefined ? null : budgetData.notes,
     createdAt: serverTimestamp(),
     updatedAt: serverTimestamp(),
@@ -119,6 +131,8 @@ export async function updateBudget(updatedBudget: Budget): Promise<Budget> {
     endDate: updatedBudget.endDate === undefined ? null : updatedBudget.endDate,
     appliesTo: updatedBudget.appliesTo,
     selectedIds: updatedBudget.selectedIds || [],
+    rollover: updatedBudget.rollover ?? false,
+    alertThresholds: updatedBudget.alertThresholds && updatedBudget.alertThresholds.length > 0 ? updatedBudget.alertThresholds : null,
     notes: updatedBudget.notes === undefined ? null : updatedBudget.notes,
     updatedAt: serverTimestamp(),
   };
@@ -152,3 +166,27 @@ export async function deleteBudget(budgetId: string): Promise<void> {
     throw error;
   }
 }
+
+/**
+ * Evaluates every budget against the user's expense transactions, converting each expense into the
+ * budget's currency at the rate effective on its date. Conversions that fell back to the static
+ * rates are returned so pages can flag them.
+ */
+export async function getBudgetEvaluations(budgets: Budget[], asOf: Date = new Date()): Promise<{ evaluations: Record<string, BudgetEvaluation>; missingExchangeRates: MissingExchangeRate[] }> {
+  if (budgets.length === 0) return { evaluations: {}, missingExchangeRates: [] };
+  try {
+    const [accounts, categories, groups] = await Promise.all([getAccounts(), getCategories(), getGroups(), loadHistoricalExchangeRates()]);
+    // Split transactions count toward budgets line by line.
+    const transactions = expandSplitTransactions((await Promise.all(accounts.map(acc => getTransactions(acc.id)))).flat());
+    const converter = createHistoricalConverter();
+
+    const evaluations: Record<string, BudgetEvaluation> = {};
+    budgets.forEach(budget => {
+      evaluations[budget.id] = evaluateBudget(budget, transactions, categories, groups, { asOf, convert: converter.convert });
+    });
+    return { evaluations, missingExchangeRates: converter.getMissingRates() };
+  } catch (error) {
+    console.error("Error evaluating budgets:", error);
+    throw error;
+  }
+}
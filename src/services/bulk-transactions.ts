@@ -0,0 +1,145 @@
+'use client';
+
+import { addTransaction, updateTransaction, deleteTransaction, type Transaction, type NewTransactionData } from './transactions';
+import { addTransfer, deleteTransfer } from './transfers';
+import type { Account } from './account-sync';
+import { convertCurrency } from '@/lib/currency';
+import { applyBulkFieldChange, getBulkActionSkipReason, type BulkTransactionAction } from '@/lib/bulk-transactions';
+
+export type { BulkTransactionAction, BulkActionType } from '@/lib/bulk-transactions';
+
+/** How to reverse one change of a bulk action; undo runs them in reverse order. */
+type BulkUndoStep =
+  | { kind: 'revert-update'; original: Transaction }
+  | { kind: 'restore'; original: Transaction } // Re-created under its old ID
+  | { kind: 'remove-transaction'; id: string; accountId: string }
+  | { kind: 'remove-transfer'; transferId: string };
+
+export interface BulkActionOutcome {
+  changed: number;
+  skipped: { transaction: Transaction; reason: string }[];
+  failed: { transaction: Transaction; message: string }[];
+  undoSteps: BulkUndoStep[];
+}
+
+export interface BulkUndoOutcome {
+  reverted: number; // Transactions put back as they were
+  failed: number; // Steps that could not be reversed
+}
+
+type ProgressCallback = (done: number, total: number) => void;
+
+const toNewTransactionData = ({ id, createdAt, updatedAt, ...data }: Transaction): NewTransactionData => data;
+
+async function recreateInAccount(transaction: Transaction, accountId: string, steps: BulkUndoStep[]): Promise<void> {
+  const moved = await addTransaction({ ...toNewTransactionData(transaction), accountId }, { applyRules: false });
+  steps.push({ kind: 'remove-transaction', id: moved.id, accountId: moved.accountId });
+  await deleteTransaction(transaction.id, transaction.accountId);
+  steps.push({ kind: 'restore', original: transaction });
+}
+
+// Expenses become transfers to the counterpart account, income transfers from it
+async function convertToTransfer(transaction: Transaction, counterpart: Account, steps: BulkUndoStep[]): Promise<void> {
+  const amount = Math.abs(transaction.amount);
+  const counterpartAmount = parseFloat(convertCurrency(amount, transaction.transactionCurrency, counterpart.currency).toFixed(2));
+  const isOutgoing = transaction.amount < 0;
+  const transfer = await addTransfer({
+    fromAccountId: isOutgoing ? transaction.accountId : counterpart.id,
+    toAccountId: isOutgoing ? counterpart.id : transaction.accountId,
+    fromAmount: isOutgoing ? amount : counterpartAmount,
+    fromCurrency: isOutgoing ? transaction.transactionCurrency : counterpart.currency,
+    toAmount: isOutgoing ? counterpartAmount : amount,
+    toCurrency: isOutgoing ? counterpart.currency : transaction.transactionCurrency,
+    fee: null,
+    date: transaction.date,
+    description: transaction.description,
+    tags: transaction.tags || [],
+  });
+  steps.push({ kind: 'remove-transfer', transferId: transfer.id });
+  await deleteTransaction(transaction.id, transaction.accountId);
+  steps.push({ kind: 'restore', original: transaction });
+}
+
+/**
+ * Applies an action to each transaction in turn through the regular transaction services, so
+ * balances, the local cache and offline sync behave as for single edits. A failure is recorded
+ * and the batch carries on; the outcome lists what to reverse for undo.
+ */
+export async function runBulkTransactionAction(
+  transactions: Transaction[],
+  action: BulkTransactionAction,
+  accounts: Account[],
+  onProgress?: ProgressCallback
+): Promise<BulkActionOutcome> {
+  const outcome: BulkActionOutcome = { changed: 0, skipped: [], failed: [], undoSteps: [] };
+  const counterpart = action.type === 'convert-to-transfer' ? accounts.find(account => account.id === action.counterpartAccountId) : undefined;
+  if (action.type === 'convert-to-transfer' && !counterpart) throw new Error("The counterpart account no longer exists.");
+  if (action.type === 'change-account' && !accounts.some(account => account.id === action.accountId)) {
+    throw new Error("The target account no longer exists.");
+  }
+
+  for (const [index, transaction] of transactions.entries()) {
+    const skipReason = getBulkActionSkipReason(transaction, action);
+    if (skipReason) {
+      outcome.skipped.push({ transaction, reason: skipReason });
+      onProgress?.(index + 1, transactions.length);
+      continue;
+    }
+    try {
+      if (action.type === 'delete') {
+        await deleteTransaction(transaction.id, transaction.accountId);
+        outcome.undoSteps.push({ kind: 'restore', original: transaction });
+      } else if (action.type === 'change-account') {
+        await recreateInAccount(transaction, action.accountId, outcome.undoSteps);
+      } else if (action.type === 'convert-to-transfer') {
+        await convertToTransfer(transaction, counterpart!, outcome.undoSteps);
+      } else {
+        const updated = applyBulkFieldChange(transaction, action);
+        if (!updated) {
+          outcome.skipped.push({ transaction, reason: "Nothing to change." });
+          onProgress?.(index + 1, transactions.length);
+          continue;
+        }
+        await updateTransaction(updated);
+        outcome.undoSteps.push({ kind: 'revert-update', original: transaction });
+      }
+      outcome.changed += 1;
+    } catch (error: any) {
+      console.error(`Bulk ${action.type} failed for transaction ${transaction.id}:`, error);
+      outcome.failed.push({ transaction, message: error.message || "Unknown error" });
+    }
+    onProgress?.(index + 1, transactions.length);
+  }
+  return outcome;
+}
+
+/** Reverses the changes of a bulk action, newest first. Steps that fail are counted and skipped. */
+export async function undoBulkTransactionAction(outcome: BulkActionOutcome, onProgress?: ProgressCallback): Promise<BulkUndoOutcome> {
+  const steps = [...outcome.undoSteps].reverse();
+  const result: BulkUndoOutcome = { reverted: 0, failed: 0 };
+  for (const [index, step] of steps.entries()) {
+    try {
+      switch (step.kind) {
+        case 'revert-update':
+          await updateTransaction(step.original);
+          break;
+        case 'restore':
+          await addTransaction(toNewTransactionData(step.original), { applyRules: false, transactionId: step.original.id });
+          break;
+        case 'remove-transaction':
+          await deleteTransaction(step.id, step.accountId);
+          break;
+        case 'remove-transfer':
+          await deleteTransfer(step.transferId);
+          break;
+      }
+      // Moves and conversions take two steps; count each transaction once
+      if (step.kind === 'revert-update' || step.kind === 'restore') result.reverted += 1;
+    } catch (error) {
+      console.error(`Could not undo bulk change (${step.kind}):`, error);
+      result.failed += 1;
+    }
+    onProgress?.(index + 1, steps.length);
+  }
+  return result;
+}
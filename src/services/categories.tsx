@@ -6,11 +6,14 @@ import { database, auth } from '@/lib/firebase';
 import { ref, set, get, push, remove, update } from 'firebase/database';
 import type { User } from 'firebase/auth';
 import { HelpCircle } from 'lucide-react';
+import { getChildCategories, isValidCategoryParent } from '@/lib/category-tree';
+import { cacheReferenceNames } from './reference-lookup';
 
 export interface Category {
   id: string;
   name: string;
   icon?: string; // User-defined icon (emoji or short string)
+  parentId?: string | null; // Parent category, e.g. Food for Restaurants; null or missing for top-level categories
 }
 
 // This maps known category names (lowercase) to styles.
@@ -30,6 +33,7 @@ const predefinedCategoryStyles: { [key: string]: { icon: React.ElementType, colo
   investment: { icon: () => <span className="mr-1">📈</span>, color: 'bg-sky-100 text-sky-800 border-sky-300 dark:bg-sky-900/30 dark:text-sky-300 dark:border-sky-700'},
   transfer: { icon: () => <span className="mr-1">🔄</span>, color: 'bg-gray-100 text-gray-800 border-gray-300 dark:bg-gray-700/30 dark:text-gray-300 dark:border-gray-600'},
   'opening balance': { icon: () => <span className="mr-1">🏦</span>, color: 'bg-slate-100 text-slate-800 border-slate-300 dark:bg-slate-700/30 dark:text-slate-300 dark:border-slate-600'},
+  split: { icon: () => <span className="mr-1">✂️</span>, color: 'bg-zinc-100 text-zinc-800 border-zinc-300 dark:bg-zinc-700/30 dark:text-zinc-300 dark:border-zinc-600'},
   uncategorized: { icon: HelpCircle, color: 'bg-stone-100 text-stone-800 border-stone-300 dark:bg-stone-700/30 dark:text-stone-300 dark:border-stone-600' },
   // Add more predefined categories as needed
 };
@@ -86,10 +90,13 @@ export async function getCategories(): Promise<Category[]> {
     const snapshot = await get(categoriesRef);
     if (snapshot.exists()) {
       const categoriesData = snapshot.val();
-      return Object.entries(categoriesData).map(([id, data]) => ({
+      const categories = Object.entries(categoriesData).map(([id, data]) => ({
         id,
         ...(data as Omit<Category, 'id'>),
+        parentId: (data as Omit<Category, 'id'>).parentId || null,
       })).sort((a,b) => a.name.localeCompare(b.name));
+      cacheReferenceNames('categories', categories);
+      return categories;
     } else {
       // Initialize with default categories if none exist for the user
       console.log("No categories found for user, initializing with defaults...");
@@ -106,6 +113,7 @@ export async function getCategories(): Promise<Category[]> {
       if (Object.keys(initialCategories).length > 0) {
          await set(categoriesRef, initialCategories); // Set the whole object of default categories
       }
+      cacheReferenceNames('categories', createdCategories);
       return createdCategories.sort((a,b) => a.name.localeCompare(b.name));
     }
   } catch (error) {
@@ -114,7 +122,7 @@ export async function getCategories(): Promise<Category[]> {
   }
 }
 
-export async function addCategory(categoryName: string, icon?: string): Promise<Category> {
+export async function addCategory(categoryName: string, icon?: string, parentId?: string | null): Promise<Category> {
   const currentUser = auth.currentUser;
   const categoriesRefPath = getCategoriesRefPath(currentUser);
   const categoriesRef = ref(database, categoriesRefPath);
@@ -137,21 +145,34 @@ export async function addCategory(categoryName: string, icon?: string): Promise<
     throw new Error("Failed to generate a new category ID.");
   }
 
-  const newCategoryData: { name: string; icon?: string } = { name: normalizedName };
+  if (parentId && !currentCategories.some(cat => cat.id === parentId)) {
+      throw new Error("The parent category no longer exists.");
+  }
+
+  const newCategoryData: { name: string; icon?: string; parentId?: string } = { name: normalizedName };
   if (icon && icon.trim()) {
     newCategoryData.icon = icon.trim();
   }
+  if (parentId) {
+    newCategoryData.parentId = parentId;
+  }
 
   try {
     await set(newCategoryRef, newCategoryData);
-    return { id: newCategoryRef.key, name: normalizedName, icon: newCategoryData.icon };
+    const newCategory = { id: newCategoryRef.key, name: normalizedName, icon: newCategoryData.icon, parentId: parentId || null };
+    cacheReferenceNames('categories', [...currentCategories, newCategory]);
+    return newCategory;
   } catch (error) {
     console.error("Error adding category to Firebase:", error);
     throw error;
   }
 }
 
-export async function updateCategory(categoryId: string, newName: string, newIcon?: string): Promise<Category> {
+/**
+ * Renames a category and optionally changes its icon and parent. `newParentId` undefined keeps the
+ * parent, null makes it a top-level category; a category cannot be moved below itself or its descendants.
+ */
+export async function updateCategory(categoryId: string, newName: string, newIcon?: string, newParentId?: string | null): Promise<Category> {
   const currentUser = auth.currentUser;
   const categoryRefPath = getSingleCategoryRefPath(currentUser, categoryId);
   const categoryRef = ref(database, categoryRefPath);
@@ -167,7 +188,7 @@ export async function updateCategory(categoryId: string, newName: string, newIco
       throw new Error(`Another category named "${normalizedNewName}" already exists.`);
   }
 
-  const updates: { name: string; icon?: string | null } = { name: normalizedNewName };
+  const updates: { name: string; icon?: string | null; parentId?: string | null } = { name: normalizedNewName };
 
   if (newIcon !== undefined) { // If newIcon was explicitly passed (even as empty string)
     if (newIcon && newIcon.trim() !== "") {
@@ -179,6 +200,16 @@ export async function updateCategory(categoryId: string, newName: string, newIco
   // If newIcon is undefined (not passed), the 'icon' property is not added to 'updates',
   // so Firebase 'update' will not change the existing icon.
 
+  if (newParentId !== undefined) {
+    if (newParentId && !currentCategories.some(cat => cat.id === newParentId)) {
+      throw new Error("The parent category no longer exists.");
+    }
+    if (!isValidCategoryParent(categoryId, newParentId, currentCategories)) {
+      throw new Error("A category cannot be moved below itself or one of its subcategories.");
+    }
+    updates.parentId = newParentId || null;
+  }
+
   try {
     await update(categoryRef, updates); // Use update for partial modifications
     // Fetch the updated category to ensure we return the full, correct object.
@@ -186,7 +217,9 @@ export async function updateCategory(categoryId: string, newName: string, newIco
     if (snapshot.exists()) {
         // Ensure returned object matches Category interface (icon might be null from DB if removed)
         const val = snapshot.val() as Omit<Category, 'id'|'icon'> & {icon?: string | null};
-        return { id: categoryId, name: val.name, icon: val.icon || undefined };
+        const updatedCategory = { id: categoryId, name: val.name, icon: val.icon || undefined, parentId: val.parentId || null };
+        cacheReferenceNames('categories', currentCategories.map(cat => cat.id === categoryId ? updatedCategory : cat));
+        return updatedCategory;
     }
     throw new Error("Failed to fetch updated category after update.");
   } catch (error) {
@@ -195,12 +228,27 @@ export async function updateCategory(categoryId: string, newName: string, newIco
   }
 }
 
+/** Deletes a category. Its subcategories move up to the deleted category's parent. */
 export async function deleteCategory(categoryId: string): Promise<void> {
   const currentUser = auth.currentUser;
   const categoryRefPath = getSingleCategoryRefPath(currentUser, categoryId);
   const categoryRef = ref(database, categoryRefPath);
   try {
-    await remove(categoryRef);
+    const currentCategories = await getCategories();
+    const children = getChildCategories(categoryId, currentCategories);
+    const remainingCategories = currentCategories.filter(cat => cat.id !== categoryId);
+    if (children.length === 0) {
+      await remove(categoryRef);
+      cacheReferenceNames('categories', remainingCategories);
+      return;
+    }
+    const parentId = currentCategories.find(cat => cat.id === categoryId)?.parentId || null;
+    const updates: Record<string, string | null> = { [categoryRefPath]: null };
+    children.forEach(child => {
+      updates[`${getSingleCategoryRefPath(currentUser, child.id)}/parentId`] = parentId;
+    });
+    await update(categoryRef.root, updates);
+    cacheReferenceNames('categories', remainingCategories);
   } catch (error) {
     console.error("Error deleting category from Firebase:", error);
     throw error;
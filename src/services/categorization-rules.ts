@@ -0,0 +1,245 @@
+'use client';
+
+import { database, auth } from '@/lib/firebase';
+import { ref, set, get, push, remove, update, serverTimestamp } from 'firebase/database';
+import type { User } from 'firebase/auth';
+import { getAccounts } from './account-sync';
+import { getTransactions, applyTransactionChangesToLocalCache, type Transaction } from './transactions';
+import { applyCategorizationRules, type CategorizationRule, type RuleMatchMode } from '@/lib/categorization-rules';
+import { linkRecordReferences, linkRuleActionReferences, resolveRuleActionReferences } from '@/lib/reference-rewrites';
+import { getCachedReferenceLookup } from './reference-lookup';
+import { requireSyncedWrites } from './sync';
+
+export type { CategorizationRule, RuleMatchMode, RuleConditions, RuleActions } from '@/lib/categorization-rules';
+
+export type NewCategorizationRuleData = Omit<CategorizationRule, 'id' | 'order'>;
+
+export interface RerunRulesOptions {
+  from: string; // YYYY-MM-DD, inclusive
+  to: string; // YYYY-MM-DD, inclusive
+  overwriteCategories?: boolean;
+}
+
+const DEFAULT_MATCH_MODE: RuleMatchMode = 'first';
+
+export function getCategorizationRulesRefPath(currentUser: User | null) {
+  if (!currentUser?.uid) throw new Error("User not authenticated to access categorization rules.");
+  return `users/${currentUser.uid}/categorizationRules`;
+}
+
+export function getSingleCategorizationRuleRefPath(currentUser: User | null, ruleId: string) {
+  if (!currentUser?.uid) throw new Error("User not authenticated to access categorization rule.");
+  return `users/${currentUser.uid}/categorizationRules/${ruleId}`;
+}
+
+function getRuleSettingsRefPath(currentUser: User) {
+  return `users/${currentUser.uid}/categorizationRuleSettings`;
+}
+
+function requireUserAndDatabase() {
+  const currentUser = auth?.currentUser;
+  if (!currentUser || !database) {
+    throw new Error("User not authenticated. Cannot modify categorization rules.");
+  }
+  return { currentUser, db: database };
+}
+
+function normalizeRule(id: string, data: Partial<Omit<CategorizationRule, 'id'>>): CategorizationRule {
+  return {
+    id,
+    name: data.name || 'Untitled rule',
+    order: data.order ?? 0,
+    isActive: data.isActive ?? true,
+    conditions: { ...(data.conditions || {}) },
+    actions: { ...(data.actions || {}), tags: data.actions?.tags || [], tagIds: data.actions?.tagIds || [] },
+  };
+}
+
+function toFirebaseRule(rule: Omit<CategorizationRule, 'id'>) {
+  const actions = linkRuleActionReferences(rule.actions, getCachedReferenceLookup());
+  return {
+    name: rule.name.trim(),
+    order: rule.order,
+    isActive: rule.isActive,
+    conditions: {
+      descriptionContains: rule.conditions.descriptionContains?.trim() || null,
+      descriptionRegex: rule.conditions.descriptionRegex?.trim() || null,
+      minAmount: rule.conditions.minAmount ?? null,
+      maxAmount: rule.conditions.maxAmount ?? null,
+      accountId: rule.conditions.accountId || null,
+      currency: rule.conditions.currency?.toUpperCase() || null,
+    },
+    actions: {
+      category: actions.category || null,
+      categoryId: actions.categoryId || null,
+      tags: actions.tags && actions.tags.length > 0 ? actions.tags : null,
+      tagIds: actions.tagIds && actions.tagIds.length > 0 ? actions.tagIds : null,
+      description: actions.description?.trim() || null,
+    },
+  };
+}
+
+/** Returns the user's rules sorted by `order`. */
+export async function getCategorizationRules(): Promise<CategorizationRule[]> {
+  const currentUser = auth?.currentUser;
+  if (!currentUser || !database) {
+    console.warn("getCategorizationRules called without authenticated user, returning empty array.");
+    return [];
+  }
+  const rulesRef = ref(database, getCategorizationRulesRefPath(currentUser));
+
+  try {
+    const snapshot = await get(rulesRef);
+    if (snapshot.exists()) {
+      const rulesData = snapshot.val() as Record<string, Partial<Omit<CategorizationRule, 'id'>>>;
+      const referenceLookup = getCachedReferenceLookup();
+      return Object.entries(rulesData)
+        .map(([id, data]) => normalizeRule(id, data))
+        .map(rule => ({ ...rule, actions: resolveRuleActionReferences(rule.actions, referenceLookup) }))
+        .sort((a, b) => a.order - b.order);
+    }
+    return [];
+  } catch (error) {
+    console.error("Error fetching categorization rules from Firebase:", error);
+    throw error;
+  }
+}
+
+/** New rules are appended after the existing ones. */
+export async function addCategorizationRule(ruleData: NewCategorizationRuleData): Promise<CategorizationRule> {
+  const { currentUser, db } = requireUserAndDatabase();
+  if (!ruleData.name?.trim()) throw new Error("Rule name cannot be empty.");
+
+  const existingRules = await getCategorizationRules();
+  const order = existingRules.length > 0 ? Math.max(...existingRules.map(rule => rule.order)) + 1 : 0;
+  const newRuleRef = push(ref(db, getCategorizationRulesRefPath(currentUser)));
+  if (!newRuleRef.key) {
+    throw new Error("Failed to generate a new categorization rule ID.");
+  }
+
+  const dataToSave = toFirebaseRule({ ...ruleData, order });
+  try {
+    await set(newRuleRef, dataToSave);
+    return normalizeRule(newRuleRef.key, dataToSave as Partial<Omit<CategorizationRule, 'id'>>);
+  } catch (error) {
+    console.error("Error adding categorization rule to Firebase:", error);
+    throw error;
+  }
+}
+
+export async function updateCategorizationRule(rule: CategorizationRule): Promise<CategorizationRule> {
+  const { currentUser, db } = requireUserAndDatabase();
+  if (!rule.name?.trim()) throw new Error("Rule name cannot be empty.");
+
+  const dataToSave = toFirebaseRule(rule);
+  try {
+    await set(ref(db, getSingleCategorizationRuleRefPath(currentUser, rule.id)), dataToSave);
+    return normalizeRule(rule.id, dataToSave as Partial<Omit<CategorizationRule, 'id'>>);
+  } catch (error) {
+    console.error("Error updating categorization rule in Firebase:", error);
+    throw error;
+  }
+}
+
+export async function deleteCategorizationRule(ruleId: string): Promise<void> {
+  const { currentUser, db } = requireUserAndDatabase();
+  try {
+    await remove(ref(db, getSingleCategorizationRuleRefPath(currentUser, ruleId)));
+  } catch (error) {
+    console.error("Error deleting categorization rule from Firebase:", error);
+    throw error;
+  }
+}
+
+/** Rewrites every rule's `order` to match its position in `orderedRuleIds`. */
+export async function reorderCategorizationRules(orderedRuleIds: string[]): Promise<void> {
+  const { currentUser, db } = requireUserAndDatabase();
+  const updates: Record<string, number> = {};
+  orderedRuleIds.forEach((ruleId, index) => {
+    updates[`${getSingleCategorizationRuleRefPath(currentUser, ruleId)}/order`] = index;
+  });
+
+  try {
+    await update(ref(db), updates);
+  } catch (error) {
+    console.error("Error reordering categorization rules in Firebase:", error);
+    throw error;
+  }
+}
+
+/** Removes every rule and the match mode setting. */
+export async function clearCategorizationRules(): Promise<void> {
+  const { currentUser, db } = requireUserAndDatabase();
+  await Promise.all([
+    remove(ref(db, getCategorizationRulesRefPath(currentUser))),
+    remove(ref(db, getRuleSettingsRefPath(currentUser))),
+  ]);
+}
+
+export async function getRuleMatchMode(): Promise<RuleMatchMode> {
+  const currentUser = auth?.currentUser;
+  if (!currentUser || !database) return DEFAULT_MATCH_MODE;
+
+  try {
+    const snapshot = await get(ref(database, `${getRuleSettingsRefPath(currentUser)}/matchMode`));
+    const mode = snapshot.val();
+    return mode === 'first' || mode === 'all' ? mode : DEFAULT_MATCH_MODE;
+  } catch (error) {
+    console.error("Error fetching categorization rule settings from Firebase:", error);
+    return DEFAULT_MATCH_MODE;
+  }
+}
+
+export async function setRuleMatchMode(matchMode: RuleMatchMode): Promise<void> {
+  const { currentUser, db } = requireUserAndDatabase();
+  try {
+    await set(ref(db, `${getRuleSettingsRefPath(currentUser)}/matchMode`), matchMode);
+  } catch (error) {
+    console.error("Error saving categorization rule settings to Firebase:", error);
+    throw error;
+  }
+}
+
+/**
+ * Applies the current rules to existing transactions dated within the range and saves the ones that
+ * change. Amounts are never touched, so account balances stay as they are. Returns the number updated.
+ */
+export async function rerunCategorizationRules(options: RerunRulesOptions): Promise<number> {
+  const { currentUser, db } = requireUserAndDatabase();
+  await requireSyncedWrites();
+  const [rules, matchMode, accounts] = await Promise.all([getCategorizationRules(), getRuleMatchMode(), getAccounts()]);
+  if (rules.length === 0) return 0;
+
+  const changedTransactions: Transaction[] = [];
+  const updates: Record<string, any> = {};
+  const referenceLookup = getCachedReferenceLookup();
+
+  for (const account of accounts) {
+    const transactions = await getTransactions(account.id);
+    transactions
+      .filter(tx => tx.date >= options.from && tx.date <= options.to)
+      .forEach(tx => {
+        const result = applyCategorizationRules(tx, rules, { matchMode, overwriteCategory: options.overwriteCategories });
+        if (!result.changed) return;
+        const changed = linkRecordReferences({ ...tx, category: result.category, tags: result.tags, description: result.description }, referenceLookup);
+        const basePath = `users/${currentUser.uid}/transactions/${tx.accountId}/${tx.id}`;
+        updates[`${basePath}/category`] = changed.category;
+        updates[`${basePath}/categoryId`] = changed.categoryId ?? null;
+        updates[`${basePath}/tags`] = changed.tags;
+        updates[`${basePath}/tagIds`] = changed.tagIds || [];
+        updates[`${basePath}/description`] = changed.description;
+        updates[`${basePath}/updatedAt`] = serverTimestamp();
+        changedTransactions.push(changed);
+      });
+  }
+
+  if (changedTransactions.length === 0) return 0;
+  try {
+    await update(ref(db), updates);
+    await applyTransactionChangesToLocalCache(changedTransactions);
+    return changedTransactions.length;
+  } catch (error) {
+    console.error("Error re-running categorization rules:", error);
+    throw error;
+  }
+}
@@ -5,6 +5,11 @@ import { database, auth } from '@/lib/firebase';
 import { ref, set, get, push, remove, update, serverTimestamp } from 'firebase/database';
 import type { User } from 'firebase/auth';
 import { format as formatDateFns } from 'date-fns';
+import { getAccounts as getAllAccounts, addAccount, deleteAccount, type Account } from './account-sync';
+import { getTransactions, type Transaction } from './transactions';
+import { addTransfer, type Transfer } from './transfers';
+import { convertCurrency } from '@/lib/currency';
+import { buildCreditCardStatements, type CreditCardStatement } from '@/lib/credit-card-statements';
 
 export interface CreditCard {
   id: string;
@@ -12,7 +17,9 @@ export interface CreditCard {
   bankName: string;      // e.g., "Nubank", "Chase"
   limit: number;         // Credit limit
   currency: string;      // e.g., "BRL", "USD"
-  currentBalance: number;  // Current outstanding balance (often negative or zero)
+  currentBalance: number;  // Current outstanding balance (often negative or zero). Derived from the card account once linked
+  accountId?: string | null; // Account (type 'credit card') holding the card's purchases and payments
+  minimumPaymentPercent?: number | null; // Share of the statement balance due as minimum payment
   paymentDueDate?: string | null;  // ISO string: YYYY-MM-DD for the next payment due date
   statementClosingDay?: number | null; // Day of the month (1-31) when the statement closes
   interestRate?: number | null;    // APR as a percentage, e.g., 19.99
@@ -21,7 +28,27 @@ export interface CreditCard {
   updatedAt?: object | string;
 }
 
-export type NewCreditCardData = Omit<CreditCard, 'id' | 'createdAt' | 'updatedAt'>;
+export type NewCreditCardData = Omit<CreditCard, 'id' | 'accountId' | 'createdAt' | 'updatedAt'>;
+
+export interface CreditCardPaymentInput {
+  fromAccountId: string;
+  amount: number; // In the card's currency
+  date: string; // YYYY-MM-DD
+}
+
+/**
+ * Amount owed on the card (positive when the card has an outstanding balance).
+ */
+export function getCreditCardAmountOwed(card: CreditCard): number {
+  return Math.max(-card.currentBalance, 0);
+}
+
+/**
+ * Share of the limit in use, from 0 to 1 (can exceed 1 when over the limit).
+ */
+export function getCreditCardUtilization(card: CreditCard): number {
+  return card.limit > 0 ? getCreditCardAmountOwed(card) / card.limit : 0;
+}
 
 export function getCreditCardsRefPath(currentUser: User | null) {
   if (!currentUser?.uid) throw new Error("User not authenticated to access credit cards.");
@@ -46,10 +73,13 @@ export async function getCreditCards(): Promise<CreditCard[]> {
     const snapshot = await get(creditCardsRef);
     if (snapshot.exists()) {
       const cardsData = snapshot.val();
-      return Object.entries(cardsData).map(([id, data]) => ({
-        id,
-        ...(data as Omit<CreditCard, 'id'>),
-      }));
+      const accounts = await getAllAccounts();
+      return Object.entries(cardsData).map(([id, data]) => {
+        const card = { id, ...(data as Omit<CreditCard, 'id'>) };
+        // Linked cards take their balance from the account their transactions are posted to.
+        const account = card.accountId ? accounts.find(acc => acc.id === card.accountId) : undefined;
+        return account ? { ...card, currentBalance: account.balance } : card;
+      });
     }
     return [];
   } catch (error) {
@@ -71,9 +101,14 @@ export async function addCreditCard(cardData: NewCreditCardData): Promise<Credit
     throw new Error("Failed to generate a new credit card ID.");
   }
 
+  // Purchases and payments are recorded as transactions on a dedicated account for the card.
+  const cardAccount = await createCreditCardAccount(cardData);
+
   const newCardForApp: CreditCard = { // This object is for returning to the app
     ...cardData,
     id: newCardRef.key,
+    accountId: cardAccount.id,
+    minimumPaymentPercent: cardData.minimumPaymentPercent ?? null,
     paymentDueDate: cardData.paymentDueDate || null,
     statementClosingDay: cardData.statementClosingDay === undefined ? null : cardData.statementClosingDay,
     interestRate: cardData.interestRate === undefined ? null : cardData.interestRate,
@@ -89,6 +124,8 @@ export async function addCreditCard(cardData: NewCreditCardData): Promise<Credit
     limit: cardData.limit,
     currency: cardData.currency,
     currentBalance: cardData.currentBalance,
+    accountId: cardAccount.id,
+    minimumPaymentPercent: cardData.minimumPaymentPercent ?? null,
     paymentDueDate: cardData.paymentDueDate || null,
     statementClosingDay: cardData.statementClosingDay === undefined ? null : cardData.statementClosingDay,
     interestRate: cardData.interestRate === undefined ? null : cardData.interestRate,
@@ -104,6 +141,7 @@ export async function addCreditCard(cardData: NewCreditCardData): Promise<Credit
     return { ...newCardForApp, id: newCardRef.key };
   } catch (error) {
     console.error("Error adding credit card to Firebase:", error);
+    await removeUnlinkedCreditCardAccount(cardAccount);
     throw error;
   }
 }
@@ -122,7 +160,7 @@ export async function updateCreditCard(updatedCard: CreditCard): Promise<CreditC
     bankName: updatedCard.bankName,
     limit: updatedCard.limit,
     currency: updatedCard.currency,
-    currentBalance: updatedCard.currentBalance,
+    minimumPaymentPercent: updatedCard.minimumPaymentPercent ?? null,
     paymentDueDate: updatedCard.paymentDueDate === undefined ? null : updatedCard.paymentDueDate,
     statementClosingDay: updatedCard.statementClosingDay === undefined ? null : updatedCard.statementClosingDay,
     interestRate: updatedCard.interestRate === undefined ? null : updatedCard.interestRate,
@@ -132,6 +170,10 @@ export async function updateCreditCard(updatedCard: CreditCard): Promise<CreditC
   
   // id and createdAt should not be part of the update payload itself
   // as id is the key and createdAt is set on creation.
+  // The balance of a linked card is computed from its account and never written here.
+  if (!updatedCard.accountId) {
+    dataToUpdate.currentBalance = updatedCard.currentBalance;
+  }
 
   try {
     await update(cardRef, dataToUpdate);
@@ -164,3 +206,97 @@ export async function deleteCreditCard(cardId: string): Promise<void> {
     throw error;
   }
 }
+
+async function createCreditCardAccount(cardData: Pick<CreditCard, 'name' | 'bankName' | 'currency' | 'currentBalance'>): Promise<Account> {
+  return addAccount({
+    name: cardData.name,
+    type: 'credit card',
+    balance: cardData.currentBalance || 0,
+    currency: cardData.currency,
+    providerName: cardData.bankName,
+    isActive: true,
+    category: 'asset',
+    includeInNetWorth: true,
+  });
+}
+
+/**
+ * Deletes a card account whose card could not be saved, so it does not linger in balances and net worth.
+ * The original error is what the caller reports; a failure here is only logged.
+ */
+async function removeUnlinkedCreditCardAccount(cardAccount: Account): Promise<void> {
+  try {
+    await deleteAccount(cardAccount.id);
+  } catch (error) {
+    console.error(`Error removing unlinked credit card account ${cardAccount.id}:`, error);
+  }
+}
+
+/**
+ * Links a card created before card accounts existed to a new 'credit card' account, seeded with its
+ * manually entered balance. Returns the card unchanged if it already has one.
+ */
+export async function ensureCreditCardAccount(card: CreditCard): Promise<CreditCard> {
+  if (card.accountId) return card;
+  const currentUser = auth?.currentUser;
+  if (!currentUser || !database) {
+    throw new Error("User not authenticated. Cannot link credit card account.");
+  }
+  const db = database;
+  const cardAccount = await createCreditCardAccount(card);
+  try {
+    await update(ref(db, getSingleCreditCardRefPath(currentUser, card.id)), {
+      accountId: cardAccount.id,
+      updatedAt: serverTimestamp(),
+    });
+    return { ...card, accountId: cardAccount.id, currentBalance: cardAccount.balance };
+  } catch (error) {
+    console.error("Error linking credit card account in Firebase:", error);
+    await removeUnlinkedCreditCardAccount(cardAccount);
+    throw error;
+  }
+}
+
+/**
+ * Builds the card's statements (newest first) from the transactions on its account.
+ */
+export async function getCreditCardStatements(card: CreditCard): Promise<CreditCardStatement<Transaction>[]> {
+  if (!card.accountId) return [];
+  const accounts = await getAllAccounts();
+  const account = accounts.find(acc => acc.id === card.accountId);
+  if (!account) return [];
+  const transactions = await getTransactions(account.id);
+  return buildCreditCardStatements(card, account, transactions);
+}
+
+/**
+ * Pays the card from another account by recording a transfer into the card's account.
+ */
+export async function payCreditCardStatement(card: CreditCard, input: CreditCardPaymentInput): Promise<Transfer> {
+  if (!card.accountId) {
+    throw new Error("This credit card has no account to receive payments.");
+  }
+  if (!(input.amount > 0)) {
+    throw new Error("Payment amount must be positive.");
+  }
+  const accounts = await getAllAccounts();
+  const fromAccount = accounts.find(acc => acc.id === input.fromAccountId);
+  if (!fromAccount) throw new Error("The selected payment account does not exist.");
+
+  const fromAmount = fromAccount.currency.toUpperCase() !== card.currency.toUpperCase()
+    ? parseFloat(convertCurrency(input.amount, card.currency, fromAccount.currency).toFixed(2))
+    : input.amount;
+
+  return addTransfer({
+    fromAccountId: fromAccount.id,
+    toAccountId: card.accountId,
+    fromAmount,
+    fromCurrency: fromAccount.currency,
+    toAmount: input.amount,
+    toCurrency: card.currency,
+    fee: null,
+    date: input.date,
+    description: `Payment: ${card.name}`,
+    tags: [],
+  });
+}
@@ -0,0 +1,136 @@
+'use client';
+
+import { database, auth } from '@/lib/firebase';
+import { ref, get, remove, update } from 'firebase/database';
+import type { User } from 'firebase/auth';
+import { setHistoricalExchangeRates, type HistoricalExchangeRate } from '@/lib/currency';
+
+export type ExchangeRateSource = 'manual' | 'csv' | 'ecb-xml';
+
+/**
+ * A dated exchange rate: on `date`, 1 unit of baseCurrency = `rate` units of quoteCurrency.
+ */
+export interface ExchangeRate extends HistoricalExchangeRate {
+  id: string;
+  source: ExchangeRateSource;
+}
+
+export type NewExchangeRateData = Omit<ExchangeRate, 'id'>;
+
+export function getExchangeRatesRefPath(currentUser: User | null) {
+  if (!currentUser?.uid) throw new Error("User not authenticated to access exchange rates.");
+  return `users/${currentUser.uid}/exchangeRates`;
+}
+
+export function getSingleExchangeRateRefPath(currentUser: User | null, rateId: string) {
+  if (!currentUser?.uid) throw new Error("User not authenticated to access exchange rate.");
+  return `users/${currentUser.uid}/exchangeRates/${rateId}`;
+}
+
+// One rate per pair per day: re-importing a file overwrites instead of duplicating.
+function getRateKey(rate: Pick<HistoricalExchangeRate, 'date' | 'baseCurrency' | 'quoteCurrency'>) {
+  return `${rate.date}_${rate.baseCurrency.toUpperCase()}_${rate.quoteCurrency.toUpperCase()}`;
+}
+
+function validateRate(rate: NewExchangeRateData) {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(rate.date)) throw new Error(`Invalid exchange rate date "${rate.date}".`);
+  if (!rate.baseCurrency || !rate.quoteCurrency) throw new Error("Exchange rate currencies are required.");
+  if (rate.baseCurrency.toUpperCase() === rate.quoteCurrency.toUpperCase()) throw new Error("Base and quote currencies must differ.");
+  if (!(rate.rate > 0)) throw new Error("Exchange rate must be positive.");
+}
+
+export async function getExchangeRates(): Promise<ExchangeRate[]> {
+  const currentUser = auth?.currentUser;
+  if (!currentUser || !database) {
+    console.warn("getExchangeRates called without authenticated user, returning empty array.");
+    return [];
+  }
+  const ratesRef = ref(database, getExchangeRatesRefPath(currentUser));
+
+  try {
+    const snapshot = await get(ratesRef);
+    if (snapshot.exists()) {
+      const ratesData = snapshot.val();
+      return Object.entries(ratesData)
+        .map(([id, data]) => {
+          const rate = data as Partial<Omit<ExchangeRate, 'id'>>;
+          return {
+            id,
+            date: rate.date || '',
+            baseCurrency: (rate.baseCurrency || '').toUpperCase(),
+            quoteCurrency: (rate.quoteCurrency || '').toUpperCase(),
+            rate: typeof rate.rate === 'number' ? rate.rate : 0,
+            source: rate.source || 'manual',
+          };
+        })
+        .sort((a, b) => b.date.localeCompare(a.date));
+    }
+    return [];
+  } catch (error) {
+    console.error("Error fetching exchange rates from Firebase:", error);
+    throw error;
+  }
+}
+
+/**
+ * Fetches the user's stored rates and installs them as the table used by dated conversions
+ * (`convertCurrency(amount, from, to, onDate)`).
+ */
+export async function loadHistoricalExchangeRates(): Promise<ExchangeRate[]> {
+  const rates = await getExchangeRates();
+  setHistoricalExchangeRates(rates);
+  return rates;
+}
+
+export async function addExchangeRate(rateData: NewExchangeRateData): Promise<ExchangeRate> {
+  const [saved] = await addExchangeRates([rateData]);
+  return saved;
+}
+
+/**
+ * Saves many rates in one multi-path update. Rates for a pair and day that already exist are replaced.
+ */
+export async function addExchangeRates(ratesData: NewExchangeRateData[]): Promise<ExchangeRate[]> {
+  const currentUser = auth?.currentUser;
+  if (!currentUser || !database) {
+    throw new Error("User not authenticated. Cannot add exchange rates.");
+  }
+  const basePath = getExchangeRatesRefPath(currentUser);
+  const updates: Record<string, Omit<ExchangeRate, 'id'>> = {};
+  const saved: ExchangeRate[] = [];
+
+  ratesData.forEach(rateData => {
+    const normalized: NewExchangeRateData = {
+      ...rateData,
+      baseCurrency: rateData.baseCurrency.trim().toUpperCase(),
+      quoteCurrency: rateData.quoteCurrency.trim().toUpperCase(),
+    };
+    validateRate(normalized);
+    const id = getRateKey(normalized);
+    updates[`${basePath}/${id}`] = normalized;
+    saved.push({ id, ...normalized });
+  });
+
+  if (saved.length === 0) return [];
+
+  try {
+    await update(ref(database), updates);
+    return saved;
+  } catch (error) {
+    console.error("Error adding exchange rates to Firebase:", error);
+    throw error;
+  }
+}
+
+export async function deleteExchangeRate(rateId: string): Promise<void> {
+  const currentUser = auth?.currentUser;
+  if (!currentUser || !database) {
+    throw new Error("User not authenticated. Cannot delete exchange rate.");
+  }
+  try {
+    await remove(ref(database, getSingleExchangeRateRefPath(currentUser, rateId)));
+  } catch (error) {
+    console.error("Error deleting exchange rate from Firebase:", error);
+    throw error;
+  }
+}
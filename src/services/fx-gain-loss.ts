@@ -0,0 +1,42 @@
+'use client';
+
+import { format as formatDateFns } from 'date-fns';
+import { createHistoricalConverter, type MissingExchangeRate } from '@/lib/currency';
+import { calculateFxGainLoss, type FxGainLoss } from '@/lib/foreign-currency';
+import { getAccounts } from './account-sync';
+import { getAllTransactions } from './transaction-query';
+import { loadHistoricalExchangeRates } from './exchange-rates';
+
+export type { FxGainLoss } from '@/lib/foreign-currency';
+
+export interface FxGainLossReport {
+  accounts: FxGainLoss[]; // One entry per account held in a currency other than `currency`
+  currency: string;
+  missingExchangeRates: MissingExchangeRate[];
+}
+
+/**
+ * Exchange gains and losses of the accounts held in foreign currencies, in `currency`, valuing each
+ * transaction at the rate effective on its date. Limited to `accountIds` when given.
+ */
+export async function getFxGainLoss(currency: string, accountIds?: string[]): Promise<FxGainLossReport> {
+  await loadHistoricalExchangeRates();
+  const accounts = (await getAccounts()).filter(acc =>
+    (!accountIds || accountIds.includes(acc.id)) && acc.currency.toUpperCase() !== currency.toUpperCase()
+  );
+  if (accounts.length === 0) return { accounts: [], currency, missingExchangeRates: [] };
+
+  const transactions = await getAllTransactions(accounts.map(acc => acc.id));
+  const converter = createHistoricalConverter();
+  const today = formatDateFns(new Date(), 'yyyy-MM-dd');
+  const results = accounts
+    .map(account => calculateFxGainLoss({
+      account,
+      transactions: transactions.filter(tx => tx.accountId === account.id),
+      targetCurrency: currency,
+      today,
+      convert: converter.convert,
+    }))
+    .filter((result): result is FxGainLoss => result !== null);
+  return { accounts: results, currency, missingExchangeRates: converter.getMissingRates() };
+}
@@ -0,0 +1,112 @@
+'use client';
+
+import { database, auth } from '@/lib/firebase';
+import { ref, get, push, set, update, remove, serverTimestamp } from 'firebase/database';
+import type { User } from 'firebase/auth';
+import { DEFAULT_CSV_IMPORT_SETTINGS, type CsvImportProfile } from '@/lib/csv-import-profiles';
+
+export type { CsvImportProfile, CsvImportSettings, ColumnMapping } from '@/lib/csv-import-profiles';
+
+export type NewCsvImportProfileData = Omit<CsvImportProfile, 'id' | 'createdAt' | 'updatedAt'>;
+
+export function getImportProfilesRefPath(currentUser: User | null) {
+  if (!currentUser?.uid) throw new Error("User not authenticated to access import profiles.");
+  return `users/${currentUser.uid}/importProfiles`;
+}
+
+function requireUserAndDatabase() {
+  const currentUser = auth?.currentUser;
+  if (!currentUser || !database) {
+    throw new Error("User not authenticated. Cannot modify import profiles.");
+  }
+  return { currentUser, db: database };
+}
+
+function normalizeProfile(id: string, data: Partial<Omit<CsvImportProfile, 'id'>>): CsvImportProfile {
+  return {
+    ...DEFAULT_CSV_IMPORT_SETTINGS,
+    ...data,
+    id,
+    name: data.name || 'Untitled profile',
+    headers: data.headers || [],
+    mappings: data.mappings || {},
+  };
+}
+
+function toFirebaseProfile(profile: NewCsvImportProfileData) {
+  return {
+    name: profile.name.trim(),
+    headers: profile.headers,
+    mappings: profile.mappings,
+    dateFormat: profile.dateFormat || null,
+    decimalSeparator: profile.decimalSeparator,
+    signConvention: profile.signConvention,
+    defaultAccountId: profile.defaultAccountId || null,
+    encoding: profile.encoding,
+  };
+}
+
+/** Returns the user's CSV import profiles sorted by name. */
+export async function getImportProfiles(): Promise<CsvImportProfile[]> {
+  const currentUser = auth?.currentUser;
+  if (!currentUser || !database) {
+    console.warn("getImportProfiles called without authenticated user, returning empty array.");
+    return [];
+  }
+
+  try {
+    const snapshot = await get(ref(database, getImportProfilesRefPath(currentUser)));
+    if (!snapshot.exists()) return [];
+    const profilesData = snapshot.val() as Record<string, Partial<Omit<CsvImportProfile, 'id'>>>;
+    return Object.entries(profilesData)
+      .map(([id, data]) => normalizeProfile(id, data))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  } catch (error) {
+    console.error("Error fetching import profiles from Firebase:", error);
+    throw error;
+  }
+}
+
+export async function addImportProfile(profileData: NewCsvImportProfileData): Promise<CsvImportProfile> {
+  const { currentUser, db } = requireUserAndDatabase();
+  if (!profileData.name?.trim()) throw new Error("Profile name cannot be empty.");
+
+  const newProfileRef = push(ref(db, getImportProfilesRefPath(currentUser)));
+  if (!newProfileRef.key) {
+    throw new Error("Failed to generate a new import profile ID.");
+  }
+
+  const dataToSave = { ...toFirebaseProfile(profileData), createdAt: serverTimestamp(), updatedAt: serverTimestamp() };
+  try {
+    await set(newProfileRef, dataToSave);
+    return normalizeProfile(newProfileRef.key, { ...dataToSave, updatedAt: new Date().toISOString() });
+  } catch (error) {
+    console.error("Error adding import profile to Firebase:", error);
+    throw error;
+  }
+}
+
+export async function updateImportProfile(profile: CsvImportProfile): Promise<CsvImportProfile> {
+  const { currentUser, db } = requireUserAndDatabase();
+  if (!profile.name?.trim()) throw new Error("Profile name cannot be empty.");
+
+  const { id, createdAt, updatedAt, ...profileData } = profile;
+  const dataToUpdate = { ...toFirebaseProfile(profileData), updatedAt: serverTimestamp() };
+  try {
+    await update(ref(db, `${getImportProfilesRefPath(currentUser)}/${id}`), dataToUpdate);
+    return normalizeProfile(id, { ...dataToUpdate, createdAt, updatedAt: new Date().toISOString() });
+  } catch (error) {
+    console.error("Error updating import profile in Firebase:", error);
+    throw error;
+  }
+}
+
+export async function deleteImportProfile(profileId: string): Promise<void> {
+  const { currentUser, db } = requireUserAndDatabase();
+  try {
+    await remove(ref(db, `${getImportProfilesRefPath(currentUser)}/${profileId}`));
+  } catch (error) {
+    console.error("Error deleting import profile from Firebase:", error);
+    throw error;
+  }
+}
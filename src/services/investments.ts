@@ -0,0 +1,302 @@
+'use client';
+
+import { database, auth } from '@/lib/firebase';
+import { ref, get, push, set, update, remove, serverTimestamp } from 'firebase/database';
+import type { User } from 'firebase/auth';
+import { calculateHoldings, type CostBasisMethod, type HoldingsResult, type InvestmentEvent, type InvestmentEventType, type Security, type SecurityType } from '@/lib/holdings';
+import { getSecurityPrices, getSecurityPricesRefPath } from './security-prices';
+
+export type { CostBasisMethod, Holding, HoldingLot, InvestmentEvent, InvestmentEventType, Security, SecurityType } from '@/lib/holdings';
+
+export type NewSecurityData = Omit<Security, 'id' | 'createdAt' | 'updatedAt'>;
+
+export type NewInvestmentEventData = Omit<InvestmentEvent, 'id' | 'createdAt' | 'updatedAt'>;
+
+const DEFAULT_COST_BASIS_METHOD: CostBasisMethod = 'fifo';
+
+const SECURITY_TYPES: SecurityType[] = ['stock', 'etf', 'fund', 'bond', 'crypto', 'other'];
+
+const EVENT_TYPES: InvestmentEventType[] = ['buy', 'sell', 'dividend', 'fee'];
+
+export function getSecuritiesRefPath(currentUser: User | null) {
+  if (!currentUser?.uid) throw new Error("User not authenticated to access securities.");
+  return `users/${currentUser.uid}/securities`;
+}
+
+export function getInvestmentEventsRefPath(currentUser: User | null) {
+  if (!currentUser?.uid) throw new Error("User not authenticated to access investment events.");
+  return `users/${currentUser.uid}/investmentEvents`;
+}
+
+function getInvestmentSettingsRefPath(currentUser: User) {
+  return `users/${currentUser.uid}/investmentSettings`;
+}
+
+function requireUserAndDatabase() {
+  const currentUser = auth?.currentUser;
+  if (!currentUser || !database) {
+    throw new Error("User not authenticated. Cannot modify investments.");
+  }
+  return { currentUser, db: database };
+}
+
+function normalizeSecurity(id: string, data: Partial<Omit<Security, 'id'>>): Security {
+  return {
+    ...data,
+    id,
+    symbol: (data.symbol || '').toUpperCase(),
+    name: data.name || data.symbol || 'Unnamed security',
+    type: data.type && SECURITY_TYPES.includes(data.type) ? data.type : 'other',
+    currency: (data.currency || 'USD').toUpperCase(),
+  };
+}
+
+function normalizeEvent(id: string, data: Partial<Omit<InvestmentEvent, 'id'>>): InvestmentEvent {
+  return {
+    ...data,
+    id,
+    accountId: data.accountId || '',
+    securityId: data.securityId || '',
+    type: data.type && EVENT_TYPES.includes(data.type) ? data.type : 'buy',
+    date: data.date || '',
+    quantity: typeof data.quantity === 'number' ? data.quantity : 0,
+    price: typeof data.price === 'number' ? data.price : 0,
+    fees: typeof data.fees === 'number' ? data.fees : 0,
+    amount: typeof data.amount === 'number' ? data.amount : 0,
+    notes: data.notes ?? null,
+  };
+}
+
+function toFirebaseSecurity(security: NewSecurityData) {
+  const symbol = security.symbol.trim().toUpperCase();
+  return {
+    symbol,
+    name: security.name.trim() || symbol,
+    type: security.type,
+    currency: security.currency.trim().toUpperCase(),
+  };
+}
+
+// Buys and sells carry units and a price; dividends and fees only a total.
+function toFirebaseEvent(event: NewInvestmentEventData) {
+  if (!event.accountId) throw new Error("Investment events need an account.");
+  if (!event.securityId) throw new Error("Investment events need a security.");
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(event.date)) throw new Error(`Invalid investment event date "${event.date}".`);
+  const isTrade = event.type === 'buy' || event.type === 'sell';
+  if (isTrade && !(event.quantity > 0)) throw new Error("Quantity must be positive.");
+  if (isTrade && !(event.price >= 0)) throw new Error("Price cannot be negative.");
+  if (!(event.fees >= 0)) throw new Error("Fees cannot be negative.");
+  if (!isTrade && !(event.amount > 0)) throw new Error("Amount must be positive.");
+  return {
+    accountId: event.accountId,
+    securityId: event.securityId,
+    type: event.type,
+    date: event.date,
+    quantity: isTrade ? event.quantity : 0,
+    price: isTrade ? event.price : 0,
+    fees: isTrade ? event.fees || 0 : 0,
+    amount: isTrade ? 0 : event.amount,
+    notes: event.notes?.trim() || null,
+  };
+}
+
+/** Returns the user's securities sorted by symbol. */
+export async function getSecurities(): Promise<Security[]> {
+  const currentUser = auth?.currentUser;
+  if (!currentUser || !database) {
+    console.warn("getSecurities called without authenticated user, returning empty array.");
+    return [];
+  }
+
+  try {
+    const snapshot = await get(ref(database, getSecuritiesRefPath(currentUser)));
+    if (!snapshot.exists()) return [];
+    const securitiesData = snapshot.val() as Record<string, Partial<Omit<Security, 'id'>>>;
+    return Object.entries(securitiesData)
+      .map(([id, data]) => normalizeSecurity(id, data))
+      .sort((a, b) => a.symbol.localeCompare(b.symbol));
+  } catch (error) {
+    console.error("Error fetching securities from Firebase:", error);
+    throw error;
+  }
+}
+
+export async function addSecurity(securityData: NewSecurityData): Promise<Security> {
+  const { currentUser, db } = requireUserAndDatabase();
+  if (!securityData.symbol?.trim()) throw new Error("Symbol cannot be empty.");
+  if (!securityData.currency?.trim()) throw new Error("Currency cannot be empty.");
+
+  const existing = await getSecurities();
+  const symbol = securityData.symbol.trim().toUpperCase();
+  if (existing.some(security => security.symbol === symbol)) {
+    throw new Error(`A security with the symbol "${symbol}" already exists.`);
+  }
+
+  const newSecurityRef = push(ref(db, getSecuritiesRefPath(currentUser)));
+  if (!newSecurityRef.key) {
+    throw new Error("Failed to generate a new security ID.");
+  }
+
+  const dataToSave = { ...toFirebaseSecurity(securityData), createdAt: serverTimestamp(), updatedAt: serverTimestamp() };
+  try {
+    await set(newSecurityRef, dataToSave);
+    return normalizeSecurity(newSecurityRef.key, { ...dataToSave, createdAt: new Date().toISOString(), updatedAt: new Date().toISOString() });
+  } catch (error) {
+    console.error("Error adding security to Firebase:", error);
+    throw error;
+  }
+}
+
+export async function updateSecurity(security: Security): Promise<Security> {
+  const { currentUser, db } = requireUserAndDatabase();
+  if (!security.symbol?.trim()) throw new Error("Symbol cannot be empty.");
+
+  const { id, createdAt, updatedAt, ...securityData } = security;
+  const dataToUpdate = { ...toFirebaseSecurity(securityData), updatedAt: serverTimestamp() };
+  try {
+    await update(ref(db, `${getSecuritiesRefPath(currentUser)}/${id}`), dataToUpdate);
+    return normalizeSecurity(id, { ...dataToUpdate, createdAt, updatedAt: new Date().toISOString() });
+  } catch (error) {
+    console.error("Error updating security in Firebase:", error);
+    throw error;
+  }
+}
+
+/** Deletes a security together with its events and stored prices. */
+export async function deleteSecurity(securityId: string): Promise<void> {
+  const { currentUser, db } = requireUserAndDatabase();
+  const updates: Record<string, null> = {
+    [`${getSecuritiesRefPath(currentUser)}/${securityId}`]: null,
+  };
+  try {
+    const [eventsSnapshot, pricesSnapshot] = await Promise.all([
+      get(ref(db, getInvestmentEventsRefPath(currentUser))),
+      get(ref(db, getSecurityPricesRefPath(currentUser))),
+    ]);
+    Object.entries((eventsSnapshot.val() || {}) as Record<string, Partial<InvestmentEvent>>).forEach(([id, event]) => {
+      if (event.securityId === securityId) updates[`${getInvestmentEventsRefPath(currentUser)}/${id}`] = null;
+    });
+    Object.entries((pricesSnapshot.val() || {}) as Record<string, { securityId?: string }>).forEach(([id, price]) => {
+      if (price.securityId === securityId) updates[`${getSecurityPricesRefPath(currentUser)}/${id}`] = null;
+    });
+    await update(ref(db), updates);
+  } catch (error) {
+    console.error("Error deleting security from Firebase:", error);
+    throw error;
+  }
+}
+
+/** Returns investment events, newest first; pass an account ID to get only that account's. */
+export async function getInvestmentEvents(accountId?: string): Promise<InvestmentEvent[]> {
+  const currentUser = auth?.currentUser;
+  if (!currentUser || !database) {
+    console.warn("getInvestmentEvents called without authenticated user, returning empty array.");
+    return [];
+  }
+
+  try {
+    const snapshot = await get(ref(database, getInvestmentEventsRefPath(currentUser)));
+    if (!snapshot.exists()) return [];
+    const eventsData = snapshot.val() as Record<string, Partial<Omit<InvestmentEvent, 'id'>>>;
+    return Object.entries(eventsData)
+      .map(([id, data]) => normalizeEvent(id, data))
+      .filter(event => !accountId || event.accountId === accountId)
+      .sort((a, b) => b.date.localeCompare(a.date));
+  } catch (error) {
+    console.error("Error fetching investment events from Firebase:", error);
+    throw error;
+  }
+}
+
+export async function addInvestmentEvent(eventData: NewInvestmentEventData): Promise<InvestmentEvent> {
+  const { currentUser, db } = requireUserAndDatabase();
+  const newEventRef = push(ref(db, getInvestmentEventsRefPath(currentUser)));
+  if (!newEventRef.key) {
+    throw new Error("Failed to generate a new investment event ID.");
+  }
+
+  const dataToSave = { ...toFirebaseEvent(eventData), createdAt: serverTimestamp(), updatedAt: serverTimestamp() };
+  try {
+    await set(newEventRef, dataToSave);
+    return normalizeEvent(newEventRef.key, { ...dataToSave, createdAt: new Date().toISOString(), updatedAt: new Date().toISOString() });
+  } catch (error) {
+    console.error("Error adding investment event to Firebase:", error);
+    throw error;
+  }
+}
+
+export async function updateInvestmentEvent(event: InvestmentEvent): Promise<InvestmentEvent> {
+  const { currentUser, db } = requireUserAndDatabase();
+  const { id, createdAt, updatedAt, ...eventData } = event;
+  const dataToUpdate = { ...toFirebaseEvent(eventData), updatedAt: serverTimestamp() };
+  try {
+    await update(ref(db, `${getInvestmentEventsRefPath(currentUser)}/${id}`), dataToUpdate);
+    return normalizeEvent(id, { ...dataToUpdate, createdAt, updatedAt: new Date().toISOString() });
+  } catch (error) {
+    console.error("Error updating investment event in Firebase:", error);
+    throw error;
+  }
+}
+
+export async function deleteInvestmentEvent(eventId: string): Promise<void> {
+  const { currentUser, db } = requireUserAndDatabase();
+  try {
+    await remove(ref(db, `${getInvestmentEventsRefPath(currentUser)}/${eventId}`));
+  } catch (error) {
+    console.error("Error deleting investment event from Firebase:", error);
+    throw error;
+  }
+}
+
+export async function getCostBasisMethod(): Promise<CostBasisMethod> {
+  const currentUser = auth?.currentUser;
+  if (!currentUser || !database) return DEFAULT_COST_BASIS_METHOD;
+
+  try {
+    const snapshot = await get(ref(database, `${getInvestmentSettingsRefPath(currentUser)}/costBasisMethod`));
+    const method = snapshot.val();
+    return method === 'fifo' || method === 'average' ? method : DEFAULT_COST_BASIS_METHOD;
+  } catch (error) {
+    console.error("Error fetching investment settings from Firebase:", error);
+    return DEFAULT_COST_BASIS_METHOD;
+  }
+}
+
+export async function setCostBasisMethod(method: CostBasisMethod): Promise<void> {
+  const { currentUser, db } = requireUserAndDatabase();
+  try {
+    await set(ref(db, `${getInvestmentSettingsRefPath(currentUser)}/costBasisMethod`), method);
+  } catch (error) {
+    console.error("Error saving investment settings to Firebase:", error);
+    throw error;
+  }
+}
+
+/** Removes every security, investment event and price, and the cost basis setting. */
+export async function clearInvestments(): Promise<void> {
+  const { currentUser, db } = requireUserAndDatabase();
+  await Promise.all([
+    remove(ref(db, getSecuritiesRefPath(currentUser))),
+    remove(ref(db, getInvestmentEventsRefPath(currentUser))),
+    remove(ref(db, getSecurityPricesRefPath(currentUser))),
+    remove(ref(db, getInvestmentSettingsRefPath(currentUser))),
+  ]);
+}
+
+export interface Portfolio extends HoldingsResult {
+  securities: Security[];
+  events: InvestmentEvent[];
+  method: CostBasisMethod;
+}
+
+/** Loads securities, events and prices and computes the holdings of every investment account. */
+export async function getPortfolio(method?: CostBasisMethod): Promise<Portfolio> {
+  const [securities, events, prices, savedMethod] = await Promise.all([
+    getSecurities(),
+    getInvestmentEvents(),
+    getSecurityPrices(),
+    method ? Promise.resolve(method) : getCostBasisMethod(),
+  ]);
+  const { holdings, errors } = calculateHoldings(events, securities, { method: savedMethod, prices });
+  return { securities, events, holdings, errors, method: savedMethod };
+}
@@ -4,7 +4,12 @@
 import { database, auth } from '@/lib/firebase';
 import { ref, set, get, push, remove, update, serverTimestamp } from 'firebase/database';
 import type { User } from 'firebase/auth';
-import { addMonths, format as formatDateFns } from 'date-fns';
+import { addMonths, format as formatDateFns, parseISO } from 'date-fns';
+import { getAccounts as getAllAccounts, addAccountBalanceIncrements } from './account-sync';
+import { applyTransactionChangesToLocalCache, type Transaction } from './transactions';
+import { requireSyncedWrites } from './sync';
+import { convertCurrency } from '@/lib/currency';
+import { buildAmortizationSchedule, splitLoanPayment, type LoanPaymentRecord, type LoanRateChange } from '@/lib/loan-amortization';
 
 export type LoanType = 'mortgage' | 'car' | 'student' | 'personal' | 'credit_card' | 'peer_to_peer' | 'other';
 
@@ -33,11 +38,22 @@ export interface Loan {
   nextPaymentDate: string; // Calculated: first payment date
   loanType: LoanType; // New field for loan type
   notes?: string;
+  rateChanges?: LoanRateChange[]; // Stored keyed by effectiveDate
+  payments?: LoanPaymentRecord[]; // Posted payments, stored keyed by transactionId
   createdAt?: object | string;
   updatedAt?: object | string;
 }
 
-export type NewLoanData = Omit<Loan, 'id' | 'remainingBalance' | 'nextPaymentDate' | 'createdAt' | 'updatedAt'>;
+export type NewLoanData = Omit<Loan, 'id' | 'remainingBalance' | 'nextPaymentDate' | 'rateChanges' | 'payments' | 'createdAt' | 'updatedAt'>;
+
+export interface LoanPaymentInput {
+  accountId: string;
+  date: string; // YYYY-MM-DD
+  payment?: number; // Defaults to the scheduled payment for the next period
+  extraPrincipal?: number;
+}
+
+export const LOAN_PAYMENT_CATEGORY = 'Loan Payment';
 
 export function getLoansRefPath(currentUser: User | null) {
   if (!currentUser?.uid) throw new Error("User not authenticated to access loans.");
@@ -62,11 +78,19 @@ export async function getLoans(): Promise<Loan[]> {
     const snapshot = await get(loansRef);
     if (snapshot.exists()) {
       const loansData = snapshot.val();
-      return Object.entries(loansData).map(([id, data]) => ({
-        id,
-        ...(data as Omit<Loan, 'id'>),
-        loanType: (data as Loan).loanType || 'other', // Default if missing
-      }));
+      return Object.entries(loansData).map(([id, data]) => {
+        const loanData = data as Omit<Loan, 'id' | 'rateChanges' | 'payments'> & {
+          rateChanges?: Record<string, LoanRateChange>;
+          payments?: Record<string, LoanPaymentRecord>;
+        };
+        return {
+          ...loanData,
+          id,
+          loanType: loanData.loanType || 'other', // Default if missing
+          rateChanges: Object.values(loanData.rateChanges || {}).sort((a, b) => a.effectiveDate.localeCompare(b.effectiveDate)),
+          payments: Object.values(loanData.payments || {}).sort((a, b) => a.period - b.period),
+        };
+      });
     }
     return [];
   } catch (error) {
@@ -130,6 +154,9 @@ export async function updateLoan(updatedLoan: Loan): Promise<Loan> {
   const dataToSave = {...dataToUpdate} as any;
   delete dataToSave.id;
   delete dataToSave.createdAt;
+  // Rate changes and payments are keyed maps managed by their own functions below.
+  delete dataToSave.rateChanges;
+  delete dataToSave.payments;
 
 
   try {
@@ -155,3 +182,167 @@ export async function deleteLoan(loanId: string): Promise<void> {
     throw error;
   }
 }
+
+function requireUserAndDatabase(action: string) {
+  const currentUser = auth?.currentUser;
+  if (!currentUser || !database) {
+    throw new Error(`User not authenticated. Cannot ${action}.`);
+  }
+  return { currentUser, db: database };
+}
+
+/**
+ * Adds (or replaces) a rate change effective from `change.effectiveDate`. Payments due on or
+ * after that date are projected at the new rate.
+ */
+export async function addLoanRateChange(loanId: string, change: LoanRateChange): Promise<void> {
+  const { currentUser, db } = requireUserAndDatabase("update loan");
+  if (!(change.annualRate >= 0)) throw new Error("Interest rate cannot be negative.");
+  const loanRefPath = getSingleLoanRefPath(currentUser, loanId);
+  try {
+    await update(ref(db), {
+      [`${loanRefPath}/rateChanges/${change.effectiveDate}`]: {
+        effectiveDate: change.effectiveDate,
+        annualRate: change.annualRate,
+        monthlyPayment: change.monthlyPayment && change.monthlyPayment > 0 ? change.monthlyPayment : null,
+      },
+      [`${loanRefPath}/updatedAt`]: serverTimestamp(),
+    });
+  } catch (error) {
+    console.error("Error adding loan rate change to Firebase:", error);
+    throw error;
+  }
+}
+
+export async function deleteLoanRateChange(loanId: string, effectiveDate: string): Promise<void> {
+  const { currentUser, db } = requireUserAndDatabase("update loan");
+  try {
+    await remove(ref(db, `${getSingleLoanRefPath(currentUser, loanId)}/rateChanges/${effectiveDate}`));
+  } catch (error) {
+    console.error("Error deleting loan rate change from Firebase:", error);
+    throw error;
+  }
+}
+
+/**
+ * Posts the next loan payment as an expense on `input.accountId`, splitting it into interest and
+ * principal. The transaction, the account balance, the loan's `remainingBalance`,
+ * `nextPaymentDate` and payment history are written in one atomic update.
+ */
+export async function postLoanPayment(loan: Loan, input: LoanPaymentInput): Promise<{ transaction: Transaction; payment: LoanPaymentRecord }> {
+  const { currentUser, db } = requireUserAndDatabase("post loan payment");
+  await requireSyncedWrites();
+  if (loan.remainingBalance <= 0) {
+    throw new Error("This loan is already paid off.");
+  }
+  const accounts = await getAllAccounts();
+  const account = accounts.find(acc => acc.id === input.accountId);
+  if (!account) throw new Error("The selected account does not exist.");
+
+  const nextScheduled = buildAmortizationSchedule(loan).rows.find(row => !row.isPosted);
+  if (!nextScheduled) throw new Error("No scheduled payment remains for this loan.");
+  const paymentAmount = input.payment && input.payment > 0 ? input.payment : nextScheduled.payment;
+  const split = splitLoanPayment(loan.remainingBalance, nextScheduled.annualRate, paymentAmount, input.extraPrincipal || 0);
+  if (split.principal + split.extraPrincipal <= 0) {
+    throw new Error("The payment does not cover the interest due for this period.");
+  }
+
+  const loanRefPath = getSingleLoanRefPath(currentUser, loan.id);
+  const transactionsPath = `users/${currentUser.uid}/transactions/${account.id}`;
+  const newTransactionRef = push(ref(db, transactionsPath));
+  if (!newTransactionRef.key) {
+    throw new Error("Failed to generate a new transaction ID.");
+  }
+
+  const totalPaid = split.payment + split.extraPrincipal;
+  const transaction: Transaction = {
+    id: newTransactionRef.key,
+    accountId: account.id,
+    date: input.date,
+    amount: -totalPaid,
+    transactionCurrency: loan.currency,
+    description: `Loan payment: ${loan.name}`,
+    category: LOAN_PAYMENT_CATEGORY,
+    tags: [],
+    loanId: loan.id,
+  };
+  const payment: LoanPaymentRecord = {
+    date: input.date,
+    period: nextScheduled.period,
+    payment: split.payment,
+    principal: split.principal,
+    interest: split.interest,
+    extraPrincipal: split.extraPrincipal,
+    balanceAfter: split.balanceAfter,
+    accountId: account.id,
+    transactionId: transaction.id,
+  };
+
+  const transactionToSave = {
+    ...transaction,
+    createdAt: serverTimestamp(),
+    updatedAt: serverTimestamp(),
+    originalImportData: { foreignAmount: null, foreignCurrency: null },
+  } as any;
+  delete transactionToSave.id;
+
+  const amountInAccountCurrency = loan.currency.toUpperCase() !== account.currency.toUpperCase()
+    ? convertCurrency(transaction.amount, loan.currency, account.currency)
+    : transaction.amount;
+
+  const updates: Record<string, any> = {
+    [`${transactionsPath}/${transaction.id}`]: transactionToSave,
+    [`${loanRefPath}/payments/${transaction.id}`]: payment,
+    [`${loanRefPath}/remainingBalance`]: split.balanceAfter,
+    [`${loanRefPath}/nextPaymentDate`]: formatDateFns(addMonths(parseISO(loan.nextPaymentDate), 1), 'yyyy-MM-dd'),
+    [`${loanRefPath}/updatedAt`]: serverTimestamp(),
+  };
+  if (nextScheduled.balance > 0 && nextScheduled.payment !== loan.monthlyPayment) {
+    // A rate change re-amortized the payment; keep it so later schedules do not re-amortize it again
+    updates[`${loanRefPath}/monthlyPayment`] = nextScheduled.payment;
+  }
+  addAccountBalanceIncrements(updates, currentUser.uid, new Map([[account.id, amountInAccountCurrency]]));
+
+  try {
+    await update(ref(db), updates);
+    await applyTransactionChangesToLocalCache([transaction]);
+    return { transaction, payment };
+  } catch (error) {
+    console.error("Error posting loan payment to Firebase:", error);
+    throw error;
+  }
+}
+
+/**
+ * Undoes the effect of a posted payment on its loan when the payment's transaction is deleted:
+ * the principal is added back and `nextPaymentDate` moves back a period. Only the latest payment
+ * can be undone; every later payment's split and balance depend on the ones before it.
+ */
+export async function reverseLoanPayment(loanId: string, transactionId: string): Promise<void> {
+  const { currentUser, db } = requireUserAndDatabase("update loan");
+  await requireSyncedWrites();
+  const loanRefPath = getSingleLoanRefPath(currentUser, loanId);
+  const snapshot = await get(ref(db, loanRefPath));
+  if (!snapshot.exists()) return;
+  const loanData = snapshot.val() as Omit<Loan, 'id' | 'payments'> & { payments?: Record<string, LoanPaymentRecord> };
+  const payment = loanData.payments?.[transactionId];
+  if (!payment) return;
+
+  const latestPeriod = Math.max(...Object.values(loanData.payments || {}).map(p => p.period));
+  if (payment.period !== latestPeriod) {
+    throw new Error("Only the latest loan payment can be deleted. Delete the later payments first.");
+  }
+  const updates: Record<string, any> = {
+    [`${loanRefPath}/payments/${transactionId}`]: null,
+    [`${loanRefPath}/remainingBalance`]: parseFloat((loanData.remainingBalance + payment.principal + payment.extraPrincipal).toFixed(2)),
+    [`${loanRefPath}/nextPaymentDate`]: formatDateFns(addMonths(parseISO(loanData.nextPaymentDate), -1), 'yyyy-MM-dd'),
+    [`${loanRefPath}/updatedAt`]: serverTimestamp(),
+  };
+
+  try {
+    await update(ref(db), updates);
+  } catch (error) {
+    console.error("Error reversing loan payment in Firebase:", error);
+    throw error;
+  }
+}
@@ -0,0 +1,53 @@
+'use client';
+
+import { parseISO } from 'date-fns';
+import { createHistoricalConverter, type MissingExchangeRate } from '@/lib/currency';
+import { buildNetWorthHistory, type NetWorthGranularity, type NetWorthHistoryPoint } from '@/lib/net-worth-history';
+import { getAccounts } from './account-sync';
+import { getAllTransactions } from './transaction-query';
+import { getLoans } from './loans';
+import { getCreditCards } from './credit-cards';
+import { loadHistoricalExchangeRates } from './exchange-rates';
+
+export type { NetWorthGranularity, NetWorthHistoryPoint } from '@/lib/net-worth-history';
+
+export interface NetWorthHistoryOptions {
+  from?: Date | null; // Defaults to the date of the oldest transaction
+  to?: Date | null; // Defaults to today
+  granularity: NetWorthGranularity;
+  currency: string;
+}
+
+export interface NetWorthHistory {
+  points: NetWorthHistoryPoint[];
+  currency: string;
+  missingExchangeRates: MissingExchangeRate[];
+}
+
+/**
+ * Net worth per day, week or month, reconstructed from current balances and transaction history,
+ * with each period valued at the exchange rates effective at its end.
+ */
+export async function getNetWorthHistory(options: NetWorthHistoryOptions): Promise<NetWorthHistory> {
+  await loadHistoricalExchangeRates();
+  const [accounts, loans, creditCards] = await Promise.all([getAccounts(), getLoans(), getCreditCards()]);
+  const transactions = await getAllTransactions(accounts.map(acc => acc.id));
+
+  const to = options.to || new Date();
+  const oldestDate = transactions.reduce<string | null>((oldest, tx) => (!oldest || tx.date < oldest ? tx.date : oldest), null);
+  const from = options.from || (oldestDate ? parseISO(oldestDate.slice(0, 10)) : to);
+
+  const converter = createHistoricalConverter();
+  const points = buildNetWorthHistory({
+    accounts,
+    transactions,
+    loans,
+    creditCards,
+    from,
+    to,
+    granularity: options.granularity,
+    targetCurrency: options.currency,
+    convert: converter.convert,
+  });
+  return { points, currency: options.currency, missingExchangeRates: converter.getMissingRates() };
+}
@@ -0,0 +1,360 @@
+'use client';
+
+import { database, auth } from '@/lib/firebase';
+import { ref, get, push, update, serverTimestamp, type Database } from 'firebase/database';
+import type { User } from 'firebase/auth';
+import { addDays, addMonths, addQuarters, addWeeks, addYears, format, parseISO } from 'date-fns';
+import { getAccounts as getAllAccounts, addAccountBalanceIncrements, type Account } from './account-sync';
+import { getSubscriptions, type Subscription, type SubscriptionFrequency } from './subscriptions';
+import { applyTransactionChangesToLocalCache, type Transaction } from './transactions';
+import { requireSyncedWrites } from './sync';
+import { convertCurrency } from '@/lib/currency';
+
+// Guards against a runaway loop for e.g. a daily subscription that has not been processed in years.
+const MAX_OCCURRENCES_PER_RUN = 400;
+
+export interface RecurringRunResult {
+  createdTransactions: Transaction[];
+  updatedSubscriptionIds: string[];
+  pendingSubscriptionIds: string[]; // Subscriptions with older payments the user still has to confirm
+}
+
+export interface PendingSubscriptionPayments {
+  subscription: Subscription;
+  occurrences: string[]; // Unsettled occurrence dates, oldest first
+}
+
+export interface ProcessDueSubscriptionsOptions {
+  /**
+   * Set for the run on sign-in: only occurrences that came due after a subscription's
+   * `autoPostedThrough` are posted. Anything older is left for the user to confirm.
+   */
+  automatic?: boolean;
+}
+
+/**
+ * Normalizes a stored date (YYYY-MM-DD or a full ISO string written by the subscription form)
+ * to the local calendar day it represents.
+ */
+export function toOccurrenceDate(value: string): string {
+  return format(parseISO(value), 'yyyy-MM-dd');
+}
+
+/**
+ * Returns the date `count` periods after `date`. Occurrences are always computed from a fixed
+ * anchor so that month-end dates do not drift (Jan 31 -> Feb 28 -> Mar 31).
+ */
+export function addSubscriptionPeriods(date: Date, frequency: SubscriptionFrequency, count: number = 1): Date {
+  switch (frequency) {
+    case 'daily': return addDays(date, count);
+    case 'weekly': return addWeeks(date, count);
+    case 'bi-weekly': return addWeeks(date, count * 2);
+    case 'monthly': return addMonths(date, count);
+    case 'quarterly': return addQuarters(date, count);
+    case 'semi-annually': return addMonths(date, count * 6);
+    case 'annually': return addYears(date, count);
+    default: return addMonths(date, count);
+  }
+}
+
+/**
+ * The date every occurrence of a subscription is counted from. Subscriptions that have never been
+ * posted have no stored anchor yet and count from their `nextPaymentDate`.
+ */
+function getScheduleAnchor(subscription: Pick<Subscription, 'scheduleAnchor' | 'nextPaymentDate'>): string {
+  return toOccurrenceDate(subscription.scheduleAnchor || subscription.nextPaymentDate);
+}
+
+/** The number of periods between the schedule anchor and the first occurrence on or after `date`. */
+function getOccurrenceIndexOnOrAfter(subscription: Subscription, date: string): number {
+  const anchor = parseISO(getScheduleAnchor(subscription));
+  let index = 0;
+  while (format(addSubscriptionPeriods(anchor, subscription.frequency, index), 'yyyy-MM-dd') < date) index++;
+  return index;
+}
+
+/** The occurrence following `occurrence` on the subscription's schedule. */
+function getOccurrenceAfter(subscription: Subscription, occurrence: string): string {
+  const anchor = parseISO(getScheduleAnchor(subscription));
+  const index = getOccurrenceIndexOnOrAfter(subscription, occurrence) + 1;
+  return format(addSubscriptionPeriods(anchor, subscription.frequency, index), 'yyyy-MM-dd');
+}
+
+/**
+ * Lists the occurrence dates of a subscription from its `nextPaymentDate` on, up to and
+ * including `throughDate` (YYYY-MM-DD). When `minimumCount` is set, at least that many
+ * occurrences are returned even if they fall after `throughDate` (used to pay early).
+ */
+export function getDueOccurrences(subscription: Subscription, throughDate: string, minimumCount: number = 0): string[] {
+  const anchor = parseISO(getScheduleAnchor(subscription));
+  const firstIndex = getOccurrenceIndexOnOrAfter(subscription, toOccurrenceDate(subscription.nextPaymentDate));
+  const occurrences: string[] = [];
+  for (let i = 0; i < MAX_OCCURRENCES_PER_RUN; i++) {
+    const occurrence = format(addSubscriptionPeriods(anchor, subscription.frequency, firstIndex + i), 'yyyy-MM-dd');
+    if (occurrence > throughDate && occurrences.length >= minimumCount) break;
+    occurrences.push(occurrence);
+  }
+  return occurrences;
+}
+
+/**
+ * Subscriptions created before payments were posted as transactions were marked paid by hand
+ * through `lastPaidMonth`. Their occurrences up to the end of that month count as paid already.
+ */
+function isPaidOutsideApp(subscription: Subscription, occurrence: string): boolean {
+  return !subscription.autoPostedThrough && !!subscription.lastPaidMonth && occurrence.slice(0, 7) <= subscription.lastPaidMonth;
+}
+
+/** The occurrences among `occurrences` that still need a transaction. */
+export function getUnsettledOccurrences(subscription: Subscription, occurrences: string[]): string[] {
+  const settled = subscription.settledOccurrences || {};
+  return occurrences.filter(occurrence => !settled[occurrence] && !isPaidOutsideApp(subscription, occurrence));
+}
+
+/**
+ * Lists, per account-linked subscription, the payments due on or before `throughDate` that have
+ * no transaction yet. Used to preview a run before the user confirms it.
+ */
+export function getPendingSubscriptionPayments(subscriptions: Subscription[], throughDate: string): PendingSubscriptionPayments[] {
+  return subscriptions
+    .filter(subscription => !!subscription.accountId)
+    .map(subscription => ({ subscription, occurrences: getUnsettledOccurrences(subscription, getDueOccurrences(subscription, throughDate)) }))
+    .filter(({ occurrences }) => occurrences.length > 0);
+}
+
+function requireUserAndDatabase() {
+  const currentUser = auth?.currentUser;
+  if (!currentUser || !database) {
+    throw new Error("User not authenticated. Cannot post recurring transactions.");
+  }
+  return { currentUser, db: database };
+}
+
+/**
+ * Adds to `updates` everything needed to settle the given occurrences of one subscription:
+ * a transaction per unsettled occurrence, the occurrence -> transaction link, the advanced
+ * `nextPaymentDate` (kept on the schedule anchor, which is stored on first use), and the balance change added to `balanceDeltas`. Occurrences already present in
+ * `settledOccurrences` are skipped, which makes repeated runs idempotent, and so are occurrences
+ * marked paid by hand before the subscription was posted automatically.
+ */
+function addOccurrenceUpdates(
+  updates: Record<string, any>,
+  db: Database,
+  currentUser: User,
+  subscription: Subscription,
+  account: Account,
+  occurrences: string[],
+  created: Transaction[],
+  balanceDeltas: Map<string, number>,
+  throughDate: string
+) {
+  const subscriptionPath = `users/${currentUser.uid}/subscriptions/${subscription.id}`;
+  const transactionsPath = `users/${currentUser.uid}/transactions/${account.id}`;
+  const unsettled = new Set(getUnsettledOccurrences(subscription, occurrences));
+  let balanceDelta = 0;
+
+  for (const occurrence of occurrences) {
+    if (!unsettled.has(occurrence)) continue;
+
+    const newTransactionRef = push(ref(db, transactionsPath));
+    if (!newTransactionRef.key) throw new Error("Failed to generate a new transaction ID.");
+
+    const amount = subscription.type === 'income' ? Math.abs(subscription.amount) : -Math.abs(subscription.amount);
+    const transaction: Transaction = {
+      id: newTransactionRef.key,
+      accountId: account.id,
+      date: occurrence,
+      amount,
+      transactionCurrency: subscription.currency,
+      description: subscription.description || subscription.name,
+      category: subscription.category || 'Uncategorized',
+      categoryId: subscription.categoryId ?? null,
+      tags: subscription.tags || [],
+      tagIds: subscription.tagIds || [],
+      subscriptionId: subscription.id,
+    };
+
+    const dataToSave = {
+      ...transaction,
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+      originalImportData: { foreignAmount: null, foreignCurrency: null },
+    } as any;
+    delete dataToSave.id;
+
+    updates[`${transactionsPath}/${transaction.id}`] = dataToSave;
+    updates[`${subscriptionPath}/settledOccurrences/${occurrence}`] = transaction.id;
+    balanceDelta += subscription.currency.toUpperCase() !== account.currency.toUpperCase()
+      ? convertCurrency(amount, subscription.currency, account.currency)
+      : amount;
+    created.push(transaction);
+  }
+
+  const lastOccurrence = occurrences[occurrences.length - 1];
+  updates[`${subscriptionPath}/scheduleAnchor`] = getScheduleAnchor(subscription);
+  updates[`${subscriptionPath}/nextPaymentDate`] = getOccurrenceAfter(subscription, lastOccurrence);
+  updates[`${subscriptionPath}/lastPaidMonth`] = lastOccurrence.slice(0, 7);
+  updates[`${subscriptionPath}/autoPostedThrough`] = throughDate;
+  updates[`${subscriptionPath}/updatedAt`] = serverTimestamp();
+
+  balanceDeltas.set(account.id, (balanceDeltas.get(account.id) || 0) + balanceDelta);
+}
+
+/**
+ * First automatic run for a subscription that predates automatic posting: moves `nextPaymentDate`
+ * past the occurrences marked paid through `lastPaidMonth` and starts posting from `throughDate`
+ * on. Nothing is posted; whatever else is already due waits for the user to confirm it.
+ * Returns the updated subscription.
+ */
+function adoptSubscriptionForAutoPosting(updates: Record<string, any>, currentUser: User, subscription: Subscription, throughDate: string): Subscription {
+  const subscriptionPath = `users/${currentUser.uid}/subscriptions/${subscription.id}`;
+  const paidOccurrences = subscription.lastPaidMonth ? getDueOccurrences(subscription, `${subscription.lastPaidMonth}-31`) : [];
+  const scheduleAnchor = getScheduleAnchor(subscription);
+  const nextPaymentDate = paidOccurrences.length > 0
+    ? getOccurrenceAfter(subscription, paidOccurrences[paidOccurrences.length - 1])
+    : toOccurrenceDate(subscription.nextPaymentDate);
+
+  updates[`${subscriptionPath}/scheduleAnchor`] = scheduleAnchor;
+  updates[`${subscriptionPath}/nextPaymentDate`] = nextPaymentDate;
+  updates[`${subscriptionPath}/autoPostedThrough`] = throughDate;
+  updates[`${subscriptionPath}/updatedAt`] = serverTimestamp();
+  return { ...subscription, scheduleAnchor, nextPaymentDate, autoPostedThrough: throughDate };
+}
+
+/**
+ * Posts a transaction for every occurrence of an account-linked subscription that is due on or
+ * before `asOf`, and advances each subscription's `nextPaymentDate` by its frequency.
+ * Subscriptions without an `accountId` are left alone; they are tracked manually.
+ *
+ * With `automatic`, a subscription is only posted when all its unsettled occurrences came due
+ * after the previous run; one with older outstanding payments is reported in
+ * `pendingSubscriptionIds` instead, so a backlog never debits an account without confirmation.
+ */
+export async function processDueSubscriptions(asOf: Date = new Date(), options: ProcessDueSubscriptionsOptions = {}): Promise<RecurringRunResult> {
+  const { currentUser, db } = requireUserAndDatabase();
+  await requireSyncedWrites();
+  const throughDate = format(asOf, 'yyyy-MM-dd');
+  const [subscriptions, accounts] = await Promise.all([getSubscriptions(), getAllAccounts()]);
+
+  const updates: Record<string, any> = {};
+  const created: Transaction[] = [];
+  const updatedSubscriptionIds: string[] = [];
+  const pendingSubscriptionIds: string[] = [];
+  const balanceDeltas = new Map<string, number>(); // Several subscriptions may share an account
+
+  for (const storedSubscription of subscriptions) {
+    let subscription = storedSubscription;
+    if (!subscription.accountId) continue;
+    const account = accounts.find(acc => acc.id === subscription.accountId);
+    if (!account) {
+      console.warn(`Subscription ${subscription.name} is linked to missing account ${subscription.accountId}; skipping.`);
+      continue;
+    }
+
+    if (options.automatic) {
+      if (!subscription.autoPostedThrough) {
+        subscription = adoptSubscriptionForAutoPosting(updates, currentUser, subscription, throughDate);
+        updatedSubscriptionIds.push(subscription.id);
+      }
+      const unsettled = getUnsettledOccurrences(subscription, getDueOccurrences(subscription, throughDate));
+      if (unsettled.length === 0) continue;
+      if (unsettled[0] <= subscription.autoPostedThrough!) {
+        pendingSubscriptionIds.push(subscription.id);
+        continue;
+      }
+    }
+
+    const occurrences = getDueOccurrences(subscription, throughDate);
+    if (occurrences.length === 0) continue;
+
+    addOccurrenceUpdates(updates, db, currentUser, subscription, account, occurrences, created, balanceDeltas, throughDate);
+    if (!updatedSubscriptionIds.includes(subscription.id)) updatedSubscriptionIds.push(subscription.id);
+  }
+
+  if (updatedSubscriptionIds.length === 0) {
+    return { createdTransactions: [], updatedSubscriptionIds, pendingSubscriptionIds };
+  }
+
+  addAccountBalanceIncrements(updates, currentUser.uid, balanceDeltas);
+
+  try {
+    await update(ref(db), updates);
+    await applyTransactionChangesToLocalCache(created);
+    console.log(`Recurring transactions: posted ${created.length} transaction(s) for ${updatedSubscriptionIds.length} subscription(s).`);
+    return { createdTransactions: created, updatedSubscriptionIds, pendingSubscriptionIds };
+  } catch (error) {
+    console.error("Error posting recurring transactions to Firebase:", error);
+    throw error;
+  }
+}
+
+/**
+ * Settles the subscription's next occurrence now, even if it is not yet due (paying early),
+ * together with any earlier occurrences that were still outstanding.
+ */
+export async function settleNextSubscriptionOccurrence(subscription: Subscription): Promise<Transaction[]> {
+  const { currentUser, db } = requireUserAndDatabase();
+  await requireSyncedWrites();
+  if (!subscription.accountId) {
+    throw new Error("Link this subscription to an account to post its payments as transactions.");
+  }
+  const accounts = await getAllAccounts();
+  const account = accounts.find(acc => acc.id === subscription.accountId);
+  if (!account) throw new Error("The account linked to this subscription no longer exists.");
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const occurrences = getDueOccurrences(subscription, today, 1);
+  const updates: Record<string, any> = {};
+  const created: Transaction[] = [];
+  const balanceDeltas = new Map<string, number>();
+  addOccurrenceUpdates(updates, db, currentUser, subscription, account, occurrences, created, balanceDeltas, today);
+  addAccountBalanceIncrements(updates, currentUser.uid, balanceDeltas);
+
+  try {
+    await update(ref(db), updates);
+    await applyTransactionChangesToLocalCache(created);
+    return created;
+  } catch (error) {
+    console.error("Error settling subscription occurrence in Firebase:", error);
+    throw error;
+  }
+}
+
+/**
+ * Undoes the settlement made by a deleted transaction: the occurrence loses its link and becomes
+ * due again, and `nextPaymentDate` and `lastPaidMonth` move back so it can be posted anew. The
+ * schedule anchor stays put, so later occurrences keep their dates and their settlements still
+ * match. The reopened occurrence is older than `autoPostedThrough`, so it waits for the user to
+ * confirm it.
+ */
+export async function reverseSubscriptionOccurrence(subscriptionId: string, transactionId: string): Promise<void> {
+  const { currentUser, db } = requireUserAndDatabase();
+  await requireSyncedWrites();
+  const subscriptionPath = `users/${currentUser.uid}/subscriptions/${subscriptionId}`;
+  const snapshot = await get(ref(db, subscriptionPath));
+  if (!snapshot.exists()) return;
+  const subscription = snapshot.val() as Omit<Subscription, 'id'>;
+  const settled = subscription.settledOccurrences || {};
+  const occurrence = Object.keys(settled).find(date => settled[date] === transactionId);
+  if (!occurrence) return;
+
+  const remainingSettled = Object.keys(settled).filter(date => date !== occurrence).sort();
+  const latestSettled = remainingSettled[remainingSettled.length - 1];
+  const updates: Record<string, any> = {
+    [`${subscriptionPath}/settledOccurrences/${occurrence}`]: null,
+    [`${subscriptionPath}/lastPaidMonth`]: latestSettled ? latestSettled.slice(0, 7) : null,
+    [`${subscriptionPath}/updatedAt`]: serverTimestamp(),
+  };
+  if (occurrence < toOccurrenceDate(subscription.nextPaymentDate)) {
+    updates[`${subscriptionPath}/nextPaymentDate`] = occurrence;
+    // Payments posted before the anchor was stored count from the occurrences they settled
+    if (!subscription.scheduleAnchor) updates[`${subscriptionPath}/scheduleAnchor`] = occurrence;
+  }
+
+  try {
+    await update(ref(db), updates);
+  } catch (error) {
+    console.error("Error reversing subscription payment in Firebase:", error);
+    throw error;
+  }
+}
@@ -0,0 +1,39 @@
+'use client';
+
+import { auth } from '@/lib/firebase';
+import { createReferenceLookup, type ReferenceLookup } from '@/lib/reference-rewrites';
+
+type ReferenceKind = 'categories' | 'tags';
+
+interface NamedReference {
+  id: string;
+  name: string;
+}
+
+function getCacheKey(kind: ReferenceKind, uid: string): string {
+  return kind === 'categories' ? `userCategories-${uid}` : `userTags-${uid}`;
+}
+
+function readCachedReferences(kind: ReferenceKind, uid: string): NamedReference[] {
+  const data = localStorage.getItem(getCacheKey(kind, uid));
+  try {
+    return data ? JSON.parse(data) : [];
+  } catch (e) {
+    console.error(`Error parsing cached ${kind} from localStorage:`, e);
+    return [];
+  }
+}
+
+/** Keeps the ID and name of every category or tag, so records can be linked and resolved without a fetch. */
+export function cacheReferenceNames(kind: ReferenceKind, references: NamedReference[]): void {
+  const uid = auth?.currentUser?.uid;
+  if (!uid || typeof localStorage === 'undefined') return;
+  localStorage.setItem(getCacheKey(kind, uid), JSON.stringify(references.map(({ id, name }) => ({ id, name }))));
+}
+
+/** Category and tag names by ID as last loaded; empty until categories and tags have been fetched once. */
+export function getCachedReferenceLookup(): ReferenceLookup {
+  const uid = auth?.currentUser?.uid;
+  if (!uid || typeof localStorage === 'undefined') return createReferenceLookup([], []);
+  return createReferenceLookup(readCachedReferences('categories', uid), readCachedReferences('tags', uid));
+}
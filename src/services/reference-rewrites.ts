@@ -0,0 +1,408 @@
+'use client';
+
+import { database, auth } from '@/lib/firebase';
+import { ref, get, update, serverTimestamp } from 'firebase/database';
+import type { User } from 'firebase/auth';
+import {
+  createReferenceLookup, emptyReferenceChangeCounts, findUnlinkedNames, isReservedCategoryName,
+  linkRecordReferences, linkRuleActionReferences, linkTagReferences, needsReferenceLinks,
+  rewriteIdList, rewriteRecordCategory, rewriteRecordTags, rewriteRuleActions,
+  type CategoryRewrite, type ReferenceChangeCounts, type TagRewrite, type UnlinkedName,
+} from '@/lib/reference-rewrites';
+import { OPENING_BALANCE_CATEGORY } from '@/lib/balance-reconciliation';
+import { getCategories, getSingleCategoryRefPath, type Category } from './categories';
+import { getTags, getSingleTagRefPath, type Tag } from './tags';
+import { getGroups, getSingleGroupRefPath, type Group } from './groups';
+import { getBudgets, getSingleBudgetRefPath, type Budget } from './budgets';
+import { getSubscriptions, getSingleSubscriptionRefPath, type Subscription } from './subscriptions';
+import { getTransfers, getSingleTransferRefPath, TRANSFER_FEE_CATEGORY, type Transfer } from './transfers';
+import { getCategorizationRules, getSingleCategorizationRuleRefPath, type CategorizationRule } from './categorization-rules';
+import { applyTransactionChangesToLocalCache, SPLIT_CATEGORY, type Transaction } from './transactions';
+import { getAllTransactions } from './transaction-query';
+import { BALANCE_ADJUSTMENT_CATEGORY } from './account-reconciliation';
+import { LOAN_PAYMENT_CATEGORY } from './loans';
+import { requireSyncedWrites } from './sync';
+
+export type { ReferenceChangeCounts, UnlinkedName } from '@/lib/reference-rewrites';
+
+export type CategoryChange =
+  | { type: 'rename'; categoryId: string; newName: string }
+  | { type: 'merge'; categoryId: string; targetId: string } // Deletes the category; everything that used it uses the target
+  | { type: 'delete'; categoryId: string } // Transactions fall back to Uncategorized
+  | { type: 'relink'; name: string; targetId: string }; // Points records using an unlinked name at an existing category
+
+export type TagChange =
+  | { type: 'rename'; tagId: string; newName: string }
+  | { type: 'merge'; tagId: string; targetId: string }
+  | { type: 'delete'; tagId: string } // Removes the tag from every record
+  | { type: 'relink'; name: string; targetId: string };
+
+export interface UnlinkedReferences {
+  categories: UnlinkedName[];
+  tags: UnlinkedName[];
+}
+
+const UNCATEGORIZED = 'Uncategorized';
+// Categories the app assigns on its own; records using them are not reported as unlinked
+const BUILT_IN_CATEGORY_NAMES = [
+  'Transfer', SPLIT_CATEGORY, TRANSFER_FEE_CATEGORY, OPENING_BALANCE_CATEGORY,
+  BALANCE_ADJUSTMENT_CATEGORY, LOAN_PAYMENT_CATEGORY, UNCATEGORIZED,
+];
+
+interface ReferenceData {
+  transactions: Transaction[];
+  transfers: Transfer[];
+  subscriptions: Subscription[];
+  rules: CategorizationRule[];
+  budgets: Budget[];
+  groups: Group[];
+  categories: Category[];
+  tags: Tag[];
+}
+
+interface RewritePlan {
+  updates: Record<string, any>;
+  changedTransactions: Transaction[];
+  counts: ReferenceChangeCounts;
+}
+
+function requireUserAndDatabase() {
+  const currentUser = auth?.currentUser;
+  if (!currentUser || !database) {
+    throw new Error("User not authenticated. Cannot update categories and tags.");
+  }
+  return { currentUser, db: database };
+}
+
+async function loadReferenceData(): Promise<ReferenceData> {
+  const [transactions, transfers, subscriptions, rules, budgets, groups, categories, tags] = await Promise.all([
+    getAllTransactions(), getTransfers(), getSubscriptions(), getCategorizationRules(),
+    getBudgets(), getGroups(), getCategories(), getTags(),
+  ]);
+  return { transactions, transfers, subscriptions, rules, budgets, groups, categories, tags };
+}
+
+/** Collects the writes that apply `rewrites` to every record referencing the category or tag. */
+function planReferenceRewrites(
+  currentUser: User,
+  data: ReferenceData,
+  rewrites: { category?: CategoryRewrite; tag?: TagRewrite }
+): RewritePlan {
+  const updates: Record<string, any> = {};
+  const changedTransactions: Transaction[] = [];
+  const counts = emptyReferenceChangeCounts();
+  const rewriteRecord = <T extends Transaction | Subscription>(record: T): T | null => {
+    const withCategory = rewrites.category ? rewriteRecordCategory(record, rewrites.category) : null;
+    const withTags = rewrites.tag ? rewriteRecordTags(withCategory || record, rewrites.tag) : null;
+    return withTags || withCategory;
+  };
+
+  data.transactions.forEach(tx => {
+    const changed = rewriteRecord(tx);
+    if (!changed) return;
+    const basePath = `users/${currentUser.uid}/transactions/${tx.accountId}/${tx.id}`;
+    updates[`${basePath}/category`] = changed.category;
+    updates[`${basePath}/categoryId`] = changed.categoryId ?? null;
+    updates[`${basePath}/tags`] = changed.tags || [];
+    updates[`${basePath}/tagIds`] = changed.tagIds || [];
+    updates[`${basePath}/splits`] = changed.splits ?? null;
+    updates[`${basePath}/updatedAt`] = serverTimestamp();
+    changedTransactions.push(changed);
+  });
+  counts.transactions = changedTransactions.length;
+
+  data.subscriptions.forEach(subscription => {
+    const changed = rewriteRecord(subscription);
+    if (!changed) return;
+    const basePath = getSingleSubscriptionRefPath(currentUser, subscription.id);
+    updates[`${basePath}/category`] = changed.category;
+    updates[`${basePath}/categoryId`] = changed.categoryId ?? null;
+    updates[`${basePath}/tags`] = changed.tags || [];
+    updates[`${basePath}/tagIds`] = changed.tagIds || [];
+    updates[`${basePath}/updatedAt`] = serverTimestamp();
+    counts.subscriptions += 1;
+  });
+
+  data.rules.forEach(rule => {
+    const actions = rewriteRuleActions(rule.actions, rewrites);
+    if (!actions) return;
+    const basePath = getSingleCategorizationRuleRefPath(currentUser, rule.id);
+    updates[`${basePath}/actions/category`] = actions.category ?? null;
+    updates[`${basePath}/actions/categoryId`] = actions.categoryId ?? null;
+    updates[`${basePath}/actions/tags`] = actions.tags || [];
+    updates[`${basePath}/actions/tagIds`] = actions.tagIds || [];
+    counts.rules += 1;
+  });
+
+  if (rewrites.tag) {
+    // Transfer legs are rebuilt from the transfer's own tags, so the record must follow its legs
+    data.transfers.forEach(transfer => {
+      const changed = rewriteRecordTags(transfer, rewrites.tag!);
+      if (!changed) return;
+      const basePath = getSingleTransferRefPath(currentUser, transfer.id);
+      updates[`${basePath}/tags`] = changed.tags || [];
+      updates[`${basePath}/tagIds`] = changed.tagIds || [];
+      updates[`${basePath}/updatedAt`] = serverTimestamp();
+      counts.transfers += 1;
+    });
+  }
+
+  const { fromId, toId } = rewrites.category || {};
+  if (fromId) {
+    data.budgets.filter(budget => budget.appliesTo === 'categories').forEach(budget => {
+      const selectedIds = rewriteIdList(budget.selectedIds, fromId, toId ?? null);
+      if (!selectedIds) return;
+      const basePath = getSingleBudgetRefPath(currentUser, budget.id);
+      updates[`${basePath}/selectedIds`] = selectedIds;
+      updates[`${basePath}/updatedAt`] = serverTimestamp();
+      counts.budgets += 1;
+    });
+    data.groups.forEach(group => {
+      const categoryIds = rewriteIdList(group.categoryIds, fromId, toId ?? null);
+      if (!categoryIds) return;
+      updates[`${getSingleGroupRefPath(currentUser, group.id)}/categoryIds`] = categoryIds;
+      counts.groups += 1;
+    });
+  }
+
+  return { updates, changedTransactions, counts };
+}
+
+function emptyPlan(): RewritePlan {
+  return { updates: {}, changedTransactions: [], counts: emptyReferenceChangeCounts() };
+}
+
+function findCategory(categories: Category[], categoryId: string): Category {
+  const category = categories.find(cat => cat.id === categoryId);
+  if (!category) throw new Error("The category no longer exists.");
+  return category;
+}
+
+function findTag(tags: Tag[], tagId: string): Tag {
+  const tag = tags.find(t => t.id === tagId);
+  if (!tag) throw new Error("The tag no longer exists.");
+  return tag;
+}
+
+function assertNotReserved(category: Category) {
+  if (isReservedCategoryName(category.name)) {
+    throw new Error(`"${category.name}" is used by transfers and split transactions and cannot be renamed, merged or deleted.`);
+  }
+}
+
+function planCategoryChange(currentUser: User, data: ReferenceData, change: CategoryChange): RewritePlan {
+  const { categories } = data;
+
+  if (change.type === 'relink') {
+    const target = findCategory(categories, change.targetId);
+    return planReferenceRewrites(currentUser, data, { category: { fromNames: [change.name], toName: target.name, toId: target.id } });
+  }
+
+  const category = findCategory(categories, change.categoryId);
+  const categoryPath = getSingleCategoryRefPath(currentUser, category.id);
+
+  if (change.type === 'rename') {
+    const newName = change.newName.trim();
+    if (newName === category.name) return emptyPlan();
+    assertNotReserved(category);
+    if (!newName) throw new Error("Category name cannot be empty.");
+    if (categories.some(cat => cat.id !== category.id && cat.name.toLowerCase() === newName.toLowerCase())) {
+      throw new Error(`Another category named "${newName}" already exists.`);
+    }
+    // Records holding the category's ID show the new name on their own; only those matched by name change
+    const plan = planReferenceRewrites(currentUser, data, {
+      category: { fromNames: [category.name], toName: newName, fromId: category.id, toId: category.id },
+    });
+    plan.updates[`${categoryPath}/name`] = newName;
+    return plan;
+  }
+
+  // Merging and deleting both remove the category; its subcategories move to the target or up one level
+  assertNotReserved(category);
+  let target: Category | null = null;
+  let rewrite: CategoryRewrite;
+  if (change.type === 'merge') {
+    target = findCategory(categories, change.targetId);
+    if (target.id === category.id) throw new Error("A category cannot be merged into itself.");
+    assertNotReserved(target);
+    rewrite = { fromNames: [category.name], toName: target.name, fromId: category.id, toId: target.id };
+  } else {
+    const uncategorized = categories.find(cat => cat.name.toLowerCase() === UNCATEGORIZED.toLowerCase() && cat.id !== category.id);
+    rewrite = {
+      fromNames: category.name.toLowerCase() === UNCATEGORIZED.toLowerCase() ? [] : [category.name],
+      toName: uncategorized?.name || UNCATEGORIZED,
+      fromId: category.id,
+      toId: uncategorized?.id || null,
+    };
+  }
+
+  const plan = planReferenceRewrites(currentUser, data, { category: rewrite });
+  plan.updates[categoryPath] = null;
+  categories.filter(cat => cat.parentId === category.id).forEach(child => {
+    const parentId = target && child.id !== target.id ? target.id : category.parentId || null;
+    plan.updates[`${getSingleCategoryRefPath(currentUser, child.id)}/parentId`] = parentId;
+    plan.counts.categories += 1;
+  });
+  return plan;
+}
+
+function planTagChange(currentUser: User, data: ReferenceData, change: TagChange): RewritePlan {
+  const { tags } = data;
+
+  if (change.type === 'relink') {
+    const target = findTag(tags, change.targetId);
+    return planReferenceRewrites(currentUser, data, { tag: { fromNames: [change.name], toName: target.name, toId: target.id } });
+  }
+
+  const tag = findTag(tags, change.tagId);
+  const tagPath = getSingleTagRefPath(currentUser, tag.id);
+
+  if (change.type === 'rename') {
+    const newName = change.newName.trim();
+    if (newName === tag.name) return emptyPlan();
+    if (!newName) throw new Error("Tag name cannot be empty.");
+    if (tags.some(t => t.id !== tag.id && t.name.toLowerCase() === newName.toLowerCase())) {
+      throw new Error(`Another tag named "${newName}" already exists.`);
+    }
+    const plan = planReferenceRewrites(currentUser, data, { tag: { fromNames: [tag.name], toName: newName, fromId: tag.id, toId: tag.id } });
+    plan.updates[`${tagPath}/name`] = newName;
+    return plan;
+  }
+
+  let target: Tag | null = null;
+  if (change.type === 'merge') {
+    target = findTag(tags, change.targetId);
+    if (target.id === tag.id) throw new Error("A tag cannot be merged into itself.");
+  }
+  const plan = planReferenceRewrites(currentUser, data, {
+    tag: { fromNames: [tag.name], toName: target?.name ?? null, fromId: tag.id, toId: target?.id ?? null },
+  });
+  plan.updates[tagPath] = null;
+  return plan;
+}
+
+async function applyPlan(db: NonNullable<typeof database>, plan: RewritePlan, errorMessage: string): Promise<ReferenceChangeCounts> {
+  if (Object.keys(plan.updates).length === 0) return plan.counts;
+  try {
+    await update(ref(db), plan.updates);
+    if (plan.changedTransactions.length > 0) await applyTransactionChangesToLocalCache(plan.changedTransactions);
+    return plan.counts;
+  } catch (error) {
+    console.error(errorMessage, error);
+    throw error;
+  }
+}
+
+/** Counts the records a category change would rewrite, without saving anything. */
+export async function previewCategoryChange(change: CategoryChange): Promise<ReferenceChangeCounts> {
+  const { currentUser } = requireUserAndDatabase();
+  return planCategoryChange(currentUser, await loadReferenceData(), change).counts;
+}
+
+/**
+ * Renames, merges, deletes or relinks a category and rewrites every transaction, split line,
+ * subscription, rule, budget, group and subcategory that references it in a single update. The update
+ * goes straight to the database, so it is refused while offline or while queued writes are unsynced.
+ */
+export async function applyCategoryChange(change: CategoryChange): Promise<ReferenceChangeCounts> {
+  const { currentUser, db } = requireUserAndDatabase();
+  await requireSyncedWrites();
+  const plan = planCategoryChange(currentUser, await loadReferenceData(), change);
+  const counts = await applyPlan(db, plan, "Error rewriting category references in Firebase:");
+  await getCategories(); // Refreshes the cached names records are resolved with
+  return counts;
+}
+
+export async function previewTagChange(change: TagChange): Promise<ReferenceChangeCounts> {
+  const { currentUser } = requireUserAndDatabase();
+  return planTagChange(currentUser, await loadReferenceData(), change).counts;
+}
+
+/** Renames, merges, deletes or relinks a tag and rewrites every transaction, transfer, subscription and rule that uses it. */
+export async function applyTagChange(change: TagChange): Promise<ReferenceChangeCounts> {
+  const { currentUser, db } = requireUserAndDatabase();
+  await requireSyncedWrites();
+  const plan = planTagChange(currentUser, await loadReferenceData(), change);
+  const counts = await applyPlan(db, plan, "Error rewriting tag references in Firebase:");
+  await getTags();
+  return counts;
+}
+
+/** Category and tag names used by transactions, subscriptions and rules that match no existing category or tag. */
+export async function getUnlinkedReferences(): Promise<UnlinkedReferences> {
+  const data = await loadReferenceData();
+  const categoryNames: string[] = [];
+  const tagNames: string[] = [];
+  [...data.transactions, ...data.subscriptions].forEach(record => {
+    categoryNames.push(record.category, ...(('splits' in record && record.splits) || []).map(split => split.category));
+    tagNames.push(...(record.tags || []), ...(('splits' in record && record.splits) || []).flatMap(split => split.tags || []));
+  });
+  data.rules.forEach(rule => {
+    if (rule.actions.category) categoryNames.push(rule.actions.category);
+    tagNames.push(...(rule.actions.tags || []));
+  });
+
+  return {
+    categories: findUnlinkedNames(categoryNames, data.categories.map(cat => cat.name), BUILT_IN_CATEGORY_NAMES),
+    tags: findUnlinkedNames(tagNames, data.tags.map(tag => tag.name)),
+  };
+}
+
+/**
+ * Sets `categoryId` and `tagIds` on records saved before records held them, matching by name. Runs once
+ * per user, after queued writes have synced; records whose names match no category or tag stay unlinked.
+ * Returns the number of records updated.
+ */
+export async function migrateReferencesToIds(): Promise<number> {
+  const { currentUser, db } = requireUserAndDatabase();
+  const migrationPath = `users/${currentUser.uid}/migrations/referenceIds`;
+  if ((await get(ref(db, migrationPath))).exists()) return 0;
+  await requireSyncedWrites();
+
+  const data = await loadReferenceData();
+  const lookup = createReferenceLookup(data.categories, data.tags);
+  const updates: Record<string, any> = { [migrationPath]: serverTimestamp() };
+  const changedTransactions: Transaction[] = [];
+  let changedRecords = 0;
+  const sameIds = (a: string[] | undefined, b: string[] | undefined) => (a || []).join('|') === (b || []).join('|');
+
+  data.transactions.filter(tx => needsReferenceLinks(tx, lookup)).forEach(tx => {
+    const linked = linkRecordReferences(tx, lookup);
+    const basePath = `users/${currentUser.uid}/transactions/${tx.accountId}/${tx.id}`;
+    updates[`${basePath}/categoryId`] = linked.categoryId ?? null;
+    updates[`${basePath}/tagIds`] = linked.tagIds || [];
+    updates[`${basePath}/splits`] = linked.splits ?? null;
+    updates[`${basePath}/updatedAt`] = serverTimestamp();
+    changedTransactions.push(linked);
+  });
+  data.subscriptions.filter(subscription => needsReferenceLinks(subscription, lookup)).forEach(subscription => {
+    const linked = linkRecordReferences(subscription, lookup);
+    const basePath = getSingleSubscriptionRefPath(currentUser, subscription.id);
+    updates[`${basePath}/categoryId`] = linked.categoryId ?? null;
+    updates[`${basePath}/tagIds`] = linked.tagIds || [];
+    changedRecords += 1;
+  });
+  data.transfers.forEach(transfer => {
+    const linked = linkTagReferences(transfer, lookup);
+    if (sameIds(transfer.tagIds, linked.tagIds)) return;
+    updates[`${getSingleTransferRefPath(currentUser, transfer.id)}/tagIds`] = linked.tagIds || [];
+    changedRecords += 1;
+  });
+  data.rules.forEach(rule => {
+    const linked = linkRuleActionReferences(rule.actions, lookup);
+    if ((rule.actions.categoryId ?? null) === linked.categoryId && sameIds(rule.actions.tagIds, linked.tagIds)) return;
+    const basePath = getSingleCategorizationRuleRefPath(currentUser, rule.id);
+    updates[`${basePath}/actions/categoryId`] = linked.categoryId ?? null;
+    updates[`${basePath}/actions/tagIds`] = linked.tagIds || [];
+    changedRecords += 1;
+  });
+
+  try {
+    await update(ref(db), updates);
+    if (changedTransactions.length > 0) await applyTransactionChangesToLocalCache(changedTransactions);
+    return changedTransactions.length + changedRecords;
+  } catch (error) {
+    console.error("Error storing category and tag IDs in Firebase:", error);
+    throw error;
+  }
+}
@@ -0,0 +1,30 @@
+'use client';
+
+import { buildEntityDocuments, buildQuickActionDocuments, buildTransactionDocuments, type SearchDocument } from '@/lib/search-index';
+import { getAccounts } from './account-sync';
+import { getCategories } from './categories';
+import { getTags } from './tags';
+import { getGroups } from './groups';
+import { getSubscriptions } from './subscriptions';
+import { getLoans } from './loans';
+import { getAllTransactions } from './transaction-query';
+
+export type { SearchDocument, SearchResult, SearchAction } from '@/lib/search-index';
+
+/** Loads everything the command palette searches: quick actions, pages, named records and every transaction. */
+export async function getSearchDocuments(now: Date = new Date()): Promise<SearchDocument[]> {
+  const accounts = await getAccounts();
+  const [transactions, categories, tags, groups, subscriptions, loans] = await Promise.all([
+    getAllTransactions(accounts.map(account => account.id)),
+    getCategories(),
+    getTags(),
+    getGroups(),
+    getSubscriptions(),
+    getLoans(),
+  ]);
+  return [
+    ...buildQuickActionDocuments(accounts, now),
+    ...buildEntityDocuments({ accounts, categories, tags, groups, subscriptions, loans }),
+    ...buildTransactionDocuments(transactions, accounts),
+  ];
+}
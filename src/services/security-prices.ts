@@ -0,0 +1,168 @@
+'use client';
+
+import { database, auth } from '@/lib/firebase';
+import { ref, get, remove, update } from 'firebase/database';
+import type { User } from 'firebase/auth';
+import type { Security, SecurityPriceQuote } from '@/lib/holdings';
+import { parseSecurityPricesCsv } from '@/lib/security-price-import';
+
+export type SecurityPriceSource = 'manual' | 'file';
+
+/** The price of one unit of a security on `date`, in `currency`. */
+export interface SecurityPrice extends SecurityPriceQuote {
+  id: string;
+  source: SecurityPriceSource;
+}
+
+export type NewSecurityPriceData = Omit<SecurityPrice, 'id'>;
+
+/** Where current prices come from. Sources return quotes for the securities they know and report the rest. */
+export interface PriceSource {
+  id: SecurityPriceSource;
+  label: string;
+  fetchPrices(securities: Security[]): Promise<{ prices: NewSecurityPriceData[]; errors: string[] }>;
+}
+
+export function getSecurityPricesRefPath(currentUser: User | null) {
+  if (!currentUser?.uid) throw new Error("User not authenticated to access security prices.");
+  return `users/${currentUser.uid}/securityPrices`;
+}
+
+// One price per security per day: entering or importing it again overwrites instead of duplicating.
+function getPriceKey(price: Pick<SecurityPriceQuote, 'date' | 'securityId'>) {
+  return `${price.date}_${price.securityId}`;
+}
+
+function validatePrice(price: NewSecurityPriceData) {
+  if (!price.securityId) throw new Error("Security prices need a security.");
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(price.date)) throw new Error(`Invalid price date "${price.date}".`);
+  if (!price.currency) throw new Error("Price currency is required.");
+  if (!(price.price > 0)) throw new Error("Price must be positive.");
+}
+
+/** Returns stored prices, newest first; pass a security ID to get only that security's. */
+export async function getSecurityPrices(securityId?: string): Promise<SecurityPrice[]> {
+  const currentUser = auth?.currentUser;
+  if (!currentUser || !database) {
+    console.warn("getSecurityPrices called without authenticated user, returning empty array.");
+    return [];
+  }
+
+  try {
+    const snapshot = await get(ref(database, getSecurityPricesRefPath(currentUser)));
+    if (!snapshot.exists()) return [];
+    const pricesData = snapshot.val() as Record<string, Partial<Omit<SecurityPrice, 'id'>>>;
+    return Object.entries(pricesData)
+      .map(([id, price]) => ({
+        id,
+        securityId: price.securityId || '',
+        date: price.date || '',
+        price: typeof price.price === 'number' ? price.price : 0,
+        currency: (price.currency || '').toUpperCase(),
+        source: price.source || 'manual',
+      }))
+      .filter(price => !securityId || price.securityId === securityId)
+      .sort((a, b) => b.date.localeCompare(a.date));
+  } catch (error) {
+    console.error("Error fetching security prices from Firebase:", error);
+    throw error;
+  }
+}
+
+/**
+ * Saves many prices in one multi-path update. Prices for a security and day that already exist are replaced.
+ */
+export async function addSecurityPrices(pricesData: NewSecurityPriceData[]): Promise<SecurityPrice[]> {
+  const currentUser = auth?.currentUser;
+  if (!currentUser || !database) {
+    throw new Error("User not authenticated. Cannot add security prices.");
+  }
+  const basePath = getSecurityPricesRefPath(currentUser);
+  const updates: Record<string, Omit<SecurityPrice, 'id'>> = {};
+  const saved: SecurityPrice[] = [];
+
+  pricesData.forEach(priceData => {
+    const normalized: NewSecurityPriceData = { ...priceData, currency: priceData.currency.trim().toUpperCase() };
+    validatePrice(normalized);
+    const id = getPriceKey(normalized);
+    updates[`${basePath}/${id}`] = normalized;
+    saved.push({ id, ...normalized });
+  });
+
+  if (saved.length === 0) return [];
+
+  try {
+    await update(ref(database), updates);
+    return saved;
+  } catch (error) {
+    console.error("Error adding security prices to Firebase:", error);
+    throw error;
+  }
+}
+
+export async function addSecurityPrice(priceData: NewSecurityPriceData): Promise<SecurityPrice> {
+  const [saved] = await addSecurityPrices([priceData]);
+  return saved;
+}
+
+export async function deleteSecurityPrice(priceId: string): Promise<void> {
+  const currentUser = auth?.currentUser;
+  if (!currentUser || !database) {
+    throw new Error("User not authenticated. Cannot delete security price.");
+  }
+  try {
+    await remove(ref(database, `${getSecurityPricesRefPath(currentUser)}/${priceId}`));
+  } catch (error) {
+    console.error("Error deleting security price from Firebase:", error);
+    throw error;
+  }
+}
+
+/** A price typed in by the user, for one security. */
+export function createManualPriceSource(entry: { securityId: string; date: string; price: number }): PriceSource {
+  return {
+    id: 'manual',
+    label: 'Manual entry',
+    async fetchPrices(securities) {
+      const security = securities.find(s => s.id === entry.securityId);
+      if (!security) return { prices: [], errors: ["The security no longer exists."] };
+      return { prices: [{ ...entry, currency: security.currency, source: 'manual' }], errors: [] };
+    },
+  };
+}
+
+/**
+ * Prices from a local CSV file (see `parseSecurityPricesCsv`), matched to securities by symbol. Rows
+ * without a currency are taken to be in the security's currency.
+ */
+export function createPriceFileSource(csvText: string): PriceSource {
+  return {
+    id: 'file',
+    label: 'Price file',
+    async fetchPrices(securities) {
+      const { prices: parsedPrices, errors } = parseSecurityPricesCsv(csvText);
+      const securitiesBySymbol = new Map(securities.map(security => [security.symbol.toUpperCase(), security]));
+      const unknownSymbols = new Set<string>();
+      const prices: NewSecurityPriceData[] = [];
+      parsedPrices.forEach(parsed => {
+        const security = securitiesBySymbol.get(parsed.symbol);
+        if (!security) {
+          unknownSymbols.add(parsed.symbol);
+          return;
+        }
+        prices.push({ securityId: security.id, date: parsed.date, price: parsed.price, currency: parsed.currency || security.currency, source: 'file' });
+      });
+      if (unknownSymbols.size > 0) {
+        errors.push(`No security with the symbol ${Array.from(unknownSymbols).join(', ')}; those rows were skipped.`);
+      }
+      return { prices, errors };
+    },
+  };
+}
+
+/** Fetches prices for the given securities from a source and stores them. */
+export async function updatePricesFromSource(source: PriceSource, securities: Security[]): Promise<{ saved: SecurityPrice[]; errors: string[] }> {
+  const { prices, errors } = await source.fetchPrices(securities);
+  const saved = await addSecurityPrices(prices);
+  return { saved, errors };
+}
@@ -4,6 +4,9 @@
 import { database, auth } from '@/lib/firebase';
 import { ref, set, get, push, remove, update, serverTimestamp } from 'firebase/database';
 import type { User } from 'firebase/auth';
+import { format, subDays } from 'date-fns';
+import { linkRecordReferences, resolveRecordReferences } from '@/lib/reference-rewrites';
+import { getCachedReferenceLookup } from './reference-lookup';
 
 export type SubscriptionFrequency = 'daily' | 'weekly' | 'bi-weekly' | 'monthly' | 'quarterly' | 'semi-annually' | 'annually';
 export type SubscriptionType = 'income' | 'expense';
@@ -15,6 +18,7 @@ export interface Subscription {
   currency: string;
   type: SubscriptionType;
   category: string;
+  categoryId?: string | null;
   accountId?: string; // Optional: Link to an account
   groupId: string | null; // Optional: Link to a group, can be null
   startDate: string; // ISO string: YYYY-MM-DD
@@ -22,13 +26,17 @@ export interface Subscription {
   nextPaymentDate: string; // ISO string: YYYY-MM-DD
   notes?: string;
   tags?: string[];
+  tagIds?: string[];
   lastPaidMonth?: string | null; // YYYY-MM format, or null if not paid for the current cycle
   description?: string;
+  settledOccurrences?: Record<string, string>; // Occurrence date (YYYY-MM-DD) -> id of the transaction that settled it
+  autoPostedThrough?: string; // YYYY-MM-DD; payments due after this date are posted on sign-in without asking
+  scheduleAnchor?: string | null; // YYYY-MM-DD; occurrences are counted from this date so month-end payments do not drift
   createdAt?: object; // For server timestamp
   updatedAt?: object; // For server timestamp
 }
 
-export type NewSubscriptionData = Omit<Subscription, 'id' | 'createdAt' | 'updatedAt' | 'lastPaidMonth'> & {
+export type NewSubscriptionData = Omit<Subscription, 'id' | 'createdAt' | 'updatedAt' | 'lastPaidMonth' | 'settledOccurrences' | 'autoPostedThrough' | 'scheduleAnchor'> & {
     lastPaidMonth?: string | null;
     groupId?: string | null; // Ensure groupId is optional and can be null here too
 };
@@ -56,15 +64,17 @@ export async function getSubscriptions(): Promise<Subscription[]> {
     const snapshot = await get(subscriptionsRef);
     if (snapshot.exists()) {
       const subscriptionsData = snapshot.val();
+      const referenceLookup = getCachedReferenceLookup();
       return Object.entries(subscriptionsData).map(([id, data]) => {
         const subData = data as Partial<Omit<Subscription, 'id'>>; // Treat as partial initially
-        return {
+        return resolveRecordReferences({
           id,
           name: subData.name || 'Unnamed Subscription',
           amount: typeof subData.amount === 'number' ? subData.amount : 0,
           currency: subData.currency || 'USD', // Default currency
           type: subData.type || 'expense', // Default type
           category: subData.category || 'Uncategorized',
+          categoryId: subData.categoryId ?? null,
           accountId: subData.accountId,
           groupId: subData.groupId === undefined ? null : subData.groupId, // Ensure groupId is null if undefined
           startDate: typeof subData.startDate === 'string' && subData.startDate ? subData.startDate : new Date().toISOString().split('T')[0], // Default if missing/invalid
@@ -72,11 +82,15 @@ export async function getSubscriptions(): Promise<Subscription[]> {
           nextPaymentDate: typeof subData.nextPaymentDate === 'string' && subData.nextPaymentDate ? subData.nextPaymentDate : new Date().toISOString().split('T')[0], // Default if missing/invalid
           notes: subData.notes,
           tags: subData.tags || [],
+          tagIds: subData.tagIds || [],
           lastPaidMonth: subData.lastPaidMonth || null,
           description: subData.description,
+          settledOccurrences: subData.settledOccurrences || {},
+          autoPostedThrough: subData.autoPostedThrough,
+          scheduleAnchor: subData.scheduleAnchor ?? null,
           createdAt: subData.createdAt,
           updatedAt: subData.updatedAt,
-        };
+        }, referenceLookup);
       });
     }
     return [];
@@ -99,14 +113,16 @@ export async function addSubscription(subscriptionData: NewSubscriptionData): Pr
     throw new Error("Failed to generate a new subscription ID.");
   }
 
-  const newSubscription: Subscription = {
+  const newSubscription: Subscription = linkRecordReferences({
     ...subscriptionData,
     id: newSubscriptionRef.key,
     lastPaidMonth: subscriptionData.lastPaidMonth || null,
     groupId: subscriptionData.groupId === undefined || subscriptionData.groupId === "" ? null : subscriptionData.groupId,
+    // Payments falling due from today on are posted automatically; any earlier ones need confirming
+    autoPostedThrough: format(subDays(new Date(), 1), 'yyyy-MM-dd'),
     createdAt: serverTimestamp(),
     updatedAt: serverTimestamp(),
-  };
+  }, getCachedReferenceLookup());
 
   const dataToSave = { ...newSubscription } as any;
   delete dataToSave.id; // Firebase key is the ID
@@ -120,8 +136,9 @@ export async function addSubscription(subscriptionData: NewSubscriptionData): Pr
   }
 }
 
-export async function updateSubscription(updatedSubscription: Subscription): Promise<Subscription> {
+export async function updateSubscription(subscription: Subscription): Promise<Subscription> {
   const currentUser = auth.currentUser;
+  const updatedSubscription = linkRecordReferences(subscription, getCachedReferenceLookup());
   const { id } = updatedSubscription;
 
   if (!currentUser || !id) {
@@ -137,10 +154,13 @@ export async function updateSubscription(updatedSubscription: Subscription): Pro
     currency: updatedSubscription.currency,
     type: updatedSubscription.type,
     category: updatedSubscription.category,
+    categoryId: updatedSubscription.categoryId ?? null,
     startDate: updatedSubscription.startDate,
     frequency: updatedSubscription.frequency,
     nextPaymentDate: updatedSubscription.nextPaymentDate,
+    scheduleAnchor: updatedSubscription.scheduleAnchor ?? null,
     tags: updatedSubscription.tags || [],
+    tagIds: updatedSubscription.tagIds || [],
     lastPaidMonth: updatedSubscription.lastPaidMonth === undefined ? null : updatedSubscription.lastPaidMonth,
     description: updatedSubscription.description || null, // Ensure description is null if empty
     updatedAt: serverTimestamp(),
@@ -0,0 +1,145 @@
+'use client';
+
+import { database, auth } from '@/lib/firebase';
+import { ref, get, update } from 'firebase/database';
+import { createSyncEngine, type OutboxEntry, type SyncEngine, type SyncStatus, type SyncUpdates } from '@/lib/sync-engine';
+import { adjustCachedAccountBalance } from './account-sync';
+import { hydrateTransactionsFromDatabase } from './transactions';
+
+export type { SyncStatus, SyncState } from '@/lib/sync-engine';
+
+let engine: SyncEngine | null = null;
+let engineUserId: string | null = null;
+const statusListeners = new Set<(status: SyncStatus) => void>();
+let unsubscribeEngine: (() => void) | null = null;
+
+const OFFLINE_STATUS: SyncStatus = { state: 'offline', pendingWrites: 0, conflicts: 0, lastSyncedAt: null, lastError: null };
+
+function isBrowserOnline(): boolean {
+  return typeof navigator === 'undefined' || navigator.onLine !== false;
+}
+
+/** Account balance increments in a queued write (see addAccountBalanceIncrements), by account ID. */
+function getBalanceIncrements(updates: SyncUpdates): Map<string, number> {
+  const increments = new Map<string, number>();
+  Object.entries(updates).forEach(([path, value]) => {
+    const accountId = path.match(/^users\/[^/]+\/accounts\/([^/]+)\/balance$/)?.[1];
+    const delta = (value as { '.sv'?: { increment?: unknown } } | null)?.['.sv']?.increment;
+    if (accountId && typeof delta === 'number') increments.set(accountId, delta);
+  });
+  return increments;
+}
+
+/**
+ * Undoes what a dropped write changed locally: the cached balances it adjusted when it was queued move
+ * back, and the records it touched are reloaded from the database.
+ */
+async function revertDroppedWrite(syncEngine: SyncEngine, entry: OutboxEntry): Promise<void> {
+  console.warn("Sync: a queued write was older than the database copy and was dropped.", entry);
+  getBalanceIncrements(entry.updates).forEach((delta, accountId) => adjustCachedAccountBalance(accountId, -delta));
+  try {
+    await hydrateTransactionsFromDatabase(syncEngine.getPendingRecordPaths());
+  } catch (error) {
+    console.error("Sync: failed to reload transactions after dropping a queued write:", error);
+  }
+  window.dispatchEvent(new Event('storage'));
+}
+
+/**
+ * The sync engine for the signed-in user, created on first use. Returns null without a user, so
+ * callers can fall back to writing directly.
+ */
+export function getSyncEngine(): SyncEngine | null {
+  const currentUser = auth?.currentUser;
+  const db = database;
+  if (!currentUser || !db || typeof window === 'undefined') return null;
+  if (engine && engineUserId === currentUser.uid) return engine;
+
+  unsubscribeEngine?.();
+  engineUserId = currentUser.uid;
+  const syncEngine: SyncEngine = createSyncEngine({
+    remote: {
+      read: async path => (await get(ref(db, path))).val(),
+      write: updates => update(ref(db), updates),
+    },
+    store: window.localStorage,
+    outboxKey: `syncOutbox-${currentUser.uid}`,
+    isOnline: isBrowserOnline,
+    onConflict: entry => { revertDroppedWrite(syncEngine, entry); },
+  });
+  engine = syncEngine;
+  unsubscribeEngine = engine.subscribe(status => statusListeners.forEach(listener => listener(status)));
+  statusListeners.forEach(listener => listener(engine!.getStatus()));
+  return engine;
+}
+
+export function getSyncStatus(): SyncStatus {
+  return getSyncEngine()?.getStatus() ?? OFFLINE_STATUS;
+}
+
+export function subscribeToSyncStatus(listener: (status: SyncStatus) => void): () => void {
+  statusListeners.add(listener);
+  return () => { statusListeners.delete(listener); };
+}
+
+/** Replays queued writes in the background; failures are reported through the sync status. */
+export function requestSync(): void {
+  getSyncEngine()?.flush().catch(error => console.error("Sync: flush failed:", error));
+}
+
+/**
+ * Replays queued writes and throws if any are left or the browser is offline. Operations that read the
+ * database as a whole (e.g. recomputing balances or exporting) call this first, so they do not miss
+ * changes made offline; so do writes that bypass the outbox, which would otherwise wait for a connection
+ * without updating the local caches.
+ */
+export async function requireSyncedWrites(): Promise<void> {
+  const syncEngine = getSyncEngine();
+  if (!syncEngine) return;
+  const status = await syncEngine.flush();
+  if (status.state === 'offline') {
+    throw new Error("You are offline. Reconnect and try again.");
+  }
+  if (status.pendingWrites > 0) {
+    throw new Error("Some changes are still waiting to sync. Reconnect and try again.");
+  }
+}
+
+/**
+ * Replays queued writes, then refreshes the local transaction cache from the database so data written
+ * on other devices shows up. Pages are notified through a storage event when the cache changed.
+ */
+export async function syncNow(): Promise<SyncStatus> {
+  const syncEngine = getSyncEngine();
+  if (!syncEngine) return OFFLINE_STATUS;
+
+  const status = await syncEngine.flush();
+  if (status.state === 'offline' || status.state === 'error') return status;
+
+  try {
+    const changed = await hydrateTransactionsFromDatabase(syncEngine.getPendingRecordPaths());
+    syncEngine.markSynced();
+    if (changed) window.dispatchEvent(new Event('storage'));
+  } catch (error) {
+    console.error("Sync: failed to refresh transactions from the database:", error);
+  }
+  return syncEngine.getStatus();
+}
+
+/**
+ * Starts syncing for the signed-in user: an initial sync, then a replay whenever the browser comes back
+ * online. Returns a function that stops listening.
+ */
+export function startSync(): () => void {
+  const handleOnline = () => { syncNow().catch(error => console.error("Sync: sync after reconnect failed:", error)); };
+  const handleOffline = () => getSyncEngine()?.refreshStatus();
+
+  window.addEventListener('online', handleOnline);
+  window.addEventListener('offline', handleOffline);
+  handleOnline();
+
+  return () => {
+    window.removeEventListener('online', handleOnline);
+    window.removeEventListener('offline', handleOffline);
+  };
+}
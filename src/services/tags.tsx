@@ -5,6 +5,7 @@ import React from 'react';
 import { database, auth } from '@/lib/firebase';
 import { ref, set, get, push, remove } from 'firebase/database';
 import type { User } from 'firebase/auth';
+import { cacheReferenceNames } from './reference-lookup';
 
 export interface Tag {
   id: string;
@@ -43,10 +44,12 @@ export async function getTags(): Promise<Tag[]> {
     const snapshot = await get(tagsRef);
     if (snapshot.exists()) {
       const tagsData = snapshot.val();
-      return Object.entries(tagsData).map(([id, data]) => ({
+      const tags = Object.entries(tagsData).map(([id, data]) => ({
         id,
         ...(data as Omit<Tag, 'id'>),
       }));
+      cacheReferenceNames('tags', tags);
+      return tags;
     } else {
       // Initialize with default tags if none exist
       console.log("No tags found for user, initializing with defaults...");
@@ -62,6 +65,7 @@ export async function getTags(): Promise<Tag[]> {
       if (Object.keys(initialTags).length > 0) {
         await set(tagsRef, initialTags);
       }
+      cacheReferenceNames('tags', createdTags);
       return createdTags;
     }
   } catch (error) {
@@ -95,7 +99,9 @@ export async function addTag(tagName: string): Promise<Tag> {
 
   try {
     await set(newTagRef, newTagData);
-    return { id: newTagRef.key, ...newTagData };
+    const newTag = { id: newTagRef.key, ...newTagData };
+    cacheReferenceNames('tags', [...currentTags, newTag]);
+    return newTag;
   } catch (error) {
     console.error("Error adding tag to Firebase:", error);
     throw error;
@@ -120,6 +126,7 @@ export async function updateTag(tagId: string, newName: string): Promise<Tag> {
   const updatedTagData: Omit<Tag, 'id'> = { name: normalizedNewName };
   try {
     await set(tagRef, updatedTagData);
+    cacheReferenceNames('tags', currentTags.map(tag => tag.id === tagId ? { id: tagId, ...updatedTagData } : tag));
     return { id: tagId, ...updatedTagData };
   } catch (error) {
     console.error("Error updating tag in Firebase:", error);
@@ -132,7 +139,9 @@ export async function deleteTag(tagId: string): Promise<void> {
   const tagRefPath = getSingleTagRefPath(currentUser, tagId);
   const tagRef = ref(database, tagRefPath);
   try {
+    const currentTags = await getTags();
     await remove(tagRef);
+    cacheReferenceNames('tags', currentTags.filter(tag => tag.id !== tagId));
   } catch (error) {
     console.error("Error deleting tag from Firebase:", error);
     throw error;
@@ -0,0 +1,68 @@
+'use client';
+
+import { format as formatDateFns } from 'date-fns';
+import { getAccounts } from './account-sync';
+import { getTransactionLines, type Transaction, type TransactionLine } from './transactions';
+import { getTransfers } from './transfers';
+import { getAllTransactions } from './transaction-query';
+import {
+  buildCsvExport,
+  buildFireflyCsvExport,
+  buildOfxExport,
+  type CsvExportOptions,
+  type ExportFormat,
+} from '@/lib/transaction-export';
+
+export type { CsvExportColumn, CsvExportOptions, DecimalSeparator, ExportFormat } from '@/lib/transaction-export';
+export { CSV_EXPORT_COLUMNS, DEFAULT_CSV_EXPORT_COLUMNS, getLocaleDecimalSeparator } from '@/lib/transaction-export';
+
+export interface TransactionExportFile {
+  content: string;
+  fileName: string;
+  mimeType: string;
+}
+
+function isTransactionLine(transaction: Transaction): transaction is TransactionLine {
+  return 'splitIndex' in transaction && 'parent' in transaction;
+}
+
+/**
+ * Builds an export file for the given transactions, as listed by a page: stored transactions, or split
+ * lines on pages that list them. `fileNamePrefix` names the file, e.g. 'transactions' or an account name.
+ */
+export async function exportTransactions(
+  transactions: Transaction[],
+  format: ExportFormat,
+  options: { fileNamePrefix: string; csv: CsvExportOptions }
+): Promise<TransactionExportFile> {
+  const lines = transactions.flatMap(transaction => isTransactionLine(transaction) ? [transaction] : getTransactionLines(transaction));
+  const baseFileName = `${options.fileNamePrefix.trim().replace(/[\\/:*?"<>|]+/g, '-') || 'transactions'}-${formatDateFns(new Date(), 'yyyy-MM-dd')}`;
+
+  try {
+    const accounts = await getAccounts();
+
+    if (format === 'ofx') {
+      // Bank statements list whole transactions, so split lines are folded back into their parent
+      const stored = Array.from(new Map(lines.map(line => [line.parent.id, line.parent])).values());
+      return { content: buildOfxExport(stored, { accounts }), fileName: `${baseFileName}.ofx`, mimeType: 'application/x-ofx' };
+    }
+
+    if (format === 'firefly') {
+      const transfers = await getTransfers();
+      const hasUnlinkedTransferLegs = lines.some(line => line.category === 'Transfer' && !line.transferId);
+      const counterparts = hasUnlinkedTransferLegs
+        ? (await getAllTransactions()).filter(transaction => transaction.category === 'Transfer' && !transaction.transferId)
+        : [];
+      return {
+        content: buildFireflyCsvExport(lines, { accounts, transfers, counterparts }),
+        fileName: `${baseFileName}-firefly.csv`,
+        mimeType: 'text/csv',
+      };
+    }
+
+    return { content: buildCsvExport(lines, { accounts }, options.csv), fileName: `${baseFileName}.csv`, mimeType: 'text/csv' };
+  } catch (error) {
+    console.error("Error exporting transactions:", error);
+    throw error;
+  }
+}
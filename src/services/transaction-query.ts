@@ -0,0 +1,301 @@
+'use client';
+
+import { format as formatDateFns } from 'date-fns';
+import { getAccounts } from './account-sync';
+import { getCategories, type Category } from './categories';
+import { getGroups, type Group } from './groups';
+import { getTransactions, getTransactionLines, type Transaction, type TransactionLine } from './transactions';
+import { createHistoricalConverter, type MissingExchangeRate } from '@/lib/currency';
+import { getUserPreferences } from '@/lib/preferences';
+
+export type TransactionKind = 'expense' | 'income' | 'transfer';
+
+/** Every field is optional; an empty filter matches all transactions. List fields match any of their values. */
+export interface TransactionFilter {
+  from?: Date | string | null; // Inclusive, compared by calendar day
+  to?: Date | string | null; // Inclusive, compared by calendar day
+  accountIds?: string[];
+  categories?: string[]; // Category names
+  groupIds?: string[]; // Matches the categories linked to the groups
+  tags?: string[];
+  kinds?: TransactionKind[];
+  minAmount?: number | null; // Compared with the absolute amount, in the transaction currency
+  maxAmount?: number | null;
+  search?: string; // Case-insensitive match on description, category, tags and split memos
+}
+
+export type TransactionSortField = 'date' | 'amount' | 'description' | 'category';
+
+export interface TransactionSort {
+  field: TransactionSortField;
+  direction: 'asc' | 'desc';
+}
+
+export interface TransactionQuery {
+  filter?: TransactionFilter;
+  sort?: TransactionSort; // Defaults to newest first
+  page?: number; // 1-based
+  pageSize?: number; // Omit to return every match on one page
+  // Filters and aggregates always work on split lines. When set, the page lists the matching lines
+  // (TransactionLine); otherwise it lists each matching stored transaction once.
+  expandSplits?: boolean;
+  targetCurrency?: string; // Currency of the aggregates; defaults to the user's preferred currency
+}
+
+/** Category and group data needed to resolve group filters. */
+export interface TransactionQueryContext {
+  categories: Category[];
+  groups: Group[];
+}
+
+export interface CategoryAggregate {
+  category: string;
+  income: number;
+  expense: number; // Positive number
+  count: number;
+}
+
+export interface MonthAggregate {
+  month: string; // YYYY-MM
+  income: number;
+  expense: number;
+  net: number;
+}
+
+export interface CurrencyAggregate {
+  currency: string;
+  income: number; // In the transaction currency
+  expense: number;
+  convertedNet: number; // In the target currency
+}
+
+/** Totals over every matching line (not just the returned page), converted at each transaction's date. */
+export interface TransactionAggregates {
+  targetCurrency: string;
+  income: number;
+  expense: number; // Positive number
+  net: number;
+  transfersIn: number; // Transfer legs are kept out of income and expense
+  transfersOut: number;
+  byCategory: CategoryAggregate[]; // Largest expense first
+  byMonth: MonthAggregate[]; // Oldest first
+  byCurrency: CurrencyAggregate[];
+  missingExchangeRates: MissingExchangeRate[];
+}
+
+export interface TransactionQueryResult<T extends Transaction = Transaction> {
+  transactions: T[]; // The requested page
+  totalCount: number;
+  page: number;
+  pageSize: number;
+  pageCount: number;
+  aggregates: TransactionAggregates;
+}
+
+const DEFAULT_SORT: TransactionSort = { field: 'date', direction: 'desc' };
+
+/** Transfer legs move money between accounts. A transfer's fee leg shares its transferId but is a real expense. */
+export function isTransferTransaction(transaction: Pick<Transaction, 'category'>): boolean {
+  return transaction.category === 'Transfer';
+}
+
+export function getTransactionKind(transaction: Pick<Transaction, 'amount' | 'category'>): TransactionKind {
+  if (isTransferTransaction(transaction)) return 'transfer';
+  return transaction.amount < 0 ? 'expense' : 'income';
+}
+
+function toDayString(value: Date | string): string {
+  return typeof value === 'string' ? value.slice(0, 10) : formatDateFns(value, 'yyyy-MM-dd');
+}
+
+/** Loads the transactions of the given accounts (all accounts by default), newest first. */
+export async function getAllTransactions(accountIds?: string[]): Promise<Transaction[]> {
+  const ids = accountIds ?? (await getAccounts()).map(account => account.id);
+  const transactionsByAccount = await Promise.all(ids.map(accountId => getTransactions(accountId)));
+  return transactionsByAccount
+    .flat()
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+}
+
+/**
+ * Applies `filter` to the lines of `transactions`. Split transactions are matched line by line so a
+ * category, group or tag filter only picks the lines it names.
+ */
+export function filterTransactionLines(
+  transactions: Transaction[],
+  filter: TransactionFilter = {},
+  context?: TransactionQueryContext
+): TransactionLine[] {
+  const from = filter.from ? toDayString(filter.from) : null;
+  const to = filter.to ? toDayString(filter.to) : null;
+  const accountIds = filter.accountIds && filter.accountIds.length > 0 ? new Set(filter.accountIds) : null;
+  const tags = filter.tags && filter.tags.length > 0 ? new Set(filter.tags.map(tag => tag.toLowerCase())) : null;
+  const kinds = filter.kinds && filter.kinds.length > 0 ? new Set(filter.kinds) : null;
+  const search = filter.search?.trim().toLowerCase() || null;
+
+  let categories: Set<string> | null = filter.categories && filter.categories.length > 0
+    ? new Set(filter.categories.map(category => category.toLowerCase()))
+    : null;
+  if (filter.groupIds && filter.groupIds.length > 0) {
+    if (!context) throw new Error("Filtering by group requires the user's groups and categories.");
+    const groupCategoryIds = new Set(context.groups.filter(group => filter.groupIds!.includes(group.id)).flatMap(group => group.categoryIds || []));
+    const groupCategoryNames = context.categories.filter(category => groupCategoryIds.has(category.id)).map(category => category.name.toLowerCase());
+    // A transaction must satisfy both filters when both are given.
+    categories = categories ? new Set(groupCategoryNames.filter(name => categories!.has(name))) : new Set(groupCategoryNames);
+  }
+
+  return transactions
+    .filter(tx => {
+      const day = tx.date.slice(0, 10);
+      if (from && day < from) return false;
+      if (to && day > to) return false;
+      if (accountIds && !accountIds.has(tx.accountId)) return false;
+      if (kinds && !kinds.has(getTransactionKind(tx))) return false;
+      return true;
+    })
+    .flatMap(getTransactionLines)
+    .filter(line => {
+      const absoluteAmount = Math.abs(line.amount);
+      if (filter.minAmount != null && absoluteAmount < filter.minAmount) return false;
+      if (filter.maxAmount != null && absoluteAmount > filter.maxAmount) return false;
+      if (categories && !categories.has(line.category.toLowerCase())) return false;
+      if (tags && !(line.tags || []).some(tag => tags.has(tag.toLowerCase()))) return false;
+      if (search) {
+        const haystack = [line.description, line.category, line.memo || '', ...(line.tags || [])].join(' ').toLowerCase();
+        if (!haystack.includes(search)) return false;
+      }
+      return true;
+    });
+}
+
+/** The stored transactions behind the matching lines, each once. */
+function collapseToTransactions(lines: TransactionLine[]): Transaction[] {
+  const seen = new Set<string>();
+  return lines.flatMap(line => {
+    if (seen.has(line.parent.id)) return [];
+    seen.add(line.parent.id);
+    return [line.parent];
+  });
+}
+
+export function sortTransactions<T extends Transaction>(transactions: T[], sort: TransactionSort = DEFAULT_SORT): T[] {
+  const direction = sort.direction === 'asc' ? 1 : -1;
+  const compare = (a: T, b: T): number => {
+    switch (sort.field) {
+      case 'amount': return a.amount - b.amount;
+      case 'description': return a.description.localeCompare(b.description);
+      case 'category': return a.category.localeCompare(b.category);
+      default: return a.date.localeCompare(b.date);
+    }
+  };
+  // Ties fall back to the date so pages stay stable between requests.
+  return [...transactions].sort((a, b) => (compare(a, b) || a.date.localeCompare(b.date)) * direction);
+}
+
+/**
+ * Sums matching lines in `targetCurrency` using the historical rate for each transaction's date. Rates
+ * must already be loaded (see loadHistoricalExchangeRates); missing ones are reported, not thrown.
+ */
+export function aggregateTransactionLines(lines: TransactionLine[], targetCurrency: string): TransactionAggregates {
+  const converter = createHistoricalConverter();
+  const byCategory = new Map<string, CategoryAggregate>();
+  const byMonth = new Map<string, MonthAggregate>();
+  const byCurrency = new Map<string, CurrencyAggregate>();
+  const aggregates: TransactionAggregates = {
+    targetCurrency, income: 0, expense: 0, net: 0, transfersIn: 0, transfersOut: 0,
+    byCategory: [], byMonth: [], byCurrency: [], missingExchangeRates: [],
+  };
+
+  lines.forEach(line => {
+    const currency = line.transactionCurrency.toUpperCase();
+    const converted = currency === targetCurrency.toUpperCase()
+      ? line.amount
+      : converter.convert(line.amount, line.transactionCurrency, targetCurrency, line.date);
+
+    const currencyTotals = byCurrency.get(currency) || { currency, income: 0, expense: 0, convertedNet: 0 };
+    if (line.amount >= 0) currencyTotals.income += line.amount; else currencyTotals.expense += -line.amount;
+    currencyTotals.convertedNet += converted;
+    byCurrency.set(currency, currencyTotals);
+
+    if (isTransferTransaction(line)) {
+      if (converted >= 0) aggregates.transfersIn += converted; else aggregates.transfersOut += -converted;
+      return;
+    }
+
+    const month = line.date.slice(0, 7);
+    const monthTotals = byMonth.get(month) || { month, income: 0, expense: 0, net: 0 };
+    const categoryTotals = byCategory.get(line.category) || { category: line.category, income: 0, expense: 0, count: 0 };
+    if (converted >= 0) {
+      aggregates.income += converted;
+      monthTotals.income += converted;
+      categoryTotals.income += converted;
+    } else {
+      aggregates.expense += -converted;
+      monthTotals.expense += -converted;
+      categoryTotals.expense += -converted;
+    }
+    monthTotals.net += converted;
+    categoryTotals.count += 1;
+    byMonth.set(month, monthTotals);
+    byCategory.set(line.category, categoryTotals);
+  });
+
+  aggregates.net = aggregates.income - aggregates.expense;
+  aggregates.byCategory = Array.from(byCategory.values()).sort((a, b) => b.expense - a.expense || b.income - a.income);
+  aggregates.byMonth = Array.from(byMonth.values()).sort((a, b) => a.month.localeCompare(b.month));
+  aggregates.byCurrency = Array.from(byCurrency.values()).sort((a, b) => a.currency.localeCompare(b.currency));
+  aggregates.missingExchangeRates = converter.getMissingRates();
+  return aggregates;
+}
+
+/**
+ * Filters, sorts, paginates and aggregates transactions that are already loaded. Pages that keep the
+ * full list in state use this to re-query on filter changes without reading storage again.
+ */
+export function runTransactionQuery(
+  transactions: Transaction[],
+  query: TransactionQuery & { targetCurrency: string; expandSplits: true },
+  context?: TransactionQueryContext
+): TransactionQueryResult<TransactionLine>;
+export function runTransactionQuery(
+  transactions: Transaction[],
+  query: TransactionQuery & { targetCurrency: string },
+  context?: TransactionQueryContext
+): TransactionQueryResult<Transaction>;
+export function runTransactionQuery(
+  transactions: Transaction[],
+  query: TransactionQuery & { targetCurrency: string },
+  context?: TransactionQueryContext
+): TransactionQueryResult<Transaction> {
+  const lines = filterTransactionLines(transactions, query.filter, context);
+  const aggregates = aggregateTransactionLines(lines, query.targetCurrency);
+  const listed: Transaction[] = query.expandSplits ? sortTransactions(lines, query.sort) : sortTransactions(collapseToTransactions(lines), query.sort);
+
+  const pageSize = query.pageSize && query.pageSize > 0 ? query.pageSize : Math.max(listed.length, 1);
+  const pageCount = Math.max(1, Math.ceil(listed.length / pageSize));
+  const page = Math.min(Math.max(1, query.page || 1), pageCount);
+
+  return {
+    transactions: listed.slice((page - 1) * pageSize, page * pageSize),
+    totalCount: listed.length,
+    page,
+    pageSize,
+    pageCount,
+    aggregates,
+  };
+}
+
+/** Loads the transactions the filter can match and runs the query over them. */
+export async function queryTransactions(query: TransactionQuery & { expandSplits: true }): Promise<TransactionQueryResult<TransactionLine>>;
+export async function queryTransactions(query?: TransactionQuery): Promise<TransactionQueryResult<Transaction>>;
+export async function queryTransactions(query: TransactionQuery = {}): Promise<TransactionQueryResult<Transaction>> {
+  const needsGroups = !!query.filter?.groupIds && query.filter.groupIds.length > 0;
+  const [transactions, targetCurrency, context] = await Promise.all([
+    getAllTransactions(query.filter?.accountIds && query.filter.accountIds.length > 0 ? query.filter.accountIds : undefined),
+    query.targetCurrency ? Promise.resolve(query.targetCurrency) : getUserPreferences().then(prefs => prefs.preferredCurrency),
+    needsGroups
+      ? Promise.all([getCategories(), getGroups()]).then(([categories, groups]) => ({ categories, groups }))
+      : Promise.resolve(undefined),
+  ]);
+  return runTransactionQuery(transactions, { ...query, targetCurrency }, context);
+}
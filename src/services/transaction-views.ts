@@ -0,0 +1,115 @@
+'use client';
+
+import { database, auth } from '@/lib/firebase';
+import { ref, get, push, set, update, remove, serverTimestamp } from 'firebase/database';
+import type { User } from 'firebase/auth';
+import { EMPTY_TRANSACTION_FILTER, parseTransactionFilter, pruneTransactionFilter, type TransactionFilter } from '@/lib/transaction-filters';
+
+export type { TransactionFilter } from '@/lib/transaction-filters';
+
+/** A named transaction filter, listed in the sidebar under Transactions. */
+export interface TransactionView {
+  id: string;
+  name: string;
+  filter: TransactionFilter;
+  createdAt?: object | string;
+  updatedAt?: object | string;
+}
+
+export function getTransactionViewsRefPath(currentUser: User | null) {
+  if (!currentUser?.uid) throw new Error("User not authenticated to access saved views.");
+  return `users/${currentUser.uid}/transactionViews`;
+}
+
+function requireUserAndDatabase() {
+  const currentUser = auth?.currentUser;
+  if (!currentUser || !database) {
+    throw new Error("User not authenticated. Cannot modify saved views.");
+  }
+  return { currentUser, db: database };
+}
+
+function normalizeView(id: string, data: Partial<Omit<TransactionView, 'id'>>): TransactionView {
+  return {
+    ...data,
+    id,
+    name: data.name || 'Untitled view',
+    filter: parseTransactionFilter(data.filter) ?? EMPTY_TRANSACTION_FILTER,
+  };
+}
+
+async function assertUniqueViewName(name: string, exceptId?: string): Promise<void> {
+  const views = await getTransactionViews();
+  if (views.some(view => view.id !== exceptId && view.name.toLowerCase() === name.toLowerCase())) {
+    throw new Error(`A view named "${name}" already exists.`);
+  }
+}
+
+/** Returns the user's saved transaction views sorted by name. */
+export async function getTransactionViews(): Promise<TransactionView[]> {
+  const currentUser = auth?.currentUser;
+  if (!currentUser || !database) {
+    console.warn("getTransactionViews called without authenticated user, returning empty array.");
+    return [];
+  }
+
+  try {
+    const snapshot = await get(ref(database, getTransactionViewsRefPath(currentUser)));
+    if (!snapshot.exists()) return [];
+    const viewsData = snapshot.val() as Record<string, Partial<Omit<TransactionView, 'id'>>>;
+    return Object.entries(viewsData)
+      .map(([id, data]) => normalizeView(id, data))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  } catch (error) {
+    console.error("Error fetching saved views from Firebase:", error);
+    throw error;
+  }
+}
+
+export async function addTransactionView(name: string, filter: TransactionFilter): Promise<TransactionView> {
+  const { currentUser, db } = requireUserAndDatabase();
+  const normalizedName = name.trim();
+  if (!normalizedName) throw new Error("View name cannot be empty.");
+  await assertUniqueViewName(normalizedName);
+
+  const newViewRef = push(ref(db, getTransactionViewsRefPath(currentUser)));
+  if (!newViewRef.key) {
+    throw new Error("Failed to generate a new view ID.");
+  }
+
+  const dataToSave = { name: normalizedName, filter: pruneTransactionFilter(filter), createdAt: serverTimestamp(), updatedAt: serverTimestamp() };
+  try {
+    await set(newViewRef, dataToSave);
+    return normalizeView(newViewRef.key, { ...dataToSave, updatedAt: new Date().toISOString() });
+  } catch (error) {
+    console.error("Error adding saved view to Firebase:", error);
+    throw error;
+  }
+}
+
+export async function updateTransactionView(view: TransactionView): Promise<TransactionView> {
+  const { currentUser, db } = requireUserAndDatabase();
+  const normalizedName = view.name.trim();
+  if (!normalizedName) throw new Error("View name cannot be empty.");
+  await assertUniqueViewName(normalizedName, view.id);
+
+  // update() replaces the whole `filter` child, so removed conditions do not linger
+  const dataToUpdate = { name: normalizedName, filter: pruneTransactionFilter(view.filter), updatedAt: serverTimestamp() };
+  try {
+    await update(ref(db, `${getTransactionViewsRefPath(currentUser)}/${view.id}`), dataToUpdate);
+    return normalizeView(view.id, { ...view, ...dataToUpdate, updatedAt: new Date().toISOString() });
+  } catch (error) {
+    console.error("Error updating saved view in Firebase:", error);
+    throw error;
+  }
+}
+
+export async function deleteTransactionView(viewId: string): Promise<void> {
+  const { currentUser, db } = requireUserAndDatabase();
+  try {
+    await remove(ref(db, `${getTransactionViewsRefPath(currentUser)}/${viewId}`));
+  } catch (error) {
+    console.error("Error deleting saved view from Firebase:", error);
+    throw error;
+  }
+}
@@ -1,14 +1,42 @@
 import { database, auth } from '@/lib/firebase';
-import { ref, set, get, push, remove, update, serverTimestamp } from 'firebase/database';
+import { ref, child, get, push, remove } from 'firebase/database';
 import type { User } from 'firebase/auth';
-import { getAccounts as getAllAccounts, updateAccount as updateAccountInDb, type Account } from './account-sync'; // Renamed getAccounts to avoid conflict
-import { convertCurrency } from '@/lib/currency';
+import { getAccounts as getAllAccounts, adjustCachedAccountBalance, addAccountBalanceIncrements } from './account-sync'; // Renamed getAccounts to avoid conflict
+import { convertCurrency, setHistoricalExchangeRates } from '@/lib/currency';
+import { getAppliedFxRate } from '@/lib/foreign-currency';
 // Import ref path getters from other services
 import { getCategoriesRefPath } from './categories';
 import { getTagsRefPath } from './tags';
 import { getGroupsRefPath } from './groups';
 import { getSubscriptionsRefPath } from './subscriptions';
-
+import { getTransfersRefPath, deleteTransfer } from './transfers';
+import { getLoansRefPath, reverseLoanPayment } from './loans';
+import { getCreditCardsRefPath } from './credit-cards';
+import { getBudgetsRefPath } from './budgets';
+import { getExchangeRatesRefPath } from './exchange-rates';
+import { clearInvestments } from './investments';
+import { getTransactionViewsRefPath } from './transaction-views';
+import { getImportProfilesRefPath } from './import-profiles';
+import { reverseSubscriptionOccurrence } from './recurring-transactions';
+import { getCategorizationRules, getRuleMatchMode, clearCategorizationRules } from './categorization-rules';
+import { applyCategorizationRules } from '@/lib/categorization-rules';
+import { mergeRecordsByUpdatedAt } from '@/lib/sync-engine';
+import { linkRecordReferences, resolveRecordReferences } from '@/lib/reference-rewrites';
+import { getCachedReferenceLookup } from './reference-lookup';
+import { getSyncEngine, requestSync, requireSyncedWrites } from './sync';
+
+
+export const SPLIT_CATEGORY = 'Split';
+
+/** One line of a split transaction. Amounts carry the parent's sign and currency. */
+export interface TransactionSplit {
+  category: string;
+  categoryId?: string | null;
+  amount: number;
+  tags?: string[];
+  tagIds?: string[];
+  memo?: string | null;
+}
 
 export interface Transaction {
   id: string;
@@ -16,15 +44,29 @@ export interface Transaction {
   amount: number; // Positive for income, negative for expenses
   transactionCurrency: string; // Currency of the amount field
   description: string;
-  category: string;
+  category: string; // SPLIT_CATEGORY when the amount is divided across `splits`
+  categoryId?: string | null; // The category record `category` names; its current name is shown when set
   accountId: string;
   tags?: string[];
+  tagIds?: string[]; // Parallel to `tags`, '' for tags without a tag record
+  splits?: TransactionSplit[] | null; // Set when the amount is divided across several categories
+  transferId?: string | null; // Set when this transaction is one leg of a Transfer record
+  subscriptionId?: string | null; // Set when this transaction was posted for a subscription occurrence
+  loanId?: string | null; // Set when this transaction is a posted loan payment
+  // Set when the transaction was made in another currency, e.g. a card purchase abroad: `amount` is what
+  // the bank charged in the account currency, `originalAmount` (signed like it) what was paid abroad
+  originalAmount?: number | null;
+  originalCurrency?: string | null;
+  fxRate?: number | null; // Units of transactionCurrency per unit of originalCurrency that were applied
   createdAt?: object | string; // For server timestamp or ISO string for localStorage
   updatedAt?: object | string; // For server timestamp or ISO string for localStorage
-  // Optional: to store original CSV foreign values for reference if needed
+  // Values from the imported file; the foreign amount is also copied to originalAmount/originalCurrency
   originalImportData?: {
     foreignAmount?: number | null;
     foreignCurrency?: string | null;
+    fitId?: string | null; // OFX/QFX FITID, used to skip transactions that were already imported
+    importFingerprint?: string | null; // See getImportFingerprint in lib/duplicate-detection
+    sourceFileHash?: string | null; // SHA-256 of the file the transaction was imported from
   }
 }
 
@@ -34,10 +76,122 @@ export type NewTransactionData = Omit<Transaction, 'id' | 'createdAt' | 'updated
     originalImportData?: { // Ensure this is part of the type if passed directly
         foreignAmount?: number | null;
         foreignCurrency?: string | null;
+        fitId?: string | null;
+        importFingerprint?: string | null;
+        sourceFileHash?: string | null;
     }
 };
 
 
+/** A transaction, or one split line of it, as seen by category, group and tag aggregations. */
+export type TransactionLine = Transaction & {
+  splitIndex: number | null; // Index into the parent's `splits`, null for unsplit transactions
+  memo?: string | null;
+  parent: Transaction; // The stored transaction to edit or delete
+};
+
+/**
+ * Checks that split lines are usable and add up to the transaction amount. Throws with a message
+ * suitable for a toast otherwise.
+ */
+export function validateTransactionSplits(amount: number, splits: TransactionSplit[]): void {
+  if (splits.length < 2) {
+    throw new Error("A split transaction needs at least two lines.");
+  }
+  splits.forEach((split, index) => {
+    if (!split.category?.trim()) {
+      throw new Error(`Split line ${index + 1} needs a category.`);
+    }
+    if (split.category.trim() === 'Transfer' || split.category.trim() === SPLIT_CATEGORY) {
+      throw new Error(`Split line ${index + 1} cannot use the "${split.category.trim()}" category.`);
+    }
+    if (!split.amount || Math.sign(split.amount) !== Math.sign(amount)) {
+      throw new Error(`Split line ${index + 1} must be a non-zero amount with the same sign as the transaction.`);
+    }
+  });
+  const total = splits.reduce((sum, split) => sum + split.amount, 0);
+  if (Math.abs(total - amount) >= 0.005) {
+    throw new Error(`Split lines add up to ${total.toFixed(2)} but the transaction amount is ${amount.toFixed(2)}.`);
+  }
+}
+
+/**
+ * Validates and normalizes the splits of a transaction about to be saved. Returns the fields to
+ * store: the parent category becomes SPLIT_CATEGORY while split lines carry the real categories.
+ */
+function prepareSplitFields(transaction: Pick<Transaction, 'amount' | 'category' | 'splits' | 'transferId'>): Pick<Transaction, 'category' | 'splits'> {
+  const splits = transaction.splits && transaction.splits.length > 0 ? transaction.splits : null;
+  if (!splits) {
+    if (transaction.category?.trim() === SPLIT_CATEGORY) {
+      throw new Error("A transaction in the Split category needs split lines.");
+    }
+    return { category: transaction.category?.trim() || 'Uncategorized', splits: null };
+  }
+  if (transaction.transferId || transaction.category === 'Transfer') {
+    throw new Error("Transfers cannot be split across categories.");
+  }
+  validateTransactionSplits(transaction.amount, splits);
+  return {
+    category: SPLIT_CATEGORY,
+    splits: splits.map(split => ({
+      category: split.category.trim(),
+      categoryId: split.categoryId ?? null,
+      amount: parseFloat(split.amount.toFixed(2)),
+      tags: split.tags || [],
+      tagIds: split.tagIds || [],
+      memo: split.memo?.trim() || null,
+    })),
+  };
+}
+
+/**
+ * Validates and normalizes the original amount of a transaction made in another currency. Returns
+ * the fields to store, all null when no original currency or amount is given; the rate defaults to
+ * the one implied by the two amounts.
+ */
+function prepareForeignCurrencyFields(
+  transaction: Pick<Transaction, 'amount' | 'transactionCurrency' | 'originalAmount' | 'originalCurrency' | 'fxRate'>
+): Pick<Transaction, 'originalAmount' | 'originalCurrency' | 'fxRate'> {
+  const originalCurrency = transaction.originalCurrency?.trim().toUpperCase();
+  if (!originalCurrency || !transaction.originalAmount) {
+    return { originalAmount: null, originalCurrency: null, fxRate: null };
+  }
+  if (originalCurrency === transaction.transactionCurrency?.toUpperCase()) {
+    throw new Error("The original currency must differ from the transaction currency.");
+  }
+  if (transaction.fxRate != null && !(transaction.fxRate > 0)) {
+    throw new Error("The exchange rate must be positive.");
+  }
+  return {
+    originalAmount: Math.sign(transaction.amount || 1) * Math.abs(transaction.originalAmount),
+    originalCurrency,
+    fxRate: transaction.fxRate || getAppliedFxRate(transaction.amount, transaction.originalAmount),
+  };
+}
+
+/**
+ * The lines a transaction contributes to category, group and tag totals: its split lines when it
+ * has any (each tagged with the parent's tags plus its own), otherwise the transaction itself.
+ */
+export function getTransactionLines(transaction: Transaction): TransactionLine[] {
+  if (!transaction.splits || transaction.splits.length === 0) {
+    return [{ ...transaction, splitIndex: null, parent: transaction }];
+  }
+  return transaction.splits.map((split, index) => ({
+    ...transaction,
+    category: split.category,
+    amount: split.amount,
+    tags: Array.from(new Set([...(transaction.tags || []), ...(split.tags || [])])),
+    memo: split.memo ?? null,
+    splitIndex: index,
+    parent: transaction,
+  }));
+}
+
+export function expandSplitTransactions(transactions: Transaction[]): TransactionLine[] {
+  return transactions.flatMap(getTransactionLines);
+}
+
 function getTransactionsRefPath(currentUser: User | null, accountId: string) {
   if (!currentUser?.uid) throw new Error("User not authenticated to access transactions.");
   return `users/${currentUser.uid}/transactions/${accountId}`;
@@ -48,33 +202,53 @@ function getSingleTransactionRefPath(currentUser: User | null, accountId: string
   return `users/${currentUser.uid}/transactions/${accountId}/${transactionId}`;
 }
 
-async function modifyAccountBalance(accountId: string, amountInTransactionCurrency: number, transactionCurrency: string, operation: 'add' | 'subtract') {
-    const accounts = await getAllAccounts();
-    const accountToUpdate = accounts.find(acc => acc.id === accountId);
-
-    if (accountToUpdate) {
-        let amountInAccountCurrency = amountInTransactionCurrency;
-        if (transactionCurrency.toUpperCase() !== accountToUpdate.currency.toUpperCase()) {
-            amountInAccountCurrency = convertCurrency(
-                amountInTransactionCurrency,
-                transactionCurrency,
-                accountToUpdate.currency
-            );
-        }
-        const balanceChange = operation === 'add' ? amountInAccountCurrency : -amountInAccountCurrency;
-        // Ensure newBalance calculation handles floating point inaccuracies for currency
-        const newBalance = parseFloat((accountToUpdate.balance + balanceChange).toFixed(2));
-
-
-        await updateAccountInDb({
-            ...accountToUpdate,
-            balance: newBalance,
-            lastActivity: new Date().toISOString(),
-        });
-        console.log(`Account ${accountToUpdate.name} balance updated by ${balanceChange} ${accountToUpdate.currency}. New balance: ${newBalance}`);
-    } else {
+/**
+ * Balance change in the account's currency for an amount posted in the transaction currency.
+ * Returns 0 when the account is unknown.
+ */
+async function getAccountBalanceDelta(accountId: string, amountInTransactionCurrency: number, transactionCurrency: string): Promise<number> {
+    const accounts = await getAllAccounts(); // Falls back to the cached accounts while offline
+    const account = accounts.find(acc => acc.id === accountId);
+    if (!account) {
         console.warn(`Account ID ${accountId} not found for balance update.`);
+        return 0;
     }
+    const amountInAccountCurrency = transactionCurrency.toUpperCase() !== account.currency.toUpperCase()
+        ? convertCurrency(amountInTransactionCurrency, transactionCurrency, account.currency)
+        : amountInTransactionCurrency;
+    // Round to cents to avoid floating point drift in stored balances
+    return parseFloat(amountInAccountCurrency.toFixed(2));
+}
+
+/**
+ * Queues a transaction write together with its account balance changes, applies the balance changes
+ * to the cached accounts and starts a background sync.
+ */
+function queueTransactionWrite(
+    currentUser: User,
+    updates: Record<string, unknown>,
+    recordPaths: string[],
+    balanceDeltas: Map<string, number>
+): void {
+    const syncEngine = getSyncEngine();
+    if (!syncEngine) throw new Error("User not authenticated to save transactions.");
+
+    addAccountBalanceIncrements(updates, currentUser.uid, balanceDeltas);
+
+    const queuedAt = Date.now();
+    syncEngine.enqueue(updates, recordPaths.map(path => ({ path, updatedAt: queuedAt })));
+    balanceDeltas.forEach((delta, accountId) => {
+        if (delta !== 0) adjustCachedAccountBalance(accountId, delta);
+    });
+    requestSync();
+}
+
+/** A transaction from the local cache, or from the database when it is not cached. */
+async function getStoredTransaction(currentUser: User | null, accountId: string, transactionId: string): Promise<Omit<Transaction, 'id'> | null> {
+    const cached = (await _getTransactionsFromLocalStorage(accountId)).find(t => t.id === transactionId);
+    if (cached) return cached;
+    const snapshot = await get(ref(database, getSingleTransactionRefPath(currentUser, accountId, transactionId)));
+    return snapshot.exists() ? snapshot.val() as Omit<Transaction, 'id'> : null;
 }
 
 // Helper function to get transactions from localStorage (internal to this service)
@@ -99,6 +273,32 @@ async function _saveTransactionsToLocalStorage(accountId: string, transactions:
     localStorage.setItem(key, JSON.stringify(transactions));
 }
 
+/**
+ * Mirrors transactions written by other services (e.g. multi-path transfer updates)
+ * into the per-account localStorage cache that getTransactions reads from.
+ */
+export async function applyTransactionChangesToLocalCache(
+    upserts: Transaction[],
+    removals: { id: string; accountId: string }[] = []
+): Promise<void> {
+    const affectedAccountIds = new Set([...upserts.map(tx => tx.accountId), ...removals.map(r => r.accountId)]);
+    for (const accountId of affectedAccountIds) {
+        let storedTransactions = await _getTransactionsFromLocalStorage(accountId);
+        const removedIds = new Set(removals.filter(r => r.accountId === accountId).map(r => r.id));
+        storedTransactions = storedTransactions.filter(t => !removedIds.has(t.id));
+        for (const tx of upserts.filter(t => t.accountId === accountId)) {
+            const nowIso = new Date().toISOString();
+            const existingIndex = storedTransactions.findIndex(t => t.id === tx.id);
+            if (existingIndex !== -1) {
+                storedTransactions[existingIndex] = { ...tx, createdAt: storedTransactions[existingIndex].createdAt || nowIso, updatedAt: nowIso };
+            } else {
+                storedTransactions.push({ ...tx, createdAt: nowIso, updatedAt: nowIso });
+            }
+        }
+        await _saveTransactionsToLocalStorage(accountId, storedTransactions);
+    }
+}
+
 
 export async function getTransactions(
     accountId: string,
@@ -117,13 +317,14 @@ export async function getTransactions(
   if (data) {
       try {
         const allAppAccounts = await getAllAccounts(); // Fetch accounts for currency fallback
+        const referenceLookup = getCachedReferenceLookup();
         const transactionsArray = (JSON.parse(data) as Transaction[])
-            .map(tx => ({ // Ensure default values for robustness with old data
+            .map(tx => resolveRecordReferences({ // Ensure default values for robustness with old data
                 ...tx,
                 tags: tx.tags || [],
                 category: tx.category || 'Uncategorized',
                 transactionCurrency: tx.transactionCurrency || allAppAccounts.find(a=>a.id === tx.accountId)?.currency || 'USD'
-            }))
+            }, referenceLookup))
             .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
 
         if (options?.limit && options.limit > 0) {
@@ -139,89 +340,129 @@ export async function getTransactions(
   return [];
 }
 
-export async function addTransaction(transactionData: NewTransactionData): Promise<Transaction> {
+/** Fills in category, tags and a cleaned description from the user's categorization rules. */
+async function applyRulesToNewTransaction(transactionData: NewTransactionData): Promise<NewTransactionData> {
+  try {
+    const [rules, matchMode] = await Promise.all([getCategorizationRules(), getRuleMatchMode()]);
+    if (rules.length === 0) return transactionData;
+    const result = applyCategorizationRules(transactionData, rules, { matchMode });
+    return result.changed
+      ? { ...transactionData, category: result.category, tags: result.tags, description: result.description }
+      : transactionData;
+  } catch (error) {
+    console.error("Could not apply categorization rules; saving the transaction as entered.", error);
+    return transactionData;
+  }
+}
+
+export async function addTransaction(
+  newTransactionData: NewTransactionData,
+  options: { applyRules?: boolean; transactionId?: string } = {} // transactionId restores a deleted transaction under its old ID
+): Promise<Transaction> {
+  const transactionData = options.applyRules === false ? newTransactionData : await applyRulesToNewTransaction(newTransactionData);
   const currentUser = auth.currentUser;
   const { accountId, amount, transactionCurrency, category } = transactionData;
+  const splitFields = prepareSplitFields(transactionData);
+  const foreignCurrencyFields = prepareForeignCurrencyFields(transactionData);
   const transactionsRefPath = getTransactionsRefPath(currentUser, accountId);
   const accountTransactionsRef = ref(database, transactionsRefPath);
-  const newTransactionRef = push(accountTransactionsRef);
+  const newTransactionRef = options.transactionId
+    ? child(accountTransactionsRef, options.transactionId)
+    : push(accountTransactionsRef); // Keys are generated client-side, so this works offline
 
-  if (!newTransactionRef.key) {
+  if (!newTransactionRef.key || !currentUser) {
     throw new Error("Failed to generate a new transaction ID.");
   }
 
-  const newTransaction: Transaction = {
+  // Client timestamps so the queued write can be compared with the database copy when it is replayed
+  const nowIso = new Date().toISOString();
+  const newTransaction: Transaction = linkRecordReferences({
     ...transactionData,
     id: newTransactionRef.key,
-    category: category?.trim() || 'Uncategorized',
+    ...splitFields,
+    ...foreignCurrencyFields,
     tags: transactionData.tags || [],
-    createdAt: serverTimestamp(),
-    updatedAt: serverTimestamp(),
+    createdAt: nowIso,
+    updatedAt: nowIso,
     originalImportData: {
         foreignAmount: transactionData.originalImportData?.foreignAmount ?? null,
         foreignCurrency: transactionData.originalImportData?.foreignCurrency ?? null,
+        fitId: transactionData.originalImportData?.fitId ?? null,
+        importFingerprint: transactionData.originalImportData?.importFingerprint ?? null,
+        sourceFileHash: transactionData.originalImportData?.sourceFileHash ?? null,
     }
-  };
+  }, getCachedReferenceLookup());
 
   const dataToSave = { ...newTransaction } as any;
   delete dataToSave.id;
 
 
-  console.log("Adding transaction to Firebase RTDB:", newTransaction);
+  console.log("Queueing new transaction for sync:", newTransaction);
   try {
-    await set(newTransactionRef, dataToSave);
+    const balanceDeltas = new Map<string, number>();
     if (category?.toLowerCase() !== 'opening balance') {
-        await modifyAccountBalance(accountId, amount, transactionCurrency, 'add');
+        balanceDeltas.set(accountId, await getAccountBalanceDelta(accountId, amount, transactionCurrency));
     }
 
-    // Update localStorage transaction list
+    // Update localStorage transaction list first so the app reflects the change while offline
     const storedTransactions = await _getTransactionsFromLocalStorage(accountId);
-    // Ensure createdAt/updatedAt are strings for localStorage
-    const newTxForStorage = { ...newTransaction, createdAt: new Date().toISOString(), updatedAt: new Date().toISOString() };
-    storedTransactions.push(newTxForStorage);
+    storedTransactions.push(newTransaction);
     await _saveTransactionsToLocalStorage(accountId, storedTransactions);
 
+    const transactionRefPath = `${transactionsRefPath}/${newTransaction.id}`;
+    queueTransactionWrite(currentUser, { [transactionRefPath]: dataToSave }, [transactionRefPath], balanceDeltas);
 
     return newTransaction;
   } catch (error) {
-    console.error("Error adding transaction to Firebase:", error);
+    console.error("Error adding transaction:", error);
     throw error;
   }
 }
 
-export async function updateTransaction(updatedTransaction: Transaction): Promise<Transaction> {
+export async function updateTransaction(transactionToUpdate: Transaction): Promise<Transaction> {
   const currentUser = auth.currentUser;
-  const { id, accountId, amount, transactionCurrency } = updatedTransaction;
+  const { id, accountId, amount, transactionCurrency } = transactionToUpdate;
+  const splitFields = prepareSplitFields(transactionToUpdate);
+  // The category and tags may have been changed by name, so their IDs are set again
+  const updatedTransaction = linkRecordReferences({ ...transactionToUpdate, ...splitFields }, getCachedReferenceLookup());
+  const foreignCurrencyFields = prepareForeignCurrencyFields(updatedTransaction);
   const transactionRefPath = getSingleTransactionRefPath(currentUser, accountId, id);
-  const transactionRef = ref(database, transactionRefPath);
 
-  const originalSnapshot = await get(transactionRef); // Get from DB for balance adjustment
-  if (!originalSnapshot.exists()) {
+  const originalTransaction = await getStoredTransaction(currentUser, accountId, id); // For balance adjustment
+  if (!originalTransaction || !currentUser) {
     throw new Error(`Transaction with ID ${id} not found for update.`);
   }
-  const originalTransactionDataFromDB = originalSnapshot.val() as Omit<Transaction, 'id'>;
+  if (originalTransaction.transferId) {
+    throw new Error("This transaction is part of a transfer. Edit it from the Transfers page.");
+  }
+  if (originalTransaction.loanId && (amount !== originalTransaction.amount || accountId !== originalTransaction.accountId)) {
+    throw new Error("This transaction is a loan payment. Delete it and post the payment again to change its amount or account.");
+  }
   const allAppAccounts = await getAllAccounts();
-  const originalDbTxCurrency = originalTransactionDataFromDB.transactionCurrency || allAppAccounts.find(a => a.id === accountId)?.currency || 'USD';
-
+  const originalTxCurrency = originalTransaction.transactionCurrency || allAppAccounts.find(a => a.id === accountId)?.currency || 'USD';
 
+  const nowIso = new Date().toISOString();
   const dataToUpdateFirebase = { // Data for Firebase update
     ...updatedTransaction,
-    updatedAt: serverTimestamp(),
+    ...foreignCurrencyFields,
+    updatedAt: nowIso,
     originalImportData: {
         foreignAmount: updatedTransaction.originalImportData?.foreignAmount ?? null,
         foreignCurrency: updatedTransaction.originalImportData?.foreignCurrency ?? null,
+        fitId: updatedTransaction.originalImportData?.fitId ?? null,
+        importFingerprint: updatedTransaction.originalImportData?.importFingerprint ?? null,
+        sourceFileHash: updatedTransaction.originalImportData?.sourceFileHash ?? null,
     }
   } as any;
   delete dataToUpdateFirebase.id;
 
 
-  console.log("Updating transaction in Firebase RTDB:", id, dataToUpdateFirebase);
+  console.log("Queueing transaction update for sync:", id, dataToUpdateFirebase);
   try {
-    await update(transactionRef, dataToUpdateFirebase); // Update DB
-
-    // Adjust account balances based on original (from DB) and new transaction amounts
-    await modifyAccountBalance(accountId, originalTransactionDataFromDB.amount, originalDbTxCurrency, 'subtract');
-    await modifyAccountBalance(accountId, amount, transactionCurrency, 'add');
+    // Reverse the original amount and apply the new one in a single balance change
+    const balanceDelta =
+      (await getAccountBalanceDelta(accountId, amount, transactionCurrency)) -
+      (await getAccountBalanceDelta(accountId, originalTransaction.amount, originalTxCurrency));
 
     // Update localStorage transaction list
     const storedTransactions = await _getTransactionsFromLocalStorage(accountId);
@@ -231,23 +472,32 @@ export async function updateTransaction(updatedTransaction: Transaction): Promis
       const originalStoredCreatedAt = storedTransactions[transactionIndex].createdAt;
       storedTransactions[transactionIndex] = {
           ...updatedTransaction, // Apply all updates
-          createdAt: updatedTransaction.createdAt || originalStoredCreatedAt || new Date().toISOString(), // Ensure createdAt is set
-          updatedAt: new Date().toISOString(), // For localStorage, use ISO string
+          ...foreignCurrencyFields,
+          createdAt: updatedTransaction.createdAt || originalStoredCreatedAt || nowIso, // Ensure createdAt is set
+          updatedAt: nowIso,
       };
       await _saveTransactionsToLocalStorage(accountId, storedTransactions);
     } else {
-        console.warn(`Transaction ${id} updated in DB but not found in localStorage cache for account ${accountId}. Adding it.`);
+        console.warn(`Transaction ${id} not found in localStorage cache for account ${accountId}. Adding it.`);
         storedTransactions.push({
             ...updatedTransaction,
-            createdAt: updatedTransaction.createdAt || new Date().toISOString(),
-            updatedAt: new Date().toISOString(),
+            ...foreignCurrencyFields,
+            createdAt: updatedTransaction.createdAt || nowIso,
+            updatedAt: nowIso,
         });
         await _saveTransactionsToLocalStorage(accountId, storedTransactions);
     }
 
-    return updatedTransaction;
+    // Field-level paths so fields written elsewhere (e.g. createdAt) are left alone; null removes a field
+    const updates: Record<string, unknown> = {};
+    Object.entries(dataToUpdateFirebase).forEach(([field, value]) => {
+      updates[`${transactionRefPath}/${field}`] = value ?? null;
+    });
+    queueTransactionWrite(currentUser, updates, [transactionRefPath], new Map([[accountId, balanceDelta]]));
+
+    return { ...updatedTransaction, ...foreignCurrencyFields, updatedAt: nowIso };
   } catch (error) {
-    console.error("Error updating transaction in Firebase:", error);
+    console.error("Error updating transaction:", error);
     throw error;
   }
 }
@@ -255,40 +505,100 @@ export async function updateTransaction(updatedTransaction: Transaction): Promis
 export async function deleteTransaction(transactionId: string, accountId: string): Promise<void> {
   const currentUser = auth.currentUser;
   const transactionRefPath = getSingleTransactionRefPath(currentUser, accountId, transactionId);
-  const transactionRef = ref(database, transactionRefPath);
 
-  const snapshot = await get(transactionRef); // Get from DB for balance adjustment
-  if (!snapshot.exists()) {
+  const transactionToDelete = await getStoredTransaction(currentUser, accountId, transactionId); // For balance adjustment
+  if (!transactionToDelete || !currentUser) {
     console.warn(`Transaction ${transactionId} not found for deletion.`);
     return;
   }
-  const transactionToDelete = snapshot.val() as Omit<Transaction, 'id'>;
+  if (transactionToDelete.transferId) {
+    // Deleting one leg of a transfer removes the whole transfer so balances stay consistent
+    await deleteTransfer(transactionToDelete.transferId);
+    return;
+  }
+  if (transactionToDelete.loanId || transactionToDelete.subscriptionId) {
+    // The loan or subscription is updated directly, so check before queueing the deletion rather than
+    // leaving the transaction deleted and its payment still recorded
+    await requireSyncedWrites();
+  }
   const allAppAccounts = await getAllAccounts();
   const txCurrency = transactionToDelete.transactionCurrency || allAppAccounts.find(a => a.id === accountId)?.currency || 'USD';
 
-  console.log("Deleting transaction from Firebase RTDB:", transactionRefPath);
+  console.log("Queueing transaction deletion for sync:", transactionRefPath);
   try {
-    await remove(transactionRef); // Remove from DB
+    if (transactionToDelete.loanId) {
+      // Refuses anything but the loan's latest payment, so it runs before the transaction is removed
+      await reverseLoanPayment(transactionToDelete.loanId, transactionId);
+    }
+
     // Use the currency from the transaction being deleted for accurate balance reversal
-    await modifyAccountBalance(accountId, transactionToDelete.amount, txCurrency, 'subtract');
+    const balanceDelta = -(await getAccountBalanceDelta(accountId, transactionToDelete.amount, txCurrency));
 
     // Update localStorage transaction list
     let storedTransactions = await _getTransactionsFromLocalStorage(accountId);
     storedTransactions = storedTransactions.filter(t => t.id !== transactionId);
     await _saveTransactionsToLocalStorage(accountId, storedTransactions);
 
+    queueTransactionWrite(currentUser, { [transactionRefPath]: null }, [transactionRefPath], new Map([[accountId, balanceDelta]]));
+
+    if (transactionToDelete.subscriptionId) {
+      await reverseSubscriptionOccurrence(transactionToDelete.subscriptionId, transactionId);
+    }
   } catch (error) {
-    console.error("Error deleting transaction from Firebase:", error);
+    console.error("Error deleting transaction:", error);
     throw error;
   }
 }
 
+/**
+ * Refreshes the per-account transaction caches from the database, keeping records with queued writes
+ * as they are locally. Returns true when any cache changed.
+ */
+export async function hydrateTransactionsFromDatabase(pendingRecordPaths: Set<string>): Promise<boolean> {
+  const currentUser = auth?.currentUser;
+  if (!currentUser || !database) return false;
+  const basePath = `users/${currentUser.uid}/transactions`;
+  const snapshot = await get(ref(database, basePath));
+  const remoteByAccount = (snapshot.val() || {}) as Record<string, Record<string, Omit<Transaction, 'id'>>>;
+
+  // Accounts with remote transactions, plus cached accounts whose transactions may all have been deleted elsewhere
+  const accountIds = new Set(Object.keys(remoteByAccount));
+  const cacheKeyPrefix = 'transactions-';
+  const cacheKeySuffix = `-${currentUser.uid}`;
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key?.startsWith(cacheKeyPrefix) && key.endsWith(cacheKeySuffix)) {
+      accountIds.add(key.slice(cacheKeyPrefix.length, -cacheKeySuffix.length));
+    }
+  }
+
+  let changed = false;
+  for (const accountId of accountIds) {
+    const localTransactions = await _getTransactionsFromLocalStorage(accountId);
+    const remoteTransactions: Transaction[] = Object.entries(remoteByAccount[accountId] || {})
+      .map(([id, data]) => ({ ...data, id, accountId: data.accountId || accountId }));
+    const pathPrefix = `${basePath}/${accountId}/`;
+    const pendingIds = new Set(
+      Array.from(pendingRecordPaths).filter(path => path.startsWith(pathPrefix)).map(path => path.slice(pathPrefix.length))
+    );
+
+    const merged = mergeRecordsByUpdatedAt(localTransactions, remoteTransactions, pendingIds);
+    const byId = (a: Transaction, b: Transaction) => a.id.localeCompare(b.id);
+    if (JSON.stringify([...merged].sort(byId)) !== JSON.stringify([...localTransactions].sort(byId))) {
+      await _saveTransactionsToLocalStorage(accountId, merged);
+      changed = true;
+    }
+  }
+  return changed;
+}
+
 export async function clearAllSessionTransactions(): Promise<void> {
-  const currentUser = auth.currentUser;
-  if (!currentUser?.uid) {
+  const currentUser = auth?.currentUser;
+  if (!currentUser?.uid || !database) {
     console.warn("User not authenticated, cannot clear data.");
     return;
   }
+  const db = database;
 
   console.warn("Attempting to clear ALL user data for user:", currentUser.uid);
   try {
@@ -298,24 +608,37 @@ export async function clearAllSessionTransactions(): Promise<void> {
     const tagsPath = getTagsRefPath(currentUser);
     const groupsPath = getGroupsRefPath(currentUser);
     const subscriptionsPath = getSubscriptionsRefPath(currentUser);
+    const transfersPath = getTransfersRefPath(currentUser);
     const accountsPath = `users/${currentUser.uid}/accounts`; // Directly use path
+    const migrationsPath = `users/${currentUser.uid}/migrations`;
 
     // Clear from Firebase DB
     await Promise.all([
-        remove(ref(database, userFirebaseTransactionsBasePath)),
-        remove(ref(database, categoriesPath)),
-        remove(ref(database, tagsPath)),
-        remove(ref(database, groupsPath)),
-        remove(ref(database, subscriptionsPath)),
-        remove(ref(database, accountsPath)) // Clear accounts from DB
+        remove(ref(db, userFirebaseTransactionsBasePath)),
+        remove(ref(db, categoriesPath)),
+        remove(ref(db, tagsPath)),
+        remove(ref(db, groupsPath)),
+        remove(ref(db, subscriptionsPath)),
+        remove(ref(db, transfersPath)),
+        remove(ref(db, getLoansRefPath(currentUser))),
+        remove(ref(db, getCreditCardsRefPath(currentUser))),
+        remove(ref(db, getBudgetsRefPath(currentUser))),
+        remove(ref(db, getExchangeRatesRefPath(currentUser))),
+        remove(ref(db, getTransactionViewsRefPath(currentUser))),
+        remove(ref(db, getImportProfilesRefPath(currentUser))),
+        remove(ref(db, migrationsPath)),
+        clearCategorizationRules(),
+        clearInvestments(),
+        remove(ref(db, accountsPath)) // Clear accounts from DB
     ]);
 
-    // Clear from localStorage
-    const accounts = await getAllAccounts(); // This will now be empty if DB clear was first, or from old cache
-    for (const acc of accounts) { // If accounts were cleared from DB first, this loop might not run for transactions
-      const storageKey = `transactions-${acc.id}-${currentUser.uid}`;
-      localStorage.removeItem(storageKey);
+    // Clear from localStorage. The accounts are gone already, so find the transaction caches by key.
+    const transactionCacheKeys: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key && key.startsWith('transactions-') && key.endsWith(`-${currentUser.uid}`)) transactionCacheKeys.push(key);
     }
+    transactionCacheKeys.forEach(key => localStorage.removeItem(key));
     // Clear other localStorage items
     localStorage.removeItem(`userAccounts-${currentUser.uid}`);
     localStorage.removeItem(`userCategories-${currentUser.uid}`);
@@ -323,6 +646,8 @@ export async function clearAllSessionTransactions(): Promise<void> {
     localStorage.removeItem(`userGroups-${currentUser.uid}`);
     localStorage.removeItem(`userSubscriptions-${currentUser.uid}`);
     localStorage.removeItem(`userPreferences-${currentUser.uid}`); // Also clear preferences
+    localStorage.removeItem(`syncOutbox-${currentUser.uid}`); // Queued writes refer to the cleared data
+    setHistoricalExchangeRates([]);
 
 
     console.log("All user data cleared from Firebase and localStorage for user:", currentUser.uid);
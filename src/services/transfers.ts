@@ -0,0 +1,470 @@
+'use client';
+
+import { database, auth } from '@/lib/firebase';
+import { ref, get, push, update, serverTimestamp } from 'firebase/database';
+import type { User } from 'firebase/auth';
+import { getAccounts as getAllAccounts, addAccountBalanceIncrements, type Account } from './account-sync';
+import { applyTransactionChangesToLocalCache, type Transaction } from './transactions';
+import { convertCurrency } from '@/lib/currency';
+import { getAppliedFxRate } from '@/lib/foreign-currency';
+import { linkTagReferences, resolveTagReferences } from '@/lib/reference-rewrites';
+import { getCachedReferenceLookup } from './reference-lookup';
+import { requireSyncedWrites } from './sync';
+
+/**
+ * A movement of money between two accounts. Both legs are stored as regular
+ * transactions (category 'Transfer') that point back to this record via `transferId`.
+ */
+export interface Transfer {
+  id: string;
+  date: string; // ISO string: YYYY-MM-DD
+  description: string;
+  fromAccountId: string;
+  toAccountId: string;
+  fromAmount: number; // Positive amount leaving the source account, in fromCurrency
+  fromCurrency: string;
+  toAmount: number; // Positive amount arriving in the destination account, in toCurrency
+  toCurrency: string;
+  fee?: number | null; // Optional positive fee charged to the source account, in fromCurrency
+  tags?: string[];
+  tagIds?: string[]; // Parallel to `tags`, copied to every leg
+  fromTransactionId: string;
+  toTransactionId: string;
+  feeTransactionId?: string | null;
+  createdAt?: object | string;
+  updatedAt?: object | string;
+}
+
+export type NewTransferData = Omit<Transfer, 'id' | 'fromTransactionId' | 'toTransactionId' | 'feeTransactionId' | 'createdAt' | 'updatedAt'>;
+
+export const TRANSFER_FEE_CATEGORY = 'Fees';
+
+export function getTransfersRefPath(currentUser: User | null) {
+  if (!currentUser?.uid) throw new Error("User not authenticated to access transfers.");
+  return `users/${currentUser.uid}/transfers`;
+}
+
+export function getSingleTransferRefPath(currentUser: User | null, transferId: string) {
+  if (!currentUser?.uid) throw new Error("User not authenticated to access transfer.");
+  return `users/${currentUser.uid}/transfers/${transferId}`;
+}
+
+function getTransactionPath(currentUser: User, accountId: string, transactionId: string) {
+  return `users/${currentUser.uid}/transactions/${accountId}/${transactionId}`;
+}
+
+function requireUserAndDatabase() {
+  const currentUser = auth?.currentUser;
+  if (!currentUser || !database) {
+    throw new Error("User not authenticated. Cannot modify transfers.");
+  }
+  return { currentUser, db: database };
+}
+
+function normalizeTransfer(id: string, data: Partial<Omit<Transfer, 'id'>>): Transfer {
+  return {
+    id,
+    date: data.date || new Date().toISOString().split('T')[0],
+    description: data.description || 'Transfer',
+    fromAccountId: data.fromAccountId || '',
+    toAccountId: data.toAccountId || '',
+    fromAmount: typeof data.fromAmount === 'number' ? data.fromAmount : 0,
+    fromCurrency: data.fromCurrency || 'USD',
+    toAmount: typeof data.toAmount === 'number' ? data.toAmount : 0,
+    toCurrency: data.toCurrency || data.fromCurrency || 'USD',
+    fee: typeof data.fee === 'number' && data.fee > 0 ? data.fee : null,
+    tags: data.tags || [],
+    tagIds: data.tagIds || [],
+    fromTransactionId: data.fromTransactionId || '',
+    toTransactionId: data.toTransactionId || '',
+    feeTransactionId: data.feeTransactionId || null,
+    createdAt: data.createdAt,
+    updatedAt: data.updatedAt,
+  };
+}
+
+function validateTransferData(data: NewTransferData, accounts: Account[]) {
+  if (!data.fromAccountId || !data.toAccountId) {
+    throw new Error("Source and destination accounts are required for a transfer.");
+  }
+  if (data.fromAccountId === data.toAccountId) {
+    throw new Error("Source and destination accounts must be different for transfers.");
+  }
+  if (!accounts.some(acc => acc.id === data.fromAccountId) || !accounts.some(acc => acc.id === data.toAccountId)) {
+    throw new Error("Transfer references an account that does not exist.");
+  }
+  if (!(data.fromAmount > 0) || !(data.toAmount > 0)) {
+    throw new Error("Transfer amounts must be positive.");
+  }
+  if (data.fee !== undefined && data.fee !== null && data.fee < 0) {
+    throw new Error("Transfer fee cannot be negative.");
+  }
+}
+
+/**
+ * Builds the transaction legs for a transfer: the outgoing leg, the incoming leg
+ * and, if a fee is present, a separate expense on the source account.
+ */
+export function buildTransferLegs(transfer: Transfer): Transaction[] {
+  // Cross-currency legs record the other side's amount, so each account keeps the rate actually applied
+  const isCrossCurrency = transfer.fromCurrency.toUpperCase() !== transfer.toCurrency.toUpperCase();
+  const legs: Transaction[] = [
+    {
+      id: transfer.fromTransactionId,
+      accountId: transfer.fromAccountId,
+      amount: -Math.abs(transfer.fromAmount),
+      transactionCurrency: transfer.fromCurrency,
+      date: transfer.date,
+      description: transfer.description,
+      category: 'Transfer',
+      tags: transfer.tags || [],
+      tagIds: transfer.tagIds || [],
+      transferId: transfer.id,
+      originalAmount: isCrossCurrency ? -Math.abs(transfer.toAmount) : null,
+      originalCurrency: isCrossCurrency ? transfer.toCurrency : null,
+      fxRate: isCrossCurrency ? getAppliedFxRate(transfer.fromAmount, transfer.toAmount) : null,
+    },
+    {
+      id: transfer.toTransactionId,
+      accountId: transfer.toAccountId,
+      amount: Math.abs(transfer.toAmount),
+      transactionCurrency: transfer.toCurrency,
+      date: transfer.date,
+      description: transfer.description,
+      category: 'Transfer',
+      tags: transfer.tags || [],
+      tagIds: transfer.tagIds || [],
+      transferId: transfer.id,
+      originalAmount: isCrossCurrency ? Math.abs(transfer.fromAmount) : null,
+      originalCurrency: isCrossCurrency ? transfer.fromCurrency : null,
+      fxRate: isCrossCurrency ? getAppliedFxRate(transfer.toAmount, transfer.fromAmount) : null,
+    },
+  ];
+  if (transfer.fee && transfer.fee > 0 && transfer.feeTransactionId) {
+    legs.push({
+      id: transfer.feeTransactionId,
+      accountId: transfer.fromAccountId,
+      amount: -Math.abs(transfer.fee),
+      transactionCurrency: transfer.fromCurrency,
+      date: transfer.date,
+      description: `Fee: ${transfer.description}`,
+      category: TRANSFER_FEE_CATEGORY,
+      tags: transfer.tags || [],
+      tagIds: transfer.tagIds || [],
+      transferId: transfer.id,
+    });
+  }
+  return legs;
+}
+
+function addLegsToBalanceDeltas(deltas: Map<string, number>, legs: Transaction[], accounts: Account[], sign: 1 | -1) {
+  for (const leg of legs) {
+    const account = accounts.find(acc => acc.id === leg.accountId);
+    if (!account) continue;
+    const amountInAccountCurrency = leg.transactionCurrency.toUpperCase() !== account.currency.toUpperCase()
+      ? convertCurrency(leg.amount, leg.transactionCurrency, account.currency)
+      : leg.amount;
+    deltas.set(account.id, (deltas.get(account.id) || 0) + sign * amountInAccountCurrency);
+  }
+}
+
+
+function legToDbValue(leg: Transaction) {
+  const dataToSave = {
+    ...leg,
+    createdAt: serverTimestamp(),
+    updatedAt: serverTimestamp(),
+    originalImportData: { foreignAmount: null, foreignCurrency: null },
+  } as any;
+  delete dataToSave.id;
+  return dataToSave;
+}
+
+function transferToDbValue(transfer: Transfer, isNew: boolean) {
+  const dataToSave = {
+    ...transfer,
+    fee: transfer.fee && transfer.fee > 0 ? transfer.fee : null,
+    feeTransactionId: transfer.feeTransactionId || null,
+    tags: transfer.tags || [],
+    tagIds: transfer.tagIds || [],
+    updatedAt: serverTimestamp(),
+  } as any;
+  if (isNew) dataToSave.createdAt = serverTimestamp();
+  else delete dataToSave.createdAt;
+  delete dataToSave.id;
+  return dataToSave;
+}
+
+/** Two transfer legs from before transfers had their own records. */
+export interface UnlinkedTransferPair {
+  from: Transaction;
+  to: Transaction;
+}
+
+const sameDay = (a: string, b: string) => a.slice(0, 10) === b.slice(0, 10);
+
+// The incoming leg matches the outgoing one when it is the same movement seen from the other account
+function isCounterpartLeg(outgoing: Transaction, incoming: Transaction): boolean {
+  if (incoming.amount <= 0 || incoming.accountId === outgoing.accountId || !sameDay(incoming.date, outgoing.date)) return false;
+  const sameDescription = incoming.description === outgoing.description
+    || (!!incoming.description?.startsWith('Transfer') && !!outgoing.description?.startsWith('Transfer'));
+  if (!sameDescription) return false;
+  if (incoming.transactionCurrency.toUpperCase() === outgoing.transactionCurrency.toUpperCase()) {
+    return incoming.amount === -outgoing.amount;
+  }
+  // Cross-currency legs record the other side's amount
+  return outgoing.originalCurrency?.toUpperCase() === incoming.transactionCurrency.toUpperCase()
+    && incoming.amount === Math.abs(outgoing.originalAmount ?? 0);
+}
+
+/**
+ * Pairs the 'Transfer' transactions that have no `transferId`, i.e. transfers entered or imported
+ * before transfers were stored as records. Legs pair up the way the Transfers page used to match
+ * them: opposite amounts on the same day in different accounts, with the same description.
+ * Legs without a counterpart are returned as `unpaired`.
+ */
+export function pairUnlinkedTransferLegs(transactions: Transaction[]): { pairs: UnlinkedTransferPair[]; unpaired: Transaction[] } {
+  const legs = transactions
+    .filter(transaction => !transaction.transferId && transaction.category?.toLowerCase() === 'transfer')
+    .sort((a, b) => a.id.localeCompare(b.id));
+  const pairedIds = new Set<string>();
+  const pairs: UnlinkedTransferPair[] = [];
+
+  legs.forEach(outgoing => {
+    if (outgoing.amount >= 0 || pairedIds.has(outgoing.id)) return;
+    const incoming = legs.find(leg => !pairedIds.has(leg.id) && isCounterpartLeg(outgoing, leg));
+    if (!incoming) return;
+    pairs.push({ from: outgoing, to: incoming });
+    pairedIds.add(outgoing.id);
+    pairedIds.add(incoming.id);
+  });
+
+  return { pairs, unpaired: legs.filter(leg => !pairedIds.has(leg.id)) };
+}
+
+/**
+ * Creates a transfer record for each pair and links both legs to it. The legs are already part
+ * of their accounts' balances, so balances do not change.
+ */
+export async function linkTransferPairs(pairs: UnlinkedTransferPair[]): Promise<Transfer[]> {
+  const { currentUser, db } = requireUserAndDatabase();
+  await requireSyncedWrites();
+  const updates: Record<string, any> = {};
+  const linkedTransfers: Transfer[] = [];
+  const linkedLegs: Transaction[] = [];
+  const referenceLookup = getCachedReferenceLookup();
+
+  for (const { from, to } of pairs) {
+    const newTransferRef = push(ref(db, getTransfersRefPath(currentUser)));
+    if (!newTransferRef.key) throw new Error("Failed to generate an ID for the transfer.");
+    const transfer: Transfer = linkTagReferences({
+      id: newTransferRef.key,
+      date: from.date.slice(0, 10),
+      description: from.description || 'Transfer',
+      fromAccountId: from.accountId,
+      toAccountId: to.accountId,
+      fromAmount: Math.abs(from.amount),
+      fromCurrency: from.transactionCurrency,
+      toAmount: Math.abs(to.amount),
+      toCurrency: to.transactionCurrency,
+      fee: null,
+      tags: Array.from(new Set([...(from.tags || []), ...(to.tags || [])])),
+      fromTransactionId: from.id,
+      toTransactionId: to.id,
+      feeTransactionId: null,
+    }, referenceLookup);
+    updates[getSingleTransferRefPath(currentUser, transfer.id)] = transferToDbValue(transfer, true);
+    [from, to].forEach(leg => {
+      const legPath = getTransactionPath(currentUser, leg.accountId, leg.id);
+      updates[`${legPath}/transferId`] = transfer.id;
+      updates[`${legPath}/updatedAt`] = serverTimestamp();
+      linkedLegs.push({ ...leg, transferId: transfer.id });
+    });
+    linkedTransfers.push(transfer);
+  }
+  if (linkedTransfers.length === 0) return [];
+
+  try {
+    await update(ref(db), updates);
+    await applyTransactionChangesToLocalCache(linkedLegs);
+    return linkedTransfers;
+  } catch (error) {
+    console.error("Error linking transfer pairs in Firebase:", error);
+    throw error;
+  }
+}
+
+export async function getTransfers(): Promise<Transfer[]> {
+  const currentUser = auth?.currentUser;
+  if (!currentUser || !database) {
+    console.warn("getTransfers called without authenticated user, returning empty array.");
+    return [];
+  }
+  const transfersRef = ref(database, getTransfersRefPath(currentUser));
+
+  try {
+    const snapshot = await get(transfersRef);
+    if (snapshot.exists()) {
+      const transfersData = snapshot.val();
+      const referenceLookup = getCachedReferenceLookup();
+      return Object.entries(transfersData)
+        .map(([id, data]) => resolveTagReferences(normalizeTransfer(id, data as Partial<Omit<Transfer, 'id'>>), referenceLookup))
+        .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+    }
+    return [];
+  } catch (error) {
+    console.error("Error fetching transfers from Firebase:", error);
+    throw error;
+  }
+}
+
+async function getTransferById(currentUser: User, transferId: string): Promise<Transfer | null> {
+  const snapshot = await get(ref(database!, getSingleTransferRefPath(currentUser, transferId)));
+  return snapshot.exists() ? normalizeTransfer(transferId, snapshot.val()) : null;
+}
+
+/**
+ * Creates a transfer and both of its transaction legs, and adjusts the affected
+ * account balances, in a single multi-path update.
+ */
+export async function addTransfer(transferData: NewTransferData): Promise<Transfer> {
+  const { currentUser, db } = requireUserAndDatabase();
+  await requireSyncedWrites();
+  const accounts = await getAllAccounts();
+  validateTransferData(transferData, accounts);
+
+  const newTransferRef = push(ref(db, getTransfersRefPath(currentUser)));
+  const fromTransactionKey = push(ref(db, `users/${currentUser.uid}/transactions/${transferData.fromAccountId}`)).key;
+  const toTransactionKey = push(ref(db, `users/${currentUser.uid}/transactions/${transferData.toAccountId}`)).key;
+  const hasFee = !!transferData.fee && transferData.fee > 0;
+  const feeTransactionKey = hasFee ? push(ref(db, `users/${currentUser.uid}/transactions/${transferData.fromAccountId}`)).key : null;
+
+  if (!newTransferRef.key || !fromTransactionKey || !toTransactionKey || (hasFee && !feeTransactionKey)) {
+    throw new Error("Failed to generate IDs for the new transfer.");
+  }
+
+  const fromAccountName = accounts.find(a => a.id === transferData.fromAccountId)?.name || 'Unknown Account';
+  const toAccountName = accounts.find(a => a.id === transferData.toAccountId)?.name || 'Unknown Account';
+
+  const newTransfer: Transfer = linkTagReferences({
+    ...transferData,
+    id: newTransferRef.key,
+    description: transferData.description?.trim() || `Transfer from ${fromAccountName} to ${toAccountName}`,
+    fee: hasFee ? transferData.fee : null,
+    tags: transferData.tags || [],
+    fromTransactionId: fromTransactionKey,
+    toTransactionId: toTransactionKey,
+    feeTransactionId: feeTransactionKey,
+  }, getCachedReferenceLookup());
+
+  const legs = buildTransferLegs(newTransfer);
+  const updates: Record<string, any> = {
+    [getSingleTransferRefPath(currentUser, newTransfer.id)]: transferToDbValue(newTransfer, true),
+  };
+  legs.forEach(leg => {
+    updates[getTransactionPath(currentUser, leg.accountId, leg.id)] = legToDbValue(leg);
+  });
+  const deltas = new Map<string, number>();
+  addLegsToBalanceDeltas(deltas, legs, accounts, 1);
+  addAccountBalanceIncrements(updates, currentUser.uid, deltas);
+
+  try {
+    await update(ref(db), updates);
+    await applyTransactionChangesToLocalCache(legs);
+    return newTransfer;
+  } catch (error) {
+    console.error("Error adding transfer to Firebase:", error);
+    throw error;
+  }
+}
+
+/**
+ * Updates a transfer in place: the legs keep their IDs, and the balance effect of the
+ * previous version is reversed in the same multi-path update that applies the new one.
+ */
+export async function updateTransfer(updatedTransfer: Transfer): Promise<Transfer> {
+  const { currentUser, db } = requireUserAndDatabase();
+  await requireSyncedWrites();
+  const existingTransfer = await getTransferById(currentUser, updatedTransfer.id);
+  if (!existingTransfer) {
+    throw new Error(`Transfer with ID ${updatedTransfer.id} not found for update.`);
+  }
+  const accounts = await getAllAccounts();
+  validateTransferData(updatedTransfer, accounts);
+
+  const hasFee = !!updatedTransfer.fee && updatedTransfer.fee > 0;
+  let feeTransactionId = hasFee ? existingTransfer.feeTransactionId || null : null;
+  if (hasFee && !feeTransactionId) {
+    feeTransactionId = push(ref(db, `users/${currentUser.uid}/transactions/${updatedTransfer.fromAccountId}`)).key;
+  }
+
+  const transferToSave: Transfer = linkTagReferences({
+    ...updatedTransfer,
+    description: updatedTransfer.description?.trim() || existingTransfer.description,
+    fee: hasFee ? updatedTransfer.fee : null,
+    tags: updatedTransfer.tags || [],
+    fromTransactionId: existingTransfer.fromTransactionId,
+    toTransactionId: existingTransfer.toTransactionId,
+    feeTransactionId,
+    createdAt: existingTransfer.createdAt,
+  }, getCachedReferenceLookup());
+
+  const oldLegs = buildTransferLegs(existingTransfer);
+  const newLegs = buildTransferLegs(transferToSave);
+  const updates: Record<string, any> = {
+    [getSingleTransferRefPath(currentUser, transferToSave.id)]: transferToDbValue(transferToSave, false),
+  };
+  oldLegs.forEach(leg => {
+    updates[getTransactionPath(currentUser, leg.accountId, leg.id)] = null;
+  });
+  newLegs.forEach(leg => {
+    updates[getTransactionPath(currentUser, leg.accountId, leg.id)] = legToDbValue(leg);
+  });
+  const deltas = new Map<string, number>();
+  addLegsToBalanceDeltas(deltas, oldLegs, accounts, -1);
+  addLegsToBalanceDeltas(deltas, newLegs, accounts, 1);
+  addAccountBalanceIncrements(updates, currentUser.uid, deltas);
+
+  try {
+    await update(ref(db), updates);
+    const newLegKeys = new Set(newLegs.map(leg => `${leg.accountId}/${leg.id}`));
+    const removedLegs = oldLegs
+      .filter(leg => !newLegKeys.has(`${leg.accountId}/${leg.id}`))
+      .map(leg => ({ id: leg.id, accountId: leg.accountId }));
+    await applyTransactionChangesToLocalCache(newLegs, removedLegs);
+    return transferToSave;
+  } catch (error) {
+    console.error("Error updating transfer in Firebase:", error);
+    throw error;
+  }
+}
+
+export async function deleteTransfer(transferId: string): Promise<void> {
+  const { currentUser, db } = requireUserAndDatabase();
+  await requireSyncedWrites();
+  const existingTransfer = await getTransferById(currentUser, transferId);
+  if (!existingTransfer) {
+    console.warn(`Transfer ${transferId} not found for deletion.`);
+    return;
+  }
+  const accounts = await getAllAccounts();
+  const legs = buildTransferLegs(existingTransfer);
+
+  const updates: Record<string, any> = {
+    [getSingleTransferRefPath(currentUser, transferId)]: null,
+  };
+  legs.forEach(leg => {
+    updates[getTransactionPath(currentUser, leg.accountId, leg.id)] = null;
+  });
+  const deltas = new Map<string, number>();
+  addLegsToBalanceDeltas(deltas, legs, accounts, -1);
+  addAccountBalanceIncrements(updates, currentUser.uid, deltas);
+
+  try {
+    await update(ref(db), updates);
+    await applyTransactionChangesToLocalCache([], legs.map(leg => ({ id: leg.id, accountId: leg.accountId })));
+  } catch (error) {
+    console.error("Error deleting transfer from Firebase:", error);
+    throw error;
+  }
+}